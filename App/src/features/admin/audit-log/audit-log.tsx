@@ -0,0 +1,501 @@
+/**
+ * Audit Log admin component
+ *
+ * Lists privileged admin actions, newest first, with their before/after
+ * changes. Entries can be filtered by the admin who acted, the document
+ * they touched, and a date range.
+ */
+
+import { Fragment, useMemo, useState } from 'react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+import { useCollection, useDocument } from 'react-firebase-hooks/firestore'
+import {
+	AlertTriangle,
+	ArrowLeft,
+	ChevronDown,
+	ChevronUp,
+	History,
+	Loader2,
+	X,
+} from 'lucide-react'
+import { Link, useNavigate } from 'react-router-dom'
+import { formatDistanceToNow } from 'date-fns'
+
+import { auth } from '@/firebase/auth'
+import { adminPlayersQuery, getPlayerRef } from '@/firebase/collections/players'
+import { auditLogQuery } from '@/firebase/collections/audit-log'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { PageContainer, PageHeader, QueryError } from '@/shared/components'
+import { useDebounce, useQueryErrorHandler } from '@/shared/hooks'
+import { AuditLogDocument, AuditValue } from '@/types'
+
+/** Select value meaning "any admin" */
+const ALL_ADMINS = 'all'
+
+/** Maximum entries shown at once */
+const PAGE_SIZE = 100
+
+/**
+ * Parses a `yyyy-mm-dd` date input value as local midnight
+ */
+const parseDateInput = (value: string, offsetDays = 0): Date | undefined => {
+	if (!value) return undefined
+	const date = new Date(`${value}T00:00:00`)
+	date.setDate(date.getDate() + offsetDays)
+	return date
+}
+
+/**
+ * Renders an audit value compactly for the changes table
+ */
+const formatAuditValue = (value: AuditValue): string => {
+	if (value === null) return '—'
+	if (typeof value === 'object') return JSON.stringify(value)
+	return String(value)
+}
+
+export const AuditLog = () => {
+	const navigate = useNavigate()
+	const [user] = useAuthState(auth)
+	const playerRef = getPlayerRef(user)
+	const [playerSnapshot, playerLoading, playerError] = useDocument(playerRef)
+
+	const isAdmin = playerSnapshot?.data()?.admin || false
+
+	// Filters
+	const [actorId, setActorId] = useState<string>(ALL_ADMINS)
+	const [targetPathInput, setTargetPathInput] = useState('')
+	const [fromDate, setFromDate] = useState('')
+	const [toDate, setToDate] = useState('')
+	const targetPath = useDebounce(
+		targetPathInput.trim().replace(/^\/+|\/+$/g, ''),
+		400
+	)
+
+	const [adminsSnapshot] = useCollection(isAdmin ? adminPlayersQuery() : null)
+	const adminNames = useMemo(() => {
+		const names = new Map<string, string>()
+		adminsSnapshot?.docs.forEach((adminDoc) => {
+			const admin = adminDoc.data()
+			names.set(adminDoc.id, `${admin.firstname} ${admin.lastname}`)
+		})
+		return names
+	}, [adminsSnapshot])
+
+	const logQuery = useMemo(
+		() =>
+			isAdmin
+				? auditLogQuery({
+						actorId: actorId === ALL_ADMINS ? undefined : actorId,
+						targetPath: targetPath || undefined,
+						from: parseDateInput(fromDate),
+						// The "to" date is inclusive, so stop at the following midnight
+						to: parseDateInput(toDate, 1),
+						pageSize: PAGE_SIZE,
+					})
+				: null,
+		[isAdmin, actorId, targetPath, fromDate, toDate]
+	)
+	const [logSnapshot, logLoading, logError] = useCollection(logQuery)
+
+	useQueryErrorHandler({
+		error: playerError,
+		component: 'AuditLog',
+		errorLabel: 'player',
+	})
+	useQueryErrorHandler({
+		error: logError,
+		component: 'AuditLog',
+		errorLabel: 'audit log',
+	})
+
+	const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
+	const toggleExpanded = (entryId: string) => {
+		setExpandedIds((previous) => {
+			const next = new Set(previous)
+			if (next.has(entryId)) {
+				next.delete(entryId)
+			} else {
+				next.add(entryId)
+			}
+			return next
+		})
+	}
+
+	const hasFilters =
+		actorId !== ALL_ADMINS || targetPathInput !== '' || fromDate || toDate
+	const clearFilters = () => {
+		setActorId(ALL_ADMINS)
+		setTargetPathInput('')
+		setFromDate('')
+		setToDate('')
+	}
+
+	if (playerLoading) {
+		return (
+			<div className='container mx-auto px-4 py-8'>
+				<Card>
+					<CardContent className='p-6 text-center'>
+						<p>Loading...</p>
+					</CardContent>
+				</Card>
+			</div>
+		)
+	}
+
+	if (!isAdmin) {
+		return (
+			<div className='container mx-auto px-4 py-8'>
+				<Card>
+					<CardContent className='p-6 text-center'>
+						<div className='flex items-center justify-center gap-2 text-red-600 mb-4'>
+							<AlertTriangle className='h-6 w-6' />
+							<h2 className='text-xl font-semibold'>Access Denied</h2>
+						</div>
+						<p className='text-muted-foreground'>
+							You don't have permission to access the audit log.
+						</p>
+					</CardContent>
+				</Card>
+			</div>
+		)
+	}
+
+	const entries = logSnapshot?.docs ?? []
+
+	return (
+		<PageContainer withSpacing withGap>
+			<PageHeader
+				title='Audit Log'
+				description='Review privileged actions taken by administrators'
+				icon={History}
+			/>
+
+			{/* Back to Dashboard */}
+			<div className='flex items-center justify-between gap-4'>
+				<Button variant='outline' asChild>
+					<Link to='/admin'>
+						<ArrowLeft className='h-4 w-4 mr-2' />
+						Back to Admin Dashboard
+					</Link>
+				</Button>
+			</div>
+
+			{/* Filters */}
+			<Card>
+				<CardHeader>
+					<CardTitle className='text-lg'>Filters</CardTitle>
+				</CardHeader>
+				<CardContent>
+					<div className='grid gap-4 md:grid-cols-2 lg:grid-cols-4'>
+						<div className='space-y-2'>
+							<Label htmlFor='audit-actor'>Admin</Label>
+							<Select value={actorId} onValueChange={setActorId}>
+								<SelectTrigger id='audit-actor'>
+									<SelectValue placeholder='All admins' />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={ALL_ADMINS}>All admins</SelectItem>
+									{[...adminNames.entries()]
+										.sort(([, a], [, b]) => a.localeCompare(b))
+										.map(([id, name]) => (
+											<SelectItem key={id} value={id}>
+												{name}
+											</SelectItem>
+										))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className='space-y-2'>
+							<Label htmlFor='audit-target'>Target document</Label>
+							<Input
+								id='audit-target'
+								placeholder='e.g. games/abc123'
+								value={targetPathInput}
+								onChange={(event) => setTargetPathInput(event.target.value)}
+							/>
+						</div>
+						<div className='space-y-2'>
+							<Label htmlFor='audit-from'>From</Label>
+							<Input
+								id='audit-from'
+								type='date'
+								value={fromDate}
+								max={toDate || undefined}
+								onChange={(event) => setFromDate(event.target.value)}
+							/>
+						</div>
+						<div className='space-y-2'>
+							<Label htmlFor='audit-to'>To</Label>
+							<Input
+								id='audit-to'
+								type='date'
+								value={toDate}
+								min={fromDate || undefined}
+								onChange={(event) => setToDate(event.target.value)}
+							/>
+						</div>
+					</div>
+					{hasFilters && (
+						<Button
+							variant='ghost'
+							size='sm'
+							className='mt-4'
+							onClick={clearFilters}
+						>
+							<X className='h-4 w-4 mr-1' />
+							Clear filters
+						</Button>
+					)}
+				</CardContent>
+			</Card>
+
+			{/* Entries */}
+			<Card>
+				<CardHeader>
+					<CardTitle className='flex items-center gap-2'>
+						<History className='h-5 w-5 text-slate-600' />
+						Entries ({entries.length}
+						{entries.length === PAGE_SIZE ? '+' : ''})
+					</CardTitle>
+				</CardHeader>
+				<CardContent>
+					{logError ? (
+						<QueryError
+							error={logError}
+							title='Error Loading Audit Log'
+							onRetry={() => navigate(0)}
+						/>
+					) : logLoading ? (
+						<div className='text-center py-12'>
+							<Loader2 className='h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground' />
+							<p className='text-muted-foreground'>Loading audit log...</p>
+						</div>
+					) : entries.length === 0 ? (
+						<div className='text-center py-12'>
+							<History className='h-12 w-12 text-muted-foreground mx-auto mb-4 opacity-50' />
+							<p className='text-lg font-medium text-muted-foreground'>
+								No Entries
+							</p>
+							<p className='text-sm text-muted-foreground mt-2'>
+								{hasFilters
+									? 'No admin actions match these filters'
+									: 'No admin actions have been recorded yet'}
+							</p>
+						</div>
+					) : (
+						<div className='overflow-x-auto'>
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead className='w-8' />
+										<TableHead>When</TableHead>
+										<TableHead>Admin</TableHead>
+										<TableHead>Action</TableHead>
+										<TableHead>Targets</TableHead>
+										<TableHead className='text-right'>Changes</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{entries.map((entryDoc) => {
+										const entry = entryDoc.data()
+										const expanded = expandedIds.has(entryDoc.id)
+										return (
+											<Fragment key={entryDoc.id}>
+												<TableRow>
+													<TableCell>
+														<Button
+															variant='ghost'
+															size='sm'
+															className='h-6 w-6 p-0'
+															onClick={() => toggleExpanded(entryDoc.id)}
+															aria-label={
+																expanded ? 'Hide changes' : 'Show changes'
+															}
+														>
+															{expanded ? (
+																<ChevronUp className='h-4 w-4' />
+															) : (
+																<ChevronDown className='h-4 w-4' />
+															)}
+														</Button>
+													</TableCell>
+													<TableCell className='whitespace-nowrap text-sm'>
+														<div>
+															{entry.createdAt
+																.toDate()
+																.toLocaleString('en-US', {
+																	dateStyle: 'medium',
+																	timeStyle: 'short',
+																})}
+														</div>
+														<div className='text-xs text-muted-foreground'>
+															{formatDistanceToNow(entry.createdAt.toDate(), {
+																addSuffix: true,
+															})}
+														</div>
+													</TableCell>
+													<TableCell className='text-sm'>
+														<button
+															type='button'
+															className='hover:underline text-left'
+															onClick={() => setActorId(entry.actor.id)}
+														>
+															{adminNames.get(entry.actor.id) ??
+																entry.actorEmail ??
+																entry.actor.id}
+														</button>
+													</TableCell>
+													<TableCell>
+														<Badge variant='outline' className='font-mono'>
+															{entry.action}
+														</Badge>
+													</TableCell>
+													<TableCell>
+														<TargetPaths
+															entry={entry}
+															onSelect={setTargetPathInput}
+														/>
+													</TableCell>
+													<TableCell className='text-right text-sm'>
+														{entry.changes.length}
+													</TableCell>
+												</TableRow>
+												{expanded && (
+													<TableRow className='bg-muted/30 hover:bg-muted/30'>
+														<TableCell />
+														<TableCell colSpan={5}>
+															<EntryDetails entry={entry} />
+														</TableCell>
+													</TableRow>
+												)}
+											</Fragment>
+										)
+									})}
+								</TableBody>
+							</Table>
+						</div>
+					)}
+				</CardContent>
+			</Card>
+		</PageContainer>
+	)
+}
+
+/** Targets beyond this many are summarized as "+N more" */
+const MAX_TARGETS_SHOWN = 3
+
+/**
+ * An entry's target paths; clicking one filters the log by that target
+ */
+const TargetPaths = ({
+	entry,
+	onSelect,
+}: {
+	entry: AuditLogDocument
+	onSelect: (path: string) => void
+}) => {
+	const shown = entry.targetPaths.slice(0, MAX_TARGETS_SHOWN)
+	const hidden = entry.targetPaths.length - shown.length
+
+	return (
+		<div className='flex flex-col gap-0.5'>
+			{shown.map((path) => (
+				<button
+					key={path}
+					type='button'
+					className='font-mono text-xs text-left hover:underline break-all'
+					onClick={() => onSelect(path)}
+				>
+					{path}
+				</button>
+			))}
+			{hidden > 0 && (
+				<span className='text-xs text-muted-foreground'>+{hidden} more</span>
+			)}
+		</div>
+	)
+}
+
+/**
+ * Field-level before/after changes and any extra details for an entry
+ */
+const EntryDetails = ({ entry }: { entry: AuditLogDocument }) => {
+	const details = Object.entries(entry.details)
+
+	return (
+		<div className='space-y-4 py-2'>
+			{entry.changes.length === 0 ? (
+				<p className='text-sm text-muted-foreground'>
+					No field changes recorded for this action.
+				</p>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Field</TableHead>
+							<TableHead>Before</TableHead>
+							<TableHead>After</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{entry.changes.map((change) => (
+							<TableRow key={change.field}>
+								<TableCell className='font-mono text-xs'>
+									{change.field}
+								</TableCell>
+								<TableCell className='font-mono text-xs break-all text-red-700 dark:text-red-400'>
+									{formatAuditValue(change.before)}
+								</TableCell>
+								<TableCell className='font-mono text-xs break-all text-green-700 dark:text-green-400'>
+									{formatAuditValue(change.after)}
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+			{details.length > 0 && (
+				<dl className='grid gap-x-4 gap-y-1 text-xs sm:grid-cols-[max-content_1fr]'>
+					{details.map(([key, value]) => (
+						<Fragment key={key}>
+							<dt className='font-medium text-muted-foreground'>{key}</dt>
+							<dd className='font-mono break-all'>{formatAuditValue(value)}</dd>
+						</Fragment>
+					))}
+				</dl>
+			)}
+			{entry.targetPaths.length > MAX_TARGETS_SHOWN && (
+				<div className='text-xs'>
+					<p className='font-medium text-muted-foreground mb-1'>All targets</p>
+					<ul className='font-mono space-y-0.5'>
+						{entry.targetPaths.map((path) => (
+							<li key={path} className='break-all'>
+								{path}
+							</li>
+						))}
+					</ul>
+				</div>
+			)}
+		</div>
+	)
+}
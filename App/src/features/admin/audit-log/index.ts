@@ -0,0 +1 @@
+export { AuditLog } from './audit-log'
@@ -19,6 +19,7 @@ import {
 	X,
 	Loader2,
 	Trophy,
+	Wand2,
 } from 'lucide-react'
 import { Link, useNavigate } from 'react-router-dom'
 import { toast } from 'sonner'
@@ -31,6 +32,7 @@ import {
 	createBadgeViaFunction,
 	updateBadgeViaFunction,
 	deleteBadgeViaFunction,
+	evaluateBadgesViaFunction,
 } from '@/firebase/collections/functions'
 import {
 	Card,
@@ -73,7 +75,13 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from '@/components/ui/select'
-import { BadgeDocument, PlayerDocument, SeasonDocument } from '@/types'
+import {
+	BadgeCriterion,
+	BadgeCriterionType,
+	BadgeDocument,
+	PlayerDocument,
+	SeasonDocument,
+} from '@/types'
 import { logger } from '@/shared/utils'
 import { useQueryErrorHandler } from '@/shared/hooks'
 import { Badge } from '@/components/ui/badge'
@@ -83,10 +91,103 @@ interface ProcessedBadge {
 	name: string
 	description: string
 	imageUrl: string | null
+	criterion: BadgeCriterion | null
+	totalTeamsAwarded: number
 	createdByName: string
 	createdAt: Date
 }
 
+interface BadgeCriterionOption {
+	type: BadgeCriterionType
+	label: string
+	/** Label for the threshold input; omitted when the rule has no threshold */
+	thresholdLabel?: string
+	describe: (threshold?: number) => string
+}
+
+const BADGE_CRITERION_OPTIONS: BadgeCriterionOption[] = [
+	{
+		type: BadgeCriterionType.WIN_MARGIN,
+		label: 'Win margin',
+		thresholdLabel: 'Minimum margin (points)',
+		describe: (n) => `Win a game by ${n}+ points`,
+	},
+	{
+		type: BadgeCriterionType.GAME_TOTAL_POINTS,
+		label: 'High-scoring game',
+		thresholdLabel: 'Minimum combined points',
+		describe: (n) => `Play in a game with ${n}+ total points`,
+	},
+	{
+		type: BadgeCriterionType.POINTS_AT_LEAST,
+		label: 'Points scored (at least)',
+		thresholdLabel: 'Minimum points',
+		describe: (n) => `Score ${n}+ points in a game`,
+	},
+	{
+		type: BadgeCriterionType.POINTS_AT_MOST,
+		label: 'Points scored (at most)',
+		thresholdLabel: 'Maximum points',
+		describe: (n) => `Score ${n} or fewer points in a game`,
+	},
+	{
+		type: BadgeCriterionType.WIN_STREAK,
+		label: 'Win streak',
+		thresholdLabel: 'Wins in a row',
+		describe: (n) => `Win ${n} games in a row`,
+	},
+	{
+		type: BadgeCriterionType.LOSS_STREAK,
+		label: 'Loss streak',
+		thresholdLabel: 'Losses in a row',
+		describe: (n) => `Lose ${n} games in a row`,
+	},
+	{
+		type: BadgeCriterionType.FIRST_REGISTERED,
+		label: 'First team registered',
+		describe: () => 'First team to fully register for a season',
+	},
+	{
+		type: BadgeCriterionType.LAST_REGISTERED,
+		label: 'Last team registered',
+		describe: () => 'Last team to fully register for a season',
+	},
+	{
+		type: BadgeCriterionType.SEASONS_PLAYED,
+		label: 'Seasons played',
+		thresholdLabel: 'Seasons',
+		describe: (n) => `Compete in ${n} different seasons`,
+	},
+	{
+		type: BadgeCriterionType.CONSECUTIVE_SEASONS,
+		label: 'Consecutive seasons',
+		thresholdLabel: 'Seasons in a row',
+		describe: (n) => `Compete in ${n} seasons in a row`,
+	},
+	{
+		type: BadgeCriterionType.PLACEMENT_IMPROVED,
+		label: 'Placement improved',
+		describe: () => 'Place higher than the previous season',
+	},
+	{
+		type: BadgeCriterionType.PLACEMENT_DECLINED,
+		label: 'Placement declined',
+		describe: () => 'Place lower than the previous season',
+	},
+]
+
+/** Select value for badges that are only awarded by hand */
+const MANUAL_CRITERION = 'manual'
+
+const getCriterionOption = (type: string) =>
+	BADGE_CRITERION_OPTIONS.find((option) => option.type === type)
+
+const describeCriterion = (criterion: BadgeCriterion | null): string =>
+	criterion
+		? (getCriterionOption(criterion.type)?.describe(criterion.threshold) ??
+			criterion.type)
+		: 'Manual'
+
 type DialogMode = 'create' | 'edit' | 'closed'
 
 export const BadgeManagement = () => {
@@ -167,6 +268,8 @@ export const BadgeManagement = () => {
 							name: badgeData.name,
 							description: badgeData.description,
 							imageUrl: badgeData.imageUrl,
+							criterion: badgeData.criterion ?? null,
+							totalTeamsAwarded: badgeData.stats?.totalTeamsAwarded ?? 0,
 							createdByName,
 							createdAt: badgeData.createdAt.toDate(),
 						} as ProcessedBadge
@@ -177,6 +280,8 @@ export const BadgeManagement = () => {
 							name: badgeData.name,
 							description: badgeData.description,
 							imageUrl: badgeData.imageUrl,
+							criterion: badgeData.criterion ?? null,
+							totalTeamsAwarded: badgeData.stats?.totalTeamsAwarded ?? 0,
 							createdByName: 'Unknown',
 							createdAt: badgeData.createdAt.toDate(),
 						} as ProcessedBadge
@@ -207,6 +312,8 @@ export const BadgeManagement = () => {
 		description: '',
 		imageFile: null as File | null,
 		removeImage: false,
+		criterionType: MANUAL_CRITERION as string,
+		threshold: '',
 	})
 
 	// Image preview state
@@ -214,6 +321,7 @@ export const BadgeManagement = () => {
 
 	// Loading states
 	const [isSubmitting, setIsSubmitting] = useState(false)
+	const [isEvaluating, setIsEvaluating] = useState(false)
 
 	// Reset form
 	const resetForm = () => {
@@ -222,6 +330,8 @@ export const BadgeManagement = () => {
 			description: '',
 			imageFile: null,
 			removeImage: false,
+			criterionType: MANUAL_CRITERION,
+			threshold: '',
 		})
 		setImagePreview(null)
 		setSelectedBadge(null)
@@ -242,6 +352,8 @@ export const BadgeManagement = () => {
 			description: badge.description,
 			imageFile: null,
 			removeImage: false,
+			criterionType: badge.criterion?.type ?? MANUAL_CRITERION,
+			threshold: badge.criterion?.threshold?.toString() ?? '',
 		})
 		setDialogMode('edit')
 	}
@@ -291,6 +403,21 @@ export const BadgeManagement = () => {
 			return
 		}
 
+		// Build the badge rule from the form
+		const criterionOption = getCriterionOption(formData.criterionType)
+		let criterion: BadgeCriterion | null = null
+		if (criterionOption) {
+			criterion = { type: criterionOption.type }
+			if (criterionOption.thresholdLabel) {
+				const threshold = Number(formData.threshold)
+				if (!formData.threshold.trim() || !Number.isInteger(threshold)) {
+					toast.error('Badge rule threshold must be a whole number')
+					return
+				}
+				criterion.threshold = threshold
+			}
+		}
+
 		setIsSubmitting(true)
 
 		try {
@@ -309,6 +436,7 @@ export const BadgeManagement = () => {
 					description: formData.description,
 					imageBlob,
 					imageContentType,
+					criterion,
 				})
 
 				toast.success(result.message)
@@ -336,6 +464,11 @@ export const BadgeManagement = () => {
 					imageBlob,
 					imageContentType,
 					removeImage: formData.removeImage,
+					criterion:
+						JSON.stringify(criterion) !==
+						JSON.stringify(selectedBadge.criterion)
+							? criterion
+							: undefined,
 				}
 
 				const result = await updateBadgeViaFunction(updatePayload)
@@ -374,6 +507,32 @@ export const BadgeManagement = () => {
 		}
 	}
 
+	// Run the badge rules for the selected season
+	const handleEvaluateRules = async () => {
+		setIsEvaluating(true)
+		try {
+			const result = await evaluateBadgesViaFunction({
+				seasonId: selectedSeasonId || undefined,
+			})
+			toast.success(result.message, {
+				description:
+					result.awards.length > 0
+						? result.awards
+								.map((award) => award.badgeName)
+								.filter((name, index, names) => names.indexOf(name) === index)
+								.join(', ')
+						: `Checked ${result.teamsEvaluated} team(s)`,
+			})
+		} catch (error) {
+			logger.error('Error evaluating badge rules:', error as Error)
+			toast.error(
+				error instanceof Error ? error.message : 'Failed to run badge rules'
+			)
+		} finally {
+			setIsEvaluating(false)
+		}
+	}
+
 	// Handle delete
 	const handleDeleteClick = (badge: ProcessedBadge) => {
 		setBadgeToDelete(badge)
@@ -487,21 +646,35 @@ export const BadgeManagement = () => {
 								View and manage all badges in the system
 							</CardDescription>
 						</div>
-						<Select
-							value={selectedSeasonId}
-							onValueChange={(value) => setSelectedSeasonId(value)}
-						>
-							<SelectTrigger>
-								<SelectValue placeholder='Filter by season' />
-							</SelectTrigger>
-							<SelectContent>
-								{seasons?.map((season) => (
-									<SelectItem key={season.id} value={season.id}>
-										{season.name}
-									</SelectItem>
-								))}
-							</SelectContent>
-						</Select>
+						<div className='flex items-center gap-2'>
+							<Select
+								value={selectedSeasonId}
+								onValueChange={(value) => setSelectedSeasonId(value)}
+							>
+								<SelectTrigger>
+									<SelectValue placeholder='Filter by season' />
+								</SelectTrigger>
+								<SelectContent>
+									{seasons?.map((season) => (
+										<SelectItem key={season.id} value={season.id}>
+											{season.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+							<Button
+								variant='outline'
+								onClick={handleEvaluateRules}
+								disabled={isEvaluating || !selectedSeasonId}
+							>
+								{isEvaluating ? (
+									<Loader2 className='h-4 w-4 mr-2 animate-spin' />
+								) : (
+									<Wand2 className='h-4 w-4 mr-2' />
+								)}
+								Run Badge Rules
+							</Button>
+						</div>
 					</div>
 				</CardHeader>
 				<CardContent>
@@ -519,6 +692,8 @@ export const BadgeManagement = () => {
 									<TableHead className='w-[80px]'>Image</TableHead>
 									<TableHead>Name</TableHead>
 									<TableHead>Description</TableHead>
+									<TableHead>Rule</TableHead>
+									<TableHead className='w-[100px]'>Teams</TableHead>
 									<TableHead className='w-[150px]'>Created By</TableHead>
 									<TableHead className='w-[120px]'>Created</TableHead>
 									<TableHead className='w-[180px] text-right'>
@@ -546,6 +721,14 @@ export const BadgeManagement = () => {
 										<TableCell className='max-w-md truncate'>
 											{badge.description}
 										</TableCell>
+										<TableCell className='text-sm'>
+											{badge.criterion ? (
+												describeCriterion(badge.criterion)
+											) : (
+												<span className='text-muted-foreground'>Manual</span>
+											)}
+										</TableCell>
+										<TableCell>{badge.totalTeamsAwarded}</TableCell>
 										<TableCell>{badge.createdByName}</TableCell>
 										<TableCell className='text-muted-foreground text-sm'>
 											{formatDistanceToNow(badge.createdAt, {
@@ -631,6 +814,62 @@ export const BadgeManagement = () => {
 								/>
 							</div>
 
+							<div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+								<div className='space-y-2'>
+									<Label htmlFor='criterionType'>Award Rule</Label>
+									<Select
+										value={formData.criterionType}
+										onValueChange={(value) =>
+											setFormData((prev) => ({
+												...prev,
+												criterionType: value,
+											}))
+										}
+									>
+										<SelectTrigger id='criterionType' className='w-full'>
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectItem value={MANUAL_CRITERION}>
+												Manual only
+											</SelectItem>
+											{BADGE_CRITERION_OPTIONS.map((option) => (
+												<SelectItem key={option.type} value={option.type}>
+													{option.label}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+									<p className='text-xs text-muted-foreground'>
+										Badges with a rule are awarded automatically when games are
+										scored and when a season ends
+									</p>
+								</div>
+								{getCriterionOption(formData.criterionType)?.thresholdLabel && (
+									<div className='space-y-2'>
+										<Label htmlFor='threshold'>
+											{
+												getCriterionOption(formData.criterionType)
+													?.thresholdLabel
+											}{' '}
+											<span className='text-red-500'>*</span>
+										</Label>
+										<Input
+											id='threshold'
+											type='number'
+											min={0}
+											value={formData.threshold}
+											onChange={(e) =>
+												setFormData((prev) => ({
+													...prev,
+													threshold: e.target.value,
+												}))
+											}
+										/>
+									</div>
+								)}
+							</div>
+
 							<div className='space-y-2'>
 								<Label htmlFor='image'>Badge Logo (Optional)</Label>
 
@@ -30,6 +30,8 @@ import {
 	Award,
 	Palette,
 	RefreshCw,
+	History,
+	Shuffle,
 } from 'lucide-react'
 import { PageContainer, PageHeader } from '@/shared/components'
 
@@ -312,6 +314,27 @@ export const AdminDashboard = () => {
 						</Button>
 					</CardContent>
 				</Card>
+				{/* Free-Agent Draft */}
+				<Card className='hover:shadow-lg transition-shadow'>
+					<CardHeader>
+						<CardTitle className='flex items-center gap-2'>
+							<Shuffle className='h-5 w-5 text-indigo-600' />
+							Free-Agent Draft
+						</CardTitle>
+					</CardHeader>
+					<CardContent className='space-y-4'>
+						<p className='text-sm text-muted-foreground'>
+							Place players without a team on teams with open roster spots,
+							balanced by player rating and teammate requests.
+						</p>
+						<Button asChild className='w-full'>
+							<Link to='/admin/free-agent-draft'>
+								<Shuffle className='h-4 w-4 mr-2' />
+								Run Free-Agent Draft
+							</Link>
+						</Button>
+					</CardContent>
+				</Card>
 				{/* Badge Management */}
 				<Card className='hover:shadow-lg transition-shadow'>
 					<CardHeader>
@@ -354,6 +377,27 @@ export const AdminDashboard = () => {
 						</Button>
 					</CardContent>
 				</Card>
+				{/* Audit Log */}
+				<Card className='hover:shadow-lg transition-shadow'>
+					<CardHeader>
+						<CardTitle className='flex items-center gap-2'>
+							<History className='h-5 w-5 text-slate-600' />
+							Audit Log
+						</CardTitle>
+					</CardHeader>
+					<CardContent className='space-y-4'>
+						<p className='text-sm text-muted-foreground'>
+							Review every privileged action taken by administrators, with
+							before and after values for each change.
+						</p>
+						<Button asChild className='w-full'>
+							<Link to='/admin/audit-log'>
+								<History className='h-4 w-4 mr-2' />
+								Audit Log
+							</Link>
+						</Button>
+					</CardContent>
+				</Card>
 			</div>
 		</PageContainer>
 	)
@@ -0,0 +1,509 @@
+/**
+ * Free-Agent Draft admin component
+ *
+ * Proposes team assignments for the current season's free agents that even
+ * out team strength (total TrueSkill μ), lets administrators adjust any
+ * placement, and adds the players to their teams once approved
+ */
+
+import { useMemo, useState } from 'react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+import { useDocument } from 'react-firebase-hooks/firestore'
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+import {
+	AlertTriangle,
+	ArrowLeft,
+	Loader2,
+	Scale,
+	Shuffle,
+	UserPlus,
+	Users,
+} from 'lucide-react'
+
+import { auth } from '@/firebase/auth'
+import { getPlayerRef } from '@/firebase/collections/players'
+import {
+	applyFreeAgentDraftViaFunction,
+	proposeFreeAgentDraftViaFunction,
+	type ProposeFreeAgentDraftResponse,
+} from '@/firebase/collections/functions'
+import { useSeasonsContext } from '@/providers'
+import { getSeasonRules, logger } from '@/shared/utils'
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import {
+	DestructiveConfirmationDialog,
+	PageContainer,
+	PageHeader,
+} from '@/shared/components'
+
+/** Select value for a free agent left off every team */
+const UNASSIGNED = 'unassigned'
+
+const errorMessageOf = (error: unknown, fallback: string): string =>
+	error && typeof error === 'object' && 'message' in error
+		? (error as { message: string }).message
+		: fallback
+
+export const FreeAgentDraft = () => {
+	const [user] = useAuthState(auth)
+	const playerRef = getPlayerRef(user)
+	const [playerSnapshot, playerLoading] = useDocument(playerRef)
+	const { currentSeasonQueryDocumentSnapshot } = useSeasonsContext()
+
+	const [maxRosterSizeInput, setMaxRosterSizeInput] = useState('')
+	const [proposal, setProposal] =
+		useState<ProposeFreeAgentDraftResponse | null>(null)
+	/** Team ID (or UNASSIGNED) per free agent, starting from the proposal */
+	const [placements, setPlacements] = useState<Record<string, string>>({})
+	const [isProposing, setIsProposing] = useState(false)
+	const [isApplying, setIsApplying] = useState(false)
+
+	const isAdmin = playerSnapshot?.data()?.admin || false
+	const seasonId = currentSeasonQueryDocumentSnapshot?.id
+	const { maxRosterSize: seasonMaxRosterSize } = getSeasonRules(
+		currentSeasonQueryDocumentSnapshot?.data()
+	)
+	const seasonName = currentSeasonQueryDocumentSnapshot?.data().name
+
+	const handlePropose = async () => {
+		if (!seasonId) return
+		const maxRosterSize = maxRosterSizeInput.trim()
+			? Number(maxRosterSizeInput)
+			: undefined
+		if (
+			maxRosterSize !== undefined &&
+			(!Number.isInteger(maxRosterSize) || maxRosterSize < 1)
+		) {
+			toast.error('Max roster size must be a positive whole number')
+			return
+		}
+
+		setIsProposing(true)
+		try {
+			const result = await proposeFreeAgentDraftViaFunction({
+				seasonId,
+				maxRosterSize,
+			})
+			const initialPlacements: Record<string, string> = {}
+			for (const agent of result.freeAgents) {
+				initialPlacements[agent.playerId] = UNASSIGNED
+			}
+			for (const { playerId, teamId } of result.assignments) {
+				initialPlacements[playerId] = teamId
+			}
+			setProposal(result)
+			setPlacements(initialPlacements)
+			toast.success('Draft proposed', {
+				description: `${result.assignments.length} of ${result.freeAgents.length} free agents placed. Nothing has been saved yet.`,
+			})
+		} catch (error) {
+			logger.error('Failed to propose free-agent draft:', error)
+			toast.error('Proposal failed', {
+				description: errorMessageOf(
+					error,
+					'Failed to propose free-agent draft. Please try again.'
+				),
+			})
+		} finally {
+			setIsProposing(false)
+		}
+	}
+
+	const handleApply = async () => {
+		if (!proposal) return
+		const assignments = Object.entries(placements)
+			.filter(([, teamId]) => teamId !== UNASSIGNED)
+			.map(([playerId, teamId]) => ({ playerId, teamId }))
+
+		setIsApplying(true)
+		try {
+			const result = await applyFreeAgentDraftViaFunction({
+				seasonId: proposal.seasonId,
+				maxRosterSize: proposal.maxRosterSize,
+				assignments,
+			})
+			toast.success('Draft applied', { description: result.message })
+			setProposal(null)
+			setPlacements({})
+		} catch (error) {
+			logger.error('Failed to apply free-agent draft:', error)
+			toast.error('Apply failed', {
+				description: errorMessageOf(
+					error,
+					'Failed to apply free-agent draft. Please try again.'
+				),
+			})
+		} finally {
+			setIsApplying(false)
+		}
+	}
+
+	// Team balance recomputed from the current (possibly edited) placements
+	const teamRows = useMemo(() => {
+		if (!proposal) return []
+		const muByPlayer = new Map(
+			proposal.freeAgents.map((agent) => [agent.playerId, agent.mu])
+		)
+		return proposal.teamSummaries
+			.map((summary) => {
+				const added = Object.entries(placements).filter(
+					([, teamId]) => teamId === summary.teamId
+				)
+				return {
+					...summary,
+					rosterSizeAfter: summary.rosterSizeBefore + added.length,
+					totalMuAfter:
+						summary.totalMuBefore +
+						added.reduce(
+							(sum, [playerId]) => sum + (muByPlayer.get(playerId) ?? 0),
+							0
+						),
+					added: added.length,
+				}
+			})
+			.sort((a, b) => b.totalMuAfter - a.totalMuAfter)
+	}, [proposal, placements])
+
+	const overLimitTeams = teamRows.filter(
+		(team) => proposal && team.rosterSizeAfter > proposal.maxRosterSize
+	)
+	const assignedCount = Object.values(placements).filter(
+		(teamId) => teamId !== UNASSIGNED
+	).length
+	const strengthSpread =
+		teamRows.length > 1
+			? teamRows[0].totalMuAfter - teamRows[teamRows.length - 1].totalMuAfter
+			: 0
+
+	const sortedFreeAgents = useMemo(
+		() =>
+			proposal ? [...proposal.freeAgents].sort((a, b) => b.mu - a.mu) : [],
+		[proposal]
+	)
+
+	if (playerLoading) {
+		return (
+			<PageContainer>
+				<div className='flex justify-center items-center h-64'>
+					<p>Loading...</p>
+				</div>
+			</PageContainer>
+		)
+	}
+
+	if (!isAdmin) {
+		return (
+			<PageContainer>
+				<Card>
+					<CardContent className='pt-6'>
+						<div className='flex items-center justify-center gap-2 text-red-600 mb-4'>
+							<AlertTriangle className='h-6 w-6' />
+							<h2 className='text-xl font-semibold'>Access Denied</h2>
+						</div>
+						<p className='text-muted-foreground text-center'>
+							You don't have permission to access the free-agent draft.
+						</p>
+					</CardContent>
+				</Card>
+			</PageContainer>
+		)
+	}
+
+	return (
+		<PageContainer withSpacing withGap>
+			<PageHeader
+				title='Free-Agent Draft'
+				description='Place players without a team on the teams with open roster spots, evening out team strength'
+				icon={Shuffle}
+			/>
+
+			<div className='flex items-center justify-between'>
+				<Button variant='outline' asChild>
+					<Link to='/admin'>
+						<ArrowLeft className='h-4 w-4 mr-2' />
+						Back to Admin Dashboard
+					</Link>
+				</Button>
+			</div>
+
+			<Card>
+				<CardHeader>
+					<CardTitle className='flex items-center gap-2'>
+						<Shuffle className='h-5 w-5 text-indigo-600' />
+						Propose Draft
+					</CardTitle>
+					<CardDescription>
+						Proposes placements for {seasonName ?? 'the current season'} using
+						player ratings, roster limits, and teammate requests. Nothing is
+						saved until you apply the draft.
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<div className='flex flex-col sm:flex-row sm:items-end gap-4'>
+						<div className='space-y-2'>
+							<Label htmlFor='max-roster-size'>Max roster size</Label>
+							<Input
+								id='max-roster-size'
+								type='number'
+								min={1}
+								max={seasonMaxRosterSize ?? undefined}
+								placeholder={
+									seasonMaxRosterSize !== null
+										? `Season limit (${seasonMaxRosterSize})`
+										: 'League default'
+								}
+								value={maxRosterSizeInput}
+								onChange={(e) => setMaxRosterSizeInput(e.target.value)}
+								className='w-40'
+							/>
+						</div>
+						<Button
+							onClick={handlePropose}
+							disabled={!seasonId || isProposing || isApplying}
+						>
+							{isProposing ? (
+								<Loader2 className='h-4 w-4 mr-2 animate-spin' />
+							) : (
+								<Shuffle className='h-4 w-4 mr-2' />
+							)}
+							{proposal ? 'Propose Again' : 'Propose Draft'}
+						</Button>
+					</div>
+				</CardContent>
+			</Card>
+
+			{proposal && (
+				<>
+					<Card>
+						<CardHeader>
+							<CardTitle className='flex items-center gap-2'>
+								<Scale className='h-5 w-5 text-blue-600' />
+								Team Balance
+							</CardTitle>
+							<CardDescription>
+								Total μ per team after the draft (max roster size{' '}
+								{proposal.maxRosterSize}). Strongest to weakest spread:{' '}
+								{strengthSpread.toFixed(1)}
+							</CardDescription>
+						</CardHeader>
+						<CardContent>
+							<div className='overflow-x-auto'>
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>Team</TableHead>
+											<TableHead className='text-right'>Roster</TableHead>
+											<TableHead className='text-right'>Added</TableHead>
+											<TableHead className='text-right'>
+												Total μ before
+											</TableHead>
+											<TableHead className='text-right'>
+												Total μ after
+											</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{teamRows.map((team) => (
+											<TableRow key={team.teamId}>
+												<TableCell className='font-medium'>
+													{team.name}
+												</TableCell>
+												<TableCell
+													className={`text-right ${team.rosterSizeAfter > proposal.maxRosterSize ? 'text-red-600 font-medium' : ''}`}
+												>
+													{team.rosterSizeBefore} → {team.rosterSizeAfter}
+												</TableCell>
+												<TableCell className='text-right'>
+													{team.added}
+												</TableCell>
+												<TableCell className='text-right'>
+													{team.totalMuBefore.toFixed(1)}
+												</TableCell>
+												<TableCell className='text-right font-medium'>
+													{team.totalMuAfter.toFixed(1)}
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							</div>
+						</CardContent>
+					</Card>
+
+					<Card>
+						<CardHeader>
+							<CardTitle className='flex items-center gap-2'>
+								<Users className='h-5 w-5 text-purple-600' />
+								Free Agents ({proposal.freeAgents.length})
+							</CardTitle>
+							<CardDescription>
+								Change a player's team, or leave them unassigned, before
+								applying.
+							</CardDescription>
+						</CardHeader>
+						<CardContent className='space-y-4'>
+							{proposal.unmetRequests.length > 0 && (
+								<Alert>
+									<AlertTriangle className='h-4 w-4' />
+									<AlertDescription>
+										The proposal could not keep these teammate requests
+										together:{' '}
+										{proposal.unmetRequests
+											.map(
+												({ playerId, teammateId }) =>
+													`${proposal.playerNames[playerId] ?? playerId} → ${proposal.playerNames[teammateId] ?? teammateId}`
+											)
+											.join(', ')}
+									</AlertDescription>
+								</Alert>
+							)}
+							{proposal.freeAgents.length === 0 ? (
+								<div className='text-center py-12'>
+									<Users className='h-12 w-12 text-muted-foreground mx-auto mb-4' />
+									<p className='text-lg font-medium text-muted-foreground'>
+										No Free Agents
+									</p>
+									<p className='text-sm text-muted-foreground mt-2'>
+										Every player signed up for this season is on a team.
+									</p>
+								</div>
+							) : (
+								<div className='overflow-x-auto'>
+									<Table>
+										<TableHeader>
+											<TableRow>
+												<TableHead>Name</TableHead>
+												<TableHead className='text-right'>μ</TableHead>
+												<TableHead>Registration</TableHead>
+												<TableHead>Requested teammates</TableHead>
+												<TableHead>Team</TableHead>
+											</TableRow>
+										</TableHeader>
+										<TableBody>
+											{sortedFreeAgents.map((agent) => (
+												<TableRow key={agent.playerId}>
+													<TableCell className='font-medium'>
+														{agent.name}
+													</TableCell>
+													<TableCell className='text-right'>
+														{agent.mu.toFixed(1)}
+														{!agent.ranked && (
+															<Badge variant='outline' className='ml-2'>
+																Unranked
+															</Badge>
+														)}
+													</TableCell>
+													<TableCell className='text-sm'>
+														{agent.paid ? 'Paid' : 'Unpaid'},{' '}
+														{agent.signed ? 'signed' : 'unsigned'}
+													</TableCell>
+													<TableCell className='text-sm text-muted-foreground'>
+														{agent.requestedTeammateIds.length > 0
+															? agent.requestedTeammateIds
+																	.map((id) => proposal.playerNames[id] ?? id)
+																	.join(', ')
+															: '—'}
+													</TableCell>
+													<TableCell>
+														<Select
+															value={placements[agent.playerId] ?? UNASSIGNED}
+															onValueChange={(value) =>
+																setPlacements((current) => ({
+																	...current,
+																	[agent.playerId]: value,
+																}))
+															}
+														>
+															<SelectTrigger className='w-48'>
+																<SelectValue />
+															</SelectTrigger>
+															<SelectContent>
+																<SelectItem value={UNASSIGNED}>
+																	Unassigned
+																</SelectItem>
+																{proposal.teamSummaries.map((team) => (
+																	<SelectItem
+																		key={team.teamId}
+																		value={team.teamId}
+																	>
+																		{team.name}
+																	</SelectItem>
+																))}
+															</SelectContent>
+														</Select>
+													</TableCell>
+												</TableRow>
+											))}
+										</TableBody>
+									</Table>
+								</div>
+							)}
+
+							{overLimitTeams.length > 0 && (
+								<Alert variant='destructive'>
+									<AlertTriangle className='h-4 w-4' />
+									<AlertDescription>
+										Over the roster limit:{' '}
+										{overLimitTeams.map((team) => team.name).join(', ')}
+									</AlertDescription>
+								</Alert>
+							)}
+
+							<div className='flex justify-end'>
+								<DestructiveConfirmationDialog
+									title='Apply Free-Agent Draft'
+									description={`This adds ${assignedCount} player${assignedCount === 1 ? '' : 's'} to their teams and cancels their pending offers. Players can only be moved off a team through team management afterwards.`}
+									continueText='Apply Draft'
+									onConfirm={handleApply}
+								>
+									<Button
+										disabled={
+											assignedCount === 0 ||
+											overLimitTeams.length > 0 ||
+											isApplying ||
+											isProposing
+										}
+									>
+										{isApplying ? (
+											<Loader2 className='h-4 w-4 mr-2 animate-spin' />
+										) : (
+											<UserPlus className='h-4 w-4 mr-2' />
+										)}
+										Apply Draft ({assignedCount})
+									</Button>
+								</DestructiveConfirmationDialog>
+							</div>
+						</CardContent>
+					</Card>
+				</>
+			)}
+		</PageContainer>
+	)
+}
@@ -0,0 +1 @@
+export { FreeAgentDraft } from './free-agent-draft'
@@ -1,7 +1,8 @@
 /**
  * Game Management admin component
  *
- * Allows administrators to create, edit, and delete games
+ * Allows administrators to create, edit, and delete games, and to resolve
+ * disputed captain score reports
  */
 
 import { useState, useEffect } from 'react'
@@ -17,6 +18,8 @@ import {
 	AlertTriangle,
 	Plus,
 	Loader2,
+	Trophy,
+	Wand2,
 } from 'lucide-react'
 import { Link, useNavigate } from 'react-router-dom'
 
@@ -66,16 +69,26 @@ import {
 	TableRow,
 } from '@/components/ui/table'
 import { PageContainer, PageHeader, QueryError } from '@/shared/components'
-import { logger } from '@/shared/utils'
+import {
+	GAME_STATUS_LABELS,
+	getGameStatus,
+	getSeasonRules,
+	logger,
+	toLocalIsoTimestamp,
+} from '@/shared/utils'
 import { useQueryErrorHandler } from '@/shared/hooks'
 import {
 	GameDocument,
+	GameStatus,
 	SeasonDocument,
 	SeasonFormat,
 	TeamSeasonDocument,
 } from '@/types'
 import { Timestamp } from '@firebase/firestore'
 import { SwissPairingGuide } from './swiss-pairing-guide'
+import { ScheduleGeneratorDialog } from './schedule-generator-dialog'
+import { PlayoffBracketDialog } from './playoff-bracket-dialog'
+import { ScoreDisputeQueue } from './score-dispute-queue'
 
 interface GameFormData {
 	date: string
@@ -87,8 +100,24 @@ interface GameFormData {
 	awayScore: string
 	type: string
 	seasonId: string
+	/** AUTO_STATUS, or the forfeit/postponed/canceled status to set */
+	status: string
+	forfeitedByTeamId: string
+	rescheduledToGameId: string
 }
 
+/** Status option for games whose status follows their date and scores */
+const AUTO_STATUS = 'auto'
+/** Option for postponed or canceled games with no replacement game */
+const NO_RESCHEDULED_GAME = 'none'
+
+/** Statuses an admin sets by hand; the others follow the date and scores */
+const MANUAL_STATUSES = [
+	GameStatus.FORFEIT,
+	GameStatus.POSTPONED,
+	GameStatus.CANCELED,
+]
+
 const INITIAL_FORM_DATA: GameFormData = {
 	date: '',
 	time: '',
@@ -99,6 +128,9 @@ const INITIAL_FORM_DATA: GameFormData = {
 	awayScore: '',
 	type: '',
 	seasonId: '',
+	status: AUTO_STATUS,
+	forfeitedByTeamId: '',
+	rescheduledToGameId: '',
 }
 
 export const GameManagement = () => {
@@ -144,6 +176,8 @@ export const GameManagement = () => {
 		() => currentSeasonQueryDocumentSnapshot?.id || ''
 	)
 	const [formDialogOpen, setFormDialogOpen] = useState(false)
+	const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false)
+	const [playoffDialogOpen, setPlayoffDialogOpen] = useState(false)
 	const [isSubmitting, setIsSubmitting] = useState(false)
 
 	useEffect(() => {
@@ -227,14 +261,12 @@ export const GameManagement = () => {
 		setFormData((prev) => ({ ...prev, [field]: value }))
 	}
 
-	// Generate Saturdays based on the selected season's date range
-	const getSaturdays = () => {
+	// Generate Saturdays based on a season's date range
+	const getSaturdays = (seasonId: string) => {
 		const saturdays: { date: string; display: string }[] = []
 
 		// Get the selected season
-		const selectedSeason = seasons?.find(
-			(season) => season.id === formData.seasonId
-		)
+		const selectedSeason = seasons?.find((season) => season.id === seasonId)
 
 		if (!selectedSeason) {
 			return saturdays
@@ -263,13 +295,21 @@ export const GameManagement = () => {
 		return saturdays
 	}
 
-	const saturdays = getSaturdays()
-	const timeOptions = [
-		{ value: '18:00', display: '6:00 PM' },
-		{ value: '18:45', display: '6:45 PM' },
-		{ value: '19:30', display: '7:30 PM' },
-		{ value: '20:15', display: '8:15 PM' },
-	]
+	// Time slots and fields come from the season's rules
+	const getTimeOptions = (seasonId: string) =>
+		getSeasonRules(
+			seasons?.find((season) => season.id === seasonId)
+		).allowedTimeSlots.map((slot) => ({
+			value: slot,
+			display: format(new Date(`1970-01-01T${slot}`), 'h:mm a'),
+		}))
+	const getFieldOptions = (seasonId: string) =>
+		getSeasonRules(seasons?.find((season) => season.id === seasonId))
+			.allowedFields
+
+	const saturdays = getSaturdays(formData.seasonId)
+	const timeOptions = getTimeOptions(formData.seasonId)
+	const fieldOptions = getFieldOptions(formData.seasonId)
 
 	const openCreateDialog = () => {
 		setFormDialogOpen(true)
@@ -388,26 +428,52 @@ export const GameManagement = () => {
 			}
 
 			// Create ISO timestamp with timezone offset
-			const dateObj = new Date(`${formData.date}T${formData.time}`)
-			const timezoneOffset = -dateObj.getTimezoneOffset()
-			const offsetHours = Math.floor(Math.abs(timezoneOffset) / 60)
-			const offsetMinutes = Math.abs(timezoneOffset) % 60
-			const offsetSign = timezoneOffset >= 0 ? '+' : '-'
-			const offsetString = `${offsetSign}${String(offsetHours).padStart(2, '0')}:${String(offsetMinutes).padStart(2, '0')}`
-			const timestamp = `${formData.date}T${formData.time}:00.000${offsetString}`
+			const timestamp = toLocalIsoTimestamp(formData.date, formData.time)
 
 			if (editingGameId) {
-				// Update existing game
+				const status =
+					formData.status === AUTO_STATUS
+						? undefined
+						: (formData.status as GameStatus)
+				if (status === GameStatus.FORFEIT && !formData.forfeitedByTeamId) {
+					toast.error('Missing Required Field', {
+						description: 'Please select the team that forfeited.',
+					})
+					return
+				}
+
+				// Forfeits are scored from the season's rules, and postponed or
+				// canceled games have no score. Moving a game back to automatic
+				// status clears the manual one.
+				const editingGame = games?.find((game) => game.id === editingGameId)
+				const hasManualStatus =
+					!!editingGame?.status && MANUAL_STATUSES.includes(editingGame.status)
 				await updateGameViaFunction({
 					gameId: editingGameId,
 					timestamp,
 					homeTeamId: formData.homeTeamId || null,
 					awayTeamId: formData.awayTeamId || null,
 					field: fieldNumber,
-					homeScore,
-					awayScore,
 					type: formData.type as 'regular' | 'playoff',
 					seasonId: formData.seasonId,
+					...(status === undefined
+						? {
+								homeScore,
+								awayScore,
+								...(hasManualStatus ? { status: GameStatus.SCHEDULED } : {}),
+							}
+						: status === GameStatus.FORFEIT
+							? { status, forfeitedByTeamId: formData.forfeitedByTeamId }
+							: {
+									status,
+									homeScore: null,
+									awayScore: null,
+									rescheduledToGameId:
+										formData.rescheduledToGameId &&
+										formData.rescheduledToGameId !== NO_RESCHEDULED_GAME
+											? formData.rescheduledToGameId
+											: null,
+								}),
 				})
 
 				toast.success('Success', {
@@ -463,6 +529,12 @@ export const GameManagement = () => {
 			awayScore: game.awayScore !== null ? game.awayScore.toString() : '',
 			type: game.type,
 			seasonId: game.season.id,
+			status:
+				game.status && MANUAL_STATUSES.includes(game.status)
+					? game.status
+					: AUTO_STATUS,
+			forfeitedByTeamId: game.forfeitedBy?.id ?? '',
+			rescheduledToGameId: game.rescheduledTo?.id ?? NO_RESCHEDULED_GAME,
 		})
 		setEditingGameId(game.id)
 		setFormDialogOpen(true)
@@ -523,25 +595,20 @@ export const GameManagement = () => {
 	const filteredSeason = seasons?.find((s) => s.id === filterSeasonId)
 	const isSwissFormat = filteredSeason?.format === SeasonFormat.SWISS
 
-	// Get games snapshot filtered by season for Swiss standings calculation
-	const filteredGamesForStandings = gamesSnapshot?.docs.filter(
-		(doc) =>
-			doc.data().season.id === filterSeasonId && doc.data().type === 'regular'
+	// Saturdays in the filtered season that already have games
+	const scheduledDates = Array.from(
+		new Set(
+			filteredGames.map((game) => format(game.date.toDate(), 'yyyy-MM-dd'))
+		)
 	)
-	const filteredGamesQuerySnapshot = filteredGamesForStandings
-		? {
-				docs: filteredGamesForStandings,
-				size: filteredGamesForStandings.length,
-				empty: filteredGamesForStandings.length === 0,
-			}
-		: undefined
 
-	// Get teams for the filtered season. The teamsSnapshot above is keyed by
-	// the form's selected season; if the filter season matches, we can reuse
-	// it. Otherwise we'd need a separate query — but in practice the filter
-	// follows the form season, so reuse covers the common case.
-	const filteredTeamsQuerySnapshot =
-		filterSeasonId === formData.seasonId ? teamsSnapshot : undefined
+	// Games of the edited game's season that could replace it
+	const rescheduleOptions = (games ?? [])
+		.filter(
+			(game) =>
+				game.id !== editingGameId && game.season.id === formData.seasonId
+		)
+		.sort((a, b) => a.date.toMillis() - b.date.toMillis())
 
 	const sortedGames = filteredGames.length
 		? [...filteredGames].sort((a, b) => {
@@ -630,28 +697,47 @@ export const GameManagement = () => {
 						Back to Admin Dashboard
 					</Link>
 				</Button>
-				<Button onClick={openCreateDialog}>
-					<Plus className='h-4 w-4 mr-2' />
-					Create Game
-				</Button>
+				<div className='flex items-center gap-2'>
+					{filteredSeason && !isSwissFormat && (
+						<Button
+							variant='outline'
+							onClick={() => setScheduleDialogOpen(true)}
+						>
+							<Wand2 className='h-4 w-4 mr-2' />
+							Generate Schedule
+						</Button>
+					)}
+					{filteredSeason && (
+						<Button
+							variant='outline'
+							onClick={() => setPlayoffDialogOpen(true)}
+						>
+							<Trophy className='h-4 w-4 mr-2' />
+							Generate Playoffs
+						</Button>
+					)}
+					<Button onClick={openCreateDialog}>
+						<Plus className='h-4 w-4 mr-2' />
+						Create Game
+					</Button>
+				</div>
 			</div>
 
 			{/* Swiss Pairing Guide - only shown for Swiss format seasons */}
 			{isSwissFormat && filterSeasonId && (
 				<SwissPairingGuide
-					gamesQuerySnapshot={
-						filteredGamesQuerySnapshot as Parameters<
-							typeof SwissPairingGuide
-						>[0]['gamesQuerySnapshot']
-					}
-					teamsQuerySnapshot={
-						filteredTeamsQuerySnapshot as Parameters<
-							typeof SwissPairingGuide
-						>[0]['teamsQuerySnapshot']
-					}
+					key={filterSeasonId}
+					seasonId={filterSeasonId}
+					saturdays={getSaturdays(filterSeasonId)}
+					timeOptions={getTimeOptions(filterSeasonId)}
+					fieldOptions={getFieldOptions(filterSeasonId)}
+					scheduledDates={scheduledDates}
 				/>
 			)}
 
+			{/* Score Disputes - games from any season whose captains disagree */}
+			<ScoreDisputeQueue games={games ?? []} onEdit={handleEditGame} />
+
 			{/* Games Table */}
 			<Card>
 				<CardHeader>
@@ -741,6 +827,12 @@ export const GameManagement = () => {
 														Not played yet
 													</span>
 												)}
+												{game.status &&
+													MANUAL_STATUSES.includes(game.status) && (
+														<span className='block text-xs text-muted-foreground'>
+															{GAME_STATUS_LABELS[getGameStatus(game)]}
+														</span>
+													)}
 											</TableCell>
 											<TableCell className='capitalize'>{game.type}</TableCell>
 											<TableCell className='text-right'>
@@ -863,9 +955,11 @@ export const GameManagement = () => {
 											<SelectValue placeholder='Select a field' />
 										</SelectTrigger>
 										<SelectContent>
-											<SelectItem value='1'>Field 1</SelectItem>
-											<SelectItem value='2'>Field 2</SelectItem>
-											<SelectItem value='3'>Field 3</SelectItem>
+											{fieldOptions.map((field) => (
+												<SelectItem key={field} value={field.toString()}>
+													Field {field}
+												</SelectItem>
+											))}
 										</SelectContent>
 									</Select>
 								</div>
@@ -946,6 +1040,7 @@ export const GameManagement = () => {
 										id='homeScore'
 										type='number'
 										min='0'
+										disabled={formData.status !== AUTO_STATUS}
 										placeholder='Leave empty if not yet played'
 										value={formData.homeScore}
 										onChange={(e) =>
@@ -960,6 +1055,7 @@ export const GameManagement = () => {
 										id='awayScore'
 										type='number'
 										min='0'
+										disabled={formData.status !== AUTO_STATUS}
 										placeholder='Leave empty if not yet played'
 										value={formData.awayScore}
 										onChange={(e) =>
@@ -968,6 +1064,100 @@ export const GameManagement = () => {
 									/>
 								</div>
 							</div>
+
+							{editingGameId && (
+								<div className='grid grid-cols-2 gap-4'>
+									<div className='space-y-2'>
+										<Label htmlFor='status'>Status</Label>
+										<Select
+											value={formData.status}
+											onValueChange={(value) =>
+												handleInputChange('status', value)
+											}
+										>
+											<SelectTrigger id='status' className='w-full'>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value={AUTO_STATUS}>
+													Scheduled / Final
+												</SelectItem>
+												{MANUAL_STATUSES.map((status) => (
+													<SelectItem key={status} value={status}>
+														{GAME_STATUS_LABELS[status]}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</div>
+
+									{formData.status === GameStatus.FORFEIT && (
+										<div className='space-y-2'>
+											<Label htmlFor='forfeitedBy'>Forfeited By</Label>
+											<Select
+												value={formData.forfeitedByTeamId}
+												onValueChange={(value) =>
+													handleInputChange('forfeitedByTeamId', value)
+												}
+											>
+												<SelectTrigger id='forfeitedBy' className='w-full'>
+													<SelectValue placeholder='Select team' />
+												</SelectTrigger>
+												<SelectContent>
+													{sortedTeams
+														.filter(
+															(team) =>
+																team.id === formData.homeTeamId ||
+																team.id === formData.awayTeamId
+														)
+														.map((team) => (
+															<SelectItem key={team.id} value={team.id}>
+																{team.name}
+															</SelectItem>
+														))}
+												</SelectContent>
+											</Select>
+										</div>
+									)}
+
+									{(formData.status === GameStatus.POSTPONED ||
+										formData.status === GameStatus.CANCELED) && (
+										<div className='space-y-2'>
+											<Label htmlFor='rescheduledTo'>Rescheduled To</Label>
+											<Select
+												value={formData.rescheduledToGameId}
+												onValueChange={(value) =>
+													handleInputChange('rescheduledToGameId', value)
+												}
+											>
+												<SelectTrigger id='rescheduledTo' className='w-full'>
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													<SelectItem value={NO_RESCHEDULED_GAME}>
+														Not rescheduled
+													</SelectItem>
+													{rescheduleOptions.map((game) => (
+														<SelectItem key={game.id} value={game.id}>
+															{formatDate(game.date)} {formatTime(game.date)} ·
+															Field {game.field} · {game.homeName ?? 'TBD'} vs{' '}
+															{game.awayName ?? 'TBD'}
+														</SelectItem>
+													))}
+												</SelectContent>
+											</Select>
+										</div>
+									)}
+
+									<p className='col-span-2 text-xs text-muted-foreground'>
+										{formData.status === GameStatus.FORFEIT
+											? "Forfeits are scored with the season's forfeit score and don't affect player rankings."
+											: formData.status === AUTO_STATUS
+												? 'Games are final once both scores are entered.'
+												: 'Postponed and canceled games have no score and are left out of standings.'}
+									</p>
+								</div>
+							)}
 						</form>
 					</div>
 
@@ -994,6 +1184,34 @@ export const GameManagement = () => {
 				</DialogContent>
 			</Dialog>
 
+			{/* Round-robin schedule wizard (traditional seasons only) */}
+			{scheduleDialogOpen && filteredSeason && (
+				<ScheduleGeneratorDialog
+					open={scheduleDialogOpen}
+					onOpenChange={setScheduleDialogOpen}
+					seasonId={filteredSeason.id}
+					seasonName={filteredSeason.name}
+					saturdays={getSaturdays(filteredSeason.id)}
+					timeOptions={getTimeOptions(filteredSeason.id)}
+					fieldOptions={getFieldOptions(filteredSeason.id)}
+					existingGameCount={filteredGames.length}
+				/>
+			)}
+
+			{/* Playoff bracket wizard */}
+			{playoffDialogOpen && filteredSeason && (
+				<PlayoffBracketDialog
+					open={playoffDialogOpen}
+					onOpenChange={setPlayoffDialogOpen}
+					seasonId={filteredSeason.id}
+					seasonName={filteredSeason.name}
+					isSwissFormat={isSwissFormat}
+					saturdays={getSaturdays(filteredSeason.id)}
+					timeOptions={getTimeOptions(filteredSeason.id)}
+					fieldOptions={getFieldOptions(filteredSeason.id)}
+				/>
+			)}
+
 			<Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
 				<DialogContent>
 					<DialogHeader>
@@ -0,0 +1,485 @@
+/**
+ * Playoff Bracket dialog
+ *
+ * Seeds the playoffs from final regular-season standings: pick the format,
+ * seeding source, qualifying teams, and the game days, time slots and fields
+ * to use, preview the bracket, then create its games. Later-round games are
+ * created as placeholders and fill in automatically as winners advance.
+ */
+
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { AlertTriangle, Loader2, RefreshCw, Trophy } from 'lucide-react'
+
+import {
+	generatePlayoffBracketViaFunction,
+	type GeneratePlayoffBracketResponse,
+	type PlayoffBracketGame,
+} from '@/firebase/collections/functions'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import {
+	logger,
+	PlayoffBracket,
+	PlayoffFormat,
+	toLocalIsoTimestamp,
+} from '@/shared/utils'
+
+interface PlayoffBracketDialogProps {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	seasonId: string
+	seasonName: string
+	/** Whether the season uses the Swiss format (decides default seeding) */
+	isSwissFormat: boolean
+	/** Saturdays within the season, in chronological order */
+	saturdays: { date: string; display: string }[]
+	/** Allowed time slots, earliest first */
+	timeOptions: { value: string; display: string }[]
+	/** Allowed field numbers */
+	fieldOptions: number[]
+}
+
+/** Playoffs usually span the season's last two Saturdays */
+const DEFAULT_PLAYOFF_WEEKS = 2
+
+/**
+ * Parses an optional whole-number input; blank means "use the default"
+ */
+const parseOptionalCount = (value: string): number | undefined | null => {
+	if (!value.trim()) return undefined
+	const count = Number(value)
+	return Number.isInteger(count) && count > 0 ? count : null
+}
+
+export const PlayoffBracketDialog = ({
+	open,
+	onOpenChange,
+	seasonId,
+	seasonName,
+	isSwissFormat,
+	saturdays,
+	timeOptions,
+	fieldOptions,
+}: PlayoffBracketDialogProps) => {
+	const [format, setFormat] = useState<PlayoffFormat>(
+		PlayoffFormat.SINGLE_ELIMINATION
+	)
+	const [seeding, setSeeding] = useState<'standings' | 'swiss'>(
+		isSwissFormat ? 'swiss' : 'standings'
+	)
+	const [teamCount, setTeamCount] = useState('')
+	const [championshipTeams, setChampionshipTeams] = useState('')
+	const [selectedDates, setSelectedDates] = useState<string[]>(() =>
+		saturdays.slice(-DEFAULT_PLAYOFF_WEEKS).map((saturday) => saturday.date)
+	)
+	const [selectedSlots, setSelectedSlots] = useState<string[]>(() =>
+		timeOptions.map((time) => time.value)
+	)
+	const [selectedFields, setSelectedFields] = useState<number[]>(fieldOptions)
+	const [preview, setPreview] = useState<GeneratePlayoffBracketResponse | null>(
+		null
+	)
+	const [isPreviewing, setIsPreviewing] = useState(false)
+	const [isCreating, setIsCreating] = useState(false)
+
+	const toggle = <T,>(values: T[], value: T, checked: boolean): T[] =>
+		checked ? [...values, value] : values.filter((v) => v !== value)
+
+	// Every selected time slot on every selected game day
+	const slotTimestamps = useMemo(
+		() =>
+			saturdays
+				.filter((saturday) => selectedDates.includes(saturday.date))
+				.flatMap((saturday) =>
+					timeOptions
+						.filter((time) => selectedSlots.includes(time.value))
+						.map((time) => toLocalIsoTimestamp(saturday.date, time.value))
+				),
+		[saturdays, selectedDates, timeOptions, selectedSlots]
+	)
+
+	// Selection changes invalidate the preview
+	const resetPreview = () => setPreview(null)
+
+	const runBracket = async (dryRun: boolean) => {
+		const parsedTeamCount = parseOptionalCount(teamCount)
+		const parsedChampionshipTeams =
+			format === PlayoffFormat.CONSOLATION
+				? parseOptionalCount(championshipTeams)
+				: undefined
+		if (parsedTeamCount === null || parsedChampionshipTeams === null) {
+			toast.error('Invalid Team Count', {
+				description: 'Team counts must be whole numbers.',
+			})
+			return
+		}
+		if (slotTimestamps.length === 0 || selectedFields.length === 0) {
+			toast.error('Missing Required Field', {
+				description:
+					'Select at least one game day, one time slot and one field.',
+			})
+			return
+		}
+
+		const setBusy = dryRun ? setIsPreviewing : setIsCreating
+		setBusy(true)
+		try {
+			const result = await generatePlayoffBracketViaFunction({
+				seasonId,
+				format,
+				seeding,
+				teamCount: parsedTeamCount,
+				championshipTeams: parsedChampionshipTeams,
+				slotTimestamps,
+				fields: [...selectedFields].sort((a, b) => a - b),
+				dryRun,
+			})
+			if (dryRun) {
+				setPreview(result)
+			} else {
+				toast.success('Playoff bracket created', {
+					description: result.message,
+				})
+				setPreview(null)
+				onOpenChange(false)
+			}
+		} catch (error) {
+			logger.error(
+				'Error generating playoff bracket',
+				error instanceof Error ? error : undefined,
+				{
+					component: 'PlayoffBracketDialog',
+					action: dryRun ? 'previewBracket' : 'createBracket',
+				}
+			)
+			toast.error('Error', {
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to generate the playoff bracket',
+			})
+		} finally {
+			setBusy(false)
+		}
+	}
+
+	// Describes an empty slot by the game that feeds it
+	const feederLabels = useMemo(() => {
+		const labels = new Map<string, string>()
+		preview?.games.forEach((game) => {
+			if (game.winnerTo) {
+				labels.set(
+					`${game.winnerTo.key}-${game.winnerTo.slot}`,
+					`Winner of round ${game.round} game ${game.matchup}`
+				)
+			}
+		})
+		return labels
+	}, [preview])
+
+	const sideLabel = (game: PlayoffBracketGame, slot: 'home' | 'away') => {
+		const name = slot === 'home' ? game.homeName : game.awayName
+		const seed = slot === 'home' ? game.homeSeed : game.awaySeed
+		if (name) return `#${seed} ${name}`
+		return feederLabels.get(`${game.key}-${slot}`) ?? 'TBD'
+	}
+
+	const byeTeams = preview?.seeds.filter((seed) => seed.bye)
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className='max-w-4xl max-h-[90vh] overflow-y-auto'>
+				<DialogHeader>
+					<DialogTitle>Generate Playoffs</DialogTitle>
+					<DialogDescription>
+						Seed {seasonName}&apos;s playoffs from the final regular season
+						standings. Winners advance to their next game automatically once
+						scores are entered.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className='space-y-4'>
+					<div className='grid gap-4 md:grid-cols-4'>
+						<div className='space-y-2'>
+							<Label htmlFor='playoff-format'>Format</Label>
+							<Select
+								value={format}
+								onValueChange={(value) => {
+									setFormat(value as PlayoffFormat)
+									resetPreview()
+								}}
+							>
+								<SelectTrigger id='playoff-format'>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={PlayoffFormat.SINGLE_ELIMINATION}>
+										Single elimination
+									</SelectItem>
+									<SelectItem value={PlayoffFormat.CONSOLATION}>
+										Championship + consolation
+									</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+						<div className='space-y-2'>
+							<Label htmlFor='playoff-seeding'>Seeding</Label>
+							<Select
+								value={seeding}
+								onValueChange={(value) => {
+									setSeeding(value as 'standings' | 'swiss')
+									resetPreview()
+								}}
+							>
+								<SelectTrigger id='playoff-seeding'>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value='standings'>Standings</SelectItem>
+									<SelectItem value='swiss'>Swiss rankings</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+						<div className='space-y-2'>
+							<Label htmlFor='playoff-team-count'>Playoff Teams</Label>
+							<Input
+								id='playoff-team-count'
+								type='number'
+								min={2}
+								placeholder='All'
+								value={teamCount}
+								onChange={(e) => {
+									setTeamCount(e.target.value)
+									resetPreview()
+								}}
+							/>
+						</div>
+						{format === PlayoffFormat.CONSOLATION && (
+							<div className='space-y-2'>
+								<Label htmlFor='playoff-championship-teams'>
+									Championship Teams
+								</Label>
+								<Input
+									id='playoff-championship-teams'
+									type='number'
+									min={2}
+									placeholder='Top half'
+									value={championshipTeams}
+									onChange={(e) => {
+										setChampionshipTeams(e.target.value)
+										resetPreview()
+									}}
+								/>
+							</div>
+						)}
+					</div>
+
+					<div className='grid gap-4 md:grid-cols-3'>
+						<div className='space-y-2'>
+							<Label>Game Days</Label>
+							<div className='max-h-40 space-y-2 overflow-y-auto'>
+								{saturdays.map((saturday) => (
+									<div key={saturday.date} className='flex items-center gap-2'>
+										<Checkbox
+											id={`playoff-date-${saturday.date}`}
+											checked={selectedDates.includes(saturday.date)}
+											onCheckedChange={(checked) => {
+												setSelectedDates((prev) =>
+													toggle(prev, saturday.date, checked === true)
+												)
+												resetPreview()
+											}}
+										/>
+										<Label
+											htmlFor={`playoff-date-${saturday.date}`}
+											className='font-normal'
+										>
+											{saturday.display}
+										</Label>
+									</div>
+								))}
+							</div>
+						</div>
+						<div className='space-y-2'>
+							<Label>Time Slots</Label>
+							{timeOptions.map((time) => (
+								<div key={time.value} className='flex items-center gap-2'>
+									<Checkbox
+										id={`playoff-slot-${time.value}`}
+										checked={selectedSlots.includes(time.value)}
+										onCheckedChange={(checked) => {
+											setSelectedSlots((prev) =>
+												toggle(prev, time.value, checked === true)
+											)
+											resetPreview()
+										}}
+									/>
+									<Label
+										htmlFor={`playoff-slot-${time.value}`}
+										className='font-normal'
+									>
+										{time.display}
+									</Label>
+								</div>
+							))}
+						</div>
+						<div className='space-y-2'>
+							<Label>Fields</Label>
+							{fieldOptions.map((field) => (
+								<div key={field} className='flex items-center gap-2'>
+									<Checkbox
+										id={`playoff-field-${field}`}
+										checked={selectedFields.includes(field)}
+										onCheckedChange={(checked) => {
+											setSelectedFields((prev) =>
+												toggle(prev, field, checked === true)
+											)
+											resetPreview()
+										}}
+									/>
+									<Label
+										htmlFor={`playoff-field-${field}`}
+										className='font-normal'
+									>
+										Field {field}
+									</Label>
+								</div>
+							))}
+						</div>
+					</div>
+
+					{preview && (
+						<>
+							<div className='flex flex-wrap items-center gap-2'>
+								<Badge variant='outline' className='text-xs'>
+									{preview.seeds.length} teams
+								</Badge>
+								<Badge variant='outline' className='text-xs'>
+									{preview.games.length} games
+								</Badge>
+								<Badge variant='outline' className='text-xs'>
+									Seeded by{' '}
+									{preview.seeding === 'swiss' ? 'Swiss rankings' : 'standings'}
+								</Badge>
+							</div>
+
+							<div className='overflow-x-auto'>
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>Time</TableHead>
+											<TableHead>Field</TableHead>
+											<TableHead>Round</TableHead>
+											<TableHead>Matchup</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{preview.games.map((game) => (
+											<TableRow key={game.key}>
+												<TableCell className='whitespace-nowrap'>
+													{new Date(game.timestamp).toLocaleString('en-US', {
+														month: 'short',
+														day: 'numeric',
+														hour: 'numeric',
+														minute: '2-digit',
+													})}
+												</TableCell>
+												<TableCell>{game.field}</TableCell>
+												<TableCell className='whitespace-nowrap'>
+													{game.bracket === PlayoffBracket.CONSOLATION &&
+														'Consolation '}
+													{game.round === game.rounds
+														? 'Final'
+														: `Round ${game.round}`}
+												</TableCell>
+												<TableCell className='text-sm'>
+													<span className='font-medium'>
+														{sideLabel(game, 'home')}
+													</span>
+													<span className='text-muted-foreground mx-1'>vs</span>
+													<span className='font-medium'>
+														{sideLabel(game, 'away')}
+													</span>
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							</div>
+
+							{byeTeams && byeTeams.length > 0 && (
+								<p className='text-sm text-muted-foreground'>
+									First-round byes:{' '}
+									{byeTeams
+										.map((seed) => `#${seed.seed} ${seed.name}`)
+										.join(', ')}
+								</p>
+							)}
+						</>
+					)}
+
+					{!preview && slotTimestamps.length > 0 && (
+						<p className='flex items-start gap-2 text-sm text-muted-foreground'>
+							<AlertTriangle className='h-4 w-4 mt-0.5 flex-shrink-0' />
+							Preview the bracket to check seeds and game times before creating
+							games.
+						</p>
+					)}
+				</div>
+
+				<DialogFooter>
+					<Button
+						variant='outline'
+						onClick={() => runBracket(true)}
+						disabled={isPreviewing || isCreating}
+					>
+						{isPreviewing ? (
+							<Loader2 className='h-4 w-4 mr-2 animate-spin' />
+						) : (
+							<RefreshCw className='h-4 w-4 mr-2' />
+						)}
+						Preview Bracket
+					</Button>
+					<Button
+						onClick={() => runBracket(false)}
+						disabled={!preview || isPreviewing || isCreating}
+					>
+						{isCreating ? (
+							<Loader2 className='h-4 w-4 mr-2 animate-spin' />
+						) : (
+							<Trophy className='h-4 w-4 mr-2' />
+						)}
+						Create {preview ? `${preview.games.length} ` : ''}Games
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
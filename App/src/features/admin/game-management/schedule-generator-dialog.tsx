@@ -0,0 +1,712 @@
+/**
+ * Schedule Generator dialog (round robin)
+ *
+ * Wizard for traditional seasons: pick game nights, time slots and fields,
+ * generate a balanced round-robin schedule from the registered teams, review
+ * and edit the preview, then write every game in one batch.
+ */
+
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import {
+	AlertTriangle,
+	ArrowLeft,
+	ArrowLeftRight,
+	CalendarPlus,
+	Loader2,
+	Trash2,
+} from 'lucide-react'
+
+import {
+	createGamesBatchViaFunction,
+	generateScheduleViaFunction,
+	type GenerateScheduleResponse,
+	type ProposedGame,
+} from '@/firebase/collections/functions'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { logger, toLocalIsoTimestamp } from '@/shared/utils'
+
+interface ScheduleGeneratorDialogProps {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	seasonId: string
+	seasonName: string
+	/** Saturdays within the season, in chronological order */
+	saturdays: { date: string; display: string }[]
+	/** Allowed time slots, earliest first */
+	timeOptions: { value: string; display: string }[]
+	/** Allowed field numbers */
+	fieldOptions: number[]
+	/** Games already scheduled for the season */
+	existingGameCount: number
+}
+
+interface TeamBalance {
+	teamId: string
+	name: string
+	games: number
+	homeGames: number
+	awayGames: number
+	earlyGames: number
+	lateGames: number
+	backToBackByes: number
+}
+
+/**
+ * Finds rows that can't be saved: shared time slot and field, a team booked
+ * twice at once, or a team playing itself
+ */
+const findConflicts = (games: ProposedGame[]): Set<number> => {
+	const conflicts = new Set<number>()
+	const slotRows = new Map<string, number[]>()
+	const bookingRows = new Map<string, number[]>()
+
+	games.forEach((game, index) => {
+		if (game.homeTeamId === game.awayTeamId) {
+			conflicts.add(index)
+		}
+		const slotKey = `${game.date}_${game.time}_${game.field}`
+		slotRows.set(slotKey, [...(slotRows.get(slotKey) ?? []), index])
+		for (const teamId of [game.homeTeamId, game.awayTeamId]) {
+			const bookingKey = `${game.date}_${game.time}_${teamId}`
+			bookingRows.set(bookingKey, [
+				...(bookingRows.get(bookingKey) ?? []),
+				index,
+			])
+		}
+	})
+
+	for (const rows of [...slotRows.values(), ...bookingRows.values()]) {
+		if (rows.length > 1) {
+			rows.forEach((row) => conflicts.add(row))
+		}
+	}
+
+	return conflicts
+}
+
+/**
+ * Recomputes per-team balance from the (possibly edited) preview
+ */
+const computeBalance = (
+	games: ProposedGame[],
+	teams: { teamId: string; name: string }[],
+	timeSlots: string[]
+): TeamBalance[] => {
+	const earlySlotLimit = Math.ceil(timeSlots.length / 2)
+	const balances = new Map<string, TeamBalance>(
+		teams.map((team) => [
+			team.teamId,
+			{
+				...team,
+				games: 0,
+				homeGames: 0,
+				awayGames: 0,
+				earlyGames: 0,
+				lateGames: 0,
+				backToBackByes: 0,
+			},
+		])
+	)
+	const slotsByTeamNight = new Map<string, number[]>()
+
+	for (const game of games) {
+		const slotIndex = timeSlots.indexOf(game.time)
+		for (const teamId of [game.homeTeamId, game.awayTeamId]) {
+			const balance = balances.get(teamId)
+			if (!balance) continue
+			balance.games++
+			if (teamId === game.homeTeamId) {
+				balance.homeGames++
+			} else {
+				balance.awayGames++
+			}
+			if (slotIndex < earlySlotLimit) {
+				balance.earlyGames++
+			} else {
+				balance.lateGames++
+			}
+			const key = `${teamId}_${game.date}`
+			slotsByTeamNight.set(key, [
+				...(slotsByTeamNight.get(key) ?? []),
+				slotIndex,
+			])
+		}
+	}
+
+	for (const [key, slots] of slotsByTeamNight) {
+		const teamId = key.slice(0, key.lastIndexOf('_'))
+		const balance = balances.get(teamId)
+		if (!balance) continue
+		const sorted = [...slots].sort((a, b) => a - b)
+		for (let i = 1; i < sorted.length; i++) {
+			if (sorted[i] - sorted[i - 1] - 1 >= 2) {
+				balance.backToBackByes++
+			}
+		}
+	}
+
+	return Array.from(balances.values()).sort((a, b) =>
+		a.name.localeCompare(b.name)
+	)
+}
+
+export const ScheduleGeneratorDialog = ({
+	open,
+	onOpenChange,
+	seasonId,
+	seasonName,
+	saturdays,
+	timeOptions,
+	fieldOptions,
+	existingGameCount,
+}: ScheduleGeneratorDialogProps) => {
+	const [selectedDates, setSelectedDates] = useState<string[]>(() =>
+		saturdays.map((saturday) => saturday.date)
+	)
+	const [selectedSlots, setSelectedSlots] = useState<string[]>(() =>
+		timeOptions.map((time) => time.value)
+	)
+	const [selectedFields, setSelectedFields] = useState<number[]>(fieldOptions)
+	const [preview, setPreview] = useState<GenerateScheduleResponse | null>(null)
+	const [games, setGames] = useState<ProposedGame[]>([])
+	const [isGenerating, setIsGenerating] = useState(false)
+	const [isSaving, setIsSaving] = useState(false)
+
+	const toggle = <T,>(values: T[], value: T, checked: boolean): T[] =>
+		checked ? [...values, value] : values.filter((v) => v !== value)
+
+	const orderedSlots = useMemo(
+		() =>
+			timeOptions
+				.map((time) => time.value)
+				.filter((value) => selectedSlots.includes(value)),
+		[timeOptions, selectedSlots]
+	)
+
+	const teams = useMemo(
+		() =>
+			(preview?.teamSummaries ?? []).map((summary) => ({
+				teamId: summary.teamId,
+				name: summary.name,
+			})),
+		[preview]
+	)
+	const teamNames = useMemo(
+		() => new Map(teams.map((team) => [team.teamId, team.name])),
+		[teams]
+	)
+
+	const conflicts = useMemo(() => findConflicts(games), [games])
+	const balance = useMemo(
+		() => computeBalance(games, teams, orderedSlots),
+		[games, teams, orderedSlots]
+	)
+
+	const sortedRows = useMemo(
+		() =>
+			games
+				.map((game, index) => ({ game, index }))
+				.sort(
+					(a, b) =>
+						a.game.date.localeCompare(b.game.date) ||
+						a.game.time.localeCompare(b.game.time) ||
+						a.game.field - b.game.field
+				),
+		[games]
+	)
+
+	const handleGenerate = async () => {
+		if (selectedDates.length === 0) {
+			toast.error('Missing Required Field', {
+				description: 'Select at least one game date.',
+			})
+			return
+		}
+		if (selectedSlots.length === 0 || selectedFields.length === 0) {
+			toast.error('Missing Required Field', {
+				description: 'Select at least one time slot and field.',
+			})
+			return
+		}
+
+		setIsGenerating(true)
+		try {
+			const result = await generateScheduleViaFunction({
+				seasonId,
+				dates: [...selectedDates].sort(),
+				timeSlots: orderedSlots,
+				fields: [...selectedFields].sort((a, b) => a - b),
+			})
+			setPreview(result)
+			setGames(result.games)
+		} catch (error) {
+			logger.error(
+				'Error generating schedule',
+				error instanceof Error ? error : undefined,
+				{ component: 'ScheduleGeneratorDialog', action: 'generateSchedule' }
+			)
+			toast.error('Error', {
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to generate schedule',
+			})
+		} finally {
+			setIsGenerating(false)
+		}
+	}
+
+	const updateGame = (index: number, changes: Partial<ProposedGame>) => {
+		setGames((prev) =>
+			prev.map((game, i) => {
+				if (i !== index) return game
+				const next = { ...game, ...changes }
+				return {
+					...next,
+					homeName: teamNames.get(next.homeTeamId) ?? next.homeName,
+					awayName: teamNames.get(next.awayTeamId) ?? next.awayName,
+				}
+			})
+		)
+	}
+
+	const swapHomeAway = (index: number) => {
+		const game = games[index]
+		updateGame(index, {
+			homeTeamId: game.awayTeamId,
+			awayTeamId: game.homeTeamId,
+		})
+	}
+
+	const removeGame = (index: number) => {
+		setGames((prev) => prev.filter((_, i) => i !== index))
+	}
+
+	const handleSave = async () => {
+		setIsSaving(true)
+		try {
+			const result = await createGamesBatchViaFunction({
+				seasonId,
+				type: 'regular',
+				games: games.map((game) => ({
+					timestamp: toLocalIsoTimestamp(game.date, game.time),
+					field: game.field,
+					homeTeamId: game.homeTeamId,
+					awayTeamId: game.awayTeamId,
+				})),
+			})
+			toast.success('Success', { description: result.message })
+			onOpenChange(false)
+		} catch (error) {
+			logger.error(
+				'Error saving generated schedule',
+				error instanceof Error ? error : undefined,
+				{ component: 'ScheduleGeneratorDialog', action: 'createGamesBatch' }
+			)
+			toast.error('Error', {
+				description:
+					error instanceof Error ? error.message : 'Failed to save schedule',
+			})
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	const formatNight = (date: string) =>
+		saturdays.find((saturday) => saturday.date === date)?.display ?? date
+	const formatTime = (time: string) =>
+		timeOptions.find((option) => option.value === time)?.display ?? time
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className='max-w-5xl max-h-[90vh] overflow-y-auto'>
+				<DialogHeader>
+					<DialogTitle>Generate Schedule</DialogTitle>
+					<DialogDescription>
+						{preview
+							? `Review and adjust the round-robin schedule for ${seasonName}. Nothing is saved until you create the games.`
+							: `Build a round-robin schedule for ${seasonName} from its registered teams.`}
+					</DialogDescription>
+				</DialogHeader>
+
+				{!preview ? (
+					<div className='space-y-6 py-4'>
+						{existingGameCount > 0 && (
+							<div className='flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 dark:bg-amber-950 dark:text-amber-100'>
+								<AlertTriangle className='h-4 w-4 mt-0.5 shrink-0' />
+								<p>
+									This season already has {existingGameCount} game(s). Generated
+									games that land on an occupied time slot and field will be
+									rejected when saving.
+								</p>
+							</div>
+						)}
+
+						<div className='space-y-2'>
+							<div className='flex items-center justify-between'>
+								<Label>Game Dates</Label>
+								<div className='flex gap-2'>
+									<Button
+										type='button'
+										size='sm'
+										variant='ghost'
+										onClick={() =>
+											setSelectedDates(saturdays.map((s) => s.date))
+										}
+									>
+										Select all
+									</Button>
+									<Button
+										type='button'
+										size='sm'
+										variant='ghost'
+										onClick={() => setSelectedDates([])}
+									>
+										Clear
+									</Button>
+								</div>
+							</div>
+							{saturdays.length === 0 ? (
+								<p className='text-sm text-muted-foreground'>
+									This season has no Saturdays between its start and end dates.
+								</p>
+							) : (
+								<div className='grid grid-cols-2 gap-2 md:grid-cols-3'>
+									{saturdays.map((saturday) => (
+										<div
+											key={saturday.date}
+											className='flex items-center gap-2'
+										>
+											<Checkbox
+												id={`schedule-date-${saturday.date}`}
+												checked={selectedDates.includes(saturday.date)}
+												onCheckedChange={(checked) =>
+													setSelectedDates((prev) =>
+														toggle(prev, saturday.date, checked === true)
+													)
+												}
+											/>
+											<Label
+												htmlFor={`schedule-date-${saturday.date}`}
+												className='font-normal'
+											>
+												{saturday.display}
+											</Label>
+										</div>
+									))}
+								</div>
+							)}
+						</div>
+
+						<div className='grid grid-cols-2 gap-6'>
+							<div className='space-y-2'>
+								<Label>Time Slots</Label>
+								{timeOptions.map((time) => (
+									<div key={time.value} className='flex items-center gap-2'>
+										<Checkbox
+											id={`schedule-slot-${time.value}`}
+											checked={selectedSlots.includes(time.value)}
+											onCheckedChange={(checked) =>
+												setSelectedSlots((prev) =>
+													toggle(prev, time.value, checked === true)
+												)
+											}
+										/>
+										<Label
+											htmlFor={`schedule-slot-${time.value}`}
+											className='font-normal'
+										>
+											{time.display}
+										</Label>
+									</div>
+								))}
+							</div>
+							<div className='space-y-2'>
+								<Label>Fields</Label>
+								{fieldOptions.map((field) => (
+									<div key={field} className='flex items-center gap-2'>
+										<Checkbox
+											id={`schedule-field-${field}`}
+											checked={selectedFields.includes(field)}
+											onCheckedChange={(checked) =>
+												setSelectedFields((prev) =>
+													toggle(prev, field, checked === true)
+												)
+											}
+										/>
+										<Label
+											htmlFor={`schedule-field-${field}`}
+											className='font-normal'
+										>
+											Field {field}
+										</Label>
+									</div>
+								))}
+							</div>
+						</div>
+					</div>
+				) : (
+					<div className='space-y-6 py-4'>
+						<div className='flex flex-wrap items-center gap-2 text-sm'>
+							<Badge variant='secondary'>{games.length} games</Badge>
+							<Badge variant='secondary'>{teams.length} teams</Badge>
+							<Badge variant='secondary'>
+								{preview.completeCycles} full round robin
+								{preview.completeCycles === 1 ? '' : 's'}
+							</Badge>
+							{conflicts.size > 0 && (
+								<Badge variant='destructive'>
+									{conflicts.size} conflicting game(s)
+								</Badge>
+							)}
+						</div>
+
+						{preview.warnings.length > 0 && (
+							<div className='rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 dark:bg-amber-950 dark:text-amber-100'>
+								<div className='flex items-center gap-2 font-medium mb-1'>
+									<AlertTriangle className='h-4 w-4' />
+									Generator notes
+								</div>
+								<ul className='list-disc pl-6 space-y-1'>
+									{preview.warnings.map((warning) => (
+										<li key={warning}>{warning}</li>
+									))}
+								</ul>
+							</div>
+						)}
+
+						<div className='overflow-x-auto'>
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Team</TableHead>
+										<TableHead className='text-center'>Games</TableHead>
+										<TableHead className='text-center'>Home / Away</TableHead>
+										<TableHead className='text-center'>Early / Late</TableHead>
+										<TableHead className='text-center'>Double Byes</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{balance.map((team) => (
+										<TableRow key={team.teamId}>
+											<TableCell>{team.name}</TableCell>
+											<TableCell className='text-center'>
+												{team.games}
+											</TableCell>
+											<TableCell className='text-center'>
+												{team.homeGames} / {team.awayGames}
+											</TableCell>
+											<TableCell className='text-center'>
+												{team.earlyGames} / {team.lateGames}
+											</TableCell>
+											<TableCell
+												className={
+													team.backToBackByes > 0
+														? 'text-center text-destructive font-medium'
+														: 'text-center'
+												}
+											>
+												{team.backToBackByes}
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</div>
+
+						<div className='overflow-x-auto'>
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Date</TableHead>
+										<TableHead>Time</TableHead>
+										<TableHead>Field</TableHead>
+										<TableHead>Home Team</TableHead>
+										<TableHead>Away Team</TableHead>
+										<TableHead className='text-right'>Actions</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{sortedRows.map(({ game, index }) => (
+										<TableRow
+											key={`${index}-${game.date}`}
+											className={
+												conflicts.has(index) ? 'bg-destructive/10' : ''
+											}
+										>
+											<TableCell className='whitespace-nowrap'>
+												{formatNight(game.date)}
+											</TableCell>
+											<TableCell>
+												<Select
+													value={game.time}
+													onValueChange={(value) =>
+														updateGame(index, { time: value })
+													}
+												>
+													<SelectTrigger className='w-28'>
+														<SelectValue>{formatTime(game.time)}</SelectValue>
+													</SelectTrigger>
+													<SelectContent>
+														{orderedSlots.map((slot) => (
+															<SelectItem key={slot} value={slot}>
+																{formatTime(slot)}
+															</SelectItem>
+														))}
+													</SelectContent>
+												</Select>
+											</TableCell>
+											<TableCell>
+												<Select
+													value={game.field.toString()}
+													onValueChange={(value) =>
+														updateGame(index, { field: parseInt(value, 10) })
+													}
+												>
+													<SelectTrigger className='w-24'>
+														<SelectValue />
+													</SelectTrigger>
+													<SelectContent>
+														{selectedFields.map((field) => (
+															<SelectItem key={field} value={field.toString()}>
+																Field {field}
+															</SelectItem>
+														))}
+													</SelectContent>
+												</Select>
+											</TableCell>
+											{(['homeTeamId', 'awayTeamId'] as const).map((side) => (
+												<TableCell key={side}>
+													<Select
+														value={game[side]}
+														onValueChange={(value) =>
+															updateGame(index, { [side]: value })
+														}
+													>
+														<SelectTrigger className='w-44'>
+															<SelectValue />
+														</SelectTrigger>
+														<SelectContent>
+															{teams.map((team) => (
+																<SelectItem
+																	key={team.teamId}
+																	value={team.teamId}
+																>
+																	{team.name}
+																</SelectItem>
+															))}
+														</SelectContent>
+													</Select>
+												</TableCell>
+											))}
+											<TableCell className='text-right'>
+												<div className='flex items-center justify-end gap-2'>
+													<Button
+														size='sm'
+														variant='outline'
+														onClick={() => swapHomeAway(index)}
+														title='Swap home and away'
+													>
+														<ArrowLeftRight className='h-3 w-3' />
+													</Button>
+													<Button
+														size='sm'
+														variant='destructive'
+														onClick={() => removeGame(index)}
+														title='Remove game'
+													>
+														<Trash2 className='h-3 w-3' />
+													</Button>
+												</div>
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</div>
+					</div>
+				)}
+
+				<DialogFooter>
+					{preview ? (
+						<>
+							<Button
+								variant='outline'
+								onClick={() => setPreview(null)}
+								disabled={isSaving}
+								type='button'
+							>
+								<ArrowLeft className='h-4 w-4 mr-2' />
+								Back
+							</Button>
+							<Button
+								onClick={handleSave}
+								disabled={isSaving || games.length === 0 || conflicts.size > 0}
+							>
+								{isSaving ? (
+									<>
+										<Loader2 className='h-4 w-4 mr-2 animate-spin' />
+										Creating...
+									</>
+								) : (
+									<>
+										<CalendarPlus className='h-4 w-4 mr-2' />
+										Create {games.length} Games
+									</>
+								)}
+							</Button>
+						</>
+					) : (
+						<>
+							<Button
+								variant='outline'
+								onClick={() => onOpenChange(false)}
+								disabled={isGenerating}
+								type='button'
+							>
+								Cancel
+							</Button>
+							<Button onClick={handleGenerate} disabled={isGenerating}>
+								{isGenerating ? (
+									<>
+										<Loader2 className='h-4 w-4 mr-2 animate-spin' />
+										Generating...
+									</>
+								) : (
+									'Generate Preview'
+								)}
+							</Button>
+						</>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
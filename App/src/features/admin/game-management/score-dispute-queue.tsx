@@ -0,0 +1,179 @@
+import { useState } from 'react'
+import { useDocument } from 'react-firebase-hooks/firestore'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { Edit, Loader2, Scale } from 'lucide-react'
+
+import { DocumentReference } from '@/firebase'
+import { updateGameViaFunction } from '@/firebase/collections/functions'
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { logger } from '@/shared/utils'
+import {
+	GameDocument,
+	PlayerDocument,
+	ScoreReportStatus,
+	ScoreSubmission,
+} from '@/types'
+
+type DisputedGame = GameDocument & { id: string }
+
+const SubmitterName = ({
+	playerRef,
+}: {
+	playerRef: DocumentReference<PlayerDocument>
+}) => {
+	const [playerSnapshot] = useDocument(playerRef)
+	const player = playerSnapshot?.data()
+	return (
+		<>{player ? `${player.firstname} ${player.lastname}` : 'Unknown player'}</>
+	)
+}
+
+const DisputedGameRow = ({
+	game,
+	onEdit,
+}: {
+	game: DisputedGame
+	onEdit: (game: DisputedGame) => void
+}) => {
+	const [savingKey, setSavingKey] = useState<string | null>(null)
+	const teamName = (submission: ScoreSubmission) =>
+		submission.team.id === game.home?.id
+			? (game.homeName ?? 'Home')
+			: (game.awayName ?? 'Away')
+
+	// Each team's latest report is a candidate final score
+	const candidates = [game.home?.id, game.away?.id]
+		.map((teamId) => (teamId ? game.scoreReports?.[teamId] : undefined))
+		.filter((submission) => submission !== undefined)
+
+	const handleAccept = async (submission: ScoreSubmission) => {
+		const key = submission.team.id
+		setSavingKey(key)
+		try {
+			await updateGameViaFunction({
+				gameId: game.id,
+				homeScore: submission.homeScore,
+				awayScore: submission.awayScore,
+			})
+			toast.success('Dispute resolved', {
+				description: `Final score set to ${submission.homeScore} - ${submission.awayScore}`,
+			})
+		} catch (error) {
+			logger.error('Failed to resolve score dispute:', {
+				component: 'ScoreDisputeQueue',
+				gameId: game.id,
+				error: error instanceof Error ? error.message : error,
+			})
+			toast.error('Error', {
+				description:
+					error instanceof Error ? error.message : 'Failed to resolve dispute',
+			})
+		} finally {
+			setSavingKey(null)
+		}
+	}
+
+	return (
+		<div className='space-y-3 rounded-md border p-4'>
+			<div className='flex flex-wrap items-start justify-between gap-2'>
+				<div>
+					<p className='font-medium'>
+						{game.homeName ?? 'Home'} vs {game.awayName ?? 'Away'}
+					</p>
+					<p className='text-sm text-muted-foreground'>
+						{format(game.date.toDate(), 'MMM dd, yyyy h:mm a')} · Field{' '}
+						{game.field}
+					</p>
+				</div>
+				<div className='flex flex-wrap gap-2'>
+					{candidates.map((submission) => (
+						<Button
+							key={submission.team.id}
+							size='sm'
+							variant='outline'
+							disabled={savingKey !== null}
+							onClick={() => handleAccept(submission)}
+						>
+							{savingKey === submission.team.id && (
+								<Loader2 className='h-3 w-3 mr-1 animate-spin' />
+							)}
+							Accept {teamName(submission)}'s {submission.homeScore} -{' '}
+							{submission.awayScore}
+						</Button>
+					))}
+					<Button
+						size='sm'
+						variant='outline'
+						disabled={savingKey !== null}
+						onClick={() => onEdit(game)}
+					>
+						<Edit className='h-3 w-3 mr-1' />
+						Enter score
+					</Button>
+				</div>
+			</div>
+			<ul className='space-y-1 text-sm'>
+				{candidates.map((submission) => (
+					<li key={submission.team.id} className='text-muted-foreground'>
+						<span className='font-medium text-foreground'>
+							{submission.homeScore} - {submission.awayScore}
+						</span>{' '}
+						reported for {teamName(submission)} by{' '}
+						<SubmitterName playerRef={submission.submittedBy} />,{' '}
+						{format(submission.submittedAt.toDate(), 'MMM dd, h:mm a')}
+					</li>
+				))}
+			</ul>
+		</div>
+	)
+}
+
+/**
+ * Score dispute queue
+ *
+ * Lists games whose captains reported different scores. Accepting one
+ * team's report, or entering a score in the edit dialog, sets the final
+ * score and clears the dispute.
+ */
+export const ScoreDisputeQueue = ({
+	games,
+	onEdit,
+}: {
+	games: DisputedGame[]
+	onEdit: (game: DisputedGame) => void
+}) => {
+	const disputedGames = games
+		.filter((game) => game.scoreStatus === ScoreReportStatus.DISPUTED)
+		.sort((a, b) => a.date.toMillis() - b.date.toMillis())
+
+	if (disputedGames.length === 0) {
+		return null
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className='flex items-center gap-2'>
+					<Scale className='h-5 w-5 text-amber-600' />
+					Score Disputes ({disputedGames.length})
+				</CardTitle>
+				<CardDescription>
+					Games where the captains reported different scores
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-3'>
+				{disputedGames.map((game) => (
+					<DisputedGameRow key={game.id} game={game} onEdit={onEdit} />
+				))}
+			</CardContent>
+		</Card>
+	)
+}
@@ -1,13 +1,23 @@
 /**
  * Swiss Pairing Guide component (Monrad System)
  *
- * Displays a complete game day schedule (4 rounds × 3 fields = 12 games)
- * based on current Swiss standings. Each team plays twice with no double-byes.
- * Repeat matchups from earlier in the season are flagged.
+ * Pairs the next Swiss game day on the server from current standings: pick
+ * the Saturday, rounds (time slots), fields and games per team, preview the
+ * pairings, then create the games. Each team plays similarly-ranked opponents
+ * with no double-byes, and repeat matchups from earlier in the season are
+ * flagged.
  */
 
-import { useMemo } from 'react'
-import { Info, RefreshCw, CheckCircle2 } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import {
+	AlertTriangle,
+	CalendarPlus,
+	CheckCircle2,
+	Info,
+	Loader2,
+	RefreshCw,
+} from 'lucide-react'
 import {
 	Card,
 	CardContent,
@@ -28,81 +38,145 @@ import {
 	TooltipContent,
 	TooltipTrigger,
 } from '@/components/ui/tooltip'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
-import { useSwissStandings } from '@/shared/hooks'
-import { useMonradPairings } from '@/shared/hooks/use-monrad-pairings'
-import { QuerySnapshot } from '@/firebase'
-import { canonicalTeamIdFromTeamSeasonDoc } from '@/firebase/collections/teams'
-import { GameDocument, TeamSeasonDocument } from '@/types'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import {
+	createSwissGameDayViaFunction,
+	type CreateSwissGameDayResponse,
+	type SwissGameDayGame,
+} from '@/firebase/collections/functions'
+import { logger, toLocalIsoTimestamp } from '@/shared/utils'
 
 interface SwissPairingGuideProps {
-	gamesQuerySnapshot: QuerySnapshot<GameDocument> | undefined
-	teamsQuerySnapshot: QuerySnapshot<TeamSeasonDocument> | undefined
+	seasonId: string
+	/** Saturdays within the season, in chronological order */
+	saturdays: { date: string; display: string }[]
+	/** Allowed time slots, earliest first */
+	timeOptions: { value: string; display: string }[]
+	/** Allowed field numbers */
+	fieldOptions: number[]
+	/** Saturdays (YYYY-MM-DD) that already have games */
+	scheduledDates: string[]
 }
 
 export const SwissPairingGuide = ({
-	gamesQuerySnapshot,
-	teamsQuerySnapshot,
+	seasonId,
+	saturdays,
+	timeOptions,
+	fieldOptions,
+	scheduledDates,
 }: SwissPairingGuideProps) => {
-	const standings = useSwissStandings(gamesQuerySnapshot)
-	const { games, repeatCount } = useMonradPairings(
-		standings,
-		gamesQuerySnapshot,
-		teamsQuerySnapshot
+	const [selectedDate, setSelectedDate] = useState<string>(
+		() =>
+			saturdays.find((saturday) => !scheduledDates.includes(saturday.date))
+				?.date ??
+			saturdays[0]?.date ??
+			''
+	)
+	const [selectedSlots, setSelectedSlots] = useState<string[]>(() =>
+		timeOptions.map((time) => time.value)
 	)
+	const [selectedFields, setSelectedFields] = useState<number[]>(fieldOptions)
+	const [gamesPerTeam, setGamesPerTeam] = useState('2')
+	const [preview, setPreview] = useState<CreateSwissGameDayResponse | null>(
+		null
+	)
+	const [isPairing, setIsPairing] = useState(false)
+	const [isCreating, setIsCreating] = useState(false)
 
-	// Map canonical teamId → team-season name. The canonical id is what the
-	// pairing hook produces (it's derived from games, which store canonical
-	// refs), so the lookup key must be canonical too.
-	const teamNameMap = useMemo(() => {
-		const map = new Map<string, string>()
-		teamsQuerySnapshot?.docs.forEach((doc) => {
-			map.set(canonicalTeamIdFromTeamSeasonDoc(doc), doc.data().name)
-		})
-		return map
-	}, [teamsQuerySnapshot])
+	const toggle = <T,>(values: T[], value: T, checked: boolean): T[] =>
+		checked ? [...values, value] : values.filter((v) => v !== value)
 
-	// Get team name by ID
-	const getTeamName = (teamId: string): string => {
-		return teamNameMap.get(teamId) || teamId
-	}
+	const orderedSlots = useMemo(
+		() =>
+			timeOptions
+				.map((time) => time.value)
+				.filter((value) => selectedSlots.includes(value)),
+		[timeOptions, selectedSlots]
+	)
+	const orderedFields = useMemo(
+		() => [...selectedFields].sort((a, b) => a - b),
+		[selectedFields]
+	)
 
-	// Group games by round
-	const gamesByRound = useMemo(() => {
-		const grouped = new Map<number, typeof games>()
-		for (let r = 1; r <= 4; r++) {
-			grouped.set(
-				r,
-				games.filter((g) => g.round === r)
+	// Selection changes invalidate the preview
+	const resetPreview = () => setPreview(null)
+
+	const runGameDay = async (dryRun: boolean) => {
+		if (!selectedDate || orderedSlots.length === 0 || !orderedFields.length) {
+			toast.error('Missing Required Field', {
+				description: 'Select a game day, at least one round and one field.',
+			})
+			return
+		}
+
+		const setBusy = dryRun ? setIsPairing : setIsCreating
+		setBusy(true)
+		try {
+			const result = await createSwissGameDayViaFunction({
+				seasonId,
+				roundTimestamps: orderedSlots.map((time) =>
+					toLocalIsoTimestamp(selectedDate, time)
+				),
+				fields: orderedFields,
+				gamesPerTeam: Math.min(Number(gamesPerTeam), orderedSlots.length),
+				dryRun,
+			})
+			if (dryRun) {
+				setPreview(result)
+			} else {
+				toast.success('Game day created', { description: result.message })
+				setPreview(null)
+			}
+		} catch (error) {
+			logger.error(
+				'Error creating Swiss game day',
+				error instanceof Error ? error : undefined,
+				{
+					component: 'SwissPairingGuide',
+					action: dryRun ? 'previewGameDay' : 'createGameDay',
+				}
 			)
+			toast.error('Error', {
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to pair the game day',
+			})
+		} finally {
+			setBusy(false)
+		}
+	}
+
+	// Group the preview into round rows keyed by field
+	const previewRounds = useMemo(() => {
+		if (!preview) return []
+		const rounds = new Map<number, Map<number, SwissGameDayGame>>()
+		for (const game of preview.games) {
+			const round = rounds.get(game.round) ?? new Map()
+			round.set(game.field, game)
+			rounds.set(game.round, round)
 		}
-		return grouped
-	}, [games])
+		return orderedSlots.map((time, index) => ({
+			round: index + 1,
+			time,
+			games: rounds.get(index + 1) ?? new Map<number, SwissGameDayGame>(),
+		}))
+	}, [preview, orderedSlots])
 
-	// Count total games played this season
-	const totalGamesPlayed =
-		gamesQuerySnapshot?.docs.filter((doc) => {
-			const game = doc.data()
-			return game.homeScore !== null && game.awayScore !== null
-		}).length || 0
+	const timeDisplay = (value: string) =>
+		timeOptions.find((time) => time.value === value)?.display ?? value
 
-	if (games.length === 0) {
-		return (
-			<Card>
-				<CardHeader>
-					<CardTitle className='flex items-center gap-2 text-base'>
-						<Info className='h-4 w-4 text-blue-600' />
-						Swiss Pairing Guide
-					</CardTitle>
-					<CardDescription>
-						{teamsQuerySnapshot && teamsQuerySnapshot.docs.length >= 12
-							? 'No standings data available yet. Pairings will appear after games are played.'
-							: `Need 12 teams for Swiss pairings. Currently have ${teamsQuerySnapshot?.docs.length || 0} teams.`}
-					</CardDescription>
-				</CardHeader>
-			</Card>
-		)
-	}
+	const teamsWithByes = preview?.teamSummaries.filter((team) => team.byes > 0)
 
 	return (
 		<Card>
@@ -122,90 +196,218 @@ export const SwissPairingGuide = ({
 						</TooltipTrigger>
 						<TooltipContent className='max-w-xs'>
 							<p>
-								Teams are grouped by rank into brackets (Top, Middle,
-								Developing) and play twice per game day. No team sits out more
-								than one consecutive round.
+								Teams play the nearest-ranked opponent they haven't met yet,
+								using the current Swiss standings. No team sits out more than
+								one consecutive round between games, and with an odd number of
+								teams the bye rotates to teams that have played the most.
 							</p>
 						</TooltipContent>
 					</Tooltip>
 				</CardTitle>
-				<CardDescription className='flex flex-wrap items-center gap-2'>
-					<span>Suggested schedule based on current standings</span>
-					{totalGamesPlayed > 0 && (
-						<Badge variant='outline' className='text-xs'>
-							{totalGamesPlayed} games played this season
-						</Badge>
-					)}
-					{repeatCount > 0 && (
-						<Badge variant='secondary' className='text-xs text-amber-600'>
-							<RefreshCw className='h-3 w-3 mr-1' />
-							{repeatCount} repeat{repeatCount > 1 ? 's' : ''} from earlier
-						</Badge>
-					)}
+				<CardDescription>
+					Pair the next game day from current standings, preview it, then create
+					the games.
 				</CardDescription>
 			</CardHeader>
-			<CardContent className='space-y-1'>
-				<div className='overflow-x-auto'>
-					<Table>
-						<TableHeader>
-							<TableRow>
-								<TableHead className='w-20'>Round</TableHead>
-								<TableHead>
-									Field A{' '}
-									<span className='text-muted-foreground font-normal'>
-										(Top)
-									</span>
-								</TableHead>
-								<TableHead>
-									Field B{' '}
-									<span className='text-muted-foreground font-normal'>
-										(Middle)
-									</span>
-								</TableHead>
-								<TableHead>
-									Field C{' '}
-									<span className='text-muted-foreground font-normal'>
-										(Developing)
-									</span>
-								</TableHead>
-							</TableRow>
-						</TableHeader>
-						<TableBody>
-							{[1, 2, 3, 4].map((round) => {
-								const roundGames = gamesByRound.get(round) || []
-								const fieldA = roundGames.find((g) => g.field === 'A')
-								const fieldB = roundGames.find((g) => g.field === 'B')
-								const fieldC = roundGames.find((g) => g.field === 'C')
+			<CardContent className='space-y-4'>
+				<div className='grid gap-4 md:grid-cols-4'>
+					<div className='space-y-2'>
+						<Label htmlFor='swiss-game-day'>Game Day</Label>
+						<Select
+							value={selectedDate}
+							onValueChange={(value) => {
+								setSelectedDate(value)
+								resetPreview()
+							}}
+						>
+							<SelectTrigger id='swiss-game-day'>
+								<SelectValue placeholder='Select a Saturday' />
+							</SelectTrigger>
+							<SelectContent>
+								{saturdays.map((saturday) => (
+									<SelectItem key={saturday.date} value={saturday.date}>
+										{saturday.display}
+										{scheduledDates.includes(saturday.date) && ' (has games)'}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className='space-y-2'>
+						<Label>Rounds</Label>
+						{timeOptions.map((time) => (
+							<div key={time.value} className='flex items-center gap-2'>
+								<Checkbox
+									id={`swiss-slot-${time.value}`}
+									checked={selectedSlots.includes(time.value)}
+									onCheckedChange={(checked) => {
+										setSelectedSlots((prev) =>
+											toggle(prev, time.value, checked === true)
+										)
+										resetPreview()
+									}}
+								/>
+								<Label
+									htmlFor={`swiss-slot-${time.value}`}
+									className='font-normal'
+								>
+									{time.display}
+								</Label>
+							</div>
+						))}
+					</div>
+					<div className='space-y-2'>
+						<Label>Fields</Label>
+						{fieldOptions.map((field) => (
+							<div key={field} className='flex items-center gap-2'>
+								<Checkbox
+									id={`swiss-field-${field}`}
+									checked={selectedFields.includes(field)}
+									onCheckedChange={(checked) => {
+										setSelectedFields((prev) =>
+											toggle(prev, field, checked === true)
+										)
+										resetPreview()
+									}}
+								/>
+								<Label htmlFor={`swiss-field-${field}`} className='font-normal'>
+									Field {field}
+								</Label>
+							</div>
+						))}
+					</div>
+					<div className='space-y-2'>
+						<Label htmlFor='swiss-games-per-team'>Games Per Team</Label>
+						<Select
+							value={gamesPerTeam}
+							onValueChange={(value) => {
+								setGamesPerTeam(value)
+								resetPreview()
+							}}
+						>
+							<SelectTrigger id='swiss-games-per-team'>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{timeOptions.map((_, index) => (
+									<SelectItem key={index} value={String(index + 1)}>
+										{index + 1}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				</div>
+
+				<div className='flex flex-wrap items-center gap-2'>
+					<Button
+						variant='outline'
+						onClick={() => runGameDay(true)}
+						disabled={isPairing || isCreating}
+					>
+						{isPairing ? (
+							<Loader2 className='h-4 w-4 mr-2 animate-spin' />
+						) : (
+							<RefreshCw className='h-4 w-4 mr-2' />
+						)}
+						Preview Pairings
+					</Button>
+					{preview && preview.games.length > 0 && (
+						<Button
+							onClick={() => runGameDay(false)}
+							disabled={isPairing || isCreating}
+						>
+							{isCreating ? (
+								<Loader2 className='h-4 w-4 mr-2 animate-spin' />
+							) : (
+								<CalendarPlus className='h-4 w-4 mr-2' />
+							)}
+							Create {preview.games.length} Games
+						</Button>
+					)}
+					{preview && (
+						<>
+							<Badge variant='outline' className='text-xs'>
+								{preview.teamSummaries.length} teams
+							</Badge>
+							{preview.repeatCount > 0 && (
+								<Badge variant='secondary' className='text-xs text-amber-600'>
+									<RefreshCw className='h-3 w-3 mr-1' />
+									{preview.repeatCount} repeat
+									{preview.repeatCount > 1 ? 's' : ''} from earlier
+								</Badge>
+							)}
+						</>
+					)}
+				</div>
+
+				{preview && preview.warnings.length > 0 && (
+					<div className='space-y-1 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-200'>
+						{preview.warnings.map((warning) => (
+							<p key={warning} className='flex items-start gap-2'>
+								<AlertTriangle className='h-4 w-4 mt-0.5 flex-shrink-0' />
+								{warning}
+							</p>
+						))}
+					</div>
+				)}
 
-								return (
+				{preview && (
+					<div className='overflow-x-auto'>
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead className='w-28'>Round</TableHead>
+									{orderedFields.map((field) => (
+										<TableHead key={field}>Field {field}</TableHead>
+									))}
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{previewRounds.map(({ round, time, games }) => (
 									<TableRow key={round}>
-										<TableCell className='font-medium'>{round}</TableCell>
-										<TableCell>
-											<MatchupCell game={fieldA} getTeamName={getTeamName} />
-										</TableCell>
-										<TableCell>
-											<MatchupCell game={fieldB} getTeamName={getTeamName} />
-										</TableCell>
-										<TableCell>
-											<MatchupCell game={fieldC} getTeamName={getTeamName} />
+										<TableCell className='font-medium'>
+											{round}
+											<span className='block text-xs text-muted-foreground'>
+												{timeDisplay(time)}
+											</span>
 										</TableCell>
+										{orderedFields.map((field) => (
+											<TableCell key={field}>
+												<MatchupCell game={games.get(field)} />
+											</TableCell>
+										))}
 									</TableRow>
-								)
-							})}
-						</TableBody>
-					</Table>
-				</div>
+								))}
+							</TableBody>
+						</Table>
+					</div>
+				)}
 
-				<div className='pt-3 flex items-center gap-4 text-xs text-muted-foreground'>
-					<span className='flex items-center gap-1'>
-						<CheckCircle2 className='h-3 w-3 text-green-600' />
-						First matchup this season
-					</span>
-					<span className='flex items-center gap-1'>
-						<RefreshCw className='h-3 w-3 text-amber-600' />
-						Repeat matchup
-					</span>
-				</div>
+				{teamsWithByes && teamsWithByes.length > 0 && (
+					<p className='text-sm text-muted-foreground'>
+						Byes:{' '}
+						{teamsWithByes
+							.map(
+								(team) =>
+									`${team.name}${team.byes > 1 ? ` (${team.byes})` : ''}`
+							)
+							.join(', ')}
+					</p>
+				)}
+
+				{preview && (
+					<div className='pt-3 flex items-center gap-4 text-xs text-muted-foreground'>
+						<span className='flex items-center gap-1'>
+							<CheckCircle2 className='h-3 w-3 text-green-600' />
+							First matchup this season
+						</span>
+						<span className='flex items-center gap-1'>
+							<RefreshCw className='h-3 w-3 text-amber-600' />
+							Repeat matchup
+						</span>
+					</div>
+				)}
 			</CardContent>
 		</Card>
 	)
@@ -214,22 +416,7 @@ export const SwissPairingGuide = ({
 /**
  * Renders a single matchup cell with team names and repeat indicator
  */
-const MatchupCell = ({
-	game,
-	getTeamName,
-}: {
-	game:
-		| {
-				team1Id: string
-				team2Id: string
-				team1Rank: number
-				team2Rank: number
-				isSeasonRepeat: boolean
-				seasonMatchupCount: number
-		  }
-		| undefined
-	getTeamName: (id: string) => string
-}) => {
+const MatchupCell = ({ game }: { game: SwissGameDayGame | undefined }) => {
 	if (!game) {
 		return <span className='text-muted-foreground'>-</span>
 	}
@@ -238,15 +425,15 @@ const MatchupCell = ({
 		<div className='flex items-center gap-2'>
 			<div className='flex-1 min-w-0'>
 				<span className='text-sm'>
-					<span className='font-medium'>{getTeamName(game.team1Id)}</span>
+					<span className='font-medium'>{game.homeName}</span>
 					<span className='text-muted-foreground mx-1'>vs</span>
-					<span className='font-medium'>{getTeamName(game.team2Id)}</span>
+					<span className='font-medium'>{game.awayName}</span>
 				</span>
 				<span className='text-xs text-muted-foreground ml-2'>
-					(#{game.team1Rank} vs #{game.team2Rank})
+					(#{game.homeRank} vs #{game.awayRank})
 				</span>
 			</div>
-			{game.isSeasonRepeat ? (
+			{game.seasonMatchupCount > 0 ? (
 				<Tooltip>
 					<TooltipTrigger asChild>
 						<span className='flex-shrink-0 text-amber-600'>
@@ -11,3 +11,5 @@ export { TeamManagement } from './team-management'
 export { PlayerRankingManagement } from './player-ranking-management'
 export { RegistrationManagement } from './registration-management'
 export { OfferManagement } from './offer-management'
+export { AuditLog } from './audit-log'
+export { FreeAgentDraft } from './free-agent-draft'
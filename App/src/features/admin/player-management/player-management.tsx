@@ -30,6 +30,7 @@ import {
 	UserCog,
 	Loader2,
 	Send,
+	Undo2,
 } from 'lucide-react'
 import { Link, useNavigate } from 'react-router-dom'
 
@@ -41,10 +42,12 @@ import {
 } from '@/firebase/collections/players'
 import { useSeasonsContext } from '@/providers'
 import { teamsBySeasonQuery } from '@/firebase/collections/teams'
+import { playerPaymentsBySeasonQuery } from '@/firebase/collections/payments'
 import {
 	updatePlayerAdminViaFunction,
 	getPlayerAuthInfoViaFunction,
 	sendWaiverAdminViaFunction,
+	refundPlayerPaymentViaFunction,
 } from '@/firebase/collections/functions'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
@@ -63,12 +66,18 @@ import {
 } from '@/components/ui/select'
 import { Separator } from '@/components/ui/separator'
 import { Switch } from '@/components/ui/switch'
-import { PageContainer, PageHeader, QueryError } from '@/shared/components'
+import {
+	DestructiveConfirmationDialog,
+	PageContainer,
+	PageHeader,
+	QueryError,
+} from '@/shared/components'
 import {
 	Collections,
 	type PlayerDocument,
 	type SeasonDocument,
 	type TeamSeasonDocument,
+	type PaymentStatus,
 	logger,
 	extractErrorMessage,
 } from '@/shared/utils'
@@ -882,6 +891,20 @@ export const PlayerManagement = () => {
 	)
 }
 
+/** Labels for Stripe payment statuses shown on a season card */
+const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+	paid: 'Paid',
+	unpaid: 'Unpaid',
+	no_payment_required: 'No payment required',
+	partially_refunded: 'Partially refunded',
+	refunded: 'Refunded',
+	disputed: 'Disputed',
+	dispute_lost: 'Dispute lost',
+}
+
+/** Payment statuses that still have money left to refund */
+const REFUNDABLE_STATUSES: PaymentStatus[] = ['paid', 'partially_refunded']
+
 interface SeasonCardProps {
 	seasonData: SeasonFormData
 	seasons: (SeasonDocument & { id: string })[] | undefined
@@ -900,6 +923,7 @@ const SeasonCard = ({
 	onFieldChange,
 }: SeasonCardProps) => {
 	const [isSendingWaiver, setIsSendingWaiver] = useState(false)
+	const [isRefunding, setIsRefunding] = useState(false)
 
 	const season = seasons?.find((s) => s.id === seasonData.seasonId)
 	const seasonName = season?.name || 'Unknown Season'
@@ -932,6 +956,50 @@ const SeasonCard = ({
 		}
 	}
 
+	// Stripe payments for this season, newest first
+	const [paymentsSnapshot, , paymentsError] = useCollection(
+		playerPaymentsBySeasonQuery(playerId, seasonData.seasonId)
+	)
+	const payments = useMemo(
+		() =>
+			(
+				paymentsSnapshot?.docs.map((paymentDoc) => paymentDoc.data()) ?? []
+			).sort((a, b) => b.stripeCreated.toMillis() - a.stripeCreated.toMillis()),
+		[paymentsSnapshot]
+	)
+	const latestPayment = payments[0]
+	const canRefund = payments.some((payment) =>
+		REFUNDABLE_STATUSES.includes(payment.status)
+	)
+
+	const handleRefund = async () => {
+		setIsRefunding(true)
+		try {
+			const result = await refundPlayerPaymentViaFunction({
+				playerId,
+				seasonId: seasonData.seasonId,
+			})
+			toast.success('Refund issued', {
+				description: result.message,
+			})
+		} catch (error) {
+			logger.error('Failed to refund payment:', {
+				component: 'SeasonCard',
+				playerId,
+				seasonId: seasonData.seasonId,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+			toast.error(
+				extractErrorMessage(
+					error,
+					'Failed to refund payment. Please try again.'
+				)
+			)
+		} finally {
+			setIsRefunding(false)
+		}
+	}
+
 	// Create season ref directly - no need to fetch the document just for the ref
 	const seasonRef = season
 		? (doc(
@@ -953,6 +1021,12 @@ const SeasonCard = ({
 		errorLabel: 'teams',
 		context: { seasonId: season?.id },
 	})
+	useQueryErrorHandler({
+		error: paymentsError,
+		component: 'SeasonCard',
+		errorLabel: 'payments',
+		context: { seasonId: seasonData.seasonId },
+	})
 
 	const teams = useMemo(() => {
 		if (!teamsSnapshot) return []
@@ -970,7 +1044,20 @@ const SeasonCard = ({
 	return (
 		<Card>
 			<CardHeader className='pb-3'>
-				<CardTitle className='text-base'>{seasonName}</CardTitle>
+				<CardTitle className='flex items-center justify-between gap-2 text-base'>
+					{seasonName}
+					{latestPayment && (
+						<Badge
+							variant={
+								REFUNDABLE_STATUSES.includes(latestPayment.status)
+									? 'outline'
+									: 'destructive'
+							}
+						>
+							Stripe: {PAYMENT_STATUS_LABELS[latestPayment.status]}
+						</Badge>
+					)}
+				</CardTitle>
 			</CardHeader>
 			<CardContent className='space-y-4'>
 				<div className='grid grid-cols-2 gap-4'>
@@ -1066,6 +1153,35 @@ const SeasonCard = ({
 					</Button>
 				)}
 
+				{/* Refund button - only shows when there's a Stripe payment to refund */}
+				{canRefund && (
+					<DestructiveConfirmationDialog
+						title='Refund this payment?'
+						description={`The player's Stripe payment for ${seasonName} will be refunded in full. Once Stripe confirms the refund they'll be marked unpaid, which may unregister their team.`}
+						continueText='Refund Payment'
+						onConfirm={handleRefund}
+					>
+						<Button
+							variant='outline'
+							size='sm'
+							disabled={isRefunding}
+							className='w-full text-destructive hover:text-destructive'
+						>
+							{isRefunding ? (
+								<>
+									<Loader2 className='h-4 w-4 mr-2 animate-spin' />
+									Refunding...
+								</>
+							) : (
+								<>
+									<Undo2 className='h-4 w-4 mr-2' />
+									Refund Stripe Payment
+								</>
+							)}
+						</Button>
+					</DestructiveConfirmationDialog>
+				)}
+
 				<div className='space-y-2'>
 					<Label htmlFor={`team-${seasonData.seasonId}`}>Team</Label>
 					<Select
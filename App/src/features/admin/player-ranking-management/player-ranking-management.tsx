@@ -2,10 +2,14 @@
  * Admin interface for managing player ranking calculations
  *
  * Allows administrators to trigger TrueSkill calculations and monitor progress.
- * Only full rebuilds are supported to ensure accurate sigma (uncertainty) tracking.
+ * New rounds are applied incrementally as games are scored; the checkpoint card
+ * shows the last processed round and whether a full rebuild is required. The
+ * parameter sandbox runs shadow rebuilds with custom parameters, compares them
+ * with the live rankings and promotes the better one. The calibration card
+ * checks the pre-game win probabilities stored on games against results.
  */
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useAuthState } from 'react-firebase-hooks/auth'
 import { useDocument, useCollection } from 'react-firebase-hooks/firestore'
 import { Link } from 'react-router-dom'
@@ -15,14 +19,29 @@ import { auth } from '@/firebase/auth'
 import { getPlayerRef } from '@/firebase/collections/players'
 import {
 	playerRankingsCalculationsQuery,
+	rankingsCheckpointRef,
 	rebuildPlayerRankings,
+	startShadowRankingsRebuild,
 } from '@/firebase/collections/player-rankings'
-import { RankingsCalculationDocument, Timestamp } from '@/types'
+import {
+	RankingsCalculationDocument,
+	RankingsParameters,
+	Timestamp,
+} from '@/types'
 import { logger } from '@/shared/utils'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import {
 	Tooltip,
@@ -48,7 +67,12 @@ import {
 	Settings,
 	ArrowLeft,
 	AlertTriangle,
+	Flag,
+	FlaskConical,
 } from 'lucide-react'
+import { RANKINGS_PARAMETER_LABELS } from './rankings-parameters'
+import { ShadowRunComparison } from './shadow-run-comparison'
+import { PredictionCalibration } from './prediction-calibration'
 
 export const PlayerRankingManagement = () => {
 	const [user] = useAuthState(auth)
@@ -61,11 +85,21 @@ export const PlayerRankingManagement = () => {
 		null
 	)
 
+	const [parameterInputs, setParameterInputs] = useState<
+		Partial<Record<keyof RankingsParameters, string>>
+	>({})
+	const [isRunningShadow, setIsRunningShadow] = useState(false)
+	const [selectedShadowId, setSelectedShadowId] = useState<string | null>(null)
+
 	const isAdmin = playerSnapshot?.data()?.admin || false
 
 	const [calculationsSnapshot, loading, error] = useCollection(
 		playerRankingsCalculationsQuery()
 	)
+	const [checkpointSnapshot, checkpointLoading] = useDocument(
+		isAdmin ? rankingsCheckpointRef() : undefined
+	)
+	const checkpoint = checkpointSnapshot?.data()
 
 	// Log and notify on query errors
 	useEffect(() => {
@@ -97,6 +131,52 @@ export const PlayerRankingManagement = () => {
 		...doc.data(),
 	})) as (RankingsCalculationDocument & { id: string })[] | undefined
 
+	const shadowRuns = useMemo(
+		() =>
+			calculations?.filter(
+				(calc) => calc.target === 'shadow' && calc.status === 'completed'
+			) ?? [],
+		[calculations]
+	)
+	const selectedShadowRun =
+		shadowRuns.find((calc) => calc.id === selectedShadowId) ?? shadowRuns[0]
+
+	const handleShadowRebuild = async () => {
+		const parameters: Partial<RankingsParameters> = {}
+		for (const [key, value] of Object.entries(parameterInputs)) {
+			if (value === undefined || value.trim() === '') continue
+			const parsed = Number(value)
+			if (!Number.isFinite(parsed)) {
+				toast.error('Invalid parameter', {
+					description: `${RANKINGS_PARAMETER_LABELS[key as keyof RankingsParameters]} must be a number`,
+				})
+				return
+			}
+			parameters[key as keyof RankingsParameters] = parsed
+		}
+
+		setIsRunningShadow(true)
+		try {
+			const result = await startShadowRankingsRebuild({ parameters })
+			if (result.data.status === 'completed') {
+				setSelectedShadowId(result.data.calculationId)
+				toast.success('Shadow rebuild complete', {
+					description: result.data.message,
+				})
+			} else {
+				toast.error('Shadow rebuild failed', {
+					description: result.data.message,
+				})
+			}
+		} catch (err) {
+			toast.error('Failed to run shadow rebuild', {
+				description: err instanceof Error ? err.message : 'Unknown error',
+			})
+		} finally {
+			setIsRunningShadow(false)
+		}
+	}
+
 	const handleRebuildRankings = async () => {
 		setIsCalculating(true)
 		setCalculationError(null)
@@ -320,6 +400,149 @@ export const PlayerRankingManagement = () => {
 				</CardContent>
 			</Card>
 
+			{/* Checkpoint Status */}
+			<Card>
+				<CardHeader>
+					<CardTitle className='flex items-center gap-2'>
+						<Flag className='h-5 w-5' aria-hidden='true' />
+						Rankings Checkpoint
+					</CardTitle>
+				</CardHeader>
+				<CardContent className='space-y-4'>
+					<p className='text-sm text-muted-foreground'>
+						New rounds are applied on top of the stored ratings as games are
+						scored. Editing a game at or before the last processed round
+						requires a full rebuild, which the hourly update runs automatically.
+					</p>
+					{checkpointLoading ? (
+						<div
+							className='h-10 w-full bg-muted rounded animate-pulse'
+							role='status'
+							aria-label='Loading checkpoint'
+						/>
+					) : checkpoint?.lastRoundStartTime ? (
+						<div className='grid gap-2 text-sm sm:grid-cols-2'>
+							<div>
+								<span className='text-muted-foreground'>
+									Last processed round:{' '}
+								</span>
+								{formatDate(checkpoint.lastRoundStartTime)}
+							</div>
+							<div>
+								<span className='text-muted-foreground'>Updated: </span>
+								{formatDate(checkpoint.updatedAt)}
+							</div>
+						</div>
+					) : (
+						<p className='text-sm'>
+							No checkpoint yet. Run a full rebuild to start incremental
+							updates.
+						</p>
+					)}
+					{checkpoint?.rebuildRequired && (
+						<Alert variant='destructive' role='alert'>
+							<AlertTriangle className='h-4 w-4' aria-hidden='true' />
+							<AlertDescription>
+								Full rebuild required: {checkpoint.rebuildRequired.reason}{' '}
+								(flagged {formatDate(checkpoint.rebuildRequired.flaggedAt)})
+							</AlertDescription>
+						</Alert>
+					)}
+				</CardContent>
+			</Card>
+
+			{/* Parameter Sandbox */}
+			<Card>
+				<CardHeader>
+					<CardTitle className='flex items-center gap-2'>
+						<FlaskConical className='h-5 w-5' aria-hidden='true' />
+						Parameter Sandbox
+					</CardTitle>
+				</CardHeader>
+				<CardContent className='space-y-6'>
+					<p className='text-sm text-muted-foreground'>
+						Rebuild every ranking with different parameters without touching the
+						live rankings, then compare the run with the live rankings before
+						promoting it. Leave a field blank to keep its live value.
+					</p>
+					<div className='grid gap-4 sm:grid-cols-2 lg:grid-cols-3'>
+						{(
+							Object.keys(
+								RANKINGS_PARAMETER_LABELS
+							) as (keyof RankingsParameters)[]
+						).map((key) => (
+							<div key={key} className='space-y-2'>
+								<Label htmlFor={`parameter-${key}`}>
+									{RANKINGS_PARAMETER_LABELS[key]}
+								</Label>
+								<Input
+									id={`parameter-${key}`}
+									type='number'
+									step='any'
+									inputMode='decimal'
+									placeholder={checkpoint?.parameters?.[key]?.toString()}
+									value={parameterInputs[key] ?? ''}
+									onChange={(e) =>
+										setParameterInputs((prev) => ({
+											...prev,
+											[key]: e.target.value,
+										}))
+									}
+								/>
+							</div>
+						))}
+					</div>
+					<Button
+						onClick={handleShadowRebuild}
+						disabled={isRunningShadow}
+						aria-busy={isRunningShadow}
+						className='flex items-center gap-2'
+					>
+						{isRunningShadow ? (
+							<RefreshCw className='h-4 w-4 animate-spin' aria-hidden='true' />
+						) : (
+							<FlaskConical className='h-4 w-4' aria-hidden='true' />
+						)}
+						{isRunningShadow
+							? 'Running Shadow Rebuild...'
+							: 'Run Shadow Rebuild'}
+					</Button>
+
+					{selectedShadowRun && (
+						<div className='space-y-4 border-t pt-6'>
+							<div className='space-y-2 max-w-md'>
+								<Label htmlFor='shadow-run'>Compare shadow run</Label>
+								<Select
+									value={selectedShadowRun.id}
+									onValueChange={setSelectedShadowId}
+								>
+									<SelectTrigger id='shadow-run'>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{shadowRuns.map((calc) => (
+											<SelectItem key={calc.id} value={calc.id}>
+												{formatDate(calc.startedAt)}
+												{calc.promotedAt ? ' (promoted)' : ''}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+							<ShadowRunComparison
+								key={selectedShadowRun.id}
+								calculation={selectedShadowRun}
+								liveParameters={checkpoint?.parameters}
+								livePredictionStats={checkpoint?.predictionStats}
+							/>
+						</div>
+					)}
+				</CardContent>
+			</Card>
+
+			{/* Prediction Calibration */}
+			<PredictionCalibration />
+
 			{/* Calculation History */}
 			<Card>
 				<CardHeader>
@@ -380,7 +603,10 @@ export const PlayerRankingManagement = () => {
 												<Badge variant='outline'>
 													{calc.calculationType === 'fresh'
 														? 'Full Rebuild'
-														: calc.calculationType}
+														: calc.calculationType === 'incremental'
+															? 'Incremental'
+															: calc.calculationType}
+													{calc.target === 'shadow' && ' (Shadow)'}
 												</Badge>
 											</TableCell>
 											<TableCell>
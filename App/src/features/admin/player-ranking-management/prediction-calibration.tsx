@@ -0,0 +1,234 @@
+/**
+ * Calibration report for the pre-game win probabilities stored on games
+ *
+ * Groups scored games by how strongly the favorite was predicted to win and
+ * compares that with how often the favorite actually won. Well-calibrated
+ * ratings win about as often as they predict.
+ */
+
+import { useMemo } from 'react'
+import { useCollection } from 'react-firebase-hooks/firestore'
+
+import { predictedGamesQuery } from '@/firebase/collections/games'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { RefreshCw, Target, XCircle } from 'lucide-react'
+
+/** Lower bounds of the favorite win probability buckets */
+const BUCKET_BOUNDS = [0.5, 0.55, 0.6, 0.7, 0.8, 0.9]
+
+/** Number of biggest upsets to list */
+const UPSETS_TO_SHOW = 10
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+export const PredictionCalibration = () => {
+	const [gamesSnapshot, loading, error] = useCollection(predictedGamesQuery())
+
+	const report = useMemo(() => {
+		const games =
+			gamesSnapshot?.docs.flatMap((doc) => {
+				const game = doc.data()
+				if (!game.prediction) return []
+				const { homeWinProbability } = game.prediction
+				return [
+					{
+						id: doc.id,
+						game,
+						favoriteChance: Math.max(
+							homeWinProbability,
+							1 - homeWinProbability
+						),
+						favoriteWon: !game.prediction.upset,
+					},
+				]
+			}) ?? []
+		if (games.length === 0) return null
+
+		const buckets = BUCKET_BOUNDS.map((lower, index) => {
+			const upper = BUCKET_BOUNDS[index + 1] ?? 1
+			const inBucket = games.filter(
+				(entry) =>
+					entry.favoriteChance >= lower &&
+					(entry.favoriteChance < upper || upper === 1)
+			)
+			return {
+				label: `${Math.round(lower * 100)}–${Math.round(upper * 100)}%`,
+				games: inBucket.length,
+				predicted:
+					inBucket.reduce((sum, entry) => sum + entry.favoriteChance, 0) /
+					(inBucket.length || 1),
+				actual:
+					inBucket.filter((entry) => entry.favoriteWon).length /
+					(inBucket.length || 1),
+			}
+		})
+
+		const upsets = games
+			.filter((entry) => !entry.favoriteWon)
+			.sort((a, b) => b.favoriteChance - a.favoriteChance)
+
+		return {
+			games: games.length,
+			favoriteWinRate:
+				games.filter((entry) => entry.favoriteWon).length / games.length,
+			brier:
+				games.reduce(
+					(sum, entry) =>
+						sum +
+						Math.pow(entry.favoriteChance - (entry.favoriteWon ? 1 : 0), 2),
+					0
+				) / games.length,
+			upsetCount: upsets.length,
+			buckets,
+			biggestUpsets: upsets.slice(0, UPSETS_TO_SHOW),
+		}
+	}, [gamesSnapshot])
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className='flex items-center gap-2'>
+					<Target className='h-5 w-5' aria-hidden='true' />
+					Prediction Calibration
+				</CardTitle>
+			</CardHeader>
+			<CardContent className='space-y-6'>
+				{error ? (
+					<Alert variant='destructive' role='alert'>
+						<XCircle className='h-4 w-4' aria-hidden='true' />
+						<AlertDescription>
+							Error loading predicted games: {error.message}
+						</AlertDescription>
+					</Alert>
+				) : loading ? (
+					<div
+						className='flex items-center gap-2 text-sm text-muted-foreground'
+						role='status'
+					>
+						<RefreshCw className='h-4 w-4 animate-spin' aria-hidden='true' />
+						Loading predicted games...
+					</div>
+				) : !report ? (
+					<p className='text-sm text-muted-foreground'>
+						No scored games with a pre-game prediction yet.
+					</p>
+				) : (
+					<>
+						<div className='grid gap-4 sm:grid-cols-4'>
+							<div>
+								<p className='text-sm text-muted-foreground'>Games</p>
+								<p className='text-lg font-semibold'>{report.games}</p>
+							</div>
+							<div>
+								<p className='text-sm text-muted-foreground'>Favorite won</p>
+								<p className='text-lg font-semibold'>
+									{formatPercent(report.favoriteWinRate)}
+								</p>
+							</div>
+							<div>
+								<p className='text-sm text-muted-foreground'>Upsets</p>
+								<p className='text-lg font-semibold'>{report.upsetCount}</p>
+							</div>
+							<div>
+								<p className='text-sm text-muted-foreground'>
+									Brier score (lower is better)
+								</p>
+								<p className='text-lg font-semibold'>
+									{report.brier.toFixed(4)}
+								</p>
+							</div>
+						</div>
+
+						<div className='overflow-x-auto'>
+							<Table aria-label='Calibration by predicted chance'>
+								<TableHeader>
+									<TableRow>
+										<TableHead scope='col'>
+											Favorite's predicted chance
+										</TableHead>
+										<TableHead scope='col' className='text-right'>
+											Games
+										</TableHead>
+										<TableHead scope='col' className='text-right'>
+											Predicted
+										</TableHead>
+										<TableHead scope='col' className='text-right'>
+											Actual
+										</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{report.buckets.map((bucket) => (
+										<TableRow key={bucket.label}>
+											<TableCell>{bucket.label}</TableCell>
+											<TableCell className='text-right tabular-nums'>
+												{bucket.games}
+											</TableCell>
+											<TableCell className='text-right tabular-nums'>
+												{bucket.games > 0
+													? formatPercent(bucket.predicted)
+													: '—'}
+											</TableCell>
+											<TableCell className='text-right tabular-nums'>
+												{bucket.games > 0 ? formatPercent(bucket.actual) : '—'}
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</div>
+
+						{report.biggestUpsets.length > 0 && (
+							<div className='overflow-x-auto'>
+								<Table aria-label='Biggest upsets'>
+									<TableHeader>
+										<TableRow>
+											<TableHead scope='col'>Biggest upsets</TableHead>
+											<TableHead scope='col'>Date</TableHead>
+											<TableHead scope='col' className='text-right'>
+												Score
+											</TableHead>
+											<TableHead scope='col' className='text-right'>
+												Underdog's chance
+											</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{report.biggestUpsets.map(
+											({ id, game, favoriteChance }) => (
+												<TableRow key={id}>
+													<TableCell>
+														{game.homeName ?? 'Home'} vs{' '}
+														{game.awayName ?? 'Away'}
+													</TableCell>
+													<TableCell>
+														{game.date.toDate().toLocaleDateString()}
+													</TableCell>
+													<TableCell className='text-right tabular-nums'>
+														{game.homeScore} - {game.awayScore}
+													</TableCell>
+													<TableCell className='text-right tabular-nums'>
+														{formatPercent(1 - favoriteChance)}
+													</TableCell>
+												</TableRow>
+											)
+										)}
+									</TableBody>
+								</Table>
+							</div>
+						)}
+					</>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
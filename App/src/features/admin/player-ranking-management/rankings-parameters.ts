@@ -0,0 +1,16 @@
+import { RankingsParameters } from '@/types'
+
+/** Labels for the tunable parameters, in display order */
+export const RANKINGS_PARAMETER_LABELS: Record<
+	keyof RankingsParameters,
+	string
+> = {
+	beta: 'Performance variance (β)',
+	tau: 'Dynamics factor (τ)',
+	seasonDecayFactor: 'Season decay factor',
+	gravityWellPerRound: 'Gravity well per round',
+	inactivityDecayPerRound: 'Inactivity decay per round',
+	playoffMultiplier: 'Playoff multiplier',
+	marginOfVictoryWeight: 'Margin of victory weight (0 = off)',
+	marginOfVictoryCap: 'Margin of victory cap (points)',
+}
@@ -0,0 +1,432 @@
+/**
+ * Side-by-side comparison of a shadow rankings run against the live rankings
+ *
+ * Shows the parameters of both, how well each predicted past game outcomes,
+ * and how player ranks and ratings move, with an action to promote the
+ * shadow run to the live rankings.
+ */
+
+import { useMemo, useState } from 'react'
+import { useCollection } from 'react-firebase-hooks/firestore'
+import { toast } from 'sonner'
+
+import {
+	currentPlayerRankingsQuery,
+	promoteShadowRankings,
+	shadowRankingsQuery,
+} from '@/firebase/collections/player-rankings'
+import {
+	RankingsCalculationDocument,
+	RankingsParameters,
+	RankingsPredictionStats,
+} from '@/types'
+import { DestructiveConfirmationDialog } from '@/shared/components'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import {
+	ArrowDown,
+	ArrowUp,
+	Minus,
+	RefreshCw,
+	Rocket,
+	XCircle,
+} from 'lucide-react'
+import { RANKINGS_PARAMETER_LABELS } from './rankings-parameters'
+
+/** Number of players with the largest rank movement to list */
+const MOVERS_TO_SHOW = 25
+
+interface PlayerComparison {
+	playerId: string
+	playerName: string
+	liveRank: number | null
+	shadowRank: number | null
+	liveRating: number | null
+	shadowRating: number | null
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+/**
+ * Prediction accuracy figures for a set of stats
+ */
+const summarizePredictions = (stats: RankingsPredictionStats | undefined) => {
+	if (!stats || stats.games === 0) return null
+	return {
+		games: stats.games,
+		accuracy: stats.correct / stats.games,
+		brier: stats.brierSum / stats.games,
+		logLoss: stats.logLossSum / stats.games,
+	}
+}
+
+export const ShadowRunComparison = ({
+	calculation,
+	liveParameters,
+	livePredictionStats,
+}: {
+	calculation: RankingsCalculationDocument & { id: string }
+	liveParameters: RankingsParameters | undefined
+	livePredictionStats: RankingsPredictionStats | undefined
+}) => {
+	const [isPromoting, setIsPromoting] = useState(false)
+	const [liveSnapshot, liveLoading, liveError] = useCollection(
+		currentPlayerRankingsQuery()
+	)
+	const [shadowSnapshot, shadowLoading, shadowError] = useCollection(
+		shadowRankingsQuery(calculation.id)
+	)
+
+	const comparisons = useMemo(() => {
+		const byPlayer = new Map<string, PlayerComparison>()
+		for (const doc of liveSnapshot?.docs ?? []) {
+			const ranking = doc.data()
+			byPlayer.set(ranking.playerId, {
+				playerId: ranking.playerId,
+				playerName: ranking.playerName,
+				liveRank: ranking.rank,
+				shadowRank: null,
+				liveRating: ranking.rating,
+				shadowRating: null,
+			})
+		}
+		for (const doc of shadowSnapshot?.docs ?? []) {
+			const ranking = doc.data()
+			const existing = byPlayer.get(ranking.playerId)
+			byPlayer.set(ranking.playerId, {
+				playerId: ranking.playerId,
+				playerName: ranking.playerName,
+				liveRank: existing?.liveRank ?? null,
+				shadowRank: ranking.rank,
+				liveRating: existing?.liveRating ?? null,
+				shadowRating: ranking.rating,
+			})
+		}
+		return Array.from(byPlayer.values())
+	}, [liveSnapshot, shadowSnapshot])
+
+	const summary = useMemo(() => {
+		const matched = comparisons.filter(
+			(player) => player.liveRank !== null && player.shadowRank !== null
+		)
+		if (matched.length === 0) return null
+
+		const rankMoves = matched.map((player) =>
+			Math.abs((player.liveRank ?? 0) - (player.shadowRank ?? 0))
+		)
+		const ratingDeltas = matched.map((player) =>
+			Math.abs((player.shadowRating ?? 0) - (player.liveRating ?? 0))
+		)
+
+		return {
+			matched: matched.length,
+			moved: rankMoves.filter((move) => move > 0).length,
+			averageRankMove:
+				rankMoves.reduce((sum, move) => sum + move, 0) / matched.length,
+			maxRankMove: Math.max(...rankMoves),
+			averageRatingDelta:
+				ratingDeltas.reduce((sum, delta) => sum + delta, 0) / matched.length,
+		}
+	}, [comparisons])
+
+	const movers = useMemo(
+		() =>
+			comparisons
+				.filter(
+					(player) => player.liveRank !== null && player.shadowRank !== null
+				)
+				.sort(
+					(a, b) =>
+						Math.abs((b.liveRank ?? 0) - (b.shadowRank ?? 0)) -
+						Math.abs((a.liveRank ?? 0) - (a.shadowRank ?? 0))
+				)
+				.slice(0, MOVERS_TO_SHOW),
+		[comparisons]
+	)
+
+	const livePredictions = summarizePredictions(livePredictionStats)
+	const shadowPredictions = summarizePredictions(calculation.predictionStats)
+
+	const handlePromote = async () => {
+		setIsPromoting(true)
+		try {
+			const result = await promoteShadowRankings({
+				calculationId: calculation.id,
+			})
+			toast.success('Shadow run promoted', {
+				description: result.data.message,
+			})
+		} catch (err) {
+			toast.error('Failed to promote shadow run', {
+				description: err instanceof Error ? err.message : 'Unknown error',
+			})
+		} finally {
+			setIsPromoting(false)
+		}
+	}
+
+	if (liveError || shadowError) {
+		return (
+			<Alert variant='destructive' role='alert'>
+				<XCircle className='h-4 w-4' aria-hidden='true' />
+				<AlertDescription>
+					Error loading rankings: {(liveError ?? shadowError)?.message}
+				</AlertDescription>
+			</Alert>
+		)
+	}
+
+	if (liveLoading || shadowLoading) {
+		return (
+			<div
+				className='flex items-center gap-2 text-sm text-muted-foreground'
+				role='status'
+			>
+				<RefreshCw className='h-4 w-4 animate-spin' aria-hidden='true' />
+				Loading rankings...
+			</div>
+		)
+	}
+
+	return (
+		<div className='space-y-6'>
+			{/* Parameters */}
+			<div className='overflow-x-auto'>
+				<Table aria-label='Parameters'>
+					<TableHeader>
+						<TableRow>
+							<TableHead scope='col'>Parameter</TableHead>
+							<TableHead scope='col' className='text-right'>
+								Live
+							</TableHead>
+							<TableHead scope='col' className='text-right'>
+								Shadow
+							</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{(
+							Object.keys(
+								RANKINGS_PARAMETER_LABELS
+							) as (keyof RankingsParameters)[]
+						).map((key) => {
+							const live = liveParameters?.[key]
+							const shadow = calculation.parameters[key]
+							return (
+								<TableRow key={key}>
+									<TableCell>{RANKINGS_PARAMETER_LABELS[key]}</TableCell>
+									<TableCell className='text-right tabular-nums'>
+										{live?.toFixed(4) ?? '—'}
+									</TableCell>
+									<TableCell
+										className={`text-right tabular-nums ${
+											live !== undefined && shadow !== live
+												? 'font-semibold'
+												: ''
+										}`}
+									>
+										{shadow?.toFixed(4) ?? '—'}
+									</TableCell>
+								</TableRow>
+							)
+						})}
+					</TableBody>
+				</Table>
+			</div>
+
+			{/* Prediction accuracy */}
+			<div className='overflow-x-auto'>
+				<Table aria-label='Prediction accuracy'>
+					<TableHeader>
+						<TableRow>
+							<TableHead scope='col'>Predicting past games</TableHead>
+							<TableHead scope='col' className='text-right'>
+								Live
+							</TableHead>
+							<TableHead scope='col' className='text-right'>
+								Shadow
+							</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						<TableRow>
+							<TableCell>Games predicted</TableCell>
+							<TableCell className='text-right tabular-nums'>
+								{livePredictions?.games ?? '—'}
+							</TableCell>
+							<TableCell className='text-right tabular-nums'>
+								{shadowPredictions?.games ?? '—'}
+							</TableCell>
+						</TableRow>
+						<TableRow>
+							<TableCell>Favorite won (higher is better)</TableCell>
+							<TableCell className='text-right tabular-nums'>
+								{livePredictions
+									? formatPercent(livePredictions.accuracy)
+									: '—'}
+							</TableCell>
+							<TableCell className='text-right tabular-nums'>
+								{shadowPredictions
+									? formatPercent(shadowPredictions.accuracy)
+									: '—'}
+							</TableCell>
+						</TableRow>
+						<TableRow>
+							<TableCell>Brier score (lower is better)</TableCell>
+							<TableCell className='text-right tabular-nums'>
+								{livePredictions?.brier.toFixed(4) ?? '—'}
+							</TableCell>
+							<TableCell className='text-right tabular-nums'>
+								{shadowPredictions?.brier.toFixed(4) ?? '—'}
+							</TableCell>
+						</TableRow>
+						<TableRow>
+							<TableCell>Log loss (lower is better)</TableCell>
+							<TableCell className='text-right tabular-nums'>
+								{livePredictions?.logLoss.toFixed(4) ?? '—'}
+							</TableCell>
+							<TableCell className='text-right tabular-nums'>
+								{shadowPredictions?.logLoss.toFixed(4) ?? '—'}
+							</TableCell>
+						</TableRow>
+					</TableBody>
+				</Table>
+				{livePredictions &&
+					shadowPredictions &&
+					livePredictions.games !== shadowPredictions.games && (
+						<p className='text-xs text-muted-foreground mt-2'>
+							The runs cover different numbers of games, so compare the averages
+							rather than the totals.
+						</p>
+					)}
+			</div>
+
+			{/* Rank movement */}
+			{summary ? (
+				<div className='space-y-4'>
+					<div className='grid gap-2 text-sm sm:grid-cols-2 lg:grid-cols-4'>
+						<div>
+							<span className='text-muted-foreground'>Players moved: </span>
+							{summary.moved}/{summary.matched}
+						</div>
+						<div>
+							<span className='text-muted-foreground'>Avg rank change: </span>
+							{summary.averageRankMove.toFixed(1)}
+						</div>
+						<div>
+							<span className='text-muted-foreground'>Max rank change: </span>
+							{summary.maxRankMove}
+						</div>
+						<div>
+							<span className='text-muted-foreground'>Avg rating change: </span>
+							{summary.averageRatingDelta.toFixed(2)}
+						</div>
+					</div>
+
+					<div className='overflow-x-auto'>
+						<Table aria-label='Largest rank movements'>
+							<TableHeader>
+								<TableRow>
+									<TableHead scope='col'>Player</TableHead>
+									<TableHead scope='col' className='text-right'>
+										Live Rank
+									</TableHead>
+									<TableHead scope='col' className='text-right'>
+										Shadow Rank
+									</TableHead>
+									<TableHead scope='col' className='text-right'>
+										Movement
+									</TableHead>
+									<TableHead scope='col' className='text-right'>
+										Rating Δ
+									</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{movers.map((player) => {
+									const movement =
+										(player.liveRank ?? 0) - (player.shadowRank ?? 0)
+									const ratingDelta =
+										(player.shadowRating ?? 0) - (player.liveRating ?? 0)
+									return (
+										<TableRow key={player.playerId}>
+											<TableCell>{player.playerName}</TableCell>
+											<TableCell className='text-right tabular-nums'>
+												{player.liveRank}
+											</TableCell>
+											<TableCell className='text-right tabular-nums'>
+												{player.shadowRank}
+											</TableCell>
+											<TableCell className='text-right tabular-nums'>
+												<span className='inline-flex items-center gap-1'>
+													{movement > 0 ? (
+														<ArrowUp
+															className='h-3 w-3 text-green-600'
+															aria-label='Up'
+														/>
+													) : movement < 0 ? (
+														<ArrowDown
+															className='h-3 w-3 text-red-600'
+															aria-label='Down'
+														/>
+													) : (
+														<Minus className='h-3 w-3' aria-label='No change' />
+													)}
+													{Math.abs(movement)}
+												</span>
+											</TableCell>
+											<TableCell className='text-right tabular-nums'>
+												{ratingDelta > 0 ? '+' : ''}
+												{ratingDelta.toFixed(2)}
+											</TableCell>
+										</TableRow>
+									)
+								})}
+							</TableBody>
+						</Table>
+					</div>
+				</div>
+			) : (
+				<p className='text-sm text-muted-foreground'>
+					No players appear in both the live and shadow rankings.
+				</p>
+			)}
+
+			{/* Promote */}
+			<div className='flex items-center gap-4'>
+				<DestructiveConfirmationDialog
+					title='Promote this shadow run?'
+					description='Its rankings and history will replace the live rankings, and its parameters will be used for every later update and rebuild.'
+					continueText='Promote'
+					onConfirm={handlePromote}
+				>
+					<Button
+						disabled={isPromoting || Boolean(calculation.promotedAt)}
+						aria-busy={isPromoting}
+						className='flex items-center gap-2'
+					>
+						{isPromoting ? (
+							<RefreshCw className='h-4 w-4 animate-spin' aria-hidden='true' />
+						) : (
+							<Rocket className='h-4 w-4' aria-hidden='true' />
+						)}
+						{isPromoting ? 'Promoting...' : 'Promote to Live'}
+					</Button>
+				</DestructiveConfirmationDialog>
+				{calculation.promotedAt && (
+					<span className='text-sm text-muted-foreground'>
+						Promoted {calculation.promotedAt.toDate().toLocaleString()}
+					</span>
+				)}
+			</div>
+		</div>
+	)
+}
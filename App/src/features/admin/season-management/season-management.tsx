@@ -23,7 +23,7 @@ import { toast } from 'sonner'
 import { format } from 'date-fns'
 
 import { auth } from '@/firebase/auth'
-import { logger } from '@/shared/utils'
+import { logger, PLAYER_GENDER_LABELS } from '@/shared/utils'
 import { useQueryErrorHandler } from '@/shared/hooks'
 import { getPlayerRef } from '@/firebase/collections/players'
 import { useSeasonsContext } from '@/providers'
@@ -60,7 +60,13 @@ import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
 import { DestructiveConfirmationDialog } from '@/shared/components/destructive-confirmation-dialog'
-import { SeasonDocument, SeasonFormat } from '@/types'
+import {
+	DEFAULT_SEASON_RULES,
+	PlayerGender,
+	SeasonDocument,
+	SeasonFormat,
+	SeasonRules,
+} from '@/types'
 
 interface ProcessedSeason {
 	id: string
@@ -78,6 +84,204 @@ interface ProcessedSeason {
 		returningPlayerCouponIdDev?: string
 	}
 	format?: SeasonFormat
+	rules?: SeasonRules
+}
+
+/**
+ * Text values of the league rules inputs - blank means use the default
+ */
+interface RulesFormState {
+	minPlayersForRegistration: string
+	registeredTeamsForLock: string
+	allowedTimeSlots: string
+	allowedFields: string
+	allowedMonths: string
+	offerExpirationDays: string
+	offerReminderHours: string
+	maxRosterSize: string
+	minCaptains: string
+	maxCaptains: string
+	maxPlayersPerGender: Record<PlayerGender, string>
+	minPlayersPerGender: Record<PlayerGender, string>
+	forfeitWinnerScore: string
+	forfeitLoserScore: string
+}
+
+const EMPTY_RULES_FORM: RulesFormState = {
+	minPlayersForRegistration: '',
+	registeredTeamsForLock: '',
+	allowedTimeSlots: '',
+	allowedFields: '',
+	allowedMonths: '',
+	offerExpirationDays: '',
+	offerReminderHours: '',
+	maxRosterSize: '',
+	minCaptains: '',
+	maxCaptains: '',
+	maxPlayersPerGender: {
+		[PlayerGender.WOMAN]: '',
+		[PlayerGender.MAN]: '',
+		[PlayerGender.NON_BINARY]: '',
+	},
+	minPlayersPerGender: {
+		[PlayerGender.WOMAN]: '',
+		[PlayerGender.MAN]: '',
+		[PlayerGender.NON_BINARY]: '',
+	},
+	forfeitWinnerScore: '',
+	forfeitLoserScore: '',
+}
+
+const rulesToFormState = (rules?: SeasonRules): RulesFormState => ({
+	minPlayersForRegistration: rules?.minPlayersForRegistration?.toString() ?? '',
+	registeredTeamsForLock: rules?.registeredTeamsForLock?.toString() ?? '',
+	allowedTimeSlots: rules?.allowedTimeSlots?.join(', ') ?? '',
+	allowedFields: rules?.allowedFields?.join(', ') ?? '',
+	allowedMonths: rules?.allowedMonths?.join(', ') ?? '',
+	offerExpirationDays: rules?.offerExpirationDays?.toString() ?? '',
+	offerReminderHours: rules?.offerReminderHours?.toString() ?? '',
+	maxRosterSize: rules?.maxRosterSize?.toString() ?? '',
+	minCaptains: rules?.minCaptains?.toString() ?? '',
+	maxCaptains: rules?.maxCaptains?.toString() ?? '',
+	maxPlayersPerGender: {
+		[PlayerGender.WOMAN]:
+			rules?.maxPlayersPerGender?.[PlayerGender.WOMAN]?.toString() ?? '',
+		[PlayerGender.MAN]:
+			rules?.maxPlayersPerGender?.[PlayerGender.MAN]?.toString() ?? '',
+		[PlayerGender.NON_BINARY]:
+			rules?.maxPlayersPerGender?.[PlayerGender.NON_BINARY]?.toString() ?? '',
+	},
+	minPlayersPerGender: {
+		[PlayerGender.WOMAN]:
+			rules?.minPlayersPerGender?.[PlayerGender.WOMAN]?.toString() ?? '',
+		[PlayerGender.MAN]:
+			rules?.minPlayersPerGender?.[PlayerGender.MAN]?.toString() ?? '',
+		[PlayerGender.NON_BINARY]:
+			rules?.minPlayersPerGender?.[PlayerGender.NON_BINARY]?.toString() ?? '',
+	},
+	forfeitWinnerScore: rules?.forfeitWinnerScore?.toString() ?? '',
+	forfeitLoserScore: rules?.forfeitLoserScore?.toString() ?? '',
+})
+
+const splitList = (value: string): string[] =>
+	value
+		.split(',')
+		.map((item) => item.trim())
+		.filter(Boolean)
+
+/**
+ * Converts the rules inputs into a SeasonRules block, leaving blank inputs
+ * unset so the season uses the league-wide default
+ *
+ * @throws Error with a user-facing message if an input can't be parsed
+ */
+const formStateToRules = (form: RulesFormState): SeasonRules => {
+	const rules: SeasonRules = {}
+
+	const parseWholeNumber = (value: string, label: string): number => {
+		const parsed = Number(value)
+		if (!Number.isInteger(parsed)) {
+			throw new Error(`${label} must be a whole number`)
+		}
+		return parsed
+	}
+
+	if (form.minPlayersForRegistration.trim()) {
+		rules.minPlayersForRegistration = parseWholeNumber(
+			form.minPlayersForRegistration.trim(),
+			'Minimum players for registration'
+		)
+	}
+	if (form.registeredTeamsForLock.trim()) {
+		rules.registeredTeamsForLock = parseWholeNumber(
+			form.registeredTeamsForLock.trim(),
+			'Registered teams for lock'
+		)
+	}
+	if (form.allowedTimeSlots.trim()) {
+		rules.allowedTimeSlots = splitList(form.allowedTimeSlots).map((slot) => {
+			if (!/^\d{1,2}:\d{2}$/.test(slot)) {
+				throw new Error(`Time slot "${slot}" must be in HH:MM format`)
+			}
+			return slot.padStart(5, '0')
+		})
+	}
+	if (form.allowedFields.trim()) {
+		rules.allowedFields = splitList(form.allowedFields).map((field) =>
+			parseWholeNumber(field, 'Each field')
+		)
+	}
+	if (form.allowedMonths.trim()) {
+		rules.allowedMonths = splitList(form.allowedMonths).map((month) =>
+			parseWholeNumber(month, 'Each month')
+		)
+	}
+	if (form.offerExpirationDays.trim()) {
+		rules.offerExpirationDays = parseWholeNumber(
+			form.offerExpirationDays.trim(),
+			'Offer expiration'
+		)
+	}
+	if (form.offerReminderHours.trim()) {
+		rules.offerReminderHours = parseWholeNumber(
+			form.offerReminderHours.trim(),
+			'Offer reminder'
+		)
+	}
+	if (form.maxRosterSize.trim()) {
+		rules.maxRosterSize = parseWholeNumber(
+			form.maxRosterSize.trim(),
+			'Max roster size'
+		)
+	}
+	if (form.minCaptains.trim()) {
+		rules.minCaptains = parseWholeNumber(
+			form.minCaptains.trim(),
+			'Minimum captains'
+		)
+	}
+	if (form.maxCaptains.trim()) {
+		rules.maxCaptains = parseWholeNumber(
+			form.maxCaptains.trim(),
+			'Maximum captains'
+		)
+	}
+	if (form.forfeitWinnerScore.trim()) {
+		rules.forfeitWinnerScore = parseWholeNumber(
+			form.forfeitWinnerScore.trim(),
+			'Forfeit winner score'
+		)
+	}
+	if (form.forfeitLoserScore.trim()) {
+		rules.forfeitLoserScore = parseWholeNumber(
+			form.forfeitLoserScore.trim(),
+			'Forfeit loser score'
+		)
+	}
+	for (const gender of Object.values(PlayerGender)) {
+		const limit = form.maxPlayersPerGender[gender].trim()
+		if (limit) {
+			rules.maxPlayersPerGender = {
+				...rules.maxPlayersPerGender,
+				[gender]: parseWholeNumber(
+					limit,
+					`Max ${PLAYER_GENDER_LABELS[gender].toLowerCase()} players`
+				),
+			}
+		}
+		const minimum = form.minPlayersPerGender[gender].trim()
+		if (minimum) {
+			rules.minPlayersPerGender = {
+				...rules.minPlayersPerGender,
+				[gender]: parseWholeNumber(
+					minimum,
+					`Min ${PLAYER_GENDER_LABELS[gender].toLowerCase()} players`
+				),
+			}
+		}
+	}
+
+	return rules
 }
 
 type DialogMode = 'create' | 'edit' | null
@@ -132,6 +336,30 @@ export const SeasonManagement = () => {
 		SeasonFormat.TRADITIONAL
 	)
 
+	// League rules form state
+	const [formRules, setFormRules] = useState<RulesFormState>(EMPTY_RULES_FORM)
+
+	const updateRulesField = (
+		field: Exclude<
+			keyof RulesFormState,
+			'maxPlayersPerGender' | 'minPlayersPerGender'
+		>,
+		value: string
+	) => {
+		setFormRules((current) => ({ ...current, [field]: value }))
+	}
+
+	const updateGenderRule = (
+		field: 'maxPlayersPerGender' | 'minPlayersPerGender',
+		gender: PlayerGender,
+		value: string
+	) => {
+		setFormRules((current) => ({
+			...current,
+			[field]: { ...current[field], [gender]: value },
+		}))
+	}
+
 	// Team selection state
 	const [availableTeams, setAvailableTeams] = useState<
 		{ id: string; name: string }[]
@@ -188,6 +416,7 @@ export const SeasonManagement = () => {
 							teamCount: teamIds.length,
 							stripe: seasonData.stripe,
 							format: seasonData.format,
+							rules: seasonData.rules,
 						} as ProcessedSeason
 					} catch (error) {
 						logger.error('Error processing season', error, { seasonId })
@@ -266,6 +495,8 @@ export const SeasonManagement = () => {
 		setFormStripeCouponIdDev('')
 		// Reset format to default
 		setFormFormat(SeasonFormat.TRADITIONAL)
+		// Reset rules to the defaults
+		setFormRules(EMPTY_RULES_FORM)
 	}
 
 	const openEditDialog = (season: ProcessedSeason) => {
@@ -284,6 +515,8 @@ export const SeasonManagement = () => {
 		setFormStripeCouponIdDev(season.stripe?.returningPlayerCouponIdDev || '')
 		// Populate format
 		setFormFormat(season.format || SeasonFormat.TRADITIONAL)
+		// Populate rules
+		setFormRules(rulesToFormState(season.rules))
 	}
 
 	const closeDialog = () => {
@@ -304,6 +537,8 @@ export const SeasonManagement = () => {
 		setFormStripeCouponIdDev('')
 		// Reset format
 		setFormFormat(SeasonFormat.TRADITIONAL)
+		// Reset rules
+		setFormRules(EMPTY_RULES_FORM)
 	}
 
 	const handleAddTeam = () => {
@@ -339,6 +574,16 @@ export const SeasonManagement = () => {
 			return
 		}
 
+		let rules: SeasonRules
+		try {
+			rules = formStateToRules(formRules)
+		} catch (error) {
+			toast.error(
+				error instanceof Error ? error.message : 'Invalid league rules'
+			)
+			return
+		}
+
 		setIsSubmitting(true)
 
 		try {
@@ -365,6 +610,7 @@ export const SeasonManagement = () => {
 				teamIds: formTeamIds,
 				stripe: stripeConfig,
 				format: formFormat,
+				rules,
 			}
 
 			if (dialogMode === 'create') {
@@ -772,6 +1018,297 @@ export const SeasonManagement = () => {
 							</div>
 						)}
 
+						{/* League Rules */}
+						<div className='space-y-4 border-t pt-4 mt-4'>
+							<h4 className='font-medium text-sm'>League Rules</h4>
+							<p className='text-xs text-muted-foreground'>
+								Leave a rule blank to use the league-wide default shown in the
+								field.
+							</p>
+
+							<div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+								<div className='space-y-2'>
+									<Label htmlFor='rulesMinPlayers'>
+										Minimum Players for Registration
+									</Label>
+									<Input
+										id='rulesMinPlayers'
+										type='number'
+										min={1}
+										placeholder={String(
+											DEFAULT_SEASON_RULES.minPlayersForRegistration
+										)}
+										value={formRules.minPlayersForRegistration}
+										onChange={(e) =>
+											updateRulesField(
+												'minPlayersForRegistration',
+												e.target.value
+											)
+										}
+									/>
+									<p className='text-xs text-muted-foreground'>
+										Paid and signed players a team needs to register
+									</p>
+								</div>
+								<div className='space-y-2'>
+									<Label htmlFor='rulesLockThreshold'>
+										Registered Teams for Lock
+									</Label>
+									<Input
+										id='rulesLockThreshold'
+										type='number'
+										min={2}
+										placeholder={String(
+											DEFAULT_SEASON_RULES.registeredTeamsForLock
+										)}
+										value={formRules.registeredTeamsForLock}
+										onChange={(e) =>
+											updateRulesField('registeredTeamsForLock', e.target.value)
+										}
+									/>
+									<p className='text-xs text-muted-foreground'>
+										Teams that qualify after this many are waitlisted
+									</p>
+								</div>
+							</div>
+
+							<div className='space-y-2'>
+								<Label htmlFor='rulesTimeSlots'>Game Time Slots</Label>
+								<Input
+									id='rulesTimeSlots'
+									placeholder={DEFAULT_SEASON_RULES.allowedTimeSlots.join(', ')}
+									value={formRules.allowedTimeSlots}
+									onChange={(e) =>
+										updateRulesField('allowedTimeSlots', e.target.value)
+									}
+								/>
+								<p className='text-xs text-muted-foreground'>
+									Comma-separated start times (24-hour, Central time)
+								</p>
+							</div>
+
+							<div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+								<div className='space-y-2'>
+									<Label htmlFor='rulesFields'>Fields</Label>
+									<Input
+										id='rulesFields'
+										placeholder={DEFAULT_SEASON_RULES.allowedFields.join(', ')}
+										value={formRules.allowedFields}
+										onChange={(e) =>
+											updateRulesField('allowedFields', e.target.value)
+										}
+									/>
+									<p className='text-xs text-muted-foreground'>
+										Comma-separated field numbers
+									</p>
+								</div>
+								<div className='space-y-2'>
+									<Label htmlFor='rulesMonths'>Game Months</Label>
+									<Input
+										id='rulesMonths'
+										placeholder={DEFAULT_SEASON_RULES.allowedMonths.join(', ')}
+										value={formRules.allowedMonths}
+										onChange={(e) =>
+											updateRulesField('allowedMonths', e.target.value)
+										}
+									/>
+									<p className='text-xs text-muted-foreground'>
+										Comma-separated month numbers (1 = January)
+									</p>
+								</div>
+							</div>
+
+							<div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+								<div className='space-y-2'>
+									<Label htmlFor='rulesOfferExpiration'>
+										Offer Expiration (days)
+									</Label>
+									<Input
+										id='rulesOfferExpiration'
+										type='number'
+										min={1}
+										placeholder={String(
+											DEFAULT_SEASON_RULES.offerExpirationDays
+										)}
+										value={formRules.offerExpirationDays}
+										onChange={(e) =>
+											updateRulesField('offerExpirationDays', e.target.value)
+										}
+									/>
+									<p className='text-xs text-muted-foreground'>
+										Pending invitations and requests are canceled after this
+										long
+									</p>
+								</div>
+								<div className='space-y-2'>
+									<Label htmlFor='rulesOfferReminder'>
+										Offer Reminder (hours before)
+									</Label>
+									<Input
+										id='rulesOfferReminder'
+										type='number'
+										min={0}
+										placeholder={String(
+											DEFAULT_SEASON_RULES.offerReminderHours
+										)}
+										value={formRules.offerReminderHours}
+										onChange={(e) =>
+											updateRulesField('offerReminderHours', e.target.value)
+										}
+									/>
+									<p className='text-xs text-muted-foreground'>
+										When to remind the recipient before expiry (0 = never)
+									</p>
+								</div>
+							</div>
+
+							<div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+								<div className='space-y-2'>
+									<Label htmlFor='rulesMaxRosterSize'>Max Roster Size</Label>
+									<Input
+										id='rulesMaxRosterSize'
+										type='number'
+										min={1}
+										placeholder='No limit'
+										value={formRules.maxRosterSize}
+										onChange={(e) =>
+											updateRulesField('maxRosterSize', e.target.value)
+										}
+									/>
+									<p className='text-xs text-muted-foreground'>
+										Most players a team can carry
+									</p>
+								</div>
+								<div className='space-y-2'>
+									<Label htmlFor='rulesMinCaptains'>Minimum Captains</Label>
+									<Input
+										id='rulesMinCaptains'
+										type='number'
+										min={1}
+										placeholder={String(DEFAULT_SEASON_RULES.minCaptains)}
+										value={formRules.minCaptains}
+										onChange={(e) =>
+											updateRulesField('minCaptains', e.target.value)
+										}
+									/>
+									<p className='text-xs text-muted-foreground'>
+										Captains can't be demoted or leave below this
+									</p>
+								</div>
+								<div className='space-y-2'>
+									<Label htmlFor='rulesMaxCaptains'>Maximum Captains</Label>
+									<Input
+										id='rulesMaxCaptains'
+										type='number'
+										min={1}
+										placeholder='No limit'
+										value={formRules.maxCaptains}
+										onChange={(e) =>
+											updateRulesField('maxCaptains', e.target.value)
+										}
+									/>
+									<p className='text-xs text-muted-foreground'>
+										Most captains a team can have
+									</p>
+								</div>
+							</div>
+
+							<div className='space-y-2'>
+								<Label>Max Players per Gender</Label>
+								<div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+									{Object.values(PlayerGender).map((gender) => (
+										<Input
+											key={gender}
+											type='number'
+											min={1}
+											aria-label={`Max ${PLAYER_GENDER_LABELS[gender].toLowerCase()} players`}
+											placeholder={`${PLAYER_GENDER_LABELS[gender]}: no limit`}
+											value={formRules.maxPlayersPerGender[gender]}
+											onChange={(e) =>
+												updateGenderRule(
+													'maxPlayersPerGender',
+													gender,
+													e.target.value
+												)
+											}
+										/>
+									))}
+								</div>
+								<p className='text-xs text-muted-foreground'>
+									Optional limits to keep mixed rosters balanced. Players who
+									haven't set a gender on their profile aren't counted.
+								</p>
+							</div>
+
+							<div className='space-y-2'>
+								<Label>Min Players per Gender</Label>
+								<div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+									{Object.values(PlayerGender).map((gender) => (
+										<Input
+											key={gender}
+											type='number'
+											min={1}
+											aria-label={`Min ${PLAYER_GENDER_LABELS[gender].toLowerCase()} players`}
+											placeholder={`${PLAYER_GENDER_LABELS[gender]}: none required`}
+											value={formRules.minPlayersPerGender[gender]}
+											onChange={(e) =>
+												updateGenderRule(
+													'minPlayersPerGender',
+													gender,
+													e.target.value
+												)
+											}
+										/>
+									))}
+								</div>
+								<p className='text-xs text-muted-foreground'>
+									Paid and signed players of each gender a team needs to
+									register. On a capped roster, spots are held for them.
+								</p>
+							</div>
+
+							<div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+								<div className='space-y-2'>
+									<Label htmlFor='rulesForfeitWinnerScore'>
+										Forfeit Winner Score
+									</Label>
+									<Input
+										id='rulesForfeitWinnerScore'
+										type='number'
+										min={1}
+										placeholder={String(
+											DEFAULT_SEASON_RULES.forfeitWinnerScore
+										)}
+										value={formRules.forfeitWinnerScore}
+										onChange={(e) =>
+											updateRulesField('forfeitWinnerScore', e.target.value)
+										}
+									/>
+									<p className='text-xs text-muted-foreground'>
+										Recorded for the team that showed up
+									</p>
+								</div>
+								<div className='space-y-2'>
+									<Label htmlFor='rulesForfeitLoserScore'>
+										Forfeit Loser Score
+									</Label>
+									<Input
+										id='rulesForfeitLoserScore'
+										type='number'
+										min={0}
+										placeholder={String(DEFAULT_SEASON_RULES.forfeitLoserScore)}
+										value={formRules.forfeitLoserScore}
+										onChange={(e) =>
+											updateRulesField('forfeitLoserScore', e.target.value)
+										}
+									/>
+									<p className='text-xs text-muted-foreground'>
+										Recorded for the team that forfeited
+									</p>
+								</div>
+							</div>
+						</div>
+
 						{/* Stripe Configuration */}
 						<div className='space-y-4 border-t pt-4 mt-4'>
 							<h4 className='font-medium text-sm'>
@@ -0,0 +1,191 @@
+import { useMemo } from 'react'
+import { useCollection } from 'react-firebase-hooks/firestore'
+import { format } from 'date-fns'
+import { AlertTriangle, HeartHandshake, RefreshCw } from 'lucide-react'
+
+import { QueryDocumentSnapshot, QuerySnapshot } from '@/firebase'
+import { seasonSpiritRatingsQuery } from '@/firebase/collections/games'
+import { canonicalTeamIdFromTeamSeasonDoc } from '@/firebase/collections/teams'
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { useQueryErrorHandler } from '@/shared/hooks'
+import {
+	getSpiritRatingAverage,
+	SPIRIT_CATEGORY_LABELS,
+	SPIRIT_LOW_RATING_THRESHOLD,
+	summarizeSpiritRatings,
+} from '@/shared/utils'
+import { SeasonDocument, SpiritCategory, TeamSeasonDocument } from '@/types'
+
+/** Low ratings from this many games mark a team as a repeat problem */
+const REPEAT_LOW_RATING_COUNT = 2
+
+/**
+ * Spirit report
+ *
+ * Admin view of every spirit rating in a season, including ratings still
+ * hidden from the teams. Teams are listed worst spirit first, and teams with
+ * low ratings from several games are flagged so repeat problems stand out.
+ */
+export const SpiritReport = ({
+	seasonSnapshot,
+	teamsSnapshot,
+}: {
+	seasonSnapshot: QueryDocumentSnapshot<SeasonDocument> | undefined
+	teamsSnapshot: QuerySnapshot<TeamSeasonDocument> | undefined
+}) => {
+	const [ratingsSnapshot, ratingsLoading, ratingsError] = useCollection(
+		seasonSpiritRatingsQuery(seasonSnapshot, { revealedOnly: false })
+	)
+
+	useQueryErrorHandler({
+		error: ratingsError,
+		component: 'SpiritReport',
+		errorLabel: 'spirit ratings',
+	})
+
+	// Worst spirit first
+	const summaries = useMemo(
+		() =>
+			summarizeSpiritRatings(
+				ratingsSnapshot?.docs.map((ratingDoc) => ratingDoc.data()) ?? []
+			).reverse(),
+		[ratingsSnapshot]
+	)
+
+	const teamNames = useMemo(() => {
+		const map = new Map<string, string>()
+		teamsSnapshot?.docs.forEach((teamSeasonDoc) => {
+			map.set(
+				canonicalTeamIdFromTeamSeasonDoc(teamSeasonDoc),
+				teamSeasonDoc.data().name
+			)
+		})
+		return map
+	}, [teamsSnapshot])
+	const teamName = (teamId: string) => teamNames.get(teamId) ?? 'Unknown team'
+
+	const categories = Object.values(SpiritCategory)
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className='flex items-center gap-2'>
+					<HeartHandshake className='h-5 w-5' />
+					Spirit Ratings
+				</CardTitle>
+				<CardDescription>
+					Ratings teams gave their opponents this season, including ratings not
+					yet visible to the teams. Ratings averaging{' '}
+					{SPIRIT_LOW_RATING_THRESHOLD} or lower count as low.
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				{ratingsLoading ? (
+					<div className='text-center pb-12'>
+						<RefreshCw className='h-12 w-12 text-muted-foreground mx-auto mb-2 animate-spin' />
+						<p className='text-lg font-medium text-muted-foreground'>
+							Loading Spirit Ratings...
+						</p>
+					</div>
+				) : summaries.length === 0 ? (
+					<p className='text-center text-muted-foreground pb-6'>
+						No spirit ratings have been submitted this season.
+					</p>
+				) : (
+					<div className='overflow-x-auto'>
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Team</TableHead>
+									<TableHead className='text-center'>Average</TableHead>
+									{categories.map((category) => (
+										<TableHead key={category} className='text-center'>
+											{SPIRIT_CATEGORY_LABELS[category]}
+										</TableHead>
+									))}
+									<TableHead className='text-center'>Ratings</TableHead>
+									<TableHead className='text-center'>Low</TableHead>
+									<TableHead>Comments</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{summaries.map((summary) => {
+									const isRepeat =
+										summary.lowRatings.length >= REPEAT_LOW_RATING_COUNT
+									return (
+										<TableRow key={summary.teamId}>
+											<TableCell className='font-medium'>
+												<div className='flex items-center gap-2'>
+													{teamName(summary.teamId)}
+													{isRepeat && (
+														<Badge variant='destructive' className='gap-1'>
+															<AlertTriangle className='h-3 w-3' />
+															Repeat
+														</Badge>
+													)}
+												</div>
+											</TableCell>
+											<TableCell className='text-center font-semibold tabular-nums'>
+												{summary.average.toFixed(2)}
+											</TableCell>
+											{categories.map((category) => (
+												<TableCell
+													key={category}
+													className='text-center tabular-nums'
+												>
+													{summary.categoryAverages[category].toFixed(1)}
+												</TableCell>
+											))}
+											<TableCell className='text-center tabular-nums'>
+												{summary.count}
+											</TableCell>
+											<TableCell className='text-center tabular-nums'>
+												{summary.lowRatings.length}
+											</TableCell>
+											<TableCell className='min-w-64'>
+												{summary.commented.length === 0 ? (
+													<span className='text-muted-foreground'>—</span>
+												) : (
+													<ul className='space-y-1 text-sm'>
+														{summary.commented.map((rating) => (
+															<li key={rating.game.id}>
+																<span className='font-medium'>
+																	{getSpiritRatingAverage(rating).toFixed(1)}
+																</span>{' '}
+																<span className='text-muted-foreground'>
+																	from {teamName(rating.team.id)},{' '}
+																	{format(rating.submittedAt.toDate(), 'MMM d')}
+																	{!rating.revealed && ' (hidden)'}:
+																</span>{' '}
+																{rating.comment}
+															</li>
+														))}
+													</ul>
+												)}
+											</TableCell>
+										</TableRow>
+									)
+								})}
+							</TableBody>
+						</Table>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
@@ -132,14 +132,17 @@ export const TeamBadgesDialog = ({
 						const badgeDoc = await getDoc(teamBadgeData.badge)
 						const badgeData = badgeDoc.data() as BadgeDocument | undefined
 
-						// Fetch awarded by player data
-						const awardedByDoc = await getDoc(teamBadgeData.awardedBy)
-						const awardedByData = awardedByDoc.data() as
-							| PlayerDocument
-							| undefined
-						const awardedByName = awardedByData
-							? `${awardedByData.firstname} ${awardedByData.lastname}`
-							: 'Unknown'
+						// Fetch awarded by player data (no player for rule-awarded badges)
+						let awardedByName = 'badge rule'
+						if (teamBadgeData.awardedBy) {
+							const awardedByDoc = await getDoc(teamBadgeData.awardedBy)
+							const awardedByData = awardedByDoc.data() as
+								| PlayerDocument
+								| undefined
+							awardedByName = awardedByData
+								? `${awardedByData.firstname} ${awardedByData.lastname}`
+								: 'Unknown'
+						}
 
 						if (!badgeData) {
 							throw new Error('Badge not found')
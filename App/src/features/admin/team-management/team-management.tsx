@@ -19,6 +19,8 @@ import {
 	Award,
 	Pencil,
 	Combine,
+	History,
+	Loader2,
 } from 'lucide-react'
 import { Link, useNavigate } from 'react-router-dom'
 
@@ -33,6 +35,7 @@ import {
 import {
 	deleteUnregisteredTeamViaFunction,
 	deleteTeamViaFunction,
+	rebuildTeamHistoryViaFunction,
 } from '@/firebase/collections/functions'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -70,6 +73,7 @@ import { useQueryErrorHandler } from '@/shared/hooks'
 import { TeamBadgesDialog } from './components/team-badges-dialog'
 import { TeamEditDialog } from './components/team-edit-dialog'
 import { MergeTeamsDialog } from './components/merge-teams-dialog'
+import { SpiritReport } from './components/spirit-report'
 import { DocumentReference } from '@/firebase'
 
 export const TeamManagement = () => {
@@ -276,6 +280,24 @@ export const TeamManagement = () => {
 		}
 	}
 
+	const [isRebuildingHistory, setIsRebuildingHistory] = useState(false)
+
+	const handleRebuildHistory = async () => {
+		setIsRebuildingHistory(true)
+		try {
+			const result = await rebuildTeamHistoryViaFunction()
+			toast.success('Team history rebuilt', { description: result.message })
+		} catch (error) {
+			logger.error('Error rebuilding team history:', error)
+			toast.error('Failed to rebuild team history', {
+				description:
+					error instanceof Error ? error.message : 'Please try again.',
+			})
+		} finally {
+			setIsRebuildingHistory(false)
+		}
+	}
+
 	// Handle authentication and data loading
 	// Only show full loading screen on initial page load (when player data is loading)
 	// For season changes, keep the page structure and show loading state in tables
@@ -352,7 +374,20 @@ export const TeamManagement = () => {
 					</Link>
 				</Button>
 
-				<div>
+				<div className='flex items-center gap-2'>
+					<Button
+						variant='outline'
+						onClick={handleRebuildHistory}
+						disabled={isRebuildingHistory}
+						title='Recompute all-time and head-to-head records for every team'
+					>
+						{isRebuildingHistory ? (
+							<Loader2 className='h-4 w-4 mr-2 animate-spin' />
+						) : (
+							<History className='h-4 w-4 mr-2' />
+						)}
+						Rebuild History
+					</Button>
 					<Select
 						value={selectedSeasonId}
 						onValueChange={setSelectedSeasonId}
@@ -615,6 +650,12 @@ export const TeamManagement = () => {
 				</CardContent>
 			</Card>
 
+			{/* Spirit Ratings */}
+			<SpiritReport
+				seasonSnapshot={selectedSeasonSnapshot ?? undefined}
+				teamsSnapshot={teamsSnapshot}
+			/>
+
 			{/* Delete Confirmation Dialog */}
 			<AlertDialog
 				open={!!teamToDelete}
@@ -0,0 +1,117 @@
+import { useCallback, useState } from 'react'
+import { toast } from 'sonner'
+import { Mail } from 'lucide-react'
+import { updatePlayerViaFunction, DocumentSnapshot } from '@/firebase'
+import { extractErrorMessage, logger, PlayerDocument } from '@/shared/utils'
+import { EmailCategory } from '@/types'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card'
+
+const EMAIL_CATEGORY_OPTIONS: {
+	category: EmailCategory
+	label: string
+	description: string
+}[] = [
+	{
+		category: EmailCategory.OFFERS,
+		label: 'Invitations and requests',
+		description: 'When you receive an offer or one you sent is accepted',
+	},
+	{
+		category: EmailCategory.TEAM_REGISTRATION,
+		label: 'Team registration',
+		description: 'When your team is registered or placed on the waitlist',
+	},
+	{
+		category: EmailCategory.SCHEDULE,
+		label: 'Schedule changes',
+		description: "When one of your team's games is rescheduled",
+	},
+	{
+		category: EmailCategory.PAYMENTS,
+		label: 'Payment receipts',
+		description: 'A receipt when you pay for a season',
+	},
+]
+
+interface EmailPreferencesSectionProps {
+	authenticatedUserSnapshot: DocumentSnapshot<PlayerDocument> | undefined
+}
+
+/**
+ * EmailPreferencesSection Component
+ *
+ * Lets a player turn each category of league email on or off. Each switch
+ * saves as soon as it is toggled.
+ */
+export const EmailPreferencesSection = ({
+	authenticatedUserSnapshot,
+}: EmailPreferencesSectionProps) => {
+	const [savingCategory, setSavingCategory] = useState<EmailCategory | null>(
+		null
+	)
+	const emailPreferences = authenticatedUserSnapshot?.data()?.emailPreferences
+
+	const handleToggle = useCallback(
+		async (category: EmailCategory, enabled: boolean) => {
+			setSavingCategory(category)
+			try {
+				await updatePlayerViaFunction({
+					emailPreferences: { [category]: enabled },
+				})
+				toast.success('Success', {
+					description: 'Email preferences updated!',
+				})
+			} catch (error) {
+				logger.error('Failed to update email preferences:', error)
+				toast.error('Failure', {
+					description: extractErrorMessage(error),
+				})
+			} finally {
+				setSavingCategory(null)
+			}
+		},
+		[]
+	)
+
+	return (
+		<Card className='h-fit'>
+			<CardHeader>
+				<CardTitle className='flex items-center gap-2'>
+					<Mail className='h-5 w-5' />
+					Email Preferences
+				</CardTitle>
+				<CardDescription>
+					Choose which league emails you'd like to receive. You'll still see
+					everything in your notifications.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				{EMAIL_CATEGORY_OPTIONS.map(({ category, label, description }) => (
+					<div
+						key={category}
+						className='flex items-center justify-between gap-4'
+					>
+						<div className='space-y-0.5'>
+							<Label htmlFor={`email-${category}`}>{label}</Label>
+							<p className='text-sm text-muted-foreground'>{description}</p>
+						</div>
+						<Switch
+							id={`email-${category}`}
+							checked={emailPreferences?.[category] !== false}
+							disabled={savingCategory !== null}
+							onCheckedChange={(checked) => handleToggle(category, checked)}
+						/>
+					</div>
+				))}
+			</CardContent>
+		</Card>
+	)
+}
@@ -0,0 +1,193 @@
+import { useCallback, useState } from 'react'
+import { toast } from 'sonner'
+import { Megaphone } from 'lucide-react'
+import { updateFreeAgentProfileViaFunction } from '@/firebase/collections/functions'
+import {
+	EXPERIENCE_LEVEL_LABELS,
+	extractErrorMessage,
+	FREE_AGENT_AVAILABILITY_LABELS,
+	FREE_AGENT_BLURB_MAX_LENGTH,
+	logger,
+	PlayerSeasonDocument,
+} from '@/shared/utils'
+import { ExperienceLevel, FreeAgentAvailability } from '@/types'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card'
+
+interface FreeAgentProfileSectionProps {
+	currentSeasonId: string | undefined
+	currentSeasonData: PlayerSeasonDocument | undefined
+}
+
+interface FreeAgentProfileForm {
+	active: boolean
+	availability: FreeAgentAvailability
+	experience: ExperienceLevel
+	blurb: string
+}
+
+/**
+ * FreeAgentProfileSection Component
+ *
+ * Lets a player without a team this season list themselves on the
+ * looking-for-team board captains browse when inviting players. The
+ * listing is switched off automatically once the player joins a team.
+ */
+export const FreeAgentProfileSection = ({
+	currentSeasonId,
+	currentSeasonData,
+}: FreeAgentProfileSectionProps) => {
+	const savedProfile = currentSeasonData?.freeAgentProfile
+
+	/** Unsaved edits; null while showing the saved listing */
+	const [editedForm, setEditedForm] = useState<FreeAgentProfileForm | null>(
+		null
+	)
+	const [isSaving, setIsSaving] = useState(false)
+
+	const form: FreeAgentProfileForm = editedForm ?? {
+		active: savedProfile?.active ?? false,
+		availability:
+			savedProfile?.availability ?? FreeAgentAvailability.EVERY_WEEK,
+		experience: savedProfile?.experience ?? ExperienceLevel.RECREATIONAL,
+		blurb: savedProfile?.blurb ?? '',
+	}
+
+	const updateForm = (changes: Partial<FreeAgentProfileForm>): void =>
+		setEditedForm({ ...form, ...changes })
+
+	const handleSave = useCallback(async () => {
+		if (!currentSeasonId || !editedForm) return
+		setIsSaving(true)
+		try {
+			const result = await updateFreeAgentProfileViaFunction({
+				seasonId: currentSeasonId,
+				...editedForm,
+				blurb: editedForm.blurb.trim(),
+			})
+			toast.success('Success', { description: result.message })
+			setEditedForm(null)
+		} catch (error) {
+			logger.error('Failed to update free agent profile:', error)
+			toast.error('Failure', {
+				description: extractErrorMessage(error),
+			})
+		} finally {
+			setIsSaving(false)
+		}
+	}, [currentSeasonId, editedForm])
+
+	return (
+		<Card className='h-fit'>
+			<CardHeader>
+				<CardTitle className='flex items-center gap-2'>
+					<Megaphone className='h-5 w-5' />
+					Free Agent Listing
+				</CardTitle>
+				<CardDescription>
+					Let captains know you're looking for a team. Your teammate requests
+					are shown alongside your listing.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				<div className='flex items-center justify-between gap-4'>
+					<div className='space-y-0.5'>
+						<Label htmlFor='free-agent-active'>Looking for a team</Label>
+						<p className='text-sm text-muted-foreground'>
+							Show your listing to captains this season
+						</p>
+					</div>
+					<Switch
+						id='free-agent-active'
+						checked={form.active}
+						disabled={isSaving}
+						onCheckedChange={(checked) => updateForm({ active: checked })}
+					/>
+				</div>
+
+				<div className='grid gap-4 sm:grid-cols-2'>
+					<div className='space-y-2'>
+						<Label htmlFor='free-agent-availability'>Availability</Label>
+						<Select
+							value={form.availability}
+							disabled={isSaving}
+							onValueChange={(value) =>
+								updateForm({ availability: value as FreeAgentAvailability })
+							}
+						>
+							<SelectTrigger id='free-agent-availability' className='w-full'>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.values(FreeAgentAvailability).map((availability) => (
+									<SelectItem key={availability} value={availability}>
+										{FREE_AGENT_AVAILABILITY_LABELS[availability]}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className='space-y-2'>
+						<Label htmlFor='free-agent-experience'>Experience</Label>
+						<Select
+							value={form.experience}
+							disabled={isSaving}
+							onValueChange={(value) =>
+								updateForm({ experience: value as ExperienceLevel })
+							}
+						>
+							<SelectTrigger id='free-agent-experience' className='w-full'>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.values(ExperienceLevel).map((experience) => (
+									<SelectItem key={experience} value={experience}>
+										{EXPERIENCE_LEVEL_LABELS[experience]}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				</div>
+
+				<div className='space-y-2'>
+					<Label htmlFor='free-agent-blurb'>About you</Label>
+					<Textarea
+						id='free-agent-blurb'
+						placeholder='Positions you like to play, what you are looking for...'
+						value={form.blurb}
+						maxLength={FREE_AGENT_BLURB_MAX_LENGTH}
+						disabled={isSaving}
+						onChange={(e) => updateForm({ blurb: e.target.value })}
+					/>
+					<p className='text-xs text-muted-foreground text-right'>
+						{form.blurb.length}/{FREE_AGENT_BLURB_MAX_LENGTH}
+					</p>
+				</div>
+
+				<Button
+					onClick={handleSave}
+					disabled={editedForm === null || isSaving || !currentSeasonId}
+				>
+					{isSaving ? 'Saving Listing...' : 'Save Listing'}
+				</Button>
+			</CardContent>
+		</Card>
+	)
+}
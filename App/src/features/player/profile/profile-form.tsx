@@ -16,18 +16,29 @@ import {
 	FormDescription,
 	FormMessage,
 } from '@/components/ui/form'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
 import { useForm } from 'react-hook-form'
 import { standardSchemaResolver } from '@hookform/resolvers/standard-schema'
 import { useEffect, useCallback, useState } from 'react'
 import { toast } from 'sonner'
 import { updatePlayerViaFunction, DocumentSnapshot } from '@/firebase'
-import { PlayerDocument } from '@/shared/utils'
+import { PLAYER_GENDER_LABELS, PlayerDocument } from '@/shared/utils'
+import { PlayerGender } from '@/types'
 import {
 	profileFormSchema,
 	type ProfileFormData,
 } from '@/shared/utils/validation'
 import { UserCog } from 'lucide-react'
 
+/** Select value for a player who hasn't set a gender */
+const GENDER_NOT_SET = 'notSet'
+
 interface ProfileFormProps {
 	authenticatedUserSnapshot: DocumentSnapshot<PlayerDocument> | undefined
 }
@@ -35,7 +46,7 @@ interface ProfileFormProps {
 /**
  * ProfileForm Component
  *
- * Handles user profile editing (first name, last name, email)
+ * Handles user profile editing (first name, last name, email, gender)
  * Separated from main Profile component for better maintainability
  * Uses Firebase Function for secure server-side updates
  */
@@ -46,7 +57,7 @@ export const ProfileForm = ({
 
 	const form = useForm<ProfileFormData>({
 		resolver: standardSchemaResolver(profileFormSchema),
-		defaultValues: { firstname: '', lastname: '', email: '' },
+		defaultValues: { firstname: '', lastname: '', email: '', gender: '' },
 	})
 
 	useEffect(() => {
@@ -56,6 +67,7 @@ export const ProfileForm = ({
 				form.setValue('firstname', data.firstname)
 				form.setValue('lastname', data.lastname)
 				form.setValue('email', data.email)
+				form.setValue('gender', data.gender ?? '')
 			}
 		}
 	}, [authenticatedUserSnapshot, form])
@@ -66,6 +78,7 @@ export const ProfileForm = ({
 			await updatePlayerViaFunction({
 				firstname: data.firstname,
 				lastname: data.lastname,
+				gender: (data.gender as PlayerGender) || null,
 			})
 			toast.success('Success', {
 				description: 'User updated!',
@@ -145,6 +158,42 @@ export const ProfileForm = ({
 								</FormItem>
 							)}
 						/>
+						<FormField
+							control={form.control}
+							name='gender'
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Gender</FormLabel>
+									<Select
+										value={field.value || GENDER_NOT_SET}
+										onValueChange={(value) =>
+											field.onChange(value === GENDER_NOT_SET ? '' : value)
+										}
+									>
+										<FormControl>
+											<SelectTrigger className='w-full'>
+												<SelectValue />
+											</SelectTrigger>
+										</FormControl>
+										<SelectContent>
+											<SelectItem value={GENDER_NOT_SET}>
+												Prefer not to say
+											</SelectItem>
+											{Object.values(PlayerGender).map((gender) => (
+												<SelectItem key={gender} value={gender}>
+													{PLAYER_GENDER_LABELS[gender]}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+									<FormDescription>
+										Only used when a season limits how many players of each
+										gender a roster can carry.
+									</FormDescription>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
 						<Button
 							disabled={!form.formState.isDirty || isSubmitting}
 							type='submit'
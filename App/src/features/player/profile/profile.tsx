@@ -1,6 +1,9 @@
 import { useMemo } from 'react'
 import { ProfileForm } from './profile-form'
 import { ProfileActions } from './profile-actions'
+import { TeammateRequestsSection } from './teammate-requests-section'
+import { EmailPreferencesSection } from './email-preferences-section'
+import { FreeAgentProfileSection } from './free-agent-profile-section'
 import { User } from 'lucide-react'
 import { useUserStatus } from '@/shared/hooks'
 import { useSeasonsContext } from '@/providers'
@@ -18,6 +21,8 @@ export const Profile = () => {
 		isUserSnapshotLoading: authenticatedUserSnapshotLoading,
 		isEmailVerified: isVerified,
 		isBanned: isAuthenticatedUserBanned,
+		isRostered,
+		currentSeasonData,
 	} = useUserStatus()
 	const { currentSeasonQueryDocumentSnapshot, seasonsQuerySnapshot } =
 		useSeasonsContext()
@@ -47,8 +52,24 @@ export const Profile = () => {
 			/>
 
 			<div className='flex flex-col lg:flex-row items-stretch gap-6 w-full'>
-				<div className='w-full lg:flex-1'>
+				<div className='w-full lg:flex-1 space-y-6'>
 					<ProfileForm authenticatedUserSnapshot={authenticatedUserSnapshot} />
+					<EmailPreferencesSection
+						authenticatedUserSnapshot={authenticatedUserSnapshot}
+					/>
+					{currentSeasonData && !isRostered && !isAuthenticatedUserBanned && (
+						<>
+							<FreeAgentProfileSection
+								currentSeasonId={currentSeasonQueryDocumentSnapshot?.id}
+								currentSeasonData={currentSeasonData}
+							/>
+							<TeammateRequestsSection
+								authenticatedUserId={authStateUser?.uid}
+								currentSeasonId={currentSeasonQueryDocumentSnapshot?.id}
+								currentSeasonData={currentSeasonData}
+							/>
+						</>
+					)}
 				</div>
 
 				<div className='w-full lg:flex-1'>
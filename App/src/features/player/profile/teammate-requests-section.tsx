@@ -0,0 +1,211 @@
+import { useCallback, useMemo, useState } from 'react'
+import { useDocument } from 'react-firebase-hooks/firestore'
+import { toast } from 'sonner'
+import { Plus, UserRoundPlus, X } from 'lucide-react'
+import { DocumentReference, getPlayersQuery } from '@/firebase'
+import { updateTeammateRequestsViaFunction } from '@/firebase/collections/functions'
+import { usePlayersSearch, useDebounce } from '@/shared/hooks'
+import {
+	extractErrorMessage,
+	logger,
+	PlayerDocument,
+	PlayerSeasonDocument,
+} from '@/shared/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card'
+
+/** Mirrors FREE_AGENT_DRAFT_CONFIG.MAX_TEAMMATE_REQUESTS in Functions */
+const MAX_TEAMMATE_REQUESTS = 3
+
+/** Search results shown at once */
+const MAX_SEARCH_RESULTS = 5
+
+interface TeammateRequestsSectionProps {
+	authenticatedUserId: string | undefined
+	currentSeasonId: string | undefined
+	currentSeasonData: PlayerSeasonDocument | undefined
+}
+
+const RequestedTeammate = ({
+	playerRef,
+	onRemove,
+	disabled,
+}: {
+	playerRef: DocumentReference<PlayerDocument>
+	onRemove: () => void
+	disabled: boolean
+}) => {
+	const [playerSnapshot] = useDocument(playerRef)
+	const player = playerSnapshot?.data()
+
+	return (
+		<div className='flex items-center justify-between rounded-md border px-3 py-2'>
+			<span className='text-sm font-medium'>
+				{player ? `${player.firstname} ${player.lastname}` : 'Loading...'}
+			</span>
+			<Button
+				variant='ghost'
+				size='sm'
+				onClick={onRemove}
+				disabled={disabled}
+				aria-label='Remove teammate request'
+			>
+				<X className='h-4 w-4' />
+			</Button>
+		</div>
+	)
+}
+
+/**
+ * TeammateRequestsSection Component
+ *
+ * Lets a player without a team this season name up to three players they
+ * would like to be placed with. Admins read these requests when placing
+ * free agents on teams with the free-agent draft.
+ */
+export const TeammateRequestsSection = ({
+	authenticatedUserId,
+	currentSeasonId,
+	currentSeasonData,
+}: TeammateRequestsSectionProps) => {
+	const [search, setSearch] = useState('')
+	const debouncedSearch = useDebounce(search)
+	const playersQuery = useMemo(
+		() => getPlayersQuery(debouncedSearch),
+		[debouncedSearch]
+	)
+	const { playersQuerySnapshot } = usePlayersSearch(playersQuery)
+
+	/** Unsaved edits; null while showing the saved requests */
+	const [editedRefs, setEditedRefs] = useState<
+		DocumentReference<PlayerDocument>[] | null
+	>(null)
+	const [isSaving, setIsSaving] = useState(false)
+
+	const requestedRefs = useMemo(
+		() => editedRefs ?? currentSeasonData?.requestedTeammates ?? [],
+		[editedRefs, currentSeasonData]
+	)
+	const requestedIds = useMemo(
+		() => new Set(requestedRefs.map((ref) => ref.id)),
+		[requestedRefs]
+	)
+
+	const searchResults = useMemo(
+		() =>
+			search.length === 0
+				? []
+				: (playersQuerySnapshot?.docs ?? [])
+						.filter(
+							(doc) =>
+								doc.id !== authenticatedUserId && !requestedIds.has(doc.id)
+						)
+						.slice(0, MAX_SEARCH_RESULTS),
+		[search, playersQuerySnapshot, authenticatedUserId, requestedIds]
+	)
+
+	const handleSave = useCallback(async () => {
+		if (!currentSeasonId) return
+		setIsSaving(true)
+		try {
+			const result = await updateTeammateRequestsViaFunction({
+				seasonId: currentSeasonId,
+				teammateIds: requestedRefs.map((ref) => ref.id),
+			})
+			toast.success('Success', { description: result.message })
+			setEditedRefs(null)
+		} catch (error) {
+			logger.error('Failed to update teammate requests:', error)
+			toast.error('Failure', {
+				description: extractErrorMessage(error),
+			})
+		} finally {
+			setIsSaving(false)
+		}
+	}, [currentSeasonId, requestedRefs])
+
+	const isFull = requestedRefs.length >= MAX_TEAMMATE_REQUESTS
+
+	return (
+		<Card className='h-fit'>
+			<CardHeader>
+				<CardTitle className='flex items-center gap-2'>
+					<UserRoundPlus className='h-5 w-5' />
+					Teammate Requests
+				</CardTitle>
+				<CardDescription>
+					Not on a team yet? Name up to {MAX_TEAMMATE_REQUESTS} players you'd
+					like to be placed with. We'll keep you together where we can.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				{requestedRefs.length === 0 ? (
+					<p className='text-sm text-muted-foreground'>
+						You haven't requested any teammates.
+					</p>
+				) : (
+					<div className='space-y-2'>
+						{requestedRefs.map((ref) => (
+							<RequestedTeammate
+								key={ref.id}
+								playerRef={ref}
+								disabled={isSaving}
+								onRemove={() =>
+									setEditedRefs(
+										requestedRefs.filter((other) => other.id !== ref.id)
+									)
+								}
+							/>
+						))}
+					</div>
+				)}
+
+				{!isFull && (
+					<div className='space-y-2'>
+						<Input
+							placeholder='Search players by name...'
+							value={search}
+							onChange={(e) => setSearch(e.target.value)}
+						/>
+						{searchResults.map((doc) => (
+							<div
+								key={doc.id}
+								className='flex items-center justify-between rounded-md px-3 py-1'
+							>
+								<span className='text-sm'>
+									{doc.data().firstname} {doc.data().lastname}
+								</span>
+								<Button
+									variant='outline'
+									size='sm'
+									disabled={isSaving}
+									onClick={() => {
+										setEditedRefs([...requestedRefs, doc.ref])
+										setSearch('')
+									}}
+								>
+									<Plus className='h-4 w-4 mr-1' />
+									Add
+								</Button>
+							</div>
+						))}
+					</div>
+				)}
+
+				<Button
+					onClick={handleSave}
+					disabled={editedRefs === null || isSaving || !currentSeasonId}
+				>
+					{isSaving ? 'Saving Requests...' : 'Save Requests'}
+				</Button>
+			</CardContent>
+		</Card>
+	)
+}
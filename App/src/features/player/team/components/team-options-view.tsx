@@ -5,7 +5,8 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { JoinTeam } from '@/features/public/join'
 import { CreateTeam } from '@/features/public/create/create-team'
-import { useTeamsContext } from '@/providers'
+import { useSeasonsContext, useTeamsContext } from '@/providers'
+import { getSeasonRules } from '@/shared/utils'
 
 interface TeamOptionsViewProps {
 	isLoading: boolean
@@ -18,6 +19,10 @@ interface TeamOptionsViewProps {
 export const TeamOptionsView = ({ isLoading }: TeamOptionsViewProps) => {
 	const [activeTab, setActiveTab] = useState('join')
 	const { currentSeasonTeamsQuerySnapshot } = useTeamsContext()
+	const { currentSeasonQueryDocumentSnapshot } = useSeasonsContext()
+	const { registeredTeamsForLock } = getSeasonRules(
+		currentSeasonQueryDocumentSnapshot?.data()
+	)
 
 	const isTeamRegistrationFull = useMemo(() => {
 		if (!currentSeasonTeamsQuerySnapshot) return false
@@ -27,8 +32,8 @@ export const TeamOptionsView = ({ isLoading }: TeamOptionsViewProps) => {
 			(teamDoc) => teamDoc.data().registered === true
 		).length
 
-		return registeredTeamsCount >= 12
-	}, [currentSeasonTeamsQuerySnapshot])
+		return registeredTeamsCount >= registeredTeamsForLock
+	}, [currentSeasonTeamsQuerySnapshot, registeredTeamsForLock])
 
 	return (
 		<PageContainer withSpacing withGap>
@@ -67,8 +72,10 @@ export const TeamOptionsView = ({ isLoading }: TeamOptionsViewProps) => {
 								<AlertCircle className='h-4 w-4' />
 								<AlertTitle>Team Registration Full</AlertTitle>
 								<AlertDescription>
-									The league has reached the maximum of 12 fully registered
-									teams for this season. Team creation is currently disabled.
+									The league has reached the maximum of {registeredTeamsForLock}{' '}
+									fully registered teams for this season. New teams that meet
+									the registration requirements will join the waitlist and are
+									registered in order as spots open up.
 								</AlertDescription>
 							</Alert>
 						</div>
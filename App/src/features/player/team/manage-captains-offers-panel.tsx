@@ -147,6 +147,7 @@ export const ManageCaptainsOffersPanel = () => {
 								key={`incomingRequest-row-${incomingRequest.ref.id}`}
 								type={OfferDirection.INCOMING_REQUEST}
 								data={incomingRequest}
+								expiresAt={incomingRequest.expiresAt}
 								statusColor={'bg-primary'}
 								message={'would like to join'}
 								actionOptions={[
@@ -195,6 +196,7 @@ export const ManageCaptainsOffersPanel = () => {
 								key={`outgoingInvite-row-${outgoingInvite.ref.id}`}
 								type={OfferDirection.OUTGOING_INVITE}
 								data={outgoingInvite}
+								expiresAt={outgoingInvite.expiresAt}
 								statusColor={'bg-primary'}
 								message={'invited to join'}
 								actionOptions={[
@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react'
+import { useCollection } from 'react-firebase-hooks/firestore'
+import { DocumentReference } from '@/firebase'
+import {
+	canonicalPlayerIdFromPlayerSeasonDoc,
+	freeAgentsQuery,
+} from '@/firebase/collections/players'
+import { currentPlayerRankingsQuery } from '@/firebase/collections/player-rankings'
+import {
+	EXPERIENCE_LEVEL_LABELS,
+	FREE_AGENT_AVAILABILITY_LABELS,
+	TeamDocument,
+} from '@/shared/utils'
+import { ExperienceLevel, FreeAgentAvailability } from '@/types'
+import { useSeasonsContext } from '@/providers'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { ManageFreeAgentDetail } from './manage-free-agent-detail'
+
+const ALL = 'all'
+
+type FreeAgentSort = 'rating' | 'newest'
+
+/**
+ * Looking-for-team board
+ *
+ * Lists the season's players with an active free-agent listing who are not
+ * yet on a team, filterable by availability and experience and sortable by
+ * ranking rating. Shown in the invite flow until the captain starts
+ * searching by name.
+ */
+export const ManageFreeAgentBoard = ({
+	teamRef,
+	handleInvite,
+}: {
+	teamRef: DocumentReference<TeamDocument> | undefined
+	handleInvite: (playerId: string, playerName: string) => void
+}) => {
+	const { currentSeasonQueryDocumentSnapshot } = useSeasonsContext()
+	const [freeAgentsSnapshot, freeAgentsLoading] = useCollection(
+		freeAgentsQuery(currentSeasonQueryDocumentSnapshot?.ref)
+	)
+	const [rankingsSnapshot] = useCollection(currentPlayerRankingsQuery())
+
+	const [availability, setAvailability] = useState<
+		FreeAgentAvailability | typeof ALL
+	>(ALL)
+	const [experience, setExperience] = useState<ExperienceLevel | typeof ALL>(
+		ALL
+	)
+	const [sort, setSort] = useState<FreeAgentSort>('rating')
+
+	const ratingsByPlayerId = useMemo(
+		() =>
+			new Map(
+				rankingsSnapshot?.docs.map((doc) => [
+					doc.data().playerId,
+					doc.data().rating,
+				]) ?? []
+			),
+		[rankingsSnapshot]
+	)
+
+	const listings = useMemo(() => {
+		return (freeAgentsSnapshot?.docs ?? [])
+			.filter((doc) => {
+				const { team, freeAgentProfile } = doc.data()
+				return (
+					!team &&
+					freeAgentProfile &&
+					(availability === ALL ||
+						freeAgentProfile.availability === availability) &&
+					(experience === ALL || freeAgentProfile.experience === experience)
+				)
+			})
+			.sort((a, b) => {
+				if (sort === 'newest') {
+					return (
+						(b.data().freeAgentProfile?.updatedAt?.toMillis() ?? 0) -
+						(a.data().freeAgentProfile?.updatedAt?.toMillis() ?? 0)
+					)
+				}
+				// Unranked players sort after everyone with a rating
+				return (
+					(ratingsByPlayerId.get(canonicalPlayerIdFromPlayerSeasonDoc(b)) ??
+						-Infinity) -
+					(ratingsByPlayerId.get(canonicalPlayerIdFromPlayerSeasonDoc(a)) ??
+						-Infinity)
+				)
+			})
+	}, [freeAgentsSnapshot, availability, experience, sort, ratingsByPlayerId])
+
+	return (
+		<div className='space-y-3'>
+			<div className='flex flex-wrap gap-2 pt-1'>
+				<Select
+					value={availability}
+					onValueChange={(value) =>
+						setAvailability(value as FreeAgentAvailability | typeof ALL)
+					}
+				>
+					<SelectTrigger className='w-[160px]' aria-label='Availability'>
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={ALL}>Any availability</SelectItem>
+						{Object.values(FreeAgentAvailability).map((value) => (
+							<SelectItem key={value} value={value}>
+								{FREE_AGENT_AVAILABILITY_LABELS[value]}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Select
+					value={experience}
+					onValueChange={(value) =>
+						setExperience(value as ExperienceLevel | typeof ALL)
+					}
+				>
+					<SelectTrigger className='w-[180px]' aria-label='Experience'>
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={ALL}>Any experience</SelectItem>
+						{Object.values(ExperienceLevel).map((value) => (
+							<SelectItem key={value} value={value}>
+								{EXPERIENCE_LEVEL_LABELS[value]}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Select
+					value={sort}
+					onValueChange={(value) => setSort(value as FreeAgentSort)}
+				>
+					<SelectTrigger className='w-[160px]' aria-label='Sort by'>
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value='rating'>Highest rating</SelectItem>
+						<SelectItem value='newest'>Recently updated</SelectItem>
+					</SelectContent>
+				</Select>
+			</div>
+
+			{listings.length === 0 ? (
+				<div className='flex flex-col items-center justify-center py-12 px-6 text-center'>
+					<div className='space-y-3'>
+						<p className='text-muted-foreground font-medium text-lg'>
+							{freeAgentsLoading
+								? 'Loading free agents...'
+								: 'No free agents listed'}
+						</p>
+						<p className='text-muted-foreground/70 text-sm max-w-md'>
+							Players looking for a team appear here. Start typing a player's
+							name to search everyone eligible for your roster.
+						</p>
+					</div>
+				</div>
+			) : (
+				listings.map((doc) => (
+					<ManageFreeAgentDetail
+						key={doc.ref.path}
+						playerSeasonQueryDocumentSnapshot={doc}
+						teamRef={teamRef}
+						rating={ratingsByPlayerId.get(
+							canonicalPlayerIdFromPlayerSeasonDoc(doc)
+						)}
+						handleInvite={handleInvite}
+					/>
+				))
+			)}
+		</div>
+	)
+}
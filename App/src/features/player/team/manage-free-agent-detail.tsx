@@ -0,0 +1,137 @@
+import { useCollection, useDocument } from 'react-firebase-hooks/firestore'
+import { Users } from 'lucide-react'
+import {
+	DocumentReference,
+	QueryDocumentSnapshot,
+	offersForPlayerByTeamQuery,
+} from '@/firebase'
+import { canonicalPlayerRefFromPlayerSeasonDoc } from '@/firebase/collections/players'
+import {
+	EXPERIENCE_LEVEL_LABELS,
+	FREE_AGENT_AVAILABILITY_LABELS,
+	OfferStatus,
+	PlayerDocument,
+	PlayerSeasonDocument,
+	TeamDocument,
+} from '@/shared/utils'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+
+const PreferredTeammate = ({
+	playerRef,
+}: {
+	playerRef: DocumentReference<PlayerDocument>
+}) => {
+	const [playerSnapshot] = useDocument(playerRef)
+	const player = playerSnapshot?.data()
+	if (!player) return null
+	return (
+		<Badge variant='secondary' className='text-xs'>
+			{player.firstname} {player.lastname}
+		</Badge>
+	)
+}
+
+/**
+ * A single listing on the looking-for-team board
+ *
+ * Shows the player's availability, experience, blurb, ranking rating and
+ * requested teammates, with an invite button that is disabled while an
+ * invitation from the team is pending.
+ */
+export const ManageFreeAgentDetail = ({
+	playerSeasonQueryDocumentSnapshot,
+	teamRef,
+	rating,
+	handleInvite,
+}: {
+	playerSeasonQueryDocumentSnapshot: QueryDocumentSnapshot<PlayerSeasonDocument>
+	teamRef: DocumentReference<TeamDocument> | undefined
+	rating: number | undefined
+	handleInvite: (playerId: string, playerName: string) => void
+}) => {
+	const playerRef = canonicalPlayerRefFromPlayerSeasonDoc(
+		playerSeasonQueryDocumentSnapshot
+	)
+	const [playerSnapshot] = useDocument(playerRef)
+	const [offersSnapshot] = useCollection(
+		offersForPlayerByTeamQuery(playerRef, teamRef)
+	)
+
+	const playerData = playerSnapshot?.data()
+	const playerSeason = playerSeasonQueryDocumentSnapshot.data()
+	const profile = playerSeason.freeAgentProfile
+	if (!playerData || !profile) return null
+
+	const playerName = `${playerData.firstname} ${playerData.lastname}`
+	const playerInitials =
+		`${playerData.firstname[0]}${playerData.lastname[0]}`.toUpperCase()
+	const isInvited =
+		offersSnapshot?.docs.some(
+			(doc) => doc.data().status === OfferStatus.PENDING
+		) ?? false
+
+	return (
+		<div className='border-b border-border/50 last:border-b-0'>
+			<div className='flex items-start justify-between py-3 px-1 gap-3 hover:bg-muted/30 transition-colors duration-200 rounded-sm'>
+				<div className='flex items-start gap-3 flex-1 min-w-0'>
+					<Avatar className='h-8 w-8 flex-shrink-0'>
+						<AvatarFallback className='bg-primary/10 text-primary text-sm font-medium'>
+							{playerInitials}
+						</AvatarFallback>
+					</Avatar>
+					<div className='min-w-0 flex-1 space-y-1'>
+						<div className='flex flex-wrap items-center gap-2 min-w-0'>
+							<p className='font-medium text-sm truncate max-w-[200px]'>
+								{playerName}
+							</p>
+							<Badge variant='outline' className='text-xs'>
+								{FREE_AGENT_AVAILABILITY_LABELS[profile.availability]}
+							</Badge>
+							<Badge variant='outline' className='text-xs'>
+								{EXPERIENCE_LEVEL_LABELS[profile.experience]}
+							</Badge>
+							<span className='text-xs text-muted-foreground'>
+								{rating !== undefined
+									? `Rating ${rating.toFixed(2)}`
+									: 'Unranked'}
+							</span>
+						</div>
+						{profile.blurb && (
+							<p className='text-sm text-muted-foreground break-words'>
+								{profile.blurb}
+							</p>
+						)}
+						{(playerSeason.requestedTeammates?.length ?? 0) > 0 && (
+							<div className='flex flex-wrap items-center gap-1 text-xs text-muted-foreground'>
+								<Users className='h-3 w-3 flex-shrink-0' />
+								<span>Wants to play with</span>
+								{playerSeason.requestedTeammates?.map((teammateRef) => (
+									<PreferredTeammate
+										key={teammateRef.id}
+										playerRef={teammateRef}
+									/>
+								))}
+							</div>
+						)}
+					</div>
+				</div>
+
+				<div className='flex-shrink-0'>
+					<Button
+						disabled={isInvited || !teamRef}
+						size='sm'
+						variant={isInvited ? 'outline' : 'default'}
+						className='text-xs font-medium min-w-[70px] sm:min-w-[80px]'
+						onClick={() => handleInvite(playerRef.id, playerName)}
+						title={isInvited ? 'Already invited' : 'Send invite'}
+						aria-label={`${isInvited ? 'Already invited' : 'Send invite'} for ${playerName}`}
+					>
+						{isInvited ? 'Invited' : 'Invite'}
+					</Button>
+				</div>
+			</div>
+		</div>
+	)
+}
@@ -6,9 +6,13 @@ import { NotificationCard } from '@/shared/components'
 import { OfferType, PlayerDocument, TeamSeasonDocument } from '@/shared/utils'
 import { ManageInvitePlayerDetail } from './manage-invite-player-detail'
 import { ManageInvitePlayerSearchBar } from './manage-invite-player-search-bar'
+import { ManageFreeAgentBoard } from './manage-free-agent-board'
 import { usePlayersSearch, useDebounce, useUserStatus } from '@/shared/hooks'
 import { useTeamsContext } from '@/providers'
-import { canonicalTeamIdFromTeamSeasonDoc } from '@/firebase/collections/teams'
+import {
+	canonicalTeamIdFromTeamSeasonDoc,
+	canonicalTeamRefFromTeamSeasonDoc,
+} from '@/firebase/collections/teams'
 
 export const ManageInvitePlayerList = () => {
 	const [search, setSearch] = useState('')
@@ -34,9 +38,10 @@ export const ManageInvitePlayerList = () => {
 		[currentSeasonTeamsQuerySnapshot, currentSeasonData]
 	)
 
-	const handleInvite = useCallback(
+	const sendInvite = useCallback(
 		(
-			playerQueryDocumentSnapshot: QueryDocumentSnapshot<PlayerDocument>,
+			playerId: string,
+			playerName: string,
 			teamQueryDocumentSnapshot:
 				| QueryDocumentSnapshot<TeamSeasonDocument>
 				| undefined
@@ -44,19 +49,19 @@ export const ManageInvitePlayerList = () => {
 			const canonicalTeamId = teamQueryDocumentSnapshot
 				? canonicalTeamIdFromTeamSeasonDoc(teamQueryDocumentSnapshot)
 				: undefined
-			if (!playerQueryDocumentSnapshot?.id || !canonicalTeamId) {
+			if (!playerId || !canonicalTeamId) {
 				toast.error('Missing required data to send invite')
 				return
 			}
 
 			createOfferViaFunction({
-				playerId: playerQueryDocumentSnapshot.id,
+				playerId,
 				teamId: canonicalTeamId,
 				type: OfferType.INVITATION,
 			})
 				.then(() => {
 					toast.success('Invite sent', {
-						description: `${playerQueryDocumentSnapshot.data().firstname} ${playerQueryDocumentSnapshot.data().lastname} has been invited to join ${teamQueryDocumentSnapshot?.data().name}.`,
+						description: `${playerName} has been invited to join ${teamQueryDocumentSnapshot?.data().name}.`,
 					})
 				})
 				.catch((error: unknown) => {
@@ -71,10 +76,35 @@ export const ManageInvitePlayerList = () => {
 		[]
 	)
 
+	const handleInvite = useCallback(
+		(
+			playerQueryDocumentSnapshot: QueryDocumentSnapshot<PlayerDocument>,
+			teamQueryDocumentSnapshot:
+				| QueryDocumentSnapshot<TeamSeasonDocument>
+				| undefined
+		) => {
+			const { firstname, lastname } = playerQueryDocumentSnapshot.data()
+			sendInvite(
+				playerQueryDocumentSnapshot.id,
+				`${firstname} ${lastname}`,
+				teamQueryDocumentSnapshot
+			)
+		},
+		[sendInvite]
+	)
+
+	const handleFreeAgentInvite = useCallback(
+		(playerId: string, playerName: string) =>
+			sendInvite(playerId, playerName, teamQueryDocumentSnapshot),
+		[sendInvite, teamQueryDocumentSnapshot]
+	)
+
 	return (
 		<NotificationCard
 			title={'Invite Players'}
-			description={'Players eligible for team roster invitations'}
+			description={
+				'Free agents looking for a team, or search any eligible player'
+			}
 			scrollArea
 			className='max-w-none'
 			searchBar={
@@ -86,18 +116,24 @@ export const ManageInvitePlayerList = () => {
 			}
 		>
 			<div className='w-full min-w-0'>
-				{playersQuerySnapshot?.empty || search.length === 0 ? (
+				{search.length === 0 ? (
+					<ManageFreeAgentBoard
+						teamRef={
+							teamQueryDocumentSnapshot
+								? canonicalTeamRefFromTeamSeasonDoc(teamQueryDocumentSnapshot)
+								: undefined
+						}
+						handleInvite={handleFreeAgentInvite}
+					/>
+				) : playersQuerySnapshot?.empty ? (
 					<div className='flex flex-col items-center justify-center py-12 px-6 text-center'>
 						<div className='space-y-3'>
 							<p className='text-muted-foreground font-medium text-lg'>
-								{search.length === 0
-									? 'Search for players to invite'
-									: 'No players found'}
+								No players found
 							</p>
 							<p className='text-muted-foreground/70 text-sm max-w-md'>
-								{search.length === 0
-									? "Start typing a player's name to find eligible players for your team roster."
-									: `No players match "${search}". Try adjusting your search terms or check the spelling.`}
+								No players match "{search}". Try adjusting your search terms or
+								check the spelling.
 							</p>
 						</div>
 					</div>
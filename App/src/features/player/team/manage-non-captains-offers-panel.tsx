@@ -138,6 +138,7 @@ export const ManageNonCaptainsOffersPanel = () => {
 								key={`incomingInvite-row-${incomingInvite.ref.id}`}
 								type={OfferDirection.INCOMING_INVITE}
 								data={incomingInvite}
+								expiresAt={incomingInvite.expiresAt}
 								statusColor={'bg-primary'}
 								message={'would like you to join'}
 								actionOptions={[
@@ -186,6 +187,7 @@ export const ManageNonCaptainsOffersPanel = () => {
 								key={`outgoingRequest-row-${outgoingRequest.ref.id}`}
 								type={OfferDirection.OUTGOING_REQUEST}
 								data={outgoingRequest}
+								expiresAt={outgoingRequest.expiresAt}
 								statusColor={'bg-primary'}
 								message={'requested to join'}
 								actionOptions={[
@@ -4,7 +4,11 @@ import { useCollection } from 'react-firebase-hooks/firestore'
 import { useTeamsContext, useSeasonsContext } from '@/providers'
 import { NotificationCard } from '@/shared/components'
 import { ManageTeamRosterPlayer } from './manage-team-roster-player'
-import { formatTimestamp, TeamRosterDocument } from '@/shared/utils'
+import {
+	formatTimestamp,
+	getSeasonRules,
+	TeamRosterDocument,
+} from '@/shared/utils'
 import { useUserStatus } from '@/shared/hooks/use-user-status'
 import {
 	canonicalTeamIdFromTeamSeasonDoc,
@@ -44,13 +48,29 @@ export const ManageTeamRosterCard = ({ actions }: { actions: ReactNode }) => {
 			: undefined
 	)
 
+	const { minPlayersForRegistration, maxRosterSize } = getSeasonRules(
+		currentSeasonQueryDocumentSnapshot?.data()
+	)
+	const remainingSpots =
+		rosterSnapshot && maxRosterSize !== null
+			? Math.max(maxRosterSize - rosterSnapshot.size, 0)
+			: undefined
+
 	const registrationStatus =
 		isLoading || currentSeasonTeamsQuerySnapshotLoading ? (
 			<p className='text-sm text-muted-foreground'>Loading...</p>
+		) : team?.data().waitlisted ? (
+			<p className={'text-sm text-muted-foreground'}>
+				The season is full, so {team.data().name} is{' '}
+				<span className='font-medium text-foreground'>
+					#{team.data().waitlistPosition ?? '-'} on the waitlist
+				</span>
+				. Your team will be registered automatically when a spot opens up.
+			</p>
 		) : !team?.data().registered ? (
 			<p className={'text-sm text-muted-foreground'}>
-				You need 10 registered players in order to meet the minimum requirement.
-				Registration ends on{' '}
+				You need {minPlayersForRegistration} registered players in order to meet
+				the minimum requirement. Registration ends on{' '}
 				{formatTimestamp(
 					currentSeasonQueryDocumentSnapshot?.data().registrationEnd
 				)}
@@ -95,7 +115,11 @@ export const ManageTeamRosterCard = ({ actions }: { actions: ReactNode }) => {
 				<h3 className='font-semibold text-lg leading-tight'>
 					{team?.data().name}
 				</h3>
-				<p className='text-sm text-muted-foreground mt-1'>Team Roster</p>
+				<p className='text-sm text-muted-foreground mt-1'>
+					Team Roster
+					{remainingSpots !== undefined &&
+						` · ${remainingSpots === 0 ? 'Full' : `${remainingSpots} of ${maxRosterSize} spots left`}`}
+				</p>
 			</div>
 		</div>
 	)
@@ -1,9 +1,9 @@
 // Public features
 export { Home } from './home'
 export { Teams, TeamProfile } from './teams'
-export { Standings } from './standings'
+export { Standings, SpiritLeaderboard } from './standings'
 export { Schedule } from './schedule'
-export { PlayerRankings, PlayerRankingHistory } from './rankings'
+export { PlayerRankings, PlayerCareer } from './rankings'
 export { News } from './news'
 export { CreateTeam } from './create'
 export { JoinTeam } from './join'
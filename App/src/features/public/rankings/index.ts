@@ -1,2 +1,3 @@
 export { PlayerRankings } from './player-rankings'
 export { PlayerRankingHistory } from './player-ranking-history'
+export { PlayerCareer } from './player-career/player-career'
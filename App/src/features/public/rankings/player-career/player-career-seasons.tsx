@@ -0,0 +1,170 @@
+import { Link } from 'react-router-dom'
+import { Award, Shield, Users } from 'lucide-react'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { TeamRecord } from '@/types'
+import { PlayerCareerSeason } from './use-player-career'
+
+// Format placement with ordinal suffix and medal emoji for top 3
+const formatPlacement = (placement: number | null) => {
+	if (placement === null) return 'TBD'
+	if (placement === 1) return '1st 🥇'
+	if (placement === 2) return '2nd 🥈'
+	if (placement === 3) return '3rd 🥉'
+	const suffix =
+		placement % 10 === 1 && placement !== 11
+			? 'st'
+			: placement % 10 === 2 && placement !== 12
+				? 'nd'
+				: placement % 10 === 3 && placement !== 13
+					? 'rd'
+					: 'th'
+	return `${placement}${suffix}`
+}
+
+const formatRecord = ({ wins, losses, ties }: TeamRecord) =>
+	ties > 0 ? `${wins}-${losses}-${ties}` : `${wins}-${losses}`
+
+const formatDifferential = ({ pointsFor, pointsAgainst }: TeamRecord) => {
+	const differential = pointsFor - pointsAgainst
+	return `${differential > 0 ? '+' : ''}${differential}`
+}
+
+/**
+ * PlayerCareerSeasons Component
+ *
+ * Every season the player was on a team, most recent first: the team and
+ * captaincy, the record and goal differential while they were rostered,
+ * playoff results and the badges the team earned.
+ */
+export const PlayerCareerSeasons = ({
+	seasons,
+}: {
+	seasons: PlayerCareerSeason[]
+}) => {
+	return (
+		<Card>
+			<CardHeader className='pb-3'>
+				<CardTitle className='flex items-center gap-2 text-lg'>
+					<Users className='h-5 w-5' />
+					Seasons
+				</CardTitle>
+			</CardHeader>
+			<CardContent className='p-0'>
+				{seasons.length > 0 ? (
+					<ul aria-label='Seasons played' className='list-none m-0 p-0'>
+						{seasons.map((entry) => (
+							<li key={`${entry.seasonId}-${entry.teamId}`}>
+								<Link
+									to={`/teams/${entry.teamId}/${entry.seasonId}`}
+									className='flex items-center gap-4 px-6 py-3 border-b last:border-b-0 cursor-pointer transition-colors hover:bg-muted/50 focus:outline-none focus-visible:bg-muted/50 focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary'
+									aria-label={`${entry.teamName}, ${entry.seasonName}, ${formatRecord(entry.regularSeason)} regular season${entry.madePlayoffs ? `, ${formatRecord(entry.playoffs)} in the playoffs` : ''}, finished ${formatPlacement(entry.placement)}${entry.isCaptain ? ', Team Captain' : ''}`}
+								>
+									{/* Team Logo */}
+									<div className='flex-shrink-0'>
+										{entry.teamLogo ? (
+											<img
+												src={entry.teamLogo}
+												alt=''
+												className='w-10 h-10 rounded-full object-cover bg-muted'
+											/>
+										) : (
+											<div className='w-10 h-10 rounded-full bg-gradient-to-br from-primary to-sky-300 flex items-center justify-center'>
+												<span className='text-sm font-bold text-primary-foreground'>
+													{entry.teamName.charAt(0).toUpperCase() || 'T'}
+												</span>
+											</div>
+										)}
+									</div>
+
+									{/* Team Info */}
+									<div className='flex-1 min-w-0'>
+										<div className='flex items-center gap-2'>
+											<span className='font-medium text-foreground truncate'>
+												{entry.teamName}
+											</span>
+											{entry.isCaptain && (
+												<Badge
+													variant='secondary'
+													className='flex items-center gap-1 shrink-0'
+												>
+													<Shield className='h-3 w-3' />
+													<span className='sr-only sm:not-sr-only'>
+														Captain
+													</span>
+												</Badge>
+											)}
+										</div>
+										<span className='text-sm text-muted-foreground'>
+											{entry.seasonName}
+											{entry.madePlayoffs &&
+												` · Playoffs ${formatRecord(entry.playoffs)}`}
+										</span>
+										{entry.badges.length > 0 && (
+											<div
+												className='flex flex-wrap items-center gap-1 mt-1'
+												aria-label='Badges earned'
+											>
+												{entry.badges.map((badge) =>
+													badge.imageUrl ? (
+														<img
+															key={badge.id}
+															src={badge.imageUrl}
+															alt={badge.name}
+															title={`${badge.name}: ${badge.description}`}
+															className='w-6 h-6 rounded-full object-cover'
+														/>
+													) : (
+														<span
+															key={badge.id}
+															title={`${badge.name}: ${badge.description}`}
+															className='w-6 h-6 rounded-full bg-amber-100 dark:bg-amber-950 flex items-center justify-center'
+														>
+															<Award
+																className='h-3.5 w-3.5 text-amber-600'
+																aria-label={badge.name}
+															/>
+														</span>
+													)
+												)}
+											</div>
+										)}
+									</div>
+
+									{/* Regular-season Record */}
+									<div className='flex-shrink-0 text-center'>
+										<div className='text-sm font-medium'>
+											{formatRecord(entry.regularSeason)}
+										</div>
+										<div className='text-xs text-muted-foreground'>Record</div>
+									</div>
+
+									{/* Goal Differential */}
+									<div className='flex-shrink-0 text-center min-w-[40px]'>
+										<div className='text-sm font-medium'>
+											{formatDifferential(entry.regularSeason)}
+										</div>
+										<div className='text-xs text-muted-foreground'>+/-</div>
+									</div>
+
+									{/* Placement */}
+									<div className='flex-shrink-0 text-right min-w-[60px]'>
+										<div className='text-sm font-medium'>
+											{formatPlacement(entry.placement)}
+										</div>
+										<div className='text-xs text-muted-foreground'>Finish</div>
+									</div>
+								</Link>
+							</li>
+						))}
+					</ul>
+				) : (
+					<p className='text-sm text-muted-foreground text-center py-6 px-6'>
+						No seasons on a team yet for this player.
+					</p>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
@@ -0,0 +1,188 @@
+/**
+ * PlayerCareer component
+ *
+ * A player's career profile: every season they played, their teams and
+ * records, playoff results and team badges, with their rankings history
+ * chart as one panel. Accessible at /players/{playerId}
+ */
+
+import { useEffect, useMemo } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useCollection } from 'react-firebase-hooks/firestore'
+import { collection, Query } from 'firebase/firestore'
+import { toast } from 'sonner'
+import { ArrowLeft, Loader2 } from 'lucide-react'
+
+import { firestore } from '@/firebase/app'
+import { Collections, PlayerDocument, TeamRecord } from '@/types'
+import { logger } from '@/shared/utils'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { PlayerRankingHistory } from '../player-ranking-history'
+import { PlayerCareerSeasons } from './player-career-seasons'
+import { usePlayerCareer } from './use-player-career'
+
+const formatRecord = ({ wins, losses, ties }: TeamRecord) =>
+	ties > 0 ? `${wins}-${losses}-${ties}` : `${wins}-${losses}`
+
+export const PlayerCareer = () => {
+	const { playerId } = useParams<{ playerId: string }>()
+	const navigate = useNavigate()
+
+	const { seasons, summary, loading, error } = usePlayerCareer(playerId)
+
+	// Fetch all players for the name and the dropdown
+	const [allPlayersSnapshot, , allPlayersError] = useCollection(
+		collection(firestore, Collections.PLAYERS) as Query<PlayerDocument>
+	)
+
+	useEffect(() => {
+		if (allPlayersError) {
+			logger.error('Failed to load players:', {
+				component: 'PlayerCareer',
+				error: allPlayersError.message,
+			})
+			toast.error('Failed to load players', {
+				description: allPlayersError.message,
+			})
+		}
+	}, [allPlayersError])
+
+	useEffect(() => {
+		if (error) {
+			toast.error('Failed to load player career', {
+				description: error.message,
+			})
+		}
+	}, [error])
+
+	const allPlayers = useMemo(
+		() =>
+			(allPlayersSnapshot?.docs ?? [])
+				.map((doc) => ({
+					id: doc.id,
+					name:
+						`${doc.data().firstname || ''} ${doc.data().lastname || ''}`.trim() ||
+						'Unknown Player',
+				}))
+				.sort((a, b) => a.name.localeCompare(b.name)),
+		[allPlayersSnapshot]
+	)
+
+	const playerName = allPlayers.find((player) => player.id === playerId)?.name
+
+	// Handle player selection change
+	const handlePlayerChange = (newPlayerId: string) => {
+		navigate(`/players/${newPlayerId}`)
+	}
+
+	// Handle missing playerId
+	if (!playerId) {
+		return (
+			<div className='container max-w-4xl mx-auto py-8'>
+				<Alert variant='destructive'>
+					<AlertDescription>
+						Player ID is required to view a player career.
+					</AlertDescription>
+				</Alert>
+			</div>
+		)
+	}
+
+	const differential = summary.record.pointsFor - summary.record.pointsAgainst
+	const stats = [
+		{ label: 'Seasons', value: summary.seasons },
+		{ label: 'Teams', value: summary.teams },
+		{ label: 'Record', value: formatRecord(summary.record) },
+		{ label: '+/-', value: `${differential > 0 ? '+' : ''}${differential}` },
+		{ label: 'Playoffs', value: summary.playoffAppearances },
+		{ label: 'Titles', value: summary.championships },
+		{ label: 'Captain', value: summary.captainSeasons },
+		{ label: 'Badges', value: summary.badges },
+	]
+
+	return (
+		<div className='container max-w-6xl mx-auto py-8 space-y-6'>
+			{/* Back button and player selector */}
+			<div className='flex items-center gap-4'>
+				<Button
+					variant='outline'
+					size='sm'
+					onClick={() => navigate(-1)}
+					className='flex items-center gap-2'
+				>
+					<ArrowLeft className='h-4 w-4' />
+					Back
+				</Button>
+				<Select value={playerId} onValueChange={handlePlayerChange}>
+					<SelectTrigger
+						className='hidden w-[200px] rounded-lg sm:ml-auto sm:flex'
+						aria-label='Select a player'
+					>
+						<SelectValue placeholder='Select player' />
+					</SelectTrigger>
+					<SelectContent className='rounded-xl'>
+						{allPlayers.map((player) => (
+							<SelectItem
+								key={player.id}
+								value={player.id}
+								className='rounded-lg'
+							>
+								{player.name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+
+			<h1 className='text-2xl sm:text-3xl font-bold tracking-tight'>
+				{playerName ?? 'Player'}
+			</h1>
+
+			{loading ? (
+				<div className='flex items-center justify-center py-8'>
+					<Loader2
+						className='h-8 w-8 animate-spin text-muted-foreground'
+						aria-label='Loading player career'
+					/>
+				</div>
+			) : error ? (
+				<Alert variant='destructive'>
+					<AlertDescription>
+						Failed to load this player&apos;s career. Please try again later.
+					</AlertDescription>
+				</Alert>
+			) : (
+				<>
+					{/* Career Summary */}
+					<Card>
+						<CardContent>
+							<dl className='grid grid-cols-4 sm:grid-cols-8 gap-4 text-center'>
+								{stats.map((stat) => (
+									<div key={stat.label}>
+										<dt className='text-xs text-muted-foreground'>
+											{stat.label}
+										</dt>
+										<dd className='text-lg font-semibold'>{stat.value}</dd>
+									</div>
+								))}
+							</dl>
+						</CardContent>
+					</Card>
+
+					<PlayerCareerSeasons seasons={seasons} />
+				</>
+			)}
+
+			<PlayerRankingHistory playerId={playerId} playerName={playerName} />
+		</div>
+	)
+}
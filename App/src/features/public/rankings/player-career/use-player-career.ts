@@ -0,0 +1,294 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useCollection } from 'react-firebase-hooks/firestore'
+import { doc, getDoc, getDocs } from 'firebase/firestore'
+
+import { playerSeasonsSubcollection } from '@/firebase/collections/players'
+import {
+	teamRosterSubcollection,
+	teamSeasonRef,
+} from '@/firebase/collections/teams'
+import { teamSeasonBadgesQuery } from '@/firebase/collections/badges'
+import {
+	useBadgesContext,
+	useGamesContext,
+	useSeasonsContext,
+} from '@/providers'
+import {
+	GameType,
+	PlayerSeasonDocument,
+	TeamRecord,
+	TeamSeasonDocument,
+	Timestamp,
+} from '@/types'
+import {
+	getTeamRole,
+	hasAssignedTeams,
+	hasCountedResult,
+	logger,
+} from '@/shared/utils'
+
+export interface PlayerCareerBadge {
+	id: string
+	name: string
+	description: string
+	imageUrl: string | null
+}
+
+/**
+ * One season of a player's career, on the team they were rostered to
+ */
+export interface PlayerCareerSeason {
+	seasonId: string
+	seasonName: string
+	teamId: string
+	teamName: string
+	teamLogo: string | null
+	isCaptain: boolean
+	/** Regular-season games played after the player joined the team */
+	regularSeason: TeamRecord
+	/** Playoff games played after the player joined the team */
+	playoffs: TeamRecord
+	madePlayoffs: boolean
+	placement: number | null
+	/** Badges the team earned that season */
+	badges: PlayerCareerBadge[]
+}
+
+export interface PlayerCareerSummary {
+	seasons: number
+	teams: number
+	captainSeasons: number
+	/** Regular season and playoffs together */
+	record: TeamRecord
+	playoffAppearances: number
+	championships: number
+	badges: number
+}
+
+// Per (team, season) data loaded alongside the player's seasons
+interface TeamSeasonDetails {
+	teamSeason: TeamSeasonDocument | null
+	/** When the player joined the team's roster (null if unknown) */
+	dateJoined: Timestamp | null
+	badgeIds: string[]
+}
+
+const emptyRecord = (): TeamRecord => ({
+	wins: 0,
+	losses: 0,
+	ties: 0,
+	pointsFor: 0,
+	pointsAgainst: 0,
+})
+
+const addRecord = (total: TeamRecord, record: TeamRecord) => {
+	total.wins += record.wins
+	total.losses += record.losses
+	total.ties += record.ties
+	total.pointsFor += record.pointsFor
+	total.pointsAgainst += record.pointsAgainst
+}
+
+/**
+ * Builds a player's career from their `playerSeasons` subcollection, the
+ * matching team-season and roster docs, the team's badges and every game.
+ *
+ * Records only count games from the day the player joined the roster, so a
+ * player added mid-season isn't credited with results from before they
+ * arrived. `playerSeasons` holds only the player's latest team each season.
+ */
+export const usePlayerCareer = (playerId: string | undefined) => {
+	const { seasonsQuerySnapshot } = useSeasonsContext()
+	const { allGamesQuerySnapshot, allGamesQuerySnapshotLoading } =
+		useGamesContext()
+	const { allBadgesQuerySnapshot } = useBadgesContext()
+
+	const [playerSeasonsSnapshot, playerSeasonsLoading, playerSeasonsError] =
+		useCollection(playerSeasonsSubcollection(playerId))
+
+	useEffect(() => {
+		if (playerSeasonsError) {
+			logger.error('Failed to load player seasons:', {
+				component: 'usePlayerCareer',
+				playerId,
+				error: playerSeasonsError.message,
+			})
+		}
+	}, [playerSeasonsError, playerId])
+
+	// Load each (canonicalTeamId, seasonId) team-season subdoc, the player's
+	// roster entry and the team's badges for that season. Bounded by player
+	// history length (~5 seasons typical).
+	const [detailsByKey, setDetailsByKey] = useState<
+		Map<string, TeamSeasonDetails>
+	>(new Map())
+	const [detailsLoading, setDetailsLoading] = useState(true)
+
+	useEffect(() => {
+		if (!playerId || !playerSeasonsSnapshot) return
+		let cancelled = false
+		const load = async () => {
+			setDetailsLoading(true)
+			const entries = await Promise.all(
+				playerSeasonsSnapshot.docs.map(async (psDoc) => {
+					const ps = psDoc.data() as PlayerSeasonDocument
+					if (!ps.team) return null
+					const seasonId = psDoc.id
+					const teamId = ps.team.id
+					try {
+						const badgesQuery = teamSeasonBadgesQuery(ps.team, seasonId)
+						const [teamSeasonSnap, rosterSnap, badgesSnap] = await Promise.all([
+							getDoc(teamSeasonRef(teamId, seasonId)),
+							getDoc(doc(teamRosterSubcollection(teamId, seasonId), playerId)),
+							badgesQuery ? getDocs(badgesQuery) : null,
+						])
+						const details: TeamSeasonDetails = {
+							teamSeason: teamSeasonSnap.exists()
+								? (teamSeasonSnap.data() as TeamSeasonDocument)
+								: null,
+							dateJoined: rosterSnap.data()?.dateJoined ?? null,
+							badgeIds: badgesSnap?.docs.map((badge) => badge.id) ?? [],
+						}
+						return [`${teamId}::${seasonId}`, details] as const
+					} catch (err) {
+						logger.error('Failed to load team season for career row', {
+							component: 'usePlayerCareer',
+							teamId,
+							seasonId,
+							error: err instanceof Error ? err.message : String(err),
+						})
+						return null
+					}
+				})
+			)
+			if (cancelled) return
+			const map = new Map<string, TeamSeasonDetails>()
+			for (const entry of entries) {
+				if (entry) map.set(entry[0], entry[1])
+			}
+			setDetailsByKey(map)
+			setDetailsLoading(false)
+		}
+		load()
+		return () => {
+			cancelled = true
+		}
+	}, [playerSeasonsSnapshot, playerId])
+
+	const seasons = useMemo((): PlayerCareerSeason[] => {
+		if (!playerSeasonsSnapshot) return []
+
+		const seasonDocs = new Map(
+			seasonsQuerySnapshot?.docs.map((seasonDoc) => [
+				seasonDoc.id,
+				seasonDoc.data(),
+			]) ?? []
+		)
+		const badgeDocs = new Map(
+			allBadgesQuerySnapshot?.docs.map((badgeDoc) => [
+				badgeDoc.id,
+				badgeDoc.data(),
+			]) ?? []
+		)
+
+		const rows: (PlayerCareerSeason & { sortTimestamp: number })[] = []
+		for (const psDoc of playerSeasonsSnapshot.docs) {
+			const ps = psDoc.data() as PlayerSeasonDocument
+			// Free agents have no team record for the season
+			if (!ps.team) continue
+
+			const seasonId = psDoc.id
+			const teamId = ps.team.id
+			const details = detailsByKey.get(`${teamId}::${seasonId}`)
+			const joinedAt = details?.dateJoined?.toMillis() ?? 0
+
+			const regularSeason = emptyRecord()
+			const playoffs = emptyRecord()
+			allGamesQuerySnapshot?.docs.forEach((gameDoc) => {
+				const game = gameDoc.data()
+				if (game.season?.id !== seasonId) return
+				if (!hasAssignedTeams(game) || !hasCountedResult(game)) return
+				if (game.date.toMillis() < joinedAt) return
+
+				const role = getTeamRole(game, teamId)
+				if (!role) return
+				const pointsFor = role === 'home' ? game.homeScore : game.awayScore
+				const pointsAgainst = role === 'home' ? game.awayScore : game.homeScore
+
+				const record = game.type === GameType.PLAYOFF ? playoffs : regularSeason
+				record.pointsFor += pointsFor
+				record.pointsAgainst += pointsAgainst
+				if (pointsFor > pointsAgainst) record.wins++
+				else if (pointsFor < pointsAgainst) record.losses++
+				else record.ties++
+			})
+
+			const season = seasonDocs.get(seasonId)
+			rows.push({
+				seasonId,
+				seasonName: season?.name ?? 'Unknown Season',
+				teamId,
+				teamName: details?.teamSeason?.name ?? 'Unknown Team',
+				teamLogo: details?.teamSeason?.logo ?? null,
+				isCaptain: ps.captain || false,
+				regularSeason,
+				playoffs,
+				madePlayoffs: playoffs.wins + playoffs.losses + playoffs.ties > 0,
+				placement: details?.teamSeason?.placement ?? null,
+				badges: (details?.badgeIds ?? []).flatMap((badgeId) => {
+					const badge = badgeDocs.get(badgeId)
+					return badge
+						? [
+								{
+									id: badgeId,
+									name: badge.name,
+									description: badge.description,
+									imageUrl: badge.imageUrl,
+								},
+							]
+						: []
+				}),
+				sortTimestamp: season?.dateStart?.toMillis() ?? 0,
+			})
+		}
+
+		// Most recent season first
+		return rows
+			.sort((a, b) => b.sortTimestamp - a.sortTimestamp)
+			.map(({ sortTimestamp: _sortTimestamp, ...row }) => row)
+	}, [
+		playerSeasonsSnapshot,
+		seasonsQuerySnapshot,
+		allGamesQuerySnapshot,
+		allBadgesQuerySnapshot,
+		detailsByKey,
+	])
+
+	const summary = useMemo((): PlayerCareerSummary => {
+		const record = emptyRecord()
+		for (const season of seasons) {
+			addRecord(record, season.regularSeason)
+			addRecord(record, season.playoffs)
+		}
+		return {
+			seasons: seasons.length,
+			teams: new Set(seasons.map((season) => season.teamId)).size,
+			captainSeasons: seasons.filter((season) => season.isCaptain).length,
+			record,
+			playoffAppearances: seasons.filter((season) => season.madePlayoffs)
+				.length,
+			championships: seasons.filter((season) => season.placement === 1).length,
+			badges: seasons.reduce(
+				(total, season) => total + season.badges.length,
+				0
+			),
+		}
+	}, [seasons])
+
+	const loading =
+		playerSeasonsLoading ||
+		allGamesQuerySnapshotLoading ||
+		(playerSeasonsSnapshot !== undefined && detailsLoading)
+
+	return { seasons, summary, loading, error: playerSeasonsError }
+}
@@ -1,32 +1,21 @@
 /**
  * PlayerRankingHistory component
  *
- * Displays a player's rankings history throughout their career using interactive charts
- * Accessible at /players/{playerId}
+ * Charts a player's rank and rating snapshots throughout their career.
+ * Shown as a panel on the player career page at /players/{playerId}
  */
 
-import { useMemo, useEffect, useState } from 'react'
-import { useParams, useNavigate, Link } from 'react-router-dom'
+import { useMemo, useEffect } from 'react'
 import { useCollection } from 'react-firebase-hooks/firestore'
 import { toast } from 'sonner'
 import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts'
-import { collection, getDoc, Query } from 'firebase/firestore'
+import { collection, Query } from 'firebase/firestore'
 
 import { firestore } from '@/firebase/app'
-import { logger, hasAssignedTeams } from '@/shared/utils'
-import {
-	PlayerDocument,
-	PlayerSeasonDocument,
-	TeamSeasonDocument,
-	Collections,
-	RankingHistoryDocument,
-} from '@/types'
-import { playerSeasonsSubcollection } from '@/firebase/collections/players'
-import { teamSeasonRef } from '@/firebase/collections/teams'
+import { logger } from '@/shared/utils'
+import { Collections, RankingHistoryDocument } from '@/types'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Badge } from '@/components/ui/badge'
 import {
 	ChartConfig,
 	ChartContainer,
@@ -34,17 +23,13 @@ import {
 	ChartLegendContent,
 	ChartTooltip,
 } from '@/components/ui/chart'
-import {
-	Select,
-	SelectContent,
-	SelectItem,
-	SelectTrigger,
-	SelectValue,
-} from '@/components/ui/select'
-import { Trophy, ArrowLeft, Users, Shield } from 'lucide-react'
-import { useSeasonsContext, useGamesContext } from '@/providers'
+import { Trophy } from 'lucide-react'
 
 interface PlayerRankingHistoryProps {
+	/** Player whose snapshots are charted */
+	playerId: string
+	/** Player's name, for the chart description */
+	playerName?: string
 	/** Optional class name for styling */
 	className?: string
 }
@@ -75,89 +60,19 @@ const chartConfig = {
 	},
 } satisfies ChartConfig
 
-// Interface for processed team history entry
-interface TeamHistoryEntry {
-	seasonId: string
-	seasonName: string
-	teamId: string | null
-	teamName: string | null
-	teamLogo: string | null
-	wins: number
-	losses: number
-	placement: number | null
-	isCaptain: boolean
-}
-
-// Format placement with ordinal suffix and medal emoji for top 3
-const formatPlacement = (placement: number | null) => {
-	if (placement === null) return 'TBD'
-	if (placement === 1) return '1st 🥇'
-	if (placement === 2) return '2nd 🥈'
-	if (placement === 3) return '3rd 🥉'
-	const suffix =
-		placement % 10 === 1 && placement !== 11
-			? 'st'
-			: placement % 10 === 2 && placement !== 12
-				? 'nd'
-				: placement % 10 === 3 && placement !== 13
-					? 'rd'
-					: 'th'
-	return `${placement}${suffix}`
-}
-
 export const PlayerRankingHistory = ({
+	playerId,
+	playerName,
 	className,
 }: PlayerRankingHistoryProps) => {
-	const { playerId } = useParams<{ playerId: string }>()
-	const navigate = useNavigate()
-
-	// Get seasons and games data from contexts
-	const { seasonsQuerySnapshot } = useSeasonsContext()
-	const { allGamesQuerySnapshot: allGamesSnapshot } = useGamesContext()
-
-	// Subscribe to the player's per-season subcollection. Replaces the dead
-	// `playerData.seasons` array.
-	const [playerSeasonsSnapshot, , playerSeasonsError] = useCollection(
-		playerSeasonsSubcollection(playerId)
-	)
-
-	useEffect(() => {
-		if (playerSeasonsError) {
-			logger.error('Failed to load player seasons:', {
-				component: 'PlayerRankingHistory',
-				playerId,
-				error: playerSeasonsError.message,
-			})
-		}
-	}, [playerSeasonsError, playerId])
-
-	// Fetch all players for the dropdown
-	const [allPlayersSnapshot, allPlayersLoading, allPlayersError] =
-		useCollection(
-			collection(firestore, Collections.PLAYERS) as Query<PlayerDocument>
-		)
-
 	// Fetch all rankings history data from rankings-history collection
-	const [rankingHistorySnapshot, historyLoading, error] = useCollection(
+	const [rankingHistorySnapshot, loading, error] = useCollection(
 		collection(
 			firestore,
 			Collections.RANKINGS_HISTORY
 		) as Query<RankingHistoryDocument>
 	)
 
-	// Log and notify on query errors
-	useEffect(() => {
-		if (allPlayersError) {
-			logger.error('Failed to load players:', {
-				component: 'PlayerRankingHistory',
-				error: allPlayersError.message,
-			})
-			toast.error('Failed to load players', {
-				description: allPlayersError.message,
-			})
-		}
-	}, [allPlayersError])
-
 	useEffect(() => {
 		if (error) {
 			logger.error('Failed to load ranking history:', {
@@ -171,39 +86,6 @@ export const PlayerRankingHistory = ({
 		}
 	}, [error, playerId])
 
-	const loading = historyLoading || allPlayersLoading
-
-	// Get all players for dropdown - only include players with rankings history data
-	const allPlayers = useMemo(() => {
-		if (!allPlayersSnapshot?.docs || !rankingHistorySnapshot?.docs) return []
-
-		// Get unique player IDs from rankings history data
-		const playersWithHistory = new Set<string>()
-
-		rankingHistorySnapshot.docs.forEach((doc) => {
-			const data = doc.data()
-			const rankings = data.rankings || []
-			if (Array.isArray(rankings)) {
-				rankings.forEach((player: { playerId?: string }) => {
-					if (player.playerId) {
-						playersWithHistory.add(player.playerId)
-					}
-				})
-			}
-		})
-
-		// Filter players to only include those with rankings history
-		return allPlayersSnapshot.docs
-			.filter((doc) => playersWithHistory.has(doc.id))
-			.map((doc) => ({
-				id: doc.id,
-				name:
-					`${doc.data().firstname || ''} ${doc.data().lastname || ''}`.trim() ||
-					'Unknown Player',
-			}))
-			.sort((a, b) => a.name.localeCompare(b.name))
-	}, [allPlayersSnapshot, rankingHistorySnapshot])
-
 	// Process data to extract player's history
 	const chartData = useMemo(() => {
 		if (!rankingHistorySnapshot?.docs) return []
@@ -277,443 +159,84 @@ export const PlayerRankingHistory = ({
 		return playerHistory.sort((a, b) => a.timestamp - b.timestamp)
 	}, [rankingHistorySnapshot, playerId])
 
-	// Calculate team records from games
-	const teamRecords = useMemo(() => {
-		const records: Record<string, { wins: number; losses: number }> = {}
-
-		if (!allGamesSnapshot?.docs) return records
-
-		allGamesSnapshot.docs.forEach((gameDoc) => {
-			const gameData = gameDoc.data()
-
-			// Skip games with null team references (placeholder games)
-			if (!hasAssignedTeams(gameData)) return
-
-			const { home, away, homeScore, awayScore } = gameData
-
-			// Skip games that haven't been played yet (null scores)
-			if (homeScore === null || awayScore === null) return
-
-			// Update home team record
-			if (!records[home.id]) {
-				records[home.id] = { wins: 0, losses: 0 }
-			}
-			if (homeScore > awayScore) {
-				records[home.id].wins++
-			} else if (homeScore < awayScore) {
-				records[home.id].losses++
-			}
-
-			// Update away team record
-			if (!records[away.id]) {
-				records[away.id] = { wins: 0, losses: 0 }
-			}
-			if (awayScore > homeScore) {
-				records[away.id].wins++
-			} else if (awayScore < homeScore) {
-				records[away.id].losses++
-			}
-		})
-
-		return records
-	}, [allGamesSnapshot])
-
-	// Load each (canonicalTeamId, seasonId) team-season subdoc the player has
-	// participated in. Bounded by player history length (~5 docs typical).
-	const [teamSeasonByKey, setTeamSeasonByKey] = useState<
-		Map<string, TeamSeasonDocument>
-	>(new Map())
-
-	useEffect(() => {
-		const docs = playerSeasonsSnapshot?.docs ?? []
-		let cancelled = false
-		const load = async () => {
-			if (docs.length === 0) {
-				if (!cancelled) setTeamSeasonByKey(new Map())
-				return
-			}
-			const entries = await Promise.all(
-				docs.map(async (psDoc) => {
-					const ps = psDoc.data() as PlayerSeasonDocument
-					const teamRef = ps.team
-					if (!teamRef) return null
-					const seasonId = psDoc.id
-					const canonicalTeamId = teamRef.id
-					try {
-						const tsSnap = await getDoc(
-							teamSeasonRef(canonicalTeamId, seasonId)
-						)
-						if (!tsSnap.exists()) return null
-						const key = `${canonicalTeamId}::${seasonId}`
-						return [key, tsSnap.data() as TeamSeasonDocument] as const
-					} catch (err) {
-						logger.error('Failed to load team season for history row', {
-							component: 'PlayerRankingHistory',
-							canonicalTeamId,
-							seasonId,
-							error: err instanceof Error ? err.message : String(err),
-						})
-						return null
-					}
-				})
-			)
-			if (cancelled) return
-			const map = new Map<string, TeamSeasonDocument>()
-			for (const entry of entries) {
-				if (entry) map.set(entry[0], entry[1])
-			}
-			setTeamSeasonByKey(map)
-		}
-		load()
-		return () => {
-			cancelled = true
-		}
-	}, [playerSeasonsSnapshot])
-
-	// Process player's team history from their playerSeasons subcollection.
-	const teamHistory = useMemo((): TeamHistoryEntry[] => {
-		if (!playerSeasonsSnapshot?.docs || !playerId) return []
-
-		// Map seasonId → season dateStart timestamp for sorting.
-		const seasonTimestamps = new Map<string, number>()
-		seasonsQuerySnapshot?.docs.forEach((doc) => {
-			const data = doc.data()
-			if (data.dateStart) {
-				const timestamp =
-					typeof data.dateStart.toDate === 'function'
-						? data.dateStart.toDate().getTime()
-						: data.dateStart instanceof Date
-							? data.dateStart.getTime()
-							: data.dateStart.seconds
-								? data.dateStart.seconds * 1000
-								: 0
-				seasonTimestamps.set(doc.id, timestamp)
-			}
-		})
-
-		const history: (TeamHistoryEntry & { sortTimestamp: number })[] =
-			playerSeasonsSnapshot.docs
-				.map((psDoc) => {
-					const seasonId = psDoc.id
-					const ps = psDoc.data() as PlayerSeasonDocument
-
-					const seasonDoc = seasonsQuerySnapshot?.docs.find(
-						(s) => s.id === seasonId
-					)
-					const seasonName = seasonDoc?.data()?.name || 'Unknown Season'
-
-					const teamRef = ps.team
-					let teamId: string | null = null
-					let teamName: string | null = null
-					let teamLogo: string | null = null
-					let placement: number | null = null
-
-					if (teamRef) {
-						teamId = teamRef.id
-						const ts = teamSeasonByKey.get(`${teamRef.id}::${seasonId}`)
-						teamName = ts?.name ?? 'Unknown Team'
-						teamLogo = ts?.logo ?? null
-						placement = ts?.placement ?? null
-					}
-
-					const record = teamId ? teamRecords[teamId] : null
-
-					return {
-						seasonId,
-						seasonName,
-						teamId,
-						teamName,
-						teamLogo,
-						wins: record?.wins || 0,
-						losses: record?.losses || 0,
-						placement,
-						isCaptain: ps.captain || false,
-						sortTimestamp: seasonTimestamps.get(seasonId) || 0,
-					}
-				})
-				// Filter out entries without a team (free agents)
-				.filter((entry) => entry.teamId !== null)
-
-		// Sort by season dateStart timestamp (most recent first)
-		return history
-			.sort((a, b) => b.sortTimestamp - a.sortTimestamp)
-			.map(({ sortTimestamp: _sortTimestamp, ...entry }) => entry)
-	}, [
-		playerSeasonsSnapshot,
-		playerId,
-		seasonsQuerySnapshot,
-		teamSeasonByKey,
-		teamRecords,
-	])
-
-	// Handle player selection change
-	const handlePlayerChange = (newPlayerId: string) => {
-		navigate(`/players/${newPlayerId}`)
-	}
-
-	// Handle missing playerId
-	if (!playerId) {
-		return (
-			<div className='container max-w-4xl mx-auto py-8'>
-				<Alert variant='destructive'>
-					<AlertDescription>
-						Player ID is required to view rankings history.
-					</AlertDescription>
-				</Alert>
-			</div>
-		)
-	}
-
-	if (loading) {
-		return (
-			<div className='container max-w-6xl mx-auto py-8 space-y-6'>
-				{/* Back button skeleton */}
-				<div className='flex items-center gap-4'>
-					<div className='h-8 w-32 rounded-md bg-gray-200 animate-pulse relative overflow-hidden'>
-						<div className='absolute inset-0 bg-gradient-to-r from-transparent via-white/40 to-transparent -skew-x-12 animate-shimmer' />
-					</div>
+	return (
+		<Card className={`${className ?? ''} pt-0`}>
+			<CardHeader className='flex items-center gap-2 space-y-0 border-b py-5 sm:flex-row'>
+				<div className='grid flex-1 gap-1'>
+					<CardTitle className='flex items-center gap-2'>
+						<Trophy className='h-5 w-5' />
+						Rankings history
+					</CardTitle>
 				</div>
-
-				<Card className={`${className} pt-0`}>
-					{/* Header skeleton that matches the real layout */}
-					<CardHeader className='flex items-center gap-2 space-y-0 border-b py-5 sm:flex-row'>
-						<div className='grid flex-1 gap-1'>
-							<div className='flex items-center gap-2'>
-								<Trophy className='h-5 w-5 text-gray-300' />
-								<div className='h-6 w-32 rounded bg-gray-200 animate-pulse relative overflow-hidden'>
-									<div className='absolute inset-0 bg-gradient-to-r from-transparent via-white/40 to-transparent -skew-x-12 animate-shimmer' />
-								</div>
+			</CardHeader>
+			<CardContent className='px-2 pt-4 sm:px-6 sm:pt-6'>
+				{loading ? (
+					<div className='aspect-auto h-[250px] w-full'>
+						{/* Chart area with subtle grid pattern to simulate chart */}
+						<div className='h-full w-full rounded-lg border bg-gray-50 relative overflow-hidden'>
+							{/* Simulate chart grid lines */}
+							<div className='absolute inset-0 opacity-30'>
+								{/* Horizontal lines */}
+								{Array.from({ length: 5 }).map((_, i) => (
+									<div
+										key={`h-${i}`}
+										className='absolute w-full border-t border-gray-300'
+										style={{ top: `${(i + 1) * 20}%` }}
+									/>
+								))}
+								{/* Vertical lines */}
+								{Array.from({ length: 6 }).map((_, i) => (
+									<div
+										key={`v-${i}`}
+										className='absolute h-full border-l border-gray-300'
+										style={{ left: `${(i + 1) * 16.66}%` }}
+									/>
+								))}
 							</div>
-						</div>
-						{/* Player selector skeleton */}
-						<div className='hidden h-9 w-[200px] rounded-lg bg-gray-200 animate-pulse sm:ml-auto sm:flex relative overflow-hidden'>
-							<div className='absolute inset-0 bg-gradient-to-r from-transparent via-white/40 to-transparent -skew-x-12 animate-shimmer' />
-						</div>
-					</CardHeader>
 
-					{/* Chart content skeleton */}
-					<CardContent className='px-2 pt-4 sm:px-6 sm:pt-6'>
-						<div className='aspect-auto h-[250px] w-full'>
-							{/* Chart area with subtle grid pattern to simulate chart */}
-							<div className='h-full w-full rounded-lg border bg-gray-50 relative overflow-hidden'>
-								{/* Simulate chart grid lines */}
-								<div className='absolute inset-0 opacity-30'>
-									{/* Horizontal lines */}
-									{Array.from({ length: 5 }).map((_, i) => (
-										<div
-											key={`h-${i}`}
-											className='absolute w-full border-t border-gray-300'
-											style={{ top: `${(i + 1) * 20}%` }}
-										/>
-									))}
-									{/* Vertical lines */}
-									{Array.from({ length: 6 }).map((_, i) => (
+							{/* Simulate chart curves */}
+							<div className='absolute inset-4 flex items-end justify-between'>
+								{Array.from({ length: 8 }).map((_, i) => {
+									// Generate height once per render using a deterministic value
+									const height = ((i * 7 + 13) % 60) + 20
+									return (
 										<div
-											key={`v-${i}`}
-											className='absolute h-full border-l border-gray-300'
-											style={{ left: `${(i + 1) * 16.66}%` }}
-										/>
-									))}
-								</div>
-
-								{/* Simulate chart curves */}
-								<div className='absolute inset-4 flex items-end justify-between'>
-									{Array.from({ length: 8 }).map((_, i) => {
-										// Generate height once per render using a deterministic value
-										const height = ((i * 7 + 13) % 60) + 20
-										return (
+											key={i}
+											className='flex flex-col items-center space-y-1'
+										>
 											<div
-												key={i}
-												className='flex flex-col items-center space-y-1'
+												className='w-2 bg-gray-300 animate-pulse relative overflow-hidden'
+												style={{ height: `${height}%` }}
 											>
-												<div
-													className='w-2 bg-gray-300 animate-pulse relative overflow-hidden'
-													style={{ height: `${height}%` }}
-												>
-													<div className='absolute inset-0 bg-gradient-to-r from-transparent via-white/40 to-transparent -skew-x-12 animate-shimmer' />
-												</div>
+												<div className='absolute inset-0 bg-gradient-to-r from-transparent via-white/40 to-transparent -skew-x-12 animate-shimmer' />
 											</div>
-										)
-									})}
-								</div>
-
-								{/* Main shimmer overlay for the entire chart area */}
-								<div className='absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent -skew-x-12 animate-shimmer' />
+										</div>
+									)
+								})}
 							</div>
-						</div>
-					</CardContent>
-				</Card>
-			</div>
-		)
-	}
-
-	if (error) {
-		return (
-			<div className='container max-w-6xl mx-auto py-8 space-y-6'>
-				{/* Back button */}
-				<div className='flex items-center gap-4'>
-					<Button
-						variant='outline'
-						size='sm'
-						onClick={() => navigate(-1)}
-						className='flex items-center gap-2'
-					>
-						<ArrowLeft className='h-4 w-4' />
-						Back
-					</Button>
-				</div>
-
-				<Card className={`${className} pt-0`}>
-					<CardHeader className='flex items-center gap-2 space-y-0 border-b py-5 sm:flex-row'>
-						<div className='grid flex-1 gap-1'>
-							<CardTitle className='flex items-center gap-2'>
-								<Trophy className='h-5 w-5' />
-								Rankings history
-							</CardTitle>
-						</div>
-						<div className='flex items-center gap-2'>
-							<Select value={playerId} onValueChange={handlePlayerChange}>
-								<SelectTrigger
-									className='hidden w-[200px] rounded-lg sm:ml-auto sm:flex'
-									aria-label='Select a player'
-								>
-									<SelectValue placeholder='Select player' />
-								</SelectTrigger>
-								<SelectContent className='rounded-xl'>
-									{allPlayers.map((player) => (
-										<SelectItem
-											key={player.id}
-											value={player.id}
-											className='rounded-lg'
-										>
-											{player.name}
-										</SelectItem>
-									))}
-								</SelectContent>
-							</Select>
-						</div>
-					</CardHeader>
-					<CardContent className='px-2 pt-4 sm:px-6 sm:pt-6'>
-						<Alert variant='destructive'>
-							<AlertDescription>
-								Failed to load rankings history. Please try again later.
-							</AlertDescription>
-						</Alert>
-					</CardContent>
-				</Card>
-			</div>
-		)
-	}
-
-	if (chartData.length === 0) {
-		return (
-			<div className='container max-w-6xl mx-auto py-8 space-y-6'>
-				{/* Back button */}
-				<div className='flex items-center gap-4'>
-					<Button
-						variant='outline'
-						size='sm'
-						onClick={() => navigate(-1)}
-						className='flex items-center gap-2'
-					>
-						<ArrowLeft className='h-4 w-4' />
-						Back
-					</Button>
-				</div>
 
-				<Card className={`${className} pt-0`}>
-					<CardHeader className='flex items-center gap-2 space-y-0 border-b py-5 sm:flex-row'>
-						<div className='grid flex-1 gap-1'>
-							<CardTitle className='flex items-center gap-2'>
-								<Trophy className='h-5 w-5' />
-								Rankings history
-							</CardTitle>
+							{/* Main shimmer overlay for the entire chart area */}
+							<div className='absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent -skew-x-12 animate-shimmer' />
 						</div>
-						<div className='flex items-center gap-2'>
-							<Select value={playerId} onValueChange={handlePlayerChange}>
-								<SelectTrigger
-									className='hidden w-[200px] rounded-lg sm:ml-auto sm:flex'
-									aria-label='Select a player'
-								>
-									<SelectValue placeholder='Select player' />
-								</SelectTrigger>
-								<SelectContent className='rounded-xl'>
-									{allPlayers.map((player) => (
-										<SelectItem
-											key={player.id}
-											value={player.id}
-											className='rounded-lg'
-										>
-											{player.name}
-										</SelectItem>
-									))}
-								</SelectContent>
-							</Select>
-						</div>
-					</CardHeader>
-					<CardContent className='px-2 pt-4 sm:px-6 sm:pt-6'>
-						<Alert role='status' aria-live='polite'>
-							<AlertDescription>
-								No rankings history data available for this player.
-							</AlertDescription>
-						</Alert>
-					</CardContent>
-				</Card>
-			</div>
-		)
-	}
-
-	return (
-		<div className='container max-w-6xl mx-auto py-8 space-y-6'>
-			{/* Back button */}
-			<div className='flex items-center gap-4'>
-				<Button
-					variant='outline'
-					size='sm'
-					onClick={() => navigate(-1)}
-					className='flex items-center gap-2'
-				>
-					<ArrowLeft className='h-4 w-4' />
-					Back
-				</Button>
-			</div>
-
-			<Card className={`${className} pt-0`}>
-				<CardHeader className='flex items-center gap-2 space-y-0 border-b py-5 sm:flex-row'>
-					<div className='grid flex-1 gap-1'>
-						<CardTitle className='flex items-center gap-2'>
-							<Trophy className='h-5 w-5' />
-							Rankings history
-						</CardTitle>
-					</div>
-					<div className='flex items-center gap-2'>
-						<Select value={playerId} onValueChange={handlePlayerChange}>
-							<SelectTrigger
-								className='hidden w-[200px] rounded-lg sm:ml-auto sm:flex'
-								aria-label='Select a player'
-							>
-								<SelectValue placeholder='Select player' />
-							</SelectTrigger>
-							<SelectContent className='rounded-xl'>
-								{allPlayers.map((player) => (
-									<SelectItem
-										key={player.id}
-										value={player.id}
-										className='rounded-lg'
-									>
-										{player.name}
-									</SelectItem>
-								))}
-							</SelectContent>
-						</Select>
 					</div>
-				</CardHeader>
-				<CardContent className='px-2 pt-4 sm:px-6 sm:pt-6'>
+				) : error ? (
+					<Alert variant='destructive'>
+						<AlertDescription>
+							Failed to load rankings history. Please try again later.
+						</AlertDescription>
+					</Alert>
+				) : chartData.length === 0 ? (
+					<Alert role='status' aria-live='polite'>
+						<AlertDescription>
+							No rankings history data available for this player.
+						</AlertDescription>
+					</Alert>
+				) : (
 					<ChartContainer
 						config={chartConfig}
 						className='aspect-auto h-[250px] w-full'
 						role='img'
-						aria-label={`Player ranking history chart showing ${allPlayers.find((p) => p.id === playerId)?.name ?? 'Unknown Player'}'s ranking and rating progression over time. Current rank: ${chartData.length > 0 ? chartData[chartData.length - 1]?.ranking : 'N/A'}, Current rating: ${chartData.length > 0 ? chartData[chartData.length - 1]?.rating?.toFixed(2) : 'N/A'}`}
+						aria-label={`Player ranking history chart showing ${playerName ?? 'Unknown Player'}'s ranking and rating progression over time. Current rank: ${chartData.length > 0 ? chartData[chartData.length - 1]?.ranking : 'N/A'}, Current rating: ${chartData.length > 0 ? chartData[chartData.length - 1]?.rating?.toFixed(2) : 'N/A'}`}
 					>
 						<AreaChart data={chartData} aria-hidden='true'>
 							<defs>
@@ -839,101 +362,8 @@ export const PlayerRankingHistory = ({
 							<ChartLegend content={<ChartLegendContent />} />
 						</AreaChart>
 					</ChartContainer>
-				</CardContent>
-			</Card>
-
-			{/* Team History Card */}
-			<Card>
-				<CardHeader className='pb-3'>
-					<CardTitle className='flex items-center gap-2 text-lg'>
-						<Users className='h-5 w-5' />
-						Team History
-					</CardTitle>
-				</CardHeader>
-				<CardContent className='p-0'>
-					{teamHistory.length > 0 ? (
-						<ul aria-label='Team history' className='list-none m-0 p-0'>
-							{teamHistory.map((entry, index) => (
-								<li key={`${entry.seasonId}-${entry.teamId}-${index}`}>
-									<Link
-										to={
-											entry.teamId
-												? `/teams/${entry.teamId}/${entry.seasonId}`
-												: '#'
-										}
-										className='flex items-center gap-4 px-6 py-3 border-b last:border-b-0 cursor-pointer transition-colors hover:bg-muted/50 focus:outline-none focus-visible:bg-muted/50 focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary'
-										aria-label={`${entry.teamName}, ${entry.seasonName}, ${entry.wins} wins ${entry.losses} losses, finished ${formatPlacement(entry.placement)}${entry.isCaptain ? ', Team Captain' : ''}`}
-									>
-										{/* Team Logo */}
-										<div className='flex-shrink-0'>
-											{entry.teamLogo ? (
-												<img
-													src={entry.teamLogo}
-													alt=''
-													className='w-10 h-10 rounded-full object-cover bg-muted'
-												/>
-											) : (
-												<div className='w-10 h-10 rounded-full bg-gradient-to-br from-primary to-sky-300 flex items-center justify-center'>
-													<span className='text-sm font-bold text-primary-foreground'>
-														{entry.teamName?.charAt(0)?.toUpperCase() || 'T'}
-													</span>
-												</div>
-											)}
-										</div>
-
-										{/* Team Info */}
-										<div className='flex-1 min-w-0'>
-											<div className='flex items-center gap-2'>
-												<span className='font-medium text-foreground truncate'>
-													{entry.teamName}
-												</span>
-												{entry.isCaptain && (
-													<Badge
-														variant='secondary'
-														className='flex items-center gap-1 shrink-0'
-													>
-														<Shield className='h-3 w-3' />
-														<span className='sr-only sm:not-sr-only'>
-															Captain
-														</span>
-													</Badge>
-												)}
-											</div>
-											<span className='text-sm text-muted-foreground'>
-												{entry.seasonName}
-											</span>
-										</div>
-
-										{/* Win-Loss Record */}
-										<div className='flex-shrink-0 text-center'>
-											<div className='text-sm font-medium'>
-												{entry.wins}-{entry.losses}
-											</div>
-											<div className='text-xs text-muted-foreground'>
-												Record
-											</div>
-										</div>
-
-										{/* Placement */}
-										<div className='flex-shrink-0 text-right min-w-[60px]'>
-											<div className='text-sm font-medium'>
-												{formatPlacement(entry.placement)}
-											</div>
-											<div className='text-xs text-muted-foreground'>
-												Finish
-											</div>
-										</div>
-									</Link>
-								</li>
-							))}
-						</ul>
-					) : (
-						<p className='text-sm text-muted-foreground text-center py-6 px-6'>
-							No team history available for this player.
-						</p>
-					)}
-				</CardContent>
-			</Card>
-		</div>
+				)}
+			</CardContent>
+		</Card>
 	)
 }
@@ -2,7 +2,8 @@
  * Players page component
  *
  * Displays players in a ranked leaderboard format based on skill ratings.
- * Currently uses TrueSkill (v5.0), a Bayesian rating algorithm.
+ * Currently uses TrueSkill with optional margin-of-victory weighting (v6.0),
+ * a Bayesian rating algorithm.
  */
 
 import { useState, useEffect } from 'react'
@@ -88,9 +89,15 @@ const ALGORITHM_VERSIONS = {
 			'Bayesian skill rating with team-based inference and uncertainty tracking',
 		date: 'December 2025',
 	},
+	'v6.0': {
+		name: 'Margin Aware',
+		description:
+			'TrueSkill with optional, capped margin-of-victory weighting per calculation',
+		date: 'October 2026',
+	},
 } as const
 
-const CURRENT_VERSION = 'v5.0'
+const CURRENT_VERSION = 'v6.0'
 
 // Helper component to render version-specific algorithm details
 const AlgorithmVersionContent = ({ version }: { version: string }) => {
@@ -105,8 +112,10 @@ const AlgorithmVersionContent = ({ version }: { version: string }) => {
 			return <AlgorithmV4Content />
 		case 'v5.0':
 			return <AlgorithmV5Content />
+		case 'v6.0':
+			return <AlgorithmV6Content />
 		default:
-			return <AlgorithmV5Content />
+			return <AlgorithmV6Content />
 	}
 }
 
@@ -912,6 +921,109 @@ const AlgorithmV5Content = () => (
 	</>
 )
 
+// v6.0 - Margin Aware
+const AlgorithmV6Content = () => (
+	<>
+		{/* What Changed */}
+		<div>
+			<h4 className='font-semibold mb-3 text-base'>
+				TrueSkill with Margin of Victory
+			</h4>
+			<p className='text-muted-foreground'>
+				Ratings are still calculated with TrueSkill exactly as in v5.0: each
+				player's skill is a bell curve with an estimate (μ) and an uncertainty
+				(σ), inferred from team results. v6.0 adds an optional mode where the
+				size of a win also counts, so a 15-1 blowout can move ratings more than
+				a 10-9 thriller.
+			</p>
+		</div>
+
+		{/* Margin Multiplier */}
+		<div>
+			<h4 className='font-semibold mb-2'>Capped Margin Multiplier</h4>
+			<p className='text-muted-foreground mb-2'>
+				When enabled, each game's update is scaled by its point differential
+				<InlineMath math='\;d' />, up to a cap:
+			</p>
+			<div className='bg-muted/20 p-2 rounded text-center mb-2'>
+				<InlineMath math='m_{\text{margin}} = 1 + w \cdot \frac{\min(d, \text{cap})}{\text{cap}}' />
+			</div>
+			<p className='text-xs text-muted-foreground text-center mb-2'>
+				where <InlineMath math='w' /> is the margin weight. The multiplier
+				stacks with the playoff and season multipliers in the TrueSkill update.
+			</p>
+			<ul className='text-muted-foreground space-y-1 text-xs ml-4'>
+				<li>
+					• With w = 0.5 and a cap of 8 points, a 1-point win moves ratings
+					1.06× as much as a plain win and an 8-point win 1.5× as much
+				</li>
+				<li>
+					• Margins beyond the cap earn nothing extra, so running up the score
+					doesn't pay
+				</li>
+				<li>• The winner still decides the direction of every update</li>
+			</ul>
+		</div>
+
+		{/* Per Calculation */}
+		<div>
+			<h4 className='font-semibold mb-2'>Switchable Per Calculation</h4>
+			<p className='text-muted-foreground mb-2'>
+				The margin weight and cap are recorded with every rankings calculation
+				alongside the other parameters. A weight of 0 turns the mode off, which
+				gives exactly the v5.0 win/loss-only ratings.
+			</p>
+			<ul className='text-muted-foreground space-y-1 text-xs ml-4'>
+				<li>
+					• League admins try a weighting in a sandbox run first, compare how
+					well it predicts past games, and only then make it live
+				</li>
+				<li>
+					• Gravity well, inactivity decay, playoff and season weighting are
+					unchanged from v5.0
+				</li>
+			</ul>
+		</div>
+
+		{/* Algorithm Constants */}
+		<div>
+			<h4 className='font-semibold mb-3'>Margin Constants</h4>
+			<div className='grid grid-cols-1 md:grid-cols-2 gap-3'>
+				<div className='bg-muted/20 p-3 rounded-lg border flex flex-col justify-center items-center text-center min-h-[80px]'>
+					<span className='text-xs font-medium text-muted-foreground mb-1'>
+						MARGIN WEIGHT (w)
+					</span>
+					<span className='text-lg font-mono font-bold mb-1'>0</span>
+					<p className='text-xs text-muted-foreground'>
+						Default; off until a weighted calculation is made live
+					</p>
+				</div>
+
+				<div className='bg-muted/20 p-3 rounded-lg border flex flex-col justify-center items-center text-center min-h-[80px]'>
+					<span className='text-xs font-medium text-muted-foreground mb-1'>
+						MARGIN CAP
+					</span>
+					<span className='text-lg font-mono font-bold mb-1'>8</span>
+					<p className='text-xs text-muted-foreground'>
+						Points of differential that earn the full bonus
+					</p>
+				</div>
+			</div>
+		</div>
+
+		{/* Summary */}
+		<div className='border-t pt-4'>
+			<h4 className='font-semibold mb-2 text-xs'>Version Summary</h4>
+			<p className='text-xs text-muted-foreground'>
+				Margin Aware keeps TrueSkill's team-based inference and uncertainty
+				tracking from v5.0 and adds an optional, capped reward for decisive
+				wins. Because the setting is recorded with each calculation, the league
+				can compare weighted and unweighted ratings before choosing one.
+			</p>
+		</div>
+	</>
+)
+
 export const PlayerRankings = ({
 	showAdminControls = false,
 }: PlayerRankingsProps) => {
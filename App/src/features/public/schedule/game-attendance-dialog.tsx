@@ -0,0 +1,226 @@
+import { useMemo, useState } from 'react'
+import { useCollection, useDocument } from 'react-firebase-hooks/firestore'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { DocumentReference } from '@/firebase'
+import { gameAttendanceQuery } from '@/firebase/collections/games'
+import { teamRosterSubcollection } from '@/firebase/collections/teams'
+import { updateGameAttendanceViaFunction } from '@/firebase/collections/functions'
+import { type ScheduleGame } from '@/shared/hooks'
+import { logger, PlayerDocument } from '@/shared/utils'
+
+interface AttendanceTeam {
+	id: string
+	name: string
+}
+
+interface GameAttendanceDialogProps {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	game: ScheduleGame
+	/** Teams in this game the current user may record attendance for */
+	teams: AttendanceTeam[]
+}
+
+const AttendancePlayerRow = ({
+	playerRef,
+	checked,
+	onCheckedChange,
+}: {
+	playerRef: DocumentReference<PlayerDocument>
+	checked: boolean
+	onCheckedChange: (checked: boolean) => void
+}) => {
+	const [playerSnapshot, playerLoading] = useDocument(playerRef)
+	const player = playerSnapshot?.data()
+	const id = `attendance-${playerRef.id}`
+
+	return (
+		<div className='flex items-center gap-3'>
+			<Checkbox
+				id={id}
+				checked={checked}
+				onCheckedChange={(value) => onCheckedChange(value === true)}
+			/>
+			{playerLoading ? (
+				<Skeleton className='h-4 w-32' />
+			) : (
+				<Label htmlFor={id} className='font-normal'>
+					{player ? `${player.firstname} ${player.lastname}` : 'Unknown player'}
+				</Label>
+			)}
+		</div>
+	)
+}
+
+/**
+ * GameAttendanceDialog Component
+ *
+ * Lets captains (and admins) record which rostered players played in a game.
+ * Defaults to the previously recorded attendance, or the full roster when
+ * nothing has been recorded yet.
+ */
+export const GameAttendanceDialog = ({
+	open,
+	onOpenChange,
+	game,
+	teams,
+}: GameAttendanceDialogProps) => {
+	const [selectedTeamId, setSelectedTeamId] = useState<string | undefined>(
+		teams[0]?.id
+	)
+	// Per-team edits; a team has no entry until the user changes a checkbox
+	const [selections, setSelections] = useState<Record<string, Set<string>>>({})
+	const [isSaving, setIsSaving] = useState(false)
+
+	const teamId = selectedTeamId ?? teams[0]?.id
+
+	const [rosterSnapshot, rosterLoading] = useCollection(
+		open && teamId ? teamRosterSubcollection(teamId, game.season.id) : null
+	)
+	const [attendanceSnapshot, attendanceLoading] = useCollection(
+		open ? gameAttendanceQuery(game.id) : null
+	)
+
+	const defaultSelection = useMemo(() => {
+		const recorded =
+			attendanceSnapshot?.docs
+				.filter((doc) => doc.data().team.id === teamId)
+				.map((doc) => doc.id) ?? []
+		if (recorded.length > 0) {
+			return new Set(recorded)
+		}
+		return new Set(rosterSnapshot?.docs.map((doc) => doc.id) ?? [])
+	}, [attendanceSnapshot, rosterSnapshot, teamId])
+
+	const selection =
+		(teamId ? selections[teamId] : undefined) ?? defaultSelection
+
+	const handleCheckedChange = (playerId: string, checked: boolean) => {
+		if (!teamId) return
+		const next = new Set(selection)
+		if (checked) {
+			next.add(playerId)
+		} else {
+			next.delete(playerId)
+		}
+		setSelections((prev) => ({ ...prev, [teamId]: next }))
+	}
+
+	const handleSave = async () => {
+		if (!teamId) return
+		setIsSaving(true)
+		try {
+			const result = await updateGameAttendanceViaFunction({
+				gameId: game.id,
+				teamId,
+				playerIds: Array.from(selection),
+			})
+			toast.success('Attendance saved', { description: result.message })
+			onOpenChange(false)
+		} catch (error) {
+			logger.error('Failed to save game attendance:', {
+				component: 'GameAttendanceDialog',
+				gameId: game.id,
+				teamId,
+				error: error instanceof Error ? error.message : error,
+			})
+			toast.error('Failed to save attendance', {
+				description:
+					error instanceof Error ? error.message : 'Please try again.',
+			})
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	const isLoading = rosterLoading || attendanceLoading
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className='max-w-md'>
+				<DialogHeader>
+					<DialogTitle>Game attendance</DialogTitle>
+					<DialogDescription>
+						Select the players who played. Only these players are credited with
+						this result in the player rankings.
+					</DialogDescription>
+				</DialogHeader>
+
+				{teams.length > 1 && (
+					<Select value={teamId} onValueChange={setSelectedTeamId}>
+						<SelectTrigger>
+							<SelectValue placeholder='Select team' />
+						</SelectTrigger>
+						<SelectContent>
+							{teams.map((team) => (
+								<SelectItem key={team.id} value={team.id}>
+									{team.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				)}
+
+				<div className='flex max-h-80 flex-col gap-3 overflow-y-auto'>
+					{isLoading ? (
+						<>
+							<Skeleton className='h-4 w-40' />
+							<Skeleton className='h-4 w-40' />
+							<Skeleton className='h-4 w-40' />
+						</>
+					) : rosterSnapshot?.empty ? (
+						<p className='text-muted-foreground text-sm'>
+							This team has no rostered players for the season.
+						</p>
+					) : (
+						rosterSnapshot?.docs.map((rosterDoc) => (
+							<AttendancePlayerRow
+								key={rosterDoc.id}
+								playerRef={rosterDoc.data().player}
+								checked={selection.has(rosterDoc.id)}
+								onCheckedChange={(checked) =>
+									handleCheckedChange(rosterDoc.id, checked)
+								}
+							/>
+						))
+					)}
+				</div>
+
+				<DialogFooter>
+					<Button
+						variant='outline'
+						onClick={() => onOpenChange(false)}
+						disabled={isSaving}
+					>
+						Cancel
+					</Button>
+					<Button onClick={handleSave} disabled={isSaving || isLoading}>
+						{isSaving && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+						Save attendance
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
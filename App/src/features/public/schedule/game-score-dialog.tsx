@@ -0,0 +1,171 @@
+import { useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import { submitGameScoreViaFunction } from '@/firebase/collections/functions'
+import { type ScheduleGame } from '@/shared/hooks'
+import { logger } from '@/shared/utils'
+import { ScoreReportStatus } from '@/types'
+
+interface GameScoreDialogProps {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	game: ScheduleGame
+	/** Team the current user captains in this game */
+	teamId: string
+}
+
+/**
+ * GameScoreDialog Component
+ *
+ * Lets a captain report a game's score. The score is final once the other
+ * team's captain reports the same score; the dialog pre-fills the other
+ * team's latest report so confirming it is one click.
+ */
+export const GameScoreDialog = ({
+	open,
+	onOpenChange,
+	game,
+	teamId,
+}: GameScoreDialogProps) => {
+	const reports = game.scoreReports ?? {}
+	const ownReport = reports[teamId]
+	const opposingReport = Object.entries(reports).find(
+		([reportTeamId]) => reportTeamId !== teamId
+	)?.[1]
+	const prefill = opposingReport ?? ownReport
+
+	const [homeScore, setHomeScore] = useState(
+		prefill ? String(prefill.homeScore) : ''
+	)
+	const [awayScore, setAwayScore] = useState(
+		prefill ? String(prefill.awayScore) : ''
+	)
+	const [isSaving, setIsSaving] = useState(false)
+
+	const homeName = game.homeName ?? 'Home'
+	const awayName = game.awayName ?? 'Away'
+	const isValid = /^\d+$/.test(homeScore) && /^\d+$/.test(awayScore)
+
+	const handleSubmit = async () => {
+		if (!isValid) return
+		setIsSaving(true)
+		try {
+			const result = await submitGameScoreViaFunction({
+				gameId: game.id,
+				homeScore: Number(homeScore),
+				awayScore: Number(awayScore),
+			})
+			if (result.status === ScoreReportStatus.DISPUTED) {
+				toast.warning('Score disputed', { description: result.message })
+			} else {
+				toast.success('Score reported', { description: result.message })
+			}
+			onOpenChange(false)
+		} catch (error) {
+			logger.error('Failed to submit game score:', {
+				component: 'GameScoreDialog',
+				gameId: game.id,
+				teamId,
+				error: error instanceof Error ? error.message : error,
+			})
+			toast.error('Failed to report score', {
+				description:
+					error instanceof Error ? error.message : 'Please try again.',
+			})
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className='max-w-md'>
+				<DialogHeader>
+					<DialogTitle>Report score</DialogTitle>
+					<DialogDescription>
+						The score is final once both captains report the same result.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className='space-y-2 text-sm'>
+					{opposingReport && (
+						<p>
+							The other team reported{' '}
+							<span className='font-medium'>
+								{homeName} {opposingReport.homeScore} – {awayName}{' '}
+								{opposingReport.awayScore}
+							</span>
+							. Submit the same score to confirm it.
+						</p>
+					)}
+					{ownReport && (
+						<p className='text-muted-foreground'>
+							Your team reported {ownReport.homeScore} – {ownReport.awayScore}.
+						</p>
+					)}
+					{game.scoreStatus === ScoreReportStatus.DISPUTED && (
+						<p className='text-destructive'>
+							The reports don't match. An admin will review them, or you can
+							resubmit if the teams agree on a score.
+						</p>
+					)}
+				</div>
+
+				<div className='grid grid-cols-2 gap-4'>
+					<div className='space-y-2'>
+						<Label htmlFor='score-home' className='truncate'>
+							{homeName}
+						</Label>
+						<Input
+							id='score-home'
+							type='number'
+							min={0}
+							inputMode='numeric'
+							value={homeScore}
+							onChange={(e) => setHomeScore(e.target.value)}
+						/>
+					</div>
+					<div className='space-y-2'>
+						<Label htmlFor='score-away' className='truncate'>
+							{awayName}
+						</Label>
+						<Input
+							id='score-away'
+							type='number'
+							min={0}
+							inputMode='numeric'
+							value={awayScore}
+							onChange={(e) => setAwayScore(e.target.value)}
+						/>
+					</div>
+				</div>
+
+				<DialogFooter>
+					<Button
+						variant='outline'
+						onClick={() => onOpenChange(false)}
+						disabled={isSaving}
+					>
+						Cancel
+					</Button>
+					<Button onClick={handleSubmit} disabled={isSaving || !isValid}>
+						{isSaving && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+						Submit score
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
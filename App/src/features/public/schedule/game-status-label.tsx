@@ -0,0 +1,63 @@
+import { useDocument } from 'react-firebase-hooks/firestore'
+import { GAME_STATUS_LABELS, getGameStatus } from '@/shared/utils'
+import { type ScheduleGame } from '@/shared/hooks'
+import { DocumentReference } from '@/firebase'
+import { GameDocument, GameStatus } from '@/types'
+
+const RescheduledDate = ({
+	gameRef,
+}: {
+	gameRef: DocumentReference<GameDocument>
+}) => {
+	const [gameSnapshot] = useDocument(gameRef)
+	const date = gameSnapshot?.data()?.date.toDate()
+	if (!date) return null
+	return (
+		<p className='text-muted-foreground text-[10px]'>
+			Moved to{' '}
+			{date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+		</p>
+	)
+}
+
+/**
+ * GameStatusLabel Component
+ *
+ * Marks forfeited, postponed and canceled games on a schedule card, with
+ * the new date of a game that was rescheduled. Renders nothing for games
+ * played as scheduled.
+ */
+export const GameStatusLabel = ({ game }: { game: ScheduleGame }) => {
+	const status = getGameStatus(game)
+	if (
+		status !== GameStatus.FORFEIT &&
+		status !== GameStatus.POSTPONED &&
+		status !== GameStatus.CANCELED
+	) {
+		return null
+	}
+
+	const title =
+		status === GameStatus.FORFEIT
+			? `Forfeited by ${
+					game.forfeitedBy?.id === game.home?.id
+						? (game.homeName ?? 'Home')
+						: (game.awayName ?? 'Away')
+				}`
+			: GAME_STATUS_LABELS[status]
+
+	return (
+		<>
+			<p
+				className='text-destructive text-[10px] font-semibold uppercase'
+				title={title}
+				aria-label={title}
+			>
+				{GAME_STATUS_LABELS[status]}
+			</p>
+			{status !== GameStatus.FORFEIT && game.rescheduledTo && (
+				<RescheduledDate gameRef={game.rescheduledTo} />
+			)}
+		</>
+	)
+}
@@ -1,5 +1,14 @@
+import { useMemo, useState } from 'react'
 import { Link } from 'react-router-dom'
-import { GameDocument, hasAssignedTeams } from '@/shared/utils'
+import { ClipboardCheck, ClipboardPen, HeartHandshake } from 'lucide-react'
+import {
+	cn,
+	getGameStatus,
+	hasAssignedTeams,
+	hasCountedResult,
+	isUnplayed,
+} from '@/shared/utils'
+import { GameStatus, ScoreReportStatus } from '@/types'
 import {
 	Card,
 	CardContent,
@@ -7,22 +16,126 @@ import {
 	CardHeader,
 	CardTitle,
 } from '@/components/ui/card'
-import { useTeamsContext } from '@/providers'
+import { Button } from '@/components/ui/button'
+import { useAuthContext, useTeamsContext } from '@/providers'
+import { useUserStatus, type ScheduleGame } from '@/shared/hooks'
 import { canonicalTeamIdFromTeamSeasonDoc } from '@/firebase/collections/teams'
 import { Skeleton } from '@/components/ui/skeleton'
 import { TeamIcon } from './team-icon'
+import { GameAttendanceDialog } from './game-attendance-dialog'
+import { GameScoreDialog } from './game-score-dialog'
+import { GameStatusLabel } from './game-status-label'
+import { SpiritRatingDialog } from './spirit-rating-dialog'
 
 export const ScheduleCard = ({
 	games,
 	title,
 }: {
-	games: GameDocument[]
+	games: ScheduleGame[]
 	title: string
 }) => {
 	const {
 		selectedSeasonTeamsQuerySnapshot,
 		selectedSeasonTeamsQuerySnapshotLoading,
 	} = useTeamsContext()
+	const { authenticatedUserSeasonsSnapshot } = useAuthContext()
+	const { isAdmin } = useUserStatus()
+	const [attendanceGame, setAttendanceGame] = useState<ScheduleGame>()
+	const [scoreReport, setScoreReport] = useState<{
+		game: ScheduleGame
+		teamId: string
+	}>()
+	const [spiritRating, setSpiritRating] = useState<{
+		game: ScheduleGame
+		teamId: string
+	}>()
+
+	// Teams the user captains, keyed by season ID
+	const captainedTeamIdBySeason = useMemo(() => {
+		const result = new Map<string, string>()
+		authenticatedUserSeasonsSnapshot?.docs.forEach((seasonDoc) => {
+			const data = seasonDoc.data()
+			if (data.captain && data.team) {
+				result.set(seasonDoc.id, data.team.id)
+			}
+		})
+		return result
+	}, [authenticatedUserSeasonsSnapshot])
+
+	// Attendance can be recorded once a game has started, by admins for
+	// either team or by captains for their own team
+	const getAttendanceTeams = (game: ScheduleGame) => {
+		if (!hasAssignedTeams(game) || game.date.toDate() > new Date()) {
+			return []
+		}
+		const captainedTeamId = captainedTeamIdBySeason.get(game.season.id)
+		return [
+			{ id: game.home.id, name: game.homeName ?? 'Home' },
+			{ id: game.away.id, name: game.awayName ?? 'Away' },
+		].filter((team) => isAdmin || team.id === captainedTeamId)
+	}
+
+	// Captains report scores once a game has started, until it has a final
+	// score; returns the team the user captains in the game, if any
+	const getScoreTeamId = (game: ScheduleGame) => {
+		if (
+			!hasAssignedTeams(game) ||
+			game.date.toDate() > new Date() ||
+			isUnplayed(game)
+		) {
+			return undefined
+		}
+		const isOpen =
+			game.scoreStatus === ScoreReportStatus.PENDING ||
+			game.scoreStatus === ScoreReportStatus.DISPUTED
+		if (!isOpen && game.homeScore !== null && game.awayScore !== null) {
+			return undefined
+		}
+		const captainedTeamId = captainedTeamIdBySeason.get(game.season.id)
+		return captainedTeamId === game.home.id || captainedTeamId === game.away.id
+			? captainedTeamId
+			: undefined
+	}
+
+	// Captains rate the opponent's spirit once a game is final, once per
+	// team; returns the team the user captains in the game, if any
+	const getSpiritTeamId = (game: ScheduleGame) => {
+		if (!hasAssignedTeams(game) || getGameStatus(game) !== GameStatus.FINAL) {
+			return undefined
+		}
+		const captainedTeamId = captainedTeamIdBySeason.get(game.season.id)
+		if (
+			(captainedTeamId !== game.home.id && captainedTeamId !== game.away.id) ||
+			game.spiritRatedBy?.some((teamRef) => teamRef.id === captainedTeamId)
+		) {
+			return undefined
+		}
+		return captainedTeamId
+	}
+
+	// Pre-game win probabilities, shown until the game starts
+	const getPrediction = (game: ScheduleGame) => {
+		if (!game.prediction || game.date.toDate() <= new Date()) {
+			return null
+		}
+		const home = Math.round(game.prediction.homeWinProbability * 100)
+		return {
+			label: `${home}%–${100 - home}%`,
+			title: `Win probability: ${game.homeName ?? 'Home'} ${home}%, ${game.awayName ?? 'Away'} ${100 - home}%`,
+		}
+	}
+
+	// Underdog wins, once the game is scored
+	const getUpsetTitle = (game: ScheduleGame) => {
+		if (!game.prediction?.upset) {
+			return null
+		}
+		const { homeWinProbability } = game.prediction
+		const underdogChance = Math.round(
+			Math.min(homeWinProbability, 1 - homeWinProbability) * 100
+		)
+		return `Upset: the underdog won with a ${underdogChance}% pre-game chance`
+	}
 
 	return (
 		<Card className='w-full'>
@@ -68,6 +181,12 @@ export const ScheduleCard = ({
 						const awayLoading =
 							assigned && !awayTeam && selectedSeasonTeamsQuerySnapshotLoading
 
+						const attendanceTeams = getAttendanceTeams(game)
+						const scoreTeamId = getScoreTeamId(game)
+						const spiritTeamId = getSpiritTeamId(game)
+						const prediction = getPrediction(game)
+						const upsetTitle = getUpsetTitle(game)
+
 						// on mobile, show the team name only, not the logo
 						return (
 							<div
@@ -75,7 +194,14 @@ export const ScheduleCard = ({
 								className='flex min-h-10 items-center gap-3'
 							>
 								<div className='w-16 shrink-0 text-sm'>Field {index + 1}</div>
-								<div className='grid flex-1 grid-cols-[1fr_auto_1fr] items-center gap-3'>
+								<div
+									className={cn(
+										'grid flex-1 grid-cols-[1fr_auto_1fr] items-center gap-3',
+										(getGameStatus(game) === GameStatus.POSTPONED ||
+											getGameStatus(game) === GameStatus.CANCELED) &&
+											'opacity-60'
+									)}
+								>
 									{homeTeam ? (
 										<Link
 											to={`/teams/${canonicalTeamIdFromTeamSeasonDoc(homeTeam)}/${homeTeam.id}`}
@@ -105,13 +231,49 @@ export const ScheduleCard = ({
 											<TeamIcon team={homeTeam} />
 										</div>
 									)}
-									<p className='w-14 shrink-0 select-none text-center text-sm'>
-										{game.date.toDate() > new Date()
-											? 'vs'
-											: game.homeScore === null || game.awayScore === null
-												? 'vs'
-												: `${game.homeScore} - ${game.awayScore}`}
-									</p>
+									<div className='flex w-14 shrink-0 select-none flex-col items-center text-center'>
+										<p className='text-sm'>
+											{/* Forfeits can be recorded ahead of the game */}
+											{hasCountedResult(game) &&
+											(game.date.toDate() <= new Date() ||
+												getGameStatus(game) === GameStatus.FORFEIT)
+												? `${game.homeScore} - ${game.awayScore}`
+												: 'vs'}
+										</p>
+										<GameStatusLabel game={game} />
+										{prediction && (
+											<p
+												className='text-muted-foreground text-[10px] tabular-nums'
+												title={prediction.title}
+												aria-label={prediction.title}
+											>
+												{prediction.label}
+											</p>
+										)}
+										{(game.scoreStatus === ScoreReportStatus.PENDING ||
+											game.scoreStatus === ScoreReportStatus.DISPUTED) && (
+											<p
+												className={
+													game.scoreStatus === ScoreReportStatus.DISPUTED
+														? 'text-destructive text-[10px] font-semibold uppercase'
+														: 'text-muted-foreground text-[10px] uppercase'
+												}
+											>
+												{game.scoreStatus === ScoreReportStatus.DISPUTED
+													? 'Disputed'
+													: 'Unconfirmed'}
+											</p>
+										)}
+										{upsetTitle && (
+											<p
+												className='text-[10px] font-semibold uppercase text-amber-600 dark:text-amber-400'
+												title={upsetTitle}
+												aria-label={upsetTitle}
+											>
+												Upset
+											</p>
+										)}
+									</div>
 									{awayTeam ? (
 										<Link
 											to={`/teams/${canonicalTeamIdFromTeamSeasonDoc(awayTeam)}/${awayTeam.id}`}
@@ -142,10 +304,83 @@ export const ScheduleCard = ({
 										</div>
 									)}
 								</div>
+								{scoreTeamId && (
+									<Button
+										variant='ghost'
+										size='icon'
+										className='h-8 w-8 shrink-0'
+										aria-label='Report score'
+										title='Report score'
+										onClick={() =>
+											setScoreReport({ game, teamId: scoreTeamId })
+										}
+									>
+										<ClipboardPen className='h-4 w-4' />
+									</Button>
+								)}
+								{spiritTeamId && (
+									<Button
+										variant='ghost'
+										size='icon'
+										className='h-8 w-8 shrink-0'
+										aria-label='Rate opponent spirit'
+										title='Rate opponent spirit'
+										onClick={() =>
+											setSpiritRating({ game, teamId: spiritTeamId })
+										}
+									>
+										<HeartHandshake className='h-4 w-4' />
+									</Button>
+								)}
+								{attendanceTeams.length > 0 && (
+									<Button
+										variant='ghost'
+										size='icon'
+										className='h-8 w-8 shrink-0'
+										aria-label='Record attendance'
+										title='Record attendance'
+										onClick={() => setAttendanceGame(game)}
+									>
+										<ClipboardCheck className='h-4 w-4' />
+									</Button>
+								)}
 							</div>
 						)
 					})}
 			</CardContent>
+			{attendanceGame && (
+				<GameAttendanceDialog
+					key={attendanceGame.id}
+					open={!!attendanceGame}
+					onOpenChange={(open) => {
+						if (!open) setAttendanceGame(undefined)
+					}}
+					game={attendanceGame}
+					teams={getAttendanceTeams(attendanceGame)}
+				/>
+			)}
+			{scoreReport && (
+				<GameScoreDialog
+					key={scoreReport.game.id}
+					open={!!scoreReport}
+					onOpenChange={(open) => {
+						if (!open) setScoreReport(undefined)
+					}}
+					game={scoreReport.game}
+					teamId={scoreReport.teamId}
+				/>
+			)}
+			{spiritRating && (
+				<SpiritRatingDialog
+					key={spiritRating.game.id}
+					open={!!spiritRating}
+					onOpenChange={(open) => {
+						if (!open) setSpiritRating(undefined)
+					}}
+					game={spiritRating.game}
+					teamId={spiritRating.teamId}
+				/>
+			)}
 		</Card>
 	)
 }
@@ -3,7 +3,12 @@ import { ScheduleGrid } from './schedule-grid'
 import { ScheduleLoadingState } from './schedule-loading-state'
 import { ScheduleEmptyState } from './schedule-empty-state'
 import { Calendar } from 'lucide-react'
-import { PageContainer, PageHeader } from '@/shared/components'
+import {
+	CalendarSubscribeButton,
+	PageContainer,
+	PageHeader,
+} from '@/shared/components'
+import { useSeasonsContext } from '@/providers'
 
 /**
  * Schedule Component
@@ -13,6 +18,7 @@ import { PageContainer, PageHeader } from '@/shared/components'
  */
 export const Schedule = () => {
 	const { isLoading, hasGames } = useScheduleData()
+	const { selectedSeasonQueryDocumentSnapshot } = useSeasonsContext()
 
 	return (
 		<PageContainer withSpacing withGap>
@@ -23,6 +29,14 @@ export const Schedule = () => {
 				showSeasonIndicator
 			/>
 
+			{selectedSeasonQueryDocumentSnapshot && (
+				<div className='flex justify-center'>
+					<CalendarSubscribeButton
+						seasonId={selectedSeasonQueryDocumentSnapshot.id}
+					/>
+				</div>
+			)}
+
 			{isLoading ? (
 				<ScheduleLoadingState />
 			) : !hasGames ? (
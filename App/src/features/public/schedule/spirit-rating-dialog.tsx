@@ -0,0 +1,168 @@
+import { useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import { submitSpiritRatingViaFunction } from '@/firebase/collections/functions'
+import { type ScheduleGame } from '@/shared/hooks'
+import {
+	logger,
+	SPIRIT_CATEGORY_DESCRIPTIONS,
+	SPIRIT_CATEGORY_LABELS,
+	SPIRIT_COMMENT_MAX_LENGTH,
+	SPIRIT_MAX_SCORE,
+	SPIRIT_MIN_SCORE,
+} from '@/shared/utils'
+import { SpiritCategory } from '@/types'
+
+const SCORE_OPTIONS = Array.from(
+	{ length: SPIRIT_MAX_SCORE - SPIRIT_MIN_SCORE + 1 },
+	(_, index) => String(SPIRIT_MIN_SCORE + index)
+)
+
+interface SpiritRatingDialogProps {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	game: ScheduleGame
+	/** Team the current user captains in this game */
+	teamId: string
+}
+
+/**
+ * SpiritRatingDialog Component
+ *
+ * Lets a captain rate the opposing team's spirit after a final game. The
+ * rating can't be changed once submitted, and the opponent only sees it
+ * after rating the game too.
+ */
+export const SpiritRatingDialog = ({
+	open,
+	onOpenChange,
+	game,
+	teamId,
+}: SpiritRatingDialogProps) => {
+	const [scores, setScores] = useState<Partial<Record<SpiritCategory, number>>>(
+		{}
+	)
+	const [comment, setComment] = useState('')
+	const [isSaving, setIsSaving] = useState(false)
+
+	const opponentName =
+		(teamId === game.home?.id ? game.awayName : game.homeName) ??
+		'your opponent'
+	const categories = Object.values(SpiritCategory)
+	const isValid = categories.every((category) => scores[category] !== undefined)
+
+	const handleSubmit = async () => {
+		if (!isValid) return
+		setIsSaving(true)
+		try {
+			const result = await submitSpiritRatingViaFunction({
+				gameId: game.id,
+				scores: scores as Record<SpiritCategory, number>,
+				comment: comment.trim() || null,
+			})
+			toast.success('Spirit rating submitted', {
+				description: result.message,
+			})
+			onOpenChange(false)
+		} catch (error) {
+			logger.error('Failed to submit spirit rating:', {
+				component: 'SpiritRatingDialog',
+				gameId: game.id,
+				teamId,
+				error: error instanceof Error ? error.message : error,
+			})
+			toast.error('Failed to submit spirit rating', {
+				description:
+					error instanceof Error ? error.message : 'Please try again.',
+			})
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className='max-w-md'>
+				<DialogHeader>
+					<DialogTitle>Rate {opponentName}</DialogTitle>
+					<DialogDescription>
+						Score each category from {SPIRIT_MIN_SCORE} (poor) to{' '}
+						{SPIRIT_MAX_SCORE} (excellent). Ratings can't be changed, and stay
+						hidden until both teams have rated the game.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className='space-y-4'>
+					{categories.map((category) => (
+						<div key={category} className='space-y-2'>
+							<div>
+								<Label>{SPIRIT_CATEGORY_LABELS[category]}</Label>
+								<p className='text-muted-foreground text-xs'>
+									{SPIRIT_CATEGORY_DESCRIPTIONS[category]}
+								</p>
+							</div>
+							<ToggleGroup
+								type='single'
+								variant='outline'
+								value={
+									scores[category] !== undefined ? String(scores[category]) : ''
+								}
+								onValueChange={(value) =>
+									setScores((current) => ({
+										...current,
+										[category]: value ? Number(value) : undefined,
+									}))
+								}
+								aria-label={SPIRIT_CATEGORY_LABELS[category]}
+							>
+								{SCORE_OPTIONS.map((score) => (
+									<ToggleGroupItem key={score} value={score} className='w-10'>
+										{score}
+									</ToggleGroupItem>
+								))}
+							</ToggleGroup>
+						</div>
+					))}
+
+					<div className='space-y-2'>
+						<Label htmlFor='spirit-comment'>Comment (optional)</Label>
+						<Textarea
+							id='spirit-comment'
+							value={comment}
+							maxLength={SPIRIT_COMMENT_MAX_LENGTH}
+							placeholder='Anything the league should know about this game'
+							onChange={(e) => setComment(e.target.value)}
+						/>
+					</div>
+				</div>
+
+				<DialogFooter>
+					<Button
+						variant='outline'
+						onClick={() => onOpenChange(false)}
+						disabled={isSaving}
+					>
+						Cancel
+					</Button>
+					<Button onClick={handleSubmit} disabled={isSaving || !isValid}>
+						{isSaving && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+						Submit rating
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
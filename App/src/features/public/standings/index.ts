@@ -1 +1,2 @@
 export { Standings } from './standings'
+export { SpiritLeaderboard } from './spirit-leaderboard'
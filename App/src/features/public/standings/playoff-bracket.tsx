@@ -0,0 +1,203 @@
+/**
+ * Playoff bracket component
+ *
+ * Shows each generated playoff bracket as columns of rounds, from the first
+ * round to the final. Later-round games start as "TBD" and fill in as the
+ * winners of earlier games advance.
+ */
+
+import { useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { QuerySnapshot } from '@/firebase'
+import {
+	cn,
+	GameBracketSlot,
+	GameDocument,
+	PlayoffBracket,
+} from '@/shared/utils'
+import { Badge } from '@/components/ui/badge'
+
+interface BracketGame {
+	id: string
+	game: GameDocument
+	bracket: GameBracketSlot
+}
+
+const BRACKET_TITLES: Record<PlayoffBracket, string> = {
+	[PlayoffBracket.CHAMPIONSHIP]: 'Championship',
+	[PlayoffBracket.CONSOLATION]: 'Consolation',
+}
+
+/**
+ * Display name for a round, counted back from the final
+ */
+const getRoundName = (round: number, rounds: number): string => {
+	switch (rounds - round) {
+		case 0:
+			return 'Final'
+		case 1:
+			return 'Semifinals'
+		case 2:
+			return 'Quarterfinals'
+		default:
+			return `Round ${round}`
+	}
+}
+
+export const PlayoffBracketView = ({
+	gamesQuerySnapshot,
+}: {
+	gamesQuerySnapshot: QuerySnapshot<GameDocument> | undefined
+}) => {
+	// Group bracket games by bracket, then by round
+	const brackets = useMemo(() => {
+		const grouped = new Map<PlayoffBracket, Map<number, BracketGame[]>>()
+		gamesQuerySnapshot?.docs.forEach((gameQueryDocumentSnapshot) => {
+			const game = gameQueryDocumentSnapshot.data()
+			if (!game.bracket) return
+
+			const rounds = grouped.get(game.bracket.bracket) ?? new Map()
+			const games = rounds.get(game.bracket.round) ?? []
+			games.push({
+				id: gameQueryDocumentSnapshot.id,
+				game,
+				bracket: game.bracket,
+			})
+			rounds.set(game.bracket.round, games)
+			grouped.set(game.bracket.bracket, rounds)
+		})
+
+		return Object.values(PlayoffBracket)
+			.filter((bracket) => grouped.has(bracket))
+			.map((bracket) => {
+				const rounds = grouped.get(bracket) ?? new Map()
+				return {
+					bracket,
+					rounds: [...rounds.entries()]
+						.sort(([a], [b]) => a - b)
+						.map(([round, games]: [number, BracketGame[]]) => ({
+							round,
+							name: getRoundName(round, games[0].bracket.rounds),
+							games: [...games].sort(
+								(a, b) => a.bracket.matchup - b.bracket.matchup
+							),
+						})),
+				}
+			})
+	}, [gamesQuerySnapshot])
+
+	if (brackets.length === 0) {
+		return null
+	}
+
+	return (
+		<div className='space-y-6'>
+			{brackets.map(({ bracket, rounds }) => (
+				<div key={bracket} className='space-y-3'>
+					{brackets.length > 1 && (
+						<h3 className='text-sm font-semibold text-muted-foreground'>
+							{BRACKET_TITLES[bracket]} Bracket
+						</h3>
+					)}
+					<div
+						className='flex gap-6 overflow-x-auto pb-2'
+						aria-label={`${BRACKET_TITLES[bracket]} playoff bracket`}
+					>
+						{rounds.map(({ round, name, games }) => (
+							<div
+								key={round}
+								className='flex min-w-52 flex-col justify-around gap-4'
+							>
+								<h4 className='text-center text-xs font-medium uppercase tracking-wide text-muted-foreground'>
+									{name}
+								</h4>
+								{games.map((bracketGame) => (
+									<BracketMatchup key={bracketGame.id} {...bracketGame} />
+								))}
+							</div>
+						))}
+					</div>
+				</div>
+			))}
+		</div>
+	)
+}
+
+/**
+ * A single bracket game: both teams with their seeds and scores
+ */
+const BracketMatchup = ({ game, bracket }: BracketGame) => {
+	const { homeScore, awayScore } = game
+	const decided =
+		homeScore !== null && awayScore !== null && homeScore !== awayScore
+	const date = game.date.toDate()
+
+	const sides = [
+		{
+			team: game.home,
+			name: game.homeName,
+			seed: bracket.homeSeed,
+			score: homeScore,
+			won: decided && homeScore > awayScore,
+		},
+		{
+			team: game.away,
+			name: game.awayName,
+			seed: bracket.awaySeed,
+			score: awayScore,
+			won: decided && awayScore > homeScore,
+		},
+	]
+
+	return (
+		<div className='rounded-md border bg-card text-sm'>
+			{sides.map((side, index) => (
+				<div
+					key={index}
+					className={cn(
+						'flex items-center gap-2 px-3 py-2',
+						index === 0 && 'border-b',
+						decided && !side.won && 'text-muted-foreground'
+					)}
+				>
+					<span className='w-5 text-xs text-muted-foreground'>
+						{side.seed ?? ''}
+					</span>
+					{side.team ? (
+						<Link
+							to={`/teams/${side.team.id}/${game.season.id}`}
+							className={cn(
+								'flex-1 truncate hover:text-primary transition-colors',
+								side.won && 'font-semibold'
+							)}
+						>
+							{side.name ?? 'Unknown'}
+						</Link>
+					) : (
+						<span className='flex-1 italic text-muted-foreground'>TBD</span>
+					)}
+					<span
+						className={cn(
+							'w-6 text-right tabular-nums',
+							side.won && 'font-semibold'
+						)}
+					>
+						{side.score ?? ''}
+					</span>
+				</div>
+			))}
+			<div className='flex items-center justify-between border-t px-3 py-1 text-xs text-muted-foreground'>
+				<span>
+					{date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}{' '}
+					{date.toLocaleTimeString('en-US', {
+						hour: 'numeric',
+						minute: '2-digit',
+					})}
+				</span>
+				<Badge variant='outline' className='text-[10px]'>
+					Field {game.field}
+				</Badge>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,172 @@
+import { useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { useCollection } from 'react-firebase-hooks/firestore'
+import { ArrowLeft, HeartHandshake } from 'lucide-react'
+import {
+	ComingSoon,
+	LoadingSpinner,
+	PageContainer,
+	PageHeader,
+} from '@/shared/components'
+import { useSeasonsContext, useTeamsContext } from '@/providers'
+import { seasonSpiritRatingsQuery } from '@/firebase/collections/games'
+import { canonicalTeamIdFromTeamSeasonDoc } from '@/firebase/collections/teams'
+import {
+	SPIRIT_CATEGORY_LABELS,
+	SPIRIT_MAX_SCORE,
+	summarizeSpiritRatings,
+} from '@/shared/utils'
+import { SpiritCategory } from '@/types'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+
+/**
+ * SpiritLeaderboard Component
+ *
+ * Ranks the selected season's teams by the spirit ratings their opponents
+ * gave them. Only ratings both teams have submitted are counted.
+ */
+export const SpiritLeaderboard = () => {
+	const { selectedSeasonQueryDocumentSnapshot } = useSeasonsContext()
+	const { selectedSeasonTeamsQuerySnapshot } = useTeamsContext()
+	const [ratingsSnapshot, ratingsLoading] = useCollection(
+		seasonSpiritRatingsQuery(selectedSeasonQueryDocumentSnapshot, {
+			revealedOnly: true,
+		})
+	)
+
+	const summaries = useMemo(
+		() =>
+			summarizeSpiritRatings(
+				ratingsSnapshot?.docs.map((ratingDoc) => ratingDoc.data()) ?? []
+			),
+		[ratingsSnapshot]
+	)
+
+	const teamMap = useMemo(() => {
+		const map = new Map<string, { name: string; seasonId: string }>()
+		selectedSeasonTeamsQuerySnapshot?.docs.forEach((teamSeasonDoc) => {
+			map.set(canonicalTeamIdFromTeamSeasonDoc(teamSeasonDoc), {
+				name: teamSeasonDoc.data().name,
+				seasonId: teamSeasonDoc.id,
+			})
+		})
+		return map
+	}, [selectedSeasonTeamsQuerySnapshot])
+
+	const categories = Object.values(SpiritCategory)
+
+	return (
+		<PageContainer withSpacing withGap>
+			<PageHeader
+				title='Spirit'
+				description='Sportsmanship ratings teams give their opponents after each game'
+				icon={HeartHandshake}
+				showSeasonIndicator
+			/>
+
+			<div>
+				<Button asChild variant='ghost' size='sm'>
+					<Link to='/standings'>
+						<ArrowLeft className='mr-2 h-4 w-4' />
+						Standings
+					</Link>
+				</Button>
+			</div>
+
+			{ratingsLoading ? (
+				<div className='flex items-center justify-center min-h-[400px]'>
+					<LoadingSpinner size='lg' />
+				</div>
+			) : summaries.length === 0 ? (
+				<ComingSoon>
+					<p>
+						No spirit ratings yet for the season. Ratings appear once both teams
+						in a game have rated each other.
+					</p>
+				</ComingSoon>
+			) : (
+				<Card>
+					<CardHeader>
+						<CardTitle className='flex items-center gap-2'>
+							<HeartHandshake className='h-5 w-5' />
+							Spirit Leaderboard
+						</CardTitle>
+					</CardHeader>
+					<CardContent>
+						<div className='w-full overflow-x-auto'>
+							<Table aria-label='Teams ranked by average spirit rating'>
+								<TableHeader>
+									<TableRow>
+										<TableHead className='w-16 text-center'>Rank</TableHead>
+										<TableHead className='min-w-48'>Team</TableHead>
+										<TableHead className='text-center'>Average</TableHead>
+										{categories.map((category) => (
+											<TableHead
+												key={category}
+												className='hidden text-center md:table-cell'
+											>
+												{SPIRIT_CATEGORY_LABELS[category]}
+											</TableHead>
+										))}
+										<TableHead className='text-center'>Ratings</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{summaries.map((summary, index) => {
+										const team = teamMap.get(summary.teamId)
+										return (
+											<TableRow key={summary.teamId}>
+												<TableCell className='text-center font-medium'>
+													{index + 1}
+												</TableCell>
+												<TableCell className='font-medium'>
+													{team ? (
+														<Link
+															to={`/teams/${summary.teamId}/${team.seasonId}`}
+															className='hover:underline'
+														>
+															{team.name}
+														</Link>
+													) : (
+														'Unknown team'
+													)}
+												</TableCell>
+												<TableCell className='text-center font-semibold tabular-nums'>
+													{summary.average.toFixed(2)}
+													<span className='text-muted-foreground text-xs font-normal'>
+														{' '}
+														/ {SPIRIT_MAX_SCORE}
+													</span>
+												</TableCell>
+												{categories.map((category) => (
+													<TableCell
+														key={category}
+														className='hidden text-center tabular-nums md:table-cell'
+													>
+														{summary.categoryAverages[category].toFixed(1)}
+													</TableCell>
+												))}
+												<TableCell className='text-center tabular-nums'>
+													{summary.count}
+												</TableCell>
+											</TableRow>
+										)
+									})}
+								</TableBody>
+							</Table>
+						</div>
+					</CardContent>
+				</Card>
+			)}
+		</PageContainer>
+	)
+}
@@ -1,4 +1,5 @@
-import { Trophy } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { HeartHandshake, Trophy } from 'lucide-react'
 import {
 	ComingSoon,
 	LoadingSpinner,
@@ -14,9 +15,11 @@ import { useStandings, useSwissStandings } from '@/shared/hooks'
 import { StandingsTable } from './standings-table'
 import { SwissStandingsTable } from './swiss-standings-table'
 import { ResultsTable } from './results-table'
+import { PlayoffBracketView } from './playoff-bracket'
 import { formatTimestamp, SeasonFormat } from '@/shared/utils'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 
 export const Standings = () => {
 	const { selectedSeasonTeamsQuerySnapshot } = useTeamsContext()
@@ -32,6 +35,10 @@ export const Standings = () => {
 	const traditionalStandings = useStandings(regularSeasonGamesQuerySnapshot)
 	const swissStandings = useSwissStandings(regularSeasonGamesQuerySnapshot)
 	const results = useStandings(playoffGamesQuerySnapshot)
+	const hasBracket = !!playoffGamesQuerySnapshot?.docs.some(
+		(gameQueryDocumentSnapshot) => gameQueryDocumentSnapshot.data().bracket
+	)
+	const hasPlayoffs = hasBracket || Object.keys(results).length > 0
 
 	// Choose which standings to display
 	const hasStandings = isSwissFormat
@@ -47,11 +54,20 @@ export const Standings = () => {
 				showSeasonIndicator
 			/>
 
+			<div>
+				<Button asChild variant='outline' size='sm'>
+					<Link to='/standings/spirit'>
+						<HeartHandshake className='mr-2 h-4 w-4' />
+						Spirit Leaderboard
+					</Link>
+				</Button>
+			</div>
+
 			{!regularSeasonGamesQuerySnapshot ? (
 				<div className='flex items-center justify-center min-h-[400px]'>
 					<LoadingSpinner size='lg' />
 				</div>
-			) : !hasStandings && Object.keys(results).length === 0 ? (
+			) : !hasStandings && !hasPlayoffs ? (
 				<ComingSoon>
 					<p>
 						{`No standings yet exists for the season. Check back after games start on ${formatTimestamp(selectedSeasonQueryDocumentSnapshot?.data()?.dateStart)}.`}
@@ -90,7 +106,7 @@ export const Standings = () => {
 					)}
 
 					{/* Playoff Section */}
-					{Object.keys(results).length > 0 && (
+					{hasPlayoffs && (
 						<Card>
 							<CardHeader>
 								<CardTitle className='flex items-center gap-2'>
@@ -98,11 +114,18 @@ export const Standings = () => {
 									Weeks 6-7 (Playoffs)
 								</CardTitle>
 							</CardHeader>
-							<CardContent>
-								<ResultsTable
-									results={results}
-									teamsQuerySnapshot={selectedSeasonTeamsQuerySnapshot}
-								/>
+							<CardContent className='space-y-6'>
+								{hasBracket && (
+									<PlayoffBracketView
+										gamesQuerySnapshot={playoffGamesQuerySnapshot}
+									/>
+								)}
+								{Object.keys(results).length > 0 && (
+									<ResultsTable
+										results={results}
+										teamsQuerySnapshot={selectedSeasonTeamsQuerySnapshot}
+									/>
+								)}
 							</CardContent>
 						</Card>
 					)}
@@ -3,6 +3,7 @@ import { cn, formatTimestampWithTime } from '@/shared/utils'
 import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
 import { Timestamp } from '@firebase/firestore'
+import { DEFAULT_SEASON_RULES } from '@/types'
 
 // Types for better TypeScript support
 interface TeamCardProps {
@@ -20,9 +21,11 @@ interface TeamCardProps {
 		logo?: string | null
 		registered: boolean
 		registeredDate?: Timestamp
+		waitlistPosition?: number | null // Set while the team is waitlisted
 		rosterCount?: number // Number of players on roster
 	}
 	placement?: number // Placement number for registered teams
+	minPlayersRequired?: number // Players needed to register (season rule)
 }
 
 // Helper function to get ordinal suffix
@@ -47,11 +50,18 @@ export const TeamCard = ({
 	seasonId,
 	teamData,
 	placement,
+	minPlayersRequired = DEFAULT_SEASON_RULES.minPlayersForRegistration,
 }: TeamCardProps) => {
-	const { name, logo, registered, registeredDate, rosterCount = 0 } = teamData
-	const MIN_PLAYERS_REQUIRED = 10
+	const {
+		name,
+		logo,
+		registered,
+		registeredDate,
+		waitlistPosition,
+		rosterCount = 0,
+	} = teamData
 	const progressPercentage = Math.min(
-		(rosterCount / MIN_PLAYERS_REQUIRED) * 100,
+		(rosterCount / minPlayersRequired) * 100,
 		100
 	)
 	const linkTo = seasonId ? `/teams/${teamId}/${seasonId}` : `/teams/${teamId}`
@@ -103,10 +113,14 @@ export const TeamCard = ({
 
 				<CardFooter className='pt-0 pb-4'>
 					<div className='mx-auto text-center w-full px-2'>
-						{!registered ? (
+						{!registered && waitlistPosition ? (
+							<div className='text-sm text-amber-600 dark:text-amber-500'>
+								Waitlisted - {getOrdinalSuffix(waitlistPosition)}
+							</div>
+						) : !registered ? (
 							<div className='flex flex-col gap-2'>
 								<span className='text-sm text-muted-foreground'>
-									{rosterCount}/{MIN_PLAYERS_REQUIRED} players
+									{rosterCount}/{minPlayersRequired} players
 								</span>
 								<Progress value={progressPercentage} className='h-2' />
 							</div>
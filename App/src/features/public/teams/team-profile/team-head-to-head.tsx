@@ -0,0 +1,80 @@
+import { Link } from 'react-router-dom'
+
+import { NotificationCard } from '@/shared/components'
+import { TeamHistoryDocument } from '@/types'
+
+/**
+ * TeamHeadToHead Component
+ *
+ * The team's all-time record against every opponent it has played, from
+ * the precomputed team history. Most-played opponents come first.
+ */
+export const TeamHeadToHead = ({
+	teamHistory,
+}: {
+	teamHistory: TeamHistoryDocument | undefined
+}) => {
+	const rivalries = teamHistory?.headToHead ?? []
+
+	return (
+		<NotificationCard
+			title={'Head-to-Head'}
+			description={'All-time record against each opponent'}
+			className={'flex-1 basis-[360px] shrink-0 min-w-[360px]'}
+		>
+			{rivalries.length > 0 ? (
+				<div role='list' aria-label='Head-to-head records' className='-mx-4'>
+					{rivalries.map((rivalry) => {
+						const differential = rivalry.pointsFor - rivalry.pointsAgainst
+						const record =
+							rivalry.ties > 0
+								? `${rivalry.wins}-${rivalry.losses}-${rivalry.ties}`
+								: `${rivalry.wins}-${rivalry.losses}`
+						return (
+							<Link
+								key={rivalry.opponent.id}
+								to={`/teams/${rivalry.opponent.id}`}
+								className='flex items-center gap-4 px-4 py-3 border-b last:border-b-0 transition-colors hover:bg-muted/50 focus:outline-none focus-visible:bg-muted/50 focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary'
+								role='listitem'
+								aria-label={`${record} against ${rivalry.opponentName}`}
+							>
+								<div className='flex-1 min-w-0'>
+									<span className='block font-medium text-foreground truncate'>
+										{rivalry.opponentName}
+									</span>
+									<span className='text-sm text-muted-foreground'>
+										Last played{' '}
+										{rivalry.lastPlayed.toDate().toLocaleDateString('en-US', {
+											month: 'short',
+											day: 'numeric',
+											year: 'numeric',
+										})}
+										{rivalry.playoffGames > 0 &&
+											` · ${rivalry.playoffGames} playoff game${rivalry.playoffGames === 1 ? '' : 's'}`}
+									</span>
+								</div>
+
+								<div className='flex-shrink-0 text-center'>
+									<div className='text-sm font-medium'>{record}</div>
+									<div className='text-xs text-muted-foreground'>Record</div>
+								</div>
+
+								<div className='flex-shrink-0 text-right min-w-[48px]'>
+									<div className='text-sm font-medium'>
+										{differential > 0 ? '+' : ''}
+										{differential}
+									</div>
+									<div className='text-xs text-muted-foreground'>+/-</div>
+								</div>
+							</Link>
+						)
+					})}
+				</div>
+			) : (
+				<p className='text-sm text-muted-foreground text-center py-4'>
+					No games against other teams yet.
+				</p>
+			)}
+		</NotificationCard>
+	)
+}
@@ -2,14 +2,11 @@ import { useMemo } from 'react'
 import { Link } from 'react-router-dom'
 
 import { NotificationCard } from '@/shared/components'
-import { DocumentSnapshot, QuerySnapshot } from '@/firebase'
+import { QuerySnapshot } from '@/firebase'
 import { canonicalTeamIdFromTeamSeasonDoc } from '@/firebase/collections/teams'
 import { useSeasonsContext } from '@/providers'
-import {
-	GameDocument,
-	TeamSeasonDocument,
-	hasAssignedTeams,
-} from '@/shared/utils'
+import { TeamSeasonDocument } from '@/shared/utils'
+import { TeamHistoryDocument, TeamRecord } from '@/types'
 
 // Format placement with ordinal suffix and medal emoji for top 3
 const formatPlacement = (placement: number | null) => {
@@ -36,64 +33,35 @@ interface ProcessedHistoryEntry {
 	teamLogo: string | null
 	wins: number
 	losses: number
+	madePlayoffs: boolean
 	placement: number | null
 }
 
+const formatRecord = ({ wins, losses, ties }: TeamRecord) =>
+	ties > 0 ? `${wins}-${losses}-${ties}` : `${wins}-${losses}`
+
 export const TeamHistory = ({
-	teamDocumentSnapshot,
 	historyQuerySnapshot,
-	gamesQuerySnapshot,
+	teamHistory,
 }: {
-	teamDocumentSnapshot:
-		| DocumentSnapshot<import('@/shared/utils').TeamDocument>
-		| undefined
 	historyQuerySnapshot: QuerySnapshot<TeamSeasonDocument>
 	/**
-	 * Games for THIS team only — `gamesByTeamQuery(teamRef)` from the
-	 * parent team-profile component. Replaces the previous reliance on
-	 * the unbounded `useGamesContext().allGamesQuerySnapshot`, which
-	 * pulled every game ever played just to compute one team's history.
+	 * The team's precomputed history (`teamHistory/{teamId}`), which holds
+	 * each season's record so this card doesn't load the team's games.
+	 * Undefined until the first rebuild.
 	 */
-	gamesQuerySnapshot: QuerySnapshot<GameDocument> | undefined
+	teamHistory: TeamHistoryDocument | undefined
 }) => {
 	const { seasonsQuerySnapshot } = useSeasonsContext()
 
-	// The canonical team id — every game in `gamesQuerySnapshot` has
-	// this team on one side or the other. We get it from the parent
-	// canonical team document.
-	const canonicalTeamId = teamDocumentSnapshot?.id
-
-	// Calculate this team's records per season from the team-scoped
-	// games snapshot. Each game involves THIS team on one side; we
-	// figure out which side and credit the right column.
-	const teamRecords = useMemo(() => {
-		const records: Record<string, { wins: number; losses: number }> = {}
-
-		if (!gamesQuerySnapshot?.docs || !canonicalTeamId) return records
-
-		gamesQuerySnapshot.docs.forEach((gameDoc) => {
-			const gameData = gameDoc.data()
-			if (!hasAssignedTeams(gameData)) return
-
-			const { homeScore, awayScore, season, home, away } = gameData
-			if (homeScore === null || awayScore === null) return
-			if (!season?.id) return
-
-			const isHome = home?.id === canonicalTeamId
-			const isAway = away?.id === canonicalTeamId
-			if (!isHome && !isAway) return
-
-			const ourScore = isHome ? homeScore : awayScore
-			const theirScore = isHome ? awayScore : homeScore
-
-			if (!records[season.id]) records[season.id] = { wins: 0, losses: 0 }
-			if (ourScore > theirScore) records[season.id].wins++
-			else if (theirScore > ourScore) records[season.id].losses++
-			// Ties (rare in ultimate but not impossible): no win/loss credit
-		})
-
-		return records
-	}, [gamesQuerySnapshot, canonicalTeamId])
+	// Season records keyed by season ID
+	const teamRecords = useMemo(
+		() =>
+			new Map(
+				teamHistory?.seasons.map((season) => [season.season.id, season]) ?? []
+			),
+		[teamHistory]
+	)
 
 	// Process history entries with season data and records
 	const processedHistory = useMemo((): ProcessedHistoryEntry[] => {
@@ -107,10 +75,8 @@ export const TeamHistory = ({
 				)
 				const canonicalTeamIdForRow =
 					canonicalTeamIdFromTeamSeasonDoc(historyDoc)
-				// Look up the record by seasonId — the games loop above
-				// already restricted itself to this team's games, so the
-				// records map is keyed only by season.
-				const record = teamRecords[data.season.id]
+				// Regular season and playoff games together
+				const record = teamRecords.get(data.season.id)
 
 				return {
 					id: canonicalTeamIdForRow,
@@ -118,8 +84,12 @@ export const TeamHistory = ({
 					seasonName: seasonDoc?.data()?.name || 'Unknown Season',
 					teamName: data.name,
 					teamLogo: data.logo || null,
-					wins: record?.wins || 0,
-					losses: record?.losses || 0,
+					wins:
+						(record?.regularSeason.wins ?? 0) + (record?.playoffs.wins ?? 0),
+					losses:
+						(record?.regularSeason.losses ?? 0) +
+						(record?.playoffs.losses ?? 0),
+					madePlayoffs: record?.madePlayoffs ?? false,
 					placement: data.placement ?? null,
 				}
 			})
@@ -131,6 +101,34 @@ export const TeamHistory = ({
 			title={'History'}
 			description={processedHistory[0]?.teamName ?? 'Past seasons'}
 			className={'flex-1 basis-full shrink-0 max-w-full min-w-[360px]'}
+			footerContent={
+				teamHistory && (
+					<div className='flex flex-wrap gap-x-6 gap-y-1 text-sm'>
+						<span>
+							<span className='text-muted-foreground'>All-time: </span>
+							<span className='font-medium'>
+								{formatRecord(teamHistory.allTime)}
+							</span>
+						</span>
+						<span>
+							<span className='text-muted-foreground'>Playoffs: </span>
+							<span className='font-medium'>
+								{teamHistory.playoffAppearances} appearance
+								{teamHistory.playoffAppearances === 1 ? '' : 's'} (
+								{formatRecord(teamHistory.playoffs)})
+							</span>
+						</span>
+						<span>
+							<span className='text-muted-foreground'>Best finish: </span>
+							<span className='font-medium'>
+								{teamHistory.bestPlacement === null
+									? '—'
+									: formatPlacement(teamHistory.bestPlacement)}
+							</span>
+						</span>
+					</div>
+				)
+			}
 		>
 			{processedHistory.length > 0 ? (
 				<div role='list' aria-label='Team history' className='-mx-4'>
@@ -168,6 +166,7 @@ export const TeamHistory = ({
 								</div>
 								<span className='text-sm text-muted-foreground'>
 									{entry.seasonName}
+									{entry.madePlayoffs && ' · Playoffs'}
 								</span>
 							</div>
 
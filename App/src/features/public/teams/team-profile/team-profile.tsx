@@ -5,12 +5,13 @@ import { Timestamp } from '@firebase/firestore'
 import { CheckCircledIcon } from '@radix-ui/react-icons'
 import { Award, Lock, Loader2, Calendar, Trophy } from 'lucide-react'
 import { toast } from 'sonner'
-import { NotificationCard } from '@/shared/components'
+import { CalendarSubscribeButton, NotificationCard } from '@/shared/components'
 import {
 	gamesByTeamQuery,
 	teamSeasonsQuery,
 	getTeamRef,
 	teamSeasonRef,
+	teamHistoryRef,
 	teamRosterSubcollection,
 	teamsInSeasonQuery,
 	DocumentSnapshot,
@@ -29,6 +30,7 @@ import {
 import { BadgeDocument, TeamBadgeDocument, TeamRosterDocument } from '@/types'
 import { TeamRosterPlayer } from './team-roster-player'
 import { TeamHistory } from './team-history'
+import { TeamHeadToHead } from './team-head-to-head'
 import {
 	useSeasonsContext,
 	useBadgesContext,
@@ -130,6 +132,11 @@ export const TeamProfile = () => {
 	const [historyQuerySnapshot, historyQuerySnapshotLoading, historyError] =
 		useCollection(teamSeasonsQuery(id))
 
+	// Precomputed all-time, per-season and head-to-head records
+	const [teamHistorySnapshot, , teamHistoryError] = useDocument(
+		teamHistoryRef(id)
+	)
+
 	// Used for opponent-name lookups in the games list.
 	const [teamsQuerySnapshot, teamsQuerySnapshotLoading, teamsError] =
 		useCollection(teamsInSeasonQuery(displayedSeasonRef))
@@ -175,6 +182,18 @@ export const TeamProfile = () => {
 		}
 	}, [historyError])
 
+	useEffect(() => {
+		if (teamHistoryError) {
+			logger.error('Failed to load team all-time records:', {
+				component: 'TeamProfile',
+				error: teamHistoryError.message,
+			})
+			toast.error('Failed to load team all-time records', {
+				description: teamHistoryError.message,
+			})
+		}
+	}, [teamHistoryError])
+
 	useEffect(() => {
 		if (teamsError) {
 			logger.error('Failed to load season teams:', {
@@ -451,6 +470,15 @@ export const TeamProfile = () => {
 								</div>
 							)}
 						</div>
+
+						{id && displayedSeasonId && teamSeasonData && (
+							<CalendarSubscribeButton
+								seasonId={displayedSeasonId}
+								teamId={id}
+								label='Subscribe to Games'
+								className='mt-3'
+							/>
+						)}
 					</div>
 				</div>
 			</header>
@@ -764,11 +792,11 @@ export const TeamProfile = () => {
 							</div>
 						)}
 					</NotificationCard>
+					<TeamHeadToHead teamHistory={teamHistorySnapshot?.data()} />
 					{historyQuerySnapshot && (
 						<TeamHistory
-							teamDocumentSnapshot={teamDocumentSnapshot}
 							historyQuerySnapshot={historyQuerySnapshot}
-							gamesQuerySnapshot={gamesQuerySnapshot}
+							teamHistory={teamHistorySnapshot?.data()}
 						/>
 					)}
 				</div>
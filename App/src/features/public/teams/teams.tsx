@@ -5,7 +5,7 @@ import { canonicalTeamIdFromTeamSeasonDoc } from '@/firebase/collections/teams'
 import { Timestamp } from '@firebase/firestore'
 import { PLAYER_SEASONS_SUBCOLLECTION, PlayerSeasonDocument } from '@/types'
 import { Users } from 'lucide-react'
-import { formatTimestamp } from '@/shared/utils'
+import { formatTimestamp, getSeasonRules } from '@/shared/utils'
 import { useTeamsContext, useSeasonsContext } from '@/providers'
 import {
 	ComingSoon,
@@ -25,6 +25,9 @@ enum SeasonStatus {
 export const Teams = () => {
 	const { selectedSeasonTeamsQuerySnapshot } = useTeamsContext()
 	const { selectedSeasonQueryDocumentSnapshot } = useSeasonsContext()
+	const { minPlayersForRegistration: minPlayersRequired } = getSeasonRules(
+		selectedSeasonQueryDocumentSnapshot?.data()
+	)
 
 	const seasonStatus = useMemo((): SeasonStatus => {
 		if (!selectedSeasonQueryDocumentSnapshot) {
@@ -181,9 +184,13 @@ export const Teams = () => {
 										logo: team.data.logo,
 										registered: team.data.registered,
 										registeredDate: team.data.registeredDate ?? undefined,
+										waitlistPosition: team.data.waitlisted
+											? team.data.waitlistPosition
+											: null,
 										rosterCount: registeredCount,
 									}}
 									placement={team.placement}
+									minPlayersRequired={minPlayersRequired}
 								/>
 							)
 						})}
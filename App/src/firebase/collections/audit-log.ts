@@ -0,0 +1,71 @@
+/**
+ * Admin audit log Firestore operations
+ */
+
+import {
+	collection,
+	doc,
+	limit,
+	orderBy,
+	query,
+	Timestamp,
+	where,
+	type Query,
+	type QueryConstraint,
+} from 'firebase/firestore'
+
+import { firestore } from '../app'
+import { AuditLogDocument, Collections } from '@/types'
+
+/**
+ * Filters for the audit log query. Every filter is optional.
+ */
+export interface AuditLogFilters {
+	/** Only entries by this admin's player ID */
+	actorId?: string
+	/** Only entries that touched the document at this path */
+	targetPath?: string
+	/** Only entries on or after this time */
+	from?: Date
+	/** Only entries before this time */
+	to?: Date
+	/** Maximum number of entries to return (default: 100) */
+	pageSize?: number
+}
+
+/**
+ * Creates a query for audit log entries, newest first
+ *
+ * Only admins can read the audit log.
+ */
+export const auditLogQuery = ({
+	actorId,
+	targetPath,
+	from,
+	to,
+	pageSize = 100,
+}: AuditLogFilters): Query<AuditLogDocument> => {
+	const constraints: QueryConstraint[] = []
+
+	if (actorId) {
+		constraints.push(
+			where('actor', '==', doc(firestore, Collections.PLAYERS, actorId))
+		)
+	}
+	if (targetPath) {
+		constraints.push(where('targetPaths', 'array-contains', targetPath))
+	}
+	if (from) {
+		constraints.push(where('createdAt', '>=', Timestamp.fromDate(from)))
+	}
+	if (to) {
+		constraints.push(where('createdAt', '<', Timestamp.fromDate(to)))
+	}
+
+	return query(
+		collection(firestore, Collections.AUDIT_LOG),
+		...constraints,
+		orderBy('createdAt', 'desc'),
+		limit(pageSize)
+	) as Query<AuditLogDocument>
+}
@@ -116,3 +116,23 @@ export const teamsWithBadgeQuery = (
 		where('badge', '==', badgeRef)
 	) as Query<TeamBadgeDocument>
 }
+
+/**
+ * Creates a query for the badges a team earned during one season
+ *
+ * @param teamRef - Reference to the team document
+ * @param seasonId - The season ID
+ */
+export const teamSeasonBadgesQuery = (
+	teamRef: DocumentReference<TeamDocument> | undefined,
+	seasonId: string | undefined
+): Query<TeamBadgeDocument> | undefined => {
+	if (!teamRef || !seasonId) return undefined
+	const badgesCollection = getTeamBadgesCollectionRef(teamRef)
+	if (!badgesCollection) return undefined
+
+	return query(
+		badgesCollection,
+		where('seasonId', '==', seasonId)
+	) as Query<TeamBadgeDocument>
+}
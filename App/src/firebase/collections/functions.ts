@@ -47,7 +47,7 @@ export const createPlayerViaFunction = async (
  *
  * Security features:
  * - Users can only update their own profile (unless admin)
- * - Only safe fields can be updated (firstname, lastname)
+ * - Only safe fields can be updated (firstname, lastname, emailPreferences)
  * - Email and admin status cannot be changed
  * - Server-side validation of all inputs
  */
@@ -82,6 +82,67 @@ export const deletePlayerViaFunction = async (
 	return result.data
 }
 
+interface UpdateTeammateRequestsRequest {
+	seasonId: string
+	/** Players to be placed with; an empty list clears the requests */
+	teammateIds: string[]
+}
+
+interface UpdateTeammateRequestsResponse {
+	success: true
+	message: string
+}
+
+/**
+ * Sets which players the current user, as a free agent, would like to be
+ * placed with via Firebase Function
+ *
+ * The free-agent draft keeps requested players together where it can. Only
+ * players signed up for the season without a team can make requests.
+ */
+export const updateTeammateRequestsViaFunction = async (
+	data: UpdateTeammateRequestsRequest
+): Promise<UpdateTeammateRequestsResponse> => {
+	const updateTeammateRequests = httpsCallable<
+		UpdateTeammateRequestsRequest,
+		UpdateTeammateRequestsResponse
+	>(functions, 'updateTeammateRequests')
+	const result = await updateTeammateRequests(data)
+	return result.data
+}
+
+interface UpdateFreeAgentProfileRequest {
+	seasonId: string
+	/** Whether captains can see the listing */
+	active: boolean
+	availability: FreeAgentAvailability
+	experience: ExperienceLevel
+	blurb: string
+}
+
+interface UpdateFreeAgentProfileResponse {
+	success: true
+	message: string
+}
+
+/**
+ * Creates or updates the current user's looking-for-team listing via
+ * Firebase Function
+ *
+ * Captains browse active listings when inviting players. Only players
+ * signed up for the season without a team can switch a listing on.
+ */
+export const updateFreeAgentProfileViaFunction = async (
+	data: UpdateFreeAgentProfileRequest
+): Promise<UpdateFreeAgentProfileResponse> => {
+	const updateFreeAgentProfile = httpsCallable<
+		UpdateFreeAgentProfileRequest,
+		UpdateFreeAgentProfileResponse
+	>(functions, 'updateFreeAgentProfile')
+	const result = await updateFreeAgentProfile(data)
+	return result.data
+}
+
 interface UpdatePlayerEmailRequest {
 	/** User ID whose email should be updated */
 	playerId: string
@@ -341,6 +402,138 @@ export const mergeTeamsViaFunction = async (
 	return result.data
 }
 
+//////////////////////////////////////////////////////////////////////////////
+// TEAM HISTORY (Admin)
+//////////////////////////////////////////////////////////////////////////////
+
+interface RebuildTeamHistoryRequest {
+	/** Team to rebuild; every team when omitted */
+	teamId?: string
+}
+
+interface RebuildTeamHistoryResponse {
+	success: true
+	teamsRebuilt: number
+	message: string
+}
+
+/**
+ * Rebuilds the precomputed all-time and head-to-head records via Firebase
+ * Function (Admin only). The records normally refresh on their own as games
+ * change; this backfills them or repairs a failed refresh.
+ */
+export const rebuildTeamHistoryViaFunction = async (
+	data: RebuildTeamHistoryRequest = {}
+): Promise<RebuildTeamHistoryResponse> => {
+	const rebuildTeamHistory = httpsCallable<
+		RebuildTeamHistoryRequest,
+		RebuildTeamHistoryResponse
+	>(functions, 'rebuildTeamHistory')
+	const result = await rebuildTeamHistory(data)
+	return result.data
+}
+
+//////////////////////////////////////////////////////////////////////////////
+// FREE-AGENT DRAFT (Admin)
+//////////////////////////////////////////////////////////////////////////////
+
+/**
+ * A free agent placed on a team by the draft
+ */
+export interface FreeAgentDraftAssignment {
+	playerId: string
+	teamId: string
+}
+
+/**
+ * A free agent with display details for review
+ */
+export interface FreeAgentDraftPlayer {
+	playerId: string
+	name: string
+	mu: number
+	/** Whether the player has a ranking (unranked players use the initial μ) */
+	ranked: boolean
+	paid: boolean
+	signed: boolean
+	requestedTeammateIds: string[]
+}
+
+/**
+ * Per-team effect of a proposed draft
+ */
+export interface FreeAgentDraftTeamSummary {
+	teamId: string
+	name: string
+	rosterSizeBefore: number
+	rosterSizeAfter: number
+	totalMuBefore: number
+	totalMuAfter: number
+}
+
+interface ProposeFreeAgentDraftRequest {
+	seasonId: string
+	/** Most players a team may have after the draft (defaults to the season's max roster size) */
+	maxRosterSize?: number
+}
+
+export interface ProposeFreeAgentDraftResponse {
+	success: true
+	seasonId: string
+	maxRosterSize: number
+	freeAgents: FreeAgentDraftPlayer[]
+	assignments: FreeAgentDraftAssignment[]
+	unassignedPlayerIds: string[]
+	teamSummaries: FreeAgentDraftTeamSummary[]
+	unmetRequests: { playerId: string; teammateId: string }[]
+	/** Names of every player referenced in the proposal, by player ID */
+	playerNames: Record<string, string>
+}
+
+interface ApplyFreeAgentDraftRequest {
+	seasonId: string
+	maxRosterSize?: number
+	assignments: FreeAgentDraftAssignment[]
+}
+
+interface ApplyFreeAgentDraftResponse {
+	success: true
+	seasonId: string
+	assigned: number
+	message: string
+}
+
+/**
+ * Proposes team assignments for a season's free agents that even out team
+ * strength, via Firebase Function (Admin only). Nothing is saved.
+ */
+export const proposeFreeAgentDraftViaFunction = async (
+	data: ProposeFreeAgentDraftRequest
+): Promise<ProposeFreeAgentDraftResponse> => {
+	const proposeFreeAgentDraft = httpsCallable<
+		ProposeFreeAgentDraftRequest,
+		ProposeFreeAgentDraftResponse
+	>(functions, 'proposeFreeAgentDraft')
+	const result = await proposeFreeAgentDraft(data)
+	return result.data
+}
+
+/**
+ * Adds free agents to teams from a reviewed draft via Firebase Function
+ * (Admin only). Fails without saving anything if a player has joined a team
+ * since the proposal or a team would go over the roster limit.
+ */
+export const applyFreeAgentDraftViaFunction = async (
+	data: ApplyFreeAgentDraftRequest
+): Promise<ApplyFreeAgentDraftResponse> => {
+	const applyFreeAgentDraft = httpsCallable<
+		ApplyFreeAgentDraftRequest,
+		ApplyFreeAgentDraftResponse
+	>(functions, 'applyFreeAgentDraft')
+	const result = await applyFreeAgentDraft(data)
+	return result.data
+}
+
 //////////////////////////////////////////////////////////////////////////////
 // UPDATE TEAM (Admin)
 //////////////////////////////////////////////////////////////////////////////
@@ -577,6 +770,8 @@ interface CreateOfferRequest {
 interface CreateOfferResponse {
 	offerId: string
 	success: boolean
+	/** When the offer expires if still pending (epoch milliseconds) */
+	expiresAt: number
 }
 
 /**
@@ -661,6 +856,9 @@ export const updateGameViaFunction = async (data: {
 	type?: 'regular' | 'playoff'
 	timestamp?: string
 	seasonId?: string
+	status?: GameStatus
+	forfeitedByTeamId?: string | null
+	rescheduledToGameId?: string | null
 }): Promise<{ success: true; gameId: string; message: string }> => {
 	const updateGame = httpsCallable(functions, 'updateGame')
 	const result = await updateGame(data)
@@ -681,6 +879,306 @@ export const deleteGameViaFunction = async (data: {
 	return result.data as { success: true; gameId: string; message: string }
 }
 
+/**
+ * A game proposed by the round-robin schedule generator
+ */
+export interface ProposedGame {
+	/** Game night in YYYY-MM-DD format */
+	date: string
+	/** Time slot in HH:MM format */
+	time: string
+	field: number
+	homeTeamId: string
+	awayTeamId: string
+	homeName: string
+	awayName: string
+}
+
+/**
+ * Per-team balance summary for a generated schedule
+ */
+export interface ScheduleTeamSummary {
+	teamId: string
+	name: string
+	games: number
+	homeGames: number
+	awayGames: number
+	earlyGames: number
+	lateGames: number
+	backToBackByes: number
+}
+
+interface GenerateScheduleRequest {
+	seasonId: string
+	/** Game nights in YYYY-MM-DD format (Saturdays) */
+	dates: string[]
+	/** Time slots to use in HH:MM format (defaults to all) */
+	timeSlots?: string[]
+	/** Fields to use (defaults to all) */
+	fields?: number[]
+}
+
+export interface GenerateScheduleResponse {
+	success: true
+	seasonId: string
+	games: ProposedGame[]
+	teamSummaries: ScheduleTeamSummary[]
+	/** Number of full round robins the schedule covers */
+	completeCycles: number
+	warnings: string[]
+}
+
+/**
+ * Generate a round-robin schedule preview for a traditional season (admin only)
+ *
+ * Nothing is written; save the reviewed games with createGamesBatchViaFunction.
+ */
+export const generateScheduleViaFunction = async (
+	data: GenerateScheduleRequest
+): Promise<GenerateScheduleResponse> => {
+	const generateSchedule = httpsCallable<
+		GenerateScheduleRequest,
+		GenerateScheduleResponse
+	>(functions, 'generateSchedule')
+	const result = await generateSchedule(data)
+	return result.data
+}
+
+interface CreateGamesBatchRequest {
+	seasonId: string
+	type?: 'regular' | 'playoff'
+	games: {
+		timestamp: string
+		field: number
+		homeTeamId: string
+		awayTeamId: string
+	}[]
+}
+
+interface CreateGamesBatchResponse {
+	success: true
+	gameIds: string[]
+	message: string
+}
+
+/**
+ * Create many games for a season in one transaction (admin only)
+ *
+ * Security features:
+ * - Only admins can create games
+ * - Every game is validated like createGame before anything is written
+ * - Fails without writing if any time slot and field is already taken
+ */
+export const createGamesBatchViaFunction = async (
+	data: CreateGamesBatchRequest
+): Promise<CreateGamesBatchResponse> => {
+	const createGamesBatch = httpsCallable<
+		CreateGamesBatchRequest,
+		CreateGamesBatchResponse
+	>(functions, 'createGamesBatch')
+	const result = await createGamesBatch(data)
+	return result.data
+}
+
+/**
+ * A game in a generated playoff bracket (returned from generatePlayoffBracket)
+ */
+export interface PlayoffBracketGame {
+	/** Unique key within the bracket, e.g. `championship-2-1` */
+	key: string
+	bracket: PlayoffBracket
+	/** Round number (1-based) */
+	round: number
+	/** Total rounds in the game's bracket */
+	rounds: number
+	/** Position within the round (1-based) */
+	matchup: number
+	/** ISO 8601 start time */
+	timestamp: string
+	field: number
+	/** Null until a feeder game is decided */
+	homeTeamId: string | null
+	awayTeamId: string | null
+	homeName: string | null
+	awayName: string | null
+	homeSeed: number | null
+	awaySeed: number | null
+	/** Game the winner advances to (null for a final) */
+	winnerTo: { key: string; slot: 'home' | 'away' } | null
+}
+
+/**
+ * A team's seed in a generated playoff bracket
+ */
+export interface PlayoffBracketSeed {
+	teamId: string
+	name: string
+	seed: number
+	bracket: PlayoffBracket
+	/** Whether the team skips the first round */
+	bye: boolean
+}
+
+interface GeneratePlayoffBracketRequest {
+	seasonId: string
+	format: PlayoffFormat
+	/** Where seeds come from (defaults to the season's format) */
+	seeding?: 'standings' | 'swiss'
+	/** Number of top teams that make the playoffs (defaults to all) */
+	teamCount?: number
+	/** Teams in the championship bracket for the consolation format */
+	championshipTeams?: number
+	/** ISO 8601 start times available for playoff games */
+	slotTimestamps: string[]
+	/** Fields to use in every time slot (defaults to all) */
+	fields?: number[]
+	/** Return the bracket without creating any games */
+	dryRun?: boolean
+}
+
+export interface GeneratePlayoffBracketResponse {
+	success: true
+	seasonId: string
+	created: boolean
+	gameIds: string[]
+	seeding: 'standings' | 'swiss'
+	games: PlayoffBracketGame[]
+	seeds: PlayoffBracketSeed[]
+	message: string
+}
+
+/**
+ * Seed a playoff bracket from final standings and create its games (admin only)
+ *
+ * With `dryRun` the bracket is returned without creating games. Winners
+ * advance into their next game automatically once scores are entered.
+ *
+ * Security features:
+ * - Only admins can generate brackets
+ * - A season can only have one generated bracket
+ * - Fails if any game already exists at the same time slot and field
+ */
+export const generatePlayoffBracketViaFunction = async (
+	data: GeneratePlayoffBracketRequest
+): Promise<GeneratePlayoffBracketResponse> => {
+	const generatePlayoffBracket = httpsCallable<
+		GeneratePlayoffBracketRequest,
+		GeneratePlayoffBracketResponse
+	>(functions, 'generatePlayoffBracket')
+	const result = await generatePlayoffBracket(data)
+	return result.data
+}
+
+//////////////////////////////////////////////////////////////////////////////
+// GAME ATTENDANCE FUNCTIONS
+//////////////////////////////////////////////////////////////////////////////
+
+interface UpdateGameAttendanceRequest {
+	gameId: string
+	teamId: string
+	playerIds: string[]
+}
+
+interface UpdateGameAttendanceResponse {
+	success: true
+	gameId: string
+	teamId: string
+	attendeeCount: number
+	message: string
+}
+
+/**
+ * Records which players from a team played in a game via Firebase Function
+ *
+ * Security features:
+ * - Only admins or the team's captain for the game's season can record
+ * - Every player must be on the team's roster for that season
+ * - Replaces any attendance previously recorded for the team
+ */
+export const updateGameAttendanceViaFunction = async (
+	data: UpdateGameAttendanceRequest
+): Promise<UpdateGameAttendanceResponse> => {
+	const updateGameAttendance = httpsCallable<
+		UpdateGameAttendanceRequest,
+		UpdateGameAttendanceResponse
+	>(functions, 'updateGameAttendance')
+	const result = await updateGameAttendance(data)
+	return result.data
+}
+
+//////////////////////////////////////////////////////////////////////////////
+// GAME SCORE REPORTING FUNCTIONS
+//////////////////////////////////////////////////////////////////////////////
+
+interface SubmitGameScoreRequest {
+	gameId: string
+	homeScore: number
+	awayScore: number
+}
+
+interface SubmitGameScoreResponse {
+	success: true
+	gameId: string
+	status: ScoreReportStatus
+	message: string
+}
+
+/**
+ * Reports a game's score as one team's captain via Firebase Function
+ *
+ * Security features:
+ * - Only a captain of the home or away team for the game's season can report
+ * - The game must have started and must not already have a final score
+ * - The score is final once both teams report it; mismatched reports are
+ *   left for an admin to resolve
+ */
+export const submitGameScoreViaFunction = async (
+	data: SubmitGameScoreRequest
+): Promise<SubmitGameScoreResponse> => {
+	const submitGameScore = httpsCallable<
+		SubmitGameScoreRequest,
+		SubmitGameScoreResponse
+	>(functions, 'submitGameScore')
+	const result = await submitGameScore(data)
+	return result.data
+}
+
+//////////////////////////////////////////////////////////////////////////////
+// SPIRIT RATING FUNCTIONS
+//////////////////////////////////////////////////////////////////////////////
+
+interface SubmitSpiritRatingRequest {
+	gameId: string
+	scores: Record<SpiritCategory, number>
+	comment?: string | null
+}
+
+interface SubmitSpiritRatingResponse {
+	success: true
+	gameId: string
+	revealed: boolean
+	message: string
+}
+
+/**
+ * Rates the opposing team's spirit after a final game via Firebase Function
+ *
+ * Security features:
+ * - Only a captain of the home or away team for the game's season can rate
+ * - The game must be final, and each team rates each game once
+ * - Ratings stay hidden until both teams have submitted
+ */
+export const submitSpiritRatingViaFunction = async (
+	data: SubmitSpiritRatingRequest
+): Promise<SubmitSpiritRatingResponse> => {
+	const submitSpiritRating = httpsCallable<
+		SubmitSpiritRatingRequest,
+		SubmitSpiritRatingResponse
+	>(functions, 'submitSpiritRating')
+	const result = await submitSpiritRating(data)
+	return result.data
+}
+
 //////////////////////////////////////////////////////////////////////////////
 // NEWS MANAGEMENT FUNCTIONS
 //////////////////////////////////////////////////////////////////////////////
@@ -795,6 +1293,8 @@ interface CreateSeasonRequest {
 	}
 	/** Season format - 'traditional' or 'swiss'. Defaults to 'traditional' */
 	format?: SeasonFormat
+	/** League rules for the season. Unset rules use the league-wide defaults */
+	rules?: SeasonRules
 }
 
 interface CreateSeasonResponse {
@@ -839,6 +1339,8 @@ interface UpdateSeasonRequest {
 	}
 	/** Season format - 'traditional' or 'swiss'. Defaults to 'traditional' */
 	format?: SeasonFormat
+	/** League rules for the season. Unset rules use the league-wide defaults */
+	rules?: SeasonRules
 }
 
 interface UpdateSeasonResponse {
@@ -903,6 +1405,7 @@ export interface CreateBadgeRequest {
 	description: string
 	imageBlob?: string // Base64 encoded image
 	imageContentType?: string // MIME type of the image
+	criterion?: BadgeCriterion | null // Rule for awarding the badge automatically
 }
 
 export interface CreateBadgeResponse {
@@ -938,6 +1441,7 @@ export interface UpdateBadgeRequest {
 	imageBlob?: string // Base64 encoded image
 	imageContentType?: string // MIME type of the image
 	removeImage?: boolean // Flag to remove existing image
+	criterion?: BadgeCriterion | null // Rule for awarding automatically (null removes it)
 }
 
 export interface UpdateBadgeResponse {
@@ -1061,6 +1565,47 @@ export const revokeBadgeViaFunction = async (
 	return result.data
 }
 
+export interface EvaluateBadgesRequest {
+	/** Season to evaluate. Defaults to the current season. */
+	seasonId?: string
+	/** Report qualifying teams without awarding badges */
+	dryRun?: boolean
+}
+
+export interface EvaluateBadgesResponse {
+	success: true
+	seasonId: string
+	awards: {
+		badgeId: string
+		badgeName: string
+		teamId: string
+		/** Season the badge was earned in */
+		seasonId: string
+	}[]
+	teamsEvaluated: number
+	rulesEvaluated: number
+	message: string
+}
+
+/**
+ * Runs the badge rules engine for a season's teams via Firebase Function (admin only)
+ *
+ * Security features:
+ * - Only admins can evaluate badge rules
+ * - Season must exist
+ * - Badges already awarded to a team are never awarded twice
+ */
+export const evaluateBadgesViaFunction = async (
+	data: EvaluateBadgesRequest
+): Promise<EvaluateBadgesResponse> => {
+	const evaluateBadges = httpsCallable<
+		EvaluateBadgesRequest,
+		EvaluateBadgesResponse
+	>(functions, 'evaluateBadges')
+	const result = await evaluateBadges(data)
+	return result.data
+}
+
 //////////////////////////////////////////////////////////////////////////////
 // WAIVER MANAGEMENT FUNCTIONS (ADMIN ONLY)
 //////////////////////////////////////////////////////////////////////////////
@@ -1102,6 +1647,45 @@ export const sendWaiverAdminViaFunction = async (
 	return result.data
 }
 
+//////////////////////////////////////////////////////////////////////////////
+// PAYMENT MANAGEMENT FUNCTIONS (ADMIN ONLY)
+//////////////////////////////////////////////////////////////////////////////
+
+interface RefundPlayerPaymentRequest {
+	/** Player's Firebase Auth UID */
+	playerId: string
+	/** Season the payment was for */
+	seasonId: string
+}
+
+interface RefundPlayerPaymentResponse {
+	success: true
+	playerId: string
+	seasonId: string
+	refundId: string
+	/** Amount refunded, in the smallest currency unit */
+	amount: number
+	message: string
+}
+
+/**
+ * Refunds a player's Stripe payment for a season via Firebase Function
+ * (admin only)
+ *
+ * The refund is issued immediately; the player's paid status and their
+ * team's registration update when Stripe's refund webhook arrives.
+ */
+export const refundPlayerPaymentViaFunction = async (
+	data: RefundPlayerPaymentRequest
+): Promise<RefundPlayerPaymentResponse> => {
+	const refundPlayerPayment = httpsCallable<
+		RefundPlayerPaymentRequest,
+		RefundPlayerPaymentResponse
+	>(functions, 'refundPlayerPayment')
+	const result = await refundPlayerPayment(data)
+	return result.data
+}
+
 //////////////////////////////////////////////////////////////////////////////
 // MIGRATION HELPERS
 //////////////////////////////////////////////////////////////////////////////
@@ -1154,8 +1738,17 @@ export const removeFromTeam = async (
 import {
 	OfferStatus,
 	OfferType,
+	type ExperienceLevel,
+	type FreeAgentAvailability,
+	type GameStatus,
+	type ScoreReportStatus,
+	type SpiritCategory,
 	type ThemeVariant,
 	type SeasonFormat,
+	type SeasonRules,
+	type BadgeCriterion,
+	type PlayoffBracket,
+	type PlayoffFormat,
 } from '@/types'
 
 interface UpdateSiteSettingsRequest {
@@ -1458,3 +2051,87 @@ export const getSwissRankingsViaFunction = async (
 	const result = await getSwissRankings(data)
 	return result.data
 }
+
+/**
+ * A Monrad-paired game for a Swiss game day (returned from createSwissGameDay)
+ */
+export interface SwissGameDayGame {
+	/** Round number (1-based) */
+	round: number
+	/** ISO 8601 start time of the round */
+	timestamp: string
+	/** Field number */
+	field: number
+	homeTeamId: string
+	awayTeamId: string
+	homeName: string
+	awayName: string
+	/** Pairing position (1-based) of the home team */
+	homeRank: number
+	/** Pairing position (1-based) of the away team */
+	awayRank: number
+	/** Number of times these teams have already played this season */
+	seasonMatchupCount: number
+}
+
+/**
+ * Per-team summary of a Swiss game day
+ */
+export interface SwissGameDayTeamSummary {
+	teamId: string
+	name: string
+	rank: number
+	/** Rounds the team plays in, ascending */
+	rounds: number[]
+	/** Games short of gamesPerTeam */
+	byes: number
+	/** Times the team sits out two or more consecutive rounds between games */
+	doubleByes: number
+}
+
+interface CreateSwissGameDayRequest {
+	/** Season document ID */
+	seasonId: string
+	/** ISO 8601 start time of each round, all on the same Saturday */
+	roundTimestamps: string[]
+	/** Fields to use in every round (defaults to every allowed field) */
+	fields?: number[]
+	/** Games each team plays on the game day (defaults to 2) */
+	gamesPerTeam?: number
+	/** Return the pairings without creating any games */
+	dryRun?: boolean
+}
+
+export interface CreateSwissGameDayResponse {
+	success: true
+	seasonId: string
+	created: boolean
+	gameIds: string[]
+	games: SwissGameDayGame[]
+	teamSummaries: SwissGameDayTeamSummary[]
+	repeatCount: number
+	warnings: string[]
+	message: string
+}
+
+/**
+ * Pair a Swiss season's next game day from current rankings (admin only)
+ *
+ * With `dryRun` the pairings are returned without creating games.
+ *
+ * Security features:
+ * - Only admins can create game days
+ * - Season must be in Swiss format
+ * - Round times must be allowed slots on one Saturday
+ * - Fails if any game already exists at the same time slot and field
+ */
+export const createSwissGameDayViaFunction = async (
+	data: CreateSwissGameDayRequest
+): Promise<CreateSwissGameDayResponse> => {
+	const createSwissGameDay = httpsCallable<
+		CreateSwissGameDayRequest,
+		CreateSwissGameDayResponse
+	>(functions, 'createSwissGameDay')
+	const result = await createSwissGameDay(data)
+	return result.data
+}
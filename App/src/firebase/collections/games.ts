@@ -6,19 +6,25 @@ import {
 	query,
 	where,
 	collection,
+	collectionGroup,
 	orderBy,
 	or,
 	DocumentReference,
 	QueryDocumentSnapshot,
 	Query,
+	CollectionReference,
 } from 'firebase/firestore'
 
 import { firestore } from '../app'
 import {
 	GameDocument,
+	GameAttendanceDocument,
 	SeasonDocument,
+	SpiritRatingDocument,
 	TeamDocument,
 	Collections,
+	GAME_ATTENDANCE_SUBCOLLECTION,
+	GAME_SPIRIT_RATINGS_SUBCOLLECTION,
 } from '@/shared/utils'
 
 /**
@@ -98,3 +104,57 @@ export const allGamesQuery = (): Query<GameDocument> => {
 		orderBy('date', 'desc')
 	) as Query<GameDocument>
 }
+
+/**
+ * Creates a query for scored games whose pre-game prediction has a result
+ * (the underdog either won or lost), for the prediction calibration report
+ */
+export const predictedGamesQuery = (): Query<GameDocument> => {
+	return query(
+		collection(firestore, Collections.GAMES),
+		where('prediction.upset', 'in', [true, false])
+	) as Query<GameDocument>
+}
+
+/**
+ * Gets the attendance subcollection for a game (both teams)
+ * Entries are keyed by player ID; filter by `team` client-side
+ */
+export const gameAttendanceQuery = (
+	gameId: string | undefined
+): CollectionReference<GameAttendanceDocument> | undefined => {
+	if (!gameId) {
+		return undefined
+	}
+	return collection(
+		firestore,
+		Collections.GAMES,
+		gameId,
+		GAME_ATTENDANCE_SUBCOLLECTION
+	) as CollectionReference<GameAttendanceDocument>
+}
+
+/**
+ * Creates a query for a season's spirit ratings across all games
+ *
+ * Only ratings both teams have submitted are readable by players, so the
+ * public leaderboard passes `revealedOnly`; admins can read every rating.
+ */
+export const seasonSpiritRatingsQuery = (
+	seasonSnapshot: QueryDocumentSnapshot<SeasonDocument> | undefined,
+	{ revealedOnly }: { revealedOnly: boolean }
+): Query<SpiritRatingDocument> | undefined => {
+	if (!seasonSnapshot) {
+		return undefined
+	}
+	const ratings = collectionGroup(firestore, GAME_SPIRIT_RATINGS_SUBCOLLECTION)
+	return (
+		revealedOnly
+			? query(
+					ratings,
+					where('season', '==', seasonSnapshot.ref),
+					where('revealed', '==', true)
+				)
+			: query(ratings, where('season', '==', seasonSnapshot.ref))
+	) as Query<SpiritRatingDocument>
+}
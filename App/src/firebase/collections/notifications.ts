@@ -0,0 +1,104 @@
+/**
+ * In-app notification Firestore operations
+ *
+ * Notifications are written by Functions. Players can read their own and
+ * mark them read; the security rules allow nothing else.
+ */
+
+import {
+	collection,
+	doc,
+	limit,
+	orderBy,
+	query,
+	serverTimestamp,
+	updateDoc,
+	writeBatch,
+	where,
+	type CollectionReference,
+	type Query,
+} from 'firebase/firestore'
+
+import { firestore } from '../app'
+import {
+	Collections,
+	NOTIFICATIONS_SUBCOLLECTION,
+	NotificationDocument,
+} from '@/types'
+
+const notificationsCollection = (
+	playerId: string
+): CollectionReference<NotificationDocument> =>
+	collection(
+		firestore,
+		Collections.PLAYERS,
+		playerId,
+		NOTIFICATIONS_SUBCOLLECTION
+	) as CollectionReference<NotificationDocument>
+
+/**
+ * Query for a player's most recent notifications, newest first
+ */
+export const notificationsQuery = (
+	playerId: string | undefined,
+	pageSize = 20
+): Query<NotificationDocument> | undefined => {
+	if (!playerId) return undefined
+	return query(
+		notificationsCollection(playerId),
+		orderBy('createdAt', 'desc'),
+		limit(pageSize)
+	)
+}
+
+/**
+ * Query for every one of a player's unread notifications, however old
+ */
+export const unreadNotificationsQuery = (
+	playerId: string | undefined
+): Query<NotificationDocument> | undefined => {
+	if (!playerId) return undefined
+	return query(notificationsCollection(playerId), where('read', '==', false))
+}
+
+/**
+ * Marks one of a player's notifications as read
+ */
+export const markNotificationRead = async (
+	playerId: string,
+	notificationId: string
+): Promise<void> => {
+	await updateDoc(doc(notificationsCollection(playerId), notificationId), {
+		read: true,
+		readAt: serverTimestamp(),
+	})
+}
+
+// Firestore allows at most 500 writes per batch
+const MARK_READ_BATCH_SIZE = 500
+
+/**
+ * Marks several of a player's notifications as read, in batches
+ */
+export const markNotificationsRead = async (
+	playerId: string,
+	notificationIds: string[]
+): Promise<void> => {
+	for (
+		let start = 0;
+		start < notificationIds.length;
+		start += MARK_READ_BATCH_SIZE
+	) {
+		const batch = writeBatch(firestore)
+		for (const notificationId of notificationIds.slice(
+			start,
+			start + MARK_READ_BATCH_SIZE
+		)) {
+			batch.update(doc(notificationsCollection(playerId), notificationId), {
+				read: true,
+				readAt: serverTimestamp(),
+			})
+		}
+		await batch.commit()
+	}
+}
@@ -6,8 +6,12 @@
  * the established patterns in the codebase.
  */
 
+import { collection, query, where, type Query } from 'firebase/firestore'
+
+import { firestore } from '../app'
 import { User } from '../auth'
 import { createStripeCheckoutSession } from '../functions'
+import { Collections, PaymentDocument } from '@/types'
 
 /**
  * Builds a URL with payment status query parameter
@@ -77,3 +81,18 @@ export const stripeRegistration = async (
 		setStripeError(errorMessage)
 	}
 }
+
+/**
+ * Creates a query for a player's Stripe payments for a season
+ *
+ * Readable by the player and by admins.
+ */
+export const playerPaymentsBySeasonQuery = (
+	playerId: string,
+	seasonId: string
+): Query<PaymentDocument> => {
+	return query(
+		collection(firestore, Collections.STRIPE, playerId, 'payments'),
+		where('seasonId', '==', seasonId)
+	) as Query<PaymentDocument>
+}
@@ -5,8 +5,10 @@
 import {
 	query,
 	collection,
+	doc,
 	orderBy,
 	limit,
+	type DocumentReference,
 	type Query,
 } from 'firebase/firestore'
 import { httpsCallable } from 'firebase/functions'
@@ -15,6 +17,8 @@ import { firestore, functions } from '../app'
 import {
 	PlayerRankingDocument,
 	RankingsCalculationDocument,
+	RankingsCheckpointDocument,
+	RankingsParameters,
 	Collections,
 } from '../../types'
 
@@ -40,13 +44,44 @@ export const playerRankingsCalculationsQuery =
 		) as Query<RankingsCalculationDocument>
 	}
 
+/**
+ * Creates a query for a shadow run's player rankings (parameter sandbox).
+ * Admin-only.
+ */
+export const shadowRankingsQuery = (
+	calculationId: string
+): Query<PlayerRankingDocument> => {
+	return query(
+		collection(
+			firestore,
+			Collections.RANKINGS_CALCULATIONS,
+			calculationId,
+			'rankings'
+		),
+		orderBy('rank', 'asc')
+	) as Query<PlayerRankingDocument>
+}
+
+/**
+ * Reference to the rankings checkpoint (last processed round and whether a
+ * full rebuild is required). Admin-only.
+ */
+export const rankingsCheckpointRef =
+	(): DocumentReference<RankingsCheckpointDocument> => {
+		return doc(
+			firestore,
+			Collections.RANKINGS_CHECKPOINT,
+			'current'
+		) as DocumentReference<RankingsCheckpointDocument>
+	}
+
 /**
  * Calls the Firebase Function to completely rebuild Player Rankings from scratch
  * Processes all games grouped by rounds in chronological order using TrueSkill algorithm.
  *
- * Note: Incremental updates were deprecated because TrueSkill requires accurate
- * sigma (uncertainty) tracking across all games for proper rating calculations.
- * Full rebuilds ensure correct sigma values are maintained.
+ * Newly scored rounds are applied incrementally by the Functions on top of the
+ * stored rating states; a rebuild is only needed after an edit to a game at or
+ * before the checkpoint, and the scheduled update runs one automatically then.
  */
 export const rebuildPlayerRankings = httpsCallable<
 	Record<string, never>, // No parameters needed - decay is always applied
@@ -56,3 +91,29 @@ export const rebuildPlayerRankings = httpsCallable<
 		message: string
 	}
 >(functions, 'rebuildPlayerRankings')
+
+/**
+ * Calls the Firebase Function to rebuild Player Rankings with custom parameters
+ * into a shadow namespace, for comparison with the live rankings.
+ * Parameters left out keep their live values.
+ */
+export const startShadowRankingsRebuild = httpsCallable<
+	{ parameters: Partial<RankingsParameters> },
+	{
+		calculationId: string
+		status: string
+		message: string
+	}
+>(functions, 'startShadowRankingsRebuild')
+
+/**
+ * Calls the Firebase Function to make a completed shadow run the live rankings
+ */
+export const promoteShadowRankings = httpsCallable<
+	{ calculationId: string },
+	{
+		success: true
+		calculationId: string
+		message: string
+	}
+>(functions, 'promoteShadowRankings')
@@ -4,6 +4,8 @@
  * in Functions/src/functions/players/
  */
 
+import { EmailCategory, PlayerGender } from '@/types'
+
 /**
  * Request interface for creating a player
  * Must match Functions/src/functions/user/players/create.ts CreatePlayerRequest exactly
@@ -35,6 +37,10 @@ export interface UpdatePlayerRequest {
 	playerId?: string // Optional - defaults to authenticated user
 	firstname?: string
 	lastname?: string
+	/** Email categories to turn on (true) or off (false) */
+	emailPreferences?: Partial<Record<EmailCategory, boolean>>
+	/** Self-reported gender for roster gender limits; null clears it */
+	gender?: PlayerGender | null
 }
 
 /**
@@ -103,6 +103,22 @@ export const playerSeasonsInSeasonQuery = (
 	) as Query<PlayerSeasonDocument>
 }
 
+/**
+ * Query for the player season subdocs with an active free-agent listing in
+ * a given season (collection group). Listings are switched off when the
+ * player joins a team.
+ */
+export const freeAgentsQuery = (
+	seasonRef: DocumentReference<SeasonDocument> | undefined
+): Query<PlayerSeasonDocument> | undefined => {
+	if (!seasonRef) return undefined
+	return query(
+		collectionGroup(firestore, PLAYER_SEASONS_SUBCOLLECTION),
+		where('season', '==', seasonRef),
+		where('freeAgentProfile.active', '==', true)
+	) as Query<PlayerSeasonDocument>
+}
+
 // ---- Canonical derivation from player season doc snapshots ---------------
 
 /**
@@ -201,3 +217,13 @@ export const getPlayersQuery = (
 		) as Query<PlayerDocument>
 	}
 }
+
+/**
+ * Creates a query for all players with admin privileges
+ */
+export const adminPlayersQuery = (): Query<PlayerDocument> => {
+	return query(
+		collection(firestore, Collections.PLAYERS),
+		where('admin', '==', true)
+	) as Query<PlayerDocument>
+}
@@ -36,6 +36,7 @@ import {
 	TeamRosterDocument,
 	TeamSeasonDocument,
 } from '@/shared/utils'
+import { TeamHistoryDocument } from '@/types'
 
 // ---- Canonical team document ---------------------------------------------
 
@@ -73,6 +74,21 @@ export const allTeamsQuery = (): Query<TeamDocument> => {
 	return collection(firestore, Collections.TEAMS) as Query<TeamDocument>
 }
 
+/**
+ * Get a team's precomputed franchise history (all-time and head-to-head
+ * records), maintained by Functions.
+ */
+export const teamHistoryRef = (
+	id: string | undefined
+): DocumentReference<TeamHistoryDocument> | undefined => {
+	if (!id) return undefined
+	return doc(
+		firestore,
+		Collections.TEAM_HISTORY,
+		id
+	) as DocumentReference<TeamHistoryDocument>
+}
+
 // ---- Per-team season subcollection ---------------------------------------
 
 /**
@@ -23,6 +23,7 @@ export {
 	teamsInSeasonQuery,
 	teamsBySeasonQuery,
 	teamSeasonRef,
+	teamHistoryRef,
 	teamRosterSubcollection,
 	allTeamsQuery,
 } from './collections/teams'
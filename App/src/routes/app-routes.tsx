@@ -6,10 +6,11 @@ import {
 	Home,
 	Schedule,
 	Standings,
+	SpiritLeaderboard,
 	Teams,
 	TeamProfile,
 	PlayerRankings,
-	PlayerRankingHistory,
+	PlayerCareer,
 	PlayerRankingManagement,
 	News,
 	Posts,
@@ -25,6 +26,8 @@ import {
 	RegistrationManagement,
 	BadgeManagement,
 	SiteSettings,
+	AuditLog,
+	FreeAgentDraft,
 	Profile,
 	ManageTeam,
 	NotFound,
@@ -80,6 +83,16 @@ export const AppRoutes = () => {
 						</PublicRoute>
 					}
 				/>
+				<Route
+					path='/standings/spirit'
+					element={
+						<PublicRoute>
+							<ErrorBoundary>
+								<SpiritLeaderboard />
+							</ErrorBoundary>
+						</PublicRoute>
+					}
+				/>
 				<Route
 					path='/teams'
 					element={
@@ -125,7 +138,7 @@ export const AppRoutes = () => {
 					element={
 						<PublicRoute>
 							<ErrorBoundary>
-								<PlayerRankingHistory />
+								<PlayerCareer />
 							</ErrorBoundary>
 						</PublicRoute>
 					}
@@ -281,6 +294,16 @@ export const AppRoutes = () => {
 						</AuthenticatedRoute>
 					}
 				/>
+				<Route
+					path='/admin/free-agent-draft'
+					element={
+						<AuthenticatedRoute>
+							<ErrorBoundary>
+								<FreeAgentDraft />
+							</ErrorBoundary>
+						</AuthenticatedRoute>
+					}
+				/>
 				<Route
 					path='/admin/badge-management'
 					element={
@@ -301,6 +324,16 @@ export const AppRoutes = () => {
 						</AuthenticatedRoute>
 					}
 				/>
+				<Route
+					path='/admin/audit-log'
+					element={
+						<AuthenticatedRoute>
+							<ErrorBoundary>
+								<AuditLog />
+							</ErrorBoundary>
+						</AuthenticatedRoute>
+					}
+				/>
 				{/* Error routes */}
 				<Route
 					path='*'
@@ -26,6 +26,10 @@ export const Standings = lazyImport(
 	() => import('@/features/public/standings'),
 	'Standings'
 )
+export const SpiritLeaderboard = lazyImport(
+	() => import('@/features/public/standings'),
+	'SpiritLeaderboard'
+)
 export const Teams = lazyImport(
 	() => import('@/features/public/teams'),
 	'Teams'
@@ -38,9 +42,9 @@ export const PlayerRankings = lazyImport(
 	() => import('@/features/public/rankings'),
 	'PlayerRankings'
 )
-export const PlayerRankingHistory = lazyImport(
+export const PlayerCareer = lazyImport(
 	() => import('@/features/public/rankings'),
-	'PlayerRankingHistory'
+	'PlayerCareer'
 )
 export const News = lazyImport(() => import('@/features/public/news'), 'News')
 export const Posts = lazyImport(
@@ -115,6 +119,14 @@ export const PostsManagement = lazyImport(
 	() => import('@/features/admin/posts-management'),
 	'PostsManagement'
 )
+export const AuditLog = lazyImport(
+	() => import('@/features/admin/audit-log'),
+	'AuditLog'
+)
+export const FreeAgentDraft = lazyImport(
+	() => import('@/features/admin/free-agent-draft'),
+	'FreeAgentDraft'
+)
 
 // ==================== ERROR PAGES ====================
 
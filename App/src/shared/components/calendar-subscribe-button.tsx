@@ -0,0 +1,90 @@
+import { CalendarPlus, Copy, ExternalLink } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+	cn,
+	getCalendarFeedUrl,
+	getGoogleCalendarUrl,
+	getWebcalUrl,
+	logger,
+} from '@/shared/utils'
+
+interface CalendarSubscribeButtonProps {
+	/** Season whose games the feed contains */
+	seasonId: string
+	/** Limit the feed to one team's games */
+	teamId?: string
+	/** Button text */
+	label?: string
+	className?: string
+}
+
+/**
+ * Subscribe menu for a schedule calendar feed
+ *
+ * Subscribed calendars refresh on their own, so rescheduled games move
+ * without players having to check the site.
+ */
+export const CalendarSubscribeButton = ({
+	seasonId,
+	teamId,
+	label = 'Subscribe to Calendar',
+	className,
+}: CalendarSubscribeButtonProps) => {
+	const feedUrl = getCalendarFeedUrl(seasonId, teamId)
+
+	const copyFeedUrl = async () => {
+		try {
+			await navigator.clipboard.writeText(feedUrl)
+			toast.success('Calendar link copied', {
+				description: 'Paste it into your calendar app to subscribe.',
+			})
+		} catch (error) {
+			logger.error(
+				'Failed to copy calendar link',
+				error instanceof Error ? error : undefined,
+				{ component: 'CalendarSubscribeButton' }
+			)
+			toast.error('Failed to copy calendar link', { description: feedUrl })
+		}
+	}
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button variant='outline' size='sm' className={cn(className)}>
+					<CalendarPlus className='h-4 w-4 mr-2' />
+					{label}
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align='center'>
+				<DropdownMenuItem asChild>
+					<a href={getWebcalUrl(feedUrl)}>
+						<CalendarPlus className='h-4 w-4' />
+						Open in calendar app
+					</a>
+				</DropdownMenuItem>
+				<DropdownMenuItem asChild>
+					<a
+						href={getGoogleCalendarUrl(feedUrl)}
+						target='_blank'
+						rel='noopener noreferrer'
+					>
+						<ExternalLink className='h-4 w-4' />
+						Add to Google Calendar
+					</a>
+				</DropdownMenuItem>
+				<DropdownMenuItem onSelect={copyFeedUrl}>
+					<Copy className='h-4 w-4' />
+					Copy link
+				</DropdownMenuItem>
+			</DropdownMenuContent>
+		</DropdownMenu>
+	)
+}
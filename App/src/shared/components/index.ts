@@ -13,12 +13,14 @@ export { GradientHeader } from './gradient-header'
 export { ComingSoon } from './coming-soon'
 export { NotificationCard } from './notification-card'
 export { NotificationCardItem } from './notification-card-item'
+export { OfferExpiryCountdown } from './offer-expiry-countdown'
 export { DestructiveConfirmationDialog } from './destructive-confirmation-dialog'
 export { SeasonSelect } from './season-select'
 export { NewBadge } from './new-badge'
 export { LoadingSpinner } from './loading-spinner'
 export { PageContainer } from './page-container'
 export { PageHeader } from './page-header'
+export { CalendarSubscribeButton } from './calendar-subscribe-button'
 
 // Form components
 export * from './forms'
@@ -1,5 +1,9 @@
 import { useState, useEffect } from 'react'
-import { DesktopNavigation, MobileNavigation } from './navigation'
+import {
+	DesktopNavigation,
+	MobileNavigation,
+	NotificationsMenu,
+} from './navigation'
 import { useTopNavigation, useIsMobile } from '@/shared/hooks'
 
 interface NavigationBarProps {
@@ -86,6 +90,7 @@ export const NavigationBar = ({ onLoginClick }: NavigationBarProps) => {
 					signOutLoading={signOutLoading}
 					authStateLoading={authStateLoading}
 				/>
+				<NotificationsMenu className='ml-auto md:hidden' />
 			</div>
 		</header>
 	)
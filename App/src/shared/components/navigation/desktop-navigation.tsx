@@ -2,6 +2,7 @@ import { Dispatch, SetStateAction } from 'react'
 import { NavigationMenu } from './navigation-menu'
 import { SettingsSection } from './settings-section'
 import { AccountSection } from './account-section'
+import { NotificationsMenu } from './notifications-menu'
 
 interface DesktopNavigationProps {
 	navItems: Array<{ label: string; path: string; alt: string }>
@@ -40,6 +41,7 @@ export const DesktopNavigation = ({
 		<div className='hidden md:flex md:flex-1 items-center justify-between w-full'>
 			<NavigationMenu items={navItems} />
 			<div className='flex items-center justify-end gap-4 flex-shrink-0'>
+				<NotificationsMenu />
 				<SettingsSection
 					isOpen={settingsPopoverOpen}
 					setIsOpen={setSettingsPopoverOpen}
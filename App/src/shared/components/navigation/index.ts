@@ -9,3 +9,4 @@ export { SettingsSection } from './settings-section'
 export { AccountSection } from './account-section'
 export { LoginButton } from './login-button'
 export { NotificationBadge } from './notification-badge'
+export { NotificationsMenu } from './notifications-menu'
@@ -0,0 +1,132 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Bell } from 'lucide-react'
+import { useNotifications } from '@/shared/hooks'
+import { NotificationBadge } from './notification-badge'
+import { Button } from '@/components/ui/button'
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from '@/components/ui/popover'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { SeparatorWithText } from '@/components/ui/separator-with-text'
+import { cn, formatTimestampWithTime } from '@/shared/utils'
+
+interface NotificationsMenuProps {
+	className?: string
+}
+
+/**
+ * Bell button that opens the signed-in player's recent notifications
+ *
+ * Shows the unread count as a badge. Clicking a notification marks it read
+ * and opens its link. Renders nothing when signed out.
+ */
+export const NotificationsMenu = ({ className }: NotificationsMenuProps) => {
+	const [isOpen, setIsOpen] = useState(false)
+	const navigate = useNavigate()
+	const { isAuthenticated, notifications, unreadCount, markRead, markAllRead } =
+		useNotifications()
+
+	if (!isAuthenticated) {
+		return null
+	}
+
+	return (
+		<Popover open={isOpen} onOpenChange={setIsOpen}>
+			<PopoverTrigger asChild>
+				<Button
+					variant='ghost'
+					size='sm'
+					className={cn('px-0 w-9 relative', className)}
+					aria-label={
+						unreadCount > 0
+							? `Open notifications (${unreadCount} unread)`
+							: 'Open notifications'
+					}
+				>
+					<Bell className='h-4 w-4' aria-hidden='true' />
+					<NotificationBadge count={unreadCount} position='button-overlay' />
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent className='w-80 p-0' align='end'>
+				<div className='px-4 pt-4'>
+					<SeparatorWithText>Notifications</SeparatorWithText>
+				</div>
+				{notifications.length === 0 ? (
+					<p className='px-4 pb-4 text-sm text-muted-foreground'>
+						You don't have any notifications yet.
+					</p>
+				) : (
+					<>
+						<ScrollArea className='max-h-96'>
+							<ul className='px-2 pb-2'>
+								{notifications.map((notificationSnapshot) => {
+									const notification = notificationSnapshot.data()
+									return (
+										<li key={notificationSnapshot.id}>
+											<button
+												type='button'
+												className='w-full rounded-md px-2 py-2 text-left hover:bg-accent focus-visible:bg-accent focus-visible:outline-none'
+												onClick={() => {
+													if (!notification.read) {
+														void markRead(notificationSnapshot.id)
+													}
+													if (notification.link) {
+														setIsOpen(false)
+														navigate(notification.link)
+													}
+												}}
+											>
+												<div className='flex items-start gap-2'>
+													<span
+														className={cn(
+															'mt-1.5 h-2 w-2 shrink-0 rounded-full',
+															notification.read
+																? 'bg-transparent'
+																: 'bg-primary'
+														)}
+														aria-hidden='true'
+													/>
+													<div className='space-y-0.5'>
+														<p
+															className={cn(
+																'text-sm',
+																!notification.read && 'font-medium'
+															)}
+														>
+															{notification.title}
+														</p>
+														<p className='text-sm text-muted-foreground'>
+															{notification.body}
+														</p>
+														<p className='text-xs text-muted-foreground'>
+															{formatTimestampWithTime(notification.createdAt)}
+														</p>
+													</div>
+												</div>
+											</button>
+										</li>
+									)
+								})}
+							</ul>
+						</ScrollArea>
+						{unreadCount > 0 && (
+							<div className='border-t p-2'>
+								<Button
+									variant='ghost'
+									size='sm'
+									className='w-full'
+									onClick={() => void markAllRead()}
+								>
+									Mark all as read
+								</Button>
+							</div>
+						)}
+					</>
+				)}
+			</PopoverContent>
+		</Popover>
+	)
+}
@@ -3,12 +3,16 @@ import { Button } from '@/components/ui/button'
 import { DocumentReference } from '@/firebase'
 import { OfferDocumentWithUI } from '@/shared/hooks'
 import { LoadingSpinner } from '@/shared/components'
+import { Timestamp } from '@/types'
+import { OfferExpiryCountdown } from './offer-expiry-countdown'
 
 export interface NotificationCardItemProps {
 	type: OfferDirection
 	data: OfferDocumentWithUI
 	statusColor?: string
 	message?: string
+	/** Shows a countdown to when the offer expires */
+	expiresAt?: Timestamp
 	actionOptions: {
 		title: string
 		action: (offerDocumentReference: DocumentReference<OfferDocument>) => void
@@ -21,6 +25,7 @@ export const NotificationCardItem = ({
 	data,
 	statusColor,
 	message,
+	expiresAt,
 	actionOptions,
 }: NotificationCardItemProps) => {
 	return (
@@ -43,6 +48,7 @@ export const NotificationCardItem = ({
 				<p className='overflow-hidden text-sm max-h-5 text-muted-foreground'>
 					{`${message} ${data.teamName}`}
 				</p>
+				{expiresAt && <OfferExpiryCountdown expiresAt={expiresAt} />}
 			</div>
 			<div className='flex justify-end flex-1 gap-2'>
 				{actionOptions.map(({ title, action, isLoading }, index) => (
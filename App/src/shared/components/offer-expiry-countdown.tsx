@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react'
+import { Clock } from 'lucide-react'
+import { cn, formatTimeRemaining } from '@/shared/utils'
+import { Timestamp } from '@/types'
+
+/** Offers expiring within this window are highlighted */
+const EXPIRING_SOON_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Time left before a pending offer expires, updated every minute
+ */
+export const OfferExpiryCountdown = ({
+	expiresAt,
+	className,
+}: {
+	expiresAt: Timestamp
+	className?: string
+}) => {
+	const [now, setNow] = useState(() => Date.now())
+
+	useEffect(() => {
+		const timer = setInterval(() => setNow(Date.now()), 60 * 1000)
+		return () => clearInterval(timer)
+	}, [])
+
+	const remaining = expiresAt.toMillis() - now
+
+	return (
+		<span
+			className={cn(
+				'inline-flex items-center gap-1 text-xs',
+				remaining <= 0
+					? 'text-destructive'
+					: remaining <= EXPIRING_SOON_MS
+						? 'text-amber-600 dark:text-amber-500'
+						: 'text-muted-foreground',
+				className
+			)}
+			title={expiresAt.toDate().toLocaleString()}
+		>
+			<Clock className='h-3 w-3' />
+			{remaining <= 0
+				? 'Expired'
+				: `Expires in ${formatTimeRemaining(remaining)}`}
+		</span>
+	)
+}
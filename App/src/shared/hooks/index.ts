@@ -13,13 +13,12 @@ export { useStandings } from './use-standings'
 export type { TeamStanding } from './use-standings'
 export { useSwissStandings, sortBySwissScore } from './use-swiss-standings'
 export type { SwissTeamStanding } from './use-swiss-standings'
-export { useMonradPairings, getMatchupCount } from './use-monrad-pairings'
-export type { ScheduledGame, MonradScheduleResult } from './use-monrad-pairings'
 export { usePlayersSearch } from './use-players-search'
-export { useScheduleData } from './use-schedule-data'
+export { useScheduleData, type ScheduleGame } from './use-schedule-data'
 export { useFileUpload } from './use-file-upload'
 export { useUserStatus } from './use-user-status'
 export { useTopNavigation } from './use-top-navigation'
 export { useAccountSection } from './use-account-section'
+export { useNotifications } from './use-notifications'
 export { useAnimatedSelect } from './use-animated-select'
 export { useQueryErrorHandler } from './use-query-error-handler'
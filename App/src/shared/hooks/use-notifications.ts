@@ -0,0 +1,71 @@
+import { useCallback, useMemo } from 'react'
+import { useCollection } from 'react-firebase-hooks/firestore'
+import { useAuthContext } from '@/providers'
+import {
+	markNotificationRead,
+	markNotificationsRead,
+	notificationsQuery,
+	unreadNotificationsQuery,
+} from '@/firebase/collections/notifications'
+import { logger } from '@/shared/utils'
+
+/**
+ * Custom hook for the signed-in player's in-app notifications
+ *
+ * Listens to their most recent notifications, plus every unread one so the
+ * unread count and "mark all read" cover more than the recent page, and
+ * exposes helpers to mark notifications read.
+ */
+export const useNotifications = () => {
+	const { authStateUser } = useAuthContext()
+	const playerId = authStateUser?.uid
+
+	const query = useMemo(() => notificationsQuery(playerId), [playerId])
+	const [notificationsSnapshot, notificationsLoading] = useCollection(query)
+
+	const notifications = useMemo(
+		() => notificationsSnapshot?.docs ?? [],
+		[notificationsSnapshot]
+	)
+
+	const unreadQuery = useMemo(
+		() => unreadNotificationsQuery(playerId),
+		[playerId]
+	)
+	const [unreadSnapshot] = useCollection(unreadQuery)
+
+	const unreadCount = unreadSnapshot?.size ?? 0
+
+	const markRead = useCallback(
+		async (notificationId: string) => {
+			if (!playerId) return
+			try {
+				await markNotificationRead(playerId, notificationId)
+			} catch (error) {
+				logger.error('Failed to mark notification read:', error)
+			}
+		},
+		[playerId]
+	)
+
+	const markAllRead = useCallback(async () => {
+		if (!playerId) return
+		try {
+			await markNotificationsRead(
+				playerId,
+				unreadSnapshot?.docs.map((doc) => doc.id) ?? []
+			)
+		} catch (error) {
+			logger.error('Failed to mark notifications read:', error)
+		}
+	}, [playerId, unreadSnapshot])
+
+	return {
+		isAuthenticated: !!authStateUser,
+		notifications,
+		notificationsLoading,
+		unreadCount,
+		markRead,
+		markAllRead,
+	}
+}
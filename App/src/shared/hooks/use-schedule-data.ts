@@ -3,6 +3,11 @@ import { QueryDocumentSnapshot } from '@/firebase'
 import { GameDocument } from '@/shared/utils'
 import { useGamesContext } from '@/providers'
 
+/**
+ * A scheduled game along with its document ID
+ */
+export type ScheduleGame = GameDocument & { id: string }
+
 /**
  * useScheduleData Hook
  *
@@ -12,8 +17,8 @@ import { useGamesContext } from '@/providers'
 export const useScheduleData = () => {
 	const { gamesQuerySnapshot } = useGamesContext()
 
-	const rounds: GameDocument[][] = useMemo(() => {
-		const result: GameDocument[][] = []
+	const rounds: ScheduleGame[][] = useMemo(() => {
+		const result: ScheduleGame[][] = []
 		let index: number = 0
 		let previousTimestamp: number = 0
 
@@ -31,7 +36,10 @@ export const useScheduleData = () => {
 				if (!result[index]) {
 					result[index] = []
 				}
-				result[index].push(queryDocumentSnapshot.data())
+				result[index].push({
+					...queryDocumentSnapshot.data(),
+					id: queryDocumentSnapshot.id,
+				})
 			})
 		return result
 	}, [gamesQuerySnapshot])
@@ -40,8 +48,8 @@ export const useScheduleData = () => {
 		const today = new Date()
 		today.setHours(0, 0, 0, 0)
 
-		const upcoming: Array<{ round: GameDocument[]; originalIndex: number }> = []
-		const completed: Array<{ round: GameDocument[]; originalIndex: number }> =
+		const upcoming: Array<{ round: ScheduleGame[]; originalIndex: number }> = []
+		const completed: Array<{ round: ScheduleGame[]; originalIndex: number }> =
 			[]
 
 		rounds.forEach((round, index) => {
@@ -1,6 +1,10 @@
 import { useMemo } from 'react'
 import { QuerySnapshot } from '@/firebase'
-import { GameDocument, hasAssignedTeams } from '@/shared/utils'
+import {
+	GameDocument,
+	hasAssignedTeams,
+	hasCountedResult,
+} from '@/shared/utils'
 
 export type TeamStanding = {
 	pointsFor: number
@@ -26,13 +30,14 @@ export const useStandings = (
 				return
 			}
 
-			const { home, away, homeScore, awayScore } = gameData
-
-			// Skip games that haven't been played yet (null scores)
-			if (homeScore === null || awayScore === null) {
+			// Skip games without a result yet, and postponed or canceled games.
+			// Forfeits count, with the season's forfeit score.
+			if (!hasCountedResult(gameData)) {
 				return
 			}
 
+			const { home, away, homeScore, awayScore } = gameData
+
 			const updateTeamStanding = (
 				teamId: string,
 				pointsFor: number,
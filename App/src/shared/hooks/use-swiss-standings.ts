@@ -12,7 +12,11 @@
 
 import { useMemo } from 'react'
 import { QuerySnapshot } from '@/firebase'
-import { GameDocument, hasAssignedTeams } from '@/shared/utils'
+import {
+	GameDocument,
+	hasAssignedTeams,
+	hasCountedResult,
+} from '@/shared/utils'
 
 /**
  * Swiss team standing with Buchholz calculation
@@ -67,13 +71,14 @@ export const useSwissStandings = (
 				return
 			}
 
-			const { home, away, homeScore, awayScore } = gameData
-
-			// Skip games that haven't been played yet (null scores)
-			if (homeScore === null || awayScore === null) {
+			// Skip games without a result yet, and postponed or canceled games.
+			// Forfeits count, with the season's forfeit score.
+			if (!hasCountedResult(gameData)) {
 				return
 			}
 
+			const { home, away, homeScore, awayScore } = gameData
+
 			const homeId = home.id
 			const awayId = away.id
 
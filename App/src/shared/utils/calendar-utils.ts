@@ -0,0 +1,24 @@
+/**
+ * Calendar feed utilities
+ *
+ * Builds subscription links for the iCalendar schedule feeds served at
+ * /calendar by the calendarFeed function
+ */
+
+/**
+ * URL of a season's schedule feed, or one team's games when `teamId` is set
+ */
+export const getCalendarFeedUrl = (seasonId: string, teamId?: string): string =>
+	`${window.location.origin}/calendar/${seasonId}${teamId ? `/${teamId}` : ''}.ics`
+
+/**
+ * webcal:// link that opens the feed in the device's calendar app
+ */
+export const getWebcalUrl = (feedUrl: string): string =>
+	feedUrl.replace(/^https?:/, 'webcal:')
+
+/**
+ * Link that subscribes to the feed in Google Calendar
+ */
+export const getGoogleCalendarUrl = (feedUrl: string): string =>
+	`https://calendar.google.com/calendar/render?cid=${encodeURIComponent(getWebcalUrl(feedUrl))}`
@@ -62,3 +62,34 @@ export const formatTimestampWithTime = (
 	const date = new Date(timestamp.seconds * 1000)
 	return formatDateTime(date)
 }
+
+/**
+ * Build an ISO 8601 timestamp for a local date and time, including the
+ * browser's UTC offset (e.g. `2025-11-08T18:00:00.000-06:00`)
+ *
+ * Game callables validate the date and time as written in the string, so the
+ * local wall-clock time the admin picked is preserved.
+ */
+export const toLocalIsoTimestamp = (date: string, time: string): string => {
+	const dateObj = new Date(`${date}T${time}`)
+	const timezoneOffset = -dateObj.getTimezoneOffset()
+	const offsetHours = Math.floor(Math.abs(timezoneOffset) / 60)
+	const offsetMinutes = Math.abs(timezoneOffset) % 60
+	const offsetSign = timezoneOffset >= 0 ? '+' : '-'
+	const offsetString = `${offsetSign}${String(offsetHours).padStart(2, '0')}:${String(offsetMinutes).padStart(2, '0')}`
+	return `${date}T${time}:00.000${offsetString}`
+}
+
+/**
+ * Format a duration as the two largest units, e.g. `3d 4h`, `5h 12m`, `12m`
+ */
+export const formatTimeRemaining = (milliseconds: number): string => {
+	const totalMinutes = Math.max(0, Math.floor(milliseconds / 60000))
+	const days = Math.floor(totalMinutes / (24 * 60))
+	const hours = Math.floor((totalMinutes % (24 * 60)) / 60)
+	const minutes = totalMinutes % 60
+
+	if (days > 0) return `${days}d ${hours}h`
+	if (hours > 0) return `${hours}h ${minutes}m`
+	return `${minutes}m`
+}
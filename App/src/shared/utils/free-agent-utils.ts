@@ -0,0 +1,24 @@
+import { ExperienceLevel, FreeAgentAvailability } from '@/types'
+
+/**
+ * Display labels for free-agent profile fields, shared by the profile editor
+ * and the captains' looking-for-team board.
+ */
+
+export const FREE_AGENT_AVAILABILITY_LABELS: Record<
+	FreeAgentAvailability,
+	string
+> = {
+	[FreeAgentAvailability.EVERY_WEEK]: 'Every week',
+	[FreeAgentAvailability.MOST_WEEKS]: 'Most weeks',
+	[FreeAgentAvailability.SOME_WEEKS]: 'Some weeks',
+}
+
+export const EXPERIENCE_LEVEL_LABELS: Record<ExperienceLevel, string> = {
+	[ExperienceLevel.NEW]: 'New to the sport',
+	[ExperienceLevel.RECREATIONAL]: 'Recreational',
+	[ExperienceLevel.COMPETITIVE]: 'Competitive',
+}
+
+/** Mirrors FREE_AGENT_PROFILE_CONFIG.BLURB_MAX_LENGTH in Functions */
+export const FREE_AGENT_BLURB_MAX_LENGTH = 280
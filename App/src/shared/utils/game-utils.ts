@@ -2,7 +2,7 @@
  * Game-related utility functions
  */
 
-import { GameDocument, DocumentReference } from '@/types'
+import { GameDocument, DocumentReference, GameStatus } from '@/types'
 
 /**
  * Type guard to check if a game has assigned teams (not a placeholder game)
@@ -37,3 +37,68 @@ export const getTeamRole = (
 
 	return null
 }
+
+/**
+ * Display labels for game statuses
+ */
+export const GAME_STATUS_LABELS: Record<GameStatus, string> = {
+	[GameStatus.SCHEDULED]: 'Scheduled',
+	[GameStatus.IN_PROGRESS]: 'In progress',
+	[GameStatus.FINAL]: 'Final',
+	[GameStatus.FORFEIT]: 'Forfeit',
+	[GameStatus.POSTPONED]: 'Postponed',
+	[GameStatus.CANCELED]: 'Canceled',
+}
+
+/**
+ * The game's status, derived from its date and scores when none is stored
+ * (or the stored one is scheduled or in progress, which time overtakes).
+ * Mirrors `getGameStatus` in Functions/src/shared/gameStatus.ts.
+ */
+export const getGameStatus = (
+	game: GameDocument,
+	now: Date = new Date()
+): GameStatus => {
+	if (
+		game.status &&
+		game.status !== GameStatus.SCHEDULED &&
+		game.status !== GameStatus.IN_PROGRESS
+	) {
+		return game.status
+	}
+	if (game.homeScore !== null && game.awayScore !== null) {
+		return GameStatus.FINAL
+	}
+	return game.date.toDate() > now
+		? GameStatus.SCHEDULED
+		: GameStatus.IN_PROGRESS
+}
+
+/**
+ * Whether the game's result counts toward standings: a final score or a
+ * forfeit (scored with the season's forfeit score). Postponed and canceled
+ * games never count.
+ */
+export const hasCountedResult = (
+	game: GameDocument
+): game is GameDocument & { homeScore: number; awayScore: number } => {
+	const status = getGameStatus(game)
+	return (
+		(status === GameStatus.FINAL || status === GameStatus.FORFEIT) &&
+		game.homeScore !== null &&
+		game.awayScore !== null
+	)
+}
+
+/**
+ * Whether the game is settled without being played (forfeited, postponed
+ * or canceled)
+ */
+export const isUnplayed = (game: GameDocument): boolean => {
+	const status = getGameStatus(game)
+	return (
+		status === GameStatus.FORFEIT ||
+		status === GameStatus.POSTPONED ||
+		status === GameStatus.CANCELED
+	)
+}
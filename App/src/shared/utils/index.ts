@@ -11,6 +11,10 @@ export * from './date-time'
 export * from './season-utils'
 export * from './environment'
 export * from './game-utils'
+export * from './calendar-utils'
+export * from './free-agent-utils'
+export * from './spirit-utils'
+export * from './player-gender'
 export { lazyImport } from './lazy-import'
 export { logger } from './logger'
 export {
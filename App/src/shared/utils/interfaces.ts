@@ -8,7 +8,12 @@ export type {
 	SeasonDocument,
 	OfferDocument,
 	GameDocument,
+	GameBracketSlot,
+	GameAttendanceDocument,
+	SpiritRatingDocument,
 	WaiverDocument,
+	PaymentDocument,
+	PaymentStatus,
 	DocumentData,
 	Timestamp,
 } from '../../types'
@@ -19,7 +24,11 @@ export {
 	OfferType,
 	OfferDirection,
 	GameType,
+	PlayoffBracket,
+	PlayoffFormat,
 	SeasonFormat,
 	PLAYER_SEASONS_SUBCOLLECTION,
 	TEAM_SEASONS_SUBCOLLECTION,
+	GAME_ATTENDANCE_SUBCOLLECTION,
+	GAME_SPIRIT_RATINGS_SUBCOLLECTION,
 } from '../../types'
@@ -0,0 +1,10 @@
+import { PlayerGender } from '@/types'
+
+/**
+ * Display labels for the self-reported gender used by season roster limits
+ */
+export const PLAYER_GENDER_LABELS: Record<PlayerGender, string> = {
+	[PlayerGender.WOMAN]: 'Woman',
+	[PlayerGender.MAN]: 'Man',
+	[PlayerGender.NON_BINARY]: 'Non-binary',
+}
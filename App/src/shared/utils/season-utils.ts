@@ -1,5 +1,10 @@
 import { DocumentReference, QuerySnapshot } from 'firebase/firestore'
-import { PlayerSeasonDocument, SeasonDocument } from '@/types'
+import {
+	DEFAULT_SEASON_RULES,
+	PlayerSeasonDocument,
+	SeasonDocument,
+	SeasonRules,
+} from '@/types'
 
 /**
  * Utility functions for working with player season data.
@@ -81,3 +86,48 @@ export const didPlayerPayPreviousSeason = (
 		?.data()
 	return Boolean(previousPlayerSeason?.paid)
 }
+
+/**
+ * Returns a season's league rules with any unset rule filled in from the
+ * league-wide defaults. Limits the season doesn't set are null (no limit).
+ */
+export const getSeasonRules = (
+	season: SeasonDocument | undefined
+): Required<Omit<SeasonRules, 'maxRosterSize' | 'maxCaptains'>> & {
+	maxRosterSize: number | null
+	maxCaptains: number | null
+} => {
+	const rules = season?.rules ?? {}
+	return {
+		minPlayersForRegistration:
+			rules.minPlayersForRegistration ??
+			DEFAULT_SEASON_RULES.minPlayersForRegistration,
+		registeredTeamsForLock:
+			rules.registeredTeamsForLock ??
+			DEFAULT_SEASON_RULES.registeredTeamsForLock,
+		allowedTimeSlots: rules.allowedTimeSlots?.length
+			? rules.allowedTimeSlots
+			: [...DEFAULT_SEASON_RULES.allowedTimeSlots],
+		allowedFields: rules.allowedFields?.length
+			? rules.allowedFields
+			: [...DEFAULT_SEASON_RULES.allowedFields],
+		allowedMonths: rules.allowedMonths?.length
+			? rules.allowedMonths
+			: [...DEFAULT_SEASON_RULES.allowedMonths],
+		offerExpirationDays:
+			rules.offerExpirationDays ?? DEFAULT_SEASON_RULES.offerExpirationDays,
+		offerReminderHours:
+			rules.offerReminderHours ?? DEFAULT_SEASON_RULES.offerReminderHours,
+		maxRosterSize: rules.maxRosterSize ?? DEFAULT_SEASON_RULES.maxRosterSize,
+		minCaptains: rules.minCaptains ?? DEFAULT_SEASON_RULES.minCaptains,
+		maxCaptains: rules.maxCaptains ?? DEFAULT_SEASON_RULES.maxCaptains,
+		maxPlayersPerGender:
+			rules.maxPlayersPerGender ?? DEFAULT_SEASON_RULES.maxPlayersPerGender,
+		minPlayersPerGender:
+			rules.minPlayersPerGender ?? DEFAULT_SEASON_RULES.minPlayersPerGender,
+		forfeitWinnerScore:
+			rules.forfeitWinnerScore ?? DEFAULT_SEASON_RULES.forfeitWinnerScore,
+		forfeitLoserScore:
+			rules.forfeitLoserScore ?? DEFAULT_SEASON_RULES.forfeitLoserScore,
+	}
+}
@@ -0,0 +1,102 @@
+import { SpiritCategory, SpiritRatingDocument } from '@/types'
+
+/**
+ * Spirit rating labels and aggregation, shared by the captains' rating
+ * dialog, the public spirit leaderboard and the admin spirit report.
+ */
+
+export const SPIRIT_CATEGORY_LABELS: Record<SpiritCategory, string> = {
+	[SpiritCategory.FAIR_PLAY]: 'Fair play',
+	[SpiritCategory.RESPECT]: 'Respect',
+	[SpiritCategory.SELF_CONTROL]: 'Self-control',
+	[SpiritCategory.ATTITUDE]: 'Attitude',
+}
+
+export const SPIRIT_CATEGORY_DESCRIPTIONS: Record<SpiritCategory, string> = {
+	[SpiritCategory.FAIR_PLAY]:
+		'Played within the rules and avoided dangerous contact',
+	[SpiritCategory.RESPECT]: 'Treated opponents and officials with respect',
+	[SpiritCategory.SELF_CONTROL]: 'Kept their composure and did not retaliate',
+	[SpiritCategory.ATTITUDE]: 'Positive attitude and good communication',
+}
+
+/** Mirrors SPIRIT_CONFIG in Functions */
+export const SPIRIT_MIN_SCORE = 1
+export const SPIRIT_MAX_SCORE = 5
+export const SPIRIT_COMMENT_MAX_LENGTH = 500
+
+/** A rating averaging this or lower is flagged for admins */
+export const SPIRIT_LOW_RATING_THRESHOLD = 2.5
+
+/**
+ * Average of a rating's category scores
+ */
+export const getSpiritRatingAverage = (
+	rating: SpiritRatingDocument
+): number => {
+	const scores = Object.values(SpiritCategory).map(
+		(category) => rating.scores[category]
+	)
+	return scores.reduce((sum, score) => sum + score, 0) / scores.length
+}
+
+/**
+ * Spirit ratings received by one team
+ */
+export interface SpiritSummary {
+	/** Canonical team ID of the rated team */
+	teamId: string
+	/** Number of ratings received */
+	count: number
+	/** Average score per category */
+	categoryAverages: Record<SpiritCategory, number>
+	/** Average across all categories and ratings */
+	average: number
+	/** Ratings averaging at or below SPIRIT_LOW_RATING_THRESHOLD */
+	lowRatings: SpiritRatingDocument[]
+	/** Ratings that came with a comment, newest first */
+	commented: SpiritRatingDocument[]
+}
+
+/**
+ * Groups ratings by the team they rate and averages them, best spirit first
+ */
+export const summarizeSpiritRatings = (
+	ratings: SpiritRatingDocument[]
+): SpiritSummary[] => {
+	const byTeam = new Map<string, SpiritRatingDocument[]>()
+	ratings.forEach((rating) => {
+		const teamRatings = byTeam.get(rating.ratedTeam.id) ?? []
+		teamRatings.push(rating)
+		byTeam.set(rating.ratedTeam.id, teamRatings)
+	})
+
+	return Array.from(byTeam, ([teamId, teamRatings]) => {
+		const categoryAverages = Object.fromEntries(
+			Object.values(SpiritCategory).map((category) => [
+				category,
+				teamRatings.reduce((sum, rating) => sum + rating.scores[category], 0) /
+					teamRatings.length,
+			])
+		) as Record<SpiritCategory, number>
+		const average =
+			teamRatings.reduce(
+				(sum, rating) => sum + getSpiritRatingAverage(rating),
+				0
+			) / teamRatings.length
+
+		return {
+			teamId,
+			count: teamRatings.length,
+			categoryAverages,
+			average,
+			lowRatings: teamRatings.filter(
+				(rating) =>
+					getSpiritRatingAverage(rating) <= SPIRIT_LOW_RATING_THRESHOLD
+			),
+			commented: teamRatings
+				.filter((rating) => rating.comment)
+				.sort((a, b) => b.submittedAt.toMillis() - a.submittedAt.toMillis()),
+		}
+	}).sort((a, b) => b.average - a.average || b.count - a.count)
+}
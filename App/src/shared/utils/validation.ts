@@ -127,6 +127,8 @@ export const profileFormSchema = z.object({
 	firstname: nameSchema,
 	lastname: nameSchema,
 	email: emailSchema,
+	/** A PlayerGender value, or empty when not set */
+	gender: z.string(),
 })
 
 export const teamFormSchema = z.object({
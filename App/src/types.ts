@@ -32,11 +32,33 @@ export type Timestamp = ClientTimestamp
  */
 export const RATING_PRECISION_MULTIPLIER = 1000000
 
+/**
+ * League-wide rules used when a season doesn't override them
+ * Note: These values must match TEAM_CONFIG, OFFER_CONFIG and GAME_CONFIG in Functions/src/config/constants.ts
+ */
+export const DEFAULT_SEASON_RULES = {
+	minPlayersForRegistration: 10,
+	registeredTeamsForLock: 12,
+	allowedTimeSlots: ['18:00', '18:45', '19:30', '20:15'],
+	allowedFields: [1, 2, 3],
+	allowedMonths: [11, 12],
+	offerExpirationDays: 7,
+	offerReminderHours: 24,
+	maxRosterSize: null,
+	minCaptains: 1,
+	maxCaptains: null,
+	maxPlayersPerGender: {},
+	minPlayersPerGender: {},
+	forfeitWinnerScore: 10,
+	forfeitLoserScore: 0,
+} as const
+
 /////////////////////////////////////////////////////////////////
 /////////////////////////// Enums ///////////////////////////////
 /////////////////////////////////////////////////////////////////
 
 export enum Collections {
+	AUDIT_LOG = 'auditLog',
 	BADGES = 'badges',
 	DROPBOX = 'dropbox',
 	GAMES = 'games',
@@ -47,11 +69,12 @@ export enum Collections {
 	RANKINGS = 'rankings',
 	RANKINGS_HISTORY = 'rankings-history',
 	RANKINGS_CALCULATIONS = 'rankings-calculations',
-	// RANKINGS_CALCULATED_ROUNDS removed - incremental updates deprecated in favor of full rebuilds
+	RANKINGS_CHECKPOINT = 'rankings-checkpoint',
 	SEASONS = 'seasons',
 	SITE_SETTINGS = 'siteSettings',
 	STRIPE = 'stripe',
 	TEAMS = 'teams',
+	TEAM_HISTORY = 'teamHistory',
 }
 
 /**
@@ -68,6 +91,24 @@ export const PLAYER_SEASONS_SUBCOLLECTION = 'playerSeasons'
  */
 export const TEAM_SEASONS_SUBCOLLECTION = 'teamSeasons'
 
+/**
+ * Subcollection name for per-game attendance, living under
+ * `games/{gameId}/attendance/{playerId}`.
+ */
+export const GAME_ATTENDANCE_SUBCOLLECTION = 'attendance'
+
+/**
+ * Subcollection name for post-game spirit ratings, living under
+ * `games/{gameId}/spiritRatings/{teamId}`.
+ */
+export const GAME_SPIRIT_RATINGS_SUBCOLLECTION = 'spiritRatings'
+
+/**
+ * Subcollection name for in-app notifications, living under
+ * `players/{uid}/notifications/{notificationId}`.
+ */
+export const NOTIFICATIONS_SUBCOLLECTION = 'notifications'
+
 /**
  * Available theme variants for the site
  * Add new themes here - they will automatically appear in the admin settings
@@ -87,6 +128,11 @@ export enum OfferType {
 	REQUEST = 'request',
 }
 
+/**
+ * `canceledReason` of a pending offer canceled because it passed `expiresAt`
+ */
+export const OFFER_EXPIRED_REASON = 'expired'
+
 export enum OfferDirection {
 	INCOMING_INVITE = 'incomingInvite',
 	INCOMING_REQUEST = 'incomingRequest',
@@ -99,6 +145,42 @@ export enum GameType {
 	PLAYOFF = 'playoff',
 }
 
+/**
+ * Where a game is in its lifecycle.
+ *
+ * Games without a stored status (created before statuses existed, or never
+ * changed by an admin) are treated as scheduled, in progress, or final from
+ * their date and scores; see `getGameStatus`.
+ */
+export enum GameStatus {
+	SCHEDULED = 'scheduled',
+	IN_PROGRESS = 'inProgress',
+	FINAL = 'final',
+	/** One team didn't play; scored with the season's forfeit score */
+	FORFEIT = 'forfeit',
+	/** Not played on its date; may link to the game that replaces it */
+	POSTPONED = 'postponed',
+	CANCELED = 'canceled',
+}
+
+/**
+ * Playoff bracket formats
+ */
+export enum PlayoffFormat {
+	/** A single bracket of every seeded team */
+	SINGLE_ELIMINATION = 'singleElimination',
+	/** A championship bracket for the top seeds and a consolation bracket for the rest */
+	CONSOLATION = 'consolation',
+}
+
+/**
+ * Brackets a generated playoff game can belong to
+ */
+export enum PlayoffBracket {
+	CHAMPIONSHIP = 'championship',
+	CONSOLATION = 'consolation',
+}
+
 /**
  * Season format type
  * - traditional: Standard win/loss standings sorted by wins, then point differential
@@ -109,10 +191,85 @@ export enum SeasonFormat {
 	SWISS = 'swiss',
 }
 
+/**
+ * Rule a badge can be awarded automatically by
+ * - Game rules are checked whenever a game is scored
+ * - Registration and placement rules are checked when a season ends
+ * - Season-count rules are checked at both points
+ */
+export enum BadgeCriterionType {
+	/** Win a game by at least `threshold` points */
+	WIN_MARGIN = 'winMargin',
+	/** Play in a game with at least `threshold` combined points */
+	GAME_TOTAL_POINTS = 'gameTotalPoints',
+	/** Score at least `threshold` points in a game */
+	POINTS_AT_LEAST = 'pointsAtLeast',
+	/** Score at most `threshold` points in a game */
+	POINTS_AT_MOST = 'pointsAtMost',
+	/** Win `threshold` games in a row */
+	WIN_STREAK = 'winStreak',
+	/** Lose `threshold` games in a row */
+	LOSS_STREAK = 'lossStreak',
+	/** Be the first team to fully register for a season */
+	FIRST_REGISTERED = 'firstRegistered',
+	/** Be the last team to fully register for a season */
+	LAST_REGISTERED = 'lastRegistered',
+	/** Compete in `threshold` different seasons */
+	SEASONS_PLAYED = 'seasonsPlayed',
+	/** Compete in `threshold` seasons in a row */
+	CONSECUTIVE_SEASONS = 'consecutiveSeasons',
+	/** Place higher than the previous season */
+	PLACEMENT_IMPROVED = 'placementImproved',
+	/** Place lower than the previous season */
+	PLACEMENT_DECLINED = 'placementDeclined',
+}
+
 /////////////////////////////////////////////////////////////////
 //////////////////////// Firestore Document Types ///////////////
 /////////////////////////////////////////////////////////////////
 
+/**
+ * Gender a player identifies with. Only used to apply a season's roster
+ * gender limits.
+ */
+export enum PlayerGender {
+	WOMAN = 'woman',
+	MAN = 'man',
+	NON_BINARY = 'nonBinary',
+}
+
+/**
+ * Categories of league email a player can turn off from their profile
+ */
+export enum EmailCategory {
+	/** Invitations and join requests received or accepted */
+	OFFERS = 'offers',
+	/** Team registration and waitlist updates */
+	TEAM_REGISTRATION = 'teamRegistration',
+	/** Rescheduled games */
+	SCHEDULE = 'schedule',
+	/** Payment receipts */
+	PAYMENTS = 'payments',
+}
+
+/**
+ * How often a free agent expects to make game nights
+ */
+export enum FreeAgentAvailability {
+	EVERY_WEEK = 'everyWeek',
+	MOST_WEEKS = 'mostWeeks',
+	SOME_WEEKS = 'someWeeks',
+}
+
+/**
+ * Self-reported experience level on a free-agent profile
+ */
+export enum ExperienceLevel {
+	NEW = 'new',
+	RECREATIONAL = 'recreational',
+	COMPETITIVE = 'competitive',
+}
+
 /**
  * Player document structure representing a user in the system.
  *
@@ -129,6 +286,13 @@ export interface PlayerDocument extends DocumentData {
 	firstname: string
 	/** Player's last name */
 	lastname: string
+	/**
+	 * Email categories the player has turned off. A category that is missing
+	 * or `true` is sent.
+	 */
+	emailPreferences?: Partial<Record<EmailCategory, boolean>>
+	/** Self-reported gender, used for roster gender limits. Optional. */
+	gender?: PlayerGender
 }
 
 /**
@@ -172,6 +336,35 @@ export interface PlayerSeasonDocument extends DocumentData {
 	 * directly.
 	 */
 	captain: boolean
+	/**
+	 * Players this player asked to be placed on a team with while a free
+	 * agent. Set with the `updateTeammateRequests` callable; the free-agent
+	 * draft keeps requested players together where it can.
+	 */
+	requestedTeammates?: DocumentReference<PlayerDocument>[]
+	/**
+	 * Looking-for-team listing shown to captains. Set with the
+	 * `updateFreeAgentProfile` callable; `addPlayerToTeam` switches it off
+	 * when the player joins a team. Preferred teammates are the player's
+	 * `requestedTeammates`.
+	 */
+	freeAgentProfile?: FreeAgentProfile
+}
+
+/**
+ * A player's looking-for-team listing for one season
+ */
+export interface FreeAgentProfile {
+	/** Whether the listing is shown to captains */
+	active: boolean
+	/** How many of the season's game nights the player expects to make */
+	availability: FreeAgentAvailability
+	/** Self-reported experience level */
+	experience: ExperienceLevel
+	/** Short introduction, up to 280 characters */
+	blurb: string
+	/** Timestamp when the listing was last changed */
+	updatedAt: Timestamp
 }
 
 /**
@@ -209,8 +402,15 @@ export interface TeamSeasonDocument extends DocumentData {
 	storagePath: string | null
 	/** Whether the team meets registration requirements for this season */
 	registered: boolean
-	/** Timestamp when the team became registered for this season (null if not yet) */
+	/**
+	 * Timestamp when the team met the registration requirements for this
+	 * season (null if not yet). Orders the waitlist.
+	 */
 	registeredDate: Timestamp | null
+	/** Whether the team met the requirements after the season filled up */
+	waitlisted?: boolean
+	/** 1-based position on the season's waitlist (null when not waitlisted) */
+	waitlistPosition?: number | null
 	/** Team's final placement for this season (nullable if incomplete) */
 	placement: number | null
 	/** Initial seed for Swiss-format seasons (nullable) */
@@ -252,6 +452,50 @@ export interface SeasonStripeConfig {
 	returningPlayerCouponIdDev?: string
 }
 
+/**
+ * League rules for a season. Every field is optional; missing values fall
+ * back to the defaults in Functions/src/config/constants.ts (TEAM_CONFIG,
+ * OFFER_CONFIG and GAME_CONFIG).
+ */
+export interface SeasonRules {
+	/** Paid and signed players a team needs to be registered */
+	minPlayersForRegistration?: number
+	/** Registered teams at which registration locks */
+	registeredTeamsForLock?: number
+	/** Game start times in HH:MM (24-hour, Central time) */
+	allowedTimeSlots?: string[]
+	/** Field numbers games can be played on */
+	allowedFields?: number[]
+	/** Calendar months (1-12) games can be played in */
+	allowedMonths?: number[]
+	/** Days a pending offer stays open before it expires */
+	offerExpirationDays?: number
+	/** Hours before an offer expires that its recipient is reminded (0 = never) */
+	offerReminderHours?: number
+	/** Most players a team's roster can carry (unset = no limit) */
+	maxRosterSize?: number
+	/** Fewest captains a team can be left with */
+	minCaptains?: number
+	/** Most captains a team can have (unset = no limit) */
+	maxCaptains?: number
+	/**
+	 * Most players of each gender a roster can carry, e.g. to keep mixed
+	 * rosters balanced. Genders without a limit, and players who haven't set
+	 * a gender, aren't counted.
+	 */
+	maxPlayersPerGender?: Partial<Record<PlayerGender, number>>
+	/**
+	 * Fewest players of each gender a team needs among its paid and signed
+	 * players to register, e.g. to require mixed rosters. On a capped roster,
+	 * spots still needed for these are held back from other players.
+	 */
+	minPlayersPerGender?: Partial<Record<PlayerGender, number>>
+	/** Score recorded for the team that didn't forfeit */
+	forfeitWinnerScore?: number
+	/** Score recorded for the team that forfeited */
+	forfeitLoserScore?: number
+}
+
 /**
  * Season document structure representing a season in the system.
  *
@@ -275,6 +519,10 @@ export interface SeasonDocument extends DocumentData {
 	stripe?: SeasonStripeConfig
 	/** Season format type - defaults to 'traditional' for backward compatibility */
 	format?: SeasonFormat
+	/** League rules - missing values fall back to the league-wide defaults */
+	rules?: SeasonRules
+	/** When badge rules were last evaluated for the season after it ended */
+	badgesEvaluatedAt?: Timestamp
 }
 
 /**
@@ -301,6 +549,15 @@ export interface OfferDocument extends DocumentData {
 	type: OfferType
 	/** Reason why an offer was automatically canceled (e.g., player joined another team) */
 	canceledReason?: string
+	/**
+	 * When the offer is canceled if still pending, with `canceledReason` set
+	 * to OFFER_EXPIRED_REASON. Set from the season's `offerExpirationDays`
+	 * when the offer is created; offers created before expiry existed have
+	 * none and never expire.
+	 */
+	expiresAt?: Timestamp
+	/** When the recipient was reminded that the offer is about to expire */
+	reminderSentAt?: Timestamp
 	/** Whether the offer has been processed by the offerUpdated trigger */
 	processed?: boolean
 	/** Error message if processing failed */
@@ -348,6 +605,202 @@ export interface GameDocument extends DocumentData {
 	season: DocumentReference<SeasonDocument>
 	/** Type of game: regular season or playoff */
 	type: GameType
+	/**
+	 * Position in a generated playoff bracket. Absent for regular season games
+	 * and for playoff games entered by hand.
+	 */
+	bracket?: GameBracketSlot
+	/**
+	 * Pre-game win probability from the player rankings. Absent until both
+	 * teams are known.
+	 */
+	prediction?: GameWinPrediction
+	/**
+	 * Each team's latest score report, keyed by canonical team ID. A team's
+	 * new report replaces its earlier one. Absent until the first report.
+	 */
+	scoreReports?: Partial<Record<string, ScoreSubmission>>
+	/**
+	 * Where the captains' score reports stand. Absent for games nobody has
+	 * reported, including games scored directly by an admin.
+	 */
+	scoreStatus?: ScoreReportStatus
+	/** Lifecycle status; derived from the date and scores when absent */
+	status?: GameStatus
+	/**
+	 * Team that forfeited. Set only while `status` is forfeit, when the
+	 * scores hold the season's forfeit score in the other team's favor.
+	 */
+	forfeitedBy?: DocumentReference<TeamDocument> | null
+	/** Game that replaces a postponed or canceled game, if one was scheduled */
+	rescheduledTo?: DocumentReference<GameDocument> | null
+	/**
+	 * Teams that have submitted their spirit rating of the opponent. Absent
+	 * until the first rating.
+	 */
+	spiritRatedBy?: DocumentReference<TeamDocument>[]
+	/**
+	 * Revision of the game's calendar event. Bumped each time its date,
+	 * field, teams or status change; absent until the first such change.
+	 */
+	calendarSequence?: number
+}
+
+/**
+ * State of the captains' score reports for a game
+ */
+export enum ScoreReportStatus {
+	/** One team has reported; waiting on the other team's captain */
+	PENDING = 'pending',
+	/** Both teams reported the same score; `homeScore`/`awayScore` are set */
+	CONFIRMED = 'confirmed',
+	/** The teams' latest reports disagree; waiting on an admin */
+	DISPUTED = 'disputed',
+}
+
+/**
+ * A score reported by one team's captain.
+ *
+ * Written by the submitGameScore callable only.
+ */
+export interface ScoreSubmission {
+	/** Team the submitting captain plays for */
+	team: DocumentReference<TeamDocument>
+	/** Captain who reported the score */
+	submittedBy: DocumentReference<PlayerDocument>
+	homeScore: number
+	awayScore: number
+	submittedAt: Timestamp
+}
+
+/**
+ * Categories a team's spirit is rated in after a game, each scored 1 to 5
+ */
+export enum SpiritCategory {
+	/** Plays within the rules and avoids dangerous contact */
+	FAIR_PLAY = 'fairPlay',
+	/** Respects opponents and officials */
+	RESPECT = 'respect',
+	/** Keeps composure and avoids retaliation */
+	SELF_CONTROL = 'selfControl',
+	/** Positive attitude and good communication */
+	ATTITUDE = 'attitude',
+}
+
+/**
+ * One team's spirit rating of its opponent in a game.
+ *
+ * Stored at `games/{gameId}/spiritRatings/{teamId}`, keyed by the team that
+ * submitted it, so each team rates each game once. Written by the
+ * submitSpiritRating callable only. `revealed` flips to true on both ratings
+ * once both teams have submitted; until then only admins can read them.
+ */
+export interface SpiritRatingDocument extends DocumentData {
+	/** Season the game belongs to */
+	season: DocumentReference<SeasonDocument>
+	/** Game being rated */
+	game: DocumentReference<GameDocument>
+	/** Team that submitted the rating */
+	team: DocumentReference<TeamDocument>
+	/** Opponent being rated */
+	ratedTeam: DocumentReference<TeamDocument>
+	/** Captain who submitted the rating */
+	submittedBy: DocumentReference<PlayerDocument>
+	/** Score for each category, 1 (poor) to 5 (excellent) */
+	scores: Record<SpiritCategory, number>
+	/** Optional comment for the league */
+	comment: string | null
+	submittedAt: Timestamp
+	/** Whether both teams have rated the game */
+	revealed: boolean
+}
+
+/**
+ * A game's pre-game prediction.
+ *
+ * Written by the game predictions service from the live TrueSkill ratings of
+ * each team's season roster: when a game is created or its teams or date
+ * change, and again for upcoming games after every rankings update. Frozen
+ * once the game starts; when the game is scored, `upset` records whether
+ * the underdog won.
+ */
+export interface GameWinPrediction {
+	/** Probability (0-1) that the home team wins */
+	homeWinProbability: number
+	/**
+	 * TrueSkill match quality (0-1): how evenly matched the teams are, where
+	 * higher means a closer game is expected
+	 */
+	matchQuality: number
+	/** Number of rostered home players the prediction was made from */
+	homePlayers: number
+	/** Number of rostered away players the prediction was made from */
+	awayPlayers: number
+	/** When the prediction was computed */
+	computedAt: Timestamp
+	/**
+	 * Whether the underdog won (null until the game is scored, or when the
+	 * teams were dead even or the game was tied)
+	 */
+	upset: boolean | null
+}
+
+/**
+ * Where the winner of a bracket game plays next
+ */
+export interface GameBracketLink {
+	/** Reference to the next game in the bracket */
+	game: DocumentReference<GameDocument>
+	/** Which side of the next game the winner fills */
+	slot: 'home' | 'away'
+}
+
+/**
+ * A game's place in a playoff bracket.
+ *
+ * Written by the `generatePlayoffBracket` callable. When the game's score is
+ * recorded, the `onGameScored` trigger copies the winner (team, name and
+ * seed) into the `winnerTo` game, so later rounds start as placeholder games
+ * and fill in as results come in.
+ */
+export interface GameBracketSlot {
+	/** Which bracket the game belongs to */
+	bracket: PlayoffBracket
+	/** Round number (1-based); the final is round `rounds` */
+	round: number
+	/** Total number of rounds in the bracket */
+	rounds: number
+	/** Position within the round (1-based, top of the bracket first) */
+	matchup: number
+	/** Playoff seed of the home team (null until the team is known) */
+	homeSeed: number | null
+	/** Playoff seed of the away team (null until the team is known) */
+	awaySeed: number | null
+	/** Game the winner advances to (null for the bracket's final) */
+	winnerTo: GameBracketLink | null
+}
+
+/**
+ * Single attendance entry: a player who actually played in a game.
+ *
+ * Stored at `games/{gameId}/attendance/{playerId}`. The doc id is the
+ * player's UID, so a player can be marked present at most once per game.
+ * Written only by the `updateGameAttendance` callable (captains of either
+ * team, or admins); the App never writes this subcollection directly.
+ *
+ * The rankings rebuild credits a game result only to the players recorded
+ * here. When a team has no attendance entries for a game, it falls back to
+ * that team's season roster.
+ */
+export interface GameAttendanceDocument extends DocumentData {
+	/** Reference to the player who attended */
+	player: DocumentReference<PlayerDocument>
+	/** Reference to the canonical team the player played for in this game */
+	team: DocumentReference<TeamDocument>
+	/** Reference to the captain or admin who recorded the attendance */
+	recordedBy: DocumentReference<PlayerDocument>
+	/** Timestamp when the attendance entry was recorded */
+	recordedAt: Timestamp
 }
 
 /**
@@ -377,6 +830,69 @@ export interface WaiverDocument extends DocumentData {
 	signedAt?: Timestamp
 }
 
+/**
+ * Payment status values
+ *
+ * `paid`, `unpaid` and `no_payment_required` come from the Stripe checkout
+ * session; the rest are set by the Stripe webhook when the charge is later
+ * refunded or disputed.
+ */
+export type PaymentStatus =
+	| 'paid'
+	| 'unpaid'
+	| 'no_payment_required'
+	| 'partially_refunded'
+	| 'refunded'
+	| 'disputed'
+	| 'dispute_lost'
+
+/**
+ * Payment document structure
+ * Stored at: stripe/{uid}/payments/{checkoutSessionId}
+ * Created by the Stripe webhook when a checkout session completes
+ */
+export interface PaymentDocument extends DocumentData {
+	/** Stripe checkout session ID (same as the document ID) */
+	sessionId: string
+	/** Current status of the payment */
+	status: PaymentStatus
+	/** Amount charged, in the smallest currency unit */
+	amountTotal: number | null
+	/** Three-letter ISO currency code */
+	currency: string | null
+	/** Email the customer entered at checkout */
+	customerEmail: string | null
+	/** Stripe customer ID */
+	customerId?: string
+	/** Stripe payment intent ID, used to match refunds and disputes */
+	paymentIntentId?: string | null
+	/** Season the payment registered the player for */
+	seasonId?: string
+	/** Amount refunded so far, in the smallest currency unit */
+	amountRefunded?: number
+	/** Latest dispute on the charge, if any */
+	dispute?: {
+		/** Stripe dispute ID */
+		id: string
+		/** Stripe dispute status, e.g. `needs_response`, `won`, `lost` */
+		status: string
+		/** Reason given by the cardholder's bank */
+		reason: string
+		/** Payment status when the dispute opened, restored if it's won */
+		previousStatus?: PaymentStatus
+		/** Player's paid flag when the dispute opened, restored if it's won */
+		previousPaid?: boolean
+	}
+	/** Timestamp when the payment document was created */
+	created: Timestamp
+	/** Timestamp when Stripe created the checkout session */
+	stripeCreated: Timestamp
+	/** Timestamp of the last refund or dispute update */
+	updated?: Timestamp
+	/** Checkout session metadata */
+	metadata: Record<string, string> | null
+}
+
 /**
  * News post document structure
  */
@@ -429,6 +945,56 @@ export interface ReplyDocument extends DocumentData {
 	updatedAt: Timestamp
 }
 
+/**
+ * Kinds of in-app notification a player can receive
+ */
+export enum NotificationType {
+	OFFER_RECEIVED = 'offerReceived',
+	OFFER_ACCEPTED = 'offerAccepted',
+	OFFER_REJECTED = 'offerRejected',
+	OFFER_EXPIRING = 'offerExpiring',
+	ROSTER_REMOVED = 'rosterRemoved',
+	CAPTAIN_STATUS = 'captainStatus',
+	NEWS_POSTED = 'newsPosted',
+	WAIVER_STATUS = 'waiverStatus',
+	TEAM_REGISTRATION = 'teamRegistration',
+	GAME_SCORE = 'gameScore',
+	SPIRIT_RATING = 'spiritRating',
+}
+
+/**
+ * In-app notification document structure
+ * Subcollection: players/{uid}/notifications
+ *
+ * Written by Functions only. The owning player may read them and mark them
+ * read.
+ */
+export interface NotificationDocument extends DocumentData {
+	/** What the notification is about */
+	type: NotificationType
+	/** Short headline */
+	title: string
+	/** One or two sentences of detail */
+	body: string
+	/** In-app path to open when the notification is clicked, if any */
+	link: string | null
+	/** Whether the player has seen the notification */
+	read: boolean
+	/** Timestamp when the notification was created */
+	createdAt: Timestamp
+	/** Timestamp when the notification was marked read */
+	readAt?: Timestamp
+}
+
+/**
+ * Declarative rule for awarding a badge automatically
+ */
+export interface BadgeCriterion {
+	type: BadgeCriterionType
+	/** Points, games or seasons the rule requires (unused by registration and placement rules) */
+	threshold?: number
+}
+
 /**
  * Badge document structure representing a badge that can be awarded to teams
  */
@@ -449,6 +1015,8 @@ export interface BadgeDocument extends DocumentData {
 	createdBy: DocumentReference<PlayerDocument>
 	/** Timestamp when the badge was last updated */
 	updatedAt: Timestamp
+	/** Rule the badge is awarded by automatically (unset for manual-only badges) */
+	criterion?: BadgeCriterion | null
 	/** Statistics about badge awards (optional for backward compatibility) */
 	stats?: {
 		/** Number of unique teamIds that have been awarded this badge */
@@ -468,12 +1036,86 @@ export interface TeamBadgeDocument extends DocumentData {
 	badge: DocumentReference<BadgeDocument>
 	/** Timestamp when the badge was awarded to the team */
 	awardedAt: Timestamp
-	/** Reference to the admin player who awarded the badge */
-	awardedBy: DocumentReference<PlayerDocument>
+	/** Reference to the admin player who awarded the badge (null when awarded by the badge's rule) */
+	awardedBy: DocumentReference<PlayerDocument> | null
 	/** Season id during which this badge was earned (denormalized for filtering) */
 	seasonId: string
 }
 
+/**
+ * Win/loss tally shared by a team's history aggregates. A tie credits
+ * neither wins nor losses.
+ */
+export interface TeamRecord {
+	wins: number
+	losses: number
+	ties: number
+	pointsFor: number
+	pointsAgainst: number
+}
+
+/**
+ * One season of a team's franchise history
+ */
+export interface TeamHistorySeason {
+	/** Reference to the season */
+	season: DocumentReference<SeasonDocument>
+	/** Team name that season */
+	name: string
+	/** Regular season record */
+	regularSeason: TeamRecord
+	/** Playoff record */
+	playoffs: TeamRecord
+	/** Whether the team played a playoff game that season */
+	madePlayoffs: boolean
+	/** Final placement, when recorded */
+	placement: number | null
+}
+
+/**
+ * A team's all-time record against one opponent
+ */
+export interface TeamHeadToHead extends TeamRecord {
+	/** Reference to the opposing canonical team */
+	opponent: DocumentReference<TeamDocument>
+	/** Opponent's name in the most recent game between the teams */
+	opponentName: string
+	/** Playoff games between the teams, counted in the record too */
+	playoffGames: number
+	/** Date of the most recent game between the teams */
+	lastPlayed: Timestamp
+}
+
+/**
+ * Precomputed all-time history of a canonical team.
+ *
+ * Stored at `teamHistory/{teamId}`. Rebuilt from the team's games and
+ * `teamSeasons` by the team history service whenever one of its games is
+ * scored, changed or removed, and when a season's name or placement
+ * changes, so pages never scan every game. Only games with a counted
+ * result (final or forfeit) are included.
+ */
+export interface TeamHistoryDocument extends DocumentData {
+	/** Reference to the canonical team */
+	team: DocumentReference<TeamDocument>
+	/** All-time record across every season, playoffs included */
+	allTime: TeamRecord
+	/** All-time playoff record */
+	playoffs: TeamRecord
+	/** Number of seasons the team played a playoff game */
+	playoffAppearances: number
+	/** Number of seasons finished in first place */
+	championships: number
+	/** Best final placement, or null when none is recorded */
+	bestPlacement: number | null
+	/** Per-season breakdown, most recent season first */
+	seasons: TeamHistorySeason[]
+	/** Record against each opponent, most games played first */
+	headToHead: TeamHeadToHead[]
+	/** Timestamp of the last rebuild */
+	updatedAt: Timestamp
+}
+
 /**
  * Site settings document structure for global site configuration
  * Stored at siteSettings/theme
@@ -512,6 +1154,14 @@ export interface PlayerRankingDocument extends DocumentData {
 	lastSeasonId: string | null
 	/** Rating change in the last calculation */
 	lastRatingChange: number
+	/** Uncertainty in the rating (TrueSkill σ) - lower is more confident */
+	sigma: number
+	/** Rounds played since the player's last game (drives inactivity decay) */
+	roundsSinceLastGame: number
+	/** Start time of the last round the player played in */
+	lastGameDate: Timestamp | null
+	/** IDs of every season the player has played in */
+	seasonsPlayed: string[]
 }
 
 /**
@@ -563,12 +1213,61 @@ export interface TimeBasedPlayerRanking {
 	previousRating?: number
 }
 
+/**
+ * Tunable rating parameters. Live calculations use the parameters stored on
+ * the rankings checkpoint (the TrueSkill defaults until a shadow run is
+ * promoted); shadow runs use whatever the admin chose.
+ */
+export interface RankingsParameters {
+	/** Performance variance (TrueSkill β) */
+	beta: number
+	/** Dynamics factor added to uncertainty each game (TrueSkill τ) */
+	tau: number
+	/** Weight of each older season's games relative to the next */
+	seasonDecayFactor: number
+	/** Per-round pull of every rating toward the baseline */
+	gravityWellPerRound: number
+	/** Faster per-round pull used for inactive players above the baseline */
+	inactivityDecayPerRound: number
+	/** Impact multiplier for playoff games */
+	playoffMultiplier: number
+	/**
+	 * Extra impact for the biggest wins: a game's update is multiplied by
+	 * 1 + weight × min(margin, cap) / cap. 0 turns margin-of-victory
+	 * weighting off, so only the winner matters.
+	 */
+	marginOfVictoryWeight: number
+	/** Point differential at which the margin-of-victory bonus stops growing */
+	marginOfVictoryCap: number
+}
+
+/**
+ * How well a calculation's pre-game ratings predicted game outcomes.
+ * Stored as sums so the stats of consecutive calculations can be added.
+ */
+export interface RankingsPredictionStats {
+	/** Games with a prediction */
+	games: number
+	/** Games where the favorite (win probability above 50%) won */
+	correct: number
+	/** Sum of squared errors of the home win probability (Brier score × games) */
+	brierSum: number
+	/** Sum of negative log-likelihoods of the actual outcome (log loss × games) */
+	logLossSum: number
+}
+
 /**
  * Rankings calculation state document
  */
 export interface RankingsCalculationDocument extends DocumentData {
-	/** Type of calculation (always 'fresh' - incremental was deprecated) */
-	calculationType: 'fresh'
+	/** Full rebuild from scratch, or new rounds applied on top of the checkpoint */
+	calculationType: 'fresh' | 'incremental'
+	/**
+	 * Where the results were written: the live rankings, or a shadow
+	 * namespace (`rankings-calculations/{id}/rankings` and `/history`) for
+	 * comparing parameters
+	 */
+	target: 'live' | 'shadow'
 	/** Current status of the calculation */
 	status: 'pending' | 'running' | 'completed' | 'failed'
 	/** Timestamp when calculation started */
@@ -605,14 +1304,156 @@ export interface RankingsCalculationDocument extends DocumentData {
 		timestamp: Timestamp
 	}
 	/** Calculation parameters used */
-	parameters: {
+	parameters: RankingsParameters & {
 		/** Starting season for calculation */
 		startSeasonId?: string
 		/** Whether to apply rating decay */
 		applyDecay: boolean
-		/** Season decay factor */
-		seasonDecayFactor: number
-		/** Playoff multiplier */
-		playoffMultiplier: number
 	}
+	/** Prediction accuracy over the games this calculation processed */
+	predictionStats?: RankingsPredictionStats
+	/** Last round processed and the season order used (set on completion) */
+	lastRound?: {
+		roundId: string
+		startTime: Timestamp
+		seasonIds: string[]
+	}
+	/** Timestamp when a shadow run was promoted to the live rankings */
+	promotedAt?: Timestamp
+	/** Admin who promoted the shadow run */
+	promotedBy?: string
+}
+
+/**
+ * Rankings checkpoint document (`rankings-checkpoint/current`)
+ *
+ * Marks the last round applied to the player rating states stored on the
+ * `rankings` documents, so newly scored rounds can be applied on top of them
+ * instead of replaying every season.
+ */
+export interface RankingsCheckpointDocument extends DocumentData {
+	/** Identifier of the last processed round (its start time in ms) */
+	lastRoundId: string
+	/** Start time of the last processed round */
+	lastRoundStartTime: Timestamp
+	/**
+	 * Season IDs, oldest first, that the stored ratings were weighted
+	 * against. Adding a season changes every game's season decay, so the
+	 * stored ratings no longer apply once this list changes.
+	 */
+	seasonIds: string[]
+	/** ID of the calculation that last advanced the checkpoint */
+	calculationId: string
+	/** Parameters the stored ratings were calculated with */
+	parameters: RankingsParameters
+	/** Prediction accuracy over every game behind the stored ratings */
+	predictionStats: RankingsPredictionStats
+	/** Timestamp when the checkpoint last advanced */
+	updatedAt: Timestamp
+	/** Set when a game at or before the checkpoint changed */
+	rebuildRequired: {
+		/** Why the stored ratings are out of date */
+		reason: string
+		/** Game whose change made the rebuild necessary, if any */
+		gameId: string | null
+		/** Timestamp when the rebuild was flagged */
+		flaggedAt: Timestamp
+	} | null
+	/** Held while a calculation is running, so only one runs at a time */
+	lock: {
+		/** Token identifying the holder */
+		owner: string
+		/** Timestamp when the lock was taken */
+		lockedAt: Timestamp
+	} | null
+}
+
+/**
+ * Privileged actions recorded in the audit log, named `{area}.{verb}`
+ */
+export enum AuditAction {
+	BADGE_CREATE = 'badge.create',
+	BADGE_UPDATE = 'badge.update',
+	BADGE_DELETE = 'badge.delete',
+	BADGE_AWARD = 'badge.award',
+	BADGE_REVOKE = 'badge.revoke',
+	BADGE_EVALUATE = 'badge.evaluate',
+	GAME_CREATE = 'game.create',
+	GAME_CREATE_BATCH = 'game.createBatch',
+	GAME_UPDATE = 'game.update',
+	GAME_DELETE = 'game.delete',
+	GAME_GENERATE_PLAYOFFS = 'game.generatePlayoffs',
+	NEWS_CREATE = 'news.create',
+	NEWS_UPDATE = 'news.update',
+	NEWS_DELETE = 'news.delete',
+	PAYMENT_REFUND = 'payment.refund',
+	PLAYER_VIEW_AUTH_INFO = 'player.viewAuthInfo',
+	PLAYER_UPDATE_EMAIL = 'player.updateEmail',
+	PLAYER_UPDATE = 'player.update',
+	POST_DELETE = 'post.delete',
+	POST_DELETE_REPLY = 'post.deleteReply',
+	RANKINGS_REBUILD = 'rankings.rebuild',
+	RANKINGS_SHADOW_REBUILD = 'rankings.shadowRebuild',
+	RANKINGS_PROMOTE = 'rankings.promote',
+	SEASON_CREATE = 'season.create',
+	SEASON_UPDATE = 'season.update',
+	SEASON_DELETE = 'season.delete',
+	SITE_SETTINGS_UPDATE = 'siteSettings.update',
+	SWISS_SET_SEEDING = 'swiss.setSeeding',
+	SWISS_CREATE_GAME_DAY = 'swiss.createGameDay',
+	TEAM_UPDATE = 'team.update',
+	TEAM_APPLY_FREE_AGENT_DRAFT = 'team.applyFreeAgentDraft',
+	TEAM_MERGE = 'team.merge',
+	TEAM_REBUILD_HISTORY = 'team.rebuildHistory',
+	TEAM_DELETE = 'team.delete',
+	WAIVER_SEND = 'waiver.send',
+}
+
+/**
+ * A Firestore-safe snapshot of a field value in the audit log. Timestamps are
+ * stored as ISO 8601 strings and document references as their paths.
+ */
+export type AuditValue =
+	| string
+	| number
+	| boolean
+	| null
+	| AuditValue[]
+	| { [key: string]: AuditValue }
+
+/**
+ * One top-level field changed by an audited action
+ */
+export interface AuditFieldChange {
+	/** Field name */
+	field: string
+	/** Value before the action (null if the field didn't exist) */
+	before: AuditValue
+	/** Value after the action (null if the field was removed) */
+	after: AuditValue
+}
+
+/**
+ * Append-only record of a privileged admin action.
+ *
+ * Stored at `auditLog/{autoId}`. Written only by the admin callables through
+ * `shared/audit.ts`; never updated or deleted. Readable by admins only.
+ */
+export interface AuditLogDocument extends DocumentData {
+	/** Reference to the admin who performed the action */
+	actor: DocumentReference<PlayerDocument>
+	/** Admin's sign-in email at the time of the action */
+	actorEmail: string | null
+	/** What was done */
+	action: AuditAction
+	/** Documents the action changed (or read, for sensitive lookups) */
+	targets: DocumentReference[]
+	/** Paths of `targets`, used to filter the log by target */
+	targetPaths: string[]
+	/** Field-level diff of the primary target (empty when not applicable) */
+	changes: AuditFieldChange[]
+	/** Extra context from the request, e.g. counts or options */
+	details: { [key: string]: AuditValue }
+	/** Timestamp when the action was performed */
+	createdAt: Timestamp
 }
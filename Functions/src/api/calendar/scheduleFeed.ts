@@ -0,0 +1,194 @@
+/**
+ * Schedule calendar feed
+ *
+ * Serves subscribable iCalendar (.ics) feeds of game schedules:
+ * - /calendar/{seasonId}.ics — every game in the season
+ * - /calendar/{seasonId}/{teamId}.ics — one team's games in the season
+ *
+ * Each event's UID is derived from the game document ID, which `updateGame`
+ * never changes, so calendar apps move the existing event when a game is
+ * rescheduled instead of adding a duplicate.
+ */
+
+import { onRequest } from 'firebase-functions/v2/https'
+import { getFirestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import {
+	Collections,
+	GameDocument,
+	GameStatus,
+	GameType,
+	SeasonDocument,
+	TeamSeasonDocument,
+} from '../../types.js'
+import { FIREBASE_CONFIG, GAME_CONFIG } from '../../config/constants.js'
+import { teamRef, teamSeasonRef } from '../../shared/database.js'
+import { buildCalendar, CalendarEvent } from '../../shared/icalendar.js'
+import { getGameStatus } from '../../shared/gameStatus.js'
+
+/** Domain used to make event UIDs globally unique */
+const UID_DOMAIN = 'mplswinterleague.com'
+
+/** How long browsers and the CDN may cache a feed, in seconds */
+const CACHE_MAX_AGE_SECONDS = 15 * 60
+
+/** Matches /calendar/{seasonId}.ics and /calendar/{seasonId}/{teamId}.ics */
+const FEED_PATH = /^\/(?:calendar\/)?([^/]+?)(?:\/([^/]+?))?\.ics$/
+
+/**
+ * Builds the calendar event for a game
+ *
+ * LAST-MODIFIED is the game doc's update time. SEQUENCE is the game's
+ * stored calendar sequence, which only grows when the date, field, teams or
+ * status change (see `onGameScored`).
+ *
+ * @param teamId - When set, the summary is written from this team's side
+ */
+function gameToEvent(
+	gameDoc: FirebaseFirestore.QueryDocumentSnapshot,
+	seasonName: string,
+	teamId?: string
+): CalendarEvent {
+	const game = gameDoc.data() as GameDocument
+	const start = game.date.toDate()
+	const end = new Date(start.getTime() + GAME_CONFIG.DURATION_MINUTES * 60000)
+	const homeName = game.homeName ?? 'TBD'
+	const awayName = game.awayName ?? 'TBD'
+	const playoff = game.type === GameType.PLAYOFF ? ' (Playoff)' : ''
+
+	let summary = `${homeName} vs ${awayName}${playoff}`
+	if (teamId && game.home?.id === teamId) {
+		summary = `vs ${awayName}${playoff}`
+	} else if (teamId && game.away?.id === teamId) {
+		summary = `@ ${homeName}${playoff}`
+	}
+
+	const status = getGameStatus(game)
+	const descriptionLines = [seasonName]
+	if (status === GameStatus.POSTPONED || status === GameStatus.CANCELED) {
+		descriptionLines.push(
+			status === GameStatus.POSTPONED ? 'Postponed' : 'Canceled'
+		)
+	} else if (game.homeScore !== null && game.awayScore !== null) {
+		const forfeitedBy =
+			status === GameStatus.FORFEIT
+				? game.forfeitedBy?.id === game.home?.id
+					? homeName
+					: awayName
+				: null
+		descriptionLines.push(
+			forfeitedBy
+				? `Forfeit by ${forfeitedBy}: ${homeName} ${game.homeScore}, ${awayName} ${game.awayScore}`
+				: `Final: ${homeName} ${game.homeScore}, ${awayName} ${game.awayScore}`
+		)
+	}
+
+	return {
+		uid: `${gameDoc.id}@${UID_DOMAIN}`,
+		start,
+		end,
+		summary,
+		location: `Field ${game.field}`,
+		description: descriptionLines.join('\n'),
+		cancelled:
+			status === GameStatus.POSTPONED || status === GameStatus.CANCELED,
+		lastModified: gameDoc.updateTime.toDate(),
+		sequence: game.calendarSequence ?? 0,
+	}
+}
+
+/**
+ * HTTP handler for schedule calendar feeds
+ */
+export const calendarFeed = onRequest(
+	{
+		region: FIREBASE_CONFIG.REGION,
+		invoker: 'public',
+	},
+	async (req, resp) => {
+		try {
+			if (req.method !== 'GET' && req.method !== 'HEAD') {
+				resp.status(405).send('Method not allowed')
+				return
+			}
+
+			const match = req.path.match(FEED_PATH)
+			if (!match) {
+				resp.status(404).send('Calendar not found')
+				return
+			}
+			const [, seasonId, teamId] = match
+
+			const firestore = getFirestore()
+			const seasonRef = firestore.collection(Collections.SEASONS).doc(seasonId)
+			const seasonDoc = await seasonRef.get()
+			if (!seasonDoc.exists) {
+				resp.status(404).send('Calendar not found')
+				return
+			}
+			const seasonName = (seasonDoc.data() as SeasonDocument).name
+
+			let calendarName = `Minneapolis Winter League - ${seasonName}`
+			let games: FirebaseFirestore.QueryDocumentSnapshot[]
+
+			if (teamId) {
+				const teamSeasonDoc = await teamSeasonRef(
+					firestore,
+					teamId,
+					seasonId
+				).get()
+				if (!teamSeasonDoc.exists) {
+					resp.status(404).send('Calendar not found')
+					return
+				}
+				const teamSeasonData = teamSeasonDoc.data() as TeamSeasonDocument
+				calendarName = `${teamSeasonData.name} - ${seasonName}`
+
+				const team = teamRef(firestore, teamId)
+				const [homeGames, awayGames] = await Promise.all([
+					firestore
+						.collection(Collections.GAMES)
+						.where('season', '==', seasonRef)
+						.where('home', '==', team)
+						.get(),
+					firestore
+						.collection(Collections.GAMES)
+						.where('season', '==', seasonRef)
+						.where('away', '==', team)
+						.get(),
+				])
+				games = [...homeGames.docs, ...awayGames.docs]
+			} else {
+				const seasonGames = await firestore
+					.collection(Collections.GAMES)
+					.where('season', '==', seasonRef)
+					.get()
+				games = seasonGames.docs
+			}
+
+			const events = games
+				.map((doc) => gameToEvent(doc, seasonName, teamId))
+				.sort((a, b) => a.start.getTime() - b.start.getTime())
+
+			resp.set('Content-Type', 'text/calendar; charset=utf-8')
+			resp.set(
+				'Content-Disposition',
+				`inline; filename="${teamId ? `${seasonId}-${teamId}` : seasonId}.ics"`
+			)
+			resp.set('Cache-Control', `public, max-age=${CACHE_MAX_AGE_SECONDS}`)
+			resp.status(200).send(
+				buildCalendar({
+					name: calendarName,
+					timeZone: GAME_CONFIG.TIME_ZONE,
+					events,
+				})
+			)
+		} catch (error) {
+			logger.error('Error serving calendar feed:', {
+				path: req.path,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+			resp.status(500).send('Internal server error')
+		}
+	}
+)
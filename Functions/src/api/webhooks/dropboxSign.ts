@@ -6,6 +6,8 @@
  * - SignatureRequestSigned: Updates waiver and player status to signed
  * - SignatureRequestDeclined: Marks waiver as declined
  * - SignatureRequestCanceled: Marks waiver as canceled
+ *
+ * The player is notified when their waiver becomes signed or declined.
  */
 
 import { onRequest } from 'firebase-functions/v2/https'
@@ -13,6 +15,7 @@ import { getFirestore, FieldValue } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
 import {
 	Collections,
+	NotificationType,
 	PLAYER_SEASONS_SUBCOLLECTION,
 	WaiverDocument,
 	WaiverStatus,
@@ -22,6 +25,10 @@ import {
 	getDropboxSignConfig,
 } from '../../config/constants.js'
 import { handleFunctionError } from '../../shared/errors.js'
+import {
+	NotificationContent,
+	notifyPlayers,
+} from '../../shared/notifications.js'
 import {
 	EventCallbackRequest,
 	EventCallbackRequestEvent,
@@ -30,6 +37,23 @@ import {
 
 const { EventTypeEnum } = EventCallbackRequestEvent
 
+/** Notifications sent to the player per new waiver status */
+const WAIVER_NOTIFICATIONS: Partial<Record<WaiverStatus, NotificationContent>> =
+	{
+		signed: {
+			type: NotificationType.WAIVER_STATUS,
+			title: 'Waiver signed',
+			body: 'Your waiver for this season has been signed. Thanks!',
+			link: '/profile',
+		},
+		declined: {
+			type: NotificationType.WAIVER_STATUS,
+			title: 'Waiver declined',
+			body: 'Your waiver was declined. Sign it from your profile to play this season.',
+			link: '/profile',
+		},
+	}
+
 /**
  * Webhook handler for Dropbox Sign events
  */
@@ -237,6 +261,11 @@ async function handleWaiverStatusChange(
 			playerId: firebaseUID,
 			seasonId,
 		})
+
+		const notification = WAIVER_NOTIFICATIONS[newStatus]
+		if (notification && result.waiverUpdated) {
+			await notifyPlayers(firestore, [firebaseUID], notification)
+		}
 	} catch (error) {
 		throw handleFunctionError(error, 'handleWaiverStatusChange', {
 			firebaseUID,
@@ -2,7 +2,9 @@
  * Stripe webhook handler
  *
  * Handles Stripe webhook events for payment processing.
- * Creates payment documents in Firestore to trigger the onPaymentCreated flow.
+ * Creates payment documents in Firestore to trigger the onPaymentCreated flow,
+ * and reverses a player's paid status when their charge is refunded or
+ * disputed.
  */
 
 import { onRequest } from 'firebase-functions/v2/https'
@@ -10,12 +12,18 @@ import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
 import { FIREBASE_CONFIG, getStripeConfig } from '../../config/constants.js'
 import { handleFunctionError } from '../../shared/errors.js'
+import {
+	applyPaymentStatusChange,
+	disputeClosed,
+	disputeOpened,
+} from '../../services/paymentStatusService.js'
 import Stripe from 'stripe'
 
 /**
  * Webhook handler for Stripe events
  *
- * Processes checkout.session.completed events to create payment documents.
+ * Processes checkout.session.completed events to create payment documents,
+ * and charge.refunded / charge.dispute.* events to update them.
  * Optionally handles product/price sync events for admin UI.
  *
  * @see https://stripe.com/docs/webhooks
@@ -78,6 +86,19 @@ export const stripeWebhook = onRequest(
 					)
 					break
 
+				case 'charge.refunded':
+					await handleChargeRefunded(stripe, event.data.object as Stripe.Charge)
+					break
+
+				case 'charge.dispute.created':
+				case 'charge.dispute.closed':
+					await handleDisputeEvent(
+						stripe,
+						event.type,
+						event.data.object as Stripe.Dispute
+					)
+					break
+
 				case 'product.created':
 				case 'product.updated':
 				case 'product.deleted':
@@ -137,6 +158,13 @@ async function handleCheckoutSessionCompleted(
 				typeof session.customer === 'string'
 					? session.customer
 					: session.customer?.id,
+			paymentIntentId:
+				typeof session.payment_intent === 'string'
+					? session.payment_intent
+					: (session.payment_intent?.id ?? null),
+			...(session.metadata?.seasonId && {
+				seasonId: session.metadata.seasonId,
+			}),
 			created: FieldValue.serverTimestamp(),
 			stripeCreated: Timestamp.fromMillis(session.created * 1000),
 			metadata: session.metadata,
@@ -161,6 +189,109 @@ async function handleCheckoutSessionCompleted(
 	}
 }
 
+/**
+ * Find the payment document for a Stripe payment intent
+ *
+ * Payment documents are keyed by checkout session, so look up the session
+ * that created the payment intent. Charges that didn't come from a league
+ * checkout (no Firebase UID in the metadata) return null.
+ */
+async function findPaymentForPaymentIntent(
+	stripe: Stripe,
+	paymentIntent: string | Stripe.PaymentIntent | null
+): Promise<{ uid: string; paymentId: string } | null> {
+	const paymentIntentId =
+		typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id
+	if (!paymentIntentId) {
+		logger.warn('Stripe event has no payment intent')
+		return null
+	}
+
+	const sessions = await stripe.checkout.sessions.list({
+		payment_intent: paymentIntentId,
+		limit: 1,
+	})
+	const session = sessions.data[0]
+	const firebaseUID = session?.metadata?.firebaseUID
+	if (!session || !firebaseUID) {
+		logger.info('No league checkout session for payment intent', {
+			paymentIntentId,
+		})
+		return null
+	}
+
+	return { uid: firebaseUID, paymentId: session.id }
+}
+
+/**
+ * Handle charge.refunded event
+ *
+ * A full refund means the player no longer counts as paid. A partial refund
+ * (e.g. a discount applied after the fact) only records the amount.
+ */
+async function handleChargeRefunded(
+	stripe: Stripe,
+	charge: Stripe.Charge
+): Promise<void> {
+	try {
+		const payment = await findPaymentForPaymentIntent(
+			stripe,
+			charge.payment_intent
+		)
+		if (!payment) return
+
+		await applyPaymentStatusChange(payment.uid, payment.paymentId, {
+			status: charge.refunded ? 'refunded' : 'partially_refunded',
+			amountRefunded: charge.amount_refunded,
+			paid: charge.refunded ? false : undefined,
+		})
+	} catch (error) {
+		throw handleFunctionError(error, 'handleChargeRefunded', {
+			chargeId: charge.id,
+		})
+	}
+}
+
+/**
+ * Handle charge.dispute.created and charge.dispute.closed events
+ *
+ * The disputed amount is withdrawn as soon as a dispute opens, so the player
+ * stops counting as paid. If the dispute closes in the league's favor, the
+ * status and paid flag from before it opened are restored.
+ */
+async function handleDisputeEvent(
+	stripe: Stripe,
+	eventType: string,
+	dispute: Stripe.Dispute
+): Promise<void> {
+	try {
+		const payment = await findPaymentForPaymentIntent(
+			stripe,
+			dispute.payment_intent
+		)
+		if (!payment) return
+
+		const disputeDetails = {
+			id: dispute.id,
+			status: dispute.status,
+			reason: dispute.reason,
+		}
+
+		await applyPaymentStatusChange(
+			payment.uid,
+			payment.paymentId,
+			eventType === 'charge.dispute.created'
+				? disputeOpened(disputeDetails)
+				: disputeClosed(disputeDetails)
+		)
+	} catch (error) {
+		throw handleFunctionError(error, 'handleDisputeEvent', {
+			disputeId: dispute.id,
+			eventType,
+		})
+	}
+}
+
 /**
  * Handle product events for admin UI sync (optional enhancement)
  *
@@ -14,9 +14,30 @@ export const FIREBASE_CONFIG = {
 } as const
 
 // Business Logic Constants (static)
+// Defaults for SeasonDocument.rules - see shared/seasonRules.ts
 export const TEAM_CONFIG = {
 	MIN_PLAYERS_FOR_REGISTRATION: 10,
 	REGISTERED_TEAMS_FOR_LOCK: 12,
+	MIN_CAPTAINS: 1,
+} as const
+
+// Defaults for the offer rules in SeasonDocument.rules
+export const OFFER_CONFIG = {
+	EXPIRATION_DAYS: 7,
+	REMINDER_HOURS: 24, // Before expiry
+	MAX_EXPIRATION_DAYS: 60,
+} as const
+
+// Free-agent draft (admin team balancing) and teammate requests
+export const FREE_AGENT_DRAFT_CONFIG = {
+	DEFAULT_MAX_ROSTER_SIZE: 18, // Used when neither the admin nor the season sets a limit
+	MAX_ASSIGNMENTS: 200, // Two writes each, within one transaction
+	MAX_TEAMMATE_REQUESTS: 3,
+} as const
+
+// Free-agent (looking-for-team) profiles
+export const FREE_AGENT_PROFILE_CONFIG = {
+	BLURB_MAX_LENGTH: 280,
 } as const
 
 // Game Configuration
@@ -24,6 +45,17 @@ export const GAME_CONFIG = {
 	ALLOWED_TIME_SLOTS: ['18:00', '18:45', '19:30', '20:15'],
 	ALLOWED_FIELDS: [1, 2, 3],
 	ALLOWED_MONTHS: [11, 12], // November and December
+	DURATION_MINUTES: 45, // Length of a game (one time slot)
+	TIME_ZONE: 'America/Chicago', // Where games are played
+	FORFEIT_WINNER_SCORE: 10,
+	FORFEIT_LOSER_SCORE: 0,
+} as const
+
+// Post-game spirit ratings
+export const SPIRIT_CONFIG = {
+	MIN_SCORE: 1,
+	MAX_SCORE: 5,
+	COMMENT_MAX_LENGTH: 500,
 } as const
 
 // Badge Configuration
@@ -65,6 +97,9 @@ export function getStripeConfig(): {
 
 // Email Configuration
 export const EMAIL_CONFIG = {
+	FROM_ADDRESS: 'Minneapolis Winter League <noreply@mplswinterleague.com>',
+	SITE_URL: 'https://mplswinterleague.com', // Links in emails are built on this
+	SECRETS: ['SMTP_URL'], // Add to the secrets of any function that sends email
 	WAIVER_SUBJECT: 'Minneapolis Winter League - Release of Liability',
 	WAIVER_MESSAGE:
 		"We're so excited you decided to join Minneapolis Winter League. " +
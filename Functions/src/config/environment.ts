@@ -8,6 +8,12 @@ interface EnvironmentConfig {
 	dropboxSignApiKey: string
 	stripeSecretKey: string
 	stripeWebhookSecret: string
+	/** SMTP connection URL; unset outside production */
+	smtpUrl: string | undefined
+	/** Directory the emulator email transport also writes messages to */
+	emailOutboxDir: string | undefined
+	/** Whether the functions are running in the Firebase emulator */
+	isEmulator: boolean
 	nodeEnv: string
 	isProduction: boolean
 	isDevelopment: boolean
@@ -22,6 +28,8 @@ export function getEnvironmentConfig(): EnvironmentConfig {
 	const dropboxSignApiKey = process.env.DROPBOX_SIGN_API_KEY
 	const stripeSecretKey = process.env.STRIPE_SECRET_KEY
 	const stripeWebhookSecret = process.env.STRIPE_WEBHOOK_SECRET
+	const smtpUrl = process.env.SMTP_URL
+	const isEmulator = process.env.FUNCTIONS_EMULATOR === 'true'
 
 	// In production, secrets are injected as environment variables by Firebase
 	// In development, they come from .secret.local file (loaded by emulator)
@@ -45,11 +53,22 @@ export function getEnvironmentConfig(): EnvironmentConfig {
 		logger.warn(error)
 	}
 
+	// Email falls back to the console transport without SMTP, so this is
+	// only worth a warning where real email is expected
+	if (!smtpUrl && !isEmulator) {
+		logger.warn(
+			'SMTP_URL is not set (set via Firebase secret); emails will only be logged'
+		)
+	}
+
 	return {
 		dropboxSignApiKey: dropboxSignApiKey || 'DEVELOPMENT_PLACEHOLDER_DROPBOX',
 		stripeSecretKey: stripeSecretKey || 'DEVELOPMENT_PLACEHOLDER_STRIPE',
 		stripeWebhookSecret:
 			stripeWebhookSecret || 'DEVELOPMENT_PLACEHOLDER_STRIPE_WEBHOOK',
+		smtpUrl: smtpUrl || undefined,
+		emailOutboxDir: process.env.EMAIL_OUTBOX_DIR || undefined,
+		isEmulator,
 		nodeEnv,
 		isProduction: nodeEnv === 'production',
 		isDevelopment: nodeEnv === 'development',
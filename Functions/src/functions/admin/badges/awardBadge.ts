@@ -10,11 +10,13 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore, FieldValue } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
 import {
+	AuditAction,
 	Collections,
 	BadgeDocument,
 	TeamBadgeDocument,
 } from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import {
 	getCurrentSeason,
 	teamBadgeRef,
@@ -121,6 +123,12 @@ export const awardBadge = onCall<AwardBadgeRequest>(
 				return { badgeName: badge.name }
 			})
 
+			await recordAdminAction(auth, {
+				action: AuditAction.BADGE_AWARD,
+				targets: [teamBadgeDocRef, badgeRef, teamCanonicalDocRef],
+				after: { badge: badgeRef, awardedBy: userRef, seasonId },
+			})
+
 			logger.info('Badge awarded to team successfully', {
 				badgeId,
 				badgeName: result.badgeName,
@@ -6,8 +6,15 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore, FieldValue } from 'firebase-admin/firestore'
 import { getStorage } from 'firebase-admin/storage'
 import { logger } from 'firebase-functions/v2'
-import { Collections, BadgeDocument } from '../../../types.js'
+import {
+	AuditAction,
+	Collections,
+	BadgeCriterion,
+	BadgeDocument,
+} from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
+import { validateBadgeCriterion } from '../../../services/badgeRules/index.js'
 import { FIREBASE_CONFIG, BADGE_CONFIG } from '../../../config/constants.js'
 
 interface CreateBadgeRequest {
@@ -15,6 +22,7 @@ interface CreateBadgeRequest {
 	description: string
 	imageBlob?: string // Base64 encoded image
 	imageContentType?: string // MIME type of the image
+	criterion?: BadgeCriterion | null // Rule for awarding the badge automatically
 }
 
 interface CreateBadgeResponse {
@@ -31,13 +39,14 @@ interface CreateBadgeResponse {
  * - User must be an admin
  * - Name and description are required and validated
  * - Image must be a valid image type if provided
+ * - Badge rule (if provided) must be a known type with a valid threshold
  */
 export const createBadge = onCall<CreateBadgeRequest>(
 	{ cors: [...FIREBASE_CONFIG.CORS_ORIGINS], region: FIREBASE_CONFIG.REGION },
 	async (request): Promise<CreateBadgeResponse> => {
 		const { data, auth } = request
 
-		const { name, description, imageBlob, imageContentType } = data
+		const { name, description, imageBlob, imageContentType, criterion } = data
 
 		// Validate required fields
 		if (!name || !description) {
@@ -103,6 +112,8 @@ export const createBadge = onCall<CreateBadgeRequest>(
 			}
 		}
 
+		const validatedCriterion = validateBadgeCriterion(criterion) ?? null
+
 		try {
 			const firestore = getFirestore()
 
@@ -174,6 +185,7 @@ export const createBadge = onCall<CreateBadgeRequest>(
 				description: description.trim(),
 				imageUrl,
 				storagePath,
+				criterion: validatedCriterion,
 				createdBy: userRef,
 				createdAt: now,
 				updatedAt: now,
@@ -185,12 +197,19 @@ export const createBadge = onCall<CreateBadgeRequest>(
 
 			await badgeRef.set(badgeDocument)
 
+			await recordAdminAction(auth, {
+				action: AuditAction.BADGE_CREATE,
+				targets: [badgeRef],
+				after: badgeDocument,
+			})
+
 			logger.info('Badge created successfully', {
 				badgeId,
 				createdBy: userId,
 				nameLength: name.length,
 				descriptionLength: description.length,
 				hasImage: !!imageUrl,
+				criterionType: validatedCriterion?.type ?? null,
 			})
 
 			return {
@@ -6,8 +6,9 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore } from 'firebase-admin/firestore'
 import { getStorage } from 'firebase-admin/storage'
 import { logger } from 'firebase-functions/v2'
-import { Collections, BadgeDocument } from '../../../types.js'
+import { AuditAction, Collections, BadgeDocument } from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 
 interface DeleteBadgeRequest {
@@ -124,6 +125,13 @@ export const deleteBadge = onCall<DeleteBadgeRequest>(
 				await batch.commit()
 			}
 
+			await recordAdminAction(auth, {
+				action: AuditAction.BADGE_DELETE,
+				targets: [badgeRef],
+				before: badge,
+				details: { teamsAffected },
+			})
+
 			logger.info('Badge deleted successfully', {
 				badgeId,
 				deletedBy: userId,
@@ -0,0 +1,123 @@
+/**
+ * Evaluate badge rules callable function
+ *
+ * Runs the badge rules engine on demand for a season's teams, checking every
+ * rule-driven badge. With `dryRun` the qualifying teams are returned without
+ * awarding anything.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { getFirestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { AuditAction, Collections } from '../../../types.js'
+import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
+import { getCurrentSeason } from '../../../shared/database.js'
+import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import {
+	BadgeAward,
+	evaluateBadgeRules,
+} from '../../../services/badgeRules/index.js'
+
+interface EvaluateBadgesRequest {
+	/** Season to evaluate. Defaults to the current season. */
+	seasonId?: string
+	/** Report qualifying teams without awarding badges */
+	dryRun?: boolean
+}
+
+interface EvaluateBadgesResponse {
+	success: true
+	seasonId: string
+	awards: BadgeAward[]
+	teamsEvaluated: number
+	rulesEvaluated: number
+	message: string
+}
+
+/**
+ * Evaluates every rule-driven badge for a season's teams
+ *
+ * Security validations:
+ * - User must be authenticated and email verified
+ * - User must be an admin
+ * - Season must exist
+ */
+export const evaluateBadges = onCall<EvaluateBadgesRequest>(
+	{ cors: [...FIREBASE_CONFIG.CORS_ORIGINS], region: FIREBASE_CONFIG.REGION },
+	async (request): Promise<EvaluateBadgesResponse> => {
+		const { data, auth } = request
+		const { dryRun = false } = data
+
+		try {
+			const firestore = getFirestore()
+			const userId = await validateAdminUser(auth, firestore)
+
+			// Resolve seasonId — explicit > current.
+			const currentSeason = data.seasonId ? null : await getCurrentSeason()
+			const seasonId: string | undefined = data.seasonId || currentSeason?.id
+			if (!seasonId) {
+				throw new HttpsError(
+					'failed-precondition',
+					'No current season found and no seasonId provided'
+				)
+			}
+
+			const seasonDoc = await firestore
+				.collection(Collections.SEASONS)
+				.doc(seasonId)
+				.get()
+			if (!seasonDoc.exists) {
+				throw new HttpsError('not-found', 'Season not found')
+			}
+
+			const result = await evaluateBadgeRules({
+				seasonId,
+				scope: 'season',
+				dryRun,
+			})
+
+			if (!dryRun) {
+				await recordAdminAction(auth, {
+					action: AuditAction.BADGE_EVALUATE,
+					targets: [seasonDoc.ref],
+					details: {
+						rulesEvaluated: result.rulesEvaluated,
+						awardsCount: result.awards.length,
+					},
+				})
+			}
+
+			logger.info('Badge rules evaluated on demand', {
+				seasonId,
+				dryRun,
+				awardsCount: result.awards.length,
+				evaluatedBy: userId,
+			})
+
+			const verb = dryRun ? 'would be awarded' : 'awarded'
+			return {
+				success: true,
+				seasonId,
+				...result,
+				message:
+					result.rulesEvaluated === 0
+						? 'No badges have rules to evaluate'
+						: `${result.awards.length} badge(s) ${verb}`,
+			}
+		} catch (error) {
+			if (error instanceof HttpsError) throw error
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error'
+			logger.error('Error evaluating badge rules:', {
+				userId: auth?.uid,
+				seasonId: data.seasonId,
+				error: errorMessage,
+			})
+			throw new HttpsError(
+				'internal',
+				`Failed to evaluate badge rules: ${errorMessage}`
+			)
+		}
+	}
+)
@@ -8,8 +8,9 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore, FieldValue } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
-import { Collections, BadgeDocument } from '../../../types.js'
+import { AuditAction, Collections, BadgeDocument } from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import {
 	teamBadgeRef,
 	teamRef as canonicalTeamRef,
@@ -81,7 +82,13 @@ export const revokeBadge = onCall<RevokeBadgeRequest>(
 					})
 				}
 
-				return { badgeName: badge.name }
+				return { badgeName: badge.name, teamBadge: teamBadgeDoc.data() }
+			})
+
+			await recordAdminAction(auth, {
+				action: AuditAction.BADGE_REVOKE,
+				targets: [teamBadgeDocRef, badgeRef, teamCanonicalDocRef],
+				before: result.teamBadge,
 			})
 
 			logger.info('Badge revoked from team successfully', {
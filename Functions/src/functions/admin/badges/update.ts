@@ -6,8 +6,15 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore, FieldValue } from 'firebase-admin/firestore'
 import { getStorage } from 'firebase-admin/storage'
 import { logger } from 'firebase-functions/v2'
-import { Collections, BadgeDocument } from '../../../types.js'
+import {
+	AuditAction,
+	Collections,
+	BadgeCriterion,
+	BadgeDocument,
+} from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
+import { validateBadgeCriterion } from '../../../services/badgeRules/index.js'
 import { FIREBASE_CONFIG, BADGE_CONFIG } from '../../../config/constants.js'
 
 interface UpdateBadgeRequest {
@@ -17,6 +24,7 @@ interface UpdateBadgeRequest {
 	imageBlob?: string // Base64 encoded image
 	imageContentType?: string // MIME type of the image
 	removeImage?: boolean // Flag to remove existing image
+	criterion?: BadgeCriterion | null // Rule for awarding automatically (null removes it)
 }
 
 interface UpdateBadgeResponse {
@@ -33,6 +41,7 @@ interface UpdateBadgeResponse {
  * - User must be an admin
  * - Badge must exist
  * - Fields are validated if provided
+ * - Badge rule (if provided) must be a known type with a valid threshold
  */
 export const updateBadge = onCall<UpdateBadgeRequest>(
 	{ cors: [...FIREBASE_CONFIG.CORS_ORIGINS], region: FIREBASE_CONFIG.REGION },
@@ -46,6 +55,7 @@ export const updateBadge = onCall<UpdateBadgeRequest>(
 			imageBlob,
 			imageContentType,
 			removeImage,
+			criterion,
 		} = data
 
 		// Validate required fields
@@ -57,6 +67,7 @@ export const updateBadge = onCall<UpdateBadgeRequest>(
 		if (
 			name === undefined &&
 			description === undefined &&
+			criterion === undefined &&
 			!imageBlob &&
 			!removeImage
 		) {
@@ -126,6 +137,8 @@ export const updateBadge = onCall<UpdateBadgeRequest>(
 			}
 		}
 
+		const validatedCriterion = validateBadgeCriterion(criterion)
+
 		try {
 			const firestore = getFirestore()
 
@@ -159,6 +172,10 @@ export const updateBadge = onCall<UpdateBadgeRequest>(
 				updates.description = description.trim()
 			}
 
+			if (validatedCriterion !== undefined) {
+				updates.criterion = validatedCriterion
+			}
+
 			// Handle image updates
 			if (removeImage) {
 				// Remove existing image from storage if it exists
@@ -233,6 +250,13 @@ export const updateBadge = onCall<UpdateBadgeRequest>(
 			// Update badge document
 			await badgeRef.update(updates)
 
+			await recordAdminAction(auth, {
+				action: AuditAction.BADGE_UPDATE,
+				targets: [badgeRef],
+				before: existingBadge,
+				after: { ...existingBadge, ...updates },
+			})
+
 			logger.info('Badge updated successfully', {
 				badgeId,
 				updatedBy: userId,
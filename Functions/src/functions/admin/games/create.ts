@@ -9,10 +9,18 @@ import { getFirestore, Timestamp } from 'firebase-admin/firestore'
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { logger } from 'firebase-functions/v2'
 import { validateAdminUser } from '../../../shared/auth.js'
-import { FIREBASE_CONFIG, GAME_CONFIG } from '../../../config/constants.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import {
+	validateGameField,
+	validateGameTimestamp,
+} from '../../../shared/gameSchedule.js'
+import { resolveSeasonRules } from '../../../shared/seasonRules.js'
+import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import {
+	AuditAction,
 	Collections,
 	GameType,
+	SeasonDocument,
 	TEAM_SEASONS_SUBCOLLECTION,
 } from '../../../types.js'
 
@@ -28,7 +36,7 @@ interface CreateGameRequest {
 	homeScore: number | null
 	/** Away team's score (nullable if score not yet recorded) */
 	awayScore: number | null
-	/** Field number (1, 2, or 3) */
+	/** Field number (one of the season's allowed fields) */
 	field: number
 	/** Game type (regular or playoff) */
 	type: GameType
@@ -53,15 +61,16 @@ interface CreateGameResponse {
  * Security validations:
  * - User must be authenticated with verified email
  * - User must have admin privileges (admin: true in player document)
- * - Field must be 1, 2, or 3
+ * - Field must be one of the season's allowed fields
  * - Scores must be non-negative numbers
  * - Season must exist
  * - Teams must exist (if provided)
  * - No duplicate game at same time and field
  *
- * Business logic:
- * - Games are only allowed on Saturdays
- * - Games are only allowed at 6:00pm, 6:45pm, 7:30pm, or 8:15pm CT
+ * Business logic (from the season's rules, see shared/seasonRules.ts):
+ * - Games are only allowed on Saturdays in the season's allowed months
+ * - Games are only allowed in the season's time slots (6:00pm, 6:45pm,
+ *   7:30pm, or 8:15pm CT by default)
  * - Each field can only have one game per time slot
  */
 export const createGame = onCall<
@@ -116,9 +125,9 @@ export const createGame = onCall<
 			)
 		}
 
-		if (![1, 2, 3].includes(field)) {
+		if (typeof field !== 'number') {
 			logger.warn('Invalid field provided', { field })
-			throw new HttpsError('invalid-argument', 'Field must be 1, 2, or 3')
+			throw new HttpsError('invalid-argument', 'Field must be a number')
 		}
 
 		if (![GameType.REGULAR, GameType.PLAYOFF].includes(type)) {
@@ -146,83 +155,6 @@ export const createGame = onCall<
 		}
 
 		try {
-			// Parse and validate timestamp
-			const gameDate = new Date(timestamp)
-			if (isNaN(gameDate.getTime())) {
-				throw new HttpsError(
-					'invalid-argument',
-					'Invalid timestamp format. Must be a valid ISO 8601 string'
-				)
-			}
-
-			// Extract date components from ISO string to avoid timezone issues
-			// ISO format: YYYY-MM-DDTHH:MM:SS.sss±HH:MM
-			const dateMatch = timestamp.match(/^(\d{4})-(\d{2})-(\d{2})T/)
-			if (!dateMatch) {
-				throw new HttpsError(
-					'invalid-argument',
-					'Invalid timestamp format: could not extract date'
-				)
-			}
-			const year = parseInt(dateMatch[1], 10)
-			const month = parseInt(dateMatch[2], 10) // 1-indexed in ISO string
-			const dayOfMonth = parseInt(dateMatch[3], 10)
-
-			// Validate business logic: Saturday only
-			// Calculate day of week from the date components (in the intended timezone)
-			// Using Zeller's congruence algorithm
-			const adjustedMonth = month < 3 ? month + 12 : month
-			const adjustedYear = month < 3 ? year - 1 : year
-			const dayOfWeek =
-				(dayOfMonth +
-					Math.floor((13 * (adjustedMonth + 1)) / 5) +
-					adjustedYear +
-					Math.floor(adjustedYear / 4) -
-					Math.floor(adjustedYear / 100) +
-					Math.floor(adjustedYear / 400)) %
-				7
-			// Zeller's returns 0=Saturday, 1=Sunday, ..., 6=Friday
-			if (dayOfWeek !== 0) {
-				throw new HttpsError(
-					'invalid-argument',
-					`Games can only be scheduled on Saturdays (received day: ${dayOfWeek})`
-				)
-			}
-
-			// Validate business logic: allowed time slots (6:00pm, 6:45pm, 7:30pm, 8:15pm CT)
-			// Extract the local time directly from the ISO string to avoid timezone conversion issues
-			// ISO format: YYYY-MM-DDTHH:MM:SS.sss±HH:MM
-			const timeMatch = timestamp.match(/T(\d{2}):(\d{2})/)
-			if (!timeMatch) {
-				throw new HttpsError(
-					'invalid-argument',
-					'Invalid timestamp format: could not extract time'
-				)
-			}
-			const hours = parseInt(timeMatch[1], 10)
-			const minutes = parseInt(timeMatch[2], 10)
-			const timeString = `${hours}:${minutes.toString().padStart(2, '0')}`
-
-			if (
-				!(GAME_CONFIG.ALLOWED_TIME_SLOTS as readonly string[]).includes(
-					timeString
-				)
-			) {
-				throw new HttpsError(
-					'invalid-argument',
-					`Games can only be scheduled at 6:00pm, 6:45pm, 7:30pm, or 8:15pm CT (received: ${timeString})`
-				)
-			} // Log for debugging DST transitions
-			logger.info('Game time validation passed', {
-				timestamp,
-				localHours: hours,
-				localMinutes: minutes,
-				timeString,
-				dayOfWeek,
-				month: month + 1,
-				utcOffset: gameDate.getTimezoneOffset(),
-			})
-
 			// Validate season exists
 			const seasonRef = firestore.collection(Collections.SEASONS).doc(seasonId)
 			const seasonDoc = await seasonRef.get()
@@ -234,6 +166,18 @@ export const createGame = onCall<
 				)
 			}
 
+			// Validate business logic against the season's rules: allowed field,
+			// Saturday in an allowed month, and an allowed time slot
+			const rules = resolveSeasonRules(seasonDoc.data() as SeasonDocument)
+			validateGameField(field, rules)
+			const gameDate = validateGameTimestamp(timestamp, rules)
+
+			// Log for debugging DST transitions
+			logger.info('Game time validation passed', {
+				timestamp,
+				utcOffset: gameDate.getTimezoneOffset(),
+			})
+
 			// Validate teams exist and have a season subdoc for this game's season.
 			// Also capture the team-season name to denormalize onto the game doc
 			// (so reads can render the team name without a join — see the
@@ -313,6 +257,12 @@ export const createGame = onCall<
 				transaction.set(gameRef, gameData)
 			})
 
+			await recordAdminAction(auth, {
+				action: AuditAction.GAME_CREATE,
+				targets: [gameRef],
+				after: gameData,
+			})
+
 			logger.info('Game created successfully', {
 				gameId: gameRef.id,
 				field,
@@ -0,0 +1,264 @@
+/**
+ * Create games batch callable function
+ *
+ * Writes a reviewed schedule (typically from `generateSchedule`) in a single
+ * transaction, so either every game is created or none are.
+ */
+
+import { getFirestore, Timestamp } from 'firebase-admin/firestore'
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { logger } from 'firebase-functions/v2'
+import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
+import { teamRef, teamSeasonRef } from '../../../shared/database.js'
+import {
+	validateGameField,
+	validateGameTimestamp,
+} from '../../../shared/gameSchedule.js'
+import { resolveSeasonRules } from '../../../shared/seasonRules.js'
+import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import {
+	AuditAction,
+	Collections,
+	GameType,
+	SeasonDocument,
+} from '../../../types.js'
+
+/** Firestore caps a transaction at 500 writes */
+const MAX_GAMES_PER_BATCH = 500
+
+/**
+ * A single game to create
+ */
+interface BatchGameInput {
+	/** ISO 8601 timestamp for the game date/time */
+	timestamp: string
+	/** Field number */
+	field: number
+	/** Home team document ID */
+	homeTeamId: string
+	/** Away team document ID */
+	awayTeamId: string
+}
+
+/**
+ * Request interface for creating a batch of games
+ */
+interface CreateGamesBatchRequest {
+	/** Season ID shared by every game */
+	seasonId: string
+	/** Game type shared by every game (defaults to regular) */
+	type?: GameType
+	/** Games to create */
+	games: BatchGameInput[]
+}
+
+/**
+ * Response interface for successful batch creation
+ */
+interface CreateGamesBatchResponse {
+	success: true
+	gameIds: string[]
+	message: string
+}
+
+/**
+ * Creates many games for one season atomically
+ *
+ * Security validations:
+ * - User must be authenticated with verified email
+ * - User must have admin privileges (admin: true in player document)
+ * - Every timestamp must be a Saturday time slot allowed by the season's rules
+ * - Every field must be allowed by the season's rules
+ * - Both teams must be set, different, and registered for the season
+ * - No two games may share a time slot and field, or double-book a team
+ * - No game may already exist at the same time slot and field
+ */
+export const createGamesBatch = onCall<
+	CreateGamesBatchRequest,
+	Promise<CreateGamesBatchResponse>
+>(
+	{ region: FIREBASE_CONFIG.REGION },
+	async (request): Promise<CreateGamesBatchResponse> => {
+		const { auth, data } = request
+
+		const firestore = getFirestore()
+		await validateAdminUser(auth, firestore)
+
+		const { seasonId, type = GameType.REGULAR, games } = data
+
+		if (!seasonId || typeof seasonId !== 'string') {
+			throw new HttpsError('invalid-argument', 'Season ID is required')
+		}
+
+		if (![GameType.REGULAR, GameType.PLAYOFF].includes(type)) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Game type must be "regular" or "playoff"'
+			)
+		}
+
+		if (!Array.isArray(games) || games.length === 0) {
+			throw new HttpsError('invalid-argument', 'At least one game is required')
+		}
+
+		if (games.length > MAX_GAMES_PER_BATCH) {
+			throw new HttpsError(
+				'invalid-argument',
+				`At most ${MAX_GAMES_PER_BATCH} games can be created at once`
+			)
+		}
+
+		try {
+			const seasonRef = firestore.collection(Collections.SEASONS).doc(seasonId)
+			const seasonDoc = await seasonRef.get()
+			if (!seasonDoc.exists) {
+				throw new HttpsError('not-found', 'Season not found')
+			}
+
+			const rules = resolveSeasonRules(seasonDoc.data() as SeasonDocument)
+
+			// Validate every game against the season's rules before writing
+			const slotKeys = new Set<string>()
+			const teamBookings = new Set<string>()
+			const parsedGames = games.map((game, index) => {
+				const label = `Game ${index + 1}`
+				const gameDate = validateGameTimestamp(game.timestamp, rules)
+				validateGameField(game.field, rules, label)
+
+				if (!game.homeTeamId || !game.awayTeamId) {
+					throw new HttpsError(
+						'invalid-argument',
+						`${label}: both home and away teams are required`
+					)
+				}
+
+				if (game.homeTeamId === game.awayTeamId) {
+					throw new HttpsError(
+						'invalid-argument',
+						`${label}: home and away teams must be different`
+					)
+				}
+
+				const time = gameDate.getTime()
+				const slotKey = `${time}_${game.field}`
+				if (slotKeys.has(slotKey)) {
+					throw new HttpsError(
+						'invalid-argument',
+						`${label}: another game in this schedule uses the same time and field`
+					)
+				}
+				slotKeys.add(slotKey)
+
+				for (const teamId of [game.homeTeamId, game.awayTeamId]) {
+					const bookingKey = `${time}_${teamId}`
+					if (teamBookings.has(bookingKey)) {
+						throw new HttpsError(
+							'invalid-argument',
+							`${label}: a team is scheduled for two games at the same time`
+						)
+					}
+					teamBookings.add(bookingKey)
+				}
+
+				return { ...game, gameDate }
+			})
+
+			// Resolve each team's season name once, to denormalize onto the games
+			const teamIds = Array.from(
+				new Set(parsedGames.flatMap((g) => [g.homeTeamId, g.awayTeamId]))
+			)
+			const teamSeasonDocs = await firestore.getAll(
+				...teamIds.map((teamId) => teamSeasonRef(firestore, teamId, seasonId))
+			)
+			const teamNames = new Map<string, string | null>()
+			teamSeasonDocs.forEach((doc, index) => {
+				if (!doc.exists) {
+					throw new HttpsError(
+						'not-found',
+						`Team ${teamIds[index]} is not participating in this season`
+					)
+				}
+				// Same predicate generateSchedule uses to pick the season's teams
+				if (doc.data()?.registered !== true) {
+					throw new HttpsError(
+						'failed-precondition',
+						`${doc.data()?.name ?? `Team ${teamIds[index]}`} is not registered for this season`
+					)
+				}
+				teamNames.set(teamIds[index], doc.data()?.name ?? null)
+			})
+
+			// Deterministic IDs match createGame: {seasonId}_{timestamp}_{field}
+			const gameEntries = parsedGames.map((game) => ({
+				ref: firestore
+					.collection(Collections.GAMES)
+					.doc(`${seasonId}_${game.gameDate.toISOString()}_${game.field}`),
+				data: {
+					home: teamRef(firestore, game.homeTeamId),
+					homeName: teamNames.get(game.homeTeamId) ?? null,
+					away: teamRef(firestore, game.awayTeamId),
+					awayName: teamNames.get(game.awayTeamId) ?? null,
+					homeScore: null,
+					awayScore: null,
+					field: game.field,
+					type,
+					date: Timestamp.fromDate(game.gameDate),
+					season: seasonRef,
+				},
+			}))
+
+			await firestore.runTransaction(async (transaction) => {
+				const existing = await transaction.getAll(
+					...gameEntries.map((entry) => entry.ref)
+				)
+				const conflicts = existing.filter((doc) => doc.exists)
+				if (conflicts.length > 0) {
+					throw new HttpsError(
+						'already-exists',
+						`${conflicts.length} game(s) already exist at the same time slot and field. Remove them or adjust the schedule.`
+					)
+				}
+
+				for (const entry of gameEntries) {
+					transaction.set(entry.ref, entry.data)
+				}
+			})
+
+			await recordAdminAction(auth, {
+				action: AuditAction.GAME_CREATE_BATCH,
+				targets: [seasonRef, ...gameEntries.map((entry) => entry.ref)],
+				details: { count: gameEntries.length, type },
+			})
+
+			logger.info('Games batch created', {
+				seasonId,
+				count: gameEntries.length,
+				createdBy: auth?.uid,
+			})
+
+			return {
+				success: true,
+				gameIds: gameEntries.map((entry) => entry.ref.id),
+				message: `Created ${gameEntries.length} games`,
+			}
+		} catch (error) {
+			logger.error('Error creating games batch', {
+				adminUserId: auth?.uid,
+				seasonId,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+
+			if (error instanceof HttpsError) {
+				throw error
+			}
+
+			throw new HttpsError(
+				'internal',
+				error instanceof Error
+					? error.message
+					: 'Failed to create games. Please try again.'
+			)
+		}
+	}
+)
@@ -8,8 +8,9 @@
 import { onCall } from 'firebase-functions/v2/https'
 import { getFirestore } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
-import { Collections, GameDocument } from '../../../types.js'
+import { AuditAction, Collections, GameDocument } from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 
 /**
@@ -73,6 +74,12 @@ export const deleteGame = onCall<DeleteGameRequest>(
 			// Delete the game
 			await gameRef.delete()
 
+			await recordAdminAction(authContext, {
+				action: AuditAction.GAME_DELETE,
+				targets: [gameRef],
+				before: gameDocument,
+			})
+
 			logger.info('Game deleted successfully', {
 				gameId,
 				field: gameDocument.field,
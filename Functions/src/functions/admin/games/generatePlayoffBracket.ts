@@ -0,0 +1,401 @@
+/**
+ * Generate playoff bracket callable function
+ *
+ * Seeds a season's registered teams from the final regular-season standings
+ * (traditional standings or Swiss rankings) and creates the playoff games for
+ * a single-elimination or consolation bracket. Games after the first round
+ * start as placeholders and are linked to the games that feed them, so the
+ * `onGameScored` trigger fills each winner in as scores are entered. With
+ * `dryRun` the bracket is returned without writing anything.
+ */
+
+import { getFirestore, Timestamp } from 'firebase-admin/firestore'
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { logger } from 'firebase-functions/v2'
+import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
+import {
+	canonicalTeamIdFromTeamSeasonDoc,
+	teamRef,
+} from '../../../shared/database.js'
+import {
+	validateGameField,
+	validateGameTimestamp,
+} from '../../../shared/gameSchedule.js'
+import { resolveSeasonRules } from '../../../shared/seasonRules.js'
+import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import {
+	AuditAction,
+	Collections,
+	GameBracketSlot,
+	GameDocument,
+	GameType,
+	PlayoffFormat,
+	SeasonDocument,
+	SeasonFormat,
+	TEAM_SEASONS_SUBCOLLECTION,
+	TeamSeasonDocument,
+} from '../../../types.js'
+import {
+	BracketGame,
+	BracketSeed,
+	generatePlayoffBracket as buildPlayoffBracket,
+	PlayoffSeedingSource,
+	seedFromStandings,
+	seedFromSwissRankings,
+} from '../../../services/playoffBracket/index.js'
+
+interface GeneratePlayoffBracketRequest {
+	/** Season document ID */
+	seasonId: string
+	/** Bracket format */
+	format: PlayoffFormat
+	/** Where seeds come from (defaults to the season's format) */
+	seeding?: PlayoffSeedingSource
+	/** Number of top teams that make the playoffs (defaults to every team) */
+	teamCount?: number
+	/** Teams in the championship bracket for the consolation format */
+	championshipTeams?: number
+	/** ISO 8601 start times available for playoff games */
+	slotTimestamps: string[]
+	/** Fields to use in every time slot (defaults to every allowed field) */
+	fields?: number[]
+	/** Return the bracket without creating any games */
+	dryRun?: boolean
+}
+
+/**
+ * A bracket game with its time, field and team names resolved
+ */
+interface PlayoffBracketGame extends Omit<BracketGame, 'slot' | 'field'> {
+	/** ISO 8601 start time */
+	timestamp: string
+	/** Field number */
+	field: number
+	homeName: string | null
+	awayName: string | null
+}
+
+interface GeneratePlayoffBracketResponse {
+	success: true
+	seasonId: string
+	/** Whether the games were written (false for a dry run) */
+	created: boolean
+	/** IDs of the created games (empty for a dry run) */
+	gameIds: string[]
+	seeding: PlayoffSeedingSource
+	games: PlayoffBracketGame[]
+	seeds: (BracketSeed & { name: string })[]
+	message: string
+}
+
+/**
+ * Generates a playoff bracket for a season
+ *
+ * Security validations:
+ * - User must be authenticated with verified email
+ * - User must have admin privileges (admin: true in player document)
+ * - Season must exist and must not already have a generated bracket
+ * - Time slots and fields must be allowed by the season's rules, and there
+ *   must be enough of them to play every round in order
+ * - No game may already exist at the same time slot and field
+ */
+export const generatePlayoffBracket = onCall<
+	GeneratePlayoffBracketRequest,
+	Promise<GeneratePlayoffBracketResponse>
+>(
+	{ cors: [...FIREBASE_CONFIG.CORS_ORIGINS], region: FIREBASE_CONFIG.REGION },
+	async (request): Promise<GeneratePlayoffBracketResponse> => {
+		const { data, auth } = request
+		const { seasonId, format, slotTimestamps, dryRun = false } = data
+
+		if (!seasonId || typeof seasonId !== 'string') {
+			throw new HttpsError('invalid-argument', 'Season ID is required')
+		}
+
+		if (!Object.values(PlayoffFormat).includes(format)) {
+			throw new HttpsError('invalid-argument', 'Unknown playoff format')
+		}
+
+		if (!Array.isArray(slotTimestamps) || slotTimestamps.length === 0) {
+			throw new HttpsError(
+				'invalid-argument',
+				'At least one time slot is required'
+			)
+		}
+
+		try {
+			const firestore = getFirestore()
+			await validateAdminUser(auth, firestore)
+
+			const seasonRef = firestore.collection(Collections.SEASONS).doc(seasonId)
+			const seasonDoc = await seasonRef.get()
+			if (!seasonDoc.exists) {
+				throw new HttpsError('not-found', 'Season not found')
+			}
+
+			const seasonData = seasonDoc.data() as SeasonDocument
+			const seeding: PlayoffSeedingSource =
+				data.seeding ??
+				(seasonData.format === SeasonFormat.SWISS ? 'swiss' : 'standings')
+			if (seeding !== 'standings' && seeding !== 'swiss') {
+				throw new HttpsError('invalid-argument', 'Unknown seeding source')
+			}
+
+			const rules = resolveSeasonRules(seasonData)
+			const { fields = rules.allowedFields } = data
+			if (!Array.isArray(fields) || fields.length === 0) {
+				throw new HttpsError(
+					'invalid-argument',
+					'At least one field is required'
+				)
+			}
+			fields.forEach((field) => validateGameField(field, rules))
+			const orderedFields = Array.from(new Set(fields)).sort((a, b) => a - b)
+
+			const slots = slotTimestamps
+				.map((timestamp) => ({
+					timestamp,
+					date: validateGameTimestamp(timestamp, rules),
+				}))
+				.sort((a, b) => a.date.getTime() - b.date.getTime())
+			if (
+				new Set(slots.map((slot) => slot.date.getTime())).size !== slots.length
+			) {
+				throw new HttpsError(
+					'invalid-argument',
+					'Each time slot must have a different start time'
+				)
+			}
+
+			const gamesSnapshot = await firestore
+				.collection(Collections.GAMES)
+				.where('season', '==', seasonRef)
+				.get()
+			const seasonGames = gamesSnapshot.docs.map(
+				(doc) => doc.data() as GameDocument
+			)
+			if (seasonGames.some((game) => game.bracket)) {
+				throw new HttpsError(
+					'already-exists',
+					'A playoff bracket has already been generated for this season. Delete its games to generate a new one.'
+				)
+			}
+
+			const teamSeasonsSnapshot = await firestore
+				.collectionGroup(TEAM_SEASONS_SUBCOLLECTION)
+				.where('season', '==', seasonRef)
+				.where('registered', '==', true)
+				.get()
+			const registeredTeams = (
+				teamSeasonsSnapshot.docs as FirebaseFirestore.QueryDocumentSnapshot<TeamSeasonDocument>[]
+			)
+				.map((doc) => ({
+					id: canonicalTeamIdFromTeamSeasonDoc(doc),
+					name: doc.data().name,
+					registeredDate: doc.data().registeredDate?.toMillis() ?? 0,
+				}))
+				// Earlier registrations win remaining ties
+				.sort((a, b) => a.registeredDate - b.registeredDate)
+			const teamNames = Object.fromEntries(
+				registeredTeams.map((team) => [team.id, team.name])
+			)
+
+			const regularGames = seasonGames.filter(
+				(game) => game.type === GameType.REGULAR
+			)
+			const seededTeamIds = (
+				seeding === 'swiss' ? seedFromSwissRankings : seedFromStandings
+			)(
+				regularGames,
+				registeredTeams.map((team) => team.id)
+			)
+
+			const { teamCount = seededTeamIds.length } = data
+			if (
+				!Number.isInteger(teamCount) ||
+				teamCount < 2 ||
+				teamCount > seededTeamIds.length
+			) {
+				throw new HttpsError(
+					'invalid-argument',
+					`Playoff teams must be between 2 and the number of registered teams (${seededTeamIds.length})`
+				)
+			}
+
+			if (
+				data.championshipTeams !== undefined &&
+				!Number.isInteger(data.championshipTeams)
+			) {
+				throw new HttpsError(
+					'invalid-argument',
+					'Championship teams must be a whole number'
+				)
+			}
+
+			let result
+			try {
+				result = buildPlayoffBracket({
+					teamIds: seededTeamIds.slice(0, teamCount),
+					format,
+					championshipTeams: data.championshipTeams,
+					fieldCount: orderedFields.length,
+				})
+			} catch (error) {
+				throw new HttpsError(
+					'failed-precondition',
+					error instanceof Error ? error.message : 'Invalid bracket'
+				)
+			}
+
+			if (result.slotsNeeded > slots.length) {
+				throw new HttpsError(
+					'failed-precondition',
+					`${result.games.length} playoff games on ${orderedFields.length} field(s) need ${result.slotsNeeded} time slots, but only ${slots.length} were selected`
+				)
+			}
+
+			const bracketGames: PlayoffBracketGame[] = result.games.map(
+				({ slot, field, ...game }) => ({
+					...game,
+					timestamp: slots[slot].timestamp,
+					field: orderedFields[field],
+					homeName: game.homeTeamId ? teamNames[game.homeTeamId] : null,
+					awayName: game.awayTeamId ? teamNames[game.awayTeamId] : null,
+				})
+			)
+			const seeds = result.seeds.map((seed) => ({
+				...seed,
+				name: teamNames[seed.teamId],
+			}))
+
+			if (dryRun) {
+				return {
+					success: true,
+					seasonId,
+					created: false,
+					gameIds: [],
+					seeding,
+					games: bracketGames,
+					seeds,
+					message: `Bracket has ${bracketGames.length} games`,
+				}
+			}
+
+			// Deterministic IDs match createGame: {seasonId}_{timestamp}_{field}
+			const gameRefs = new Map(
+				result.games.map((game) => [
+					game.key,
+					firestore
+						.collection(Collections.GAMES)
+						.doc(
+							`${seasonId}_${slots[game.slot].date.toISOString()}_${orderedFields[game.field]}`
+						),
+				])
+			)
+			const gameEntries = bracketGames.map((game) => {
+				const ref = gameRefs.get(game.key)
+				const nextRef = game.winnerTo ? gameRefs.get(game.winnerTo.key) : null
+				if (!ref || (game.winnerTo && !nextRef)) {
+					throw new Error(`Bracket game ${game.key} is not linked correctly`)
+				}
+
+				const bracket: GameBracketSlot = {
+					bracket: game.bracket,
+					round: game.round,
+					rounds: game.rounds,
+					matchup: game.matchup,
+					homeSeed: game.homeSeed,
+					awaySeed: game.awaySeed,
+					winnerTo:
+						game.winnerTo && nextRef
+							? {
+									game: nextRef as FirebaseFirestore.DocumentReference<GameDocument>,
+									slot: game.winnerTo.slot,
+								}
+							: null,
+				}
+
+				return {
+					ref,
+					data: {
+						home: game.homeTeamId ? teamRef(firestore, game.homeTeamId) : null,
+						homeName: game.homeName,
+						away: game.awayTeamId ? teamRef(firestore, game.awayTeamId) : null,
+						awayName: game.awayName,
+						homeScore: null,
+						awayScore: null,
+						field: game.field,
+						type: GameType.PLAYOFF,
+						date: Timestamp.fromDate(new Date(game.timestamp)),
+						season: seasonRef,
+						bracket,
+					},
+				}
+			})
+
+			await firestore.runTransaction(async (transaction) => {
+				const existing = await transaction.getAll(
+					...gameEntries.map((entry) => entry.ref)
+				)
+				const conflicts = existing.filter((doc) => doc.exists)
+				if (conflicts.length > 0) {
+					throw new HttpsError(
+						'already-exists',
+						`${conflicts.length} game(s) already exist at the same time slot and field. Remove them or choose different time slots.`
+					)
+				}
+
+				for (const entry of gameEntries) {
+					transaction.set(entry.ref, entry.data)
+				}
+			})
+
+			await recordAdminAction(auth, {
+				action: AuditAction.GAME_GENERATE_PLAYOFFS,
+				targets: [seasonRef, ...gameEntries.map((entry) => entry.ref)],
+				details: { format, seeding, teams: teamCount },
+			})
+
+			logger.info('Playoff bracket generated', {
+				seasonId,
+				format,
+				seeding,
+				teams: teamCount,
+				games: gameEntries.length,
+				createdBy: auth?.uid,
+			})
+
+			return {
+				success: true,
+				seasonId,
+				created: true,
+				gameIds: gameEntries.map((entry) => entry.ref.id),
+				seeding,
+				games: bracketGames,
+				seeds,
+				message: `Created ${gameEntries.length} playoff games`,
+			}
+		} catch (error) {
+			// If it's already an HttpsError, just re-throw it
+			if (error instanceof HttpsError) {
+				throw error
+			}
+
+			// Otherwise, log and convert to HttpsError
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error'
+
+			logger.error('Error generating playoff bracket:', {
+				seasonId,
+				userId: auth?.uid,
+				error: errorMessage,
+			})
+
+			throw new HttpsError(
+				'internal',
+				`Failed to generate playoff bracket: ${errorMessage}`
+			)
+		}
+	}
+)
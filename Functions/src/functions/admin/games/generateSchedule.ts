@@ -0,0 +1,227 @@
+/**
+ * Generate schedule callable function
+ *
+ * Builds a round-robin regular-season schedule for a traditional season from
+ * its registered teams and a list of game nights. Nothing is written: the
+ * admin reviews and edits the preview, then saves it with `createGamesBatch`.
+ */
+
+import { getFirestore } from 'firebase-admin/firestore'
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { logger } from 'firebase-functions/v2'
+import { validateAdminUser } from '../../../shared/auth.js'
+import { canonicalTeamIdFromTeamSeasonDoc } from '../../../shared/database.js'
+import {
+	validateGameField,
+	validateGameNight,
+} from '../../../shared/gameSchedule.js'
+import { resolveSeasonRules } from '../../../shared/seasonRules.js'
+import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import {
+	Collections,
+	SeasonDocument,
+	SeasonFormat,
+	TEAM_SEASONS_SUBCOLLECTION,
+	TeamSeasonDocument,
+} from '../../../types.js'
+import {
+	generateRoundRobinSchedule,
+	RoundRobinGame,
+	RoundRobinTeamSummary,
+} from '../../../services/roundRobinSchedule/index.js'
+
+/**
+ * Request interface for generating a schedule
+ */
+interface GenerateScheduleRequest {
+	/** Season ID to schedule */
+	seasonId: string
+	/** Game nights in YYYY-MM-DD format (Saturdays) */
+	dates: string[]
+	/** Time slots to use (defaults to every slot the season allows) */
+	timeSlots?: string[]
+	/** Fields to use (defaults to every field the season allows) */
+	fields?: number[]
+}
+
+/**
+ * A proposed game with team names resolved for display
+ */
+interface ProposedGame extends RoundRobinGame {
+	homeName: string
+	awayName: string
+}
+
+/**
+ * Response interface for a generated schedule
+ */
+interface GenerateScheduleResponse {
+	success: true
+	seasonId: string
+	games: ProposedGame[]
+	teamSummaries: (RoundRobinTeamSummary & { name: string })[]
+	completeCycles: number
+	warnings: string[]
+}
+
+/**
+ * Generates a round-robin schedule preview for a traditional season
+ *
+ * Security validations:
+ * - User must be authenticated with verified email
+ * - User must have admin privileges (admin: true in player document)
+ * - Season must exist and use the traditional format
+ * - Dates must be Saturdays in the season's allowed months; time slots and
+ *   fields must be allowed by the season's rules
+ * - At least two teams must be registered for the season
+ */
+export const generateSchedule = onCall<
+	GenerateScheduleRequest,
+	Promise<GenerateScheduleResponse>
+>(
+	{ region: FIREBASE_CONFIG.REGION },
+	async (request): Promise<GenerateScheduleResponse> => {
+		const { auth, data } = request
+
+		const firestore = getFirestore()
+		await validateAdminUser(auth, firestore)
+
+		const { seasonId, dates } = data
+
+		if (!seasonId || typeof seasonId !== 'string') {
+			throw new HttpsError('invalid-argument', 'Season ID is required')
+		}
+
+		if (!Array.isArray(dates) || dates.length === 0) {
+			throw new HttpsError(
+				'invalid-argument',
+				'At least one game date is required'
+			)
+		}
+
+		try {
+			const seasonRef = firestore.collection(Collections.SEASONS).doc(seasonId)
+			const seasonDoc = await seasonRef.get()
+			if (!seasonDoc.exists) {
+				throw new HttpsError('not-found', 'Season not found')
+			}
+
+			const seasonData = seasonDoc.data() as SeasonDocument
+			if (seasonData.format === SeasonFormat.SWISS) {
+				throw new HttpsError(
+					'failed-precondition',
+					'Round-robin schedules are only generated for traditional seasons'
+				)
+			}
+
+			const rules = resolveSeasonRules(seasonData)
+			const {
+				timeSlots = rules.allowedTimeSlots,
+				fields = rules.allowedFields,
+			} = data
+
+			if (
+				!Array.isArray(timeSlots) ||
+				timeSlots.length === 0 ||
+				timeSlots.some((slot) => !rules.allowedTimeSlots.includes(slot))
+			) {
+				throw new HttpsError(
+					'invalid-argument',
+					`Time slots must be chosen from ${rules.allowedTimeSlots.join(', ')}`
+				)
+			}
+
+			if (!Array.isArray(fields) || fields.length === 0) {
+				throw new HttpsError(
+					'invalid-argument',
+					'At least one field is required'
+				)
+			}
+			fields.forEach((field) => validateGameField(field, rules))
+
+			const gameNights = Array.from(
+				new Set(dates.map((date) => validateGameNight(date, rules)))
+			).sort()
+			const orderedTimeSlots = Array.from(new Set(timeSlots)).sort()
+			const orderedFields = Array.from(new Set(fields)).sort((a, b) => a - b)
+
+			const teamSeasonsSnapshot = await firestore
+				.collectionGroup(TEAM_SEASONS_SUBCOLLECTION)
+				.where('season', '==', seasonRef)
+				.where('registered', '==', true)
+				.get()
+			const registeredTeams = (
+				teamSeasonsSnapshot.docs as FirebaseFirestore.QueryDocumentSnapshot<TeamSeasonDocument>[]
+			)
+				.map((doc) => ({
+					id: canonicalTeamIdFromTeamSeasonDoc(doc),
+					name: doc.data().name,
+					registeredDate: doc.data().registeredDate?.toMillis() ?? 0,
+				}))
+				// Earlier registrations take the first positions in the rotation
+				.sort((a, b) => a.registeredDate - b.registeredDate)
+
+			if (registeredTeams.length < 2) {
+				throw new HttpsError(
+					'failed-precondition',
+					'At least two registered teams are required to generate a schedule'
+				)
+			}
+
+			const teamNames = Object.fromEntries(
+				registeredTeams.map((team) => [team.id, team.name])
+			)
+
+			const result = generateRoundRobinSchedule({
+				teamIds: registeredTeams.map((team) => team.id),
+				dates: gameNights,
+				timeSlots: orderedTimeSlots,
+				fields: orderedFields,
+				teamNames,
+			})
+
+			logger.info('Round-robin schedule generated', {
+				seasonId,
+				teams: registeredTeams.length,
+				nights: gameNights.length,
+				games: result.games.length,
+				completeCycles: result.completeCycles,
+				warnings: result.warnings.length,
+				requestedBy: auth?.uid,
+			})
+
+			return {
+				success: true,
+				seasonId,
+				games: result.games.map((game) => ({
+					...game,
+					homeName: teamNames[game.homeTeamId],
+					awayName: teamNames[game.awayTeamId],
+				})),
+				teamSummaries: result.teamSummaries.map((summary) => ({
+					...summary,
+					name: teamNames[summary.teamId],
+				})),
+				completeCycles: result.completeCycles,
+				warnings: result.warnings,
+			}
+		} catch (error) {
+			logger.error('Error generating schedule', {
+				adminUserId: auth?.uid,
+				seasonId,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+
+			if (error instanceof HttpsError) {
+				throw error
+			}
+
+			throw new HttpsError(
+				'internal',
+				error instanceof Error
+					? error.message
+					: 'Failed to generate schedule. Please try again.'
+			)
+		}
+	}
+)
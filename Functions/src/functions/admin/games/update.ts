@@ -13,10 +13,20 @@ import {
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { logger } from 'firebase-functions/v2'
 import { validateAdminUser } from '../../../shared/auth.js'
-import { FIREBASE_CONFIG, GAME_CONFIG } from '../../../config/constants.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import {
+	validateGameField,
+	validateGameTimestamp,
+} from '../../../shared/gameSchedule.js'
+import { resolveSeasonRules } from '../../../shared/seasonRules.js'
+import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import {
+	AuditAction,
 	Collections,
+	GameStatus,
 	GameType,
+	ScoreReportStatus,
+	SeasonDocument,
 	TEAM_SEASONS_SUBCOLLECTION,
 } from '../../../types.js'
 
@@ -34,7 +44,7 @@ interface UpdateGameRequest {
 	homeScore?: number | null
 	/** Away team's score (nullable if score not yet recorded) */
 	awayScore?: number | null
-	/** Field number (1, 2, or 3) */
+	/** Field number (one of the season's allowed fields) */
 	field?: number
 	/** Game type (regular or playoff) */
 	type?: GameType
@@ -42,6 +52,12 @@ interface UpdateGameRequest {
 	timestamp?: string
 	/** Season ID for the game */
 	seasonId?: string
+	/** Lifecycle status */
+	status?: GameStatus
+	/** Team that forfeited; required when the status is forfeit */
+	forfeitedByTeamId?: string | null
+	/** Game replacing this one; only for postponed or canceled games */
+	rescheduledToGameId?: string | null
 }
 
 /**
@@ -60,16 +76,23 @@ interface UpdateGameResponse {
  * - User must be authenticated with verified email
  * - User must have admin privileges (admin: true in player document)
  * - Game must exist
- * - Field must be 1, 2, or 3 (if provided)
+ * - Field must be one of the season's allowed fields (if provided)
  * - Scores must be non-negative numbers (if provided)
  * - Season must exist (if provided)
  * - Teams must exist (if provided)
  * - No duplicate game at same time and field (if time/field changed)
  *
- * Business logic:
- * - Games are only allowed on Saturdays
- * - Games are only allowed at 6:00pm, 6:45pm, 7:30pm, or 8:15pm CT
+ * Business logic (from the season's rules, see shared/seasonRules.ts):
+ * - Games are only allowed on Saturdays in the season's allowed months
+ * - Games are only allowed in the season's time slots (6:00pm, 6:45pm,
+ *   7:30pm, or 8:15pm CT by default)
  * - Each field can only have one game per time slot
+ * - Setting both scores on a game with pending or disputed captain score
+ *   reports resolves them (the game's scoreStatus becomes confirmed)
+ * - A forfeit needs the forfeiting team and is scored with the season's
+ *   forfeit score; postponed and canceled games have their scores cleared
+ *   and may link to the game that replaces them
+ * - Scoring a scheduled game marks it final
  */
 export const updateGame = onCall<
 	UpdateGameRequest,
@@ -98,6 +121,9 @@ export const updateGame = onCall<
 			type,
 			timestamp,
 			seasonId,
+			status,
+			forfeitedByTeamId,
+			rescheduledToGameId,
 		} = data
 
 		// Validate required fields
@@ -134,12 +160,25 @@ export const updateGame = onCall<
 			)
 		}
 
-		if (
-			field !== undefined &&
-			!(GAME_CONFIG.ALLOWED_FIELDS as readonly number[]).includes(field)
-		) {
+		if (field !== undefined && typeof field !== 'number') {
 			logger.warn('Invalid field provided', { field })
-			throw new HttpsError('invalid-argument', 'Field must be 1, 2, or 3')
+			throw new HttpsError('invalid-argument', 'Field must be a number')
+		}
+
+		if (timestamp !== undefined && typeof timestamp !== 'string') {
+			logger.warn('Invalid timestamp provided', { timestamp })
+			throw new HttpsError(
+				'invalid-argument',
+				'Timestamp must be a valid ISO 8601 string'
+			)
+		}
+
+		if (seasonId !== undefined && typeof seasonId !== 'string') {
+			logger.warn('Invalid seasonId provided', { seasonId })
+			throw new HttpsError(
+				'invalid-argument',
+				'Season ID must be a valid string'
+			)
 		}
 
 		if (
@@ -153,6 +192,28 @@ export const updateGame = onCall<
 			)
 		}
 
+		if (status !== undefined && !Object.values(GameStatus).includes(status)) {
+			logger.warn('Invalid game status provided', { status })
+			throw new HttpsError(
+				'invalid-argument',
+				`Game status must be one of: ${Object.values(GameStatus).join(', ')}`
+			)
+		}
+
+		if (
+			(forfeitedByTeamId !== undefined &&
+				forfeitedByTeamId !== null &&
+				typeof forfeitedByTeamId !== 'string') ||
+			(rescheduledToGameId !== undefined &&
+				rescheduledToGameId !== null &&
+				typeof rescheduledToGameId !== 'string')
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Forfeiting team and rescheduled game must be IDs'
+			)
+		}
+
 		try {
 			const gameRef = firestore.collection(Collections.GAMES).doc(gameId)
 
@@ -162,114 +223,18 @@ export const updateGame = onCall<
 				Timestamp | number | string | null | GameType | DocumentReference
 			> = {}
 
-			// Handle timestamp update
-			let gameDate: Date | undefined
-			if (timestamp) {
-				if (typeof timestamp !== 'string') {
-					throw new HttpsError(
-						'invalid-argument',
-						'Timestamp must be a valid ISO 8601 string'
-					)
-				}
-
-				gameDate = new Date(timestamp)
-				if (isNaN(gameDate.getTime())) {
-					throw new HttpsError(
-						'invalid-argument',
-						'Invalid timestamp format. Must be a valid ISO 8601 string'
-					)
-				}
-
-				// Extract date components from ISO string to avoid timezone issues
-				// ISO format: YYYY-MM-DDTHH:MM:SS.sss±HH:MM
-				const dateMatch = timestamp.match(/^(\d{4})-(\d{2})-(\d{2})T/)
-				if (!dateMatch) {
-					throw new HttpsError(
-						'invalid-argument',
-						'Invalid timestamp format: could not extract date'
-					)
-				}
-				const year = parseInt(dateMatch[1], 10)
-				const month = parseInt(dateMatch[2], 10) // 1-indexed in ISO string
-				const dayOfMonth = parseInt(dateMatch[3], 10)
-
-				// Validate business logic: Saturday only
-				// Calculate day of week from the date components (in the intended timezone)
-				// Using Zeller's congruence algorithm
-				const adjustedMonth = month < 3 ? month + 12 : month
-				const adjustedYear = month < 3 ? year - 1 : year
-				const dayOfWeek =
-					(dayOfMonth +
-						Math.floor((13 * (adjustedMonth + 1)) / 5) +
-						adjustedYear +
-						Math.floor(adjustedYear / 4) -
-						Math.floor(adjustedYear / 100) +
-						Math.floor(adjustedYear / 400)) %
-					7
-				// Zeller's returns 0=Saturday, 1=Sunday, ..., 6=Friday
-				if (dayOfWeek !== 0) {
-					throw new HttpsError(
-						'invalid-argument',
-						`Games can only be scheduled on Saturdays (received day: ${dayOfWeek})`
-					)
-				}
-
-				// Validate business logic: allowed time slots
-				// Extract the local time directly from the ISO string to avoid timezone conversion issues
-				// ISO format: YYYY-MM-DDTHH:MM:SS.sss±HH:MM
-				const timeMatch = timestamp.match(/T(\d{2}):(\d{2})/)
-				if (!timeMatch) {
-					throw new HttpsError(
-						'invalid-argument',
-						'Invalid timestamp format: could not extract time'
-					)
-				}
-				const hours = parseInt(timeMatch[1], 10)
-				const minutes = parseInt(timeMatch[2], 10)
-				const timeString = `${hours}:${minutes.toString().padStart(2, '0')}`
-
-				if (
-					!(GAME_CONFIG.ALLOWED_TIME_SLOTS as readonly string[]).includes(
-						timeString
-					)
-				) {
-					throw new HttpsError(
-						'invalid-argument',
-						`Games can only be scheduled at 6:00pm, 6:45pm, 7:30pm, or 8:15pm CT (received: ${timeString})`
-					)
-				}
-
-				// Log for debugging DST transitions
-				logger.info('Game time validation passed', {
-					gameId,
-					timestamp,
-					localHours: hours,
-					localMinutes: minutes,
-					timeString,
-					dayOfWeek,
-					month,
-					year,
-					dayOfMonth,
-					utcOffset: gameDate.getTimezoneOffset(),
-				})
-
-				updateData.date = Timestamp.fromDate(gameDate)
-			} // Add other fields to update
 			if (homeScore !== undefined) {
 				updateData.homeScore = homeScore
 			}
 			if (awayScore !== undefined) {
 				updateData.awayScore = awayScore
 			}
-			if (field !== undefined) {
-				updateData.field = field
-			}
 			if (type !== undefined) {
 				updateData.type = type
 			}
 
 			// Use transaction for all database operations to ensure atomicity
-			await firestore.runTransaction(async (transaction) => {
+			const before = await firestore.runTransaction(async (transaction) => {
 				// Verify game exists
 				const gameDoc = await transaction.get(gameRef)
 				if (!gameDoc.exists) {
@@ -285,20 +250,15 @@ export const updateGame = onCall<
 					throw new HttpsError('not-found', 'Game data not found.')
 				}
 
-				// Handle season update
+				// The game's (possibly updated) season supplies the scheduling rules
+				const effectiveSeasonId =
+					seasonId ?? existingGameData.season?.id ?? null
+				const seasonRef = effectiveSeasonId
+					? firestore.collection(Collections.SEASONS).doc(effectiveSeasonId)
+					: null
+				const seasonDoc = seasonRef ? await transaction.get(seasonRef) : null
 				if (seasonId !== undefined) {
-					if (typeof seasonId !== 'string') {
-						throw new HttpsError(
-							'invalid-argument',
-							'Season ID must be a valid string'
-						)
-					}
-
-					const seasonRef = firestore
-						.collection(Collections.SEASONS)
-						.doc(seasonId)
-					const seasonDoc = await transaction.get(seasonRef)
-					if (!seasonDoc.exists) {
+					if (!seasonRef || !seasonDoc?.exists) {
 						logger.warn('Season not found', { seasonId })
 						throw new HttpsError(
 							'not-found',
@@ -307,14 +267,37 @@ export const updateGame = onCall<
 					}
 					updateData.season = seasonRef
 				}
+				const rules = resolveSeasonRules(
+					seasonDoc?.data() as SeasonDocument | undefined
+				)
+
+				// Validate business logic against the season's rules. Unchanged
+				// dates and fields are left alone so games from seasons played
+				// under older rules can still have their scores edited.
+				let gameDate: Date | undefined
+				if (
+					timestamp &&
+					new Date(timestamp).getTime() !== existingGameData.date?.toMillis()
+				) {
+					gameDate = validateGameTimestamp(timestamp, rules)
+
+					// Log for debugging DST transitions
+					logger.info('Game time validation passed', {
+						gameId,
+						timestamp,
+						utcOffset: gameDate.getTimezoneOffset(),
+					})
+
+					updateData.date = Timestamp.fromDate(gameDate)
+				}
+				if (field !== undefined && field !== existingGameData.field) {
+					updateData.field = validateGameField(field, rules)
+				}
 
 				// Handle team updates (explicitly handle null). When the team
 				// ref changes, also re-capture the denormalized team name from
 				// the team-season subdoc for the game's (possibly updated)
 				// season — see GameDocument.homeName/awayName field doc.
-				const effectiveSeasonId =
-					seasonId ?? existingGameData.season?.id ?? null
-
 				if (homeTeamId !== undefined) {
 					if (homeTeamId === null) {
 						updateData.home = null
@@ -385,6 +368,149 @@ export const updateGame = onCall<
 					}
 				}
 
+				// Lifecycle status. Forfeits are scored with the season's forfeit
+				// score; postponed and canceled games have no score.
+				const effectiveStatus = status ?? existingGameData.status
+				const effectiveHomeId =
+					homeTeamId !== undefined
+						? homeTeamId
+						: ((existingGameData.home?.id as string | undefined) ?? null)
+				const effectiveAwayId =
+					awayTeamId !== undefined
+						? awayTeamId
+						: ((existingGameData.away?.id as string | undefined) ?? null)
+				if (status !== undefined) {
+					updateData.status = status
+				}
+
+				if (effectiveStatus === GameStatus.FORFEIT) {
+					const forfeitingTeamId =
+						forfeitedByTeamId !== undefined
+							? forfeitedByTeamId
+							: ((existingGameData.forfeitedBy?.id as string | undefined) ??
+								null)
+					if (
+						!forfeitingTeamId ||
+						(forfeitingTeamId !== effectiveHomeId &&
+							forfeitingTeamId !== effectiveAwayId)
+					) {
+						throw new HttpsError(
+							'invalid-argument',
+							'A forfeit needs the forfeiting team, which must be the home or away team'
+						)
+					}
+					const homeForfeited = forfeitingTeamId === effectiveHomeId
+					updateData.forfeitedBy = firestore
+						.collection(Collections.TEAMS)
+						.doc(forfeitingTeamId)
+					updateData.homeScore = homeForfeited
+						? rules.forfeitLoserScore
+						: rules.forfeitWinnerScore
+					updateData.awayScore = homeForfeited
+						? rules.forfeitWinnerScore
+						: rules.forfeitLoserScore
+				} else {
+					if (forfeitedByTeamId) {
+						throw new HttpsError(
+							'invalid-argument',
+							'Only forfeited games have a forfeiting team'
+						)
+					}
+					if (existingGameData.forfeitedBy) {
+						updateData.forfeitedBy = null
+					}
+				}
+
+				const isUnplayed =
+					effectiveStatus === GameStatus.POSTPONED ||
+					effectiveStatus === GameStatus.CANCELED
+				if (isUnplayed) {
+					if (
+						(homeScore !== undefined && homeScore !== null) ||
+						(awayScore !== undefined && awayScore !== null)
+					) {
+						throw new HttpsError(
+							'invalid-argument',
+							'Postponed and canceled games cannot have a score'
+						)
+					}
+					updateData.homeScore = null
+					updateData.awayScore = null
+				}
+
+				if (rescheduledToGameId) {
+					if (!isUnplayed) {
+						throw new HttpsError(
+							'invalid-argument',
+							'Only postponed or canceled games can link to a rescheduled game'
+						)
+					}
+					if (rescheduledToGameId === gameId) {
+						throw new HttpsError(
+							'invalid-argument',
+							'A game cannot be rescheduled to itself'
+						)
+					}
+					const rescheduledRef = firestore
+						.collection(Collections.GAMES)
+						.doc(rescheduledToGameId)
+					const rescheduledDoc = await transaction.get(rescheduledRef)
+					if (!rescheduledDoc.exists) {
+						throw new HttpsError('not-found', 'Rescheduled game not found')
+					}
+					updateData.rescheduledTo = rescheduledRef
+				} else if (
+					rescheduledToGameId === null ||
+					(!isUnplayed && existingGameData.rescheduledTo)
+				) {
+					updateData.rescheduledTo = null
+				}
+
+				const resolvedHomeScore =
+					updateData.homeScore !== undefined
+						? (updateData.homeScore as number | null)
+						: existingGameData.homeScore
+				const resolvedAwayScore =
+					updateData.awayScore !== undefined
+						? (updateData.awayScore as number | null)
+						: existingGameData.awayScore
+				const isScored =
+					resolvedHomeScore !== null &&
+					resolvedHomeScore !== undefined &&
+					resolvedAwayScore !== null &&
+					resolvedAwayScore !== undefined
+
+				// Scores move scheduled games to final, and a final game
+				// without its score goes back to being derived from its date
+				if (
+					effectiveStatus === GameStatus.FINAL ||
+					effectiveStatus === GameStatus.SCHEDULED ||
+					effectiveStatus === GameStatus.IN_PROGRESS ||
+					effectiveStatus === undefined
+				) {
+					if (isScored && effectiveStatus !== GameStatus.FINAL) {
+						updateData.status = GameStatus.FINAL
+					} else if (!isScored && effectiveStatus === GameStatus.FINAL) {
+						if (status === GameStatus.FINAL) {
+							throw new HttpsError(
+								'invalid-argument',
+								'Final games need both scores'
+							)
+						}
+						updateData.status = GameStatus.SCHEDULED
+					}
+				}
+
+				// An admin score settles any open captain reports, which is how
+				// the dispute queue is cleared
+				if (
+					(existingGameData.scoreStatus === ScoreReportStatus.PENDING ||
+						existingGameData.scoreStatus === ScoreReportStatus.DISPUTED) &&
+					isScored
+				) {
+					updateData.scoreStatus = ScoreReportStatus.CONFIRMED
+				}
+
 				// Check for duplicate game if date or field changed
 				const updatedField = field ?? existingGameData.field
 				const updatedDate = gameDate
@@ -424,6 +550,14 @@ export const updateGame = onCall<
 					updateData,
 				})
 				transaction.update(gameRef, updateData)
+				return existingGameData
+			})
+
+			await recordAdminAction(auth, {
+				action: AuditAction.GAME_UPDATE,
+				targets: [gameRef],
+				before,
+				after: { ...before, ...updateData },
 			})
 
 			logger.info('Game updated successfully', {
@@ -1,13 +1,24 @@
 /**
  * Create news post callable function
+ *
+ * Every player with a season record for the post's season is notified.
  */
 
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore, FieldValue } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
-import { Collections } from '../../../types.js'
+import {
+	AuditAction,
+	Collections,
+	NotificationType,
+	PLAYER_SEASONS_SUBCOLLECTION,
+	PlayerSeasonDocument,
+} from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import { canonicalPlayerIdFromPlayerSeasonDoc } from '../../../shared/database.js'
+import { notifyPlayers } from '../../../shared/notifications.js'
 
 interface CreateNewsRequest {
 	title: string
@@ -98,13 +109,20 @@ export const createNews = onCall<CreateNewsRequest>(
 			const now = FieldValue.serverTimestamp()
 			const newsRef = firestore.collection(Collections.NEWS).doc()
 
-			await newsRef.set({
+			const newsDocument = {
 				title: title.trim(),
 				content: content.trim(),
 				author: userRef,
 				season: seasonRef,
 				createdAt: now,
 				updatedAt: now,
+			}
+			await newsRef.set(newsDocument)
+
+			await recordAdminAction(auth, {
+				action: AuditAction.NEWS_CREATE,
+				targets: [newsRef],
+				after: newsDocument,
 			})
 
 			logger.info('News post created successfully', {
@@ -115,6 +133,21 @@ export const createNews = onCall<CreateNewsRequest>(
 				contentLength: content.length,
 			})
 
+			const seasonPlayersSnapshot = (await firestore
+				.collectionGroup(PLAYER_SEASONS_SUBCOLLECTION)
+				.where('season', '==', seasonRef)
+				.get()) as FirebaseFirestore.QuerySnapshot<PlayerSeasonDocument>
+			await notifyPlayers(
+				firestore,
+				seasonPlayersSnapshot.docs.map(canonicalPlayerIdFromPlayerSeasonDoc),
+				{
+					type: NotificationType.NEWS_POSTED,
+					title: 'New league news',
+					body: newsDocument.title,
+					link: '/news',
+				}
+			)
+
 			return {
 				success: true,
 				newsId: newsRef.id,
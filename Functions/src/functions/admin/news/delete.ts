@@ -5,8 +5,9 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
-import { Collections } from '../../../types.js'
+import { AuditAction, Collections } from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 
 interface DeleteNewsRequest {
@@ -56,6 +57,12 @@ export const deleteNews = onCall<DeleteNewsRequest>(
 			// Delete the news post
 			await newsRef.delete()
 
+			await recordAdminAction(auth, {
+				action: AuditAction.NEWS_DELETE,
+				targets: [newsRef],
+				before: newsDoc.data(),
+			})
+
 			logger.info('News post deleted successfully', {
 				newsId,
 				deletedBy: auth?.uid,
@@ -5,8 +5,9 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore, FieldValue } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
-import { Collections, SeasonDocument } from '../../../types.js'
+import { AuditAction, Collections, SeasonDocument } from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 
 interface UpdateNewsRequest {
@@ -132,6 +133,13 @@ export const updateNews = onCall<UpdateNewsRequest>(
 			} // Update news post
 			await newsRef.update(updateData)
 
+			await recordAdminAction(auth, {
+				action: AuditAction.NEWS_UPDATE,
+				targets: [newsRef],
+				before: newsDoc.data(),
+				after: { ...newsDoc.data(), ...updateData },
+			})
+
 			logger.info('News post updated successfully', {
 				newsId,
 				updatedBy: auth?.uid,
@@ -0,0 +1,270 @@
+/**
+ * Refund player payment (admin) callable function
+ *
+ * Allows admins to refund a player's Stripe registration payment for a
+ * season. The refund is issued in Stripe; the `charge.refunded` webhook then
+ * marks the payment refunded, clears the player's paid flag, and
+ * re-evaluates their team's registration.
+ *
+ * Security validations:
+ * - User must be authenticated with verified email
+ * - User must have admin privileges
+ * - The player must have a refundable Stripe payment for the season
+ *
+ * Payments made before `seasonId` was stored on payment documents are
+ * matched to a season the same way the webhook matches them
+ * (`resolvePaymentSeasonId`). When that can't pick out a single payment, the
+ * admin is asked to refund it in the Stripe dashboard. A matched older payment
+ * is stamped with the season first.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { getFirestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import Stripe from 'stripe'
+import {
+	AuditAction,
+	Collections,
+	PaymentDocument,
+	PaymentStatus,
+} from '../../../types.js'
+import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
+import { resolvePaymentSeasonId } from '../../../services/paymentStatusService.js'
+import { FIREBASE_CONFIG, getStripeConfig } from '../../../config/constants.js'
+
+interface RefundPlayerPaymentRequest {
+	/** Player's Firebase Auth UID */
+	playerId: string
+	/** Season the payment was for */
+	seasonId: string
+}
+
+interface RefundPlayerPaymentResponse {
+	success: true
+	playerId: string
+	seasonId: string
+	refundId: string
+	/** Amount refunded, in the smallest currency unit */
+	amount: number
+	message: string
+}
+
+/** Payment statuses that still have money left to refund */
+const REFUNDABLE_STATUSES: PaymentStatus[] = ['paid', 'partially_refunded']
+
+const STRIPE_DASHBOARD_HINT =
+	"Refund it from the Stripe dashboard and clear the player's paid flag by hand."
+
+/**
+ * Newest payment first
+ */
+const byNewest = (
+	a: FirebaseFirestore.QueryDocumentSnapshot,
+	b: FirebaseFirestore.QueryDocumentSnapshot
+): number =>
+	(b.data() as PaymentDocument).stripeCreated.toMillis() -
+	(a.data() as PaymentDocument).stripeCreated.toMillis()
+
+const isRefundable = (doc: FirebaseFirestore.QueryDocumentSnapshot): boolean =>
+	REFUNDABLE_STATUSES.includes((doc.data() as PaymentDocument).status)
+
+/**
+ * Finds the player's refundable payment for a season, falling back to
+ * payments stored before they carried a `seasonId`
+ *
+ * @throws HttpsError if no single payment can be matched to the season
+ */
+async function findRefundablePayment(
+	firestore: FirebaseFirestore.Firestore,
+	playerId: string,
+	seasonId: string
+): Promise<FirebaseFirestore.QueryDocumentSnapshot> {
+	const paymentsRef = firestore
+		.collection(Collections.STRIPE)
+		.doc(playerId)
+		.collection('payments')
+
+	const seasonPayments = await paymentsRef
+		.where('seasonId', '==', seasonId)
+		.get()
+	const seasonPayment = seasonPayments.docs
+		.filter(isRefundable)
+		.sort(byNewest)[0]
+	if (seasonPayment) {
+		return seasonPayment
+	}
+
+	const legacyPayments = (await paymentsRef.get()).docs.filter(
+		(doc) => !(doc.data() as PaymentDocument).seasonId && isRefundable(doc)
+	)
+	if (legacyPayments.length === 0) {
+		throw new HttpsError(
+			'failed-precondition',
+			'No refundable Stripe payment found for this player and season'
+		)
+	}
+
+	const seasons = await firestore.collection(Collections.SEASONS).get()
+	const candidates = legacyPayments.filter(
+		(doc) =>
+			resolvePaymentSeasonId(doc.data() as PaymentDocument, seasons.docs) ===
+			seasonId
+	)
+
+	if (candidates.length === 1) {
+		return candidates[0]
+	}
+
+	throw new HttpsError(
+		'failed-precondition',
+		candidates.length === 0
+			? `This player only has older payments that aren't linked to a season, and none could be matched to this season. ${STRIPE_DASHBOARD_HINT}`
+			: `This player has ${candidates.length} older payments that could be for this season. ${STRIPE_DASHBOARD_HINT}`
+	)
+}
+
+/**
+ * Refunds the remaining balance of a player's payment for a season
+ */
+export const refundPlayerPayment = onCall<RefundPlayerPaymentRequest>(
+	{
+		cors: [...FIREBASE_CONFIG.CORS_ORIGINS],
+		region: FIREBASE_CONFIG.REGION,
+		secrets: ['STRIPE_SECRET_KEY'],
+	},
+	async (request): Promise<RefundPlayerPaymentResponse> => {
+		const { data, auth } = request
+		const { playerId, seasonId } = data
+
+		if (!playerId || typeof playerId !== 'string') {
+			throw new HttpsError('invalid-argument', 'Player ID is required')
+		}
+		if (!seasonId || typeof seasonId !== 'string') {
+			throw new HttpsError('invalid-argument', 'Season ID is required')
+		}
+
+		try {
+			const firestore = getFirestore()
+			const adminId = await validateAdminUser(auth, firestore)
+
+			// Find the player's most recent refundable payment for the season
+			const paymentDoc = await findRefundablePayment(
+				firestore,
+				playerId,
+				seasonId
+			)
+			const payment = paymentDoc.data() as PaymentDocument
+			if (!payment.seasonId) {
+				await paymentDoc.ref.update({ seasonId })
+			}
+
+			const stripeConfig = getStripeConfig()
+			const stripe = new Stripe(stripeConfig.SECRET_KEY, {
+				apiVersion: stripeConfig.API_VERSION,
+			})
+
+			// Older payment documents don't store the payment intent
+			let paymentIntentId = payment.paymentIntentId
+			if (!paymentIntentId) {
+				const session = await stripe.checkout.sessions.retrieve(paymentDoc.id)
+				paymentIntentId =
+					typeof session.payment_intent === 'string'
+						? session.payment_intent
+						: (session.payment_intent?.id ?? null)
+			}
+			if (!paymentIntentId) {
+				throw new HttpsError(
+					'failed-precondition',
+					'This payment has no Stripe charge to refund'
+				)
+			}
+
+			const alreadyRefunded = payment.amountRefunded ?? 0
+			const amount =
+				payment.amountTotal !== null
+					? payment.amountTotal - alreadyRefunded
+					: undefined
+			if (amount !== undefined && amount <= 0) {
+				throw new HttpsError(
+					'failed-precondition',
+					'This payment has already been fully refunded'
+				)
+			}
+
+			// Stripe replays the first result for a reused key, so the key covers
+			// what has been refunded already and what this refund asks for. A
+			// double-submit before the webhook lands still reuses the same key.
+			const refund = await stripe.refunds.create(
+				{
+					payment_intent: paymentIntentId,
+					...(amount !== undefined && { amount }),
+					reason: 'requested_by_customer',
+					metadata: {
+						firebaseUID: playerId,
+						seasonId,
+						refundedBy: adminId,
+					},
+				},
+				{
+					idempotencyKey: `refund_${paymentDoc.id}_${alreadyRefunded}_${amount ?? 'remaining'}`,
+				}
+			)
+
+			await recordAdminAction(auth, {
+				action: AuditAction.PAYMENT_REFUND,
+				targets: [
+					paymentDoc.ref,
+					firestore.collection(Collections.PLAYERS).doc(playerId),
+				],
+				details: {
+					seasonId,
+					refundId: refund.id,
+					amount: refund.amount,
+					currency: refund.currency,
+				},
+			})
+
+			logger.info('Admin refunded player payment', {
+				adminId,
+				playerId,
+				seasonId,
+				paymentId: paymentDoc.id,
+				refundId: refund.id,
+				amount: refund.amount,
+				status: refund.status,
+			})
+
+			return {
+				success: true,
+				playerId,
+				seasonId,
+				refundId: refund.id,
+				amount: refund.amount,
+				message:
+					'Refund issued. The player will be marked unpaid once Stripe confirms it.',
+			}
+		} catch (error) {
+			// If it's already an HttpsError, just re-throw it
+			if (error instanceof HttpsError) {
+				throw error
+			}
+
+			// Otherwise, log and convert to HttpsError
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error'
+
+			logger.error('Error refunding player payment:', {
+				adminId: auth?.uid,
+				playerId,
+				seasonId,
+				error: errorMessage,
+			})
+
+			throw new HttpsError(
+				'internal',
+				`Failed to refund payment: ${errorMessage}`
+			)
+		}
+	}
+)
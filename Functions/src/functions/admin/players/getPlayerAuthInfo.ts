@@ -9,8 +9,10 @@ import { getAuth } from 'firebase-admin/auth'
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { logger } from 'firebase-functions/v2'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { getFirestore } from 'firebase-admin/firestore'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import { AuditAction, Collections } from '../../../types.js'
 
 interface GetPlayerAuthInfoRequest {
 	/** Player's Firebase Auth UID */
@@ -66,6 +68,11 @@ export const getPlayerAuthInfo = onCall<
 			const authInstance = getAuth()
 			const userRecord = await authInstance.getUser(playerId)
 
+			await recordAdminAction(auth, {
+				action: AuditAction.PLAYER_VIEW_AUTH_INFO,
+				targets: [firestore.collection(Collections.PLAYERS).doc(playerId)],
+			})
+
 			logger.info('Retrieved player auth info', {
 				playerId,
 				emailVerified: userRecord.emailVerified,
@@ -9,8 +9,9 @@ import { getAuth } from 'firebase-admin/auth'
 import { getFirestore } from 'firebase-admin/firestore'
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { logger } from 'firebase-functions/v2'
-import { Collections } from '../../../types.js'
+import { AuditAction, Collections } from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 
 /**
@@ -214,6 +215,20 @@ export const updatePlayerEmail = onCall<
 				})
 			}
 
+			await recordAdminAction(auth, {
+				action: AuditAction.PLAYER_UPDATE_EMAIL,
+				targets: [playerRef],
+				before: { email: oldEmail },
+				after: { email: trimmedNewEmail },
+			})
+
+			await recordAdminAction(auth, {
+				action: AuditAction.PLAYER_UPDATE_EMAIL,
+				targets: [playerRef],
+				before: { email: oldEmail },
+				after: { email: trimmedNewEmail },
+			})
+
 			// Log successful operation for audit trail
 			logger.info('Email update completed successfully', {
 				playerId,
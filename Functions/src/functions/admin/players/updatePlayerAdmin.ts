@@ -11,7 +11,8 @@
  * Per-season state writes go to `players/{uid}/playerSeasons/{seasonId}` subdocs
  * directly, one update per changed field. Team change writes the new roster
  * entry, deletes the old one, and updates the player season's `team` and
- * `captain` fields atomically.
+ * `captain` fields atomically. Team and captain changes must fit the
+ * season's roster limits.
  */
 
 import { getAuth } from 'firebase-admin/auth'
@@ -19,6 +20,7 @@ import { getFirestore } from 'firebase-admin/firestore'
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { logger } from 'firebase-functions/v2'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { cancelPendingOffersForPlayer } from '../../../shared/offers.js'
 import { playerSeasonRef, teamSeasonRef } from '../../../shared/database.js'
 import {
@@ -27,7 +29,14 @@ import {
 	setPlayerCaptainStatus,
 } from '../../../shared/membership.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import { getSeasonRules } from '../../../shared/seasonRules.js'
 import {
+	getRosterComposition,
+	validateCaptainChange,
+	validateRosterAddition,
+} from '../../../shared/rosterLimits.js'
+import {
+	AuditAction,
 	Collections,
 	type DocumentReference,
 	type PlayerDocument,
@@ -367,33 +376,48 @@ export const updatePlayerAdmin = onCall<
 					const isRemovingCaptainFromTeam =
 						wasCaptain && oldTeamId && oldTeamId !== newTeamId
 
+					// Season roster limits, for the old team when a captain leaves
+					// or is demoted and for the new team when the player joins or is
+					// promoted.
+					const rules = await getSeasonRules(seasonUpdate.seasonId)
 					if (isDemotingCaptain || isRemovingCaptainFromTeam) {
-						const teamIdToCheck = oldTeamId as string
-						const rosterSnap = await teamSeasonRef(
-							firestore,
-							teamIdToCheck,
-							seasonUpdate.seasonId
+						validateCaptainChange(
+							rules,
+							await getRosterComposition(
+								firestore,
+								oldTeamId as string,
+								seasonUpdate.seasonId
+							),
+							-1
 						)
-							.collection('roster')
-							.get()
-						const captainSnaps = await Promise.all(
-							rosterSnap.docs.map((d) =>
-								playerSeasonRef(firestore, d.id, seasonUpdate.seasonId).get()
-							)
+					}
+					const isPromotingCaptain =
+						!wasCaptain &&
+						willBeCaptain &&
+						oldTeamId === newTeamId &&
+						!!newTeamId
+					if (isPromotingCaptain) {
+						validateCaptainChange(
+							rules,
+							await getRosterComposition(
+								firestore,
+								newTeamId,
+								seasonUpdate.seasonId
+							),
+							1
+						)
+					}
+					if (newTeamId && newTeamId !== oldTeamId) {
+						const [composition, newTeamSeasonSnap] = await Promise.all([
+							getRosterComposition(firestore, newTeamId, seasonUpdate.seasonId),
+							teamSeasonRef(firestore, newTeamId, seasonUpdate.seasonId).get(),
+						])
+						validateRosterAddition(
+							rules,
+							composition,
+							{ captain: willBeCaptain, gender: playerData?.gender },
+							newTeamSeasonSnap.data()?.name ?? 'This team'
 						)
-						const otherCaptainCount = captainSnaps.filter((s, i) => {
-							return (
-								rosterSnap.docs[i].id !== playerId && s.data()?.captain === true
-							)
-						}).length
-						if (otherCaptainCount === 0) {
-							const seasonName =
-								seasonNames.get(seasonUpdate.seasonId) || seasonUpdate.seasonId
-							throw new HttpsError(
-								'failed-precondition',
-								`Cannot remove captain status from ${playerData?.firstname} ${playerData?.lastname}. They are the only captain on this team for ${seasonName}. Please assign another captain first.`
-							)
-						}
 					}
 
 					// Build per-field change tracking.
@@ -522,6 +546,22 @@ export const updatePlayerAdmin = onCall<
 				}
 			}
 
+			await recordAdminAction(auth, {
+				action: AuditAction.PLAYER_UPDATE,
+				targets: [
+					playerDocRef,
+					...seasonChanges.map((seasonChange) =>
+						playerSeasonRef(firestore, playerId, seasonChange.seasonId)
+					),
+				],
+				before: playerData,
+				after: { ...playerData, ...updates },
+				details: {
+					emailVerified: changes.emailVerified,
+					seasons: changes.seasons,
+				},
+			})
+
 			logger.info('Player update completed successfully', {
 				playerId,
 				updatedBy: auth?.uid,
@@ -8,11 +8,13 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
 import {
+	AuditAction,
 	Collections,
 	type DocumentReference,
 	type PostDocument,
 } from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 
 interface DeletePostRequest {
@@ -95,6 +97,13 @@ export const deletePost = onCall<
 				await batch.commit()
 			}
 
+			await recordAdminAction(auth, {
+				action: AuditAction.POST_DELETE,
+				targets: [postRef],
+				before: postDoc.data(),
+				details: { repliesDeleted },
+			})
+
 			logger.info('Post deleted successfully', {
 				postId,
 				deletedBy: auth?.uid,
@@ -8,12 +8,14 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore, FieldValue } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
 import {
+	AuditAction,
 	Collections,
 	type DocumentReference,
 	type PostDocument,
 	type ReplyDocument,
 } from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 
 interface DeleteReplyRequest {
@@ -68,7 +70,7 @@ export const deleteReply = onCall<
 				.doc(replyId) as DocumentReference<ReplyDocument>
 
 			// Delete reply and decrement count in a transaction
-			await firestore.runTransaction(async (transaction) => {
+			const reply = await firestore.runTransaction(async (transaction) => {
 				// Check that both post and reply exist
 				const [postDoc, replyDoc] = await Promise.all([
 					transaction.get(postRef),
@@ -90,6 +92,14 @@ export const deleteReply = onCall<
 				transaction.update(postRef, {
 					replyCount: FieldValue.increment(-1),
 				})
+
+				return replyDoc.data()
+			})
+
+			await recordAdminAction(auth, {
+				action: AuditAction.POST_DELETE_REPLY,
+				targets: [replyRef, postRef],
+				before: reply,
 			})
 
 			logger.info('Reply deleted successfully', {
@@ -0,0 +1,138 @@
+/**
+ * Promote Shadow Rankings Firebase Function
+ *
+ * Makes a completed shadow rebuild the live player rankings: its rankings
+ * and round snapshots replace the live ones, and its parameters become the
+ * live parameters for incremental updates and later rebuilds.
+ *
+ * Security validations:
+ * - User must be authenticated with verified email
+ * - User must have admin privileges
+ * - The calculation must be a completed shadow run
+ */
+
+import { getFirestore } from 'firebase-admin/firestore'
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { logger } from 'firebase-functions/v2'
+import {
+	AuditAction,
+	Collections,
+	RankingsCalculationDocument,
+} from '../../../types.js'
+import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
+import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import {
+	loadCheckpoint,
+	promoteShadowRun,
+} from '../../../services/playerRankings/index.js'
+
+interface PromoteShadowRankingsRequest {
+	/** ID of the shadow run's calculation document */
+	calculationId: string
+}
+
+interface PromoteShadowRankingsResponse {
+	success: true
+	calculationId: string
+	message: string
+}
+
+/**
+ * Promotes a shadow rankings run to the live rankings
+ */
+export const promoteShadowRankings = onCall<PromoteShadowRankingsRequest>(
+	{
+		cors: [...FIREBASE_CONFIG.CORS_ORIGINS],
+		region: FIREBASE_CONFIG.REGION,
+		timeoutSeconds: 540, // 9 minutes
+		memory: '1GiB',
+	},
+	async (request): Promise<PromoteShadowRankingsResponse> => {
+		const { auth, data } = request
+		const { calculationId } = data
+
+		if (!calculationId || typeof calculationId !== 'string') {
+			throw new HttpsError('invalid-argument', 'Calculation ID is required')
+		}
+
+		try {
+			const firestore = getFirestore()
+			await validateAdminUser(auth, firestore)
+
+			const calculationRef = firestore
+				.collection(Collections.RANKINGS_CALCULATIONS)
+				.doc(calculationId)
+			const calculationDoc = await calculationRef.get()
+			if (!calculationDoc.exists) {
+				throw new HttpsError('not-found', 'Calculation not found')
+			}
+
+			const calculation = calculationDoc.data() as RankingsCalculationDocument
+			if (calculation.target !== 'shadow') {
+				throw new HttpsError(
+					'failed-precondition',
+					'Only shadow runs can be promoted'
+				)
+			}
+			if (calculation.status !== 'completed' || !calculation.lastRound) {
+				throw new HttpsError(
+					'failed-precondition',
+					'Only completed shadow runs can be promoted'
+				)
+			}
+
+			const previousCheckpoint = await loadCheckpoint()
+			const promoted = await promoteShadowRun(
+				calculationId,
+				calculation,
+				auth?.uid ?? 'unknown'
+			)
+			if (!promoted) {
+				throw new HttpsError(
+					'failed-precondition',
+					'A rankings calculation is already running. Try again in a few minutes.'
+				)
+			}
+
+			await recordAdminAction(auth, {
+				action: AuditAction.RANKINGS_PROMOTE,
+				targets: [calculationRef],
+				before: previousCheckpoint?.parameters,
+				after: calculation.parameters,
+				details: {
+					previousCalculationId: previousCheckpoint?.calculationId,
+				},
+			})
+
+			logger.info('Shadow rankings promoted', {
+				calculationId,
+				promotedBy: auth?.uid,
+			})
+
+			return {
+				success: true,
+				calculationId,
+				message:
+					'Shadow run promoted. Rounds scored since it ran will be applied with its parameters.',
+			}
+		} catch (error) {
+			if (error instanceof HttpsError) {
+				throw error
+			}
+
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error'
+			logger.error('Error promoting shadow rankings:', {
+				adminId: auth?.uid,
+				calculationId,
+				error: errorMessage,
+			})
+
+			throw new HttpsError(
+				'internal',
+				`Failed to promote shadow rankings: ${errorMessage}`
+			)
+		}
+	}
+)
@@ -6,6 +6,10 @@
  * empty player ratings. This provides the most accurate and comprehensive ranking
  * calculation.
  *
+ * The rebuild stores every player's full rating state and checkpoints the last
+ * round, after which new rounds are applied incrementally as games are scored
+ * (see the onGameScored trigger and the updatePlayerRankings scheduled job).
+ *
  * Use this function when:
  * - Setting up rankings for the first time
  * - You need to completely recalculate all rankings from scratch
@@ -13,20 +17,15 @@
  * - Running periodic full audits of the ranking system
  */
 
-import { getFirestore, FieldValue } from 'firebase-admin/firestore'
-import { onCall } from 'firebase-functions/v2/https'
+import { getFirestore } from 'firebase-admin/firestore'
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { logger } from 'firebase-functions/v2'
 import { z } from 'zod'
-import { Collections, SeasonDocument } from '../../../types.js'
+import { AuditAction, Collections } from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
-import {
-	loadGamesForCalculation,
-	processGamesByRounds,
-	saveFinalRankings,
-	createCalculationState,
-	updateCalculationState,
-} from '../../../services/playerRankings/index.js'
+import { runFullRebuild } from '../../../services/playerRankings/index.js'
 
 // Validation schema for full rebuild calculation
 const rebuildRankingsSchema = z.object({
@@ -61,40 +60,36 @@ export const rebuildPlayerRankings = onCall<RebuildRankingsRequest>(
 				applyDecay: true, // Always applied
 			})
 
-			// Create calculation state document for tracking
-			const calculationId = await createCalculationState(
-				'fresh',
-				auth?.uid ?? 'unknown'
-			)
-
-			try {
-				await processFullRebuild(calculationId)
+			const result = await runFullRebuild(auth?.uid ?? 'unknown')
+			if (!result) {
+				throw new HttpsError(
+					'failed-precondition',
+					'A rankings calculation is already running. Try again in a few minutes.'
+				)
+			}
 
+			const { calculationId } = result
+			if (result.status === 'failed') {
 				return {
 					calculationId,
-					status: 'completed',
-					message: 'Player Rankings full rebuild completed successfully.',
+					status: 'failed',
+					message: `Player Rankings rebuild failed: ${result.error}`,
 				}
-			} catch (error) {
-				const errorMessage =
-					error instanceof Error ? error.message : 'Unknown error'
-				const errorStack = error instanceof Error ? error.stack : undefined
+			}
 
-				logger.error('Player Rankings rebuild failed:', error)
-				await updateCalculationState(calculationId, {
-					status: 'failed',
-					error: {
-						message: errorMessage,
-						stack: errorStack,
-						timestamp: FieldValue.serverTimestamp(),
-					},
-				})
+			await recordAdminAction(auth, {
+				action: AuditAction.RANKINGS_REBUILD,
+				targets: [
+					firestore
+						.collection(Collections.RANKINGS_CALCULATIONS)
+						.doc(calculationId),
+				],
+			})
 
-				return {
-					calculationId,
-					status: 'failed',
-					message: `Player Rankings rebuild failed: ${errorMessage}`,
-				}
+			return {
+				calculationId,
+				status: 'completed',
+				message: 'Player Rankings full rebuild completed successfully.',
 			}
 		} catch (error) {
 			logger.error('Error starting Player Rankings rebuild:', error)
@@ -102,84 +97,3 @@ export const rebuildPlayerRankings = onCall<RebuildRankingsRequest>(
 		}
 	}
 )
-
-/**
- * Process the complete rebuild - all games from scratch
- * Starts with empty player ratings and processes all games chronologically
- */
-async function processFullRebuild(calculationId: string): Promise<void> {
-	const firestore = getFirestore()
-
-	try {
-		await updateCalculationState(calculationId, {
-			status: 'running',
-			'progress.currentStep':
-				'Loading all seasons and games for complete rebuild...',
-		})
-
-		// Get all seasons ordered by start date
-		const seasonsSnapshot = await firestore
-			.collection(Collections.SEASONS)
-			.orderBy('dateStart', 'asc')
-			.get()
-
-		const seasons = seasonsSnapshot.docs.map((doc) => ({
-			id: doc.id,
-			...doc.data(),
-		})) as (SeasonDocument & { id: string })[]
-
-		logger.info(`Found ${seasons.length} seasons for complete rebuild`)
-
-		await updateCalculationState(calculationId, {
-			'progress.totalSeasons': seasons.length,
-		})
-
-		// Load ALL games from ALL seasons (startSeasonIndex = 0)
-		const allGames = await loadGamesForCalculation(seasons, 0)
-		logger.info(`Loaded ${allGames.length} total games for complete rebuild`)
-
-		await updateCalculationState(calculationId, {
-			'progress.currentStep': 'Rebuilding rankings from scratch...',
-			'progress.totalGames': allGames.length,
-		})
-
-		// Start with completely empty player ratings (complete rebuild)
-		const playerRatings = new Map()
-		logger.info('Starting complete rebuild with empty player ratings')
-
-		// Process ALL games by rounds in chronological order
-		// Round-based decay is applied automatically during round processing
-		await processGamesByRounds(
-			allGames,
-			playerRatings,
-			calculationId,
-			seasons.length
-		)
-
-		logger.info(
-			`After complete rebuild: ${playerRatings.size} players with ratings`
-		)
-
-		// Save final rankings
-		await updateCalculationState(calculationId, {
-			'progress.currentStep': 'Saving rebuilt rankings...',
-			'progress.percentComplete': 95,
-		})
-
-		await saveFinalRankings(playerRatings)
-		logger.info('Complete rebuild: Final rankings saved successfully')
-
-		// Mark calculation as complete
-		await updateCalculationState(calculationId, {
-			status: 'completed',
-			completedAt: FieldValue.serverTimestamp(),
-			'progress.currentStep': 'Complete',
-			'progress.percentComplete': 100,
-		})
-
-		logger.info(`Player Rankings complete rebuild finished: ${calculationId}`)
-	} catch (error) {
-		logger.error(`Player Rankings rebuild failed: ${calculationId}`, error)
-		throw error
-	}
-}
@@ -0,0 +1,132 @@
+/**
+ * Player Rankings Shadow Rebuild Firebase Function
+ *
+ * Rebuilds all player rankings from scratch with admin-chosen parameters
+ * (β, τ, season decay, gravity well, inactivity decay, playoff multiplier,
+ * margin-of-victory weighting)
+ * into a shadow namespace under the calculation document. The live rankings
+ * are left untouched; the admin page compares the run against them, and
+ * promoteShadowRankings makes it live.
+ *
+ * Parameters left out of the request keep their live values.
+ */
+
+import { getFirestore } from 'firebase-admin/firestore'
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { logger } from 'firebase-functions/v2'
+import { z } from 'zod'
+import { AuditAction, Collections } from '../../../types.js'
+import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
+import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import {
+	loadCheckpoint,
+	resolveRankingsParameters,
+	runShadowRebuild,
+} from '../../../services/playerRankings/index.js'
+
+// Per-round and per-season factors must stay in (0, 1] so ratings converge
+const factor = z.number().gt(0).lte(1)
+
+const shadowRebuildSchema = z.object({
+	parameters: z
+		.object({
+			beta: z.number().gt(0).lte(25),
+			tau: z.number().gte(0).lte(5),
+			seasonDecayFactor: factor,
+			gravityWellPerRound: factor,
+			inactivityDecayPerRound: factor,
+			playoffMultiplier: z.number().gt(0).lte(5),
+			marginOfVictoryWeight: z.number().gte(0).lte(2),
+			marginOfVictoryCap: z.number().int().gte(1).lte(25),
+		})
+		.partial()
+		.default({}),
+})
+
+type ShadowRebuildRequest = z.input<typeof shadowRebuildSchema>
+
+/**
+ * Player Rankings Shadow Rebuild
+ * Rebuilds all player rankings with custom parameters without touching the live rankings
+ */
+export const startShadowRankingsRebuild = onCall<ShadowRebuildRequest>(
+	{
+		cors: [...FIREBASE_CONFIG.CORS_ORIGINS],
+		region: FIREBASE_CONFIG.REGION,
+		timeoutSeconds: 540, // 9 minutes
+		memory: '1GiB',
+	},
+	async (request) => {
+		const { auth, data } = request
+
+		try {
+			const firestore = getFirestore()
+			await validateAdminUser(auth, firestore)
+
+			const parsed = shadowRebuildSchema.safeParse(data ?? {})
+			if (!parsed.success) {
+				throw new HttpsError(
+					'invalid-argument',
+					`Invalid rankings parameters: ${parsed.error.issues
+						.map((issue) => `${issue.path.join('.')} ${issue.message}`)
+						.join(', ')}`
+				)
+			}
+
+			const checkpoint = await loadCheckpoint()
+			const parameters = {
+				...resolveRankingsParameters(checkpoint?.parameters),
+				...parsed.data.parameters,
+			}
+
+			logger.info('Starting Player Rankings shadow rebuild', {
+				triggeredBy: auth?.uid,
+				parameters,
+			})
+
+			const result = await runShadowRebuild(auth?.uid ?? 'unknown', parameters)
+			const { calculationId } = result
+
+			if (result.status === 'failed') {
+				return {
+					calculationId,
+					status: 'failed',
+					message: `Shadow rebuild failed: ${result.error}`,
+				}
+			}
+
+			await recordAdminAction(auth, {
+				action: AuditAction.RANKINGS_SHADOW_REBUILD,
+				targets: [
+					firestore
+						.collection(Collections.RANKINGS_CALCULATIONS)
+						.doc(calculationId),
+				],
+				details: { ...parameters },
+			})
+
+			return {
+				calculationId,
+				status: 'completed',
+				message: 'Shadow rebuild completed. Compare it with the live rankings.',
+			}
+		} catch (error) {
+			if (error instanceof HttpsError) {
+				throw error
+			}
+
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error'
+			logger.error('Error running Player Rankings shadow rebuild:', {
+				adminId: auth?.uid,
+				error: errorMessage,
+			})
+
+			throw new HttpsError(
+				'internal',
+				`Failed to run shadow rebuild: ${errorMessage}`
+			)
+		}
+	}
+)
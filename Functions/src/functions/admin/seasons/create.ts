@@ -11,13 +11,17 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore, Timestamp, WriteBatch } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
 import {
+	AuditAction,
 	Collections,
 	PLAYER_SEASONS_SUBCOLLECTION,
 	PlayerSeasonDocument,
 	SeasonDocument,
 	SeasonFormat,
+	SeasonRules,
 } from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
+import { validateSeasonRules } from '../../../shared/seasonRules.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 
 interface CreateSeasonRequest {
@@ -33,6 +37,8 @@ interface CreateSeasonRequest {
 		returningPlayerCouponIdDev?: string
 	}
 	format?: SeasonFormat
+	/** League rules; omitted rules fall back to the league-wide defaults */
+	rules?: SeasonRules
 }
 
 interface CreateSeasonResponse {
@@ -54,6 +60,7 @@ export const createSeason = onCall<CreateSeasonRequest>(
 			registrationEnd,
 			stripe,
 			format,
+			rules,
 		} = data
 
 		if (
@@ -80,6 +87,8 @@ export const createSeason = onCall<CreateSeasonRequest>(
 			const firestore = getFirestore()
 			await validateAdminUser(auth, firestore)
 
+			const seasonRules = validateSeasonRules(rules)
+
 			const dateStartTimestamp = Timestamp.fromDate(new Date(dateStart))
 			const dateEndTimestamp = Timestamp.fromDate(new Date(dateEnd))
 			const registrationStartTimestamp = Timestamp.fromDate(
@@ -110,6 +119,7 @@ export const createSeason = onCall<CreateSeasonRequest>(
 				registrationEnd: registrationEndTimestamp,
 				...(stripeConfig && { stripe: stripeConfig }),
 				...(format === SeasonFormat.SWISS && { format: SeasonFormat.SWISS }),
+				...(seasonRules && { rules: seasonRules }),
 			}
 
 			const seasonRef = (await firestore
@@ -122,6 +132,12 @@ export const createSeason = onCall<CreateSeasonRequest>(
 				createdBy: auth?.uid,
 			})
 
+			await recordAdminAction(auth, {
+				action: AuditAction.SEASON_CREATE,
+				targets: [seasonRef],
+				after: seasonData,
+			})
+
 			// Seed a player season subdoc on every existing player.
 			const playersSnapshot = await firestore
 				.collection(Collections.PLAYERS)
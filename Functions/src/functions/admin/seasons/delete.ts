@@ -5,8 +5,13 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
-import { Collections, PLAYER_SEASONS_SUBCOLLECTION } from '../../../types.js'
+import {
+	AuditAction,
+	Collections,
+	PLAYER_SEASONS_SUBCOLLECTION,
+} from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 
 interface DeleteSeasonRequest {
@@ -98,6 +103,13 @@ export const deleteSeason = onCall<DeleteSeasonRequest>(
 			// Delete the season document
 			await seasonRef.delete()
 
+			await recordAdminAction(auth, {
+				action: AuditAction.SEASON_DELETE,
+				targets: [seasonRef],
+				before: seasonData,
+				details: { playersUpdated },
+			})
+
 			logger.info(`Season deleted: ${seasonId}`, {
 				seasonId,
 				seasonName,
@@ -5,8 +5,20 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore, Timestamp } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
-import { Collections, SeasonDocument, SeasonFormat } from '../../../types.js'
+import {
+	AuditAction,
+	Collections,
+	SeasonDocument,
+	SeasonFormat,
+	SeasonRules,
+} from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
+import {
+	resolveSeasonRules,
+	validateSeasonRules,
+} from '../../../shared/seasonRules.js'
+import { syncSeasonWaitlist } from '../../../services/teamWaitlistService.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 
 interface UpdateSeasonRequest {
@@ -24,6 +36,8 @@ interface UpdateSeasonRequest {
 	}
 	/** Season format - 'traditional' or 'swiss'. Defaults to 'traditional' */
 	format?: SeasonFormat
+	/** League rules; omitted rules fall back to the league-wide defaults */
+	rules?: SeasonRules
 }
 
 interface UpdateSeasonResponse {
@@ -40,6 +54,7 @@ interface UpdateSeasonResponse {
  * - Season must exist
  * - Season name must be 3-100 characters
  * - All date fields are required
+ * - Rules (if provided) must be in range
  */
 export const updateSeason = onCall<UpdateSeasonRequest>(
 	{ cors: [...FIREBASE_CONFIG.CORS_ORIGINS], region: FIREBASE_CONFIG.REGION },
@@ -55,6 +70,7 @@ export const updateSeason = onCall<UpdateSeasonRequest>(
 			registrationEnd,
 			stripe,
 			format,
+			rules,
 		} = data
 
 		// Validate inputs
@@ -89,6 +105,8 @@ export const updateSeason = onCall<UpdateSeasonRequest>(
 			// Validate admin authentication
 			await validateAdminUser(auth, firestore)
 
+			const seasonRules = validateSeasonRules(rules)
+
 			// Check if season exists
 			const seasonRef = firestore.collection(Collections.SEASONS).doc(seasonId)
 			const seasonDoc = await seasonRef.get()
@@ -131,10 +149,29 @@ export const updateSeason = onCall<UpdateSeasonRequest>(
 				...(stripeConfig && { stripe: stripeConfig }),
 				// Store format (undefined means traditional for backward compatibility)
 				format: format === SeasonFormat.SWISS ? SeasonFormat.SWISS : undefined,
+				// Rules are replaced as a whole when submitted
+				...(seasonRules && { rules: seasonRules }),
 			}
 
 			await seasonRef.update(updateData)
 
+			const previousSeason = seasonDoc.data() as SeasonDocument
+			await recordAdminAction(auth, {
+				action: AuditAction.SEASON_UPDATE,
+				targets: [seasonRef],
+				before: previousSeason,
+				after: { ...previousSeason, ...updateData },
+			})
+
+			// Raising the lock threshold opens spots for waitlisted teams
+			if (
+				resolveSeasonRules({ ...previousSeason, ...updateData })
+					.registeredTeamsForLock >
+				resolveSeasonRules(previousSeason).registeredTeamsForLock
+			) {
+				await syncSeasonWaitlist(seasonId)
+			}
+
 			logger.info(`Season updated: ${seasonId}`, {
 				seasonId,
 				name: updateData.name,
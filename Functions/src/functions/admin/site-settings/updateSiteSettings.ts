@@ -5,8 +5,14 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
-import { Collections, ThemeVariant, THEME_VARIANTS } from '../../../types.js'
+import {
+	AuditAction,
+	Collections,
+	ThemeVariant,
+	THEME_VARIANTS,
+} from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 
 interface UpdateSiteSettingsRequest {
@@ -59,8 +65,17 @@ export const updateSiteSettings = onCall<UpdateSiteSettingsRequest>(
 				.collection(Collections.SITE_SETTINGS)
 				.doc(THEME_SETTINGS_DOC_ID)
 
+			const previousSettings = (await settingsRef.get()).data()
+
 			await settingsRef.set({ themeVariant }, { merge: true })
 
+			await recordAdminAction(auth, {
+				action: AuditAction.SITE_SETTINGS_UPDATE,
+				targets: [settingsRef],
+				before: previousSettings,
+				after: { ...previousSettings, themeVariant },
+			})
+
 			logger.info('Site settings updated successfully', {
 				themeVariant,
 				updatedBy: userId,
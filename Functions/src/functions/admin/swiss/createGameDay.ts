@@ -0,0 +1,371 @@
+/**
+ * Create Swiss Game Day callable function
+ *
+ * Pairs the registered teams of a Swiss season with the Monrad system, using
+ * the current Swiss rankings, and creates the next game day's games. With
+ * `dryRun` the pairings are returned without writing anything, so the admin
+ * can preview them first.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { getFirestore, Timestamp } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import {
+	AuditAction,
+	Collections,
+	SeasonDocument,
+	SeasonFormat,
+	GameDocument,
+	GameType,
+	TEAM_SEASONS_SUBCOLLECTION,
+	TeamSeasonDocument,
+} from '../../../types.js'
+import {
+	canonicalTeamIdFromTeamSeasonDoc,
+	teamRef,
+} from '../../../shared/database.js'
+import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
+import {
+	validateGameField,
+	validateGameTimestamp,
+} from '../../../shared/gameSchedule.js'
+import { resolveSeasonRules } from '../../../shared/seasonRules.js'
+import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import {
+	calculateSwissRankings,
+	generateMonradPairings,
+	MonradGame,
+	MonradTeamSummary,
+} from '../../../services/swissRankings/index.js'
+
+/** Each team plays twice per game day unless configured otherwise */
+const DEFAULT_GAMES_PER_TEAM = 2
+
+interface CreateSwissGameDayRequest {
+	/** Season document ID */
+	seasonId: string
+	/** ISO 8601 start time of each round, all on the same Saturday */
+	roundTimestamps: string[]
+	/** Fields to use in every round (defaults to every field the season allows) */
+	fields?: number[]
+	/** Games each team plays on the game day (defaults to 2) */
+	gamesPerTeam?: number
+	/** Return the pairings without creating any games */
+	dryRun?: boolean
+}
+
+/**
+ * A paired game with its time, field and team names resolved
+ */
+interface SwissGameDayGame extends MonradGame {
+	/** ISO 8601 start time of the game's round */
+	timestamp: string
+	homeName: string
+	awayName: string
+}
+
+interface CreateSwissGameDayResponse {
+	success: true
+	seasonId: string
+	/** Whether the games were written (false for a dry run) */
+	created: boolean
+	/** IDs of the created games (empty for a dry run) */
+	gameIds: string[]
+	games: SwissGameDayGame[]
+	teamSummaries: (MonradTeamSummary & { name: string })[]
+	repeatCount: number
+	warnings: string[]
+	message: string
+}
+
+/**
+ * Create the next Swiss game day from current rankings
+ *
+ * Security validations:
+ * - User must be authenticated and email verified
+ * - User must be an admin
+ * - Season must exist and use the Swiss format
+ * - Round times must be time slots on a single Saturday, and fields must be
+ *   allowed by the season's rules
+ * - At least two teams must be registered, and every pairing must fit
+ *   into the requested rounds and fields
+ * - No game may already exist at the same time slot and field
+ */
+export const createSwissGameDay = onCall<
+	CreateSwissGameDayRequest,
+	Promise<CreateSwissGameDayResponse>
+>(
+	{ cors: [...FIREBASE_CONFIG.CORS_ORIGINS], region: FIREBASE_CONFIG.REGION },
+	async (request): Promise<CreateSwissGameDayResponse> => {
+		const { data, auth } = request
+		const { seasonId, roundTimestamps, dryRun = false } = data
+
+		if (!seasonId || typeof seasonId !== 'string') {
+			throw new HttpsError('invalid-argument', 'Season ID is required')
+		}
+
+		if (!Array.isArray(roundTimestamps) || roundTimestamps.length === 0) {
+			throw new HttpsError(
+				'invalid-argument',
+				'At least one round time is required'
+			)
+		}
+
+		try {
+			const firestore = getFirestore()
+			await validateAdminUser(auth, firestore)
+
+			const seasonRef = firestore.collection(Collections.SEASONS).doc(seasonId)
+			const seasonDoc = await seasonRef.get()
+			if (!seasonDoc.exists) {
+				throw new HttpsError('not-found', 'Season not found')
+			}
+
+			const seasonData = seasonDoc.data() as SeasonDocument
+			if (seasonData.format !== SeasonFormat.SWISS) {
+				throw new HttpsError(
+					'failed-precondition',
+					'Swiss game days can only be created for Swiss format seasons'
+				)
+			}
+
+			const rules = resolveSeasonRules(seasonData)
+			const { fields = rules.allowedFields } = data
+			if (!Array.isArray(fields) || fields.length === 0) {
+				throw new HttpsError(
+					'invalid-argument',
+					'At least one field is required'
+				)
+			}
+			fields.forEach((field) => validateGameField(field, rules))
+
+			// Rounds run in time order; every round must be on the same night
+			const rounds = roundTimestamps
+				.map((timestamp) => ({
+					timestamp,
+					date: validateGameTimestamp(timestamp, rules),
+				}))
+				.sort((a, b) => a.date.getTime() - b.date.getTime())
+			const nights = new Set(
+				rounds.map((round) => round.timestamp.slice(0, 10))
+			)
+			if (nights.size > 1) {
+				throw new HttpsError(
+					'invalid-argument',
+					'Every round must be on the same game day'
+				)
+			}
+			if (
+				new Set(rounds.map((round) => round.date.getTime())).size !==
+				rounds.length
+			) {
+				throw new HttpsError(
+					'invalid-argument',
+					'Each round must have a different start time'
+				)
+			}
+
+			const gamesPerTeam =
+				data.gamesPerTeam ?? Math.min(DEFAULT_GAMES_PER_TEAM, rounds.length)
+			if (
+				!Number.isInteger(gamesPerTeam) ||
+				gamesPerTeam < 1 ||
+				gamesPerTeam > rounds.length
+			) {
+				throw new HttpsError(
+					'invalid-argument',
+					`Games per team must be between 1 and the number of rounds (${rounds.length})`
+				)
+			}
+
+			const orderedFields = Array.from(new Set(fields)).sort((a, b) => a - b)
+
+			const teamSeasonsSnapshot = await firestore
+				.collectionGroup(TEAM_SEASONS_SUBCOLLECTION)
+				.where('season', '==', seasonRef)
+				.where('registered', '==', true)
+				.get()
+			const registeredTeams = (
+				teamSeasonsSnapshot.docs as FirebaseFirestore.QueryDocumentSnapshot<TeamSeasonDocument>[]
+			)
+				.map((doc) => ({
+					id: canonicalTeamIdFromTeamSeasonDoc(doc),
+					name: doc.data().name,
+					swissSeed: doc.data().swissSeed ?? Number.MAX_SAFE_INTEGER,
+					registeredDate: doc.data().registeredDate?.toMillis() ?? 0,
+				}))
+				// Before any games are played every team is tied, so the initial
+				// seeding (then registration order) decides the first pairings
+				.sort(
+					(a, b) =>
+						a.swissSeed - b.swissSeed || a.registeredDate - b.registeredDate
+				)
+
+			if (registeredTeams.length < 2) {
+				throw new HttpsError(
+					'failed-precondition',
+					'At least two registered teams are required to create a game day'
+				)
+			}
+
+			const gamesPerRound = Math.min(
+				orderedFields.length,
+				Math.floor(registeredTeams.length / 2)
+			)
+			const gamesNeeded = Math.floor(
+				(registeredTeams.length * gamesPerTeam) / 2
+			)
+			if (gamesNeeded > rounds.length * gamesPerRound) {
+				throw new HttpsError(
+					'failed-precondition',
+					`${registeredTeams.length} teams playing ${gamesPerTeam} game(s) each need ${gamesNeeded} games, but ${rounds.length} round(s) on ${orderedFields.length} field(s) only fit ${rounds.length * gamesPerRound}`
+				)
+			}
+
+			const gamesSnapshot = await firestore
+				.collection(Collections.GAMES)
+				.where('season', '==', seasonRef)
+				.where('type', '==', GameType.REGULAR)
+				.get()
+			const games = gamesSnapshot.docs.map((doc) => doc.data() as GameDocument)
+
+			const teamIds = registeredTeams.map((team) => team.id)
+			const teamNames = Object.fromEntries(
+				registeredTeams.map((team) => [team.id, team.name])
+			)
+
+			// Games against teams that later withdrew still count toward the
+			// rankings, but only registered teams are paired
+			const { rankings } = calculateSwissRankings(games, teamIds)
+			const registeredRankings = rankings.filter((ranking) =>
+				teamIds.includes(ranking.teamId)
+			)
+
+			const result = generateMonradPairings({
+				rankings: registeredRankings,
+				rounds: rounds.length,
+				fields: orderedFields.length,
+				gamesPerTeam,
+				teamNames,
+			})
+
+			const pairedGames: SwissGameDayGame[] = result.games.map((game) => ({
+				...game,
+				field: orderedFields[game.field - 1],
+				timestamp: rounds[game.round - 1].timestamp,
+				homeName: teamNames[game.homeTeamId],
+				awayName: teamNames[game.awayTeamId],
+			}))
+			const teamSummaries = result.teamSummaries.map((summary) => ({
+				...summary,
+				name: teamNames[summary.teamId],
+			}))
+
+			if (dryRun) {
+				return {
+					success: true,
+					seasonId,
+					created: false,
+					gameIds: [],
+					games: pairedGames,
+					teamSummaries,
+					repeatCount: result.repeatCount,
+					warnings: result.warnings,
+					message: `Paired ${pairedGames.length} games`,
+				}
+			}
+
+			// Deterministic IDs match createGame: {seasonId}_{timestamp}_{field}
+			const gameEntries = pairedGames.map((game) => {
+				const gameDate = rounds[game.round - 1].date
+				return {
+					ref: firestore
+						.collection(Collections.GAMES)
+						.doc(`${seasonId}_${gameDate.toISOString()}_${game.field}`),
+					data: {
+						home: teamRef(firestore, game.homeTeamId),
+						homeName: game.homeName,
+						away: teamRef(firestore, game.awayTeamId),
+						awayName: game.awayName,
+						homeScore: null,
+						awayScore: null,
+						field: game.field,
+						type: GameType.REGULAR,
+						date: Timestamp.fromDate(gameDate),
+						season: seasonRef,
+					},
+				}
+			})
+
+			await firestore.runTransaction(async (transaction) => {
+				const existing = await transaction.getAll(
+					...gameEntries.map((entry) => entry.ref)
+				)
+				const conflicts = existing.filter((doc) => doc.exists)
+				if (conflicts.length > 0) {
+					throw new HttpsError(
+						'already-exists',
+						`${conflicts.length} game(s) already exist at the same time slot and field. Remove them or choose different rounds.`
+					)
+				}
+
+				for (const entry of gameEntries) {
+					transaction.set(entry.ref, entry.data)
+				}
+			})
+
+			await recordAdminAction(auth, {
+				action: AuditAction.SWISS_CREATE_GAME_DAY,
+				targets: [seasonRef, ...gameEntries.map((entry) => entry.ref)],
+				details: {
+					rounds: rounds.length,
+					repeatCount: result.repeatCount,
+				},
+			})
+
+			logger.info('Swiss game day created', {
+				seasonId,
+				teams: registeredTeams.length,
+				rounds: rounds.length,
+				fields: orderedFields.length,
+				games: gameEntries.length,
+				repeatCount: result.repeatCount,
+				warnings: result.warnings.length,
+				createdBy: auth?.uid,
+			})
+
+			return {
+				success: true,
+				seasonId,
+				created: true,
+				gameIds: gameEntries.map((entry) => entry.ref.id),
+				games: pairedGames,
+				teamSummaries,
+				repeatCount: result.repeatCount,
+				warnings: result.warnings,
+				message: `Created ${gameEntries.length} games`,
+			}
+		} catch (error) {
+			// If it's already an HttpsError, just re-throw it
+			if (error instanceof HttpsError) {
+				throw error
+			}
+
+			// Otherwise, log and convert to HttpsError
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error'
+
+			logger.error('Error creating Swiss game day:', {
+				seasonId,
+				userId: auth?.uid,
+				error: errorMessage,
+			})
+
+			throw new HttpsError(
+				'internal',
+				`Failed to create Swiss game day: ${errorMessage}`
+			)
+		}
+	}
+)
@@ -17,6 +17,7 @@ import {
 	TeamSeasonDocument,
 } from '../../../types.js'
 import { canonicalTeamIdFromTeamSeasonDoc } from '../../../shared/database.js'
+import { hasCountedResult } from '../../../shared/gameStatus.js'
 import { validateAdminUser } from '../../../shared/auth.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 import {
@@ -112,11 +113,7 @@ export const getSwissRankings = onCall<GetSwissRankingsRequest>(
 
 			const games = gamesSnapshot.docs.map((doc) => doc.data() as GameDocument)
 			const completedGames = games.filter(
-				(game) =>
-					game.home &&
-					game.away &&
-					game.homeScore !== null &&
-					game.awayScore !== null
+				(game) => game.home && game.away && hasCountedResult(game)
 			)
 
 			const { rankings } = calculateSwissRankings(games, teamIds)
@@ -7,8 +7,14 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
-import { Collections, SeasonDocument, SeasonFormat } from '../../../types.js'
+import {
+	AuditAction,
+	Collections,
+	SeasonDocument,
+	SeasonFormat,
+} from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { teamSeasonRef } from '../../../shared/database.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 
@@ -84,6 +90,15 @@ export const setSwissSeeding = onCall<SetSwissSeedingRequest>(
 			}
 			await batch.commit()
 
+			await recordAdminAction(auth, {
+				action: AuditAction.SWISS_SET_SEEDING,
+				targets: [
+					seasonRef,
+					...teamSeeding.map((tid) => teamSeasonRef(firestore, tid, seasonId)),
+				],
+				details: { teamSeeding },
+			})
+
 			logger.info('Swiss seeding set', {
 				seasonId,
 				teamsSeeded: teamSeeding.length,
@@ -0,0 +1,279 @@
+/**
+ * Apply free-agent draft callable function
+ *
+ * Adds the free agents of a reviewed draft proposal (see
+ * `proposeFreeAgentDraft`) to their teams in one transaction, through the
+ * membership helpers. Fails without writing if any player has joined a team
+ * since the proposal, or if any team would go over the season's roster
+ * limits (or the lower roster size the admin drafted with).
+ */
+
+import { getFirestore } from 'firebase-admin/firestore'
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { logger } from 'firebase-functions/v2'
+import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
+import { cancelPendingOffersForPlayer } from '../../../shared/offers.js'
+import {
+	playerRef,
+	playerSeasonRef,
+	teamSeasonRef,
+} from '../../../shared/database.js'
+import { addPlayerToTeam } from '../../../shared/membership.js'
+import { getSeasonRules } from '../../../shared/seasonRules.js'
+import {
+	getRosterComposition,
+	recordRosterChange,
+	validateRosterAddition,
+	type RosterComposition,
+} from '../../../shared/rosterLimits.js'
+import {
+	FIREBASE_CONFIG,
+	FREE_AGENT_DRAFT_CONFIG,
+} from '../../../config/constants.js'
+import {
+	AuditAction,
+	Collections,
+	type DocumentReference,
+	type SeasonDocument,
+} from '../../../types.js'
+
+/**
+ * Request interface for applying a free-agent draft
+ */
+interface ApplyFreeAgentDraftRequest {
+	/** Season ID the draft is for */
+	seasonId: string
+	/** Most players a team may have after the draft (defaults to the season's max roster size, or the draft default if it has none) */
+	maxRosterSize?: number
+	/** Reviewed placements */
+	assignments: { playerId: string; teamId: string }[]
+}
+
+/**
+ * Response interface for an applied free-agent draft
+ */
+interface ApplyFreeAgentDraftResponse {
+	success: true
+	seasonId: string
+	assigned: number
+	message: string
+}
+
+export const applyFreeAgentDraft = onCall<
+	ApplyFreeAgentDraftRequest,
+	Promise<ApplyFreeAgentDraftResponse>
+>(
+	{
+		cors: [...FIREBASE_CONFIG.CORS_ORIGINS],
+		region: FIREBASE_CONFIG.REGION,
+		timeoutSeconds: 120,
+	},
+	async (request): Promise<ApplyFreeAgentDraftResponse> => {
+		const { auth, data } = request
+		const { seasonId, assignments } = data ?? {}
+
+		try {
+			const firestore = getFirestore()
+			await validateAdminUser(auth, firestore)
+
+			if (!seasonId || typeof seasonId !== 'string') {
+				throw new HttpsError('invalid-argument', 'Season ID is required')
+			}
+			const seasonRules = await getSeasonRules(seasonId)
+			const seasonLimit = seasonRules.maxRosterSize
+			const maxRosterSize =
+				data?.maxRosterSize ??
+				seasonLimit ??
+				FREE_AGENT_DRAFT_CONFIG.DEFAULT_MAX_ROSTER_SIZE
+			if (
+				!Number.isInteger(maxRosterSize) ||
+				maxRosterSize < 1 ||
+				(seasonLimit !== null && maxRosterSize > seasonLimit)
+			) {
+				throw new HttpsError(
+					'invalid-argument',
+					seasonLimit !== null
+						? `Max roster size must be a whole number between 1 and the season's limit of ${seasonLimit}`
+						: 'Max roster size must be a positive whole number'
+				)
+			}
+			const rules = { ...seasonRules, maxRosterSize }
+			if (!Array.isArray(assignments) || assignments.length === 0) {
+				throw new HttpsError(
+					'invalid-argument',
+					'At least one assignment is required'
+				)
+			}
+			if (assignments.length > FREE_AGENT_DRAFT_CONFIG.MAX_ASSIGNMENTS) {
+				throw new HttpsError(
+					'invalid-argument',
+					`At most ${FREE_AGENT_DRAFT_CONFIG.MAX_ASSIGNMENTS} players can be assigned at once`
+				)
+			}
+			if (
+				assignments.some(
+					(assignment) =>
+						typeof assignment?.playerId !== 'string' ||
+						typeof assignment?.teamId !== 'string' ||
+						!assignment.playerId ||
+						!assignment.teamId
+				)
+			) {
+				throw new HttpsError(
+					'invalid-argument',
+					'Every assignment needs a player ID and a team ID'
+				)
+			}
+			const playerIds = assignments.map((assignment) => assignment.playerId)
+			if (new Set(playerIds).size !== playerIds.length) {
+				throw new HttpsError(
+					'invalid-argument',
+					'A player can only be assigned once'
+				)
+			}
+
+			const seasonRef = firestore
+				.collection(Collections.SEASONS)
+				.doc(seasonId) as DocumentReference<SeasonDocument>
+
+			const addedByTeam = new Map<string, number>()
+			for (const { teamId } of assignments) {
+				addedByTeam.set(teamId, (addedByTeam.get(teamId) ?? 0) + 1)
+			}
+
+			await firestore.runTransaction(async (transaction) => {
+				const seasonDoc = await transaction.get(seasonRef)
+				if (!seasonDoc.exists) {
+					throw new HttpsError('not-found', 'Season not found')
+				}
+
+				const compositions = new Map<string, RosterComposition>()
+				const teamNames = new Map<string, string>()
+				for (const teamId of addedByTeam.keys()) {
+					const [teamSeasonDoc, composition] = await Promise.all([
+						transaction.get(teamSeasonRef(firestore, teamId, seasonId)),
+						getRosterComposition(firestore, teamId, seasonId, transaction),
+					])
+					if (!teamSeasonDoc.exists) {
+						throw new HttpsError(
+							'not-found',
+							`Team ${teamId} is not participating in this season`
+						)
+					}
+					compositions.set(teamId, composition)
+					teamNames.set(teamId, teamSeasonDoc.data()?.name ?? teamId)
+				}
+
+				const playerSeasonDocs = await Promise.all(
+					playerIds.map((playerId) =>
+						transaction.get(playerSeasonRef(firestore, playerId, seasonId))
+					)
+				)
+				playerSeasonDocs.forEach((doc, index) => {
+					const playerSeason = doc.data()
+					if (!playerSeason) {
+						throw new HttpsError(
+							'not-found',
+							`Player ${playerIds[index]} is not signed up for this season`
+						)
+					}
+					if (playerSeason.team) {
+						throw new HttpsError(
+							'failed-precondition',
+							`Player ${playerIds[index]} has already joined a team. Propose the draft again.`
+						)
+					}
+					if (playerSeason.banned) {
+						throw new HttpsError(
+							'failed-precondition',
+							`Player ${playerIds[index]} is banned from this season`
+						)
+					}
+				})
+
+				const playerDocs = await transaction.getAll(
+					...playerIds.map((playerId) => playerRef(firestore, playerId))
+				)
+				assignments.forEach(({ teamId }, index) => {
+					const composition = compositions.get(teamId)
+					if (!composition) return
+					const member = {
+						captain: false,
+						gender: playerDocs[index].data()?.gender,
+					}
+					validateRosterAddition(
+						rules,
+						composition,
+						member,
+						teamNames.get(teamId) ?? teamId
+					)
+					recordRosterChange(composition, member, 1)
+				})
+
+				assignments.forEach(({ playerId, teamId }, index) => {
+					addPlayerToTeam(transaction, firestore, {
+						playerId,
+						teamId,
+						seasonId,
+						seasonRef,
+						captain: false,
+						existingPlayerSeason: playerSeasonDocs[index].data() ?? null,
+					})
+				})
+			})
+
+			// Best-effort, like the other membership paths
+			for (const playerId of playerIds) {
+				await cancelPendingOffersForPlayer(
+					firestore,
+					playerRef(firestore, playerId),
+					seasonRef,
+					'Player was placed on a team in the free-agent draft'
+				)
+			}
+
+			logger.info('Free-agent draft applied', {
+				seasonId,
+				assigned: assignments.length,
+				teams: addedByTeam.size,
+				adminUserId: auth?.uid,
+			})
+
+			await recordAdminAction(auth, {
+				action: AuditAction.TEAM_APPLY_FREE_AGENT_DRAFT,
+				targets: [
+					seasonRef,
+					...Array.from(addedByTeam.keys()).map((teamId) =>
+						teamSeasonRef(firestore, teamId, seasonId)
+					),
+				],
+				details: { maxRosterSize, assignments },
+			})
+
+			return {
+				success: true,
+				seasonId,
+				assigned: assignments.length,
+				message: `Placed ${assignments.length} free agent${assignments.length === 1 ? '' : 's'} on ${addedByTeam.size} team${addedByTeam.size === 1 ? '' : 's'}`,
+			}
+		} catch (error) {
+			logger.error('Error applying free-agent draft', {
+				adminUserId: auth?.uid,
+				seasonId,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+
+			if (error instanceof HttpsError) {
+				throw error
+			}
+
+			throw new HttpsError(
+				'internal',
+				error instanceof Error
+					? error.message
+					: 'Failed to apply free-agent draft. Please try again.'
+			)
+		}
+	}
+)
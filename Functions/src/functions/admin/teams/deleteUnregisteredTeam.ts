@@ -7,7 +7,9 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
+import { AuditAction } from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 import { getCurrentSeason, teamSeasonRef } from '../../../shared/database.js'
 import { deleteTeamSeasonWithCleanup } from '../../../services/teamDeletionService.js'
@@ -82,6 +84,16 @@ export const deleteUnregisteredTeam = onCall<DeleteUnregisteredTeamRequest>(
 				)
 			}
 
+			await recordAdminAction(authContext, {
+				action: AuditAction.TEAM_DELETE,
+				targets: [teamSeasonDocRef],
+				before: teamSeasonData,
+				details: {
+					playersUpdated: result.playersUpdated,
+					offersDeleted: result.offersDeleted,
+				},
+			})
+
 			logger.info('Successfully deleted unregistered team', {
 				teamId,
 				seasonId,
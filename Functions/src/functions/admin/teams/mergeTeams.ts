@@ -12,6 +12,7 @@
  *     team is rewritten through the centralized membership helpers so the
  *     roster dual-write stays consistent.
  *   - `teams/{losingId}` is recursively deleted.
+ *   - Both teams' precomputed histories are rebuilt.
  *   - The winning team's `createdAt` / `createdBy` are back-filled from the
  *     losing team if the losing team's values are earlier / the winner's
  *     are null.
@@ -25,8 +26,10 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { isMigrationInProgress } from '../../../shared/maintenance.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import { refreshTeamHistories } from '../../../services/teamHistory/index.js'
 import {
 	playerSeasonRef,
 	teamBadgeRef,
@@ -39,6 +42,7 @@ import {
 	removePlayerFromTeam,
 } from '../../../shared/membership.js'
 import {
+	AuditAction,
 	Collections,
 	PLAYER_SEASONS_SUBCOLLECTION,
 	TEAM_SEASONS_SUBCOLLECTION,
@@ -398,6 +402,25 @@ export const mergeTeams = onCall<MergeTeamsRequest>(
 			// 6h: Recursive-delete the losing team.
 			await firestore.recursiveDelete(losingTeamRef)
 
+			// 6i: Rebuild both histories now that the games and seasons have
+			// moved. Best-effort; failures are logged per team.
+			await refreshTeamHistories([winningTeamId, losingTeamId])
+
+			await recordAdminAction(authContext, {
+				action: AuditAction.TEAM_MERGE,
+				targets: [winningTeamRef, losingTeamRef],
+				before: winningData,
+				after: { ...winningData, ...winnerUpdate },
+				details: {
+					movedTeamSeasons,
+					movedBadges,
+					badgesDeduped,
+					rewrittenGames,
+					rewrittenOffers,
+					rewrittenPlayerSeasons,
+				},
+			})
+
 			logger.info('Successfully merged teams', {
 				winningTeamId,
 				losingTeamId,
@@ -0,0 +1,288 @@
+/**
+ * Propose free-agent draft callable function
+ *
+ * Proposes team assignments for a season's free agents (players with a
+ * player season but no team) across the teams with open roster spots,
+ * evening out total TrueSkill μ from the rankings while respecting the
+ * roster limit and teammate requests. Nothing is written: the admin reviews
+ * and edits the proposal, then saves it with `applyFreeAgentDraft`.
+ */
+
+import { getFirestore } from 'firebase-admin/firestore'
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { logger } from 'firebase-functions/v2'
+import { validateAdminUser } from '../../../shared/auth.js'
+import {
+	canonicalPlayerIdFromPlayerSeasonDoc,
+	canonicalTeamIdFromTeamSeasonDoc,
+} from '../../../shared/database.js'
+import {
+	FIREBASE_CONFIG,
+	FREE_AGENT_DRAFT_CONFIG,
+} from '../../../config/constants.js'
+import { resolveSeasonRules } from '../../../shared/seasonRules.js'
+import {
+	Collections,
+	PLAYER_SEASONS_SUBCOLLECTION,
+	PlayerDocument,
+	PlayerRankingDocument,
+	PlayerSeasonDocument,
+	SeasonDocument,
+	TEAM_SEASONS_SUBCOLLECTION,
+	TeamRosterDocument,
+	TeamSeasonDocument,
+} from '../../../types.js'
+import { TRUESKILL_CONSTANTS } from '../../../services/playerRankings/index.js'
+import {
+	DraftAssignment,
+	DraftTeamSummary,
+	proposeFreeAgentDraft as runFreeAgentDraft,
+	UnmetTeammateRequest,
+} from '../../../services/freeAgentDraft/index.js'
+
+/**
+ * Request interface for proposing a free-agent draft
+ */
+interface ProposeFreeAgentDraftRequest {
+	/** Season ID to draft for */
+	seasonId: string
+	/** Most players a team may have after the draft (defaults to the season's max roster size, or the draft default if it has none) */
+	maxRosterSize?: number
+}
+
+/**
+ * A free agent with display details for review
+ */
+interface ProposedFreeAgent {
+	playerId: string
+	name: string
+	mu: number
+	/** Whether the player has a ranking (unranked players use the initial μ) */
+	ranked: boolean
+	paid: boolean
+	signed: boolean
+	requestedTeammateIds: string[]
+}
+
+/**
+ * Response interface for a proposed free-agent draft
+ */
+interface ProposeFreeAgentDraftResponse {
+	success: true
+	seasonId: string
+	maxRosterSize: number
+	freeAgents: ProposedFreeAgent[]
+	assignments: DraftAssignment[]
+	unassignedPlayerIds: string[]
+	teamSummaries: (DraftTeamSummary & { name: string })[]
+	unmetRequests: UnmetTeammateRequest[]
+	/** Names of every player referenced in the proposal, by player ID */
+	playerNames: Record<string, string>
+}
+
+/**
+ * Reads `players/{id}` and `rankings/{id}` for a set of player IDs
+ */
+async function loadPlayersAndRankings(
+	firestore: FirebaseFirestore.Firestore,
+	playerIds: string[]
+): Promise<{
+	names: Map<string, string>
+	rankings: Map<string, PlayerRankingDocument>
+}> {
+	const names = new Map<string, string>()
+	const rankings = new Map<string, PlayerRankingDocument>()
+	if (playerIds.length === 0) return { names, rankings }
+
+	const [playerDocs, rankingDocs] = await Promise.all([
+		firestore.getAll(
+			...playerIds.map((id) =>
+				firestore.collection(Collections.PLAYERS).doc(id)
+			)
+		),
+		firestore.getAll(
+			...playerIds.map((id) =>
+				firestore.collection(Collections.RANKINGS).doc(id)
+			)
+		),
+	])
+
+	for (const doc of playerDocs) {
+		const player = doc.data() as PlayerDocument | undefined
+		if (player) names.set(doc.id, `${player.firstname} ${player.lastname}`)
+	}
+	for (const doc of rankingDocs) {
+		if (doc.exists) rankings.set(doc.id, doc.data() as PlayerRankingDocument)
+	}
+	return { names, rankings }
+}
+
+export const proposeFreeAgentDraft = onCall<
+	ProposeFreeAgentDraftRequest,
+	Promise<ProposeFreeAgentDraftResponse>
+>(
+	{
+		cors: [...FIREBASE_CONFIG.CORS_ORIGINS],
+		region: FIREBASE_CONFIG.REGION,
+		timeoutSeconds: 120,
+	},
+	async (request): Promise<ProposeFreeAgentDraftResponse> => {
+		const { auth, data } = request
+		const { seasonId } = data ?? {}
+
+		try {
+			const firestore = getFirestore()
+			await validateAdminUser(auth, firestore)
+
+			if (!seasonId || typeof seasonId !== 'string') {
+				throw new HttpsError('invalid-argument', 'Season ID is required')
+			}
+
+			const seasonRef = firestore.collection(Collections.SEASONS).doc(seasonId)
+			const seasonDoc = await seasonRef.get()
+			if (!seasonDoc.exists) {
+				throw new HttpsError('not-found', 'Season not found')
+			}
+
+			const seasonRules = resolveSeasonRules(
+				seasonDoc.data() as SeasonDocument | undefined
+			)
+			const seasonLimit = seasonRules.maxRosterSize
+			const maxRosterSize =
+				data?.maxRosterSize ??
+				seasonLimit ??
+				FREE_AGENT_DRAFT_CONFIG.DEFAULT_MAX_ROSTER_SIZE
+			if (
+				!Number.isInteger(maxRosterSize) ||
+				maxRosterSize < 1 ||
+				(seasonLimit !== null && maxRosterSize > seasonLimit)
+			) {
+				throw new HttpsError(
+					'invalid-argument',
+					seasonLimit !== null
+						? `Max roster size must be a whole number between 1 and the season's limit of ${seasonLimit}`
+						: 'Max roster size must be a positive whole number'
+				)
+			}
+
+			const [teamSeasonsSnapshot, playerSeasonsSnapshot] = await Promise.all([
+				firestore
+					.collectionGroup(TEAM_SEASONS_SUBCOLLECTION)
+					.where('season', '==', seasonRef)
+					.get(),
+				firestore
+					.collectionGroup(PLAYER_SEASONS_SUBCOLLECTION)
+					.where('season', '==', seasonRef)
+					.get(),
+			])
+
+			const teamSeasonDocs =
+				teamSeasonsSnapshot.docs as FirebaseFirestore.QueryDocumentSnapshot<TeamSeasonDocument>[]
+			const rosters = await Promise.all(
+				teamSeasonDocs.map(async (doc) => {
+					const rosterSnapshot = await doc.ref.collection('roster').get()
+					return {
+						teamId: canonicalTeamIdFromTeamSeasonDoc(doc),
+						name: doc.data().name,
+						rosterPlayerIds: rosterSnapshot.docs.map(
+							(entry) => (entry.data() as TeamRosterDocument).player.id
+						),
+					}
+				})
+			)
+
+			const freeAgentSeasons = (
+				playerSeasonsSnapshot.docs as FirebaseFirestore.QueryDocumentSnapshot<PlayerSeasonDocument>[]
+			).filter((doc) => !doc.data().team && !doc.data().banned)
+
+			const freeAgentIds = freeAgentSeasons.map((doc) =>
+				canonicalPlayerIdFromPlayerSeasonDoc(doc)
+			)
+			const requestedIds = freeAgentSeasons.flatMap(
+				(doc) => doc.data().requestedTeammates?.map((ref) => ref.id) ?? []
+			)
+			const rosteredIds = rosters.flatMap((team) => team.rosterPlayerIds)
+			const { names, rankings } = await loadPlayersAndRankings(
+				firestore,
+				Array.from(new Set([...freeAgentIds, ...requestedIds, ...rosteredIds]))
+			)
+			const muOf = (playerId: string): number =>
+				rankings.get(playerId)?.rating ?? TRUESKILL_CONSTANTS.INITIAL_MU
+
+			const freeAgents: ProposedFreeAgent[] = freeAgentSeasons.map((doc) => {
+				const playerId = canonicalPlayerIdFromPlayerSeasonDoc(doc)
+				const playerSeason = doc.data()
+				return {
+					playerId,
+					name: names.get(playerId) ?? playerId,
+					mu: muOf(playerId),
+					ranked: rankings.has(playerId),
+					paid: playerSeason.paid,
+					signed: playerSeason.signed,
+					requestedTeammateIds:
+						playerSeason.requestedTeammates
+							?.map((ref) => ref.id)
+							.filter((id) => id !== playerId) ?? [],
+				}
+			})
+
+			const result = runFreeAgentDraft({
+				freeAgents,
+				teams: rosters.map((team) => ({
+					teamId: team.teamId,
+					rosterPlayerIds: team.rosterPlayerIds,
+					totalMu: team.rosterPlayerIds.reduce(
+						(sum, playerId) => sum + muOf(playerId),
+						0
+					),
+				})),
+				maxRosterSize,
+			})
+
+			const teamNames = new Map(rosters.map((team) => [team.teamId, team.name]))
+
+			logger.info('Free-agent draft proposed', {
+				seasonId,
+				maxRosterSize,
+				freeAgents: freeAgents.length,
+				teams: rosters.length,
+				assigned: result.assignments.length,
+				unassigned: result.unassignedPlayerIds.length,
+				unmetRequests: result.unmetRequests.length,
+				requestedBy: auth?.uid,
+			})
+
+			return {
+				success: true,
+				seasonId,
+				maxRosterSize,
+				freeAgents,
+				assignments: result.assignments,
+				unassignedPlayerIds: result.unassignedPlayerIds,
+				teamSummaries: result.teamSummaries.map((summary) => ({
+					...summary,
+					name: teamNames.get(summary.teamId) ?? summary.teamId,
+				})),
+				unmetRequests: result.unmetRequests,
+				playerNames: Object.fromEntries(names),
+			}
+		} catch (error) {
+			logger.error('Error proposing free-agent draft', {
+				adminUserId: auth?.uid,
+				seasonId,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+
+			if (error instanceof HttpsError) {
+				throw error
+			}
+
+			throw new HttpsError(
+				'internal',
+				error instanceof Error
+					? error.message
+					: 'Failed to propose free-agent draft. Please try again.'
+			)
+		}
+	}
+)
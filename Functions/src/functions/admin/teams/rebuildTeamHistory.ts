@@ -0,0 +1,97 @@
+/**
+ * Rebuild team history callable function (Admin only)
+ *
+ * Rebuilds the precomputed `teamHistory` documents from the games and
+ * `teamSeasons` entries: one team's when `teamId` is given, otherwise every
+ * team's. Histories normally stay current through the game and team season
+ * triggers; this backfills them and repairs any refresh that failed.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { getFirestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { AuditAction } from '../../../types.js'
+import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
+import { teamRef } from '../../../shared/database.js'
+import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import {
+	rebuildAllTeamHistories,
+	refreshTeamHistory,
+} from '../../../services/teamHistory/index.js'
+
+interface RebuildTeamHistoryRequest {
+	/** Team to rebuild. Rebuilds every team when omitted. */
+	teamId?: string
+}
+
+interface RebuildTeamHistoryResponse {
+	success: true
+	teamsRebuilt: number
+	message: string
+}
+
+/**
+ * Rebuilds one team's history, or every team's
+ *
+ * Security validations:
+ * - User must be authenticated and email verified
+ * - User must be an admin
+ * - The team, when given, must exist
+ */
+export const rebuildTeamHistory = onCall<RebuildTeamHistoryRequest>(
+	{
+		region: FIREBASE_CONFIG.REGION,
+		timeoutSeconds: 540,
+	},
+	async (request): Promise<RebuildTeamHistoryResponse> => {
+		const { auth, data } = request
+
+		try {
+			const firestore = getFirestore()
+			await validateAdminUser(auth, firestore)
+
+			let teamsRebuilt: number
+			if (data.teamId) {
+				const ref = teamRef(firestore, data.teamId)
+				if (!(await ref.get()).exists) {
+					throw new HttpsError('not-found', 'Team not found')
+				}
+				await refreshTeamHistory(data.teamId)
+				teamsRebuilt = 1
+			} else {
+				teamsRebuilt = await rebuildAllTeamHistories()
+			}
+
+			await recordAdminAction(auth, {
+				action: AuditAction.TEAM_REBUILD_HISTORY,
+				targets: data.teamId ? [teamRef(firestore, data.teamId)] : [],
+				details: { teamsRebuilt },
+			})
+
+			logger.info('Rebuilt team history', {
+				teamId: data.teamId ?? null,
+				teamsRebuilt,
+				triggeredBy: auth?.uid,
+			})
+
+			return {
+				success: true,
+				teamsRebuilt,
+				message: `Rebuilt history for ${teamsRebuilt} team${teamsRebuilt === 1 ? '' : 's'}`,
+			}
+		} catch (error) {
+			if (error instanceof HttpsError) throw error
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error'
+			logger.error('Error rebuilding team history:', {
+				teamId: data.teamId,
+				error: errorMessage,
+			})
+			throw new HttpsError(
+				'internal',
+				`Failed to rebuild team history: ${errorMessage}`
+			)
+		}
+	}
+)
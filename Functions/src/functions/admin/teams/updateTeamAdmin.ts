@@ -7,14 +7,19 @@
  *
  * Captain status, paid, signed, banned all live on the player season subdoc.
  * The team's roster subcollection is the pure membership join.
+ *
+ * Roster changes apply in order (adds, removes, captain updates) and each
+ * must fit the season's roster limits on its own.
  */
 
 import { getFirestore } from 'firebase-admin/firestore'
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { logger } from 'firebase-functions/v2'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import { cancelPendingOffersForPlayer } from '../../../shared/offers.js'
 import {
+	playerRef,
 	playerSeasonRef,
 	teamRosterEntryRef,
 	teamSeasonRef,
@@ -25,7 +30,15 @@ import {
 	setPlayerCaptainStatus,
 } from '../../../shared/membership.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import { getSeasonRules } from '../../../shared/seasonRules.js'
+import {
+	getRosterComposition,
+	recordRosterChange,
+	validateCaptainChange,
+	validateRosterAddition,
+} from '../../../shared/rosterLimits.js'
 import {
+	AuditAction,
 	type DocumentReference,
 	type PlayerDocument,
 	type SeasonDocument,
@@ -144,6 +157,11 @@ export const updateTeamAdmin = onCall<
 		// 2. Roster changes — handled per operation, no transactional rebuild.
 		const addedPlayerIds: string[] = []
 		if (rosterChanges) {
+			const [rules, composition] = await Promise.all([
+				getSeasonRules(seasonId),
+				getRosterComposition(firestore, teamId, seasonId),
+			])
+
 			// 2a. Add players.
 			if (rosterChanges.addPlayers && rosterChanges.addPlayers.length > 0) {
 				changes.rosterAdded = []
@@ -185,6 +203,14 @@ export const updateTeamAdmin = onCall<
 						)
 					}
 
+					const member = { captain, gender: playerDoc.data()?.gender }
+					validateRosterAddition(
+						rules,
+						composition,
+						member,
+						teamSeasonData.name
+					)
+
 					// Atomic add: create roster entry + create-or-update player season.
 					await firestore.runTransaction((txn) => {
 						addPlayerToTeam(txn, firestore, {
@@ -200,6 +226,7 @@ export const updateTeamAdmin = onCall<
 						return Promise.resolve()
 					})
 
+					recordRosterChange(composition, member, 1)
 					changes.rosterAdded.push(playerId)
 					addedPlayerIds.push(playerId)
 					logger.info('Added player to team roster', {
@@ -249,15 +276,7 @@ export const updateTeamAdmin = onCall<
 
 					const targetIsCaptain = captainSetByPlayerId.get(playerId) === true
 					if (targetIsCaptain) {
-						const otherCaptains = Array.from(
-							captainSetByPlayerId.entries()
-						).filter(([id, isCap]) => isCap && id !== playerId)
-						if (otherCaptains.length === 0) {
-							throw new HttpsError(
-								'failed-precondition',
-								`Cannot remove ${playerId}: they are the only captain. Promote another player first.`
-							)
-						}
+						validateCaptainChange(rules, composition, -1)
 					}
 
 					await firestore.runTransaction((txn) => {
@@ -269,6 +288,15 @@ export const updateTeamAdmin = onCall<
 						return Promise.resolve()
 					})
 
+					const removedPlayerDoc = await playerRef(firestore, playerId).get()
+					recordRosterChange(
+						composition,
+						{
+							captain: targetIsCaptain,
+							gender: removedPlayerDoc.data()?.gender,
+						},
+						-1
+					)
 					captainSetByPlayerId.delete(playerId)
 					changes.rosterRemoved.push(playerId)
 					logger.info('Removed player from team roster', {
@@ -310,17 +338,7 @@ export const updateTeamAdmin = onCall<
 					}
 					if (currentCaptainStatus === captain) continue
 
-					if (currentCaptainStatus && !captain) {
-						const otherCaptains = Array.from(
-							captainSetByPlayerId.entries()
-						).filter(([id, isCap]) => isCap && id !== playerId)
-						if (otherCaptains.length === 0) {
-							throw new HttpsError(
-								'failed-precondition',
-								`Cannot demote ${playerId}: they are the only captain. Promote another player first.`
-							)
-						}
-					}
+					validateCaptainChange(rules, composition, captain ? 1 : -1)
 
 					await firestore.runTransaction((txn) => {
 						setPlayerCaptainStatus(txn, firestore, {
@@ -331,6 +349,7 @@ export const updateTeamAdmin = onCall<
 						return Promise.resolve()
 					})
 					captainSetByPlayerId.set(playerId, captain)
+					composition.captains += captain ? 1 : -1
 
 					changes.captainChanges.push({
 						playerId,
@@ -368,6 +387,20 @@ export const updateTeamAdmin = onCall<
 			}
 		}
 
+		await recordAdminAction(auth, {
+			action: AuditAction.TEAM_UPDATE,
+			targets: [teamSeasonDocRef],
+			before: teamSeasonData,
+			after: changes.name
+				? { ...teamSeasonData, name: changes.name.to }
+				: teamSeasonData,
+			details: {
+				rosterAdded: changes.rosterAdded,
+				rosterRemoved: changes.rosterRemoved,
+				captainChanges: changes.captainChanges,
+			},
+		})
+
 		logger.info('Successfully updated team', {
 			teamId,
 			seasonId,
@@ -17,6 +17,7 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { getFirestore, FieldValue } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
 import {
+	AuditAction,
 	Collections,
 	PLAYER_SEASONS_SUBCOLLECTION,
 	PlayerDocument,
@@ -24,6 +25,7 @@ import {
 	WaiverDocument,
 } from '../../../types.js'
 import { validateAdminUser } from '../../../shared/auth.js'
+import { recordAdminAction } from '../../../shared/audit.js'
 import {
 	FIREBASE_CONFIG,
 	getDropboxSignConfig,
@@ -198,16 +200,23 @@ export const sendWaiverAdmin = onCall<SendWaiverAdminRequest>(
 			}
 
 			// Create waiver document in dropbox/{uid}/waivers subcollection
-			await firestore
+			const waiverData = {
+				seasonId: seasonId,
+				signatureRequestId: signatureRequestId,
+				status: 'pending',
+				createdAt: FieldValue.serverTimestamp(),
+			}
+			const waiverRef = await firestore
 				.collection(Collections.DROPBOX)
 				.doc(playerId)
 				.collection('waivers')
-				.add({
-					seasonId: seasonId,
-					signatureRequestId: signatureRequestId,
-					status: 'pending',
-					createdAt: FieldValue.serverTimestamp(),
-				})
+				.add(waiverData)
+
+			await recordAdminAction(auth, {
+				action: AuditAction.WAIVER_SEND,
+				targets: [waiverRef, playerRef],
+				after: waiverData,
+			})
 
 			logger.info('Admin sent waiver to player', {
 				adminId: auth?.uid,
@@ -0,0 +1,260 @@
+/**
+ * Submit game score callable function
+ *
+ * Lets either team's captain report the final score of a game they played.
+ * The first report leaves the game pending until a captain of the other
+ * team reports too. When the two teams' latest reports match, the score is
+ * written to `homeScore`/`awayScore`; when they disagree, the game is marked
+ * disputed and waits for an admin to set the score with updateGame. Each
+ * team's latest report is kept on the game with its submitter and time.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { getFirestore, Timestamp } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { validateAuthentication } from '../../../shared/auth.js'
+import {
+	playerRef,
+	playerSeasonRef,
+	teamRef,
+} from '../../../shared/database.js'
+import {
+	getTeamCaptainIds,
+	notifyPlayers,
+} from '../../../shared/notifications.js'
+import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import { getGameStatus, isUnplayed } from '../../../shared/gameStatus.js'
+import {
+	Collections,
+	GameDocument,
+	GameStatus,
+	NotificationType,
+	ScoreReportStatus,
+	ScoreSubmission,
+} from '../../../types.js'
+
+interface SubmitGameScoreRequest {
+	/** Game document ID */
+	gameId: string
+	homeScore: number
+	awayScore: number
+}
+
+interface SubmitGameScoreResponse {
+	success: true
+	gameId: string
+	status: ScoreReportStatus
+	message: string
+}
+
+const isValidScore = (score: unknown): score is number =>
+	typeof score === 'number' && Number.isInteger(score) && score >= 0
+
+/**
+ * Records a captain's score report and reconciles it with the other team's
+ *
+ * Security validations:
+ * - User must be authenticated with verified email
+ * - User must be a captain of the home or away team for the game's season
+ * - Game must have started and must not already have a final score
+ * - Game must not have been forfeited, postponed or canceled
+ * - Scores must be non-negative integers
+ */
+export const submitGameScore = onCall<SubmitGameScoreRequest>(
+	{ region: FIREBASE_CONFIG.REGION },
+	async (request): Promise<SubmitGameScoreResponse> => {
+		validateAuthentication(request.auth)
+
+		const { gameId, homeScore, awayScore } = request.data
+		const userId = request.auth.uid
+
+		if (!gameId) {
+			throw new HttpsError('invalid-argument', 'Game ID is required')
+		}
+
+		if (!isValidScore(homeScore) || !isValidScore(awayScore)) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Scores must be non-negative whole numbers'
+			)
+		}
+
+		try {
+			const firestore = getFirestore()
+			const gameRef = firestore.collection(Collections.GAMES).doc(gameId)
+
+			const result = await firestore.runTransaction(async (transaction) => {
+				const gameSnap = await transaction.get(gameRef)
+				if (!gameSnap.exists) {
+					throw new HttpsError('not-found', 'Game not found')
+				}
+				const game = gameSnap.data() as GameDocument
+
+				if (!game.home || !game.away) {
+					throw new HttpsError(
+						'failed-precondition',
+						'Both teams must be assigned before a score can be reported'
+					)
+				}
+
+				if (game.date.toMillis() > Date.now()) {
+					throw new HttpsError(
+						'failed-precondition',
+						'Scores can only be reported once the game has started'
+					)
+				}
+
+				if (isUnplayed(game)) {
+					const outcome =
+						getGameStatus(game) === GameStatus.FORFEIT
+							? 'forfeited'
+							: getGameStatus(game)
+					throw new HttpsError(
+						'failed-precondition',
+						`This game was ${outcome}, so it has no score to report`
+					)
+				}
+
+				// A game with a score and no open reports was scored by an admin
+				// (or confirmed by both captains); only an admin can change it.
+				const isOpen =
+					game.scoreStatus === ScoreReportStatus.PENDING ||
+					game.scoreStatus === ScoreReportStatus.DISPUTED
+				const isScored = game.homeScore !== null && game.awayScore !== null
+				if (!isOpen && isScored) {
+					throw new HttpsError(
+						'failed-precondition',
+						'This game already has a final score. Contact an admin to correct it.'
+					)
+				}
+
+				const seasonId = game.season.id
+				const callerSeasonSnap = await transaction.get(
+					playerSeasonRef(firestore, userId, seasonId)
+				)
+				const callerSeasonData = callerSeasonSnap.data()
+				const callerTeamId = callerSeasonData?.team?.id
+				if (
+					callerSeasonData?.captain !== true ||
+					!callerTeamId ||
+					(callerTeamId !== game.home.id && callerTeamId !== game.away.id)
+				) {
+					throw new HttpsError(
+						'permission-denied',
+						"Only a captain of one of this game's teams can report its score"
+					)
+				}
+
+				const submission: ScoreSubmission = {
+					team: teamRef(firestore, callerTeamId),
+					submittedBy: playerRef(firestore, userId),
+					homeScore,
+					awayScore,
+					submittedAt: Timestamp.now(),
+				}
+				const isHome = callerTeamId === game.home.id
+				const opposingTeamId = isHome ? game.away.id : game.home.id
+
+				// Compare against the other team's latest report, so either captain
+				// can resolve a dispute by resubmitting the agreed score.
+				const opposingReport = game.scoreReports?.[opposingTeamId]
+
+				let status: ScoreReportStatus
+				if (!opposingReport) {
+					status = ScoreReportStatus.PENDING
+				} else if (
+					opposingReport.homeScore === homeScore &&
+					opposingReport.awayScore === awayScore
+				) {
+					status = ScoreReportStatus.CONFIRMED
+				} else {
+					status = ScoreReportStatus.DISPUTED
+				}
+
+				transaction.update(gameRef, {
+					[`scoreReports.${callerTeamId}`]: submission,
+					scoreStatus: status,
+					...(status === ScoreReportStatus.CONFIRMED
+						? { homeScore, awayScore, status: GameStatus.FINAL }
+						: {}),
+				})
+
+				return {
+					status,
+					seasonId,
+					callerTeamId,
+					opposingTeamId,
+					callerTeamName:
+						(isHome ? game.homeName : game.awayName) ?? 'Your opponent',
+					matchup: `${game.homeName ?? 'Home'} vs ${game.awayName ?? 'Away'}`,
+				}
+			})
+
+			logger.info('Game score submitted', {
+				gameId,
+				homeScore,
+				awayScore,
+				status: result.status,
+				teamId: result.callerTeamId,
+				submittedBy: userId,
+			})
+
+			const score = `${homeScore}-${awayScore}`
+			if (result.status === ScoreReportStatus.PENDING) {
+				const captainIds = await getTeamCaptainIds(
+					firestore,
+					result.opposingTeamId,
+					result.seasonId
+				)
+				await notifyPlayers(firestore, captainIds, {
+					type: NotificationType.GAME_SCORE,
+					title: 'Confirm game score',
+					body: `${result.callerTeamName} reported ${score} for ${result.matchup}. Confirm the score or report your own.`,
+					link: '/schedule',
+				})
+			} else if (result.status === ScoreReportStatus.DISPUTED) {
+				const captainIds = (
+					await Promise.all(
+						[result.callerTeamId, result.opposingTeamId].map((teamId) =>
+							getTeamCaptainIds(firestore, teamId, result.seasonId)
+						)
+					)
+				).flat()
+				await notifyPlayers(firestore, captainIds, {
+					type: NotificationType.GAME_SCORE,
+					title: 'Game score disputed',
+					body: `The reported scores for ${result.matchup} don't match. An admin will review them.`,
+					link: '/schedule',
+				})
+			}
+
+			const messages: Record<ScoreReportStatus, string> = {
+				[ScoreReportStatus.PENDING]:
+					"Score reported. It will be final once the other team's captain confirms it.",
+				[ScoreReportStatus.CONFIRMED]: `Score confirmed: ${score}`,
+				[ScoreReportStatus.DISPUTED]:
+					"Score reported, but it doesn't match the other team's report. An admin will review it.",
+			}
+
+			return {
+				success: true,
+				gameId,
+				status: result.status,
+				message: messages[result.status],
+			}
+		} catch (error) {
+			if (error instanceof HttpsError) throw error
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error'
+			logger.error('Error submitting game score:', {
+				gameId,
+				userId,
+				error: errorMessage,
+			})
+			throw new HttpsError(
+				'internal',
+				`Failed to submit score: ${errorMessage}`
+			)
+		}
+	}
+)
@@ -0,0 +1,248 @@
+/**
+ * Submit spirit rating callable function
+ *
+ * Lets a captain rate the opposing team's spirit after a final game: a score
+ * from 1 to 5 in each spirit category and an optional comment. Each team
+ * rates each game once. Ratings stay hidden from everyone but admins until
+ * both teams have submitted, then both are revealed together so neither
+ * team's rating can be a reaction to the other's.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { validateAuthentication } from '../../../shared/auth.js'
+import {
+	gameSpiritRatingRef,
+	playerRef,
+	playerSeasonRef,
+	teamRef,
+} from '../../../shared/database.js'
+import {
+	getTeamCaptainIds,
+	notifyPlayers,
+} from '../../../shared/notifications.js'
+import { FIREBASE_CONFIG, SPIRIT_CONFIG } from '../../../config/constants.js'
+import { getGameStatus } from '../../../shared/gameStatus.js'
+import {
+	Collections,
+	GameDocument,
+	GameStatus,
+	NotificationType,
+	SpiritCategory,
+	SpiritRatingDocument,
+} from '../../../types.js'
+
+interface SubmitSpiritRatingRequest {
+	/** Game document ID */
+	gameId: string
+	/** Score for each spirit category */
+	scores: Record<SpiritCategory, number>
+	comment?: string | null
+}
+
+interface SubmitSpiritRatingResponse {
+	success: true
+	gameId: string
+	/** Whether both teams have now rated the game */
+	revealed: boolean
+	message: string
+}
+
+const isValidSpiritScore = (score: unknown): score is number =>
+	typeof score === 'number' &&
+	Number.isInteger(score) &&
+	score >= SPIRIT_CONFIG.MIN_SCORE &&
+	score <= SPIRIT_CONFIG.MAX_SCORE
+
+/**
+ * Records a captain's spirit rating of the opposing team
+ *
+ * Security validations:
+ * - User must be authenticated with verified email
+ * - User must be a captain of the home or away team for the game's season
+ * - Game must be final (forfeited, postponed and canceled games aren't rated)
+ * - The captain's team must not have rated this game already
+ * - Every category needs a whole-number score from 1 to 5
+ */
+export const submitSpiritRating = onCall<SubmitSpiritRatingRequest>(
+	{ region: FIREBASE_CONFIG.REGION },
+	async (request): Promise<SubmitSpiritRatingResponse> => {
+		validateAuthentication(request.auth)
+
+		const { gameId, scores } = request.data
+		const userId = request.auth.uid
+
+		if (!gameId) {
+			throw new HttpsError('invalid-argument', 'Game ID is required')
+		}
+
+		const categories = Object.values(SpiritCategory)
+		if (
+			!scores ||
+			typeof scores !== 'object' ||
+			!categories.every((category) => isValidSpiritScore(scores[category]))
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				`Every spirit category needs a score from ${SPIRIT_CONFIG.MIN_SCORE} to ${SPIRIT_CONFIG.MAX_SCORE}`
+			)
+		}
+
+		const comment =
+			typeof request.data.comment === 'string'
+				? request.data.comment.trim()
+				: ''
+		if (comment.length > SPIRIT_CONFIG.COMMENT_MAX_LENGTH) {
+			throw new HttpsError(
+				'invalid-argument',
+				`Comment must be ${SPIRIT_CONFIG.COMMENT_MAX_LENGTH} characters or fewer`
+			)
+		}
+
+		try {
+			const firestore = getFirestore()
+			const gameRef = firestore.collection(Collections.GAMES).doc(gameId)
+
+			const result = await firestore.runTransaction(async (transaction) => {
+				const gameSnap = await transaction.get(gameRef)
+				if (!gameSnap.exists) {
+					throw new HttpsError('not-found', 'Game not found')
+				}
+				const game = gameSnap.data() as GameDocument
+
+				if (!game.home || !game.away) {
+					throw new HttpsError(
+						'failed-precondition',
+						'Both teams must be assigned before a game can be rated'
+					)
+				}
+
+				if (getGameStatus(game) !== GameStatus.FINAL) {
+					throw new HttpsError(
+						'failed-precondition',
+						'Spirit ratings open once the game has a final score'
+					)
+				}
+
+				const seasonId = game.season.id
+				const callerSeasonSnap = await transaction.get(
+					playerSeasonRef(firestore, userId, seasonId)
+				)
+				const callerSeasonData = callerSeasonSnap.data()
+				const callerTeamId = callerSeasonData?.team?.id
+				if (
+					callerSeasonData?.captain !== true ||
+					!callerTeamId ||
+					(callerTeamId !== game.home.id && callerTeamId !== game.away.id)
+				) {
+					throw new HttpsError(
+						'permission-denied',
+						"Only a captain of one of this game's teams can rate its spirit"
+					)
+				}
+
+				const isHome = callerTeamId === game.home.id
+				const ratedTeamId = isHome ? game.away.id : game.home.id
+				const ownRatingRef = gameSpiritRatingRef(
+					firestore,
+					gameId,
+					callerTeamId
+				)
+				const opposingRatingRef = gameSpiritRatingRef(
+					firestore,
+					gameId,
+					ratedTeamId
+				)
+				const [ownRatingSnap, opposingRatingSnap] = await Promise.all([
+					transaction.get(ownRatingRef),
+					transaction.get(opposingRatingRef),
+				])
+
+				if (ownRatingSnap.exists) {
+					throw new HttpsError(
+						'already-exists',
+						'Your team has already rated this game'
+					)
+				}
+
+				const revealed = opposingRatingSnap.exists
+				const rating: SpiritRatingDocument = {
+					season: game.season,
+					game: gameRef as SpiritRatingDocument['game'],
+					team: teamRef(firestore, callerTeamId),
+					ratedTeam: teamRef(firestore, ratedTeamId),
+					submittedBy: playerRef(firestore, userId),
+					scores: Object.fromEntries(
+						categories.map((category) => [category, scores[category]])
+					) as Record<SpiritCategory, number>,
+					comment: comment || null,
+					submittedAt: Timestamp.now(),
+					revealed,
+				}
+
+				transaction.set(ownRatingRef, rating)
+				if (revealed) {
+					transaction.update(opposingRatingRef, { revealed: true })
+				}
+				transaction.update(gameRef, {
+					spiritRatedBy: FieldValue.arrayUnion(rating.team),
+				})
+
+				return {
+					revealed,
+					seasonId,
+					callerTeamId,
+					ratedTeamId,
+					matchup: `${game.homeName ?? 'Home'} vs ${game.awayName ?? 'Away'}`,
+				}
+			})
+
+			logger.info('Spirit rating submitted', {
+				gameId,
+				teamId: result.callerTeamId,
+				ratedTeamId: result.ratedTeamId,
+				revealed: result.revealed,
+				submittedBy: userId,
+			})
+
+			if (result.revealed) {
+				const captainIds = (
+					await Promise.all(
+						[result.callerTeamId, result.ratedTeamId].map((teamId) =>
+							getTeamCaptainIds(firestore, teamId, result.seasonId)
+						)
+					)
+				).flat()
+				await notifyPlayers(firestore, captainIds, {
+					type: NotificationType.SPIRIT_RATING,
+					title: 'Spirit ratings are in',
+					body: `Both teams have rated ${result.matchup}. See how your team was rated.`,
+					link: '/standings/spirit',
+				})
+			}
+
+			return {
+				success: true,
+				gameId,
+				revealed: result.revealed,
+				message: result.revealed
+					? "Rating submitted. Both teams' ratings are now visible."
+					: "Rating submitted. It will be visible once the other team's captain rates the game.",
+			}
+		} catch (error) {
+			if (error instanceof HttpsError) throw error
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error'
+			logger.error('Error submitting spirit rating:', {
+				gameId,
+				userId,
+				error: errorMessage,
+			})
+			throw new HttpsError(
+				'internal',
+				`Failed to submit spirit rating: ${errorMessage}`
+			)
+		}
+	}
+)
@@ -0,0 +1,204 @@
+/**
+ * Update game attendance callable function
+ *
+ * Records which players from one team actually played in a game. The list
+ * replaces that team's previous attendance for the game, so captains can
+ * correct mistakes by resubmitting. Attendance feeds the player rankings
+ * rebuild, which only credits a result to the players recorded here. An edit
+ * for a game the rankings have already applied flags a full rebuild.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { FieldValue, getFirestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { validateAuthentication } from '../../../shared/auth.js'
+import {
+	gameAttendanceCollection,
+	gameAttendanceRef,
+	playerRef,
+	playerSeasonRef,
+	teamRef,
+	teamSeasonRef,
+} from '../../../shared/database.js'
+import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import { handleAttendanceChangeForRankings } from '../../../services/playerRankings/index.js'
+import { Collections, GameDocument, PlayerDocument } from '../../../types.js'
+
+interface UpdateGameAttendanceRequest {
+	/** Game document ID */
+	gameId: string
+	/** Canonical team ID whose attendance is being recorded */
+	teamId: string
+	/** Player IDs from the team's season roster who played in the game */
+	playerIds: string[]
+}
+
+interface UpdateGameAttendanceResponse {
+	success: true
+	gameId: string
+	teamId: string
+	attendeeCount: number
+	message: string
+}
+
+/**
+ * Replaces a team's attendance for a single game
+ *
+ * Security validations:
+ * - User must be authenticated with verified email
+ * - User must be an admin, or a captain of the team for the game's season
+ * - Team must be the home or away team of the game
+ * - Every player must be on the team's roster for the game's season
+ */
+export const updateGameAttendance = onCall<UpdateGameAttendanceRequest>(
+	{ region: FIREBASE_CONFIG.REGION },
+	async (request): Promise<UpdateGameAttendanceResponse> => {
+		validateAuthentication(request.auth)
+
+		const { gameId, teamId, playerIds } = request.data
+		const userId = request.auth.uid
+
+		if (!gameId || !teamId) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Game ID and team ID are required'
+			)
+		}
+
+		if (
+			!Array.isArray(playerIds) ||
+			playerIds.some((id) => typeof id !== 'string' || !id)
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Player IDs must be an array of player IDs'
+			)
+		}
+
+		const attendeeIds = Array.from(new Set(playerIds))
+
+		try {
+			const firestore = getFirestore()
+
+			const gameSnap = await firestore
+				.collection(Collections.GAMES)
+				.doc(gameId)
+				.get()
+			if (!gameSnap.exists) {
+				throw new HttpsError('not-found', 'Game not found')
+			}
+			const game = gameSnap.data() as GameDocument
+
+			if (game.home?.id !== teamId && game.away?.id !== teamId) {
+				throw new HttpsError(
+					'invalid-argument',
+					'Team is not playing in this game'
+				)
+			}
+
+			const seasonId = game.season.id
+
+			// Authorization: admins can record any game; captains only their own team.
+			const [callerPlayerSnap, callerSeasonSnap] = await Promise.all([
+				playerRef(firestore, userId).get(),
+				playerSeasonRef(firestore, userId, seasonId).get(),
+			])
+			const isAdmin =
+				(callerPlayerSnap.data() as PlayerDocument | undefined)?.admin === true
+			const callerSeasonData = callerSeasonSnap.data()
+			const isTeamCaptain =
+				callerSeasonData?.team?.id === teamId &&
+				callerSeasonData?.captain === true
+
+			if (!isAdmin && !isTeamCaptain) {
+				throw new HttpsError(
+					'permission-denied',
+					'Only team captains or admins can record attendance'
+				)
+			}
+
+			// Every attendee must be on the team's roster for this season.
+			const rosterSnap = await teamSeasonRef(firestore, teamId, seasonId)
+				.collection('roster')
+				.get()
+			const rosterIds = new Set(rosterSnap.docs.map((doc) => doc.id))
+			const notRostered = attendeeIds.filter((id) => !rosterIds.has(id))
+			if (notRostered.length > 0) {
+				throw new HttpsError(
+					'invalid-argument',
+					`${notRostered.length} player(s) are not on this team's roster for the season`
+				)
+			}
+
+			const teamCanonicalRef = teamRef(firestore, teamId)
+			const existingSnap = await gameAttendanceCollection(firestore, gameId)
+				.where('team', '==', teamCanonicalRef)
+				.get()
+
+			const attendeeSet = new Set(attendeeIds)
+			const batch = firestore.batch()
+
+			for (const doc of existingSnap.docs) {
+				if (!attendeeSet.has(doc.id)) {
+					batch.delete(doc.ref)
+				}
+			}
+
+			for (const playerId of attendeeIds) {
+				batch.set(gameAttendanceRef(firestore, gameId, playerId), {
+					player: playerRef(firestore, playerId),
+					team: teamCanonicalRef,
+					recordedBy: playerRef(firestore, userId),
+					recordedAt: FieldValue.serverTimestamp(),
+				})
+			}
+
+			await batch.commit()
+
+			logger.info('Game attendance updated', {
+				gameId,
+				teamId,
+				attendeeCount: attendeeIds.length,
+				removedCount: existingSnap.docs.filter((d) => !attendeeSet.has(d.id))
+					.length,
+				updatedBy: userId,
+			})
+
+			// Rounds the rankings already applied don't see the new attendance
+			// until a full rebuild. Best-effort: the attendance is saved either way.
+			try {
+				await handleAttendanceChangeForRankings(gameId, game)
+			} catch (rankingsError) {
+				logger.error('Error checking rankings after attendance change:', {
+					gameId,
+					error:
+						rankingsError instanceof Error
+							? rankingsError.message
+							: 'Unknown error',
+				})
+			}
+
+			return {
+				success: true,
+				gameId,
+				teamId,
+				attendeeCount: attendeeIds.length,
+				message: `Attendance recorded for ${attendeeIds.length} player(s)`,
+			}
+		} catch (error) {
+			if (error instanceof HttpsError) throw error
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error'
+			logger.error('Error updating game attendance:', {
+				gameId,
+				teamId,
+				userId,
+				error: errorMessage,
+			})
+			throw new HttpsError(
+				'internal',
+				`Failed to update attendance: ${errorMessage}`
+			)
+		}
+	}
+)
@@ -9,16 +9,24 @@
  * - For requests: user must be the player making the request
  * - Player must not already be on a team for this season
  * - Admins bypass banned and registration date restrictions
+ *
+ * The offer expires after the season's `offerExpirationDays`. The recipient
+ * (the player for invitations, the team's captains for requests) is
+ * notified and emailed once it is created.
  */
 
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
-import { getFirestore, FieldValue } from 'firebase-admin/firestore'
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
 import {
 	Collections,
+	DocumentReference,
+	NotificationType,
 	OfferStatus,
 	OfferType,
+	PlayerDocument,
 	SeasonDocument,
+	TeamDocument,
 } from '../../../types.js'
 import { validateAuthentication } from '../../../shared/auth.js'
 import {
@@ -27,8 +35,11 @@ import {
 	playerSeasonRef,
 	teamSeasonRef,
 } from '../../../shared/database.js'
-import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import { EMAIL_CONFIG, FIREBASE_CONFIG } from '../../../config/constants.js'
 import { formatDateForUser } from '../../../shared/format.js'
+import { resolveSeasonRules } from '../../../shared/seasonRules.js'
+import { notifyOfferParty } from '../../../shared/notifications.js'
+import { sendPlayerEmails } from '../../../services/email/index.js'
 
 interface CreateOfferRequest {
 	playerId: string
@@ -38,7 +49,7 @@ interface CreateOfferRequest {
 }
 
 export const createOffer = onCall<CreateOfferRequest>(
-	{ region: FIREBASE_CONFIG.REGION },
+	{ region: FIREBASE_CONFIG.REGION, secrets: [...EMAIL_CONFIG.SECRETS] },
 	async (request) => {
 		// Validate authentication
 		try {
@@ -91,7 +102,7 @@ export const createOffer = onCall<CreateOfferRequest>(
 				.collection(Collections.OFFERS)
 				.doc(pendingOfferId)
 
-			return await firestore.runTransaction(async (transaction) => {
+			const result = await firestore.runTransaction(async (transaction) => {
 				// Atomically check if pending offer already exists
 				// This prevents race conditions where two concurrent requests
 				// could both pass the check before either creates the offer
@@ -202,6 +213,11 @@ export const createOffer = onCall<CreateOfferRequest>(
 					)
 				}
 
+				const { offerExpirationDays } = resolveSeasonRules(seasonData)
+				const expiresAt = Timestamp.fromMillis(
+					Date.now() + offerExpirationDays * 24 * 60 * 60 * 1000
+				)
+
 				// Create offer document using deterministic ID for atomic operation
 				const offerData = {
 					player: playerRef,
@@ -211,6 +227,7 @@ export const createOffer = onCall<CreateOfferRequest>(
 					status: OfferStatus.PENDING,
 					createdBy: firestore.collection(Collections.PLAYERS).doc(userId),
 					createdAt: FieldValue.serverTimestamp(),
+					expiresAt,
 				}
 
 				// Use transaction.set() with the deterministic document ID
@@ -227,9 +244,38 @@ export const createOffer = onCall<CreateOfferRequest>(
 				return {
 					success: true,
 					offerId: pendingOfferId,
+					expiresAt: expiresAt.toMillis(),
 					message: `${type === OfferType.INVITATION ? 'Invitation' : 'Request'} created successfully`,
 				}
 			})
+
+			const isInvitation = type === OfferType.INVITATION
+			const party = await notifyOfferParty(
+				firestore,
+				{
+					player: playerRef as DocumentReference<PlayerDocument>,
+					team: teamRef as DocumentReference<TeamDocument>,
+					season: seasonRef as DocumentReference<SeasonDocument>,
+				},
+				!isInvitation,
+				({ playerName, teamName }) => ({
+					type: NotificationType.OFFER_RECEIVED,
+					title: isInvitation ? 'New team invitation' : 'New join request',
+					body: isInvitation
+						? `${teamName} invited you to join their team.`
+						: `${playerName} asked to join ${teamName}.`,
+					link: '/manage',
+				})
+			)
+			if (party) {
+				await sendPlayerEmails(firestore, party.recipientIds, 'offerReceived', {
+					isInvitation,
+					...party.names,
+					link: '/manage',
+				})
+			}
+
+			return result
 		} catch (error) {
 			// If it's already an HttpsError, just re-throw it
 			if (error instanceof HttpsError) {
@@ -16,9 +16,14 @@ import {
 	validateAuthentication,
 	validateNotBanned,
 } from '../../../shared/auth.js'
-import { playerSeasonRef } from '../../../shared/database.js'
+import { playerSeasonRef, teamSeasonRef } from '../../../shared/database.js'
 import { FIREBASE_CONFIG } from '../../../config/constants.js'
 import { formatDateForUser } from '../../../shared/format.js'
+import { resolveSeasonRules } from '../../../shared/seasonRules.js'
+import {
+	getRosterComposition,
+	validateRosterAddition,
+} from '../../../shared/rosterLimits.js'
 
 interface UpdateOfferRequest {
 	offerId: string
@@ -35,6 +40,8 @@ interface UpdateOfferRequest {
  * - When accepting: target player must not be banned for the season
  * - Registration must not have ended
  * - Offer must exist and be in pending status
+ * - Offer must not have expired when accepting
+ * - When accepting: the team must have room under the season's roster limits
  * - Atomic transaction with proper cleanup
  * - Admins bypass banned and registration date restrictions
  */
@@ -127,6 +134,20 @@ export const updateOffer = onCall<UpdateOfferRequest>(
 					}
 				}
 
+				// Expired offers wait for the expiry job to cancel them, so check
+				// here too (skip for admins)
+				if (
+					status === OfferStatus.ACCEPTED &&
+					!isAdmin &&
+					offerData.expiresAt &&
+					offerData.expiresAt.toMillis() <= Date.now()
+				) {
+					throw new HttpsError(
+						'failed-precondition',
+						`This ${offerData.type === OfferType.INVITATION ? 'invitation' : 'request'} has expired`
+					)
+				}
+
 				// When accepting an offer, validate the player is not banned (skip for admins)
 				// This prevents banned players from joining teams
 				if (status === OfferStatus.ACCEPTED && !isAdmin) {
@@ -221,6 +242,25 @@ export const updateOffer = onCall<UpdateOfferRequest>(
 					}
 				}
 
+				// When accepting, the player must fit the season's roster limits
+				// (admins included). The onOfferUpdated trigger checks again when
+				// it adds the player.
+				if (status === OfferStatus.ACCEPTED) {
+					const seasonId = offerData.season.id
+					const teamId = offerData.team.id
+					const [composition, playerDoc, teamSeasonDoc] = await Promise.all([
+						getRosterComposition(firestore, teamId, seasonId, transaction),
+						transaction.get(offerData.player),
+						transaction.get(teamSeasonRef(firestore, teamId, seasonId)),
+					])
+					validateRosterAddition(
+						resolveSeasonRules(seasonData),
+						composition,
+						{ captain: false, gender: playerDoc.data()?.gender },
+						teamSeasonDoc.data()?.name ?? 'This team'
+					)
+				}
+
 				// Update offer status
 				transaction.update(offerRef, {
 					status,
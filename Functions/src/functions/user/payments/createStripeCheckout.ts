@@ -188,6 +188,7 @@ export const createStripeCheckout = onCall<
 				cancel_url: cancelUrl,
 				metadata: {
 					firebaseUID: userId,
+					...(currentSeason && { seasonId: currentSeason.id }),
 				},
 			}
 
@@ -2,10 +2,10 @@
  * Update player callable function
  */
 
-import { getFirestore } from 'firebase-admin/firestore'
+import { FieldValue, getFirestore } from 'firebase-admin/firestore'
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
 import { logger } from 'firebase-functions/v2'
-import { Collections } from '../../../types.js'
+import { Collections, EmailCategory, PlayerGender } from '../../../types.js'
 import {
 	validateAdminUser,
 	validateBasicAuthentication,
@@ -19,6 +19,10 @@ interface UpdatePlayerRequest {
 	playerId?: string // Optional - defaults to authenticated user
 	firstname?: string
 	lastname?: string
+	/** Email categories to turn on (true) or off (false) */
+	emailPreferences?: Partial<Record<EmailCategory, boolean>>
+	/** Self-reported gender for roster gender limits; null clears it */
+	gender?: PlayerGender | null
 	// Note: email updates not allowed for security
 	// Note: admin updates not allowed for security
 	// Note: seasons updates should go through dedicated functions
@@ -30,7 +34,10 @@ interface UpdatePlayerRequest {
  * Security validations:
  * - User must be authenticated
  * - Users can only update their own profile (unless admin)
- * - Only safe fields can be updated (firstname, lastname)
+ * - Only safe fields can be updated (firstname, lastname, emailPreferences,
+ *   gender)
+ * - Email preferences must name known categories with boolean values
+ * - Gender must be a known value or null
  * - Email and admin status cannot be changed
  * - Seasons array requires dedicated functions
  */
@@ -42,7 +49,7 @@ export const updatePlayer = onCall<UpdatePlayerRequest>(
 		// Validate authentication
 		validateBasicAuthentication(auth)
 
-		const { playerId, firstname, lastname } = data
+		const { playerId, firstname, lastname, emailPreferences, gender } = data
 		const userId = auth?.uid ?? ''
 
 		// Determine target player ID (defaults to authenticated user)
@@ -56,7 +63,7 @@ export const updatePlayer = onCall<UpdatePlayerRequest>(
 		}
 
 		// Validate that at least one field is being updated
-		if (!firstname && !lastname) {
+		if (!firstname && !lastname && !emailPreferences && gender === undefined) {
 			throw new HttpsError(
 				'invalid-argument',
 				'At least one field must be provided for update'
@@ -84,6 +91,33 @@ export const updatePlayer = onCall<UpdatePlayerRequest>(
 			)
 		}
 
+		const emailCategories = Object.values(EmailCategory) as string[]
+		if (
+			emailPreferences !== undefined &&
+			(typeof emailPreferences !== 'object' ||
+				emailPreferences === null ||
+				Object.entries(emailPreferences).some(
+					([category, enabled]) =>
+						!emailCategories.includes(category) || typeof enabled !== 'boolean'
+				))
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				`Email preferences must map ${emailCategories.join(', ')} to true or false`
+			)
+		}
+
+		if (
+			gender !== undefined &&
+			gender !== null &&
+			!(Object.values(PlayerGender) as string[]).includes(gender)
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				`Gender must be one of ${Object.values(PlayerGender).join(', ')}, or null`
+			)
+		}
+
 		try {
 			const firestore = getFirestore()
 			const playerRef = firestore
@@ -98,6 +132,15 @@ export const updatePlayer = onCall<UpdatePlayerRequest>(
 			if (lastname !== undefined) {
 				updateData.lastname = lastname.trim()
 			}
+			if (gender !== undefined) {
+				updateData.gender = gender ?? FieldValue.delete()
+			}
+			// Field paths so categories not in the request keep their setting
+			for (const [category, enabled] of Object.entries(
+				emailPreferences ?? {}
+			)) {
+				updateData[`emailPreferences.${category}`] = enabled
+			}
 
 			// Use transaction to atomically verify existence and update
 			await firestore.runTransaction(async (transaction) => {
@@ -0,0 +1,140 @@
+/**
+ * Update free-agent profile callable function
+ */
+
+import { FieldValue, getFirestore } from 'firebase-admin/firestore'
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { logger } from 'firebase-functions/v2'
+import { validateBasicAuthentication } from '../../../shared/auth.js'
+import { playerSeasonRef } from '../../../shared/database.js'
+import {
+	FIREBASE_CONFIG,
+	FREE_AGENT_PROFILE_CONFIG,
+} from '../../../config/constants.js'
+import { ExperienceLevel, FreeAgentAvailability } from '../../../types.js'
+
+/**
+ * Request interface for updating a free-agent profile
+ */
+interface UpdateFreeAgentProfileRequest {
+	seasonId: string
+	/** Whether captains can see the listing */
+	active: boolean
+	availability: FreeAgentAvailability
+	experience: ExperienceLevel
+	blurb: string
+}
+
+/**
+ * Creates or updates the user's looking-for-team listing for a season
+ *
+ * Captains browse active listings from the invite flow on their team page.
+ * Preferred teammates come from the player's teammate requests.
+ *
+ * Security validations:
+ * - User must be authenticated
+ * - User must be signed up for the season and not banned
+ * - User must not be on a team to switch the listing on
+ * - Availability and experience must be known values
+ * - Blurb must be at most FREE_AGENT_PROFILE_CONFIG.BLURB_MAX_LENGTH characters
+ */
+export const updateFreeAgentProfile = onCall<UpdateFreeAgentProfileRequest>(
+	{ cors: [...FIREBASE_CONFIG.CORS_ORIGINS], region: FIREBASE_CONFIG.REGION },
+	async (request) => {
+		const { auth, data } = request
+
+		validateBasicAuthentication(auth)
+
+		const { seasonId, active, availability, experience, blurb } = data ?? {}
+		const userId = auth?.uid ?? ''
+
+		if (!seasonId || typeof seasonId !== 'string') {
+			throw new HttpsError('invalid-argument', 'Season ID is required')
+		}
+		if (typeof active !== 'boolean') {
+			throw new HttpsError('invalid-argument', 'Active must be true or false')
+		}
+		if (!Object.values(FreeAgentAvailability).includes(availability)) {
+			throw new HttpsError('invalid-argument', 'Invalid availability')
+		}
+		if (!Object.values(ExperienceLevel).includes(experience)) {
+			throw new HttpsError('invalid-argument', 'Invalid experience level')
+		}
+		if (typeof blurb !== 'string') {
+			throw new HttpsError('invalid-argument', 'Blurb must be a string')
+		}
+		const trimmedBlurb = blurb.trim()
+		if (trimmedBlurb.length > FREE_AGENT_PROFILE_CONFIG.BLURB_MAX_LENGTH) {
+			throw new HttpsError(
+				'invalid-argument',
+				`Blurb must not exceed ${FREE_AGENT_PROFILE_CONFIG.BLURB_MAX_LENGTH} characters`
+			)
+		}
+
+		try {
+			const firestore = getFirestore()
+			const playerSeasonDocRef = playerSeasonRef(firestore, userId, seasonId)
+
+			await firestore.runTransaction(async (transaction) => {
+				const playerSeason = (await transaction.get(playerSeasonDocRef)).data()
+				if (!playerSeason) {
+					throw new HttpsError(
+						'failed-precondition',
+						'You are not signed up for this season'
+					)
+				}
+				if (playerSeason.banned) {
+					throw new HttpsError(
+						'permission-denied',
+						'You are banned from this season'
+					)
+				}
+				if (active && playerSeason.team) {
+					throw new HttpsError(
+						'failed-precondition',
+						'You are already on a team this season'
+					)
+				}
+
+				transaction.update(playerSeasonDocRef, {
+					freeAgentProfile: {
+						active,
+						availability,
+						experience,
+						blurb: trimmedBlurb,
+						updatedAt: FieldValue.serverTimestamp(),
+					},
+				})
+			})
+
+			logger.info(`Updated free-agent profile for player: ${userId}`, {
+				seasonId,
+				active,
+			})
+
+			return {
+				success: true,
+				message: active
+					? 'Your free-agent profile is visible to captains'
+					: 'Your free-agent profile is hidden',
+			}
+		} catch (error) {
+			logger.error('Error updating free-agent profile:', {
+				userId,
+				seasonId,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+
+			if (error instanceof HttpsError) {
+				throw error
+			}
+
+			throw new HttpsError(
+				'internal',
+				error instanceof Error
+					? error.message
+					: 'Failed to update free-agent profile'
+			)
+		}
+	}
+)
@@ -0,0 +1,142 @@
+/**
+ * Update teammate requests callable function
+ */
+
+import { getFirestore } from 'firebase-admin/firestore'
+import { onCall, HttpsError } from 'firebase-functions/v2/https'
+import { logger } from 'firebase-functions/v2'
+import { validateBasicAuthentication } from '../../../shared/auth.js'
+import { playerRef, playerSeasonRef } from '../../../shared/database.js'
+import {
+	FIREBASE_CONFIG,
+	FREE_AGENT_DRAFT_CONFIG,
+} from '../../../config/constants.js'
+
+/**
+ * Request interface for updating teammate requests
+ */
+interface UpdateTeammateRequestsRequest {
+	seasonId: string
+	/** Players to be placed with; an empty list clears the requests */
+	teammateIds: string[]
+}
+
+/**
+ * Sets which players a free agent would like to be placed with
+ *
+ * Requests are read by the free-agent draft (`proposeFreeAgentDraft`).
+ *
+ * Security validations:
+ * - User must be authenticated
+ * - User must be signed up for the season and not yet on a team
+ * - At most FREE_AGENT_DRAFT_CONFIG.MAX_TEAMMATE_REQUESTS existing players,
+ *   not including the user
+ */
+export const updateTeammateRequests = onCall<UpdateTeammateRequestsRequest>(
+	{ cors: [...FIREBASE_CONFIG.CORS_ORIGINS], region: FIREBASE_CONFIG.REGION },
+	async (request) => {
+		const { auth, data } = request
+
+		validateBasicAuthentication(auth)
+
+		const { seasonId, teammateIds } = data ?? {}
+		const userId = auth?.uid ?? ''
+
+		if (!seasonId || typeof seasonId !== 'string') {
+			throw new HttpsError('invalid-argument', 'Season ID is required')
+		}
+		if (
+			!Array.isArray(teammateIds) ||
+			teammateIds.some((id) => typeof id !== 'string' || id === '')
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Teammate IDs must be a list of player IDs'
+			)
+		}
+
+		const uniqueTeammateIds = Array.from(new Set(teammateIds))
+		if (uniqueTeammateIds.includes(userId)) {
+			throw new HttpsError(
+				'invalid-argument',
+				'You cannot request yourself as a teammate'
+			)
+		}
+		if (
+			uniqueTeammateIds.length > FREE_AGENT_DRAFT_CONFIG.MAX_TEAMMATE_REQUESTS
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				`You can request at most ${FREE_AGENT_DRAFT_CONFIG.MAX_TEAMMATE_REQUESTS} teammates`
+			)
+		}
+
+		try {
+			const firestore = getFirestore()
+			const playerSeasonDocRef = playerSeasonRef(firestore, userId, seasonId)
+			const teammateRefs = uniqueTeammateIds.map((id) =>
+				playerRef(firestore, id)
+			)
+
+			await firestore.runTransaction(async (transaction) => {
+				const playerSeasonDoc = await transaction.get(playerSeasonDocRef)
+				const playerSeason = playerSeasonDoc.data()
+				if (!playerSeason) {
+					throw new HttpsError(
+						'failed-precondition',
+						'You are not signed up for this season'
+					)
+				}
+				if (playerSeason.team) {
+					throw new HttpsError(
+						'failed-precondition',
+						'Teammate requests are only for players without a team'
+					)
+				}
+
+				const teammateDocs =
+					teammateRefs.length > 0
+						? await transaction.getAll(...teammateRefs)
+						: []
+				const missing = teammateDocs.find((doc) => !doc.exists)
+				if (missing) {
+					throw new HttpsError('not-found', `Player ${missing.id} not found`)
+				}
+
+				transaction.update(playerSeasonDocRef, {
+					requestedTeammates: teammateRefs,
+				})
+			})
+
+			logger.info(`Updated teammate requests for player: ${userId}`, {
+				seasonId,
+				teammateIds: uniqueTeammateIds,
+			})
+
+			return {
+				success: true,
+				message:
+					uniqueTeammateIds.length > 0
+						? 'Teammate requests saved'
+						: 'Teammate requests cleared',
+			}
+		} catch (error) {
+			logger.error('Error updating teammate requests:', {
+				userId,
+				seasonId,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+
+			if (error instanceof HttpsError) {
+				throw error
+			}
+
+			throw new HttpsError(
+				'internal',
+				error instanceof Error
+					? error.message
+					: 'Failed to update teammate requests'
+			)
+		}
+	}
+)
@@ -3,7 +3,9 @@
  *
  * Handles player management actions on a team: promote, demote, or remove.
  * Captain status lives on the player season subdoc — there is exactly one
- * write per state change, no dual-update of team and player.
+ * write per state change, no dual-update of team and player. The target
+ * player is notified unless they made the change themselves. Captain
+ * changes must stay within the season's minimum and maximum captains.
  */
 
 import { onCall, HttpsError } from 'firebase-functions/v2/https'
@@ -21,8 +23,18 @@ import {
 	setPlayerCaptainStatus,
 } from '../../../shared/membership.js'
 import { formatDateForUser } from '../../../shared/format.js'
-import { FIREBASE_CONFIG, TEAM_CONFIG } from '../../../config/constants.js'
-import { Collections } from '../../../types.js'
+import { FIREBASE_CONFIG } from '../../../config/constants.js'
+import { resolveSeasonRules } from '../../../shared/seasonRules.js'
+import {
+	getRosterComposition,
+	validateCaptainChange,
+} from '../../../shared/rosterLimits.js'
+import { notifyPlayers } from '../../../shared/notifications.js'
+import {
+	Collections,
+	NotificationType,
+	SeasonDocument,
+} from '../../../types.js'
 
 interface UpdateTeamRosterRequest {
 	teamId: string
@@ -69,10 +81,11 @@ export const updateTeamRoster = onCall<UpdateTeamRosterRequest>(
 			if (!seasonSnap.exists) {
 				throw new HttpsError('not-found', 'Season not found')
 			}
-			const seasonData = seasonSnap.data()
+			const seasonData = seasonSnap.data() as SeasonDocument | undefined
 			if (!seasonData) {
 				throw new HttpsError('internal', 'Invalid season data')
 			}
+			const rules = resolveSeasonRules(seasonData)
 
 			// Verify the team season + roster entry exist.
 			const teamSeasonDocRef = teamSeasonRef(firestore, teamId, seasonId)
@@ -81,6 +94,7 @@ export const updateTeamRoster = onCall<UpdateTeamRosterRequest>(
 				throw new HttpsError('not-found', 'Team not found for this season')
 			}
 			const teamSeasonData = teamSeasonSnap.data()
+			const teamName = teamSeasonData?.name ?? 'your team'
 
 			const targetRosterRef = teamRosterEntryRef(
 				firestore,
@@ -144,15 +158,32 @@ export const updateTeamRoster = onCall<UpdateTeamRosterRequest>(
 
 			switch (action) {
 				case 'promote': {
-					await firestore.runTransaction((txn) => {
+					// Read the captains inside the transaction so two promotions at
+					// once can't both fit under the limit.
+					await firestore.runTransaction(async (txn) => {
+						const targetSnap = await txn.get(targetSeasonRef)
+						if (targetSnap.data()?.captain !== true) {
+							validateCaptainChange(
+								rules,
+								await getRosterComposition(firestore, teamId, seasonId, txn),
+								1
+							)
+						}
 						setPlayerCaptainStatus(txn, firestore, {
 							playerId,
 							seasonId,
 							captain: true,
 						})
-						return Promise.resolve()
 					})
 					logger.info('Promoted player to captain', { teamId, playerId })
+					if (playerId !== userId) {
+						await notifyPlayers(firestore, [playerId], {
+							type: NotificationType.CAPTAIN_STATUS,
+							title: 'You are now a captain',
+							body: `You were made a captain of ${teamName}.`,
+							link: '/manage',
+						})
+					}
 					return {
 						success: true,
 						action: 'promoted',
@@ -161,32 +192,30 @@ export const updateTeamRoster = onCall<UpdateTeamRosterRequest>(
 				}
 
 				case 'demote': {
-					// Last-captain check: count captains on this team's roster by reading
-					// each player's season subdoc.
-					const rosterSnap = await teamSeasonDocRef.collection('roster').get()
-					const captainSeasons = await Promise.all(
-						rosterSnap.docs.map((d) =>
-							playerSeasonRef(firestore, d.id, seasonId).get()
-						)
-					)
-					const captainCount = captainSeasons.filter(
-						(snap) => snap.data()?.captain === true
-					).length
-					if (captainCount <= 1) {
-						throw new HttpsError(
-							'failed-precondition',
-							'Cannot demote the last captain. You must promote another player to captain first.'
-						)
-					}
-					await firestore.runTransaction((txn) => {
+					await firestore.runTransaction(async (txn) => {
+						const targetSnap = await txn.get(targetSeasonRef)
+						if (targetSnap.data()?.captain === true) {
+							validateCaptainChange(
+								rules,
+								await getRosterComposition(firestore, teamId, seasonId, txn),
+								-1
+							)
+						}
 						setPlayerCaptainStatus(txn, firestore, {
 							playerId,
 							seasonId,
 							captain: false,
 						})
-						return Promise.resolve()
 					})
 					logger.info('Demoted player from captain', { teamId, playerId })
+					if (playerId !== userId) {
+						await notifyPlayers(firestore, [playerId], {
+							type: NotificationType.CAPTAIN_STATUS,
+							title: 'Captain status removed',
+							body: `You are no longer a captain of ${teamName}.`,
+							link: `/teams/${teamId}`,
+						})
+					}
 					return {
 						success: true,
 						action: 'demoted',
@@ -195,54 +224,64 @@ export const updateTeamRoster = onCall<UpdateTeamRosterRequest>(
 				}
 
 				case 'remove': {
-					const rosterSnap = await teamSeasonDocRef.collection('roster').get()
-					const rosterPlayerSeasonSnaps = await Promise.all(
-						rosterSnap.docs.map((d) =>
-							playerSeasonRef(firestore, d.id, seasonId).get()
+					await firestore.runTransaction(async (txn) => {
+						const rosterSnap = await txn.get(
+							teamSeasonDocRef.collection('roster')
 						)
-					)
-
-					// Last-captain check.
-					const captainCount = rosterPlayerSeasonSnaps.filter(
-						(snap) => snap.data()?.captain === true
-					).length
-					const targetIsCaptain = targetSeasonSnap.data()?.captain === true
-					if (targetIsCaptain && captainCount <= 1) {
-						throw new HttpsError(
-							'failed-precondition',
-							'Cannot remove the last captain. You must promote another player to captain before leaving the team.'
+						const rosterPlayerSeasonSnaps = await txn.getAll(
+							...rosterSnap.docs.map((d) =>
+								playerSeasonRef(firestore, d.id, seasonId)
+							)
 						)
-					}
 
-					// Registered-team threshold check: would this departure drop the
-					// team below the minimum?
-					if (teamSeasonData?.registered) {
-						const minPlayersRequired = TEAM_CONFIG.MIN_PLAYERS_FOR_REGISTRATION
-						const remainingRegistered = rosterPlayerSeasonSnaps.filter(
-							(snap, i) => {
-								if (rosterSnap.docs[i].id === playerId) return false
-								const data = snap.data()
-								return Boolean(data?.paid && data?.signed)
-							}
-						).length
-						if (remainingRegistered < minPlayersRequired) {
-							throw new HttpsError(
-								'failed-precondition',
-								`You cannot leave your team at this time. Your departure would cause the team to lose its registered status. The team needs at least ${minPlayersRequired} fully registered players (paid and signed waiver), but would only have ${remainingRegistered} after your departure.`
+						// Captain-count check.
+						const targetIsCaptain =
+							rosterPlayerSeasonSnaps
+								.find((snap) => snap.id === playerId)
+								?.data()?.captain === true
+						if (targetIsCaptain) {
+							validateCaptainChange(
+								rules,
+								await getRosterComposition(firestore, teamId, seasonId, txn),
+								-1
 							)
 						}
-					}
 
-					await firestore.runTransaction((txn) => {
+						// Registered-team threshold check: would this departure drop the
+						// team below the minimum?
+						if (teamSeasonData?.registered) {
+							const { minPlayersForRegistration: minPlayersRequired } = rules
+							const remainingRegistered = rosterPlayerSeasonSnaps.filter(
+								(snap) => {
+									if (snap.id === playerId) return false
+									const data = snap.data()
+									return Boolean(data?.paid && data?.signed)
+								}
+							).length
+							if (remainingRegistered < minPlayersRequired) {
+								throw new HttpsError(
+									'failed-precondition',
+									`You cannot leave your team at this time. Your departure would cause the team to lose its registered status. The team needs at least ${minPlayersRequired} fully registered players (paid and signed waiver), but would only have ${remainingRegistered} after your departure.`
+								)
+							}
+						}
+
 						removePlayerFromTeam(txn, firestore, {
 							playerId,
 							teamId,
 							seasonId,
 						})
-						return Promise.resolve()
 					})
 
 					logger.info('Removed player from team', { teamId, playerId })
+					if (playerId !== userId) {
+						await notifyPlayers(firestore, [playerId], {
+							type: NotificationType.ROSTER_REMOVED,
+							title: 'Removed from team',
+							body: `You were removed from ${teamName}.`,
+							link: '/teams',
+						})
+					}
 					return {
 						success: true,
 						action: 'removed',
@@ -8,19 +8,24 @@
  * - Authentication triggers (user lifecycle events)
  * - Document triggers (Firestore document changes)
  * - Payment triggers (payment processing events)
+ * - Scheduled jobs (season end badge evaluation, player rankings update)
  *
  * API ENDPOINTS:
  * - Webhooks (external service callbacks)
+ * - Calendar feeds (iCalendar game schedules)
  *
  * CALLABLE FUNCTIONS (ADMIN-ONLY):
  * - Player management (email updates, admin status, verification)
  * - Team management (unregistered team deletion)
- * - Game management (CRUD operations)
+ * - Game management (CRUD operations, round-robin schedule generation,
+ *   playoff brackets)
+ * - Swiss seasons (seeding, rankings, Monrad game day pairing)
  * - News management (CRUD operations)
  * - Season management (CRUD operations with auto player integration)
- * - Player rankings (rebuild and update)
- * - Badge management (CRUD operations, award/revoke badges)
+ * - Player rankings (rebuild, shadow runs and promotion)
+ * - Badge management (CRUD operations, award/revoke badges, badge rules)
  * - Posts management (delete posts and replies)
+ * - Payment management (Stripe refunds)
  *
  * CALLABLE FUNCTIONS (USER-ACCESSIBLE):
  * - Player management (CRUD operations)
@@ -29,6 +34,7 @@
  * - Storage management (file upload/download)
  * - Waiver management (reminder emails)
  * - Posts management (create/update posts and replies)
+ * - Game attendance (captains record who played)
  *
  * This organization provides:
  * - Clear separation between admin and user functions
@@ -54,10 +60,17 @@ export { onOfferUpdated } from './triggers/documents/offerUpdated.js'
 export { updateTeamRegistrationOnPlayerChange } from './triggers/documents/playerUpdated.js'
 export { updateTeamRegistrationOnRosterChange } from './triggers/documents/teamUpdated.js'
 export { onTeamRegistrationChange } from './triggers/documents/teamRegistrationLock.js'
+export { onGameScored } from './triggers/documents/gameUpdated.js'
+export { onTeamSeasonHistoryChange } from './triggers/documents/teamSeasonHistory.js'
 
 // Payment triggers
 export { onPaymentCreated } from './triggers/payments/paymentCreated.js'
 
+// Scheduled jobs
+export { evaluateBadgesAtSeasonEnd } from './triggers/scheduled/seasonEnded.js'
+export { updatePlayerRankings } from './triggers/scheduled/rankingsUpdate.js'
+export { expireOffers } from './triggers/scheduled/offerExpiry.js'
+
 //////////////////////////////////////////////////////////////////////////////
 // API ENDPOINTS
 //////////////////////////////////////////////////////////////////////////////
@@ -66,6 +79,9 @@ export { onPaymentCreated } from './triggers/payments/paymentCreated.js'
 export { dropboxSignWebhook } from './api/webhooks/dropboxSign.js'
 export { stripeWebhook } from './api/webhooks/stripe.js'
 
+// Calendar feeds
+export { calendarFeed } from './api/calendar/scheduleFeed.js'
+
 //////////////////////////////////////////////////////////////////////////////
 // CALLABLE FUNCTIONS
 //////////////////////////////////////////////////////////////////////////////
@@ -74,6 +90,8 @@ export { stripeWebhook } from './api/webhooks/stripe.js'
 export { createPlayer } from './functions/user/players/create.js'
 export { updatePlayer } from './functions/user/players/update.js'
 export { deletePlayer } from './functions/user/players/delete.js'
+export { updateTeammateRequests } from './functions/user/players/updateTeammateRequests.js'
+export { updateFreeAgentProfile } from './functions/user/players/updateFreeAgentProfile.js'
 
 // Player management functions (admin-only)
 export { updatePlayerEmail } from './functions/admin/players/updateEmail.js'
@@ -91,6 +109,9 @@ export { updateTeamRoster } from './functions/user/teams/updateRoster.js'
 export { deleteUnregisteredTeam } from './functions/admin/teams/deleteUnregisteredTeam.js'
 export { updateTeamAdmin } from './functions/admin/teams/updateTeamAdmin.js'
 export { mergeTeams } from './functions/admin/teams/mergeTeams.js'
+export { rebuildTeamHistory } from './functions/admin/teams/rebuildTeamHistory.js'
+export { proposeFreeAgentDraft } from './functions/admin/teams/proposeFreeAgentDraft.js'
+export { applyFreeAgentDraft } from './functions/admin/teams/applyFreeAgentDraft.js'
 
 // Offer management functions (user-accessible)
 export { createOffer } from './functions/user/offers/create.js'
@@ -109,6 +130,7 @@ export { deleteSeason } from './functions/admin/seasons/delete.js'
 // Swiss season management functions (admin-only)
 export { setSwissSeeding } from './functions/admin/swiss/setSeeding.js'
 export { getSwissRankings } from './functions/admin/swiss/getRankings.js'
+export { createSwissGameDay } from './functions/admin/swiss/createGameDay.js'
 
 // Storage functions (user-accessible)
 export { getUploadUrl } from './functions/user/storage/getUploadUrl.js'
@@ -116,9 +138,12 @@ export { getDownloadUrl } from './functions/user/storage/getDownloadUrl.js'
 export { getFileMetadata } from './functions/user/storage/getFileMetadata.js'
 
 // Player Rankings functions (admin-only)
-// Note: Only full rebuild is supported - incremental updates were deprecated
-// because TrueSkill requires accurate sigma (uncertainty) tracking across all games
+// Note: New rounds are applied incrementally by onGameScored and the
+// updatePlayerRankings scheduled job; a rebuild is only needed after an edit
+// to a game at or before the rankings checkpoint
 export { rebuildPlayerRankings } from './functions/admin/rankings/rebuildPlayerRankings.js'
+export { startShadowRankingsRebuild } from './functions/admin/rankings/startShadowRankingsRebuild.js'
+export { promoteShadowRankings } from './functions/admin/rankings/promoteShadowRankings.js'
 
 // Waiver functions (user-accessible)
 export { sendWaiverReminder } from './functions/user/waivers/sendReminder.js'
@@ -129,10 +154,25 @@ export { sendWaiverAdmin } from './functions/admin/waivers/sendWaiverAdmin.js'
 // Payment functions (user-accessible)
 export { createStripeCheckout } from './functions/user/payments/createStripeCheckout.js'
 
+// Payment management functions (admin-only)
+export { refundPlayerPayment } from './functions/admin/payments/refundPlayerPayment.js'
+
+// Game attendance functions (user-accessible, captains and admins)
+export { updateGameAttendance } from './functions/user/games/updateAttendance.js'
+
+// Game score reporting functions (user-accessible, captains)
+export { submitGameScore } from './functions/user/games/submitScore.js'
+
+// Spirit rating functions (user-accessible, captains)
+export { submitSpiritRating } from './functions/user/games/submitSpiritRating.js'
+
 // Game management functions (admin-only)
 export { createGame } from './functions/admin/games/create.js'
 export { updateGame } from './functions/admin/games/update.js'
 export { deleteGame } from './functions/admin/games/delete.js'
+export { generateSchedule } from './functions/admin/games/generateSchedule.js'
+export { createGamesBatch } from './functions/admin/games/createBatch.js'
+export { generatePlayoffBracket } from './functions/admin/games/generatePlayoffBracket.js'
 
 // Badge management functions (admin-only)
 export { createBadge } from './functions/admin/badges/create.js'
@@ -140,6 +180,7 @@ export { updateBadge } from './functions/admin/badges/update.js'
 export { deleteBadge } from './functions/admin/badges/delete.js'
 export { awardBadge } from './functions/admin/badges/awardBadge.js'
 export { revokeBadge } from './functions/admin/badges/revokeBadge.js'
+export { evaluateBadges } from './functions/admin/badges/evaluate.js'
 
 // Site settings functions (admin-only)
 export { updateSiteSettings } from './functions/admin/site-settings/updateSiteSettings.js'
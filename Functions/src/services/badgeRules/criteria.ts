@@ -0,0 +1,235 @@
+/**
+ * Badge criteria evaluation
+ *
+ * Pure functions that decide whether a team meets a badge's criterion, given
+ * the team's game and season history. No Firestore access happens here.
+ */
+
+import { HttpsError } from 'firebase-functions/v2/https'
+import { BadgeCriterion, BadgeCriterionType } from '../../types.js'
+import {
+	SeasonBadgeContext,
+	TeamBadgeContext,
+	TeamGameResult,
+} from './types.js'
+
+/** Criteria decided by game results, re-checked whenever a game is scored */
+const GAME_CRITERIA = new Set<BadgeCriterionType>([
+	BadgeCriterionType.WIN_MARGIN,
+	BadgeCriterionType.GAME_TOTAL_POINTS,
+	BadgeCriterionType.POINTS_AT_LEAST,
+	BadgeCriterionType.POINTS_AT_MOST,
+	BadgeCriterionType.WIN_STREAK,
+	BadgeCriterionType.LOSS_STREAK,
+])
+
+/** Criteria that need a numeric threshold */
+const THRESHOLD_CRITERIA = new Set<BadgeCriterionType>([
+	...GAME_CRITERIA,
+	BadgeCriterionType.SEASONS_PLAYED,
+	BadgeCriterionType.CONSECUTIVE_SEASONS,
+])
+
+/**
+ * Whether a criterion depends only on game results
+ */
+export function isGameCriterion(criterion: BadgeCriterion): boolean {
+	return GAME_CRITERIA.has(criterion.type)
+}
+
+/**
+ * Validates a criterion submitted from badge management
+ *
+ * @returns The criterion with unused fields dropped, null to remove it, or
+ * undefined when none was submitted
+ * @throws HttpsError if the type is unknown or the threshold is out of range
+ */
+export function validateBadgeCriterion(
+	criterion: BadgeCriterion | null | undefined
+): BadgeCriterion | null | undefined {
+	if (criterion === undefined || criterion === null) {
+		return criterion
+	}
+
+	if (
+		typeof criterion !== 'object' ||
+		!Object.values(BadgeCriterionType).includes(criterion.type)
+	) {
+		throw new HttpsError('invalid-argument', 'Unknown badge rule type')
+	}
+
+	if (!THRESHOLD_CRITERIA.has(criterion.type)) {
+		return { type: criterion.type }
+	}
+
+	const { threshold } = criterion
+	const minimum = criterion.type === BadgeCriterionType.POINTS_AT_MOST ? 0 : 1
+	if (
+		typeof threshold !== 'number' ||
+		!Number.isInteger(threshold) ||
+		threshold < minimum
+	) {
+		throw new HttpsError(
+			'invalid-argument',
+			`Badge rule threshold must be a whole number of at least ${minimum}`
+		)
+	}
+
+	return { type: criterion.type, threshold }
+}
+
+/**
+ * Season of the first played (not forfeited) game matching a predicate
+ */
+function firstMatchingGame(
+	games: TeamGameResult[],
+	predicate: (game: TeamGameResult) => boolean
+): string | null {
+	return games.find((game) => game.rated && predicate(game))?.seasonId ?? null
+}
+
+/**
+ * Season in which a run of consecutive wins (or losses) first reached the
+ * required length. Ties end a run; forfeits count as results.
+ */
+function streakSeason(
+	games: TeamGameResult[],
+	wins: boolean,
+	length: number
+): string | null {
+	let run = 0
+	for (const game of games) {
+		const extendsRun = wins
+			? game.pointsFor > game.pointsAgainst
+			: game.pointsFor < game.pointsAgainst
+		run = extendsRun ? run + 1 : 0
+		if (run >= length) {
+			return game.seasonId
+		}
+	}
+	return null
+}
+
+/**
+ * Seasons up to and including the evaluated one, oldest first, flagged with
+ * whether the team was registered for each
+ */
+function registeredSeasons(
+	team: TeamBadgeContext,
+	season: SeasonBadgeContext
+): { seasonId: string; registered: boolean }[] {
+	const lastIndex = season.orderedSeasonIds.indexOf(season.seasonId)
+	return season.orderedSeasonIds.slice(0, lastIndex + 1).map((seasonId) => ({
+		seasonId,
+		registered: Boolean(team.seasons.get(seasonId)?.registered),
+	}))
+}
+
+/**
+ * Compares the team's placement in the evaluated season to the season before
+ *
+ * @returns Negative if the team placed higher, positive if lower, or null when
+ * either placement is missing
+ */
+function placementChange(
+	team: TeamBadgeContext,
+	season: SeasonBadgeContext
+): number | null {
+	const index = season.orderedSeasonIds.indexOf(season.seasonId)
+	if (index < 1) return null
+	const previousSeasonId = season.orderedSeasonIds[index - 1]
+	const current = team.seasons.get(season.seasonId)?.placement ?? null
+	const previous = team.seasons.get(previousSeasonId)?.placement ?? null
+	if (current === null || previous === null) return null
+	return current - previous
+}
+
+/**
+ * Decides whether a team meets a badge criterion
+ *
+ * @returns The ID of the season the badge was earned in, or null if the team
+ * doesn't qualify
+ */
+export function evaluateCriterion(
+	criterion: BadgeCriterion,
+	team: TeamBadgeContext,
+	season: SeasonBadgeContext
+): string | null {
+	const threshold = criterion.threshold ?? 0
+
+	switch (criterion.type) {
+		case BadgeCriterionType.WIN_MARGIN:
+			return firstMatchingGame(
+				team.games,
+				(game) => game.pointsFor - game.pointsAgainst >= threshold
+			)
+
+		case BadgeCriterionType.GAME_TOTAL_POINTS:
+			return firstMatchingGame(
+				team.games,
+				(game) => game.pointsFor + game.pointsAgainst >= threshold
+			)
+
+		case BadgeCriterionType.POINTS_AT_LEAST:
+			return firstMatchingGame(
+				team.games,
+				(game) => game.pointsFor >= threshold
+			)
+
+		case BadgeCriterionType.POINTS_AT_MOST:
+			return firstMatchingGame(
+				team.games,
+				(game) => game.pointsFor <= threshold
+			)
+
+		case BadgeCriterionType.WIN_STREAK:
+			return streakSeason(team.games, true, threshold)
+
+		case BadgeCriterionType.LOSS_STREAK:
+			return streakSeason(team.games, false, threshold)
+
+		case BadgeCriterionType.FIRST_REGISTERED:
+			return season.registrationOrder[0] === team.teamId
+				? season.seasonId
+				: null
+
+		case BadgeCriterionType.LAST_REGISTERED:
+			return season.registrationClosed &&
+				season.registrationOrder.length > 1 &&
+				season.registrationOrder[season.registrationOrder.length - 1] ===
+					team.teamId
+				? season.seasonId
+				: null
+
+		case BadgeCriterionType.SEASONS_PLAYED: {
+			let count = 0
+			for (const entry of registeredSeasons(team, season)) {
+				if (entry.registered) count++
+				if (count >= threshold) return entry.seasonId
+			}
+			return null
+		}
+
+		case BadgeCriterionType.CONSECUTIVE_SEASONS: {
+			let run = 0
+			for (const entry of registeredSeasons(team, season)) {
+				run = entry.registered ? run + 1 : 0
+				if (run >= threshold) return entry.seasonId
+			}
+			return null
+		}
+
+		case BadgeCriterionType.PLACEMENT_IMPROVED: {
+			const change = placementChange(team, season)
+			return change !== null && change < 0 ? season.seasonId : null
+		}
+
+		case BadgeCriterionType.PLACEMENT_DECLINED: {
+			const change = placementChange(team, season)
+			return change !== null && change > 0 ? season.seasonId : null
+		}
+
+		default:
+			return null
+	}
+}
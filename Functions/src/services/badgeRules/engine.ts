@@ -0,0 +1,294 @@
+/**
+ * Badge rules engine
+ *
+ * Loads every badge that carries a criterion, checks it against the games,
+ * team-seasons and registration data of the teams being evaluated, and
+ * awards newly earned badges through `teams/{teamId}/badges/{badgeId}` —
+ * the same path and stats bookkeeping as the manual `awardBadge` callable.
+ */
+
+import { getFirestore, FieldValue } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import {
+	BadgeDocument,
+	Collections,
+	GameDocument,
+	SeasonDocument,
+	TEAM_SEASONS_SUBCOLLECTION,
+	TeamBadgeDocument,
+	TeamSeasonDocument,
+} from '../../types.js'
+import {
+	canonicalTeamIdFromTeamSeasonDoc,
+	teamBadgeRef,
+	teamBadgesCollection,
+	teamRef,
+} from '../../shared/database.js'
+import { hasCountedResult, hasRatedResult } from '../../shared/gameStatus.js'
+import { evaluateCriterion, isGameCriterion } from './criteria.js'
+import {
+	BadgeAward,
+	BadgeEvaluationScope,
+	BadgeRule,
+	SeasonBadgeContext,
+	TeamBadgeContext,
+	TeamGameResult,
+	TeamSeasonHistoryEntry,
+} from './types.js'
+
+export interface EvaluateBadgeRulesOptions {
+	/** Season being evaluated (the scored game's season for game scope) */
+	seasonId: string
+	scope: BadgeEvaluationScope
+	/** Teams to check; defaults to every team in the season */
+	teamIds?: string[]
+	/** Work out the awards without writing them */
+	dryRun?: boolean
+}
+
+export interface BadgeEvaluationResult {
+	/** Badges newly earned (or that would be, for a dry run) */
+	awards: BadgeAward[]
+	teamsEvaluated: number
+	rulesEvaluated: number
+}
+
+/**
+ * Badges with a criterion that applies to the scope
+ */
+async function loadBadgeRules(
+	firestore: FirebaseFirestore.Firestore,
+	scope: BadgeEvaluationScope
+): Promise<BadgeRule[]> {
+	const badgesSnapshot = await firestore.collection(Collections.BADGES).get()
+	return badgesSnapshot.docs.flatMap((doc) => {
+		const badge = doc.data() as BadgeDocument
+		if (!badge.criterion) return []
+		if (scope === 'game' && !isGameCriterion(badge.criterion)) return []
+		return [
+			{ badgeId: doc.id, badgeName: badge.name, criterion: badge.criterion },
+		]
+	})
+}
+
+/**
+ * A team's games with a counted result (forfeits included), oldest first
+ */
+async function loadTeamGames(
+	firestore: FirebaseFirestore.Firestore,
+	teamId: string
+): Promise<TeamGameResult[]> {
+	const ref = teamRef(firestore, teamId)
+	const [homeSnapshot, awaySnapshot] = await Promise.all([
+		firestore.collection(Collections.GAMES).where('home', '==', ref).get(),
+		firestore.collection(Collections.GAMES).where('away', '==', ref).get(),
+	])
+
+	const results: TeamGameResult[] = []
+	const addGames = (
+		snapshot: FirebaseFirestore.QuerySnapshot,
+		isHome: boolean
+	): void => {
+		for (const doc of snapshot.docs) {
+			const game = doc.data() as GameDocument
+			if (!hasCountedResult(game)) {
+				continue
+			}
+			results.push({
+				gameId: doc.id,
+				seasonId: game.season.id,
+				date: game.date.toMillis(),
+				pointsFor: isHome ? game.homeScore : game.awayScore,
+				pointsAgainst: isHome ? game.awayScore : game.homeScore,
+				rated: hasRatedResult(game),
+			})
+		}
+	}
+	addGames(homeSnapshot, true)
+	addGames(awaySnapshot, false)
+
+	return results.sort((a, b) => a.date - b.date)
+}
+
+/**
+ * A team's season participations, keyed by season ID
+ */
+async function loadTeamSeasons(
+	firestore: FirebaseFirestore.Firestore,
+	teamId: string
+): Promise<Map<string, TeamSeasonHistoryEntry>> {
+	const snapshot = await teamRef(firestore, teamId)
+		.collection(TEAM_SEASONS_SUBCOLLECTION)
+		.get()
+	return new Map(
+		snapshot.docs.map((doc) => {
+			const data = doc.data() as TeamSeasonDocument
+			return [
+				doc.id,
+				{
+					seasonId: doc.id,
+					registered: Boolean(data.registered),
+					placement: data.placement ?? null,
+				},
+			]
+		})
+	)
+}
+
+/**
+ * Writes a rule-earned badge, unless the team already has it
+ *
+ * @returns Whether the badge was awarded
+ */
+async function awardBadgeByRule(
+	firestore: FirebaseFirestore.Firestore,
+	award: BadgeAward
+): Promise<boolean> {
+	const badgeRef = firestore.collection(Collections.BADGES).doc(award.badgeId)
+	const teamBadgeDocRef = teamBadgeRef(firestore, award.teamId, award.badgeId)
+
+	return firestore.runTransaction(async (transaction) => {
+		const [badgeDoc, teamBadgeDoc] = await Promise.all([
+			transaction.get(badgeRef),
+			transaction.get(teamBadgeDocRef),
+		])
+		if (!badgeDoc.exists || teamBadgeDoc.exists) {
+			return false
+		}
+
+		const teamBadgeDocument: Omit<TeamBadgeDocument, 'awardedAt'> & {
+			awardedAt: FirebaseFirestore.FieldValue
+		} = {
+			badge: badgeRef,
+			awardedBy: null,
+			awardedAt: FieldValue.serverTimestamp(),
+			seasonId: award.seasonId,
+		}
+		transaction.set(teamBadgeDocRef, teamBadgeDocument)
+
+		if (!(badgeDoc.data() as BadgeDocument).stats) {
+			transaction.update(badgeRef, {
+				stats: {
+					totalTeamsAwarded: 1,
+					lastUpdated: FieldValue.serverTimestamp(),
+				},
+			})
+		} else {
+			transaction.update(badgeRef, {
+				'stats.totalTeamsAwarded': FieldValue.increment(1),
+				'stats.lastUpdated': FieldValue.serverTimestamp(),
+			})
+		}
+
+		return true
+	})
+}
+
+/**
+ * Check badge rules for the teams of a season and award the badges they've
+ * earned
+ */
+export async function evaluateBadgeRules(
+	options: EvaluateBadgeRulesOptions
+): Promise<BadgeEvaluationResult> {
+	const { seasonId, scope, dryRun = false } = options
+	const firestore = getFirestore()
+
+	const rules = await loadBadgeRules(firestore, scope)
+	if (rules.length === 0) {
+		return { awards: [], teamsEvaluated: 0, rulesEvaluated: 0 }
+	}
+
+	const seasonsSnapshot = await firestore
+		.collection(Collections.SEASONS)
+		.orderBy('dateStart', 'asc')
+		.get()
+	const seasonDoc = seasonsSnapshot.docs.find((doc) => doc.id === seasonId)
+	if (!seasonDoc) {
+		throw new Error(`Season not found: ${seasonId}`)
+	}
+	const seasonData = seasonDoc.data() as SeasonDocument
+
+	const teamSeasonsSnapshot = await firestore
+		.collectionGroup(TEAM_SEASONS_SUBCOLLECTION)
+		.where('season', '==', seasonDoc.ref)
+		.get()
+	const teamSeasonDocs =
+		teamSeasonsSnapshot.docs as FirebaseFirestore.QueryDocumentSnapshot<TeamSeasonDocument>[]
+
+	const seasonContext: SeasonBadgeContext = {
+		seasonId,
+		orderedSeasonIds: seasonsSnapshot.docs.map((doc) => doc.id),
+		registrationOrder: teamSeasonDocs
+			.filter((doc) => doc.data().registered && doc.data().registeredDate)
+			.sort(
+				(a, b) =>
+					(a.data().registeredDate?.toMillis() ?? 0) -
+					(b.data().registeredDate?.toMillis() ?? 0)
+			)
+			.map(canonicalTeamIdFromTeamSeasonDoc),
+		registrationClosed: seasonData.registrationEnd.toMillis() <= Date.now(),
+	}
+
+	const teamIds =
+		options.teamIds ?? teamSeasonDocs.map(canonicalTeamIdFromTeamSeasonDoc)
+	const awards: BadgeAward[] = []
+
+	// Teams are checked one at a time to keep reads bounded
+	for (const teamId of teamIds) {
+		const awardedSnapshot = await teamBadgesCollection(firestore, teamId).get()
+		const awardedBadgeIds = new Set(awardedSnapshot.docs.map((doc) => doc.id))
+		const pendingRules = rules.filter(
+			(rule) => !awardedBadgeIds.has(rule.badgeId)
+		)
+		if (pendingRules.length === 0) continue
+
+		const needsGames = pendingRules.some((rule) =>
+			isGameCriterion(rule.criterion)
+		)
+		const needsSeasons = pendingRules.some(
+			(rule) => !isGameCriterion(rule.criterion)
+		)
+		const teamContext: TeamBadgeContext = {
+			teamId,
+			games: needsGames ? await loadTeamGames(firestore, teamId) : [],
+			seasons: needsSeasons
+				? await loadTeamSeasons(firestore, teamId)
+				: new Map(),
+		}
+
+		for (const rule of pendingRules) {
+			const earnedSeasonId = evaluateCriterion(
+				rule.criterion,
+				teamContext,
+				seasonContext
+			)
+			if (!earnedSeasonId) continue
+
+			const award: BadgeAward = {
+				badgeId: rule.badgeId,
+				badgeName: rule.badgeName,
+				teamId,
+				seasonId: earnedSeasonId,
+			}
+			if (dryRun || (await awardBadgeByRule(firestore, award))) {
+				awards.push(award)
+			}
+		}
+	}
+
+	logger.info('Evaluated badge rules', {
+		seasonId,
+		scope,
+		dryRun,
+		teamsEvaluated: teamIds.length,
+		rulesEvaluated: rules.length,
+		awards: awards.map(({ badgeId, teamId }) => ({ badgeId, teamId })),
+	})
+
+	return {
+		awards,
+		teamsEvaluated: teamIds.length,
+		rulesEvaluated: rules.length,
+	}
+}
@@ -0,0 +1,26 @@
+/**
+ * Badge Rules Service
+ *
+ * Evaluates declarative badge criteria and awards badges automatically
+ */
+
+export { evaluateBadgeRules } from './engine.js'
+export {
+	evaluateCriterion,
+	isGameCriterion,
+	validateBadgeCriterion,
+} from './criteria.js'
+
+export type {
+	EvaluateBadgeRulesOptions,
+	BadgeEvaluationResult,
+} from './engine.js'
+export type {
+	BadgeAward,
+	BadgeEvaluationScope,
+	BadgeRule,
+	SeasonBadgeContext,
+	TeamBadgeContext,
+	TeamGameResult,
+	TeamSeasonHistoryEntry,
+} from './types.js'
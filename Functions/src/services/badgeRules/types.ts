@@ -0,0 +1,83 @@
+/**
+ * Type definitions for the badge rules engine
+ */
+
+import { BadgeCriterion } from '../../types.js'
+
+/**
+ * When the engine is being run, which decides the rules it checks
+ * - game: a game was just scored, so only game rules can have changed
+ * - season: a season ended (or an admin asked), so every rule is checked
+ */
+export type BadgeEvaluationScope = 'game' | 'season'
+
+/**
+ * A scored game from one team's point of view
+ */
+export interface TeamGameResult {
+	gameId: string
+	seasonId: string
+	/** Milliseconds since epoch, for ordering */
+	date: number
+	pointsFor: number
+	pointsAgainst: number
+	/**
+	 * Whether the score was played out. A forfeit's score is the season's
+	 * forfeit score, so it counts as a result but not toward score badges.
+	 */
+	rated: boolean
+}
+
+/**
+ * One of the team's season participations
+ */
+export interface TeamSeasonHistoryEntry {
+	seasonId: string
+	registered: boolean
+	placement: number | null
+}
+
+/**
+ * Everything the engine knows about one team
+ */
+export interface TeamBadgeContext {
+	teamId: string
+	/** Scored games in chronological order */
+	games: TeamGameResult[]
+	/** Season participations, keyed by season ID */
+	seasons: Map<string, TeamSeasonHistoryEntry>
+}
+
+/**
+ * Season-wide facts shared by every team being evaluated
+ */
+export interface SeasonBadgeContext {
+	/** Season being evaluated */
+	seasonId: string
+	/** Every season ID, oldest first */
+	orderedSeasonIds: string[]
+	/** Registered team IDs in the order they registered */
+	registrationOrder: string[]
+	/** Whether registration has closed, so the last registered team is final */
+	registrationClosed: boolean
+}
+
+/**
+ * A rule-driven badge ready to check
+ */
+export interface BadgeRule {
+	badgeId: string
+	badgeName: string
+	criterion: BadgeCriterion
+}
+
+/**
+ * A badge a team has earned under its rule
+ */
+export interface BadgeAward {
+	badgeId: string
+	badgeName: string
+	teamId: string
+	/** Season the badge was earned in */
+	seasonId: string
+}
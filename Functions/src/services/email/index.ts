@@ -0,0 +1,16 @@
+/**
+ * Email Service
+ *
+ * Sends the league's transactional emails from typed templates, through
+ * a console/file transport in the emulator and SMTP in production
+ */
+
+export { sendPlayerEmails } from './sender.js'
+export { EMAIL_TEMPLATE_CATEGORIES, renderEmail } from './templates.js'
+export { getEmailTransport } from './transports.js'
+export type {
+	EmailMessage,
+	EmailTemplateData,
+	EmailTemplateName,
+	EmailTransport,
+} from './types.js'
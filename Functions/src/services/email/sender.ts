@@ -0,0 +1,80 @@
+/**
+ * Sends templated emails to players, honoring their email preferences
+ */
+
+import { Firestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { PlayerDocument } from '../../types.js'
+import { playerRef } from '../../shared/database.js'
+import { EMAIL_TEMPLATE_CATEGORIES, renderEmail } from './templates.js'
+import { getEmailTransport } from './transports.js'
+import { EmailTemplateData, EmailTemplateName } from './types.js'
+
+/**
+ * Emails each of the given players from a template.
+ *
+ * Players who turned the template's category off, or who have no email
+ * address, are skipped. Like in-app notifications, email is best-effort:
+ * failures are logged and never thrown.
+ *
+ * @param firestore - Firestore instance
+ * @param playerIds - Players to email; duplicates and empty IDs are ignored
+ * @param template - Template to send
+ * @param data - Template data, shared by every recipient
+ * @returns Number of emails sent
+ */
+export async function sendPlayerEmails<Name extends EmailTemplateName>(
+	firestore: Firestore,
+	playerIds: Iterable<string>,
+	template: Name,
+	data: EmailTemplateData[Name]
+): Promise<number> {
+	const recipientIds = [...new Set(playerIds)].filter(Boolean)
+	if (recipientIds.length === 0) {
+		return 0
+	}
+
+	const category = EMAIL_TEMPLATE_CATEGORIES[template]
+	let sent = 0
+	try {
+		const transport = getEmailTransport()
+		const playerSnaps = await firestore.getAll(
+			...recipientIds.map((playerId) => playerRef(firestore, playerId))
+		)
+
+		for (const playerSnap of playerSnaps) {
+			const player = playerSnap.data() as PlayerDocument | undefined
+			if (!player?.email || player.emailPreferences?.[category] === false) {
+				continue
+			}
+
+			try {
+				await transport.send(
+					renderEmail(template, data, {
+						email: player.email,
+						firstname: player.firstname,
+					})
+				)
+				sent++
+			} catch (error) {
+				logger.error('Error sending email:', {
+					template,
+					playerId: playerSnap.id,
+					transport: transport.name,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				})
+			}
+		}
+	} catch (error) {
+		logger.error('Error preparing emails:', {
+			template,
+			recipients: recipientIds.length,
+			error: error instanceof Error ? error.message : 'Unknown error',
+		})
+	}
+
+	if (sent > 0) {
+		logger.info(`Sent ${sent} ${template} email(s)`, { template, sent })
+	}
+	return sent
+}
@@ -0,0 +1,170 @@
+/**
+ * League email templates
+ *
+ * Each template renders its typed data into a subject, paragraphs and one
+ * call to action. `renderEmail` wraps those in the shared plain-text and
+ * HTML layout.
+ */
+
+import { EmailCategory } from '../../types.js'
+import { EMAIL_CONFIG, GAME_CONFIG } from '../../config/constants.js'
+import {
+	EmailMessage,
+	EmailTemplateData,
+	EmailTemplateName,
+	RenderedEmail,
+} from './types.js'
+
+/**
+ * The preference category each template belongs to, so players can turn
+ * categories off from their profile
+ */
+export const EMAIL_TEMPLATE_CATEGORIES: Record<
+	EmailTemplateName,
+	EmailCategory
+> = {
+	offerReceived: EmailCategory.OFFERS,
+	offerAccepted: EmailCategory.OFFERS,
+	teamRegistered: EmailCategory.TEAM_REGISTRATION,
+	registrationLock: EmailCategory.TEAM_REGISTRATION,
+	gameRescheduled: EmailCategory.SCHEDULE,
+	paymentReceipt: EmailCategory.PAYMENTS,
+}
+
+const formatGameDate = (date: Date): string =>
+	date.toLocaleString('en-US', {
+		timeZone: GAME_CONFIG.TIME_ZONE,
+		weekday: 'long',
+		month: 'long',
+		day: 'numeric',
+		hour: 'numeric',
+		minute: '2-digit',
+	})
+
+const formatAmount = (amount: number, currency: string | null): string =>
+	new Intl.NumberFormat('en-US', {
+		style: 'currency',
+		currency: (currency ?? 'usd').toUpperCase(),
+	}).format(amount / 100)
+
+const TEMPLATES: {
+	[Name in EmailTemplateName]: (data: EmailTemplateData[Name]) => RenderedEmail
+} = {
+	offerReceived: (data) =>
+		data.isInvitation
+			? {
+					subject: `${data.teamName} invited you to join their team`,
+					paragraphs: [
+						`${data.teamName} would like you to join their team this season.`,
+						'Accept or decline the invitation from your team page before it expires.',
+					],
+					action: { label: 'View invitation', link: data.link },
+				}
+			: {
+					subject: `${data.playerName} asked to join ${data.teamName}`,
+					paragraphs: [
+						`${data.playerName} would like to join ${data.teamName} this season.`,
+						'As a captain, you can accept or decline the request from your team page before it expires.',
+					],
+					action: { label: 'View request', link: data.link },
+				},
+	offerAccepted: (data) =>
+		data.isInvitation
+			? {
+					subject: `${data.playerName} joined ${data.teamName}`,
+					paragraphs: [
+						`${data.playerName} accepted your invitation and is now on ${data.teamName}.`,
+					],
+					action: { label: 'View roster', link: data.link },
+				}
+			: {
+					subject: `Welcome to ${data.teamName}`,
+					paragraphs: [
+						`${data.teamName} accepted your request to join. You're on the team!`,
+					],
+					action: { label: 'View your team', link: data.link },
+				},
+	teamRegistered: (data) => ({
+		subject: `${data.teamName} is registered for ${data.seasonName}`,
+		paragraphs: [
+			data.fromWaitlist
+				? `A spot opened up and ${data.teamName} has moved off the waitlist. Your team is now registered for ${data.seasonName}.`
+				: `${data.teamName} has enough fully registered players and is now registered for ${data.seasonName}.`,
+			'Keep an eye on the schedule for your first game.',
+		],
+		action: { label: 'View your team', link: data.link },
+	}),
+	registrationLock: (data) => ({
+		subject: `${data.teamName} is on the waitlist for ${data.seasonName}`,
+		paragraphs: [
+			`${data.seasonName} has reached its limit of registered teams, so ${data.teamName} has been placed on the waitlist${data.waitlistPosition ? ` at position ${data.waitlistPosition}` : ''}.`,
+			"If a registered team drops out, the next team on the waitlist is registered automatically and we'll let you know.",
+		],
+		action: { label: 'View your team', link: data.link },
+	}),
+	gameRescheduled: (data) => ({
+		subject: `${data.teamName}'s game has been rescheduled`,
+		paragraphs: [
+			`${data.teamName}'s game${data.opponentName ? ` against ${data.opponentName}` : ''} has moved.`,
+			`Was: ${formatGameDate(data.previousDate)}`,
+			`Now: ${formatGameDate(data.newDate)} on Field ${data.field}`,
+		],
+		action: { label: 'View schedule', link: data.link },
+	}),
+	paymentReceipt: (data) => ({
+		subject: `Your ${data.seasonName} registration receipt`,
+		paragraphs: [
+			`Thanks for registering for ${data.seasonName}!`,
+			data.amountTotal === null
+				? 'Your payment has been received.'
+				: `We received your payment of ${formatAmount(data.amountTotal, data.currency)}.`,
+			`Receipt reference: ${data.sessionId}`,
+			"If you haven't signed your waiver yet, look out for a separate email from Dropbox Sign.",
+		],
+		action: { label: 'View your profile', link: data.link },
+	}),
+}
+
+const escapeHtml = (value: string): string =>
+	value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;')
+
+/**
+ * Renders a template for one recipient
+ *
+ * @param template - Template to render
+ * @param data - Template data
+ * @param recipient - Address and first name of the recipient
+ */
+export function renderEmail<Name extends EmailTemplateName>(
+	template: Name,
+	data: EmailTemplateData[Name],
+	recipient: { email: string; firstname: string }
+): EmailMessage {
+	const { subject, paragraphs, action } = TEMPLATES[template](data)
+	const actionUrl = `${EMAIL_CONFIG.SITE_URL}${action.link}`
+	const preferencesUrl = `${EMAIL_CONFIG.SITE_URL}/profile`
+	const greeting = `Hi ${recipient.firstname},`
+	const footer =
+		'You are receiving this because you play in Minneapolis Winter League.'
+
+	const text = [
+		greeting,
+		...paragraphs,
+		`${action.label}: ${actionUrl}`,
+		`${footer} Manage your email preferences at ${preferencesUrl}`,
+	].join('\n\n')
+
+	const html = [
+		`<p>${escapeHtml(greeting)}</p>`,
+		...paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+		`<p><a href="${actionUrl}">${escapeHtml(action.label)}</a></p>`,
+		`<p style="color:#6b7280;font-size:12px">${escapeHtml(footer)} <a href="${preferencesUrl}">Manage your email preferences</a>.</p>`,
+	].join('\n')
+
+	return { to: recipient.email, subject, text, html }
+}
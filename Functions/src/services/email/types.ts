@@ -0,0 +1,84 @@
+/**
+ * Type definitions for the email service
+ */
+
+/**
+ * A fully rendered email, ready for a transport
+ */
+export interface EmailMessage {
+	to: string
+	subject: string
+	text: string
+	html: string
+}
+
+/**
+ * Delivers rendered emails. Implementations throw when delivery fails.
+ */
+export interface EmailTransport {
+	/** Name used in logs */
+	readonly name: string
+	send(message: EmailMessage): Promise<void>
+}
+
+/**
+ * Data each email template is rendered from, keyed by template name.
+ * Links are in-app paths, e.g. `/manage`.
+ */
+export interface EmailTemplateData {
+	offerReceived: {
+		isInvitation: boolean
+		playerName: string
+		teamName: string
+		link: string
+	}
+	offerAccepted: {
+		isInvitation: boolean
+		playerName: string
+		teamName: string
+		link: string
+	}
+	teamRegistered: {
+		teamName: string
+		seasonName: string
+		/** Whether the team was promoted off the waitlist */
+		fromWaitlist: boolean
+		link: string
+	}
+	registrationLock: {
+		teamName: string
+		seasonName: string
+		/** 1-based waitlist position, if known */
+		waitlistPosition: number | null
+		link: string
+	}
+	gameRescheduled: {
+		teamName: string
+		opponentName: string | null
+		previousDate: Date
+		newDate: Date
+		field: number
+		link: string
+	}
+	paymentReceipt: {
+		seasonName: string
+		/** Amount charged, in the smallest currency unit */
+		amountTotal: number | null
+		currency: string | null
+		sessionId: string
+		link: string
+	}
+}
+
+export type EmailTemplateName = keyof EmailTemplateData
+
+/**
+ * Subject and body of a rendered template, before it is addressed
+ */
+export interface RenderedEmail {
+	subject: string
+	/** Plain-text paragraphs; the HTML body is built from these */
+	paragraphs: string[]
+	/** Call to action shown after the paragraphs */
+	action: { label: string; link: string }
+}
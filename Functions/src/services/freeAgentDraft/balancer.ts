@@ -0,0 +1,258 @@
+/**
+ * Free-Agent Draft Balancer
+ *
+ * Places a season's free agents on teams with open roster spots so that team
+ * strength (total TrueSkill μ) comes out as even as possible:
+ *
+ * 1. Free agents who asked to play together form a group, placed as a unit.
+ *    A group that asked for a player already on a team goes to that team
+ *    when it has room.
+ * 2. Groups are placed strongest first, each on the weakest team with room
+ *    for the whole group. A group that fits nowhere is split up.
+ * 3. Single free agents on different teams are then swapped while a swap
+ *    evens out team totals further.
+ */
+
+import {
+	DraftAssignment,
+	DraftFreeAgent,
+	DraftTeamSummary,
+	FreeAgentDraftInput,
+	FreeAgentDraftResult,
+	UnmetTeammateRequest,
+} from './types.js'
+
+/** Upper bound on improvement passes over the single free agents */
+const MAX_SWAP_PASSES = 50
+
+/**
+ * Free agents placed together, and the teams they asked to join
+ */
+interface DraftGroup {
+	members: DraftFreeAgent[]
+	totalMu: number
+	/** Teams with a rostered player one of the members asked for */
+	anchorTeamIds: Set<string>
+}
+
+/**
+ * Running per-team state while placing groups
+ */
+interface TeamState {
+	teamId: string
+	rosterSize: number
+	totalMu: number
+}
+
+/**
+ * Groups free agents connected by teammate requests (in either direction)
+ */
+function buildGroups(
+	freeAgents: DraftFreeAgent[],
+	teamIdByRosteredPlayer: Map<string, string>
+): DraftGroup[] {
+	const byId = new Map(freeAgents.map((agent) => [agent.playerId, agent]))
+	const parent = new Map(
+		freeAgents.map((agent) => [agent.playerId, agent.playerId])
+	)
+
+	const find = (id: string): string => {
+		let root = id
+		while (parent.get(root) !== root) root = parent.get(root) as string
+		parent.set(id, root)
+		return root
+	}
+
+	for (const agent of freeAgents) {
+		for (const teammateId of agent.requestedTeammateIds) {
+			if (byId.has(teammateId)) {
+				parent.set(find(agent.playerId), find(teammateId))
+			}
+		}
+	}
+
+	const groups = new Map<string, DraftGroup>()
+	for (const agent of freeAgents) {
+		const root = find(agent.playerId)
+		const group = groups.get(root) ?? {
+			members: [],
+			totalMu: 0,
+			anchorTeamIds: new Set<string>(),
+		}
+		group.members.push(agent)
+		group.totalMu += agent.mu
+		for (const teammateId of agent.requestedTeammateIds) {
+			const teamId = teamIdByRosteredPlayer.get(teammateId)
+			if (teamId) group.anchorTeamIds.add(teamId)
+		}
+		groups.set(root, group)
+	}
+
+	return Array.from(groups.values())
+}
+
+/**
+ * Splits a group into single-player groups, keeping each player's own anchors
+ */
+function splitGroup(
+	group: DraftGroup,
+	teamIdByRosteredPlayer: Map<string, string>
+): DraftGroup[] {
+	return group.members.map((member) => ({
+		members: [member],
+		totalMu: member.mu,
+		anchorTeamIds: new Set(
+			member.requestedTeammateIds
+				.map((teammateId) => teamIdByRosteredPlayer.get(teammateId))
+				.filter((teamId): teamId is string => Boolean(teamId))
+		),
+	}))
+}
+
+/**
+ * Sum of squared team totals; lower means more even teams
+ */
+function spread(teams: TeamState[]): number {
+	return teams.reduce((sum, team) => sum + team.totalMu * team.totalMu, 0)
+}
+
+/**
+ * Proposes team assignments for free agents
+ */
+export function proposeFreeAgentDraft(
+	input: FreeAgentDraftInput
+): FreeAgentDraftResult {
+	const { freeAgents, teams, maxRosterSize } = input
+
+	const teamIdByRosteredPlayer = new Map<string, string>()
+	for (const team of teams) {
+		for (const playerId of team.rosterPlayerIds) {
+			teamIdByRosteredPlayer.set(playerId, team.teamId)
+		}
+	}
+
+	const teamStates: TeamState[] = teams.map((team) => ({
+		teamId: team.teamId,
+		rosterSize: team.rosterPlayerIds.length,
+		totalMu: team.totalMu,
+	}))
+	const stateById = new Map(teamStates.map((team) => [team.teamId, team]))
+	const capacity = (team: TeamState): number => maxRosterSize - team.rosterSize
+
+	// Anchored groups first, then bigger groups, then stronger groups
+	const queue = buildGroups(freeAgents, teamIdByRosteredPlayer).sort(
+		(a, b) =>
+			Number(b.anchorTeamIds.size > 0) - Number(a.anchorTeamIds.size > 0) ||
+			b.members.length - a.members.length ||
+			b.totalMu - a.totalMu
+	)
+
+	const teamIdByAgent = new Map<string, string>()
+	const unassignedPlayerIds: string[] = []
+
+	while (queue.length > 0) {
+		const group = queue.shift() as DraftGroup
+		const size = group.members.length
+		const open = teamStates.filter((team) => capacity(team) >= size)
+		const anchored = open.filter((team) => group.anchorTeamIds.has(team.teamId))
+		const candidates = anchored.length > 0 ? anchored : open
+
+		if (candidates.length === 0) {
+			if (size > 1) {
+				// Place the members one at a time, strongest first
+				queue.unshift(
+					...splitGroup(group, teamIdByRosteredPlayer).sort(
+						(a, b) => b.totalMu - a.totalMu
+					)
+				)
+			} else {
+				unassignedPlayerIds.push(group.members[0].playerId)
+			}
+			continue
+		}
+
+		const team = candidates.reduce((weakest, candidate) =>
+			candidate.totalMu < weakest.totalMu ? candidate : weakest
+		)
+		team.rosterSize += size
+		team.totalMu += group.totalMu
+		for (const member of group.members) {
+			teamIdByAgent.set(member.playerId, team.teamId)
+		}
+	}
+
+	// Swap single, unanchored free agents between teams while it helps
+	const grouped = new Set(
+		freeAgents
+			.filter(
+				(agent) =>
+					agent.requestedTeammateIds.length > 0 ||
+					freeAgents.some((other) =>
+						other.requestedTeammateIds.includes(agent.playerId)
+					)
+			)
+			.map((agent) => agent.playerId)
+	)
+	const swappable = freeAgents.filter(
+		(agent) => teamIdByAgent.has(agent.playerId) && !grouped.has(agent.playerId)
+	)
+
+	for (let pass = 0; pass < MAX_SWAP_PASSES; pass++) {
+		let improved = false
+		for (let i = 0; i < swappable.length; i++) {
+			for (let j = i + 1; j < swappable.length; j++) {
+				const a = swappable[i]
+				const b = swappable[j]
+				const teamA = stateById.get(teamIdByAgent.get(a.playerId) as string)
+				const teamB = stateById.get(teamIdByAgent.get(b.playerId) as string)
+				if (!teamA || !teamB || teamA === teamB) continue
+
+				const before = spread([teamA, teamB])
+				const delta = b.mu - a.mu
+				const after =
+					Math.pow(teamA.totalMu + delta, 2) +
+					Math.pow(teamB.totalMu - delta, 2)
+				if (after < before - 1e-9) {
+					teamA.totalMu += delta
+					teamB.totalMu -= delta
+					teamIdByAgent.set(a.playerId, teamB.teamId)
+					teamIdByAgent.set(b.playerId, teamA.teamId)
+					improved = true
+				}
+			}
+		}
+		if (!improved) break
+	}
+
+	const assignments: DraftAssignment[] = freeAgents
+		.filter((agent) => teamIdByAgent.has(agent.playerId))
+		.map((agent) => ({
+			playerId: agent.playerId,
+			teamId: teamIdByAgent.get(agent.playerId) as string,
+		}))
+
+	const unmetRequests: UnmetTeammateRequest[] = []
+	for (const agent of freeAgents) {
+		const teamId = teamIdByAgent.get(agent.playerId)
+		for (const teammateId of agent.requestedTeammateIds) {
+			const teammateTeamId =
+				teamIdByAgent.get(teammateId) ?? teamIdByRosteredPlayer.get(teammateId)
+			if (!teamId || teamId !== teammateTeamId) {
+				unmetRequests.push({ playerId: agent.playerId, teammateId })
+			}
+		}
+	}
+
+	const teamSummaries: DraftTeamSummary[] = teams.map((team) => {
+		const state = stateById.get(team.teamId) as TeamState
+		return {
+			teamId: team.teamId,
+			rosterSizeBefore: team.rosterPlayerIds.length,
+			rosterSizeAfter: state.rosterSize,
+			totalMuBefore: team.totalMu,
+			totalMuAfter: state.totalMu,
+		}
+	})
+
+	return { assignments, unassignedPlayerIds, teamSummaries, unmetRequests }
+}
@@ -0,0 +1,18 @@
+/**
+ * Free-Agent Draft Service
+ *
+ * Proposes team assignments for a season's free agents that even out team
+ * strength while respecting roster limits and teammate requests
+ */
+
+export { proposeFreeAgentDraft } from './balancer.js'
+
+export type {
+	DraftFreeAgent,
+	DraftTeam,
+	FreeAgentDraftInput,
+	DraftAssignment,
+	DraftTeamSummary,
+	UnmetTeammateRequest,
+	FreeAgentDraftResult,
+} from './types.js'
@@ -0,0 +1,86 @@
+/**
+ * Free-Agent Draft Type Definitions
+ *
+ * Types for proposing team assignments for a season's free agents
+ */
+
+/**
+ * A player without a team this season
+ */
+export interface DraftFreeAgent {
+	/** Player document ID */
+	playerId: string
+	/** TrueSkill μ from the rankings (the initial μ for unranked players) */
+	mu: number
+	/** Player IDs this player asked to be placed with */
+	requestedTeammateIds: string[]
+}
+
+/**
+ * A team that can take free agents
+ */
+export interface DraftTeam {
+	/** Team document ID */
+	teamId: string
+	/** Player IDs already on the team's season roster */
+	rosterPlayerIds: string[]
+	/** Sum of the rostered players' TrueSkill μ */
+	totalMu: number
+}
+
+/**
+ * Input to the free-agent draft
+ */
+export interface FreeAgentDraftInput {
+	freeAgents: DraftFreeAgent[]
+	teams: DraftTeam[]
+	/** Most players a team may have after the draft */
+	maxRosterSize: number
+}
+
+/**
+ * A free agent placed on a team
+ */
+export interface DraftAssignment {
+	playerId: string
+	teamId: string
+}
+
+/**
+ * Per-team effect of the draft
+ */
+export interface DraftTeamSummary {
+	teamId: string
+	/** Roster size before the draft */
+	rosterSizeBefore: number
+	/** Roster size after the draft */
+	rosterSizeAfter: number
+	/** Total μ before the draft */
+	totalMuBefore: number
+	/** Total μ after the draft */
+	totalMuAfter: number
+}
+
+/**
+ * A teammate request the proposal does not honor
+ */
+export interface UnmetTeammateRequest {
+	/** Free agent who made the request */
+	playerId: string
+	/** Player they asked to be placed with */
+	teammateId: string
+}
+
+/**
+ * Result of the free-agent draft
+ */
+export interface FreeAgentDraftResult {
+	/** Proposed placements, one per assigned free agent */
+	assignments: DraftAssignment[]
+	/** Free agents left over because every team is full */
+	unassignedPlayerIds: string[]
+	/** Before/after balance for every team */
+	teamSummaries: DraftTeamSummary[]
+	/** Teammate requests that could not be kept together */
+	unmetRequests: UnmetTeammateRequest[]
+}
@@ -0,0 +1,12 @@
+/**
+ * Game Predictions Service
+ *
+ * Stores a pre-game win probability on each upcoming game from the player
+ * rankings, and flags upsets once games are scored
+ */
+
+export {
+	refreshGamePrediction,
+	refreshUpcomingPredictions,
+} from './predictor.js'
+export { isUpset, recordPredictionOutcome } from './outcome.js'
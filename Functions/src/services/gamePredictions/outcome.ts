@@ -0,0 +1,52 @@
+/**
+ * Prediction outcomes
+ *
+ * Records whether the underdog won once a predicted game is scored.
+ */
+
+import { getFirestore } from 'firebase-admin/firestore'
+import { Collections, GameDocument, GameStatus } from '../../types.js'
+import { getGameStatus } from '../../shared/gameStatus.js'
+
+/**
+ * Whether a game's result was an upset, or null when it can't be called
+ * (not scored, forfeited, tied, or the teams were predicted dead even)
+ */
+export function isUpset(game: GameDocument): boolean | null {
+	const { prediction, homeScore, awayScore } = game
+	if (
+		!prediction ||
+		getGameStatus(game) !== GameStatus.FINAL ||
+		homeScore === null ||
+		awayScore === null ||
+		homeScore === awayScore ||
+		prediction.homeWinProbability === 0.5
+	) {
+		return null
+	}
+
+	const homeFavored = prediction.homeWinProbability > 0.5
+	const homeWon = homeScore > awayScore
+	return homeFavored !== homeWon
+}
+
+/**
+ * Updates the game's `prediction.upset` flag to match its current score
+ *
+ * @returns Whether the game was updated
+ */
+export async function recordPredictionOutcome(
+	gameId: string,
+	game: GameDocument
+): Promise<boolean> {
+	if (!game.prediction) return false
+
+	const upset = isUpset(game)
+	if (game.prediction.upset === upset) return false
+
+	await getFirestore()
+		.collection(Collections.GAMES)
+		.doc(gameId)
+		.update({ 'prediction.upset': upset })
+	return true
+}
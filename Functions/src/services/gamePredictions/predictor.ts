@@ -0,0 +1,222 @@
+/**
+ * Pre-game win probabilities
+ *
+ * Rates each side of a game by the live TrueSkill ratings of the team's
+ * season roster and stores the resulting win probability on the game.
+ */
+
+import { FieldValue, getFirestore, Timestamp } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import {
+	Collections,
+	GameDocument,
+	GameWinPrediction,
+	PlayerRankingDocument,
+	TeamRosterDocument,
+} from '../../types.js'
+import { teamSeasonRef } from '../../shared/database.js'
+import {
+	DEFAULT_RANKINGS_PARAMETERS,
+	loadCheckpoint,
+	matchQuality,
+	TRUESKILL_CONSTANTS,
+	winProbability,
+	type TrueSkillRating,
+} from '../playerRankings/index.js'
+
+/** Max writes per batch (Firestore limit is 500) */
+const BATCH_SIZE = 400
+
+/** Probabilities closer than this are treated as unchanged */
+const PROBABILITY_TOLERANCE = 0.0005
+
+/**
+ * Roster ratings keyed by `${teamId}/${seasonId}`, shared across the games
+ * in one refresh
+ */
+type RosterRatingsCache = Map<string, Promise<TrueSkillRating[]>>
+
+/**
+ * Loads the TrueSkill ratings of a team's season roster. Players without a
+ * ranking yet are rated as new players.
+ */
+async function loadRosterRatings(
+	teamId: string,
+	seasonId: string
+): Promise<TrueSkillRating[]> {
+	const firestore = getFirestore()
+	const rosterSnapshot = await teamSeasonRef(firestore, teamId, seasonId)
+		.collection('roster')
+		.get()
+	if (rosterSnapshot.empty) return []
+
+	const rankingRefs = rosterSnapshot.docs.map((doc) =>
+		firestore
+			.collection(Collections.RANKINGS)
+			.doc((doc.data() as TeamRosterDocument).player.id)
+	)
+	const rankingDocs = await firestore.getAll(...rankingRefs)
+
+	return rankingDocs.map((doc) => {
+		const ranking = doc.data() as PlayerRankingDocument | undefined
+		return {
+			mu: ranking?.rating ?? TRUESKILL_CONSTANTS.INITIAL_MU,
+			sigma: ranking?.sigma ?? TRUESKILL_CONSTANTS.INITIAL_SIGMA,
+		}
+	})
+}
+
+function cachedRosterRatings(
+	cache: RosterRatingsCache,
+	teamId: string,
+	seasonId: string
+): Promise<TrueSkillRating[]> {
+	const key = `${teamId}/${seasonId}`
+	let ratings = cache.get(key)
+	if (!ratings) {
+		ratings = loadRosterRatings(teamId, seasonId)
+		cache.set(key, ratings)
+	}
+	return ratings
+}
+
+/**
+ * Performance variance the live rankings were calculated with
+ */
+async function loadLiveBeta(): Promise<number> {
+	const checkpoint = await loadCheckpoint()
+	return checkpoint?.parameters?.beta ?? DEFAULT_RANKINGS_PARAMETERS.beta
+}
+
+/**
+ * Computes a game's pre-game prediction
+ *
+ * @returns The prediction, or null when a team is not yet known or has an
+ * empty roster
+ */
+async function computeGamePrediction(
+	game: GameDocument,
+	beta: number,
+	cache: RosterRatingsCache
+): Promise<GameWinPrediction | null> {
+	if (!game.home || !game.away) return null
+
+	const [home, away] = await Promise.all([
+		cachedRosterRatings(cache, game.home.id, game.season.id),
+		cachedRosterRatings(cache, game.away.id, game.season.id),
+	])
+	if (home.length === 0 || away.length === 0) return null
+
+	return {
+		homeWinProbability: winProbability(home, away, beta),
+		matchQuality: matchQuality(home, away, beta),
+		homePlayers: home.length,
+		awayPlayers: away.length,
+		computedAt: Timestamp.now(),
+		upset: null,
+	}
+}
+
+/**
+ * Whether a game is still ahead, so its prediction may be updated
+ */
+function isUpcoming(game: GameDocument): boolean {
+	return (
+		game.homeScore === null &&
+		game.awayScore === null &&
+		game.date.toMillis() > Date.now()
+	)
+}
+
+/**
+ * The update to write for a game's new prediction, or null when nothing
+ * changed
+ */
+function predictionUpdate(
+	game: GameDocument,
+	prediction: GameWinPrediction | null
+): { prediction: GameWinPrediction | FieldValue } | null {
+	if (!prediction) {
+		return game.prediction ? { prediction: FieldValue.delete() } : null
+	}
+
+	const existing = game.prediction
+	if (
+		existing &&
+		Math.abs(existing.homeWinProbability - prediction.homeWinProbability) <
+			PROBABILITY_TOLERANCE &&
+		existing.homePlayers === prediction.homePlayers &&
+		existing.awayPlayers === prediction.awayPlayers
+	) {
+		return null
+	}
+
+	return { prediction }
+}
+
+/**
+ * Recomputes one upcoming game's prediction, e.g. after it was created or
+ * its teams or date changed. Games that have started keep their prediction.
+ *
+ * @returns Whether the game was updated
+ */
+export async function refreshGamePrediction(
+	gameId: string,
+	game: GameDocument
+): Promise<boolean> {
+	if (!isUpcoming(game)) return false
+
+	const beta = await loadLiveBeta()
+	const prediction = await computeGamePrediction(game, beta, new Map())
+	const update = predictionUpdate(game, prediction)
+	if (!update) return false
+
+	await getFirestore().collection(Collections.GAMES).doc(gameId).update(update)
+	return true
+}
+
+/**
+ * Recomputes the prediction of every upcoming game from the current
+ * rankings and rosters
+ *
+ * @returns Number of games updated
+ */
+export async function refreshUpcomingPredictions(): Promise<number> {
+	const firestore = getFirestore()
+	const gamesSnapshot = await firestore
+		.collection(Collections.GAMES)
+		.where('date', '>', Timestamp.now())
+		.get()
+
+	const beta = await loadLiveBeta()
+	const cache: RosterRatingsCache = new Map()
+	const updates: {
+		ref: FirebaseFirestore.DocumentReference
+		data: { prediction: GameWinPrediction | FieldValue }
+	}[] = []
+
+	for (const doc of gamesSnapshot.docs) {
+		const game = doc.data() as GameDocument
+		if (!isUpcoming(game)) continue
+
+		const prediction = await computeGamePrediction(game, beta, cache)
+		const update = predictionUpdate(game, prediction)
+		if (update) {
+			updates.push({ ref: doc.ref, data: update })
+		}
+	}
+
+	for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+		const batch = firestore.batch()
+		updates
+			.slice(i, i + BATCH_SIZE)
+			.forEach(({ ref, data }) => batch.update(ref, data))
+		await batch.commit()
+	}
+
+	logger.info('Refreshed upcoming game predictions', {
+		upcomingGames: gamesSnapshot.size,
+		updated: updates.length,
+	})
+	return updates.length
+}
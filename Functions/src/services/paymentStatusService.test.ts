@@ -0,0 +1,309 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+import { Timestamp } from 'firebase-admin/firestore'
+import { PaymentDocument, PaymentStatus } from '../types.js'
+import {
+	applyPaymentStatusChange,
+	disputeClosed,
+	disputeOpened,
+	resolvePaymentSeasonId,
+} from './paymentStatusService.js'
+import { updateTeamRegistrationStatus } from './teamRegistrationService.js'
+
+type Data = Record<string, unknown>
+
+// Minimal path-keyed Firestore: enough for the reads and writes the service
+// makes inside its transaction
+const store = new Map<string, Data>()
+
+const docRef = (path: string) => ({
+	path,
+	collection: (name: string) => collectionRef(`${path}/${name}`),
+})
+const collectionRef = (path: string) => ({
+	path,
+	doc: (id: string) => docRef(`${path}/${id}`),
+})
+const snapshot = (path: string) => ({
+	id: path.split('/').pop(),
+	exists: store.has(path),
+	data: () => store.get(path),
+})
+
+const fakeFirestore = {
+	collection: collectionRef,
+	runTransaction: async (
+		fn: (transaction: unknown) => Promise<unknown>
+	): Promise<unknown> =>
+		fn({
+			get: async (ref: { path: string; doc?: unknown }) =>
+				ref.doc
+					? {
+							docs: [...store.keys()]
+								.filter(
+									(key) =>
+										key.startsWith(`${ref.path}/`) &&
+										!key.slice(ref.path.length + 1).includes('/')
+								)
+								.map(snapshot),
+						}
+					: snapshot(ref.path),
+			update: (ref: { path: string }, data: Data) => {
+				store.set(ref.path, { ...store.get(ref.path), ...data })
+			},
+		}),
+}
+
+vi.mock('firebase-admin/firestore', async (importOriginal) => ({
+	...(await importOriginal<typeof import('firebase-admin/firestore')>()),
+	getFirestore: () => fakeFirestore,
+}))
+vi.mock('firebase-functions/v2', () => ({
+	logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+vi.mock('./teamRegistrationService.js', () => ({
+	updateTeamRegistrationStatus: vi.fn(),
+}))
+
+const PAYMENT_PATH = 'stripe/player-1/payments/cs_1'
+const PLAYER_SEASON_PATH = 'players/player-1/playerSeasons/season-2'
+const dispute = { id: 'dp_1', status: 'needs_response', reason: 'fraudulent' }
+
+const at = (iso: string) => Timestamp.fromDate(new Date(iso))
+
+const payment = (overrides: Partial<PaymentDocument> = {}) =>
+	({
+		sessionId: 'cs_1',
+		status: 'paid',
+		amountTotal: 5000,
+		currency: 'usd',
+		customerEmail: null,
+		seasonId: 'season-2',
+		stripeCreated: at('2026-02-10T12:00:00Z'),
+		metadata: null,
+		...overrides,
+	}) as PaymentDocument
+
+const season = (registrationStart: string, dateEnd: string) => ({
+	registrationStart: at(registrationStart),
+	dateEnd: at(dateEnd),
+})
+
+const seasonDocs = (seasons: Record<string, Data>) =>
+	Object.entries(seasons).map(([id, data]) => ({
+		id,
+		data: () => data,
+	})) as unknown as FirebaseFirestore.QueryDocumentSnapshot[]
+
+const paymentDoc = () => store.get(PAYMENT_PATH) as PaymentDocument
+const playerSeasonDoc = () => store.get(PLAYER_SEASON_PATH)
+
+describe('resolvePaymentSeasonId', () => {
+	const seasons = seasonDocs({
+		'season-1': season('2025-08-01T00:00:00Z', '2026-03-01T00:00:00Z'),
+		'season-2': season('2026-01-15T00:00:00Z', '2026-08-01T00:00:00Z'),
+	})
+
+	test('uses the season stored on the payment', () => {
+		expect(resolvePaymentSeasonId(payment(), seasons)).toBe('season-2')
+	})
+
+	test('falls back to the checkout metadata', () => {
+		expect(
+			resolvePaymentSeasonId(
+				payment({ seasonId: undefined, metadata: { seasonId: 'season-1' } }),
+				seasons
+			)
+		).toBe('season-1')
+	})
+
+	test('picks the most recently opened registration for an older payment', () => {
+		expect(
+			resolvePaymentSeasonId(payment({ seasonId: undefined }), seasons)
+		).toBe('season-2')
+	})
+
+	test('matches nothing outside every season', () => {
+		expect(
+			resolvePaymentSeasonId(
+				payment({
+					seasonId: undefined,
+					stripeCreated: at('2025-01-01T00:00:00Z'),
+				}),
+				seasons
+			)
+		).toBeNull()
+	})
+})
+
+describe('dispute resolvers', () => {
+	test('an opened dispute saves the status and paid flag it replaces', () => {
+		expect(
+			disputeOpened(dispute)(payment({ status: 'partially_refunded' }), false)
+		).toEqual({
+			status: 'disputed',
+			dispute: {
+				...dispute,
+				previousStatus: 'partially_refunded',
+				previousPaid: false,
+			},
+			paid: false,
+		})
+	})
+
+	test('a repeated opened event keeps the state saved the first time', () => {
+		const disputed = payment({
+			status: 'disputed',
+			dispute: { ...dispute, previousStatus: 'paid', previousPaid: true },
+		})
+
+		expect(disputeOpened(dispute)(disputed, false).dispute).toMatchObject({
+			previousStatus: 'paid',
+			previousPaid: true,
+		})
+	})
+
+	test('a won dispute restores the saved status and paid flag', () => {
+		const disputed = payment({
+			status: 'disputed',
+			dispute: { ...dispute, previousStatus: 'paid', previousPaid: false },
+		})
+
+		expect(
+			disputeClosed({ ...dispute, status: 'won' })(disputed, false)
+		).toMatchObject({ status: 'paid', paid: false })
+	})
+
+	test.each<PaymentStatus>(['refunded', 'partially_refunded'])(
+		'a won dispute never marks a %s payment paid',
+		(previousStatus) => {
+			const disputed = payment({
+				status: 'disputed',
+				dispute: { ...dispute, previousStatus, previousPaid: true },
+			})
+
+			expect(
+				disputeClosed({ ...dispute, status: 'won' })(disputed, false)
+			).toMatchObject({ status: previousStatus, paid: false })
+		}
+	)
+
+	test('a refund made during the dispute outlasts it', () => {
+		const refunded = payment({
+			status: 'refunded',
+			dispute: { ...dispute, previousStatus: 'paid', previousPaid: true },
+		})
+
+		expect(
+			disputeClosed({ ...dispute, status: 'won' })(refunded, false)
+		).toMatchObject({ status: 'refunded', paid: false })
+	})
+
+	test('a lost dispute leaves the player unpaid', () => {
+		expect(
+			disputeClosed({ ...dispute, status: 'lost' })(
+				payment({ status: 'disputed' }),
+				false
+			)
+		).toMatchObject({ status: 'dispute_lost', paid: false })
+	})
+})
+
+describe('applyPaymentStatusChange', () => {
+	beforeEach(() => {
+		store.clear()
+		vi.mocked(updateTeamRegistrationStatus).mockReset()
+		store.set(PLAYER_SEASON_PATH, { paid: true, team: { id: 'team-1' } })
+	})
+
+	test('a full refund clears the paid flag and re-evaluates the team', async () => {
+		store.set(PAYMENT_PATH, payment())
+
+		await applyPaymentStatusChange('player-1', 'cs_1', {
+			status: 'refunded',
+			amountRefunded: 5000,
+			paid: false,
+		})
+
+		expect(paymentDoc()).toMatchObject({
+			status: 'refunded',
+			amountRefunded: 5000,
+		})
+		expect(playerSeasonDoc()).toMatchObject({ paid: false })
+		expect(updateTeamRegistrationStatus).toHaveBeenCalledWith(
+			'team-1',
+			'season-2'
+		)
+	})
+
+	test('a refund of an older payment finds and stamps its season', async () => {
+		store.set(PAYMENT_PATH, payment({ seasonId: undefined }))
+		store.set(
+			'seasons/season-2',
+			season('2026-01-15T00:00:00Z', '2026-08-01T00:00:00Z')
+		)
+
+		await applyPaymentStatusChange('player-1', 'cs_1', {
+			status: 'refunded',
+			paid: false,
+		})
+
+		expect(paymentDoc()).toMatchObject({
+			status: 'refunded',
+			seasonId: 'season-2',
+		})
+		expect(playerSeasonDoc()).toMatchObject({ paid: false })
+	})
+
+	test('a dispute that is won after a refund leaves the player unpaid', async () => {
+		store.set(PAYMENT_PATH, payment())
+
+		await applyPaymentStatusChange('player-1', 'cs_1', disputeOpened(dispute))
+		expect(paymentDoc().dispute).toMatchObject({
+			previousStatus: 'paid',
+			previousPaid: true,
+		})
+		expect(playerSeasonDoc()).toMatchObject({ paid: false })
+
+		await applyPaymentStatusChange('player-1', 'cs_1', {
+			status: 'refunded',
+			paid: false,
+		})
+		await applyPaymentStatusChange(
+			'player-1',
+			'cs_1',
+			disputeClosed({ ...dispute, status: 'won' })
+		)
+
+		expect(paymentDoc().status).toBe('refunded')
+		expect(playerSeasonDoc()).toMatchObject({ paid: false })
+	})
+
+	test('a won dispute marks a previously paid player paid again', async () => {
+		store.set(PAYMENT_PATH, payment())
+
+		await applyPaymentStatusChange('player-1', 'cs_1', disputeOpened(dispute))
+		await applyPaymentStatusChange(
+			'player-1',
+			'cs_1',
+			disputeClosed({ ...dispute, status: 'won' })
+		)
+
+		expect(paymentDoc().status).toBe('paid')
+		expect(playerSeasonDoc()).toMatchObject({ paid: true })
+	})
+
+	test('a won dispute keeps a player an admin had marked unpaid', async () => {
+		store.set(PAYMENT_PATH, payment())
+		store.set(PLAYER_SEASON_PATH, { paid: false, team: { id: 'team-1' } })
+
+		await applyPaymentStatusChange('player-1', 'cs_1', disputeOpened(dispute))
+		await applyPaymentStatusChange(
+			'player-1',
+			'cs_1',
+			disputeClosed({ ...dispute, status: 'won' })
+		)
+
+		expect(playerSeasonDoc()).toMatchObject({ paid: false })
+		expect(updateTeamRegistrationStatus).not.toHaveBeenCalled()
+	})
+})
@@ -0,0 +1,260 @@
+/**
+ * Payment status service
+ *
+ * Applies refunds and disputes reported by Stripe to a player's payment
+ * document and to their per-season `paid` flag, then re-evaluates the
+ * registration of the player's team for that season.
+ *
+ * Payments stored before they carried a `seasonId` are matched to a season
+ * by `resolvePaymentSeasonId`, which the admin refund callable shares.
+ */
+
+import { getFirestore, FieldValue } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import {
+	Collections,
+	PaymentDocument,
+	PaymentStatus,
+	PlayerSeasonDocument,
+	SeasonDocument,
+} from '../types.js'
+import { playerSeasonRef } from '../shared/database.js'
+import { updateTeamRegistrationStatus } from './teamRegistrationService.js'
+
+/** Payment statuses that mean some of the charge was given back */
+const REFUNDED_STATUSES: PaymentStatus[] = ['refunded', 'partially_refunded']
+
+/** Dispute details as reported by Stripe, before any saved state is added */
+export type DisputeDetails = Pick<
+	NonNullable<PaymentDocument['dispute']>,
+	'id' | 'status' | 'reason'
+>
+
+/**
+ * A change to a payment reported by Stripe
+ */
+export interface PaymentStatusChange {
+	status: PaymentStatus
+	/** Total refunded so far, when the change is a refund */
+	amountRefunded?: number
+	/** Latest dispute details, when the change is a dispute */
+	dispute?: PaymentDocument['dispute']
+	/**
+	 * Whether the player counts as paid for the season afterwards. Leave
+	 * undefined to keep the current flag (e.g. for a partial refund).
+	 */
+	paid?: boolean
+}
+
+/**
+ * Works out a change from the payment as it stands and the player's current
+ * paid flag for the payment's season (undefined when there is none)
+ */
+export type PaymentStatusResolver = (
+	payment: PaymentDocument,
+	paid: boolean | undefined
+) => PaymentStatusChange
+
+/**
+ * The season a payment was for
+ *
+ * Payments stored before they carried a `seasonId` fall back to the season in
+ * their checkout metadata, then to the season whose registration had opened
+ * most recently when the checkout was made, among those that hadn't ended.
+ *
+ * @param seasons - Every season document
+ */
+export function resolvePaymentSeasonId(
+	payment: PaymentDocument,
+	seasons: FirebaseFirestore.QueryDocumentSnapshot[]
+): string | null {
+	const storedSeasonId = payment.seasonId ?? payment.metadata?.seasonId
+	if (storedSeasonId) {
+		return storedSeasonId
+	}
+
+	const created = payment.stripeCreated.toMillis()
+	let match: { id: string; registrationStart: number } | null = null
+	for (const seasonDoc of seasons) {
+		const season = seasonDoc.data() as SeasonDocument
+		const registrationStart = season.registrationStart.toMillis()
+		if (created < registrationStart || created > season.dateEnd.toMillis()) {
+			continue
+		}
+		if (!match || registrationStart > match.registrationStart) {
+			match = { id: seasonDoc.id, registrationStart }
+		}
+	}
+	return match?.id ?? null
+}
+
+/**
+ * A dispute was opened: the disputed amount is withdrawn, so the player stops
+ * counting as paid. The status and paid flag from before the dispute are kept
+ * on the dispute so they can be restored if it closes in the league's favor.
+ */
+export const disputeOpened =
+	(dispute: DisputeDetails): PaymentStatusResolver =>
+	(payment, paid) => {
+		// A repeated event must not overwrite the saved state with the dispute's
+		const reopened = payment.status === 'disputed'
+		const previousStatus = reopened
+			? (payment.dispute?.previousStatus ?? 'paid')
+			: payment.status
+		const previousPaid = reopened ? payment.dispute?.previousPaid : paid
+		return {
+			status: 'disputed',
+			dispute: {
+				...dispute,
+				previousStatus,
+				...(previousPaid !== undefined && { previousPaid }),
+			},
+			paid: false,
+		}
+	}
+
+/**
+ * A dispute was closed: a lost dispute leaves the player unpaid; otherwise the
+ * status and paid flag saved when it opened are restored. A refund made while
+ * the dispute was open takes precedence, and a refunded payment is never
+ * marked paid again.
+ */
+export const disputeClosed =
+	(dispute: DisputeDetails): PaymentStatusResolver =>
+	(payment) => {
+		const { previousStatus, previousPaid } = payment.dispute ?? {}
+		const details = {
+			...dispute,
+			...(previousStatus && { previousStatus }),
+			...(previousPaid !== undefined && { previousPaid }),
+		}
+
+		if (dispute.status === 'lost') {
+			return { status: 'dispute_lost', dispute: details, paid: false }
+		}
+
+		const status =
+			payment.status === 'disputed'
+				? (previousStatus ?? 'paid')
+				: payment.status
+		return {
+			status,
+			dispute: details,
+			paid: REFUNDED_STATUSES.includes(status) ? false : (previousPaid ?? true),
+		}
+	}
+
+/**
+ * Update a payment document and the matching player season's `paid` flag.
+ *
+ * The season comes from `resolvePaymentSeasonId`, and an older payment it
+ * matches is stamped with it. Payments no season can be matched to only have
+ * their status updated; their paid flag has to be corrected by an admin.
+ *
+ * @param uid - Player's Firebase Auth UID (the `stripe/{uid}` document)
+ * @param paymentId - Checkout session ID (the payment document ID)
+ * @param change - The change, or a resolver that works it out from the
+ * current payment and paid flag inside the transaction
+ */
+export async function applyPaymentStatusChange(
+	uid: string,
+	paymentId: string,
+	change: PaymentStatusChange | PaymentStatusResolver
+): Promise<void> {
+	const firestore = getFirestore()
+	const paymentRef = firestore
+		.collection(Collections.STRIPE)
+		.doc(uid)
+		.collection('payments')
+		.doc(paymentId)
+
+	const result = await firestore.runTransaction(async (transaction) => {
+		const paymentSnap = await transaction.get(paymentRef)
+		if (!paymentSnap.exists) {
+			logger.warn('Payment document not found for Stripe update', {
+				uid,
+				paymentId,
+			})
+			return null
+		}
+
+		const payment = paymentSnap.data() as PaymentDocument
+		const seasons =
+			payment.seasonId || payment.metadata?.seasonId
+				? []
+				: (await transaction.get(firestore.collection(Collections.SEASONS)))
+						.docs
+		const seasonId = resolvePaymentSeasonId(payment, seasons)
+		const playerSeasonDocRef = seasonId
+			? playerSeasonRef(firestore, uid, seasonId)
+			: null
+		const playerSeasonSnap = playerSeasonDocRef
+			? await transaction.get(playerSeasonDocRef)
+			: null
+		const playerSeason = playerSeasonSnap?.exists
+			? (playerSeasonSnap.data() as PlayerSeasonDocument)
+			: null
+
+		const resolved =
+			typeof change === 'function'
+				? change(payment, playerSeason?.paid)
+				: change
+
+		transaction.update(paymentRef, {
+			status: resolved.status,
+			...(!payment.seasonId && seasonId && { seasonId }),
+			...(resolved.amountRefunded !== undefined && {
+				amountRefunded: resolved.amountRefunded,
+			}),
+			...(resolved.dispute && { dispute: resolved.dispute }),
+			updated: FieldValue.serverTimestamp(),
+		})
+
+		const unchanged = {
+			seasonId,
+			status: resolved.status,
+			paid: resolved.paid,
+			teamId: null,
+			paidChanged: false,
+		}
+		if (
+			resolved.paid === undefined ||
+			!playerSeasonDocRef ||
+			!playerSeason ||
+			playerSeason.paid === resolved.paid
+		) {
+			return unchanged
+		}
+
+		transaction.update(playerSeasonDocRef, { paid: resolved.paid })
+		return {
+			...unchanged,
+			teamId: playerSeason.team?.id ?? null,
+			paidChanged: true,
+		}
+	})
+
+	if (!result) return
+
+	if (!result.seasonId) {
+		logger.warn('Payment has no season; paid status left unchanged', {
+			uid,
+			paymentId,
+			status: result.status,
+		})
+		return
+	}
+
+	logger.info('Applied Stripe payment status change', {
+		uid,
+		paymentId,
+		seasonId: result.seasonId,
+		status: result.status,
+		paid: result.paid,
+		paidChanged: result.paidChanged,
+	})
+
+	if (result.paidChanged && result.teamId) {
+		await updateTeamRegistrationStatus(result.teamId, result.seasonId)
+	}
+}
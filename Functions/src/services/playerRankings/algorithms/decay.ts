@@ -1,4 +1,8 @@
-import { TRUESKILL_CONSTANTS } from '../constants.js'
+import { RankingsParameters } from '../../../types.js'
+import {
+	DEFAULT_RANKINGS_PARAMETERS,
+	TRUESKILL_CONSTANTS,
+} from '../constants.js'
 import { PlayerRatingState } from '../types.js'
 
 /**
@@ -13,9 +17,11 @@ import { PlayerRatingState } from '../types.js'
 export function applyRoundBasedDecay(
 	playerRatings: Map<string, PlayerRatingState>,
 	currentRoundDate: Date,
-	playersInCurrentRound: Set<string>
+	playersInCurrentRound: Set<string>,
+	parameters: RankingsParameters = DEFAULT_RANKINGS_PARAMETERS
 ): void {
 	const baseMu = TRUESKILL_CONSTANTS.INITIAL_MU
+	const { gravityWellPerRound, inactivityDecayPerRound } = parameters
 
 	for (const [playerId, playerState] of playerRatings) {
 		const isActive = playersInCurrentRound.has(playerId)
@@ -39,19 +45,19 @@ export function applyRoundBasedDecay(
 			// Player is above average
 			if (isActive) {
 				// Active players decay slowly toward baseline
-				decayFactor = TRUESKILL_CONSTANTS.GRAVITY_WELL_PER_ROUND
+				decayFactor = gravityWellPerRound
 			} else {
 				// Inactive players decay faster toward baseline
-				decayFactor = TRUESKILL_CONSTANTS.INACTIVITY_DECAY_PER_ROUND
+				decayFactor = inactivityDecayPerRound
 			}
 		} else {
 			// Player is below average
 			if (isActive) {
 				// Active players recover faster toward baseline (reward participation)
-				decayFactor = TRUESKILL_CONSTANTS.INACTIVITY_DECAY_PER_ROUND
+				decayFactor = inactivityDecayPerRound
 			} else {
 				// Inactive players recover slower toward baseline (penalty for absence)
-				decayFactor = TRUESKILL_CONSTANTS.GRAVITY_WELL_PER_ROUND
+				decayFactor = gravityWellPerRound
 			}
 		}
 
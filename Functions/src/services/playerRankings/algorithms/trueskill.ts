@@ -13,7 +13,11 @@
  * Reference: https://trueskill.org/
  */
 
-import { TRUESKILL_CONSTANTS } from '../constants.js'
+import { RankingsParameters } from '../../../types.js'
+import {
+	DEFAULT_RANKINGS_PARAMETERS,
+	TRUESKILL_CONSTANTS,
+} from '../constants.js'
 
 /**
  * Gaussian distribution helper functions
@@ -86,37 +90,78 @@ export function calculateTeamMu(ratings: TrueSkillRating[]): number {
  * σ_team² = Σ(σ_i²) + n * β²
  * where β² is the performance variance
  */
-export function calculateTeamSigma(ratings: TrueSkillRating[]): number {
+export function calculateTeamSigma(
+	ratings: TrueSkillRating[],
+	beta: number = TRUESKILL_CONSTANTS.BETA
+): number {
 	const sumSigmaSquared = ratings.reduce((sum, r) => sum + r.sigma * r.sigma, 0)
-	const betaSquared =
-		TRUESKILL_CONSTANTS.BETA * TRUESKILL_CONSTANTS.BETA * ratings.length
+	const betaSquared = beta * beta * ratings.length
 	return Math.sqrt(sumSigmaSquared + betaSquared)
 }
 
+/**
+ * Probability that the first team beats the second, given their ratings
+ * P = Φ((μ_a - μ_b) / √(σ_a² + σ_b²)) using the team totals above
+ */
+export function winProbability(
+	teamA: TrueSkillRating[],
+	teamB: TrueSkillRating[],
+	beta: number = TRUESKILL_CONSTANTS.BETA
+): number {
+	const deltaMu = calculateTeamMu(teamA) - calculateTeamMu(teamB)
+	const sigmaA = calculateTeamSigma(teamA, beta)
+	const sigmaB = calculateTeamSigma(teamB, beta)
+	return normCdf(deltaMu / Math.sqrt(sigmaA * sigmaA + sigmaB * sigmaB))
+}
+
+/**
+ * TrueSkill match quality for two teams (the draw probability relative to
+ * the most even possible match)
+ * q = √(nβ² / c²) · exp(-(Δμ)² / 2c²), where c² = σ_a² + σ_b² and n is the
+ * total number of players
+ */
+export function matchQuality(
+	teamA: TrueSkillRating[],
+	teamB: TrueSkillRating[],
+	beta: number = TRUESKILL_CONSTANTS.BETA
+): number {
+	const deltaMu = calculateTeamMu(teamA) - calculateTeamMu(teamB)
+	const sigmaA = calculateTeamSigma(teamA, beta)
+	const sigmaB = calculateTeamSigma(teamB, beta)
+	const cSquared = sigmaA * sigmaA + sigmaB * sigmaB
+	const betaSquared = beta * beta * (teamA.length + teamB.length)
+	return (
+		Math.sqrt(betaSquared / cSquared) *
+		Math.exp(-(deltaMu * deltaMu) / (2 * cSquared))
+	)
+}
+
 /**
  * The main TrueSkill update function for a two-team match
  *
  * @param winningTeam - Array of ratings for the winning team
  * @param losingTeam - Array of ratings for the losing team
  * @param multiplier - Optional multiplier for playoff games (default 1.0)
+ * @param parameters - β and τ to use (defaults to the TrueSkill constants)
  * @returns Updated ratings for both teams
  */
 export function updateRatings(
 	winningTeam: TrueSkillRating[],
 	losingTeam: TrueSkillRating[],
-	multiplier: number = 1.0
+	multiplier: number = 1.0,
+	parameters: RankingsParameters = DEFAULT_RANKINGS_PARAMETERS
 ): { winners: TrueSkillRating[]; losers: TrueSkillRating[] } {
+	const { beta, tau } = parameters
+
 	// Calculate team statistics
 	const winnerMu = calculateTeamMu(winningTeam)
 	const loserMu = calculateTeamMu(losingTeam)
-	const winnerSigma = calculateTeamSigma(winningTeam)
-	const loserSigma = calculateTeamSigma(losingTeam)
+	const winnerSigma = calculateTeamSigma(winningTeam, beta)
+	const loserSigma = calculateTeamSigma(losingTeam, beta)
 
 	// Total variance including dynamics factor
 	const totalSigma = Math.sqrt(
-		winnerSigma * winnerSigma +
-			loserSigma * loserSigma +
-			2 * TRUESKILL_CONSTANTS.TAU * TRUESKILL_CONSTANTS.TAU
+		winnerSigma * winnerSigma + loserSigma * loserSigma + 2 * tau * tau
 	)
 
 	// Performance difference (normalized)
@@ -1,3 +1,5 @@
+import { RankingsParameters } from '../../types.js'
+
 /**
  * TrueSkill Rating Algorithm Constants
  *
@@ -60,3 +62,45 @@ export const TRUESKILL_CONSTANTS = {
 	// Maximum sigma (caps uncertainty growth)
 	MAX_SIGMA: 25.0 / 3.0, // Can't exceed initial uncertainty
 }
+
+/**
+ * Default tunable parameters, used by live calculations until a shadow run
+ * with different parameters is promoted
+ */
+export const DEFAULT_RANKINGS_PARAMETERS: RankingsParameters = {
+	beta: TRUESKILL_CONSTANTS.BETA,
+	tau: TRUESKILL_CONSTANTS.TAU,
+	seasonDecayFactor: TRUESKILL_CONSTANTS.SEASON_DECAY_FACTOR,
+	gravityWellPerRound: TRUESKILL_CONSTANTS.GRAVITY_WELL_PER_ROUND,
+	inactivityDecayPerRound: TRUESKILL_CONSTANTS.INACTIVITY_DECAY_PER_ROUND,
+	playoffMultiplier: TRUESKILL_CONSTANTS.PLAYOFF_MULTIPLIER,
+	// Win/loss only, as in TrueSkill (v5.0), until a weighted run is promoted
+	marginOfVictoryWeight: 0,
+	marginOfVictoryCap: 8,
+}
+
+/**
+ * Fills parameters missing from a stored parameter set (saved before the
+ * parameter existed) with their defaults
+ */
+export function resolveRankingsParameters(
+	stored: Partial<RankingsParameters> | undefined
+): RankingsParameters {
+	return { ...DEFAULT_RANKINGS_PARAMETERS, ...stored }
+}
+
+/**
+ * Incremental update settings
+ */
+export const INCREMENTAL_UPDATE_CONSTANTS = {
+	// Document ID of the rankings checkpoint
+	CHECKPOINT_DOC_ID: 'current',
+
+	// A round is applied once every game in it is scored, or once this many
+	// hours have passed since it started (so an unplayed game can't stall
+	// every later round)
+	ROUND_SETTLE_HOURS: 24,
+
+	// A calculation lock older than this is treated as abandoned
+	LOCK_TIMEOUT_MINUTES: 15,
+}
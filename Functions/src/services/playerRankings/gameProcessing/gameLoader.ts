@@ -2,6 +2,26 @@ import { getFirestore } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
 import { Collections, GameDocument, SeasonDocument } from '../../../types.js'
 import { GameProcessingData } from '../types.js'
+import { hasRatedResult } from '../../../shared/gameStatus.js'
+
+/**
+ * Loads all seasons ordered by start date, oldest first. A game's season
+ * decay depends on its season's position in this list.
+ */
+export async function loadSeasonsInOrder(): Promise<
+	(SeasonDocument & { id: string })[]
+> {
+	const firestore = getFirestore()
+	const seasonsSnapshot = await firestore
+		.collection(Collections.SEASONS)
+		.orderBy('dateStart', 'asc')
+		.get()
+
+	return seasonsSnapshot.docs.map((doc) => ({
+		id: doc.id,
+		...doc.data(),
+	})) as (SeasonDocument & { id: string })[]
+}
 
 /**
  * Loads all games for calculation starting from specified season
@@ -39,9 +59,8 @@ export async function loadGamesForCalculation(
 			} as GameProcessingData
 		})
 
-		const completedGames = seasonGames.filter(
-			(game) => game.homeScore !== null && game.awayScore !== null
-		)
+		// Forfeits, postponements and cancellations don't move ratings
+		const completedGames = seasonGames.filter((game) => hasRatedResult(game))
 
 		logger.info(
 			`Season ${season.id}: ${completedGames.length} completed games after filtering`
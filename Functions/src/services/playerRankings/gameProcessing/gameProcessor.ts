@@ -1,81 +1,45 @@
 import { logger } from 'firebase-functions/v2'
-import { PlayerDocument, TeamDocument } from '../../../types.js'
-import { TRUESKILL_CONSTANTS } from '../constants.js'
-import { TrueSkillRating, updateRatings } from '../algorithms/trueskill.js'
+import {
+	DocumentReference,
+	PlayerDocument,
+	RankingsParameters,
+} from '../../../types.js'
+import {
+	DEFAULT_RANKINGS_PARAMETERS,
+	TRUESKILL_CONSTANTS,
+} from '../constants.js'
+import {
+	TrueSkillRating,
+	updateRatings,
+	winProbability,
+} from '../algorithms/trueskill.js'
 import { initializePlayerRoundTracking } from '../algorithms/decay.js'
-import { GameProcessingData, PlayerRatingState } from '../types.js'
+import { hasRatedResult } from '../../../shared/gameStatus.js'
+import {
+	GameParticipants,
+	GamePrediction,
+	GameProcessingData,
+	PlayerRatingState,
+} from '../types.js'
 
 /**
- * Processes a single game and updates player ratings using TrueSkill algorithm
+ * Resolves rating states for one side of a game, creating fresh states for
+ * players appearing for the first time
  */
-export async function processGame(
+async function collectPlayerStates(
+	players: DocumentReference<PlayerDocument>[],
 	game: GameProcessingData,
-	playerRatings: Map<string, PlayerRatingState>,
-	shouldCountForRating: boolean = true,
-	shouldCountForTotalGames: boolean = true
-): Promise<void> {
-	if (
-		!game.home ||
-		!game.away ||
-		game.homeScore === null ||
-		game.awayScore === null
-	) {
-		return // Skip incomplete games
-	}
-
-	// Get rosters for both teams
-	const [homeTeamDoc, awayTeamDoc] = await Promise.all([
-		game.home.get(),
-		game.away.get(),
-	])
-
-	if (!homeTeamDoc.exists || !awayTeamDoc.exists) {
-		logger.warn(`Missing team data for game ${game.id}`)
-		return
-	}
-
-	const homeTeamData = homeTeamDoc.data() as TeamDocument | undefined
-	const awayTeamData = awayTeamDoc.data() as TeamDocument | undefined
-
-	if (!homeTeamData || !awayTeamData) {
-		logger.warn(`Invalid team data for game ${game.id}`)
-		return
-	}
-
-	const homeRoster = homeTeamData.roster || []
-	const awayRoster = awayTeamData.roster || []
-
-	if (homeRoster.length === 0 || awayRoster.length === 0) {
-		logger.warn(`Empty roster for game ${game.id}`)
-		return
-	}
+	playerRatings: Map<string, PlayerRatingState>
+): Promise<PlayerRatingState[]> {
+	const playerStates: PlayerRatingState[] = []
 
-	// Determine game outcome (draws don't occur in this league)
-	const homeWon = game.homeScore > game.awayScore
-
-	// Calculate multipliers
-	const playoffMultiplier =
-		game.type === 'playoff' ? TRUESKILL_CONSTANTS.PLAYOFF_MULTIPLIER : 1.0
-	const seasonDecayMultiplier = Math.pow(
-		TRUESKILL_CONSTANTS.SEASON_DECAY_FACTOR,
-		game.seasonOrder
-	)
-	const combinedMultiplier = playoffMultiplier * seasonDecayMultiplier
-
-	// Ensure all players have rating states and collect their TrueSkill ratings
-	const homePlayerStates: PlayerRatingState[] = []
-	const awayPlayerStates: PlayerRatingState[] = []
-	const homeRatings: TrueSkillRating[] = []
-	const awayRatings: TrueSkillRating[] = []
-
-	// Process home team players
-	for (const rosterEntry of homeRoster) {
-		const playerId = rosterEntry.player.id
+	for (const player of players) {
+		const playerId = player.id
 		let playerState = playerRatings.get(playerId)
 
 		if (!playerState) {
 			// Create new player state
-			const playerDoc = await rosterEntry.player.get()
+			const playerDoc = await player.get()
 			const playerData = playerDoc.data() as PlayerDocument | undefined
 
 			if (!playerData) {
@@ -100,44 +64,104 @@ export async function processGame(
 			playerRatings.set(playerId, playerState)
 		}
 
-		homePlayerStates.push(playerState)
-		homeRatings.push({ mu: playerState.mu, sigma: playerState.sigma })
+		playerStates.push(playerState)
 	}
 
-	// Process away team players
-	for (const rosterEntry of awayRoster) {
-		const playerId = rosterEntry.player.id
-		let playerState = playerRatings.get(playerId)
+	return playerStates
+}
 
-		if (!playerState) {
-			// Create new player state
-			const playerDoc = await rosterEntry.player.get()
-			const playerData = playerDoc.data() as PlayerDocument | undefined
+/**
+ * Multiplier for a game's rating update from its point differential
+ * m = 1 + weight × min(margin, cap) / cap, so a blowout moves ratings up to
+ * (1 + weight)× as much as a win/loss-only update. Always 1 when weighting
+ * is off.
+ */
+export function marginOfVictoryMultiplier(
+	margin: number,
+	parameters: RankingsParameters
+): number {
+	const { marginOfVictoryWeight, marginOfVictoryCap } = parameters
+	if (marginOfVictoryWeight <= 0 || marginOfVictoryCap <= 0) {
+		return 1.0
+	}
+	return (
+		1 +
+		(marginOfVictoryWeight * Math.min(Math.abs(margin), marginOfVictoryCap)) /
+			marginOfVictoryCap
+	)
+}
 
-			if (!playerData) {
-				logger.warn(`Missing player data for ${playerId} in game ${game.id}`)
-				continue // Skip this player
-			}
+/**
+ * Processes a single game and updates player ratings using TrueSkill algorithm
+ *
+ * @param participants - Players credited with the result, from game
+ * attendance or the season roster fallback (see participantLoader)
+ * @param parameters - Tunable rating parameters (live or shadow run)
+ * @returns The prediction made from the ratings before this game, or null
+ * when the game was skipped
+ */
+export async function processGame(
+	game: GameProcessingData,
+	participants: GameParticipants,
+	playerRatings: Map<string, PlayerRatingState>,
+	shouldCountForRating: boolean = true,
+	shouldCountForTotalGames: boolean = true,
+	parameters: RankingsParameters = DEFAULT_RANKINGS_PARAMETERS
+): Promise<GamePrediction | null> {
+	if (!game.home || !game.away || !hasRatedResult(game)) {
+		return null // Skip incomplete, forfeited and canceled games
+	}
 
-			playerState = {
-				playerId,
-				playerName: `${playerData.firstname} ${playerData.lastname}`,
-				mu: TRUESKILL_CONSTANTS.INITIAL_MU,
-				sigma: TRUESKILL_CONSTANTS.INITIAL_SIGMA,
-				totalGames: 0,
-				totalSeasons: 0,
-				seasonsPlayed: new Set(),
-				lastSeasonId: null,
-				lastGameDate: null,
-				roundsSinceLastGame: 0,
-			}
+	if (participants.home.length === 0 || participants.away.length === 0) {
+		logger.warn(`Empty roster for game ${game.id}`)
+		return null
+	}
 
-			initializePlayerRoundTracking(playerState, game.gameDate)
-			playerRatings.set(playerId, playerState)
-		}
+	// Determine game outcome (draws don't occur in this league)
+	const homeWon = game.homeScore > game.awayScore
 
-		awayPlayerStates.push(playerState)
-		awayRatings.push({ mu: playerState.mu, sigma: playerState.sigma })
+	// Calculate multipliers
+	const playoffMultiplier =
+		game.type === 'playoff' ? parameters.playoffMultiplier : 1.0
+	const seasonDecayMultiplier = Math.pow(
+		parameters.seasonDecayFactor,
+		game.seasonOrder
+	)
+	const marginMultiplier = marginOfVictoryMultiplier(
+		game.homeScore - game.awayScore,
+		parameters
+	)
+	const combinedMultiplier =
+		playoffMultiplier * seasonDecayMultiplier * marginMultiplier
+
+	// Ensure all players have rating states and collect their TrueSkill ratings
+	const homePlayerStates = await collectPlayerStates(
+		participants.home,
+		game,
+		playerRatings
+	)
+	const awayPlayerStates = await collectPlayerStates(
+		participants.away,
+		game,
+		playerRatings
+	)
+	const homeRatings: TrueSkillRating[] = homePlayerStates.map((state) => ({
+		mu: state.mu,
+		sigma: state.sigma,
+	}))
+	const awayRatings: TrueSkillRating[] = awayPlayerStates.map((state) => ({
+		mu: state.mu,
+		sigma: state.sigma,
+	}))
+
+	// Predict the outcome from the ratings before this game is applied
+	const prediction: GamePrediction = {
+		homeWinProbability: winProbability(
+			homeRatings,
+			awayRatings,
+			parameters.beta
+		),
+		homeWon,
 	}
 
 	// Only update ratings if this game should count
@@ -152,7 +176,8 @@ export async function processGame(
 		const { winners: updatedWinners, losers: updatedLosers } = updateRatings(
 			winnerRatings,
 			loserRatings,
-			combinedMultiplier
+			combinedMultiplier,
+			parameters
 		)
 
 		// Apply updates to winner states
@@ -187,4 +212,6 @@ export async function processGame(
 			playerState.totalSeasons = playerState.seasonsPlayed.size
 		}
 	}
+
+	return prediction
 }
@@ -0,0 +1,86 @@
+import { getFirestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import {
+	DocumentReference,
+	GameAttendanceDocument,
+	PlayerDocument,
+	TeamRosterDocument,
+} from '../../../types.js'
+import {
+	gameAttendanceCollection,
+	teamSeasonRef,
+} from '../../../shared/database.js'
+import { GameParticipants, GameProcessingData } from '../types.js'
+
+/**
+ * Loads the season roster for one side of a game
+ */
+async function loadSeasonRoster(
+	teamId: string,
+	seasonId: string
+): Promise<DocumentReference<PlayerDocument>[]> {
+	const firestore = getFirestore()
+	const rosterSnapshot = await teamSeasonRef(firestore, teamId, seasonId)
+		.collection('roster')
+		.get()
+
+	return rosterSnapshot.docs.map(
+		(doc) => (doc.data() as TeamRosterDocument).player
+	)
+}
+
+/**
+ * Resolves which players took part in a game for rating purposes.
+ *
+ * Prefers the per-game attendance record (`games/{gameId}/attendance`).
+ * For each side with no attendance entries, falls back to that team's
+ * season roster (`teams/{teamId}/teamSeasons/{seasonId}/roster`).
+ *
+ * @returns Participants for both sides, or null for placeholder games
+ */
+export async function loadGameParticipants(
+	game: GameProcessingData
+): Promise<GameParticipants | null> {
+	if (!game.home || !game.away) {
+		return null
+	}
+
+	const firestore = getFirestore()
+	const seasonId = game.season.id
+	const homeId = game.home.id
+	const awayId = game.away.id
+
+	const attendanceSnapshot = await gameAttendanceCollection(
+		firestore,
+		game.id
+	).get()
+
+	const homeAttendance: DocumentReference<PlayerDocument>[] = []
+	const awayAttendance: DocumentReference<PlayerDocument>[] = []
+	for (const doc of attendanceSnapshot.docs) {
+		const entry = doc.data() as GameAttendanceDocument
+		if (entry.team.id === homeId) {
+			homeAttendance.push(entry.player)
+		} else if (entry.team.id === awayId) {
+			awayAttendance.push(entry.player)
+		}
+	}
+
+	const [home, away] = await Promise.all([
+		homeAttendance.length > 0
+			? homeAttendance
+			: loadSeasonRoster(homeId, seasonId),
+		awayAttendance.length > 0
+			? awayAttendance
+			: loadSeasonRoster(awayId, seasonId),
+	])
+
+	if (homeAttendance.length === 0 || awayAttendance.length === 0) {
+		logger.info(`Using season roster fallback for game ${game.id}`, {
+			homeSource: homeAttendance.length > 0 ? 'attendance' : 'roster',
+			awaySource: awayAttendance.length > 0 ? 'attendance' : 'roster',
+		})
+	}
+
+	return { home, away }
+}
@@ -1,78 +1,81 @@
 import { logger } from 'firebase-functions/v2'
+import { RankingsParameters, RankingsPredictionStats } from '../../../types.js'
+import { DEFAULT_RANKINGS_PARAMETERS } from '../constants.js'
 import { processGame } from './gameProcessor.js'
+import { loadGameParticipants } from './participantLoader.js'
 import { saveRoundSnapshot } from '../snapshots/roundSnapshotSaver.js'
 import { applyRoundBasedDecay } from '../algorithms/decay.js'
 import {
 	updateGameProgress,
 	updateSeasonalProgress,
 } from '../persistence/progressTracker.js'
-import { GameProcessingData, PlayerRatingState } from '../types.js'
+import { LIVE_NAMESPACE, RankingsNamespace } from '../persistence/namespace.js'
+import {
+	emptyPredictionStats,
+	recordPrediction,
+} from '../utils/predictionStats.js'
+import {
+	GameParticipants,
+	GameProcessingData,
+	PlayerRatingState,
+} from '../types.js'
 import { groupGamesByRounds, formatRoundInfo } from './roundGrouper.js'
 
 /**
- * Extracts all player IDs participating in the games of a round
+ * Loads participants for every game in a round, keyed by game ID.
+ * Games whose participants cannot be loaded are left out and skipped.
  */
-async function getPlayersInRound(
+async function loadRoundParticipants(
 	games: GameProcessingData[]
-): Promise<Set<string>> {
-	const playerIds = new Set<string>()
+): Promise<Map<string, GameParticipants>> {
+	const participantsByGame = new Map<string, GameParticipants>()
 
 	for (const game of games) {
-		if (!game.home || !game.away) continue
-
 		try {
-			// Get team documents
-			const [homeTeamDoc, awayTeamDoc] = await Promise.all([
-				game.home.get(),
-				game.away.get(),
-			])
-
-			if (homeTeamDoc.exists && awayTeamDoc.exists) {
-				const homeTeamData = homeTeamDoc.data()
-				const awayTeamData = awayTeamDoc.data()
-
-				// Add home team players
-				if (homeTeamData?.roster) {
-					for (const rosterEntry of homeTeamData.roster) {
-						if (rosterEntry.player?.id) {
-							playerIds.add(rosterEntry.player.id)
-						}
-					}
-				}
-
-				// Add away team players
-				if (awayTeamData?.roster) {
-					for (const rosterEntry of awayTeamData.roster) {
-						if (rosterEntry.player?.id) {
-							playerIds.add(rosterEntry.player.id)
-						}
-					}
-				}
+			const participants = await loadGameParticipants(game)
+			if (participants) {
+				participantsByGame.set(game.id, participants)
 			}
 		} catch (error) {
 			logger.warn(`Error getting players for game ${game.id}:`, error)
 		}
 	}
 
-	return playerIds
+	return participantsByGame
+}
+
+/**
+ * Parameters and destination for a run of rounds
+ */
+export interface RoundProcessingOptions {
+	parameters: RankingsParameters
+	namespace: RankingsNamespace
 }
 
 /**
- * Processes all games by rounds in chronological order (full rebuild only).
+ * Processes games by rounds in chronological order.
  *
  * Each round contains all games that start at the same time.
- * This function always processes ALL rounds from scratch to ensure
- * accurate TrueSkill sigma (uncertainty) tracking.
+ * A full rebuild passes every game with empty ratings; an incremental update
+ * passes only the rounds after the checkpoint with the stored rating states
+ * (including sigma), which continue exactly where the last calculation left
+ * off.
  *
- * Note: Incremental updates were deprecated because TrueSkill requires
- * accurate sigma tracking across all games for proper rating calculations.
+ * @returns How well the ratings before each game predicted its result
  */
 export async function processGamesByRounds(
 	games: GameProcessingData[],
 	playerRatings: Map<string, PlayerRatingState>,
 	calculationId: string,
-	totalSeasons: number
-): Promise<void> {
+	totalSeasons: number,
+	options: RoundProcessingOptions = {
+		parameters: DEFAULT_RANKINGS_PARAMETERS,
+		namespace: LIVE_NAMESPACE,
+	}
+): Promise<RankingsPredictionStats> {
+	const { parameters, namespace } = options
+	const predictionStats = emptyPredictionStats()
+
 	// Group games into rounds by start time
 	const allRounds = groupGamesByRounds(games)
 	logger.info(`Grouped ${games.length} games into ${allRounds.length} rounds`)
@@ -108,23 +111,42 @@ export async function processGamesByRounds(
 		}
 
 		// Collect all players participating in this round
-		const playersInRound = await getPlayersInRound(round.games)
+		const participantsByGame = await loadRoundParticipants(round.games)
+		const playersInRound = new Set<string>()
+		for (const participants of participantsByGame.values()) {
+			for (const player of [...participants.home, ...participants.away]) {
+				playersInRound.add(player.id)
+			}
+		}
 
 		// Apply round-based decay before processing games
 		// This will increment inactivity counters for players not in this round
 		// and reset counters for players who are playing
-		applyRoundBasedDecay(playerRatings, round.startTime, playersInRound)
+		applyRoundBasedDecay(
+			playerRatings,
+			round.startTime,
+			playersInRound,
+			parameters
+		)
 
 		// Process all games in this round simultaneously
 		// This ensures true chronological order since all games in a round start at the same time
 		const roundPromises = round.games.map(async (game) => {
-			// In full rebuild mode, all games count for both rating and totalGames
-			await processGame(
-				game,
-				playerRatings,
-				true, // shouldCountForRating
-				true // shouldCountForTotalGames
-			)
+			const participants = participantsByGame.get(game.id)
+			if (participants) {
+				// Every processed game counts for both rating and totalGames
+				const prediction = await processGame(
+					game,
+					participants,
+					playerRatings,
+					true, // shouldCountForRating
+					true, // shouldCountForTotalGames
+					parameters
+				)
+				if (prediction) {
+					recordPrediction(predictionStats, prediction)
+				}
+			}
 			processedGames++
 		})
 
@@ -136,7 +158,8 @@ export async function processGamesByRounds(
 			round,
 			playerRatings,
 			preRoundRatings,
-			calculationId
+			calculationId,
+			namespace
 		)
 
 		logger.info(
@@ -150,4 +173,6 @@ export async function processGamesByRounds(
 	logger.info(
 		`Round-based processing complete: ${processedGames} games in ${allRounds.length} rounds`
 	)
+
+	return predictionStats
 }
@@ -2,24 +2,42 @@
 export {
 	TRUESKILL_CONSTANTS,
 	RATING_PRECISION_MULTIPLIER,
+	INCREMENTAL_UPDATE_CONSTANTS,
+	DEFAULT_RANKINGS_PARAMETERS,
+	resolveRankingsParameters,
 } from './constants.js'
 export * from './types.js'
 
 // Core algorithms - TrueSkill
-export { updateRatings, type TrueSkillRating } from './algorithms/trueskill.js'
+export {
+	updateRatings,
+	winProbability,
+	matchQuality,
+	type TrueSkillRating,
+} from './algorithms/trueskill.js'
 export {
 	applyRoundBasedDecay,
 	initializePlayerRoundTracking,
 } from './algorithms/decay.js'
 
-// Game processing (round-based, full rebuild only)
-export { loadGamesForCalculation } from './gameProcessing/gameLoader.js'
-export { processGame } from './gameProcessing/gameProcessor.js'
+// Game processing (round-based)
+export {
+	loadGamesForCalculation,
+	loadSeasonsInOrder,
+} from './gameProcessing/gameLoader.js'
+export { loadGameParticipants } from './gameProcessing/participantLoader.js'
+export {
+	processGame,
+	marginOfVictoryMultiplier,
+} from './gameProcessing/gameProcessor.js'
 export {
 	groupGamesByRounds,
 	formatRoundInfo,
 } from './gameProcessing/roundGrouper.js'
-export { processGamesByRounds } from './gameProcessing/roundProcessor.js'
+export {
+	processGamesByRounds,
+	type RoundProcessingOptions,
+} from './gameProcessing/roundProcessor.js'
 
 // Snapshots and progress tracking
 export { createTimeBasedSnapshot } from './snapshots/snapshotCreator.js'
@@ -29,10 +47,42 @@ export { saveRoundSnapshot } from './snapshots/roundSnapshotSaver.js'
 export {
 	createCalculationState,
 	updateCalculationState,
+	completeCalculation,
+	failCalculation,
 } from './persistence/calculationState.js'
 export {
 	updateProgress,
 	updateSeasonalProgress,
 	updateGameProgress,
 } from './persistence/progressTracker.js'
-export { saveFinalRankings } from './persistence/rankingsSaver.js'
+export {
+	saveFinalRankings,
+	loadPlayerRatingStates,
+} from './persistence/rankingsSaver.js'
+export {
+	loadCheckpoint,
+	acquireCalculationLock,
+	releaseCalculationLock,
+	saveCheckpoint,
+	flagRebuildRequired,
+} from './persistence/checkpoint.js'
+export {
+	LIVE_NAMESPACE,
+	rankingsCollection,
+	historyCollection,
+	type RankingsNamespace,
+} from './persistence/namespace.js'
+export {
+	emptyPredictionStats,
+	recordPrediction,
+	addPredictionStats,
+} from './utils/predictionStats.js'
+
+// Full rebuilds, shadow runs and incremental updates from the checkpoint
+export { runFullRebuild, runShadowRebuild } from './updates/fullRebuild.js'
+export { promoteShadowRun } from './updates/promoteShadow.js'
+export {
+	applyNewRounds,
+	handleAttendanceChangeForRankings,
+	handleGameChangeForRankings,
+} from './updates/incrementalUpdate.js'
@@ -1,13 +1,23 @@
-import { getFirestore, FieldValue } from 'firebase-admin/firestore'
-import { Collections } from '../../../types.js'
-import { TRUESKILL_CONSTANTS } from '../constants.js'
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore'
+import {
+	Collections,
+	RankingsCalculationDocument,
+	RankingsParameters,
+	RankingsPredictionStats,
+} from '../../../types.js'
+import { DEFAULT_RANKINGS_PARAMETERS } from '../constants.js'
 
 /**
  * Creates a new calculation state document
+ *
+ * @param parameters - Rating parameters the calculation uses
+ * @param target - Whether results go to the live rankings or a shadow run
  */
 export async function createCalculationState(
-	calculationType: 'fresh',
-	userId: string
+	calculationType: 'fresh' | 'incremental',
+	userId: string,
+	parameters: RankingsParameters = DEFAULT_RANKINGS_PARAMETERS,
+	target: RankingsCalculationDocument['target'] = 'live'
 ): Promise<string> {
 	const firestore = getFirestore()
 
@@ -17,6 +27,7 @@ export async function createCalculationState(
 	// about Timestamp.
 	const calculationDoc = {
 		calculationType,
+		target,
 		status: 'pending',
 		startedAt: FieldValue.serverTimestamp(),
 		completedAt: null,
@@ -29,8 +40,7 @@ export async function createCalculationState(
 		},
 		parameters: {
 			applyDecay: true,
-			seasonDecayFactor: TRUESKILL_CONSTANTS.SEASON_DECAY_FACTOR,
-			playoffMultiplier: TRUESKILL_CONSTANTS.PLAYOFF_MULTIPLIER,
+			...parameters,
 		},
 	}
 
@@ -59,3 +69,45 @@ export async function updateCalculationState(
 		.doc(calculationId)
 		.update(updates)
 }
+
+/**
+ * Marks a calculation complete, recording its prediction accuracy and the
+ * last round it processed
+ */
+export async function completeCalculation(
+	calculationId: string,
+	predictionStats: RankingsPredictionStats,
+	lastRound: { roundId: string; startTime: Date; seasonIds: string[] } | null
+): Promise<void> {
+	await updateCalculationState(calculationId, {
+		status: 'completed',
+		completedAt: FieldValue.serverTimestamp(),
+		'progress.currentStep': 'Complete',
+		'progress.percentComplete': 100,
+		predictionStats,
+		...(lastRound && {
+			lastRound: {
+				roundId: lastRound.roundId,
+				startTime: Timestamp.fromDate(lastRound.startTime),
+				seasonIds: lastRound.seasonIds,
+			},
+		}),
+	})
+}
+
+/**
+ * Marks a calculation failed with the error that stopped it
+ */
+export async function failCalculation(
+	calculationId: string,
+	error: unknown
+): Promise<void> {
+	await updateCalculationState(calculationId, {
+		status: 'failed',
+		error: {
+			message: error instanceof Error ? error.message : 'Unknown error',
+			stack: error instanceof Error ? error.stack : undefined,
+			timestamp: FieldValue.serverTimestamp(),
+		},
+	})
+}
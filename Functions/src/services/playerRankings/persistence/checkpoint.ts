@@ -0,0 +1,177 @@
+import { randomUUID } from 'node:crypto'
+import { getFirestore, Timestamp } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import {
+	Collections,
+	RankingsCheckpointDocument,
+	RankingsParameters,
+	RankingsPredictionStats,
+} from '../../../types.js'
+import { INCREMENTAL_UPDATE_CONSTANTS } from '../constants.js'
+
+/**
+ * Reference to the single rankings checkpoint document
+ */
+function checkpointRef(): FirebaseFirestore.DocumentReference {
+	return getFirestore()
+		.collection(Collections.RANKINGS_CHECKPOINT)
+		.doc(INCREMENTAL_UPDATE_CONSTANTS.CHECKPOINT_DOC_ID)
+}
+
+/**
+ * Loads the rankings checkpoint
+ *
+ * @returns The checkpoint, or null when no full rebuild has completed yet
+ */
+export async function loadCheckpoint(): Promise<RankingsCheckpointDocument | null> {
+	const snapshot = await checkpointRef().get()
+	const checkpoint = snapshot.data() as RankingsCheckpointDocument | undefined
+
+	// The document can exist with only a lock before the first rebuild finishes
+	return checkpoint?.lastRoundStartTime ? checkpoint : null
+}
+
+/**
+ * Takes the calculation lock so only one calculation updates the stored
+ * ratings at a time. A lock older than LOCK_TIMEOUT_MINUTES is taken over.
+ *
+ * @returns A token to pass when saving the checkpoint or releasing the
+ * lock, or null when another calculation holds it
+ */
+export async function acquireCalculationLock(): Promise<string | null> {
+	const firestore = getFirestore()
+	const ref = checkpointRef()
+	const owner = randomUUID()
+	const timeoutMs = INCREMENTAL_UPDATE_CONSTANTS.LOCK_TIMEOUT_MINUTES * 60000
+
+	return firestore.runTransaction(async (transaction) => {
+		const snapshot = await transaction.get(ref)
+		const lock = (snapshot.data() as RankingsCheckpointDocument | undefined)
+			?.lock
+
+		if (lock && Date.now() - lock.lockedAt.toMillis() < timeoutMs) {
+			return null
+		}
+
+		if (lock) {
+			logger.warn('Taking over abandoned rankings calculation lock', {
+				previousOwner: lock.owner,
+				lockedAt: lock.lockedAt.toDate().toISOString(),
+			})
+		}
+
+		transaction.set(
+			ref,
+			{ lock: { owner, lockedAt: Timestamp.now() } },
+			{ merge: true }
+		)
+		return owner
+	})
+}
+
+/**
+ * Releases the calculation lock if it is still held by `owner`
+ */
+export async function releaseCalculationLock(owner: string): Promise<void> {
+	const firestore = getFirestore()
+	const ref = checkpointRef()
+
+	await firestore.runTransaction(async (transaction) => {
+		const snapshot = await transaction.get(ref)
+		const lock = (snapshot.data() as RankingsCheckpointDocument | undefined)
+			?.lock
+
+		if (lock?.owner === owner) {
+			transaction.update(ref, { lock: null })
+		}
+	})
+}
+
+/**
+ * State the stored ratings are in after a calculation
+ */
+export interface CheckpointUpdate {
+	calculationId: string
+	lastRound: { roundId: string; startTime: Date }
+	/** Season IDs, oldest first, the ratings were weighted against */
+	seasonIds: string[]
+	parameters: RankingsParameters
+	/** Prediction accuracy over every game behind the ratings */
+	predictionStats: RankingsPredictionStats
+}
+
+/**
+ * Advances the checkpoint to the last processed round and releases the lock
+ *
+ * A rebuild flag raised after the calculation started is kept, since the
+ * calculation may have read the game before it changed.
+ */
+export async function saveCheckpoint(
+	owner: string,
+	update: CheckpointUpdate,
+	calculationStartedAt: Date
+): Promise<void> {
+	const firestore = getFirestore()
+	const ref = checkpointRef()
+
+	await firestore.runTransaction(async (transaction) => {
+		const snapshot = await transaction.get(ref)
+		const existing = snapshot.data() as RankingsCheckpointDocument | undefined
+
+		if (existing?.lock?.owner !== owner) {
+			throw new Error('Rankings calculation lock was lost before saving')
+		}
+
+		const rebuildRequired =
+			existing.rebuildRequired &&
+			existing.rebuildRequired.flaggedAt.toMillis() >
+				calculationStartedAt.getTime()
+				? existing.rebuildRequired
+				: null
+
+		const checkpoint: RankingsCheckpointDocument = {
+			lastRoundId: update.lastRound.roundId,
+			lastRoundStartTime: Timestamp.fromDate(update.lastRound.startTime),
+			seasonIds: update.seasonIds,
+			calculationId: update.calculationId,
+			parameters: update.parameters,
+			predictionStats: update.predictionStats,
+			updatedAt: Timestamp.now(),
+			rebuildRequired,
+			lock: null,
+		}
+		transaction.set(ref, checkpoint)
+	})
+}
+
+/**
+ * Marks the stored ratings as out of date so the next scheduled check runs
+ * a full rebuild. An existing flag is left as it is.
+ */
+export async function flagRebuildRequired(
+	reason: string,
+	gameId: string | null = null
+): Promise<void> {
+	const firestore = getFirestore()
+	const ref = checkpointRef()
+
+	const flagged = await firestore.runTransaction(async (transaction) => {
+		const snapshot = await transaction.get(ref)
+		const existing = snapshot.data() as RankingsCheckpointDocument | undefined
+
+		if (existing?.rebuildRequired) {
+			return false
+		}
+
+		transaction.set(
+			ref,
+			{ rebuildRequired: { reason, gameId, flaggedAt: Timestamp.now() } },
+			{ merge: true }
+		)
+		return true
+	})
+
+	if (flagged) {
+		logger.info('Player rankings flagged for full rebuild', { reason, gameId })
+	}
+}
@@ -0,0 +1,46 @@
+import { getFirestore } from 'firebase-admin/firestore'
+import { Collections } from '../../../types.js'
+
+/**
+ * Where a calculation writes its rankings and round snapshots
+ *
+ * Live calculations write the public `rankings` and `rankings-history`
+ * collections. Shadow runs write under their calculation document
+ * (`rankings-calculations/{calculationId}/rankings` and `/history`), so they
+ * can be compared with the live rankings and promoted later.
+ */
+export type RankingsNamespace =
+	| { target: 'live' }
+	| { target: 'shadow'; calculationId: string }
+
+export const LIVE_NAMESPACE: RankingsNamespace = { target: 'live' }
+
+/**
+ * Collection holding a namespace's player rankings
+ */
+export function rankingsCollection(
+	namespace: RankingsNamespace
+): FirebaseFirestore.CollectionReference {
+	const firestore = getFirestore()
+	return namespace.target === 'live'
+		? firestore.collection(Collections.RANKINGS)
+		: firestore
+				.collection(Collections.RANKINGS_CALCULATIONS)
+				.doc(namespace.calculationId)
+				.collection('rankings')
+}
+
+/**
+ * Collection holding a namespace's round snapshots
+ */
+export function historyCollection(
+	namespace: RankingsNamespace
+): FirebaseFirestore.CollectionReference {
+	const firestore = getFirestore()
+	return namespace.target === 'live'
+		? firestore.collection(Collections.RANKINGS_HISTORY)
+		: firestore
+				.collection(Collections.RANKINGS_CALCULATIONS)
+				.doc(namespace.calculationId)
+				.collection('history')
+}
@@ -1,19 +1,23 @@
-import { getFirestore, FieldValue } from 'firebase-admin/firestore'
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
 import { Collections, PlayerRankingDocument } from '../../../types.js'
 import { PlayerRatingState } from '../types.js'
 import { calculateRanksWithTieHandling } from '../utils/rankCalculator.js'
+import {
+	LIVE_NAMESPACE,
+	RankingsNamespace,
+	rankingsCollection,
+} from './namespace.js'
 
 /**
  * Loads previous rankings to calculate rating changes
  */
-async function loadPreviousRankings(): Promise<Map<string, number>> {
-	const firestore = getFirestore()
+async function loadPreviousRankings(
+	namespace: RankingsNamespace
+): Promise<Map<string, number>> {
 	const previousRatings = new Map<string, number>()
 
-	const rankingsSnapshot = await firestore
-		.collection(Collections.RANKINGS)
-		.get()
+	const rankingsSnapshot = await rankingsCollection(namespace).get()
 
 	for (const doc of rankingsSnapshot.docs) {
 		const data = doc.data() as PlayerRankingDocument
@@ -61,20 +65,70 @@ export function calculatePlayerRankings(
 			lastUpdated: FieldValue.serverTimestamp(),
 			lastSeasonId: player.lastSeasonId,
 			lastRatingChange,
+			// Full rating state, so later rounds can be applied incrementally
+			sigma: player.sigma,
+			roundsSinceLastGame: player.roundsSinceLastGame,
+			lastGameDate: player.lastGameDate
+				? Timestamp.fromDate(player.lastGameDate)
+				: null,
+			seasonsPlayed: Array.from(player.seasonsPlayed),
 		}
 	})
 }
 
+/**
+ * Loads the player rating states stored with the current rankings, to apply
+ * new rounds on top of them
+ */
+export async function loadPlayerRatingStates(): Promise<
+	Map<string, PlayerRatingState>
+> {
+	const firestore = getFirestore()
+	const playerRatings = new Map<string, PlayerRatingState>()
+
+	const rankingsSnapshot = await firestore
+		.collection(Collections.RANKINGS)
+		.get()
+
+	for (const doc of rankingsSnapshot.docs) {
+		const data = doc.data() as PlayerRankingDocument
+
+		// Rankings saved before rating states were stored can't be continued
+		if (typeof data.sigma !== 'number') {
+			logger.warn(`Skipping ranking without rating state: ${doc.id}`)
+			continue
+		}
+
+		playerRatings.set(doc.id, {
+			playerId: doc.id,
+			playerName: data.playerName,
+			mu: data.rating,
+			sigma: data.sigma,
+			totalGames: data.totalGames,
+			totalSeasons: data.totalSeasons,
+			seasonsPlayed: new Set(data.seasonsPlayed),
+			lastSeasonId: data.lastSeasonId,
+			lastGameDate: data.lastGameDate?.toDate() ?? null,
+			roundsSinceLastGame: data.roundsSinceLastGame,
+		})
+	}
+
+	return playerRatings
+}
+
 /**
  * Saves final player rankings to Firestore
+ *
+ * @param namespace - Live rankings, or a shadow run's namespace
  */
 export async function saveFinalRankings(
-	playerRatings: Map<string, PlayerRatingState>
+	playerRatings: Map<string, PlayerRatingState>,
+	namespace: RankingsNamespace = LIVE_NAMESPACE
 ): Promise<void> {
 	const firestore = getFirestore()
 
 	// Load previous rankings for calculating rating changes
-	const previousRatings = await loadPreviousRankings()
+	const previousRatings = await loadPreviousRankings(namespace)
 
 	const rankings = calculatePlayerRankings(playerRatings, previousRatings)
 
@@ -90,9 +144,7 @@ export async function saveFinalRankings(
 		}
 
 		// Use the actual player ID for the document ID
-		const rankingRef = firestore
-			.collection(Collections.RANKINGS)
-			.doc(ranking.playerId)
+		const rankingRef = rankingsCollection(namespace).doc(ranking.playerId)
 
 		batch.set(rankingRef, rankingDoc)
 	}
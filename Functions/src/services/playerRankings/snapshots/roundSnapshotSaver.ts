@@ -7,6 +7,11 @@ import {
 import { PlayerRatingState } from '../types.js'
 import { createTimeBasedSnapshot } from './snapshotCreator.js'
 import { GameRound } from '../gameProcessing/roundGrouper.js'
+import {
+	historyCollection,
+	LIVE_NAMESPACE,
+	RankingsNamespace,
+} from '../persistence/namespace.js'
 
 /**
  * Saves a ranking snapshot after each round of games
@@ -15,7 +20,8 @@ export async function saveRoundSnapshot(
 	round: GameRound,
 	playerRatings: Map<string, PlayerRatingState>,
 	previousRatings: Map<string, number>,
-	calculationId: string
+	calculationId: string,
+	namespace: RankingsNamespace = LIVE_NAMESPACE
 ): Promise<void> {
 	const firestore = getFirestore()
 	const seasonRef = firestore
@@ -41,8 +47,5 @@ export async function saveRoundSnapshot(
 	// Use round ID as the document ID for chronological ordering
 	// Format: {timestamp}_{seasonId}
 	const snapshotId = `${round.roundId}_${round.seasonId}`
-	await firestore
-		.collection(Collections.RANKINGS_HISTORY)
-		.doc(snapshotId)
-		.set(snapshotDoc)
+	await historyCollection(namespace).doc(snapshotId).set(snapshotDoc)
 }
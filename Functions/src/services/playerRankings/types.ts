@@ -1,4 +1,4 @@
-import { GameDocument } from '../../types.js'
+import { DocumentReference, GameDocument, PlayerDocument } from '../../types.js'
 
 export interface GameProcessingData extends GameDocument {
 	id: string
@@ -6,6 +6,15 @@ export interface GameProcessingData extends GameDocument {
 	gameDate: Date
 }
 
+/**
+ * Players credited with a game's result, per side.
+ * Sourced from game attendance, falling back to the team's season roster.
+ */
+export interface GameParticipants {
+	home: DocumentReference<PlayerDocument>[]
+	away: DocumentReference<PlayerDocument>[]
+}
+
 /**
  * Player rating state using TrueSkill algorithm
  *
@@ -27,3 +36,23 @@ export interface PlayerRatingState {
 	lastGameDate: Date | null // Track when player last played a game
 	roundsSinceLastGame: number // Track rounds of inactivity
 }
+
+/**
+ * A game's pre-game prediction, made from ratings before the game is applied
+ */
+export interface GamePrediction {
+	/** Probability the home team wins */
+	homeWinProbability: number
+	/** Whether the home team actually won */
+	homeWon: boolean
+}
+
+/**
+ * Outcome of a rankings calculation run
+ */
+export interface RankingsCalculationResult {
+	calculationId: string
+	status: 'completed' | 'failed'
+	/** Error message when the calculation failed */
+	error?: string
+}
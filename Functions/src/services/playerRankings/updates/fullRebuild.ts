@@ -0,0 +1,235 @@
+import { logger } from 'firebase-functions/v2'
+import { RankingsParameters, RankingsPredictionStats } from '../../../types.js'
+import { resolveRankingsParameters } from '../constants.js'
+import {
+	loadGamesForCalculation,
+	loadSeasonsInOrder,
+} from '../gameProcessing/gameLoader.js'
+import {
+	processGamesByRounds,
+	RoundProcessingOptions,
+} from '../gameProcessing/roundProcessor.js'
+import {
+	completeCalculation,
+	createCalculationState,
+	failCalculation,
+	updateCalculationState,
+} from '../persistence/calculationState.js'
+import {
+	acquireCalculationLock,
+	loadCheckpoint,
+	releaseCalculationLock,
+	saveCheckpoint,
+} from '../persistence/checkpoint.js'
+import { LIVE_NAMESPACE } from '../persistence/namespace.js'
+import { saveFinalRankings } from '../persistence/rankingsSaver.js'
+import { PlayerRatingState, RankingsCalculationResult } from '../types.js'
+
+/**
+ * What a full rebuild processed
+ */
+interface FullRebuildOutcome {
+	predictionStats: RankingsPredictionStats
+	/** Last round processed, or null when there were no scored games */
+	lastRound: { roundId: string; startTime: Date } | null
+	/** Season IDs, oldest first, the games were weighted against */
+	seasonIds: string[]
+}
+
+/**
+ * Process the complete rebuild - all games from scratch
+ * Starts with empty player ratings and processes all games chronologically
+ */
+async function processFullRebuild(
+	calculationId: string,
+	options: RoundProcessingOptions
+): Promise<FullRebuildOutcome> {
+	try {
+		await updateCalculationState(calculationId, {
+			status: 'running',
+			'progress.currentStep':
+				'Loading all seasons and games for complete rebuild...',
+		})
+
+		// Get all seasons ordered by start date
+		const seasons = await loadSeasonsInOrder()
+
+		logger.info(`Found ${seasons.length} seasons for complete rebuild`)
+
+		await updateCalculationState(calculationId, {
+			'progress.totalSeasons': seasons.length,
+		})
+
+		// Load ALL games from ALL seasons (startSeasonIndex = 0)
+		const allGames = await loadGamesForCalculation(seasons, 0)
+		logger.info(`Loaded ${allGames.length} total games for complete rebuild`)
+
+		await updateCalculationState(calculationId, {
+			'progress.currentStep': 'Rebuilding rankings from scratch...',
+			'progress.totalGames': allGames.length,
+		})
+
+		// Start with completely empty player ratings (complete rebuild)
+		const playerRatings = new Map<string, PlayerRatingState>()
+		logger.info('Starting complete rebuild with empty player ratings')
+
+		// Process ALL games by rounds in chronological order
+		// Round-based decay is applied automatically during round processing
+		const predictionStats = await processGamesByRounds(
+			allGames,
+			playerRatings,
+			calculationId,
+			seasons.length,
+			options
+		)
+
+		logger.info(
+			`After complete rebuild: ${playerRatings.size} players with ratings`
+		)
+
+		// Save final rankings
+		await updateCalculationState(calculationId, {
+			'progress.currentStep': 'Saving rebuilt rankings...',
+			'progress.percentComplete': 95,
+		})
+
+		await saveFinalRankings(playerRatings, options.namespace)
+		logger.info('Complete rebuild: Final rankings saved successfully')
+
+		// Games are sorted by date, so the last game starts the last round
+		const lastGame = allGames[allGames.length - 1]
+
+		return {
+			predictionStats,
+			lastRound: lastGame
+				? {
+						roundId: lastGame.gameDate.getTime().toString(),
+						startTime: lastGame.gameDate,
+					}
+				: null,
+			seasonIds: seasons.map((season) => season.id),
+		}
+	} catch (error) {
+		logger.error(`Player Rankings rebuild failed: ${calculationId}`, error)
+		throw error
+	}
+}
+
+/**
+ * Rebuilds the live player rankings from scratch with the live parameters,
+ * then checkpoints the last round so later rounds can be applied on top
+ *
+ * @param triggeredBy - UID of the admin who started the rebuild, or
+ * 'system' for the scheduled check
+ * @returns The calculation outcome, or null when another calculation is
+ * already running
+ */
+export async function runFullRebuild(
+	triggeredBy: string
+): Promise<RankingsCalculationResult | null> {
+	const lockOwner = await acquireCalculationLock()
+	if (!lockOwner) {
+		return null
+	}
+
+	const startedAt = new Date()
+
+	try {
+		// Keep any parameters promoted from a shadow run
+		const checkpoint = await loadCheckpoint()
+		const parameters = resolveRankingsParameters(checkpoint?.parameters)
+
+		// Create calculation state document for tracking
+		const calculationId = await createCalculationState(
+			'fresh',
+			triggeredBy,
+			parameters
+		)
+
+		try {
+			const outcome = await processFullRebuild(calculationId, {
+				parameters,
+				namespace: LIVE_NAMESPACE,
+			})
+
+			if (outcome.lastRound) {
+				await saveCheckpoint(
+					lockOwner,
+					{
+						calculationId,
+						lastRound: outcome.lastRound,
+						seasonIds: outcome.seasonIds,
+						parameters,
+						predictionStats: outcome.predictionStats,
+					},
+					startedAt
+				)
+			}
+
+			await completeCalculation(
+				calculationId,
+				outcome.predictionStats,
+				outcome.lastRound && {
+					...outcome.lastRound,
+					seasonIds: outcome.seasonIds,
+				}
+			)
+			logger.info(`Player Rankings complete rebuild finished: ${calculationId}`)
+			return { calculationId, status: 'completed' }
+		} catch (error) {
+			await failCalculation(calculationId, error)
+			return {
+				calculationId,
+				status: 'failed',
+				error: error instanceof Error ? error.message : 'Unknown error',
+			}
+		}
+	} finally {
+		// No-op when the checkpoint was saved, which releases the lock itself
+		await releaseCalculationLock(lockOwner)
+	}
+}
+
+/**
+ * Rebuilds player rankings from scratch with custom parameters into a shadow
+ * namespace, leaving the live rankings untouched
+ *
+ * @param triggeredBy - UID of the admin who started the run
+ * @param parameters - Parameters to try
+ */
+export async function runShadowRebuild(
+	triggeredBy: string,
+	parameters: RankingsParameters
+): Promise<RankingsCalculationResult> {
+	const calculationId = await createCalculationState(
+		'fresh',
+		triggeredBy,
+		parameters,
+		'shadow'
+	)
+
+	try {
+		const outcome = await processFullRebuild(calculationId, {
+			parameters,
+			namespace: { target: 'shadow', calculationId },
+		})
+
+		await completeCalculation(
+			calculationId,
+			outcome.predictionStats,
+			outcome.lastRound && {
+				...outcome.lastRound,
+				seasonIds: outcome.seasonIds,
+			}
+		)
+		logger.info(`Player Rankings shadow rebuild finished: ${calculationId}`)
+		return { calculationId, status: 'completed' }
+	} catch (error) {
+		await failCalculation(calculationId, error)
+		return {
+			calculationId,
+			status: 'failed',
+			error: error instanceof Error ? error.message : 'Unknown error',
+		}
+	}
+}
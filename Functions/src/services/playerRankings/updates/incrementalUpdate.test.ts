@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+import { Timestamp } from 'firebase-admin/firestore'
+import { GameDocument, GameStatus } from '../../../types.js'
+import {
+	flagRebuildRequired,
+	loadCheckpoint,
+} from '../persistence/checkpoint.js'
+import { handleAttendanceChangeForRankings } from './incrementalUpdate.js'
+
+vi.mock('../persistence/checkpoint.js', () => ({
+	acquireCalculationLock: vi.fn(),
+	flagRebuildRequired: vi.fn(),
+	loadCheckpoint: vi.fn(),
+	releaseCalculationLock: vi.fn(),
+	saveCheckpoint: vi.fn(),
+}))
+
+const checkpointTime = new Date('2026-01-10T18:00:00Z')
+
+const game = (date: Date, overrides: Partial<GameDocument> = {}) =>
+	({
+		date: Timestamp.fromDate(date),
+		homeScore: 3,
+		awayScore: 2,
+		status: GameStatus.FINAL,
+		...overrides,
+	}) as GameDocument
+
+describe('handleAttendanceChangeForRankings', () => {
+	beforeEach(() => {
+		vi.mocked(flagRebuildRequired).mockReset()
+		vi.mocked(loadCheckpoint).mockReset()
+		vi.mocked(loadCheckpoint).mockResolvedValue({
+			lastRoundStartTime: Timestamp.fromDate(checkpointTime),
+		} as Awaited<ReturnType<typeof loadCheckpoint>>)
+	})
+
+	test('flags a rebuild for a game at or before the checkpoint', async () => {
+		await handleAttendanceChangeForRankings('game-1', game(checkpointTime))
+
+		expect(flagRebuildRequired).toHaveBeenCalledWith(
+			expect.stringContaining('game-1'),
+			'game-1'
+		)
+	})
+
+	test('leaves a game after the checkpoint to the next applied round', async () => {
+		await handleAttendanceChangeForRankings(
+			'game-2',
+			game(new Date('2026-01-17T18:00:00Z'))
+		)
+
+		expect(flagRebuildRequired).not.toHaveBeenCalled()
+	})
+
+	test('ignores games whose result does not move ratings', async () => {
+		await handleAttendanceChangeForRankings(
+			'game-3',
+			game(new Date('2026-01-03T18:00:00Z'), { status: GameStatus.FORFEIT })
+		)
+
+		expect(loadCheckpoint).not.toHaveBeenCalled()
+		expect(flagRebuildRequired).not.toHaveBeenCalled()
+	})
+})
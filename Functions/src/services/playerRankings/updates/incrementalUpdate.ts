@@ -0,0 +1,329 @@
+import { getFirestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { Collections, GameDocument } from '../../../types.js'
+import {
+	INCREMENTAL_UPDATE_CONSTANTS,
+	resolveRankingsParameters,
+} from '../constants.js'
+import { loadSeasonsInOrder } from '../gameProcessing/gameLoader.js'
+import {
+	GameRound,
+	groupGamesByRounds,
+} from '../gameProcessing/roundGrouper.js'
+import { processGamesByRounds } from '../gameProcessing/roundProcessor.js'
+import {
+	completeCalculation,
+	createCalculationState,
+	failCalculation,
+	updateCalculationState,
+} from '../persistence/calculationState.js'
+import {
+	acquireCalculationLock,
+	flagRebuildRequired,
+	loadCheckpoint,
+	releaseCalculationLock,
+	saveCheckpoint,
+} from '../persistence/checkpoint.js'
+import { LIVE_NAMESPACE } from '../persistence/namespace.js'
+import {
+	loadPlayerRatingStates,
+	saveFinalRankings,
+} from '../persistence/rankingsSaver.js'
+import { GameProcessingData, RankingsCalculationResult } from '../types.js'
+import { addPredictionStats } from '../utils/predictionStats.js'
+import { hasRatedResult, isUnplayed } from '../../../shared/gameStatus.js'
+
+/**
+ * Whether a game has a final score that moves ratings (not a forfeit)
+ */
+function isScored(game: GameDocument | undefined): game is GameDocument {
+	return !!game && hasRatedResult(game)
+}
+
+/**
+ * Whether a round can be applied: every game with both teams set has a
+ * score or was forfeited, postponed or canceled, or the round started long
+ * enough ago that its unscored games are taken as not played
+ */
+function isRoundReady(round: GameRound, now: number): boolean {
+	const startTime = round.startTime.getTime()
+	if (startTime > now) {
+		return false
+	}
+
+	const settleMs = INCREMENTAL_UPDATE_CONSTANTS.ROUND_SETTLE_HOURS * 3600000
+	if (now - startTime >= settleMs) {
+		return true
+	}
+
+	return round.games.every(
+		(game) => !game.home || !game.away || isScored(game) || isUnplayed(game)
+	)
+}
+
+/**
+ * Loads the scored games of the rounds after the checkpoint that are ready
+ * to apply. Stops at the first round that isn't ready, since later rounds
+ * have to be applied after it.
+ */
+async function loadReadyGames(
+	after: FirebaseFirestore.Timestamp,
+	seasonOrderById: Map<string, number>
+): Promise<GameProcessingData[]> {
+	const firestore = getFirestore()
+	const gamesSnapshot = await firestore
+		.collection(Collections.GAMES)
+		.where('date', '>', after)
+		.orderBy('date', 'asc')
+		.get()
+
+	const games = gamesSnapshot.docs.flatMap((doc) => {
+		const gameData = doc.data() as GameDocument
+		const seasonOrder = seasonOrderById.get(gameData.season.id)
+		if (seasonOrder === undefined) {
+			logger.warn(`Skipping game ${doc.id} from unknown season`)
+			return []
+		}
+		return [
+			{
+				id: doc.id,
+				...gameData,
+				seasonOrder,
+				gameDate: gameData.date.toDate(),
+			} as GameProcessingData,
+		]
+	})
+
+	const now = Date.now()
+	const readyGames: GameProcessingData[] = []
+	for (const round of groupGamesByRounds(games)) {
+		if (!isRoundReady(round, now)) {
+			break
+		}
+		readyGames.push(...round.games.filter((game) => isScored(game)))
+	}
+
+	return readyGames
+}
+
+/**
+ * Applies newly scored rounds on top of the stored player rating states
+ *
+ * Only rounds after the checkpoint are processed; each gets its
+ * `rankings-history` snapshot as in a full rebuild. If the seasons have
+ * changed since the checkpoint, a full rebuild is flagged instead.
+ *
+ * @param triggeredBy - Who or what detected the new round
+ * @returns The calculation outcome, or null when there was nothing to apply
+ * (or another calculation is running, in which case it picks the rounds up)
+ */
+export async function applyNewRounds(
+	triggeredBy: string
+): Promise<RankingsCalculationResult | null> {
+	const lockOwner = await acquireCalculationLock()
+	if (!lockOwner) {
+		logger.info('Skipping incremental rankings update — calculation running')
+		return null
+	}
+
+	const startedAt = new Date()
+	let calculationId: string | null = null
+	let ratingsSaved = false
+
+	try {
+		const checkpoint = await loadCheckpoint()
+		if (!checkpoint || checkpoint.rebuildRequired) {
+			return null
+		}
+
+		const seasons = await loadSeasonsInOrder()
+		const seasonIds = seasons.map((season) => season.id)
+		if (seasonIds.join(',') !== checkpoint.seasonIds.join(',')) {
+			await flagRebuildRequired('Seasons changed since the last calculation')
+			return null
+		}
+
+		const seasonOrderById = new Map(
+			seasonIds.map((seasonId, index) => [
+				seasonId,
+				seasonIds.length - 1 - index, // 0 = most recent
+			])
+		)
+		const readyGames = await loadReadyGames(
+			checkpoint.lastRoundStartTime,
+			seasonOrderById
+		)
+		if (readyGames.length === 0) {
+			return null
+		}
+
+		const parameters = resolveRankingsParameters(checkpoint.parameters)
+		calculationId = await createCalculationState(
+			'incremental',
+			triggeredBy,
+			parameters
+		)
+		const seasonsInUpdate = new Set(readyGames.map((game) => game.season.id))
+
+		logger.info('Applying new rounds to player rankings', {
+			calculationId,
+			after: checkpoint.lastRoundStartTime.toDate().toISOString(),
+			games: readyGames.length,
+		})
+
+		await updateCalculationState(calculationId, {
+			status: 'running',
+			'progress.currentStep': 'Applying new rounds...',
+			'progress.totalSeasons': seasonsInUpdate.size,
+			'progress.totalGames': readyGames.length,
+		})
+
+		const playerRatings = await loadPlayerRatingStates()
+		const predictionStats = await processGamesByRounds(
+			readyGames,
+			playerRatings,
+			calculationId,
+			seasonsInUpdate.size,
+			{ parameters, namespace: LIVE_NAMESPACE }
+		)
+
+		await updateCalculationState(calculationId, {
+			'progress.currentStep': 'Saving updated rankings...',
+			'progress.percentComplete': 95,
+		})
+
+		ratingsSaved = true
+		await saveFinalRankings(playerRatings)
+
+		const lastGame = readyGames[readyGames.length - 1]
+		const lastRound = {
+			roundId: lastGame.gameDate.getTime().toString(),
+			startTime: lastGame.gameDate,
+		}
+		await saveCheckpoint(
+			lockOwner,
+			{
+				calculationId,
+				lastRound,
+				seasonIds,
+				parameters,
+				predictionStats: addPredictionStats(
+					checkpoint.predictionStats,
+					predictionStats
+				),
+			},
+			startedAt
+		)
+
+		await completeCalculation(calculationId, predictionStats, {
+			...lastRound,
+			seasonIds,
+		})
+
+		logger.info(`Player Rankings incremental update finished: ${calculationId}`)
+		return { calculationId, status: 'completed' }
+	} catch (error) {
+		const errorMessage =
+			error instanceof Error ? error.message : 'Unknown error'
+		logger.error('Player Rankings incremental update failed:', error)
+
+		// Once ratings may have been written ahead of the checkpoint, applying
+		// the same rounds again would count them twice, so only a rebuild is safe
+		if (ratingsSaved) {
+			await flagRebuildRequired(`Incremental update failed: ${errorMessage}`)
+		}
+
+		if (!calculationId) {
+			throw error
+		}
+
+		await failCalculation(calculationId, error)
+		return { calculationId, status: 'failed', error: errorMessage }
+	} finally {
+		// No-op when the checkpoint was saved, which releases the lock itself
+		await releaseCalculationLock(lockOwner)
+	}
+}
+
+/**
+ * Keeps player rankings in step with a changed game
+ *
+ * A change to a rated result at or before the checkpoint flags a full
+ * rebuild, since it alters ratings every later round built on. Any other
+ * scored change applies whatever new rounds are ready.
+ *
+ * @param before - Game data before the write (undefined when created)
+ * @param after - Game data after the write (undefined when deleted)
+ */
+export async function handleGameChangeForRankings(
+	gameId: string,
+	before: GameDocument | undefined,
+	after: GameDocument | undefined
+): Promise<void> {
+	if (!isScored(before) && !isScored(after)) {
+		return
+	}
+
+	const resultChanged =
+		before?.homeScore !== after?.homeScore ||
+		before?.awayScore !== after?.awayScore ||
+		before?.status !== after?.status ||
+		before?.date.toMillis() !== after?.date.toMillis() ||
+		before?.home?.id !== after?.home?.id ||
+		before?.away?.id !== after?.away?.id ||
+		before?.type !== after?.type
+	if (!resultChanged) {
+		return
+	}
+
+	const checkpoint = await loadCheckpoint()
+	if (!checkpoint) {
+		logger.info('No rankings checkpoint yet — run a full rebuild first')
+		return
+	}
+
+	const checkpointTime = checkpoint.lastRoundStartTime.toMillis()
+	const changesProcessedRound = [before, after].some(
+		(game) => isScored(game) && game.date.toMillis() <= checkpointTime
+	)
+
+	if (changesProcessedRound) {
+		await flagRebuildRequired(
+			`Game ${gameId} changed at or before the last processed round`,
+			gameId
+		)
+		return
+	}
+
+	await applyNewRounds('system')
+}
+
+/**
+ * Keeps player rankings in step with a game's changed attendance
+ *
+ * Attendance decides which players a result is credited to, so an edit for
+ * a rated game at or before the checkpoint flags a full rebuild. Attendance
+ * for a later game is picked up when its round is applied.
+ *
+ * @param game - The game whose attendance changed
+ */
+export async function handleAttendanceChangeForRankings(
+	gameId: string,
+	game: GameDocument
+): Promise<void> {
+	if (!isScored(game)) {
+		return
+	}
+
+	const checkpoint = await loadCheckpoint()
+	if (!checkpoint) {
+		return
+	}
+
+	if (game.date.toMillis() <= checkpoint.lastRoundStartTime.toMillis()) {
+		await flagRebuildRequired(
+			`Attendance for game ${gameId} changed at or before the last processed round`,
+			gameId
+		)
+	}
+}
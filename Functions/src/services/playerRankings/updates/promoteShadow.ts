@@ -0,0 +1,154 @@
+import { FieldValue, getFirestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { Collections, RankingsCalculationDocument } from '../../../types.js'
+import { resolveRankingsParameters } from '../constants.js'
+import {
+	acquireCalculationLock,
+	flagRebuildRequired,
+	releaseCalculationLock,
+	saveCheckpoint,
+} from '../persistence/checkpoint.js'
+import {
+	historyCollection,
+	LIVE_NAMESPACE,
+	rankingsCollection,
+} from '../persistence/namespace.js'
+
+/** Max writes per batch (Firestore limit is 500) */
+const RANKINGS_BATCH_SIZE = 400
+
+/** History snapshots hold every player's ranking, so batch far fewer */
+const HISTORY_BATCH_SIZE = 20
+
+/**
+ * Replaces every document in `target` with the documents in `source`,
+ * keeping document IDs
+ */
+async function replaceCollection(
+	source: FirebaseFirestore.CollectionReference,
+	target: FirebaseFirestore.CollectionReference,
+	batchSize: number
+): Promise<number> {
+	const firestore = getFirestore()
+	const [sourceSnapshot, targetSnapshot] = await Promise.all([
+		source.get(),
+		target.get(),
+	])
+	const sourceIds = new Set(sourceSnapshot.docs.map((doc) => doc.id))
+
+	const writes: ((batch: FirebaseFirestore.WriteBatch) => void)[] = [
+		...targetSnapshot.docs
+			.filter((doc) => !sourceIds.has(doc.id))
+			.map((doc) => (batch: FirebaseFirestore.WriteBatch) => {
+				batch.delete(doc.ref)
+			}),
+		...sourceSnapshot.docs.map(
+			(doc) => (batch: FirebaseFirestore.WriteBatch) => {
+				batch.set(target.doc(doc.id), doc.data())
+			}
+		),
+	]
+
+	for (let i = 0; i < writes.length; i += batchSize) {
+		const batch = firestore.batch()
+		writes.slice(i, i + batchSize).forEach((write) => write(batch))
+		await batch.commit()
+	}
+
+	return sourceSnapshot.size
+}
+
+/**
+ * Makes a completed shadow run the live rankings
+ *
+ * Copies the run's rankings and round snapshots over the live collections
+ * and moves the checkpoint (with the run's parameters) to the run's last
+ * round. Rounds scored since the run are then applied incrementally with
+ * the promoted parameters.
+ *
+ * @param calculation - The shadow run's calculation document
+ * @returns False when another calculation is running
+ */
+export async function promoteShadowRun(
+	calculationId: string,
+	calculation: RankingsCalculationDocument,
+	promotedBy: string
+): Promise<boolean> {
+	if (!calculation.lastRound || !calculation.predictionStats) {
+		throw new Error('Shadow run has no processed rounds to promote')
+	}
+
+	const lockOwner = await acquireCalculationLock()
+	if (!lockOwner) {
+		return false
+	}
+
+	try {
+		const shadowNamespace = { target: 'shadow' as const, calculationId }
+
+		const rankingsCount = await replaceCollection(
+			rankingsCollection(shadowNamespace),
+			rankingsCollection(LIVE_NAMESPACE),
+			RANKINGS_BATCH_SIZE
+		)
+		const snapshotsCount = await replaceCollection(
+			historyCollection(shadowNamespace),
+			historyCollection(LIVE_NAMESPACE),
+			HISTORY_BATCH_SIZE
+		)
+
+		// Calculation parameters also hold run options, so copy field by field
+		const parameters = resolveRankingsParameters(calculation.parameters)
+
+		// Edits flagged since the run started are kept, as the run may predate them
+		await saveCheckpoint(
+			lockOwner,
+			{
+				calculationId,
+				lastRound: {
+					roundId: calculation.lastRound.roundId,
+					startTime: calculation.lastRound.startTime.toDate(),
+				},
+				seasonIds: calculation.lastRound.seasonIds,
+				parameters: {
+					beta: parameters.beta,
+					tau: parameters.tau,
+					seasonDecayFactor: parameters.seasonDecayFactor,
+					gravityWellPerRound: parameters.gravityWellPerRound,
+					inactivityDecayPerRound: parameters.inactivityDecayPerRound,
+					playoffMultiplier: parameters.playoffMultiplier,
+					marginOfVictoryWeight: parameters.marginOfVictoryWeight,
+					marginOfVictoryCap: parameters.marginOfVictoryCap,
+				},
+				predictionStats: calculation.predictionStats,
+			},
+			calculation.startedAt.toDate()
+		)
+
+		await getFirestore()
+			.collection(Collections.RANKINGS_CALCULATIONS)
+			.doc(calculationId)
+			.update({
+				promotedAt: FieldValue.serverTimestamp(),
+				promotedBy,
+			})
+
+		logger.info(`Promoted shadow rankings run: ${calculationId}`, {
+			rankingsCount,
+			snapshotsCount,
+			promotedBy,
+		})
+		return true
+	} catch (error) {
+		// The live collections may be part copied, so only a rebuild is safe
+		await flagRebuildRequired(
+			`Promoting shadow run ${calculationId} failed: ${
+				error instanceof Error ? error.message : 'Unknown error'
+			}`
+		)
+		throw error
+	} finally {
+		// No-op when the checkpoint was saved, which releases the lock itself
+		await releaseCalculationLock(lockOwner)
+	}
+}
@@ -0,0 +1,62 @@
+/**
+ * Prediction accuracy tracking
+ *
+ * Each game is predicted from the ratings before it is applied, so the
+ * accumulated stats measure how well a set of parameters anticipates results
+ * it hasn't seen yet.
+ */
+
+import { RankingsPredictionStats } from '../../../types.js'
+import { GamePrediction } from '../types.js'
+
+/** Probabilities are clamped away from 0 and 1 so log loss stays finite */
+const PROBABILITY_EPSILON = 1e-15
+
+/**
+ * Creates empty prediction stats
+ */
+export function emptyPredictionStats(): RankingsPredictionStats {
+	return { games: 0, correct: 0, brierSum: 0, logLossSum: 0 }
+}
+
+/**
+ * Adds one game's prediction to the stats
+ */
+export function recordPrediction(
+	stats: RankingsPredictionStats,
+	prediction: GamePrediction
+): void {
+	const outcome = prediction.homeWon ? 1 : 0
+	const probability = Math.min(
+		Math.max(prediction.homeWinProbability, PROBABILITY_EPSILON),
+		1 - PROBABILITY_EPSILON
+	)
+	const probabilityOfOutcome = prediction.homeWon
+		? probability
+		: 1 - probability
+
+	stats.games++
+	if (
+		prediction.homeWinProbability !== 0.5 &&
+		prediction.homeWinProbability > 0.5 === prediction.homeWon
+	) {
+		stats.correct++
+	}
+	stats.brierSum += (prediction.homeWinProbability - outcome) ** 2
+	stats.logLossSum += -Math.log(probabilityOfOutcome)
+}
+
+/**
+ * Combines the stats of two calculations over different games
+ */
+export function addPredictionStats(
+	a: RankingsPredictionStats,
+	b: RankingsPredictionStats
+): RankingsPredictionStats {
+	return {
+		games: a.games + b.games,
+		correct: a.correct + b.correct,
+		brierSum: a.brierSum + b.brierSum,
+		logLossSum: a.logLossSum + b.logLossSum,
+	}
+}
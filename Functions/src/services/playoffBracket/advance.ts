@@ -0,0 +1,73 @@
+/**
+ * Playoff bracket advancement
+ *
+ * Copies the winner of a scored bracket game into the game it feeds.
+ */
+
+import { getFirestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { GameDocument } from '../../types.js'
+
+/**
+ * Fills (or clears) the winner's slot in the next bracket game
+ *
+ * The slot always reflects the current result: a new or corrected score moves
+ * the winner in, and a cleared or tied score empties the slot. A next game
+ * that already has a score is left alone, so a late correction never rewrites
+ * a game that has been played.
+ *
+ * @param gameId - ID of the game that was scored (for logging)
+ * @param game - The game's current data
+ * @returns Whether the next game was updated
+ */
+export async function advanceBracketWinner(
+	gameId: string,
+	game: GameDocument
+): Promise<boolean> {
+	const link = game.bracket?.winnerTo
+	if (!game.bracket || !link) return false
+
+	const { homeScore, awayScore } = game
+	const decided =
+		homeScore !== null && awayScore !== null && homeScore !== awayScore
+	const homeWon = decided && homeScore > awayScore
+	const winner = decided
+		? {
+				team: homeWon ? game.home : game.away,
+				name: homeWon ? game.homeName : game.awayName,
+				seed: homeWon ? game.bracket.homeSeed : game.bracket.awaySeed,
+			}
+		: { team: null, name: null, seed: null }
+
+	return getFirestore().runTransaction(async (transaction) => {
+		const nextGameDoc = await transaction.get(link.game)
+		if (!nextGameDoc.exists) {
+			logger.warn('Next bracket game no longer exists', {
+				gameId,
+				nextGameId: link.game.id,
+			})
+			return false
+		}
+
+		const nextGame = nextGameDoc.data() as GameDocument
+		if ((nextGame[link.slot]?.id ?? null) === (winner.team?.id ?? null)) {
+			return false
+		}
+
+		if (nextGame.homeScore !== null || nextGame.awayScore !== null) {
+			logger.warn('Next bracket game already has a score; not advancing', {
+				gameId,
+				nextGameId: link.game.id,
+				winnerId: winner.team?.id ?? null,
+			})
+			return false
+		}
+
+		transaction.update(link.game, {
+			[link.slot]: winner.team,
+			[`${link.slot}Name`]: winner.name,
+			[`bracket.${link.slot}Seed`]: winner.seed,
+		})
+		return true
+	})
+}
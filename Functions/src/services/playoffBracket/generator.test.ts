@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'vitest'
+import { PlayoffBracket, PlayoffFormat } from '../../types.js'
+import { generatePlayoffBracket } from './generator.js'
+import { BracketGame, PlayoffBracketInput } from './types.js'
+
+const teams = (count: number) =>
+	Array.from({ length: count }, (_, index) => `team-${index + 1}`)
+
+const bracket = (input: Partial<PlayoffBracketInput> = {}) =>
+	generatePlayoffBracket({
+		teamIds: teams(8),
+		format: PlayoffFormat.SINGLE_ELIMINATION,
+		fieldCount: 4,
+		...input,
+	})
+
+const firstRoundSeeds = (games: BracketGame[]) =>
+	games
+		.filter((game) => game.round === 1)
+		.sort((a, b) => a.matchup - b.matchup)
+		.map((game) => [game.homeSeed, game.awaySeed])
+
+describe('generatePlayoffBracket', () => {
+	test('places seeds so the top two can only meet in the final', () => {
+		const result = bracket()
+
+		expect(result.games).toHaveLength(7)
+		expect(firstRoundSeeds(result.games)).toEqual([
+			[1, 8],
+			[4, 5],
+			[2, 7],
+			[3, 6],
+		])
+	})
+
+	test('sends each winner to the matching side of the next game', () => {
+		const games = bracket().games
+		const byKey = new Map(games.map((game) => [game.key, game]))
+
+		const final = games.find((game) => game.round === 3)
+		expect(final?.winnerTo).toBeNull()
+		for (const game of games.filter((g) => g.round === 1)) {
+			expect(byKey.get(game.winnerTo?.key ?? '')?.round).toBe(2)
+			expect(game.winnerTo?.slot).toBe(game.matchup % 2 === 1 ? 'home' : 'away')
+		}
+	})
+
+	test('gives the top seeds byes into the second round', () => {
+		const result = bracket({ teamIds: teams(6) })
+
+		expect(result.games).toHaveLength(5)
+		expect(firstRoundSeeds(result.games)).toEqual([
+			[4, 5],
+			[3, 6],
+		])
+		expect(
+			result.seeds.filter((seed) => seed.bye).map((seed) => seed.seed)
+		).toEqual([1, 2])
+		const secondRound = result.games.filter((game) => game.round === 2)
+		expect(secondRound.map((game) => game.homeSeed).sort()).toEqual([1, 2])
+	})
+
+	test('never schedules a game alongside or before the games feeding it', () => {
+		const result = bracket({ teamIds: teams(12), fieldCount: 3 })
+		const byKey = new Map(result.games.map((game) => [game.key, game]))
+
+		for (const game of result.games) {
+			const next = game.winnerTo && byKey.get(game.winnerTo.key)
+			if (next) {
+				expect(next.slot).toBeGreaterThan(game.slot)
+			}
+		}
+		const usage = new Map<number, number>()
+		for (const game of result.games) {
+			usage.set(game.slot, (usage.get(game.slot) ?? 0) + 1)
+		}
+		expect(Math.max(...usage.values())).toBeLessThanOrEqual(3)
+		expect(result.slotsNeeded).toBe(
+			Math.max(...result.games.map((game) => game.slot)) + 1
+		)
+	})
+
+	test('splits a consolation format into top and bottom halves', () => {
+		const result = bracket({ format: PlayoffFormat.CONSOLATION })
+
+		const seedsIn = (name: PlayoffBracket) =>
+			result.seeds
+				.filter((seed) => seed.bracket === name)
+				.map((seed) => seed.seed)
+		expect(seedsIn(PlayoffBracket.CHAMPIONSHIP)).toEqual([1, 2, 3, 4])
+		expect(seedsIn(PlayoffBracket.CONSOLATION)).toEqual([5, 6, 7, 8])
+		expect(result.games).toHaveLength(6)
+	})
+
+	test.each([
+		[{ teamIds: teams(1) }, 'A bracket needs at least 2 teams'],
+		[
+			{ teamIds: teams(3), format: PlayoffFormat.CONSOLATION },
+			'A consolation format needs at least 2 teams in each bracket',
+		],
+		[{ fieldCount: 0 }, 'At least one field is required'],
+	])('rejects an impossible bracket %#', (input, message) => {
+		expect(() => bracket(input)).toThrow(message)
+	})
+})
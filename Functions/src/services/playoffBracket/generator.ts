@@ -0,0 +1,226 @@
+/**
+ * Playoff Bracket Generator
+ *
+ * Lays out single-elimination brackets from a seeded list of teams. Each
+ * bracket is padded to the next power of two with byes for the top seeds,
+ * and seeds are placed in the standard order (1 v 8, 4 v 5, 2 v 7, 3 v 6) so
+ * the top two seeds can only meet in the final.
+ *
+ * Games are then packed into time slots round by round: a game is never
+ * scheduled before (or alongside) the games that feed it.
+ */
+
+import { PlayoffBracket, PlayoffFormat } from '../../types.js'
+import {
+	BracketGame,
+	BracketSeed,
+	PlayoffBracketInput,
+	PlayoffBracketResult,
+} from './types.js'
+
+/** Fewest teams that can make a bracket */
+const MIN_BRACKET_TEAMS = 2
+
+/**
+ * Seed positions for a bracket of the given size (a power of two), top of
+ * the bracket first. Consecutive pairs play each other in the first round.
+ */
+function seedOrder(size: number): number[] {
+	let order = [1]
+	while (order.length < size) {
+		const total = order.length * 2 + 1
+		order = order.flatMap((seed) => [seed, total - seed])
+	}
+	return order
+}
+
+/**
+ * Builds one single-elimination bracket
+ *
+ * @param teamIds - Teams in seeding order, best first
+ * @param firstSeed - Overall seed of the bracket's top team
+ */
+function buildBracket(
+	bracket: PlayoffBracket,
+	teamIds: string[],
+	firstSeed: number
+): { games: Omit<BracketGame, 'slot' | 'field'>[]; seeds: BracketSeed[] } {
+	const rounds = Math.ceil(Math.log2(teamIds.length))
+	const size = 2 ** rounds
+	const order = seedOrder(size)
+	const key = (round: number, matchup: number): string =>
+		`${bracket}-${round}-${matchup}`
+
+	const games = new Map<string, Omit<BracketGame, 'slot' | 'field'>>()
+	for (let round = 1; round <= rounds; round++) {
+		const matchups = size / 2 ** round
+		for (let matchup = 1; matchup <= matchups; matchup++) {
+			games.set(key(round, matchup), {
+				key: key(round, matchup),
+				bracket,
+				round,
+				rounds,
+				matchup,
+				homeTeamId: null,
+				awayTeamId: null,
+				homeSeed: null,
+				awaySeed: null,
+				winnerTo:
+					round < rounds
+						? {
+								key: key(round + 1, Math.ceil(matchup / 2)),
+								slot: matchup % 2 === 1 ? 'home' : 'away',
+							}
+						: null,
+			})
+		}
+	}
+
+	const seeds: BracketSeed[] = []
+	for (let matchup = 1; matchup <= size / 2; matchup++) {
+		const homePosition = order[(matchup - 1) * 2]
+		const awayPosition = order[(matchup - 1) * 2 + 1]
+		const firstRoundGame = games.get(key(1, matchup))
+		if (!firstRoundGame) continue
+
+		// Positions past the team count are byes: the other team goes
+		// straight into its second-round slot and no first-round game is played
+		const bye = awayPosition > teamIds.length
+		const target =
+			bye && firstRoundGame.winnerTo
+				? games.get(firstRoundGame.winnerTo.key)
+				: firstRoundGame
+		if (!target) continue
+		const homeSlot = bye ? (firstRoundGame.winnerTo?.slot ?? 'home') : 'home'
+
+		const place = (position: number, slot: 'home' | 'away'): void => {
+			const seed = firstSeed + position - 1
+			const teamId = teamIds[position - 1]
+			if (slot === 'home') {
+				target.homeTeamId = teamId
+				target.homeSeed = seed
+			} else {
+				target.awayTeamId = teamId
+				target.awaySeed = seed
+			}
+			seeds.push({ teamId, seed, bracket, bye })
+		}
+
+		place(homePosition, homeSlot)
+		if (bye) {
+			games.delete(firstRoundGame.key)
+		} else {
+			place(awayPosition, 'away')
+		}
+	}
+
+	seeds.sort((a, b) => a.seed - b.seed)
+	return { games: [...games.values()], seeds }
+}
+
+/**
+ * Packs games into time slots and fields, round by round
+ *
+ * A game's earliest slot is the one after its latest feeder game, so teams
+ * always have a result before their next game.
+ */
+function scheduleGames(
+	games: Omit<BracketGame, 'slot' | 'field'>[],
+	fieldCount: number
+): BracketGame[] {
+	const ordered = [...games].sort(
+		(a, b) =>
+			a.round - b.round ||
+			(a.bracket === b.bracket
+				? 0
+				: a.bracket === PlayoffBracket.CHAMPIONSHIP
+					? -1
+					: 1) ||
+			a.matchup - b.matchup
+	)
+
+	const earliestSlot = new Map<string, number>()
+	const slotUsage: number[] = []
+	const scheduled: BracketGame[] = []
+
+	for (const game of ordered) {
+		let slot = earliestSlot.get(game.key) ?? 0
+		while ((slotUsage[slot] ?? 0) >= fieldCount) {
+			slot++
+		}
+		const field = slotUsage[slot] ?? 0
+		slotUsage[slot] = field + 1
+		scheduled.push({ ...game, slot, field })
+
+		if (game.winnerTo) {
+			earliestSlot.set(
+				game.winnerTo.key,
+				Math.max(earliestSlot.get(game.winnerTo.key) ?? 0, slot + 1)
+			)
+		}
+	}
+
+	return scheduled.sort((a, b) => a.slot - b.slot || a.field - b.field)
+}
+
+/**
+ * Generates the playoff bracket(s) for a seeded list of teams
+ *
+ * @throws Error if there are too few teams for the requested format
+ */
+export function generatePlayoffBracket(
+	input: PlayoffBracketInput
+): PlayoffBracketResult {
+	const { teamIds, format, fieldCount } = input
+
+	if (fieldCount < 1) {
+		throw new Error('At least one field is required')
+	}
+
+	const brackets: { bracket: PlayoffBracket; teamIds: string[] }[] = []
+	if (format === PlayoffFormat.CONSOLATION) {
+		const championshipTeams =
+			input.championshipTeams ?? Math.ceil(teamIds.length / 2)
+		if (
+			championshipTeams < MIN_BRACKET_TEAMS ||
+			teamIds.length - championshipTeams < MIN_BRACKET_TEAMS
+		) {
+			throw new Error(
+				`A consolation format needs at least ${MIN_BRACKET_TEAMS} teams in each bracket`
+			)
+		}
+		brackets.push(
+			{
+				bracket: PlayoffBracket.CHAMPIONSHIP,
+				teamIds: teamIds.slice(0, championshipTeams),
+			},
+			{
+				bracket: PlayoffBracket.CONSOLATION,
+				teamIds: teamIds.slice(championshipTeams),
+			}
+		)
+	} else {
+		if (teamIds.length < MIN_BRACKET_TEAMS) {
+			throw new Error(`A bracket needs at least ${MIN_BRACKET_TEAMS} teams`)
+		}
+		brackets.push({ bracket: PlayoffBracket.CHAMPIONSHIP, teamIds })
+	}
+
+	const games: Omit<BracketGame, 'slot' | 'field'>[] = []
+	const seeds: BracketSeed[] = []
+	let firstSeed = 1
+	for (const entry of brackets) {
+		const built = buildBracket(entry.bracket, entry.teamIds, firstSeed)
+		games.push(...built.games)
+		seeds.push(...built.seeds)
+		firstSeed += entry.teamIds.length
+	}
+
+	const scheduled = scheduleGames(games, fieldCount)
+	return {
+		games: scheduled,
+		seeds,
+		slotsNeeded:
+			scheduled.reduce((latest, game) => Math.max(latest, game.slot), -1) + 1,
+	}
+}
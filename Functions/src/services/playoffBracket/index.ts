@@ -0,0 +1,19 @@
+/**
+ * Playoff Bracket Service
+ *
+ * Seeds playoff brackets from regular-season results, lays out their games,
+ * and advances winners as scores come in
+ */
+
+export { generatePlayoffBracket } from './generator.js'
+export { seedFromStandings, seedFromSwissRankings } from './seeding.js'
+export { advanceBracketWinner } from './advance.js'
+
+export type { PlayoffSeedingSource } from './seeding.js'
+export type {
+	PlayoffBracketInput,
+	BracketGame,
+	BracketGameLink,
+	BracketSeed,
+	PlayoffBracketResult,
+} from './types.js'
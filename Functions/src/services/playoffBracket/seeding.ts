@@ -0,0 +1,73 @@
+/**
+ * Playoff seeding
+ *
+ * Orders a season's teams by their final regular-season standings, matching
+ * the public standings pages.
+ */
+
+import { GameDocument } from '../../types.js'
+import { hasCountedResult } from '../../shared/gameStatus.js'
+import { calculateSwissRankings } from '../swissRankings/index.js'
+
+/** Where playoff seeds come from */
+export type PlayoffSeedingSource = 'standings' | 'swiss'
+
+/**
+ * Orders teams by wins, then point differential, like the traditional
+ * standings table. Remaining ties keep the order of `teamIds`.
+ *
+ * @param games - The season's regular season games
+ * @param teamIds - Teams to seed, in tie-break order
+ * @returns Team IDs, best first
+ */
+export function seedFromStandings(
+	games: GameDocument[],
+	teamIds: string[]
+): string[] {
+	const records = new Map(
+		teamIds.map((teamId) => [teamId, { wins: 0, differential: 0 }])
+	)
+
+	for (const game of games) {
+		if (!game.home || !game.away || !hasCountedResult(game)) {
+			continue
+		}
+
+		const home = records.get(game.home.id)
+		const away = records.get(game.away.id)
+		const margin = game.homeScore - game.awayScore
+		if (home) {
+			home.differential += margin
+			if (margin > 0) home.wins++
+		}
+		if (away) {
+			away.differential -= margin
+			if (margin < 0) away.wins++
+		}
+	}
+
+	return [...teamIds].sort((a, b) => {
+		const recordA = records.get(a) ?? { wins: 0, differential: 0 }
+		const recordB = records.get(b) ?? { wins: 0, differential: 0 }
+		return (
+			recordB.wins - recordA.wins || recordB.differential - recordA.differential
+		)
+	})
+}
+
+/**
+ * Orders teams by Swiss score, then point differential
+ *
+ * @param games - The season's regular season games
+ * @param teamIds - Teams to seed, in tie-break order
+ * @returns Team IDs, best first
+ */
+export function seedFromSwissRankings(
+	games: GameDocument[],
+	teamIds: string[]
+): string[] {
+	const { rankings } = calculateSwissRankings(games, teamIds)
+	return rankings
+		.map((ranking) => ranking.teamId)
+		.filter((teamId) => teamIds.includes(teamId))
+}
@@ -0,0 +1,87 @@
+/**
+ * Playoff Bracket Type Definitions
+ *
+ * Types for seeding and laying out single-elimination playoff brackets
+ */
+
+import { PlayoffBracket, PlayoffFormat } from '../../types.js'
+
+/**
+ * Input to the playoff bracket generator
+ */
+export interface PlayoffBracketInput {
+	/** Seeded team document IDs, best first */
+	teamIds: string[]
+	/** Bracket format */
+	format: PlayoffFormat
+	/**
+	 * Teams in the championship bracket for the consolation format (defaults
+	 * to the top half). Ignored for single elimination.
+	 */
+	championshipTeams?: number
+	/** Fields available in every time slot */
+	fieldCount: number
+}
+
+/**
+ * Where the winner of a generated game advances to
+ */
+export interface BracketGameLink {
+	/** Key of the next game */
+	key: string
+	/** Which side of the next game the winner fills */
+	slot: 'home' | 'away'
+}
+
+/**
+ * A single generated bracket game
+ */
+export interface BracketGame {
+	/** Unique key within the bracket, e.g. `championship-2-1` */
+	key: string
+	bracket: PlayoffBracket
+	/** Round number (1-based) */
+	round: number
+	/** Total rounds in this game's bracket */
+	rounds: number
+	/** Position within the round (1-based, top of the bracket first) */
+	matchup: number
+	/** Home team document ID (null until a feeder game is decided) */
+	homeTeamId: string | null
+	/** Away team document ID (null until a feeder game is decided) */
+	awayTeamId: string | null
+	/** Overall playoff seed of the home team */
+	homeSeed: number | null
+	/** Overall playoff seed of the away team */
+	awaySeed: number | null
+	/** Game the winner advances to (null for a final) */
+	winnerTo: BracketGameLink | null
+	/** Time slot index (0-based) the game is scheduled in */
+	slot: number
+	/** Field index (0-based) within the time slot */
+	field: number
+}
+
+/**
+ * A team's seed and bracket
+ */
+export interface BracketSeed {
+	teamId: string
+	/** Overall playoff seed (1-based) */
+	seed: number
+	bracket: PlayoffBracket
+	/** Whether the team skips the first round */
+	bye: boolean
+}
+
+/**
+ * Result of the playoff bracket generation
+ */
+export interface PlayoffBracketResult {
+	/** Generated games sorted by time slot, then field */
+	games: BracketGame[]
+	/** Every seeded team, best first */
+	seeds: BracketSeed[]
+	/** Number of time slots the games need */
+	slotsNeeded: number
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'vitest'
+import { generateRoundRobinSchedule } from './generator.js'
+import { RoundRobinGame, RoundRobinScheduleInput } from './types.js'
+
+const teams = (count: number) =>
+	Array.from({ length: count }, (_, index) => `team-${index + 1}`)
+
+const schedule = (overrides: Partial<RoundRobinScheduleInput> = {}) =>
+	generateRoundRobinSchedule({
+		teamIds: teams(6),
+		dates: ['2026-06-06'],
+		timeSlots: ['18:00', '19:00', '20:00', '21:00', '22:00'],
+		fields: [1, 2, 3],
+		...overrides,
+	})
+
+const pairKey = (game: RoundRobinGame) =>
+	[game.homeTeamId, game.awayTeamId].sort().join('|')
+
+describe('generateRoundRobinSchedule', () => {
+	test('pairs every team with every other exactly once in a single cycle', () => {
+		const result = schedule()
+
+		expect(result.games).toHaveLength(15)
+		expect(new Set(result.games.map(pairKey)).size).toBe(15)
+		expect(result.completeCycles).toBe(1)
+		expect(result.warnings).toEqual([])
+	})
+
+	test('never books a team or a field twice in the same slot', () => {
+		const result = schedule({
+			teamIds: teams(8),
+			dates: ['2026-06-06', '2026-06-13'],
+		})
+
+		const slots = new Map<string, RoundRobinGame[]>()
+		for (const game of result.games) {
+			const key = `${game.date} ${game.time}`
+			slots.set(key, [...(slots.get(key) ?? []), game])
+		}
+		for (const games of slots.values()) {
+			const slotTeams = games.flatMap((g) => [g.homeTeamId, g.awayTeamId])
+			expect(new Set(slotTeams).size).toBe(slotTeams.length)
+			expect(new Set(games.map((g) => g.field)).size).toBe(games.length)
+		}
+	})
+
+	test('keeps each team close to even on home and away games', () => {
+		const result = schedule({ dates: ['2026-06-06', '2026-06-13'] })
+
+		for (const summary of result.teamSummaries) {
+			expect(
+				Math.abs(summary.homeGames - summary.awayGames)
+			).toBeLessThanOrEqual(2)
+			expect(summary.games).toBe(summary.homeGames + summary.awayGames)
+		}
+	})
+
+	test('spreads games evenly across an odd number of teams', () => {
+		const result = schedule({ teamIds: teams(5), fields: [1, 2] })
+
+		const counts = result.teamSummaries.map((summary) => summary.games)
+		expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(1)
+		expect(result.completeCycles).toBe(1)
+	})
+
+	test('warns when the slots cannot fit a full round robin', () => {
+		const result = schedule({ timeSlots: ['18:00', '19:00'] })
+
+		expect(result.completeCycles).toBe(0)
+		expect(result.warnings).toContain(
+			'Not enough game slots for a full round robin: 6 of 15 pairings are scheduled'
+		)
+	})
+
+	test('is reproducible for the same input', () => {
+		const input = { teamIds: teams(7), dates: ['2026-06-06', '2026-06-13'] }
+
+		expect(schedule(input)).toEqual(schedule(input))
+	})
+
+	test.each([
+		[{ teamIds: ['team-1'] }, 'At least two teams are required'],
+		[{ teamIds: ['team-1', 'team-1'] }, 'Team IDs must be unique'],
+		[{ fields: [] }, 'At least one date, time slot and field are required'],
+	])('rejects invalid input %#', (overrides, message) => {
+		expect(() => schedule(overrides)).toThrow(message)
+	})
+})
@@ -0,0 +1,475 @@
+/**
+ * Round-Robin Schedule Generator
+ *
+ * Lays out a round robin (circle method) across game nights, time slots and
+ * fields. Each time slot is filled greedily, scoring candidate matchups so that:
+ *
+ * 1. Every pair of teams meets once before any pair meets again
+ * 2. Teams never sit out two consecutive slots between games (no double-bye)
+ * 3. Games per night are spread evenly, and no team misses consecutive nights
+ * 4. Early and late time slots are shared fairly across teams
+ *
+ * Greedy filling can dead-end late in a night, so each night is attempted
+ * several times with seeded tie-break jitter and the best attempt is kept.
+ * Home/away goes to whichever team has hosted less.
+ */
+
+import {
+	RoundRobinGame,
+	RoundRobinScheduleInput,
+	RoundRobinScheduleResult,
+	RoundRobinTeamSummary,
+} from './types.js'
+
+/**
+ * A pairing from the circle method, tagged with its position in the cycle
+ */
+interface Matchup {
+	teamA: string
+	teamB: string
+	/** Which repetition of the round robin this pairing belongs to */
+	cycle: number
+	/** Circle-method round within the cycle */
+	round: number
+}
+
+/**
+ * Running per-team state while filling slots
+ */
+interface TeamState extends RoundRobinTeamSummary {
+	/** Games played in each time slot index, across all nights */
+	slotCounts: number[]
+	/** Games scheduled so far on the current night */
+	nightGames: number
+	/** Slot index of the team's last game tonight, or -1 */
+	lastSlot: number
+	/** Consecutive nights (ending with the previous one) without a game */
+	nightsWithoutGame: number
+}
+
+// Scoring weights, highest priority first
+const SCORE_MUST_PLAY = 1000
+const SCORE_NEXT_CYCLE_PENALTY = 400
+const SCORE_REMATCH_TONIGHT_PENALTY = 400
+const SCORE_AVOID_DOUBLE_BYE = 500
+const SCORE_MISSED_LAST_NIGHT = 200
+const SCORE_BELOW_NIGHT_MINIMUM = 100
+const SCORE_PER_GAME_BEHIND = 10
+const SCORE_PER_SLOT_REPEAT = 15
+const SCORE_PER_EARLY_LATE_IMBALANCE = 20
+const SCORE_PER_ROUND_AHEAD = 10
+
+/**
+ * Builds one full round robin using the circle method. With an odd number of
+ * teams, a phantom bye is added and pairings against it are dropped.
+ */
+function buildCycle(teamIds: string[], cycle: number): Matchup[] {
+	const slots: (string | null)[] = [...teamIds]
+	if (slots.length % 2 === 1) {
+		slots.push(null)
+	}
+
+	const size = slots.length
+	const matchups: Matchup[] = []
+
+	for (let round = 0; round < size - 1; round++) {
+		for (let i = 0; i < size / 2; i++) {
+			const teamA = slots[i]
+			const teamB = slots[size - 1 - i]
+			if (teamA && teamB) {
+				matchups.push({ teamA, teamB, cycle, round })
+			}
+		}
+		// Keep the first position fixed and rotate the rest clockwise
+		const last = slots.pop() as string | null
+		slots.splice(1, 0, last)
+	}
+
+	return matchups
+}
+
+function getTeam(teams: Map<string, TeamState>, teamId: string): TeamState {
+	const team = teams.get(teamId)
+	if (!team) throw new Error(`Unknown team ${teamId}`)
+	return team
+}
+
+function pairKey(teamA: string, teamB: string): string {
+	return teamA < teamB ? `${teamA}|${teamB}` : `${teamB}|${teamA}`
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32) so schedules are reproducible.
+ * Seed 0 disables jitter so the first attempt is the plain greedy fill.
+ */
+function createRandom(seed: number): () => number {
+	if (seed === 0) {
+		return () => 0
+	}
+	let state = seed
+	return () => {
+		state = (state + 0x6d2b79f5) | 0
+		let t = Math.imul(state ^ (state >>> 15), 1 | state)
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+	}
+}
+
+interface NightContext {
+	date: string
+	teamIds: string[]
+	teamLabel: (teamId: string) => string
+	cycleSize: number
+	nextCycle: number
+	teams: Map<string, TeamState>
+	pool: Matchup[]
+	pairCounts: Map<string, number>
+	timeSlots: string[]
+	fields: number[]
+	gamesPerSlot: number
+	minPerNight: number
+	maxPerNight: number
+	earlySlotLimit: number
+	random: () => number
+}
+
+/**
+ * Outcome of one attempt at filling a night; state is a copy of the input
+ */
+interface NightAttempt {
+	teams: Map<string, TeamState>
+	pool: Matchup[]
+	nextCycle: number
+	pairCounts: Map<string, number>
+	games: RoundRobinGame[]
+	warnings: string[]
+	/** Lower is better; 0 means every constraint was met */
+	cost: number
+}
+
+const NIGHT_ATTEMPTS = 25
+const SCORE_JITTER = 40
+const COST_PER_EMPTY_FIELD = 100
+const COST_PER_DOUBLE_BYE = 50
+const COST_PER_REMATCH_TONIGHT = 20
+const COST_PER_MISSING_GAME = 30
+
+/**
+ * Fills every slot of one night, working on copies of the running state
+ */
+function scheduleNight(context: NightContext): NightAttempt {
+	const {
+		date,
+		teamIds,
+		teamLabel,
+		cycleSize,
+		timeSlots,
+		fields,
+		gamesPerSlot,
+		minPerNight,
+		maxPerNight,
+		earlySlotLimit,
+		random,
+	} = context
+
+	const teams = new Map<string, TeamState>()
+	for (const [teamId, team] of context.teams) {
+		teams.set(teamId, { ...team, slotCounts: [...team.slotCounts] })
+	}
+	let pool = [...context.pool]
+	let nextCycle = context.nextCycle
+	const pairCounts = new Map(context.pairCounts)
+	const games: RoundRobinGame[] = []
+	const warnings: string[] = []
+	const metTonight = new Set<string>()
+	const slotCount = timeSlots.length
+	let cost = 0
+
+	/**
+	 * How much a team wants to play in `slot`, or null if it can't
+	 */
+	const scoreTeam = (team: TeamState, slot: number): number | null => {
+		if (team.nightGames >= maxPerNight) {
+			return null
+		}
+
+		let score = 0
+		const slotsLeft = slotCount - slot
+		const gamesNeeded = minPerNight - team.nightGames
+
+		if (gamesNeeded >= slotsLeft) {
+			score += SCORE_MUST_PLAY
+		}
+		if (team.lastSlot >= 0 && slot - team.lastSlot - 1 >= 1) {
+			score += SCORE_AVOID_DOUBLE_BYE
+		}
+		if (team.nightsWithoutGame > 0) {
+			score += SCORE_MISSED_LAST_NIGHT
+		}
+		if (gamesNeeded > 0) {
+			score += SCORE_BELOW_NIGHT_MINIMUM
+		}
+
+		score -= team.games * SCORE_PER_GAME_BEHIND
+		score -= team.slotCounts[slot] * SCORE_PER_SLOT_REPEAT
+		score -=
+			(slot < earlySlotLimit
+				? team.earlyGames - team.lateGames
+				: team.lateGames - team.earlyGames) * SCORE_PER_EARLY_LATE_IMBALANCE
+		return score
+	}
+
+	for (let slot = 0; slot < slotCount; slot++) {
+		// Keep at least a cycle's worth of pairings queued so a slot can always
+		// be filled; later cycles are penalised so they're only used once needed.
+		while (pool.length < cycleSize) {
+			pool = pool.concat(buildCycle(teamIds, nextCycle))
+			nextCycle++
+		}
+
+		const busy = new Set<string>()
+		const minCycle = Math.min(...pool.map((m) => m.cycle))
+		const minRound = Math.min(
+			...pool.filter((m) => m.cycle === minCycle).map((m) => m.round)
+		)
+
+		const slotGames: Matchup[] = []
+		while (slotGames.length < gamesPerSlot) {
+			let bestIndex = -1
+			let bestScore = -Infinity
+
+			pool.forEach((matchup, index) => {
+				if (busy.has(matchup.teamA) || busy.has(matchup.teamB)) return
+				const scoreA = scoreTeam(getTeam(teams, matchup.teamA), slot)
+				const scoreB = scoreTeam(getTeam(teams, matchup.teamB), slot)
+				if (scoreA === null || scoreB === null) return
+
+				let score = scoreA + scoreB + random() * SCORE_JITTER
+				score -= (matchup.cycle - minCycle) * SCORE_NEXT_CYCLE_PENALTY
+				if (matchup.cycle === minCycle) {
+					score -= (matchup.round - minRound) * SCORE_PER_ROUND_AHEAD
+				}
+				if (metTonight.has(pairKey(matchup.teamA, matchup.teamB))) {
+					score -= SCORE_REMATCH_TONIGHT_PENALTY
+				}
+
+				if (score > bestScore) {
+					bestScore = score
+					bestIndex = index
+				}
+			})
+
+			if (bestIndex === -1) break
+
+			const [matchup] = pool.splice(bestIndex, 1)
+			busy.add(matchup.teamA)
+			busy.add(matchup.teamB)
+			slotGames.push(matchup)
+		}
+
+		if (slotGames.length < gamesPerSlot) {
+			cost += (gamesPerSlot - slotGames.length) * COST_PER_EMPTY_FIELD
+			warnings.push(
+				`${date} ${timeSlots[slot]}: only ${slotGames.length} of ${gamesPerSlot} fields could be filled`
+			)
+		}
+
+		slotGames.forEach((matchup, index) => {
+			const teamA = getTeam(teams, matchup.teamA)
+			const teamB = getTeam(teams, matchup.teamB)
+
+			// Home goes to whichever team has hosted less, alternating on ties
+			const balanceA = teamA.homeGames - teamA.awayGames
+			const balanceB = teamB.homeGames - teamB.awayGames
+			const aIsHome =
+				balanceA !== balanceB
+					? balanceA < balanceB
+					: (matchup.cycle + matchup.round) % 2 === 0
+			const home = aIsHome ? teamA : teamB
+			const away = aIsHome ? teamB : teamA
+
+			home.homeGames++
+			away.awayGames++
+			for (const team of [teamA, teamB]) {
+				if (team.lastSlot >= 0 && slot - team.lastSlot - 1 >= 2) {
+					team.backToBackByes++
+					cost += COST_PER_DOUBLE_BYE
+				}
+				team.games++
+				team.nightGames++
+				team.lastSlot = slot
+				team.slotCounts[slot]++
+				if (slot < earlySlotLimit) {
+					team.earlyGames++
+				} else {
+					team.lateGames++
+				}
+			}
+
+			const key = pairKey(matchup.teamA, matchup.teamB)
+			if (metTonight.has(key)) {
+				cost += COST_PER_REMATCH_TONIGHT
+			}
+			metTonight.add(key)
+			pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1)
+
+			games.push({
+				date,
+				time: timeSlots[slot],
+				field: fields[index],
+				homeTeamId: home.teamId,
+				awayTeamId: away.teamId,
+			})
+		})
+	}
+
+	for (const team of teams.values()) {
+		if (team.nightGames < minPerNight) {
+			cost += (minPerNight - team.nightGames) * COST_PER_MISSING_GAME
+		}
+		if (team.nightGames === 0) {
+			team.nightsWithoutGame++
+			if (team.nightsWithoutGame === 2) {
+				warnings.push(
+					`${teamLabel(team.teamId)} has no games on consecutive nights ending ${date}`
+				)
+			}
+		} else {
+			team.nightsWithoutGame = 0
+		}
+		team.nightGames = 0
+		team.lastSlot = -1
+	}
+
+	return { teams, pool, nextCycle, pairCounts, games, warnings, cost }
+}
+
+/**
+ * Generate a round-robin schedule
+ *
+ * @param input - Teams, game nights, time slots and fields to fill
+ * @returns Generated games plus per-team balance summaries and warnings
+ */
+export function generateRoundRobinSchedule(
+	input: RoundRobinScheduleInput
+): RoundRobinScheduleResult {
+	const { teamIds, dates, timeSlots, fields, teamNames } = input
+	const teamLabel = (teamId: string): string =>
+		teamNames?.[teamId] ?? `Team ${teamId}`
+
+	if (teamIds.length < 2) {
+		throw new Error('At least two teams are required to generate a schedule')
+	}
+	if (new Set(teamIds).size !== teamIds.length) {
+		throw new Error('Team IDs must be unique')
+	}
+	if (dates.length === 0 || timeSlots.length === 0 || fields.length === 0) {
+		throw new Error('At least one date, time slot and field are required')
+	}
+
+	const slotCount = timeSlots.length
+	const earlySlotLimit = Math.ceil(slotCount / 2)
+	const gamesPerSlot = Math.min(fields.length, Math.floor(teamIds.length / 2))
+	const appearancesPerNight = 2 * gamesPerSlot * slotCount
+	const minPerNight = Math.floor(appearancesPerNight / teamIds.length)
+	const maxPerNight = Math.ceil(appearancesPerNight / teamIds.length)
+	const cycleSize = (teamIds.length * (teamIds.length - 1)) / 2
+
+	let teams = new Map<string, TeamState>()
+	for (const teamId of teamIds) {
+		teams.set(teamId, {
+			teamId,
+			games: 0,
+			homeGames: 0,
+			awayGames: 0,
+			earlyGames: 0,
+			lateGames: 0,
+			backToBackByes: 0,
+			slotCounts: new Array<number>(slotCount).fill(0),
+			nightGames: 0,
+			lastSlot: -1,
+			nightsWithoutGame: 0,
+		})
+	}
+
+	const games: RoundRobinGame[] = []
+	const warnings: string[] = []
+	let pairCounts = new Map<string, number>()
+
+	let pool: Matchup[] = []
+	let nextCycle = 0
+
+	for (const date of dates) {
+		// Greedy filling can paint itself into a corner late in the night, so
+		// try a few tie-break orders and keep the attempt that fits best.
+		let best: NightAttempt | null = null
+		for (let attempt = 0; attempt < NIGHT_ATTEMPTS; attempt++) {
+			const result = scheduleNight({
+				date,
+				teamIds,
+				teamLabel,
+				cycleSize,
+				nextCycle,
+				teams,
+				pool,
+				pairCounts,
+				timeSlots,
+				fields,
+				gamesPerSlot,
+				minPerNight,
+				maxPerNight,
+				earlySlotLimit,
+				random: createRandom(attempt),
+			})
+			if (!best || result.cost < best.cost) {
+				best = result
+			}
+			if (best.cost === 0) break
+		}
+
+		const chosen = best as NightAttempt
+		teams = chosen.teams
+		pool = chosen.pool
+		nextCycle = chosen.nextCycle
+		pairCounts = chosen.pairCounts
+		games.push(...chosen.games)
+		warnings.push(...chosen.warnings)
+	}
+
+	let completeCycles = Infinity
+	for (let i = 0; i < teamIds.length; i++) {
+		for (let j = i + 1; j < teamIds.length; j++) {
+			completeCycles = Math.min(
+				completeCycles,
+				pairCounts.get(pairKey(teamIds[i], teamIds[j])) ?? 0
+			)
+		}
+	}
+
+	if (completeCycles === 0) {
+		const pairsPlayed = pairCounts.size
+		warnings.push(
+			`Not enough game slots for a full round robin: ${pairsPlayed} of ${cycleSize} pairings are scheduled`
+		)
+	}
+
+	const teamSummaries: RoundRobinTeamSummary[] = teamIds.map((teamId) => {
+		const team = getTeam(teams, teamId)
+		if (team.backToBackByes > 0) {
+			warnings.push(
+				`${teamLabel(teamId)} sits out consecutive slots between games ${team.backToBackByes} time(s)`
+			)
+		}
+		return {
+			teamId,
+			games: team.games,
+			homeGames: team.homeGames,
+			awayGames: team.awayGames,
+			earlyGames: team.earlyGames,
+			lateGames: team.lateGames,
+			backToBackByes: team.backToBackByes,
+		}
+	})
+
+	return { games, teamSummaries, completeCycles, warnings }
+}
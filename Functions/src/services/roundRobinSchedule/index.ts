@@ -0,0 +1,14 @@
+/**
+ * Round-Robin Schedule Service
+ *
+ * Generates balanced regular-season schedules for traditional seasons
+ */
+
+export { generateRoundRobinSchedule } from './generator.js'
+
+export type {
+	RoundRobinScheduleInput,
+	RoundRobinGame,
+	RoundRobinTeamSummary,
+	RoundRobinScheduleResult,
+} from './types.js'
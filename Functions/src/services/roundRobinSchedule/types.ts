@@ -0,0 +1,71 @@
+/**
+ * Round-Robin Schedule Type Definitions
+ *
+ * Types for generating a traditional season's regular schedule
+ */
+
+/**
+ * Input to the round-robin schedule generator
+ */
+export interface RoundRobinScheduleInput {
+	/** Team document IDs to schedule, in seeding order */
+	teamIds: string[]
+	/** Game nights in YYYY-MM-DD format, in chronological order */
+	dates: string[]
+	/** Time slots available each night in HH:MM format, earliest first */
+	timeSlots: string[]
+	/** Field numbers available in every time slot */
+	fields: number[]
+	/** Optional display names by team ID, used in warnings */
+	teamNames?: Record<string, string>
+}
+
+/**
+ * A single generated game
+ */
+export interface RoundRobinGame {
+	/** Game night in YYYY-MM-DD format */
+	date: string
+	/** Time slot in HH:MM format */
+	time: string
+	/** Field number */
+	field: number
+	/** Home team document ID */
+	homeTeamId: string
+	/** Away team document ID */
+	awayTeamId: string
+}
+
+/**
+ * Per-team balance summary for the generated schedule
+ */
+export interface RoundRobinTeamSummary {
+	/** Team document ID */
+	teamId: string
+	/** Total games scheduled */
+	games: number
+	/** Games as the home team */
+	homeGames: number
+	/** Games as the away team */
+	awayGames: number
+	/** Games in the earlier half of the night's time slots */
+	earlyGames: number
+	/** Games in the later half of the night's time slots */
+	lateGames: number
+	/** Times the team sat out two consecutive slots between games */
+	backToBackByes: number
+}
+
+/**
+ * Result of the round-robin schedule generation
+ */
+export interface RoundRobinScheduleResult {
+	/** Generated games sorted by date, time, then field */
+	games: RoundRobinGame[]
+	/** Balance summary for every team */
+	teamSummaries: RoundRobinTeamSummary[]
+	/** Number of complete round-robin cycles the schedule covers */
+	completeCycles: number
+	/** Human-readable notes about constraints that could not be met */
+	warnings: string[]
+}
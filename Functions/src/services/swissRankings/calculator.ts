@@ -9,6 +9,7 @@
  */
 
 import { GameDocument } from '../../types.js'
+import { hasCountedResult } from '../../shared/gameStatus.js'
 import { SwissTeamStats, SwissRanking, SwissRankingsResult } from './types.js'
 
 /**
@@ -46,15 +47,10 @@ export function calculateSwissRankings(
 		})
 	}
 
-	// Process each completed game
+	// Process each completed game; forfeits count with their forfeit score
 	for (const game of games) {
-		// Skip games without assigned teams or completed scores
-		if (
-			!game.home ||
-			!game.away ||
-			game.homeScore === null ||
-			game.awayScore === null
-		) {
+		// Skip games without assigned teams or a counted result
+		if (!game.home || !game.away || !hasCountedResult(game)) {
 			continue
 		}
 
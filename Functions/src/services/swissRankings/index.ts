@@ -1,13 +1,18 @@
 /**
  * Swiss Rankings Service
  *
- * Provides Swiss-style tournament ranking calculations
+ * Provides Swiss-style tournament ranking calculations and Monrad pairings
  */
 
 export { calculateSwissRankings, getInitialSeedingRank } from './calculator.js'
+export { generateMonradPairings } from './pairing.js'
 
 export type {
 	SwissTeamStats,
 	SwissRanking,
 	SwissRankingsResult,
+	MonradPairingInput,
+	MonradGame,
+	MonradTeamSummary,
+	MonradPairingsResult,
 } from './types.js'
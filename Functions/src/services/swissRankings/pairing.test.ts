@@ -0,0 +1,131 @@
+import { describe, expect, test } from 'vitest'
+import { generateMonradPairings } from './pairing.js'
+import { MonradGame, MonradPairingInput, SwissRanking } from './types.js'
+
+/** Rankings for `count` teams, best first, with optional past opponents */
+const rankings = (
+	count: number,
+	opponents: Record<string, string[]> = {}
+): SwissRanking[] =>
+	Array.from({ length: count }, (_, index) => {
+		const teamId = `team-${index + 1}`
+		return {
+			teamId,
+			rank: index + 1,
+			wins: 0,
+			losses: 0,
+			buchholzScore: 0,
+			swissScore: 0,
+			pointDifferential: 0,
+			pointsFor: 0,
+			pointsAgainst: 0,
+			opponentIds: opponents[teamId] ?? [],
+		}
+	})
+
+const pair = (input: Partial<MonradPairingInput> = {}) =>
+	generateMonradPairings({
+		rankings: rankings(8),
+		rounds: 1,
+		fields: 4,
+		gamesPerTeam: 1,
+		...input,
+	})
+
+const matchups = (games: MonradGame[]) =>
+	games.map((game) => [game.homeTeamId, game.awayTeamId].sort().join(' v '))
+
+describe('generateMonradPairings', () => {
+	test('pairs each team with the nearest-ranked opponent', () => {
+		const result = pair()
+
+		expect(matchups(result.games).sort()).toEqual([
+			'team-1 v team-2',
+			'team-3 v team-4',
+			'team-5 v team-6',
+			'team-7 v team-8',
+		])
+		expect(result.warnings).toEqual([])
+	})
+
+	test('puts the best-ranked matchup on the first field', () => {
+		const [first] = pair().games
+
+		expect(first.field).toBe(1)
+		expect([first.homeRank, first.awayRank].sort()).toEqual([1, 2])
+	})
+
+	test('steers away from a matchup already played this season', () => {
+		const result = pair({
+			rankings: rankings(4, { 'team-1': ['team-2'], 'team-2': ['team-1'] }),
+			fields: 2,
+		})
+
+		expect(matchups(result.games).sort()).toEqual([
+			'team-1 v team-3',
+			'team-2 v team-4',
+		])
+		expect(result.repeatCount).toBe(0)
+	})
+
+	test('never repeats a pairing on the same night', () => {
+		const result = pair({
+			rankings: rankings(6),
+			rounds: 3,
+			fields: 3,
+			gamesPerTeam: 3,
+		})
+
+		expect(result.games).toHaveLength(9)
+		expect(new Set(matchups(result.games)).size).toBe(9)
+		for (const summary of result.teamSummaries) {
+			expect(summary.rounds).toEqual([1, 2, 3])
+		}
+		expect(result.warnings).toEqual([])
+	})
+
+	test('gives the bye to the lowest-ranked team when games played are tied', () => {
+		const result = pair({ rankings: rankings(5), fields: 2 })
+
+		const bye = result.teamSummaries.find((summary) => summary.byes === 1)
+		expect(bye?.teamId).toBe('team-5')
+	})
+
+	test('gives the bye to the team that has played the most games', () => {
+		const result = pair({
+			rankings: rankings(5, {
+				'team-2': ['team-5'],
+				'team-5': ['team-2'],
+				'team-3': ['team-4', 'team-1'],
+			}),
+			fields: 2,
+		})
+
+		const bye = result.teamSummaries.find((summary) => summary.byes === 1)
+		expect(bye?.teamId).toBe('team-3')
+	})
+
+	test('warns about games that do not fit the rounds and fields', () => {
+		const result = pair({
+			rankings: rankings(4),
+			fields: 2,
+			gamesPerTeam: 2,
+		})
+
+		expect(result.games).toHaveLength(2)
+		expect(result.warnings).toEqual(
+			expect.arrayContaining([
+				expect.stringMatching(/could not fit into 1 round/),
+			])
+		)
+	})
+
+	test('returns no games without enough teams, rounds or fields', () => {
+		const result = pair({ rankings: rankings(1) })
+
+		expect(result.games).toEqual([])
+		expect(result.warnings).toEqual([
+			'At least two teams, one round and one field are required',
+		])
+	})
+})
@@ -0,0 +1,452 @@
+/**
+ * Monrad Pairing Generator
+ *
+ * Builds a Swiss-style game day from the current rankings. Pairing happens in
+ * passes, one per game each team plays:
+ *
+ * 1. Swiss matching - each team plays the nearest-ranked available opponent
+ * 2. No rematch tonight - later passes never repeat an earlier pass's pairing
+ *    unless there is no alternative
+ * 3. Minimize repeats - season-long repeat matchups cost a few rank positions
+ *
+ * With an odd number of teams, each pass gives one team a bye: the team with
+ * the most games played this season (lowest-ranked on ties) that has not
+ * already had a bye tonight.
+ *
+ * The paired games are then laid out across rounds and fields so that no team
+ * sits out two consecutive rounds between games (no double-bye). Layout is
+ * attempted several times with seeded tie-break jitter and the best attempt is
+ * kept. Within a round, the best-ranked matchup takes the first field.
+ */
+
+import {
+	MonradGame,
+	MonradPairingInput,
+	MonradPairingsResult,
+	MonradTeamSummary,
+	SwissRanking,
+} from './types.js'
+
+/**
+ * A paired matchup before it is placed into a round
+ */
+interface Pairing {
+	/** Better-ranked team */
+	teamA: string
+	/** Worse-ranked team */
+	teamB: string
+}
+
+// Pairing costs, in rank positions
+const COST_PER_SEASON_MEETING = 3
+const COST_REMATCH_TONIGHT = 1000
+
+// Layout scoring weights, highest priority first
+const SCORE_MUST_PLAY = 1000
+const SCORE_AVOID_DOUBLE_BYE = 500
+const SCORE_PER_REMAINING_GAME = 10
+const SCORE_JITTER = 40
+
+const LAYOUT_ATTEMPTS = 25
+const COST_PER_UNPLACED_GAME = 1000
+const COST_PER_DOUBLE_BYE = 50
+
+function pairKey(teamA: string, teamB: string): string {
+	return teamA < teamB ? `${teamA}|${teamB}` : `${teamB}|${teamA}`
+}
+
+function getPosition(positions: Map<string, number>, teamId: string): number {
+	const position = positions.get(teamId)
+	if (position === undefined) throw new Error(`Unknown team ${teamId}`)
+	return position
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32) so layouts are reproducible.
+ * Seed 0 disables jitter so the first attempt is the plain greedy fill.
+ */
+function createRandom(seed: number): () => number {
+	if (seed === 0) {
+		return () => 0
+	}
+	let state = seed
+	return () => {
+		state = (state + 0x6d2b79f5) | 0
+		let t = Math.imul(state ^ (state >>> 15), 1 | state)
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+	}
+}
+
+/**
+ * Counts how often each pair of teams has met this season
+ */
+function buildSeasonMeetings(rankings: SwissRanking[]): Map<string, number> {
+	const meetings = new Map<string, number>()
+	for (const ranking of rankings) {
+		for (const opponentId of ranking.opponentIds) {
+			// Every game appears in both teams' opponent lists; count it once
+			if (ranking.teamId < opponentId) {
+				const key = pairKey(ranking.teamId, opponentId)
+				meetings.set(key, (meetings.get(key) ?? 0) + 1)
+			}
+		}
+	}
+	return meetings
+}
+
+interface PairingContext {
+	positions: Map<string, number>
+	seasonMeetings: Map<string, number>
+	tonightMeetings: Map<string, number>
+}
+
+function pairingCost(
+	context: PairingContext,
+	teamA: string,
+	teamB: string
+): number {
+	const key = pairKey(teamA, teamB)
+	return (
+		Math.abs(
+			getPosition(context.positions, teamA) -
+				getPosition(context.positions, teamB)
+		) -
+		1 +
+		(context.seasonMeetings.get(key) ?? 0) * COST_PER_SEASON_MEETING +
+		(context.tonightMeetings.get(key) ?? 0) * COST_REMATCH_TONIGHT
+	)
+}
+
+function orderPair(
+	context: PairingContext,
+	teamA: string,
+	teamB: string
+): Pairing {
+	return getPosition(context.positions, teamA) <
+		getPosition(context.positions, teamB)
+		? { teamA, teamB }
+		: { teamA: teamB, teamB: teamA }
+}
+
+/**
+ * Pairs every team in the pool once: greedy Monrad from the top, then
+ * pairwise partner swaps while they lower the total cost
+ */
+function pairPass(context: PairingContext, pool: string[]): Pairing[] {
+	const remaining = [...pool]
+	const pairings: Pairing[] = []
+
+	while (remaining.length >= 2) {
+		const teamA = remaining.shift() as string
+		let bestIndex = 0
+		let bestCost = Infinity
+		remaining.forEach((candidate, index) => {
+			const cost = pairingCost(context, teamA, candidate)
+			if (cost < bestCost) {
+				bestCost = cost
+				bestIndex = index
+			}
+		})
+		const [teamB] = remaining.splice(bestIndex, 1)
+		pairings.push({ teamA, teamB })
+	}
+
+	// The greedy pass can strand the last teams in a bad pairing; swapping
+	// partners between two pairings repairs that without reshuffling the top
+	const cost = (pairing: Pairing): number =>
+		pairingCost(context, pairing.teamA, pairing.teamB)
+	let improved = true
+	let iterations = 0
+	while (improved && iterations < 100) {
+		improved = false
+		iterations++
+		for (let i = 0; i < pairings.length; i++) {
+			for (let j = i + 1; j < pairings.length; j++) {
+				const first = pairings[i]
+				const second = pairings[j]
+				const current = cost(first) + cost(second)
+				const alternatives: [Pairing, Pairing][] = [
+					[
+						orderPair(context, first.teamA, second.teamA),
+						orderPair(context, first.teamB, second.teamB),
+					],
+					[
+						orderPair(context, first.teamA, second.teamB),
+						orderPair(context, first.teamB, second.teamA),
+					],
+				]
+				for (const [altFirst, altSecond] of alternatives) {
+					if (cost(altFirst) + cost(altSecond) < current) {
+						pairings[i] = altFirst
+						pairings[j] = altSecond
+						improved = true
+						break
+					}
+				}
+			}
+		}
+	}
+
+	return pairings
+}
+
+/**
+ * Builds every pass's pairings, handing out byes when the team count is odd
+ */
+function buildPairings(
+	rankings: SwissRanking[],
+	gamesPerTeam: number,
+	context: PairingContext
+): Pairing[] {
+	const teamIds = rankings.map((ranking) => ranking.teamId)
+	const gamesPlayed = new Map(
+		rankings.map((ranking) => [ranking.teamId, ranking.opponentIds.length])
+	)
+	const byesTonight = new Map<string, number>()
+	const pairings: Pairing[] = []
+
+	for (let pass = 0; pass < gamesPerTeam; pass++) {
+		const pool = [...teamIds]
+
+		if (pool.length % 2 === 1) {
+			const byeTeam = [...pool].sort(
+				(a, b) =>
+					(byesTonight.get(a) ?? 0) - (byesTonight.get(b) ?? 0) ||
+					(gamesPlayed.get(b) ?? 0) - (gamesPlayed.get(a) ?? 0) ||
+					getPosition(context.positions, b) - getPosition(context.positions, a)
+			)[0]
+			pool.splice(pool.indexOf(byeTeam), 1)
+			byesTonight.set(byeTeam, (byesTonight.get(byeTeam) ?? 0) + 1)
+		}
+
+		for (const pairing of pairPass(context, pool)) {
+			const key = pairKey(pairing.teamA, pairing.teamB)
+			context.tonightMeetings.set(
+				key,
+				(context.tonightMeetings.get(key) ?? 0) + 1
+			)
+			pairings.push(pairing)
+		}
+	}
+
+	return pairings
+}
+
+/**
+ * Outcome of one attempt at laying the pairings out across rounds
+ */
+interface LayoutAttempt {
+	/** Round (1-based) for each pairing, or 0 if it could not be placed */
+	rounds: number[]
+	/** Lower is better; 0 means every constraint was met */
+	cost: number
+}
+
+/**
+ * Places pairings into rounds one round at a time, scoring each candidate so
+ * teams that must play now, or would otherwise sit out a second consecutive
+ * round, go first
+ */
+function layoutRounds(
+	pairings: Pairing[],
+	rounds: number,
+	gamesPerRound: number,
+	random: () => number
+): LayoutAttempt {
+	const assigned = pairings.map(() => 0)
+	const lastRound = new Map<string, number>()
+	const remainingGames = new Map<string, number>()
+	for (const pairing of pairings) {
+		for (const teamId of [pairing.teamA, pairing.teamB]) {
+			remainingGames.set(teamId, (remainingGames.get(teamId) ?? 0) + 1)
+		}
+	}
+
+	let doubleByes = 0
+	for (let round = 1; round <= rounds; round++) {
+		const roundsLeft = rounds - round + 1
+		const teamScore = (teamId: string): number => {
+			const remaining = remainingGames.get(teamId) ?? 0
+			const last = lastRound.get(teamId) ?? 0
+			let score = remaining * SCORE_PER_REMAINING_GAME
+			if (remaining >= roundsLeft) score += SCORE_MUST_PLAY
+			if (last > 0 && round - last >= 2) score += SCORE_AVOID_DOUBLE_BYE
+			return score
+		}
+
+		const candidates = pairings
+			.map((pairing, index) => ({
+				index,
+				pairing,
+				score:
+					teamScore(pairing.teamA) +
+					teamScore(pairing.teamB) +
+					random() * SCORE_JITTER,
+			}))
+			.filter((candidate) => assigned[candidate.index] === 0)
+			.sort((a, b) => b.score - a.score)
+
+		const busy = new Set<string>()
+		let placed = 0
+		for (const { index, pairing } of candidates) {
+			if (placed >= gamesPerRound) break
+			if (busy.has(pairing.teamA) || busy.has(pairing.teamB)) continue
+			assigned[index] = round
+			placed++
+			for (const teamId of [pairing.teamA, pairing.teamB]) {
+				busy.add(teamId)
+				const last = lastRound.get(teamId) ?? 0
+				if (last > 0 && round - last >= 3) doubleByes++
+				lastRound.set(teamId, round)
+				remainingGames.set(teamId, (remainingGames.get(teamId) ?? 0) - 1)
+			}
+		}
+	}
+
+	const unplaced = assigned.filter((round) => round === 0).length
+	return {
+		rounds: assigned,
+		cost: unplaced * COST_PER_UNPLACED_GAME + doubleByes * COST_PER_DOUBLE_BYE,
+	}
+}
+
+/**
+ * Generates a Monrad game day from the current Swiss rankings
+ *
+ * @param input - Rankings (best first), rounds, fields and games per team
+ * @returns Games by round and field, per-team summaries and warnings
+ */
+export function generateMonradPairings(
+	input: MonradPairingInput
+): MonradPairingsResult {
+	const { rankings, rounds, fields, gamesPerTeam, teamNames = {} } = input
+	const teamLabel = (teamId: string): string => teamNames[teamId] ?? teamId
+	const warnings: string[] = []
+
+	const context: PairingContext = {
+		positions: new Map(
+			rankings.map((ranking, index) => [ranking.teamId, index])
+		),
+		seasonMeetings: buildSeasonMeetings(rankings),
+		tonightMeetings: new Map(),
+	}
+
+	if (rankings.length < 2 || rounds < 1 || fields < 1 || gamesPerTeam < 1) {
+		return {
+			games: [],
+			teamSummaries: rankings.map((ranking, index) => ({
+				teamId: ranking.teamId,
+				rank: index + 1,
+				rounds: [],
+				byes: gamesPerTeam,
+				doubleByes: 0,
+			})),
+			repeatCount: 0,
+			warnings: ['At least two teams, one round and one field are required'],
+		}
+	}
+
+	const pairings = buildPairings(rankings, gamesPerTeam, context)
+	const gamesPerRound = Math.min(fields, Math.floor(rankings.length / 2))
+
+	let best: LayoutAttempt | null = null
+	for (let attempt = 0; attempt < LAYOUT_ATTEMPTS; attempt++) {
+		const layout = layoutRounds(
+			pairings,
+			rounds,
+			gamesPerRound,
+			createRandom(attempt)
+		)
+		if (!best || layout.cost < best.cost) {
+			best = layout
+		}
+		if (best.cost === 0) break
+	}
+	const layout = best as LayoutAttempt
+
+	// Assign fields by rank within each round and home/away by hosting balance
+	const hosted = new Map<string, number>()
+	const games: MonradGame[] = []
+	for (let round = 1; round <= rounds; round++) {
+		const roundPairings = pairings
+			.filter((_, index) => layout.rounds[index] === round)
+			.sort(
+				(a, b) =>
+					getPosition(context.positions, a.teamA) -
+						getPosition(context.positions, b.teamA) ||
+					getPosition(context.positions, a.teamB) -
+						getPosition(context.positions, b.teamB)
+			)
+
+		roundPairings.forEach((pairing, index) => {
+			const swap =
+				(hosted.get(pairing.teamB) ?? 0) < (hosted.get(pairing.teamA) ?? 0)
+			const homeTeamId = swap ? pairing.teamB : pairing.teamA
+			const awayTeamId = swap ? pairing.teamA : pairing.teamB
+			hosted.set(homeTeamId, (hosted.get(homeTeamId) ?? 0) + 1)
+
+			games.push({
+				round,
+				field: index + 1,
+				homeTeamId,
+				awayTeamId,
+				homeRank: getPosition(context.positions, homeTeamId) + 1,
+				awayRank: getPosition(context.positions, awayTeamId) + 1,
+				seasonMatchupCount:
+					context.seasonMeetings.get(pairKey(homeTeamId, awayTeamId)) ?? 0,
+			})
+		})
+	}
+
+	pairings.forEach((pairing, index) => {
+		if (layout.rounds[index] === 0) {
+			warnings.push(
+				`${teamLabel(pairing.teamA)} vs ${teamLabel(pairing.teamB)} could not fit into ${rounds} round(s) on ${fields} field(s)`
+			)
+		}
+	})
+
+	for (const [key, count] of context.tonightMeetings) {
+		if (count > 1) {
+			const [teamA, teamB] = key.split('|')
+			warnings.push(
+				`${teamLabel(teamA)} and ${teamLabel(teamB)} meet ${count} times tonight`
+			)
+		}
+	}
+
+	const teamSummaries: MonradTeamSummary[] = rankings.map((ranking, index) => {
+		const teamRounds = games
+			.filter(
+				(game) =>
+					game.homeTeamId === ranking.teamId ||
+					game.awayTeamId === ranking.teamId
+			)
+			.map((game) => game.round)
+			.sort((a, b) => a - b)
+		let doubleByes = 0
+		for (let i = 1; i < teamRounds.length; i++) {
+			if (teamRounds[i] - teamRounds[i - 1] >= 3) doubleByes++
+		}
+		if (doubleByes > 0) {
+			warnings.push(
+				`${teamLabel(ranking.teamId)} sits out two or more consecutive rounds between games`
+			)
+		}
+		return {
+			teamId: ranking.teamId,
+			rank: index + 1,
+			rounds: teamRounds,
+			byes: gamesPerTeam - teamRounds.length,
+			doubleByes,
+		}
+	})
+
+	return {
+		games,
+		teamSummaries,
+		repeatCount: games.filter((game) => game.seasonMatchupCount > 0).length,
+		warnings,
+	}
+}
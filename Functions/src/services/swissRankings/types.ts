@@ -59,3 +59,69 @@ export interface SwissRankingsResult {
 	/** Map of teamId to wins (used for Buchholz calculation) */
 	teamWins: Map<string, number>
 }
+
+/**
+ * Input to the Monrad pairing generator for one game day
+ */
+export interface MonradPairingInput {
+	/** Current Swiss rankings, best first (as returned by calculateSwissRankings) */
+	rankings: SwissRanking[]
+	/** Number of rounds (time slots) in the game day */
+	rounds: number
+	/** Number of fields available in each round */
+	fields: number
+	/** Games each team should play on the game day */
+	gamesPerTeam: number
+	/** Optional display names by team ID, used in warnings */
+	teamNames?: Record<string, string>
+}
+
+/**
+ * A single paired game on the game day
+ */
+export interface MonradGame {
+	/** Round number (1-based) */
+	round: number
+	/** Field position within the round (1-based, best-ranked matchup first) */
+	field: number
+	/** Home team document ID */
+	homeTeamId: string
+	/** Away team document ID */
+	awayTeamId: string
+	/** Pairing position (1-based) of the home team */
+	homeRank: number
+	/** Pairing position (1-based) of the away team */
+	awayRank: number
+	/** Number of times these teams have already played this season */
+	seasonMatchupCount: number
+}
+
+/**
+ * Per-team summary of the generated game day
+ */
+export interface MonradTeamSummary {
+	/** Team document ID */
+	teamId: string
+	/** Pairing position (1-based) */
+	rank: number
+	/** Rounds the team plays in, ascending */
+	rounds: number[]
+	/** Games short of gamesPerTeam (byes) */
+	byes: number
+	/** Times the team sits out two or more consecutive rounds between games */
+	doubleByes: number
+}
+
+/**
+ * Result of the Monrad pairing generation
+ */
+export interface MonradPairingsResult {
+	/** Paired games sorted by round, then field */
+	games: MonradGame[]
+	/** Summary for every team */
+	teamSummaries: MonradTeamSummary[]
+	/** Games that repeat a matchup from earlier in the season */
+	repeatCount: number
+	/** Human-readable notes about constraints that could not be met */
+	warnings: string[]
+}
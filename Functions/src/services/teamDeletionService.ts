@@ -35,7 +35,7 @@ export interface TeamDeletionResult {
 }
 
 interface DeleteOptions {
-	/** Skip the "team is registered" guard. Used by the registration-lock cleanup. */
+	/** Skip the "team is registered" guard. Used by the admin delete. */
 	skipRegisteredCheck?: boolean
 }
 
@@ -183,29 +183,6 @@ export async function deleteTeamSeasonWithCleanup(
 	}
 }
 
-/**
- * Bulk-delete every unregistered team for a season. Used when the
- * registration lock threshold is hit.
- */
-export async function deleteUnregisteredTeamsForSeasonLock(
-	firestore: FirebaseFirestore.Firestore,
-	teamSeasonPairs: Array<{ teamId: string; seasonId: string }>
-): Promise<TeamDeletionResult[]> {
-	const results: TeamDeletionResult[] = []
-	for (const { teamId, seasonId } of teamSeasonPairs) {
-		const result = await deleteTeamSeasonWithCleanup(
-			firestore,
-			teamId,
-			seasonId,
-			{
-				skipRegisteredCheck: true,
-			}
-		)
-		results.push(result)
-	}
-	return results
-}
-
 /**
  * Delete team logo from Storage. Best-effort — failures are logged and
  * swallowed because they should not block the rest of the cleanup.
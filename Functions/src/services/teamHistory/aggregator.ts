@@ -0,0 +1,141 @@
+/**
+ * Team history aggregation
+ *
+ * Folds a team's counted games and season entries into its all-time
+ * record, per-season breakdown and head-to-head records. Pure, so the
+ * rebuild can be checked against hand-built inputs.
+ */
+
+import {
+	DocumentReference,
+	GameType,
+	TeamDocument,
+	TeamHeadToHead,
+	TeamHistoryDocument,
+	TeamHistorySeason,
+	TeamRecord,
+	Timestamp,
+} from '../../types.js'
+import { TeamHistoryGame, TeamHistorySeasonEntry } from './types.js'
+
+const emptyRecord = (): TeamRecord => ({
+	wins: 0,
+	losses: 0,
+	ties: 0,
+	pointsFor: 0,
+	pointsAgainst: 0,
+})
+
+/**
+ * Adds one game's result to a record
+ */
+function addResult(record: TeamRecord, game: TeamHistoryGame): void {
+	record.pointsFor += game.pointsFor
+	record.pointsAgainst += game.pointsAgainst
+	if (game.pointsFor > game.pointsAgainst) record.wins++
+	else if (game.pointsFor < game.pointsAgainst) record.losses++
+	else record.ties++
+}
+
+/**
+ * Builds a team's history from its counted games and season entries
+ *
+ * @param team - The canonical team
+ * @param games - The team's games with a counted result
+ * @param seasonEntries - The team's `teamSeasons` entries
+ * @param updatedAt - When the history is being built
+ */
+export function buildTeamHistory(
+	team: DocumentReference<TeamDocument>,
+	games: TeamHistoryGame[],
+	seasonEntries: TeamHistorySeasonEntry[],
+	updatedAt: Timestamp
+): TeamHistoryDocument {
+	const allTime = emptyRecord()
+	const playoffs = emptyRecord()
+
+	// Seed a row for every season the team entered, then add any season it
+	// has games in without an entry (e.g. after a merge)
+	const seasons = new Map<string, TeamHistorySeason>()
+	const seasonStarts = new Map<string, number>()
+	for (const entry of seasonEntries) {
+		seasons.set(entry.season.id, {
+			season: entry.season,
+			name: entry.name,
+			regularSeason: emptyRecord(),
+			playoffs: emptyRecord(),
+			madePlayoffs: false,
+			placement: entry.placement,
+		})
+		seasonStarts.set(entry.season.id, entry.seasonStart)
+	}
+
+	const headToHead = new Map<string, TeamHeadToHead>()
+
+	// Oldest first, so the latest game sets each opponent's name
+	const sortedGames = [...games].sort(
+		(a, b) => a.date.toMillis() - b.date.toMillis()
+	)
+	for (const game of sortedGames) {
+		const isPlayoff = game.type === GameType.PLAYOFF
+		addResult(allTime, game)
+		if (isPlayoff) addResult(playoffs, game)
+
+		let season = seasons.get(game.season.id)
+		if (!season) {
+			season = {
+				season: game.season,
+				name: game.teamName,
+				regularSeason: emptyRecord(),
+				playoffs: emptyRecord(),
+				madePlayoffs: false,
+				placement: null,
+			}
+			seasons.set(game.season.id, season)
+			seasonStarts.set(game.season.id, game.date.toMillis())
+		}
+		addResult(isPlayoff ? season.playoffs : season.regularSeason, game)
+		if (isPlayoff) season.madePlayoffs = true
+
+		const rivalry = headToHead.get(game.opponent.id) ?? {
+			opponent: game.opponent,
+			opponentName: game.opponentName,
+			...emptyRecord(),
+			playoffGames: 0,
+			lastPlayed: game.date,
+		}
+		addResult(rivalry, game)
+		if (isPlayoff) rivalry.playoffGames++
+		rivalry.opponentName = game.opponentName
+		rivalry.lastPlayed = game.date
+		headToHead.set(game.opponent.id, rivalry)
+	}
+
+	const seasonStart = (row: TeamHistorySeason): number =>
+		seasonStarts.get(row.season.id) ?? 0
+	const seasonRows = [...seasons.values()].sort(
+		(a, b) => seasonStart(b) - seasonStart(a)
+	)
+	const placements = seasonRows
+		.map((row) => row.placement)
+		.filter((placement): placement is number => placement !== null)
+
+	const gamesPlayed = (record: TeamRecord): number =>
+		record.wins + record.losses + record.ties
+
+	return {
+		team,
+		allTime,
+		playoffs,
+		playoffAppearances: seasonRows.filter((row) => row.madePlayoffs).length,
+		championships: placements.filter((placement) => placement === 1).length,
+		bestPlacement: placements.length > 0 ? Math.min(...placements) : null,
+		seasons: seasonRows,
+		headToHead: [...headToHead.values()].sort(
+			(a, b) =>
+				gamesPlayed(b) - gamesPlayed(a) ||
+				b.lastPlayed.toMillis() - a.lastPlayed.toMillis()
+		),
+		updatedAt,
+	}
+}
@@ -0,0 +1,15 @@
+/**
+ * Team History Service
+ *
+ * Precomputes each canonical team's all-time record, season-by-season
+ * history and head-to-head records into `teamHistory/{teamId}`
+ */
+
+export {
+	rebuildAllTeamHistories,
+	refreshTeamHistories,
+	refreshTeamHistory,
+} from './refresh.js'
+export { buildTeamHistory } from './aggregator.js'
+
+export type { TeamHistoryGame, TeamHistorySeasonEntry } from './types.js'
@@ -0,0 +1,157 @@
+/**
+ * Team history refresh
+ *
+ * Loads a team's games and season entries, rebuilds its history and writes
+ * it to `teamHistory/{teamId}`.
+ */
+
+import { getFirestore, Timestamp } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import {
+	Collections,
+	GameDocument,
+	SeasonDocument,
+	TEAM_SEASONS_SUBCOLLECTION,
+	TeamSeasonDocument,
+} from '../../types.js'
+import { teamHistoryRef, teamRef } from '../../shared/database.js'
+import { hasCountedResult } from '../../shared/gameStatus.js'
+import { buildTeamHistory } from './aggregator.js'
+import { TeamHistoryGame, TeamHistorySeasonEntry } from './types.js'
+
+/**
+ * A team's games with a counted result, from the team's side
+ */
+async function loadTeamHistoryGames(
+	firestore: FirebaseFirestore.Firestore,
+	teamId: string
+): Promise<TeamHistoryGame[]> {
+	const ref = teamRef(firestore, teamId)
+	const [homeSnapshot, awaySnapshot] = await Promise.all([
+		firestore.collection(Collections.GAMES).where('home', '==', ref).get(),
+		firestore.collection(Collections.GAMES).where('away', '==', ref).get(),
+	])
+
+	const games: TeamHistoryGame[] = []
+	const addGames = (
+		snapshot: FirebaseFirestore.QuerySnapshot,
+		isHome: boolean
+	): void => {
+		for (const doc of snapshot.docs) {
+			const game = doc.data() as GameDocument
+			const opponent = isHome ? game.away : game.home
+			if (!opponent || !hasCountedResult(game)) continue
+			games.push({
+				gameId: doc.id,
+				season: game.season,
+				type: game.type,
+				date: game.date,
+				teamName: (isHome ? game.homeName : game.awayName) ?? 'Unknown team',
+				opponent,
+				opponentName:
+					(isHome ? game.awayName : game.homeName) ?? 'Unknown team',
+				pointsFor: isHome ? game.homeScore : game.awayScore,
+				pointsAgainst: isHome ? game.awayScore : game.homeScore,
+			})
+		}
+	}
+	addGames(homeSnapshot, true)
+	addGames(awaySnapshot, false)
+	return games
+}
+
+/**
+ * A team's `teamSeasons` entries, with each season's start date
+ */
+async function loadTeamHistorySeasons(
+	firestore: FirebaseFirestore.Firestore,
+	teamId: string
+): Promise<TeamHistorySeasonEntry[]> {
+	const snapshot = await teamRef(firestore, teamId)
+		.collection(TEAM_SEASONS_SUBCOLLECTION)
+		.get()
+	const entries = snapshot.docs.map((doc) => doc.data() as TeamSeasonDocument)
+	if (entries.length === 0) return []
+
+	const seasonDocs = await firestore.getAll(
+		...entries.map((entry) => entry.season)
+	)
+	const seasonStarts = new Map(
+		seasonDocs.map((doc) => [
+			doc.id,
+			(doc.data() as SeasonDocument | undefined)?.dateStart.toMillis() ?? 0,
+		])
+	)
+
+	return entries.map((entry) => ({
+		season: entry.season,
+		name: entry.name,
+		placement: entry.placement ?? null,
+		seasonStart: seasonStarts.get(entry.season.id) ?? 0,
+	}))
+}
+
+/**
+ * Rebuilds one team's history. A deleted team's history is removed.
+ */
+export async function refreshTeamHistory(teamId: string): Promise<void> {
+	const firestore = getFirestore()
+	const historyRef = teamHistoryRef(firestore, teamId)
+
+	const teamSnapshot = await teamRef(firestore, teamId).get()
+	if (!teamSnapshot.exists) {
+		await historyRef.delete()
+		return
+	}
+
+	const [games, seasonEntries] = await Promise.all([
+		loadTeamHistoryGames(firestore, teamId),
+		loadTeamHistorySeasons(firestore, teamId),
+	])
+
+	await historyRef.set(
+		buildTeamHistory(
+			teamRef(firestore, teamId),
+			games,
+			seasonEntries,
+			Timestamp.now()
+		)
+	)
+}
+
+/**
+ * Rebuilds the history of each team, one at a time. A failure for one team
+ * is logged and doesn't stop the others.
+ *
+ * @returns Number of teams refreshed
+ */
+export async function refreshTeamHistories(
+	teamIds: Iterable<string>
+): Promise<number> {
+	let refreshed = 0
+	for (const teamId of new Set(teamIds)) {
+		try {
+			await refreshTeamHistory(teamId)
+			refreshed++
+		} catch (error) {
+			logger.error('Error refreshing team history:', {
+				teamId,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+		}
+	}
+	return refreshed
+}
+
+/**
+ * Rebuilds the history of every team
+ *
+ * @returns Number of teams refreshed
+ */
+export async function rebuildAllTeamHistories(): Promise<number> {
+	const teamsSnapshot = await getFirestore()
+		.collection(Collections.TEAMS)
+		.select()
+		.get()
+	return refreshTeamHistories(teamsSnapshot.docs.map((doc) => doc.id))
+}
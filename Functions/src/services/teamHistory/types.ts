@@ -0,0 +1,38 @@
+/**
+ * Team history service types
+ */
+
+import {
+	DocumentReference,
+	GameType,
+	SeasonDocument,
+	TeamDocument,
+	Timestamp,
+} from '../../types.js'
+
+/**
+ * One counted game from the team's side
+ */
+export interface TeamHistoryGame {
+	gameId: string
+	season: DocumentReference<SeasonDocument>
+	type: GameType
+	date: Timestamp
+	/** The team's name in this game */
+	teamName: string
+	opponent: DocumentReference<TeamDocument>
+	opponentName: string
+	pointsFor: number
+	pointsAgainst: number
+}
+
+/**
+ * One of the team's `teamSeasons` entries, with its season's start date
+ */
+export interface TeamHistorySeasonEntry {
+	season: DocumentReference<SeasonDocument>
+	name: string
+	placement: number | null
+	/** Season start, in milliseconds, for ordering */
+	seasonStart: number
+}
@@ -2,20 +2,31 @@
  * Team registration status management service
  *
  * Updates the `teams/{teamId}/teamSeasons/{seasonId}.registered` flag based on
- * how many roster members are paid + signed for the season.
+ * how many roster members are paid + signed for the season, against the
+ * season's `minPlayersForRegistration` and `minPlayersPerGender` rules.
+ * Teams that qualify once the
+ * season is full are waitlisted instead (see teamWaitlistService).
  */
 
-import { getFirestore, FieldValue } from 'firebase-admin/firestore'
+import { getFirestore } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
-import { TEAM_CONFIG } from '../config/constants.js'
-import { playerSeasonRef, teamSeasonRef } from '../shared/database.js'
+import {
+	playerRef,
+	playerSeasonRef,
+	teamSeasonRef,
+} from '../shared/database.js'
+import { getSeasonRules } from '../shared/seasonRules.js'
+import { registerOrWaitlistTeam } from './teamWaitlistService.js'
+import { PlayerDocument, PlayerGender } from '../types.js'
 
 /**
  * Recompute the registration status of a team for a specific season.
  *
  * Reads the team's roster subcollection and each roster player's matching
- * season subdoc. Updates `registered` and `registeredDate` on the team's
- * season subdoc when the status flips.
+ * season subdoc. A team that newly qualifies is registered, or waitlisted if
+ * the season is full; a team that no longer qualifies loses its registration
+ * or its waitlist spot. Filling the spot it leaves is handled by the
+ * `onTeamRegistrationChange` trigger.
  *
  * Uses individual reads (not a transaction) since the roster subcollection
  * contents and the player season subdocs are queried independently.
@@ -36,37 +47,63 @@ export async function updateTeamRegistrationStatus(
 
 		const teamSeasonData = teamSeasonSnap.data()
 
+		const { minPlayersForRegistration, minPlayersPerGender } =
+			await getSeasonRules(seasonId)
+
 		const rosterSnap = await teamSeasonDocRef.collection('roster').get()
-		let registeredCount = 0
+		let registeredPlayerIds: string[] = []
 		if (!rosterSnap.empty) {
 			const playerSeasons = await Promise.all(
 				rosterSnap.docs.map((rosterDoc) =>
 					playerSeasonRef(firestore, rosterDoc.id, seasonId).get()
 				)
 			)
-			registeredCount = playerSeasons.filter((snap) => {
-				if (!snap.exists) return false
-				const data = snap.data()
-				return Boolean(data?.paid && data?.signed)
-			}).length
+			registeredPlayerIds = rosterSnap.docs
+				.filter((_, index) => {
+					const data = playerSeasons[index].data()
+					return Boolean(data?.paid && data?.signed)
+				})
+				.map((rosterDoc) => rosterDoc.id)
 		}
+		const registeredCount = registeredPlayerIds.length
+
+		const missingGenders = await findMissingGenders(
+			firestore,
+			registeredPlayerIds,
+			minPlayersPerGender
+		)
+		const meetsRequirements =
+			registeredCount >= minPlayersForRegistration &&
+			missingGenders.length === 0
+		const isRegisteredOrWaitlisted = Boolean(
+			teamSeasonData?.registered || teamSeasonData?.waitlisted
+		)
 
-		const shouldBeRegistered =
-			registeredCount >= TEAM_CONFIG.MIN_PLAYERS_FOR_REGISTRATION
+		if (meetsRequirements && !isRegisteredOrWaitlisted) {
+			const status = await registerOrWaitlistTeam(teamSeasonDocRef, seasonId)
 
-		if (teamSeasonData?.registered !== shouldBeRegistered) {
+			logger.info('Updated team registration status', {
+				teamId,
+				seasonId,
+				status,
+				registeredCount,
+				minPlayersForRegistration,
+			})
+		} else if (!meetsRequirements && isRegisteredOrWaitlisted) {
 			await teamSeasonDocRef.update({
-				registered: shouldBeRegistered,
-				registeredDate: shouldBeRegistered
-					? FieldValue.serverTimestamp()
-					: null,
+				registered: false,
+				registeredDate: null,
+				waitlisted: false,
+				waitlistPosition: null,
 			})
 
 			logger.info('Updated team registration status', {
 				teamId,
 				seasonId,
-				registered: shouldBeRegistered,
+				status: 'unregistered',
 				registeredCount,
+				minPlayersForRegistration,
+				missingGenders,
 			})
 		}
 	} catch (error) {
@@ -78,3 +115,34 @@ export async function updateTeamRegistrationStatus(
 		throw error
 	}
 }
+
+/**
+ * Genders a team's paid and signed players fall short of the season's
+ * minimum for
+ */
+async function findMissingGenders(
+	firestore: FirebaseFirestore.Firestore,
+	registeredPlayerIds: string[],
+	minPlayersPerGender: Partial<Record<PlayerGender, number>>
+): Promise<PlayerGender[]> {
+	const minimums = Object.entries(minPlayersPerGender) as [
+		PlayerGender,
+		number,
+	][]
+	if (minimums.length === 0) return []
+
+	const players =
+		registeredPlayerIds.length > 0
+			? await firestore.getAll(
+					...registeredPlayerIds.map((id) => playerRef(firestore, id))
+				)
+			: []
+	const counts: Partial<Record<PlayerGender, number>> = {}
+	for (const player of players) {
+		const gender = (player.data() as PlayerDocument | undefined)?.gender
+		if (gender) counts[gender] = (counts[gender] ?? 0) + 1
+	}
+	return minimums
+		.filter(([gender, minimum]) => (counts[gender] ?? 0) < minimum)
+		.map(([gender]) => gender)
+}
@@ -0,0 +1,171 @@
+/**
+ * Team waitlist service
+ *
+ * Once a season has `registeredTeamsForLock` registered teams, any further
+ * team that meets the registration requirements joins the season's waitlist
+ * instead of registering. Waitlisted teams are ordered by `registeredDate`
+ * (when they qualified) and promoted into open spots when a registered team
+ * drops below the minimum or withdraws.
+ */
+
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import {
+	Collections,
+	TEAM_SEASONS_SUBCOLLECTION,
+	TeamSeasonDocument,
+} from '../types.js'
+import { canonicalTeamIdFromTeamSeasonDoc } from '../shared/database.js'
+import { getSeasonRules } from '../shared/seasonRules.js'
+
+type TeamSeasonSnapshot =
+	FirebaseFirestore.QueryDocumentSnapshot<TeamSeasonDocument>
+
+export interface WaitlistSyncResult {
+	/** Teams moved from the waitlist into open registration spots */
+	promotedTeamIds: string[]
+	/** Teams still on the waitlist after the sync */
+	waitlistedCount: number
+}
+
+/**
+ * Query for a season's team-season subdocs matching a status flag
+ */
+function teamSeasonsWithFlag(
+	firestore: FirebaseFirestore.Firestore,
+	seasonId: string,
+	flag: 'registered' | 'waitlisted'
+): FirebaseFirestore.Query {
+	return firestore
+		.collectionGroup(TEAM_SEASONS_SUBCOLLECTION)
+		.where(
+			'season',
+			'==',
+			firestore.collection(Collections.SEASONS).doc(seasonId)
+		)
+		.where(flag, '==', true)
+}
+
+/**
+ * Waitlisted teams in the order they qualified
+ */
+function orderWaitlist(docs: TeamSeasonSnapshot[]): TeamSeasonSnapshot[] {
+	const millis = (date: Timestamp | null): number =>
+		date?.toMillis() ?? Number.MAX_SAFE_INTEGER
+	return [...docs].sort(
+		(a, b) =>
+			millis(a.data().registeredDate) - millis(b.data().registeredDate) ||
+			a.ref.path.localeCompare(b.ref.path)
+	)
+}
+
+/**
+ * Register a team that has just met the registration requirements, or put it
+ * on the waitlist if the season is full.
+ *
+ * A team is only registered directly when there's an open spot and nobody
+ * is already waiting for it; otherwise it joins the back of the waitlist.
+ *
+ * @returns The team's new status, or null if it was already registered or
+ * waitlisted
+ */
+export async function registerOrWaitlistTeam(
+	teamSeasonDocRef: FirebaseFirestore.DocumentReference,
+	seasonId: string
+): Promise<'registered' | 'waitlisted' | null> {
+	const firestore = getFirestore()
+	const { registeredTeamsForLock } = await getSeasonRules(seasonId)
+
+	return firestore.runTransaction(async (transaction) => {
+		const [teamSeasonSnap, registeredSnap, waitlistedSnap] = await Promise.all([
+			transaction.get(teamSeasonDocRef),
+			transaction.get(teamSeasonsWithFlag(firestore, seasonId, 'registered')),
+			transaction.get(teamSeasonsWithFlag(firestore, seasonId, 'waitlisted')),
+		])
+
+		const teamSeasonData = teamSeasonSnap.data() as
+			| TeamSeasonDocument
+			| undefined
+		if (
+			!teamSeasonData ||
+			teamSeasonData.registered ||
+			teamSeasonData.waitlisted
+		) {
+			return null
+		}
+
+		if (registeredSnap.size < registeredTeamsForLock && waitlistedSnap.empty) {
+			transaction.update(teamSeasonDocRef, {
+				registered: true,
+				registeredDate: FieldValue.serverTimestamp(),
+				waitlisted: false,
+				waitlistPosition: null,
+			})
+			return 'registered'
+		}
+
+		transaction.update(teamSeasonDocRef, {
+			registered: false,
+			registeredDate: FieldValue.serverTimestamp(),
+			waitlisted: true,
+			waitlistPosition: waitlistedSnap.size + 1,
+		})
+		return 'waitlisted'
+	})
+}
+
+/**
+ * Promote waitlisted teams into any open registration spots and renumber the
+ * rest of the waitlist.
+ *
+ * Safe to call repeatedly: when nothing has changed it makes no writes.
+ */
+export async function syncSeasonWaitlist(
+	seasonId: string
+): Promise<WaitlistSyncResult> {
+	const firestore = getFirestore()
+	const { registeredTeamsForLock } = await getSeasonRules(seasonId)
+
+	const result = await firestore.runTransaction(async (transaction) => {
+		const [registeredSnap, waitlistedSnap] = await Promise.all([
+			transaction.get(teamSeasonsWithFlag(firestore, seasonId, 'registered')),
+			transaction.get(teamSeasonsWithFlag(firestore, seasonId, 'waitlisted')),
+		])
+
+		const waitlist = orderWaitlist(waitlistedSnap.docs as TeamSeasonSnapshot[])
+		const openSpots = Math.max(0, registeredTeamsForLock - registeredSnap.size)
+		const promoted = waitlist.slice(0, openSpots)
+		const remaining = waitlist.slice(openSpots)
+
+		// Promoted teams keep their registeredDate so they stay ordered by
+		// when they qualified
+		for (const doc of promoted) {
+			transaction.update(doc.ref, {
+				registered: true,
+				waitlisted: false,
+				waitlistPosition: null,
+			})
+		}
+
+		remaining.forEach((doc, index) => {
+			if (doc.data().waitlistPosition !== index + 1) {
+				transaction.update(doc.ref, { waitlistPosition: index + 1 })
+			}
+		})
+
+		return {
+			promotedTeamIds: promoted.map(canonicalTeamIdFromTeamSeasonDoc),
+			waitlistedCount: remaining.length,
+		}
+	})
+
+	if (result.promotedTeamIds.length > 0) {
+		logger.info('Promoted waitlisted teams', {
+			seasonId,
+			registeredTeamsForLock,
+			...result,
+		})
+	}
+
+	return result
+}
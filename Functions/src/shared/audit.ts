@@ -0,0 +1,142 @@
+/**
+ * Admin audit log
+ *
+ * Every admin callable records what it changed here after validating the
+ * admin and performing the action. Entries are append-only: nothing updates
+ * or deletes them, and the App can only read them.
+ */
+
+import { CallableRequest } from 'firebase-functions/v2/https'
+import {
+	DocumentData,
+	DocumentReference,
+	FieldValue,
+	getFirestore,
+	Timestamp,
+} from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import {
+	AuditAction,
+	AuditFieldChange,
+	AuditLogDocument,
+	AuditValue,
+	Collections,
+	PlayerDocument,
+} from '../types.js'
+
+/** Value recorded for server-computed writes such as serverTimestamp() */
+const SERVER_VALUE = '(server value)'
+
+/**
+ * An admin action to record
+ */
+export interface AdminActionEntry {
+	action: AuditAction
+	/** Documents the action changed; the first is the primary target */
+	targets: DocumentReference[]
+	/** Primary target's data before the action (omit or null when created) */
+	before?: DocumentData | null
+	/** Primary target's data after the action (omit or null when deleted) */
+	after?: DocumentData | null
+	/** Extra context worth keeping, e.g. counts or options */
+	details?: Record<string, unknown>
+}
+
+/**
+ * Converts a Firestore value into a form that can be stored and compared
+ * in the audit log
+ */
+export function toAuditValue(value: unknown): AuditValue {
+	if (value === undefined || value === null) return null
+	if (
+		typeof value === 'string' ||
+		typeof value === 'number' ||
+		typeof value === 'boolean'
+	) {
+		return value
+	}
+	if (value instanceof Timestamp) return value.toDate().toISOString()
+	if (value instanceof Date) return value.toISOString()
+	if (value instanceof DocumentReference) return value.path
+	if (value instanceof FieldValue) {
+		return value.isEqual(FieldValue.delete()) ? null : SERVER_VALUE
+	}
+	if (Array.isArray(value)) return value.map(toAuditValue)
+	if (typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value as Record<string, unknown>).map(([key, entry]) => [
+				key,
+				toAuditValue(entry),
+			])
+		)
+	}
+	return String(value)
+}
+
+/**
+ * Lists the top-level fields whose values differ between two versions of a
+ * document. Fields are compared by their audit values, so references and
+ * timestamps compare by path and instant.
+ */
+export function diffDocuments(
+	before: DocumentData | null | undefined,
+	after: DocumentData | null | undefined
+): AuditFieldChange[] {
+	const fields = new Set([
+		...Object.keys(before ?? {}),
+		...Object.keys(after ?? {}),
+	])
+
+	return [...fields].sort().flatMap((field) => {
+		const beforeValue = toAuditValue(before?.[field])
+		const afterValue = toAuditValue(after?.[field])
+		return JSON.stringify(beforeValue) === JSON.stringify(afterValue)
+			? []
+			: [{ field, before: beforeValue, after: afterValue }]
+	})
+}
+
+/**
+ * Records an admin action in the audit log
+ *
+ * Call after the action has succeeded. A failure to write the entry is
+ * logged rather than thrown, so the admin isn't told an action failed when
+ * it actually went through.
+ *
+ * @param auth - The validated admin's auth context
+ */
+export async function recordAdminAction(
+	auth: CallableRequest['auth'],
+	entry: AdminActionEntry
+): Promise<void> {
+	if (!auth?.uid) return
+
+	const firestore = getFirestore()
+	const document: AuditLogDocument = {
+		actor: firestore
+			.collection(Collections.PLAYERS)
+			.doc(auth.uid) as DocumentReference<PlayerDocument>,
+		actorEmail: auth.token?.email ?? null,
+		action: entry.action,
+		targets: entry.targets,
+		targetPaths: entry.targets.map((target) => target.path),
+		changes: diffDocuments(entry.before, entry.after),
+		details: Object.fromEntries(
+			Object.entries(entry.details ?? {})
+				.filter(([, value]) => value !== undefined)
+				.map(([key, value]) => [key, toAuditValue(value)])
+		),
+		createdAt: Timestamp.now(),
+	}
+
+	try {
+		await firestore.collection(Collections.AUDIT_LOG).add(document)
+	} catch (error) {
+		logger.error('Failed to write audit log entry', {
+			action: entry.action,
+			actorId: auth.uid,
+			targetPaths: document.targetPaths,
+			error: error instanceof Error ? error.message : 'Unknown error',
+		})
+	}
+}
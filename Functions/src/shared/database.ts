@@ -10,13 +10,20 @@ import {
 import {
 	Collections,
 	DocumentReference,
+	GAME_ATTENDANCE_SUBCOLLECTION,
+	GameAttendanceDocument,
+	GAME_SPIRIT_RATINGS_SUBCOLLECTION,
+	NOTIFICATIONS_SUBCOLLECTION,
+	NotificationDocument,
 	PLAYER_SEASONS_SUBCOLLECTION,
 	PlayerDocument,
 	PlayerSeasonDocument,
 	SeasonDocument,
+	SpiritRatingDocument,
 	TEAM_SEASONS_SUBCOLLECTION,
 	TeamBadgeDocument,
 	TeamDocument,
+	TeamHistoryDocument,
 	TeamRosterDocument,
 	TeamSeasonDocument,
 } from '../types.js'
@@ -64,16 +71,79 @@ export function teamRosterEntryRef(
 		.doc(playerId) as DocumentReference<TeamRosterDocument>
 }
 
+export function teamBadgesCollection(
+	firestore: FirebaseFirestore.Firestore,
+	teamId: string
+): FirebaseFirestore.CollectionReference<TeamBadgeDocument> {
+	return firestore
+		.collection(Collections.TEAMS)
+		.doc(teamId)
+		.collection(
+			'badges'
+		) as FirebaseFirestore.CollectionReference<TeamBadgeDocument>
+}
+
 export function teamBadgeRef(
 	firestore: FirebaseFirestore.Firestore,
 	teamId: string,
 	badgeId: string
 ): DocumentReference<TeamBadgeDocument> {
+	return teamBadgesCollection(firestore, teamId).doc(
+		badgeId
+	) as DocumentReference<TeamBadgeDocument>
+}
+
+export function teamHistoryRef(
+	firestore: FirebaseFirestore.Firestore,
+	teamId: string
+): DocumentReference<TeamHistoryDocument> {
 	return firestore
-		.collection(Collections.TEAMS)
-		.doc(teamId)
-		.collection('badges')
-		.doc(badgeId) as DocumentReference<TeamBadgeDocument>
+		.collection(Collections.TEAM_HISTORY)
+		.doc(teamId) as DocumentReference<TeamHistoryDocument>
+}
+
+export function gameAttendanceCollection(
+	firestore: FirebaseFirestore.Firestore,
+	gameId: string
+): FirebaseFirestore.CollectionReference<GameAttendanceDocument> {
+	return firestore
+		.collection(Collections.GAMES)
+		.doc(gameId)
+		.collection(
+			GAME_ATTENDANCE_SUBCOLLECTION
+		) as FirebaseFirestore.CollectionReference<GameAttendanceDocument>
+}
+
+export function gameAttendanceRef(
+	firestore: FirebaseFirestore.Firestore,
+	gameId: string,
+	playerId: string
+): DocumentReference<GameAttendanceDocument> {
+	return gameAttendanceCollection(firestore, gameId).doc(
+		playerId
+	) as DocumentReference<GameAttendanceDocument>
+}
+
+export function gameSpiritRatingsCollection(
+	firestore: FirebaseFirestore.Firestore,
+	gameId: string
+): FirebaseFirestore.CollectionReference<SpiritRatingDocument> {
+	return firestore
+		.collection(Collections.GAMES)
+		.doc(gameId)
+		.collection(
+			GAME_SPIRIT_RATINGS_SUBCOLLECTION
+		) as FirebaseFirestore.CollectionReference<SpiritRatingDocument>
+}
+
+export function gameSpiritRatingRef(
+	firestore: FirebaseFirestore.Firestore,
+	gameId: string,
+	teamId: string
+): DocumentReference<SpiritRatingDocument> {
+	return gameSpiritRatingsCollection(firestore, gameId).doc(
+		teamId
+	) as DocumentReference<SpiritRatingDocument>
 }
 
 export function playerRef(
@@ -97,6 +167,18 @@ export function playerSeasonRef(
 		.doc(seasonId) as DocumentReference<PlayerSeasonDocument>
 }
 
+export function playerNotificationsCollection(
+	firestore: FirebaseFirestore.Firestore,
+	playerId: string
+): FirebaseFirestore.CollectionReference<NotificationDocument> {
+	return firestore
+		.collection(Collections.PLAYERS)
+		.doc(playerId)
+		.collection(
+			NOTIFICATIONS_SUBCOLLECTION
+		) as FirebaseFirestore.CollectionReference<NotificationDocument>
+}
+
 // ---- Canonical derivation from subcollection doc snapshots ---------------
 
 /**
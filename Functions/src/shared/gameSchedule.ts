@@ -0,0 +1,170 @@
+/**
+ * Game scheduling validation shared by the game management callables
+ *
+ * Each validator takes the season's rules (see `shared/seasonRules.ts`) and
+ * falls back to the league-wide defaults when none are given.
+ */
+
+import { HttpsError } from 'firebase-functions/v2/https'
+import { DEFAULT_SEASON_RULES, ResolvedSeasonRules } from './seasonRules.js'
+
+const MONTH_NAMES = [
+	'January',
+	'February',
+	'March',
+	'April',
+	'May',
+	'June',
+	'July',
+	'August',
+	'September',
+	'October',
+	'November',
+	'December',
+]
+
+/**
+ * Day of week for a calendar date using Zeller's congruence
+ *
+ * Works from the date components directly so the result never depends on the
+ * server's timezone.
+ *
+ * @returns 0=Saturday, 1=Sunday, ..., 6=Friday
+ */
+export function zellerDayOfWeek(
+	year: number,
+	month: number,
+	dayOfMonth: number
+): number {
+	const adjustedMonth = month < 3 ? month + 12 : month
+	const adjustedYear = month < 3 ? year - 1 : year
+	return (
+		(dayOfMonth +
+			Math.floor((13 * (adjustedMonth + 1)) / 5) +
+			adjustedYear +
+			Math.floor(adjustedYear / 4) -
+			Math.floor(adjustedYear / 100) +
+			Math.floor(adjustedYear / 400)) %
+		7
+	)
+}
+
+/**
+ * Validates a YYYY-MM-DD game night and returns it unchanged
+ *
+ * @throws HttpsError if the date is malformed, not a Saturday, or outside the
+ * season's allowed months
+ */
+export function validateGameNight(
+	date: string,
+	rules: Pick<ResolvedSeasonRules, 'allowedMonths'> = DEFAULT_SEASON_RULES
+): string {
+	const dateMatch =
+		typeof date === 'string' ? date.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null
+	if (!dateMatch) {
+		throw new HttpsError(
+			'invalid-argument',
+			`Invalid date "${date}": expected YYYY-MM-DD`
+		)
+	}
+
+	const year = parseInt(dateMatch[1], 10)
+	const month = parseInt(dateMatch[2], 10)
+	const dayOfMonth = parseInt(dateMatch[3], 10)
+	const parsed = new Date(Date.UTC(year, month - 1, dayOfMonth))
+	if (
+		parsed.getUTCFullYear() !== year ||
+		parsed.getUTCMonth() !== month - 1 ||
+		parsed.getUTCDate() !== dayOfMonth
+	) {
+		throw new HttpsError('invalid-argument', `Invalid date "${date}"`)
+	}
+
+	if (zellerDayOfWeek(year, month, dayOfMonth) !== 0) {
+		throw new HttpsError(
+			'invalid-argument',
+			`Games can only be scheduled on Saturdays (received: ${date})`
+		)
+	}
+
+	if (!rules.allowedMonths.includes(month)) {
+		throw new HttpsError(
+			'invalid-argument',
+			`Games can only be scheduled in ${rules.allowedMonths.map((m) => MONTH_NAMES[m - 1]).join(', ')} (received: ${date})`
+		)
+	}
+
+	return date
+}
+
+/**
+ * Validates an ISO 8601 game timestamp against the season's schedule rules
+ *
+ * The date and time are read from the string itself (not the parsed Date) so
+ * the local Central time the admin picked is what gets validated.
+ *
+ * @returns The parsed game date
+ * @throws HttpsError if the timestamp is malformed, not a Saturday, outside
+ * the allowed months, or not in one of the allowed time slots
+ */
+export function validateGameTimestamp(
+	timestamp: string,
+	rules: Pick<
+		ResolvedSeasonRules,
+		'allowedMonths' | 'allowedTimeSlots'
+	> = DEFAULT_SEASON_RULES
+): Date {
+	if (!timestamp || typeof timestamp !== 'string') {
+		throw new HttpsError(
+			'invalid-argument',
+			'Timestamp is required and must be a valid ISO 8601 string'
+		)
+	}
+
+	const gameDate = new Date(timestamp)
+	if (isNaN(gameDate.getTime())) {
+		throw new HttpsError(
+			'invalid-argument',
+			'Invalid timestamp format. Must be a valid ISO 8601 string'
+		)
+	}
+
+	// ISO format: YYYY-MM-DDTHH:MM:SS.sss±HH:MM
+	const dateMatch = timestamp.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/)
+	if (!dateMatch) {
+		throw new HttpsError(
+			'invalid-argument',
+			'Invalid timestamp format: could not extract date and time'
+		)
+	}
+	validateGameNight(`${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`, rules)
+
+	const timeString = `${dateMatch[4]}:${dateMatch[5]}`
+	if (!rules.allowedTimeSlots.includes(timeString)) {
+		throw new HttpsError(
+			'invalid-argument',
+			`Games can only be scheduled at ${rules.allowedTimeSlots.join(', ')} CT (received: ${timeString})`
+		)
+	}
+
+	return gameDate
+}
+
+/**
+ * Validates a field number against the season's allowed fields
+ *
+ * @throws HttpsError if the field is not allowed
+ */
+export function validateGameField(
+	field: number,
+	rules: Pick<ResolvedSeasonRules, 'allowedFields'> = DEFAULT_SEASON_RULES,
+	label?: string
+): number {
+	if (!rules.allowedFields.includes(field)) {
+		throw new HttpsError(
+			'invalid-argument',
+			`${label ? `${label}: ` : ''}Field must be one of ${rules.allowedFields.join(', ')}`
+		)
+	}
+	return field
+}
@@ -0,0 +1,75 @@
+/**
+ * Game lifecycle status helpers
+ *
+ * Standings, Swiss rankings, playoff seeding and player rankings all decide
+ * which games count through these, so forfeits, postponements and
+ * cancellations are handled the same way everywhere. The App mirrors them in
+ * `shared/utils/game-utils.ts`.
+ */
+
+import { GameDocument, GameStatus } from '../types.js'
+
+/**
+ * A game with both scores recorded
+ */
+export type ScoredGame = GameDocument & {
+	homeScore: number
+	awayScore: number
+}
+
+/**
+ * The game's status, derived from its date and scores when none is stored
+ * (or the stored one is scheduled or in progress, which time overtakes)
+ */
+export function getGameStatus(
+	game: GameDocument,
+	now: number = Date.now()
+): GameStatus {
+	if (
+		game.status &&
+		game.status !== GameStatus.SCHEDULED &&
+		game.status !== GameStatus.IN_PROGRESS
+	) {
+		return game.status
+	}
+	if (game.homeScore !== null && game.awayScore !== null) {
+		return GameStatus.FINAL
+	}
+	return game.date.toMillis() > now
+		? GameStatus.SCHEDULED
+		: GameStatus.IN_PROGRESS
+}
+
+/**
+ * Whether the game's result counts toward standings: a final score or a
+ * forfeit. Postponed and canceled games never count, even with a score.
+ */
+export function hasCountedResult(game: GameDocument): game is ScoredGame {
+	const status = getGameStatus(game)
+	return (
+		(status === GameStatus.FINAL || status === GameStatus.FORFEIT) &&
+		game.homeScore !== null &&
+		game.awayScore !== null
+	)
+}
+
+/**
+ * Whether the game's result updates player ratings. Forfeits count in the
+ * standings but say nothing about how the teams play, so they're left out.
+ */
+export function hasRatedResult(game: GameDocument): game is ScoredGame {
+	return hasCountedResult(game) && getGameStatus(game) === GameStatus.FINAL
+}
+
+/**
+ * Whether the game is settled without being played (forfeited, postponed or
+ * canceled), so nothing further is expected of it
+ */
+export function isUnplayed(game: GameDocument): boolean {
+	const status = getGameStatus(game)
+	return (
+		status === GameStatus.FORFEIT ||
+		status === GameStatus.POSTPONED ||
+		status === GameStatus.CANCELED
+	)
+}
@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'vitest'
+import {
+	buildCalendar,
+	CalendarEvent,
+	escapeText,
+	formatDateTime,
+} from './icalendar.js'
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+	uid: 'game-1@example.com',
+	start: new Date('2026-01-10T00:00:00Z'),
+	end: new Date('2026-01-10T01:00:00Z'),
+	summary: 'Hammers vs Hucks',
+	...overrides,
+})
+
+const calendar = (events: CalendarEvent[]) =>
+	buildCalendar({ name: 'Schedule', timeZone: 'America/Chicago', events })
+
+const lines = (body: string) => body.split('\r\n')
+
+describe('escapeText', () => {
+	test('escapes backslashes, separators and newlines', () => {
+		expect(escapeText('a\\b; c, d\ne')).toBe('a\\\\b\\; c\\, d\\ne')
+	})
+})
+
+describe('formatDateTime', () => {
+	test('writes a UTC DATE-TIME without separators or milliseconds', () => {
+		expect(formatDateTime(new Date('2025-11-08T00:30:15.250Z'))).toBe(
+			'20251108T003015Z'
+		)
+	})
+})
+
+describe('buildCalendar', () => {
+	test('ends every line with CRLF', () => {
+		const body = calendar([event()])
+
+		expect(body.endsWith('END:VCALENDAR\r\n')).toBe(true)
+		expect(body.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/)
+	})
+
+	test('writes the event times, summary and optional properties', () => {
+		const body = lines(
+			calendar([
+				event({
+					location: 'Field 2',
+					description: 'Winter 2026\nFinal: 13-11',
+					lastModified: new Date('2026-01-05T12:00:00Z'),
+					sequence: 3,
+				}),
+			])
+		)
+
+		expect(body).toEqual(
+			expect.arrayContaining([
+				'UID:game-1@example.com',
+				'DTSTART:20260110T000000Z',
+				'DTEND:20260110T010000Z',
+				'SUMMARY:Hammers vs Hucks',
+				'LAST-MODIFIED:20260105T120000Z',
+				'SEQUENCE:3',
+				'LOCATION:Field 2',
+				'DESCRIPTION:Winter 2026\\nFinal: 13-11',
+			])
+		)
+		expect(body).not.toContain('STATUS:CANCELLED')
+	})
+
+	test('writes SEQUENCE 0 and leaves out unset optional properties', () => {
+		const body = lines(calendar([event({ sequence: 0 })]))
+
+		expect(body).toContain('SEQUENCE:0')
+		expect(body.some((line) => line.startsWith('LAST-MODIFIED'))).toBe(false)
+		expect(body.some((line) => line.startsWith('LOCATION'))).toBe(false)
+	})
+
+	test('marks canceled events', () => {
+		expect(lines(calendar([event({ cancelled: true })]))).toContain(
+			'STATUS:CANCELLED'
+		)
+	})
+
+	test('folds long lines to 75 octets without splitting characters', () => {
+		const body = lines(calendar([event({ summary: 'Ü'.repeat(60) })]))
+
+		const start = body.findIndex((line) => line.startsWith('SUMMARY:'))
+		const folded = [body[start]]
+		while (body[start + folded.length].startsWith(' ')) {
+			folded.push(body[start + folded.length])
+		}
+		expect(folded.length).toBeGreaterThan(1)
+		for (const line of folded) {
+			expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75)
+		}
+		expect(
+			folded.map((line, index) => (index === 0 ? line : line.slice(1))).join('')
+		).toBe(`SUMMARY:${'Ü'.repeat(60)}`)
+	})
+})
@@ -0,0 +1,138 @@
+/**
+ * iCalendar (RFC 5545) utilities
+ *
+ * Builds `.ics` documents for subscribable schedule feeds
+ */
+
+/**
+ * A single calendar event
+ */
+export interface CalendarEvent {
+	/** Globally unique, stable identifier — calendar apps match updates on it */
+	uid: string
+	start: Date
+	end: Date
+	summary: string
+	location?: string
+	description?: string
+	/** Marks the event canceled so calendar apps strike it through */
+	cancelled?: boolean
+	/** When the event last changed; lets calendar apps spot updates */
+	lastModified?: Date
+	/** Revision number; must grow whenever the event is rescheduled */
+	sequence?: number
+}
+
+/**
+ * A calendar feed
+ */
+export interface CalendarFeed {
+	/** Display name calendar apps show for the subscription */
+	name: string
+	/** IANA time zone the feed is meant to be viewed in */
+	timeZone: string
+	events: CalendarEvent[]
+}
+
+/** Maximum line length in octets before folding (RFC 5545 §3.1) */
+const MAX_LINE_OCTETS = 75
+
+/** How often subscribers should re-fetch the feed */
+const REFRESH_INTERVAL = 'PT1H'
+
+/**
+ * Escapes a TEXT property value (RFC 5545 §3.3.11)
+ */
+export function escapeText(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Formats a date as a UTC DATE-TIME, e.g. `20251108T000000Z`
+ */
+export function formatDateTime(date: Date): string {
+	return date
+		.toISOString()
+		.replace(/[-:]/g, '')
+		.replace(/\.\d{3}/, '')
+}
+
+/**
+ * Folds a content line to 75 octets, continuing with a leading space
+ * (RFC 5545 §3.1). Splits on code points so multi-byte characters stay whole.
+ */
+function foldLine(line: string): string {
+	const parts: string[] = []
+	let current = ''
+	let currentOctets = 0
+
+	for (const char of line) {
+		const octets = Buffer.byteLength(char, 'utf8')
+		// Continuation lines lose one octet to the leading space
+		const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+		if (currentOctets + octets > limit) {
+			parts.push(current)
+			current = ''
+			currentOctets = 0
+		}
+		current += char
+		currentOctets += octets
+	}
+	parts.push(current)
+
+	return parts.join('\r\n ')
+}
+
+/**
+ * Builds an iCalendar document for the feed
+ *
+ * @returns The `.ics` body with CRLF line endings
+ */
+export function buildCalendar(feed: CalendarFeed): string {
+	const stamp = formatDateTime(new Date())
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		'PRODID:-//Minneapolis Winter League//Schedule//EN',
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		`X-WR-CALNAME:${escapeText(feed.name)}`,
+		`X-WR-TIMEZONE:${feed.timeZone}`,
+		`REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+		`X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+	]
+
+	for (const event of feed.events) {
+		lines.push(
+			'BEGIN:VEVENT',
+			`UID:${event.uid}`,
+			`DTSTAMP:${stamp}`,
+			`DTSTART:${formatDateTime(event.start)}`,
+			`DTEND:${formatDateTime(event.end)}`,
+			`SUMMARY:${escapeText(event.summary)}`
+		)
+		if (event.lastModified) {
+			lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`)
+		}
+		if (event.sequence !== undefined) {
+			lines.push(`SEQUENCE:${event.sequence}`)
+		}
+		if (event.location) {
+			lines.push(`LOCATION:${escapeText(event.location)}`)
+		}
+		if (event.description) {
+			lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+		}
+		if (event.cancelled) {
+			lines.push('STATUS:CANCELLED')
+		}
+		lines.push('END:VEVENT')
+	}
+
+	lines.push('END:VCALENDAR')
+	return lines.map(foldLine).join('\r\n') + '\r\n'
+}
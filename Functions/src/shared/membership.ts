@@ -73,7 +73,8 @@ import type {
  * Writes BOTH sides of the player↔team relationship in one transaction:
  *   - Creates `teams/{teamId}/teamSeasons/{seasonId}/roster/{playerId}`
  *   - Creates or updates `players/{playerId}/playerSeasons/{seasonId}` so
- *     its `team` field points at the canonical team.
+ *     its `team` field points at the canonical team, switching off any
+ *     active free-agent listing.
  *
  * The caller is responsible for any pre-write invariant reads (e.g. "is the
  * player already on another team?", "does the team season exist?", "is
@@ -129,6 +130,9 @@ export function addPlayerToTeam(
 		transaction.update(playerSeasonDocRef, {
 			team: teamCanonicalRef,
 			captain,
+			...(existingPlayerSeason.freeAgentProfile?.active && {
+				'freeAgentProfile.active': false,
+			}),
 		})
 	} else {
 		const newPlayerSeason: PlayerSeasonDocument = {
@@ -0,0 +1,182 @@
+/**
+ * Notification utilities
+ * Writes in-app notifications to `players/{uid}/notifications`
+ */
+
+import { FieldValue, Firestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { NotificationType, OfferDocument } from '../types.js'
+import {
+	playerNotificationsCollection,
+	playerSeasonRef,
+	teamSeasonRef,
+} from './database.js'
+
+/** Firestore batches are limited to 500 writes */
+const BATCH_SIZE = 500
+
+export interface NotificationContent {
+	type: NotificationType
+	title: string
+	body: string
+	/** In-app path opened when the notification is clicked */
+	link?: string | null
+}
+
+/**
+ * Creates the same unread notification for each of the given players.
+ *
+ * Notifications are best-effort: failures are logged and never thrown, so
+ * callers can notify after their own writes without risking the request.
+ *
+ * @param firestore - Firestore instance
+ * @param playerIds - Players to notify; duplicates and empty IDs are ignored
+ * @param content - Notification type, text and link
+ * @returns Number of notifications written
+ */
+export async function notifyPlayers(
+	firestore: Firestore,
+	playerIds: Iterable<string>,
+	content: NotificationContent
+): Promise<number> {
+	const recipients = [...new Set(playerIds)].filter(Boolean)
+	if (recipients.length === 0) {
+		return 0
+	}
+
+	let written = 0
+	try {
+		for (let start = 0; start < recipients.length; start += BATCH_SIZE) {
+			const batch = firestore.batch()
+			const chunk = recipients.slice(start, start + BATCH_SIZE)
+			for (const playerId of chunk) {
+				batch.set(playerNotificationsCollection(firestore, playerId).doc(), {
+					type: content.type,
+					title: content.title,
+					body: content.body,
+					link: content.link ?? null,
+					read: false,
+					createdAt: FieldValue.serverTimestamp(),
+				})
+			}
+			await batch.commit()
+			written += chunk.length
+		}
+	} catch (error) {
+		logger.error('Error writing notifications:', {
+			type: content.type,
+			recipients: recipients.length,
+			written,
+			error: error instanceof Error ? error.message : 'Unknown error',
+		})
+	}
+
+	return written
+}
+
+/**
+ * Lists the IDs of every player on a team's roster for a season
+ */
+export async function getTeamRosterPlayerIds(
+	firestore: Firestore,
+	teamId: string,
+	seasonId: string
+): Promise<string[]> {
+	const rosterSnapshot = await teamSeasonRef(firestore, teamId, seasonId)
+		.collection('roster')
+		.get()
+	return rosterSnapshot.docs.map((doc) => doc.id)
+}
+
+/**
+ * Lists the IDs of a team's captains for a season
+ *
+ * Captaincy lives on the player season docs, so this reads the roster and
+ * then each rostered player's season doc.
+ */
+export async function getTeamCaptainIds(
+	firestore: Firestore,
+	teamId: string,
+	seasonId: string
+): Promise<string[]> {
+	const rosterIds = await getTeamRosterPlayerIds(firestore, teamId, seasonId)
+	if (rosterIds.length === 0) {
+		return []
+	}
+
+	const playerSeasonSnaps = await firestore.getAll(
+		...rosterIds.map((playerId) =>
+			playerSeasonRef(firestore, playerId, seasonId)
+		)
+	)
+	// getAll returns snapshots in the order the refs were given
+	return rosterIds.filter(
+		(_playerId, index) => playerSeasonSnaps[index].data()?.captain === true
+	)
+}
+
+/** Player and team names for the text of an offer notification */
+export interface OfferDisplayNames {
+	playerName: string
+	teamName: string
+}
+
+/** The recipients of an offer notification and the names it mentions */
+export interface OfferParty {
+	recipientIds: string[]
+	names: OfferDisplayNames
+	/** Number of notifications written */
+	notified: number
+}
+
+/**
+ * Notifies one side of an offer: the team's captains when `toTeam` is set,
+ * otherwise the player.
+ *
+ * Like `notifyPlayers`, failures are logged and never thrown.
+ *
+ * @param firestore - Firestore instance
+ * @param offer - The offer being notified about
+ * @param toTeam - Whether the team's captains are the recipients
+ * @param buildContent - Builds the notification from the offer's names
+ * @returns The recipients and names, so callers can email the same
+ * players, or null if they could not be looked up
+ */
+export async function notifyOfferParty(
+	firestore: Firestore,
+	offer: Pick<OfferDocument, 'player' | 'team' | 'season'>,
+	toTeam: boolean,
+	buildContent: (names: OfferDisplayNames) => NotificationContent
+): Promise<OfferParty | null> {
+	try {
+		const [playerSnap, teamSeasonSnap, recipientIds] = await Promise.all([
+			offer.player.get(),
+			teamSeasonRef(firestore, offer.team.id, offer.season.id).get(),
+			toTeam
+				? getTeamCaptainIds(firestore, offer.team.id, offer.season.id)
+				: Promise.resolve([offer.player.id]),
+		])
+		const player = playerSnap.data()
+		const names = {
+			playerName: player
+				? `${player.firstname} ${player.lastname}`
+				: 'A player',
+			teamName: teamSeasonSnap.data()?.name ?? 'your team',
+		}
+
+		const notified = await notifyPlayers(
+			firestore,
+			recipientIds,
+			buildContent(names)
+		)
+		return { recipientIds, names, notified }
+	} catch (error) {
+		logger.error('Error notifying offer party:', {
+			playerId: offer.player.id,
+			teamId: offer.team.id,
+			toTeam,
+			error: error instanceof Error ? error.message : 'Unknown error',
+		})
+		return null
+	}
+}
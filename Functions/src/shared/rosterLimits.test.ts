@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'vitest'
+import { PlayerGender, SeasonDocument } from '../types.js'
+import { RosterComposition, validateRosterAddition } from './rosterLimits.js'
+import { resolveSeasonRules } from './seasonRules.js'
+
+const rulesFor = (rules: SeasonDocument['rules']) =>
+	resolveSeasonRules({ rules } as SeasonDocument)
+
+const roster = (
+	players: number,
+	captains: number,
+	genders: RosterComposition['genders'] = {}
+): RosterComposition => ({ players, captains, genders })
+
+const woman = { captain: false, gender: PlayerGender.WOMAN }
+const man = { captain: false, gender: PlayerGender.MAN }
+
+describe('validateRosterAddition', () => {
+	test('allows any roster when the season sets no limits', () => {
+		expect(() =>
+			validateRosterAddition(
+				rulesFor(undefined),
+				roster(40, 9),
+				{ captain: true },
+				'Team'
+			)
+		).not.toThrow()
+	})
+
+	test('rejects a player once the roster is full', () => {
+		expect(() =>
+			validateRosterAddition(
+				rulesFor({ maxRosterSize: 12 }),
+				roster(12, 1),
+				man,
+				'Team'
+			)
+		).toThrow('Team is full. Rosters are limited to 12 players this season.')
+	})
+
+	test('rejects a captain over the captain limit', () => {
+		expect(() =>
+			validateRosterAddition(
+				rulesFor({ maxCaptains: 2 }),
+				roster(5, 2),
+				{ captain: true },
+				'Team'
+			)
+		).toThrow(/Teams can have at most 2 this season/)
+	})
+
+	test('rejects a player over their gender limit', () => {
+		expect(() =>
+			validateRosterAddition(
+				rulesFor({ maxPlayersPerGender: { [PlayerGender.MAN]: 6 } }),
+				roster(8, 1, { [PlayerGender.MAN]: 6 }),
+				man,
+				'Team'
+			)
+		).toThrow(/most men allowed this season \(6\)/)
+	})
+
+	describe('gender minimums on a capped roster', () => {
+		const rules = rulesFor({
+			maxRosterSize: 12,
+			minPlayersPerGender: { [PlayerGender.WOMAN]: 4 },
+		})
+
+		test('hold back the spots still needed for that gender', () => {
+			expect(() =>
+				validateRosterAddition(
+					rules,
+					roster(9, 1, { [PlayerGender.WOMAN]: 1 }),
+					man,
+					'Team'
+				)
+			).toThrow("Team's remaining spots are held for women")
+		})
+
+		test('let a player of that gender take a held spot', () => {
+			expect(() =>
+				validateRosterAddition(
+					rules,
+					roster(9, 1, { [PlayerGender.WOMAN]: 1 }),
+					woman,
+					'Team'
+				)
+			).not.toThrow()
+		})
+
+		test('leave open spots beyond the held ones to anyone', () => {
+			expect(() =>
+				validateRosterAddition(
+					rules,
+					roster(7, 1, { [PlayerGender.WOMAN]: 1 }),
+					man,
+					'Team'
+				)
+			).not.toThrow()
+		})
+	})
+
+	test('gender minimums hold nothing back on an uncapped roster', () => {
+		expect(() =>
+			validateRosterAddition(
+				rulesFor({ minPlayersPerGender: { [PlayerGender.WOMAN]: 4 } }),
+				roster(30, 1),
+				man,
+				'Team'
+			)
+		).not.toThrow()
+	})
+})
@@ -0,0 +1,213 @@
+/**
+ * Season roster limits: roster size, captain counts, and gender limits and
+ * minimums
+ *
+ * Every membership path reads the team's current roster with
+ * `getRosterComposition` and checks the change against the season's rules
+ * before writing through the helpers in `membership.ts`. Each check throws a
+ * `failed-precondition` HttpsError that explains which limit was hit.
+ */
+
+import type { Transaction } from 'firebase-admin/firestore'
+import { HttpsError } from 'firebase-functions/v2/https'
+import { playerRef, playerSeasonRef, teamSeasonRef } from './database.js'
+import type { ResolvedSeasonRules } from './seasonRules.js'
+import { PlayerGender, type PlayerDocument } from '../types.js'
+
+/**
+ * Headcounts for one team's roster in one season
+ */
+export interface RosterComposition {
+	players: number
+	captains: number
+	/** Players per gender; players without a gender aren't counted */
+	genders: Partial<Record<PlayerGender, number>>
+}
+
+/**
+ * A player joining or leaving a roster
+ */
+export interface RosterMember {
+	captain: boolean
+	gender?: PlayerGender
+}
+
+const GENDER_LABELS: Record<PlayerGender, string> = {
+	[PlayerGender.WOMAN]: 'women',
+	[PlayerGender.MAN]: 'men',
+	[PlayerGender.NON_BINARY]: 'non-binary players',
+}
+
+const plural = (count: number, noun: string): string =>
+	`${count} ${noun}${count === 1 ? '' : 's'}`
+
+/**
+ * Counts the players, captains, and genders on a team's roster
+ *
+ * Pass a transaction to read inside it; the caller must do this before any
+ * of the transaction's writes.
+ */
+export async function getRosterComposition(
+	firestore: FirebaseFirestore.Firestore,
+	teamId: string,
+	seasonId: string,
+	transaction?: Transaction
+): Promise<RosterComposition> {
+	const rosterCollection = teamSeasonRef(
+		firestore,
+		teamId,
+		seasonId
+	).collection('roster')
+	const rosterSnapshot = transaction
+		? await transaction.get(rosterCollection)
+		: await rosterCollection.get()
+
+	const composition = emptyRosterComposition()
+	composition.players = rosterSnapshot.size
+	if (rosterSnapshot.empty) return composition
+
+	const playerIds = rosterSnapshot.docs.map((doc) => doc.id)
+	const refs = [
+		...playerIds.map((id) => playerSeasonRef(firestore, id, seasonId)),
+		...playerIds.map((id) => playerRef(firestore, id)),
+	] as FirebaseFirestore.DocumentReference[]
+	const snapshots = transaction
+		? await transaction.getAll(...refs)
+		: await firestore.getAll(...refs)
+
+	playerIds.forEach((_, index) => {
+		if (snapshots[index].data()?.captain === true) composition.captains++
+		const gender = (
+			snapshots[playerIds.length + index].data() as PlayerDocument | undefined
+		)?.gender
+		if (gender) {
+			composition.genders[gender] = (composition.genders[gender] ?? 0) + 1
+		}
+	})
+	return composition
+}
+
+/**
+ * The composition of a roster no one has joined yet
+ */
+function emptyRosterComposition(): RosterComposition {
+	return { players: 0, captains: 0, genders: {} }
+}
+
+/**
+ * Updates a composition in place for a player joining (1) or leaving (-1)
+ */
+export function recordRosterChange(
+	composition: RosterComposition,
+	member: RosterMember,
+	direction: 1 | -1
+): void {
+	composition.players += direction
+	if (member.captain) composition.captains += direction
+	if (member.gender) {
+		composition.genders[member.gender] =
+			(composition.genders[member.gender] ?? 0) + direction
+	}
+}
+
+/**
+ * Checks that a player can join a roster without going over the season's
+ * roster size, captain, or gender limits. On a capped roster, the spots still
+ * needed to reach the season's gender minimums are held back for players of
+ * those genders.
+ *
+ * @param teamName - Used in the error message
+ * @throws HttpsError (failed-precondition) naming the limit that was hit
+ */
+export function validateRosterAddition(
+	rules: ResolvedSeasonRules,
+	composition: RosterComposition,
+	member: RosterMember,
+	teamName: string
+): void {
+	const { maxRosterSize, maxCaptains } = rules
+
+	if (maxRosterSize !== null && composition.players + 1 > maxRosterSize) {
+		throw new HttpsError(
+			'failed-precondition',
+			`${teamName} is full. Rosters are limited to ${plural(maxRosterSize, 'player')} this season.`
+		)
+	}
+
+	if (
+		member.captain &&
+		maxCaptains !== null &&
+		composition.captains + 1 > maxCaptains
+	) {
+		throw new HttpsError(
+			'failed-precondition',
+			`${teamName} already has ${plural(composition.captains, 'captain')}. Teams can have at most ${maxCaptains} this season.`
+		)
+	}
+
+	const genderLimit = member.gender
+		? rules.maxPlayersPerGender[member.gender]
+		: undefined
+	if (
+		member.gender &&
+		genderLimit !== undefined &&
+		(composition.genders[member.gender] ?? 0) + 1 > genderLimit
+	) {
+		throw new HttpsError(
+			'failed-precondition',
+			`${teamName} already has the most ${GENDER_LABELS[member.gender]} allowed this season (${genderLimit}).`
+		)
+	}
+
+	if (maxRosterSize === null) return
+
+	const heldBack = (
+		Object.entries(rules.minPlayersPerGender) as [PlayerGender, number][]
+	).filter(
+		([gender, minimum]) =>
+			gender !== member.gender && (composition.genders[gender] ?? 0) < minimum
+	)
+	const spotsHeldBack = heldBack.reduce(
+		(total, [gender, minimum]) =>
+			total + minimum - (composition.genders[gender] ?? 0),
+		0
+	)
+	if (composition.players + 1 + spotsHeldBack > maxRosterSize) {
+		throw new HttpsError(
+			'failed-precondition',
+			`${teamName}'s remaining spots are held for ${heldBack
+				.map(([gender]) => GENDER_LABELS[gender])
+				.join(' and ')}, to meet this season's gender minimums.`
+		)
+	}
+}
+
+/**
+ * Checks that promoting (1) or demoting/removing (-1) a captain keeps the
+ * team within the season's captain limits
+ *
+ * @throws HttpsError (failed-precondition) naming the limit that was hit
+ */
+export function validateCaptainChange(
+	rules: ResolvedSeasonRules,
+	composition: RosterComposition,
+	direction: 1 | -1
+): void {
+	const { maxCaptains } = rules
+	if (
+		direction === 1 &&
+		maxCaptains !== null &&
+		composition.captains + 1 > maxCaptains
+	) {
+		throw new HttpsError(
+			'failed-precondition',
+			`Teams can have at most ${plural(maxCaptains, 'captain')} this season. Demote a captain first.`
+		)
+	}
+	if (direction === -1 && composition.captains - 1 < rules.minCaptains) {
+		throw new HttpsError(
+			'failed-precondition',
+			`Teams must keep at least ${plural(rules.minCaptains, 'captain')} this season. Promote another player to captain first.`
+		)
+	}
+}
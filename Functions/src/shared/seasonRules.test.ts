@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'vitest'
+import { PlayerGender, SeasonDocument } from '../types.js'
+import {
+	DEFAULT_SEASON_RULES,
+	resolveSeasonRules,
+	validateSeasonRules,
+} from './seasonRules.js'
+
+describe('resolveSeasonRules', () => {
+	test('leaves roster and captain caps unset for a season without rules', () => {
+		const rules = resolveSeasonRules({} as SeasonDocument)
+
+		expect(rules.maxRosterSize).toBeNull()
+		expect(rules.maxCaptains).toBeNull()
+		expect(rules.minCaptains).toBe(DEFAULT_SEASON_RULES.minCaptains)
+		expect(rules.minPlayersPerGender).toEqual({})
+	})
+
+	test("uses the season's own limits", () => {
+		const rules = resolveSeasonRules({
+			rules: { maxRosterSize: 16, maxCaptains: 3 },
+		} as SeasonDocument)
+
+		expect(rules.maxRosterSize).toBe(16)
+		expect(rules.maxCaptains).toBe(3)
+	})
+})
+
+describe('validateSeasonRules', () => {
+	test('accepts a season with no roster limits', () => {
+		expect(validateSeasonRules({ offerExpirationDays: 5 })).toEqual({
+			offerExpirationDays: 5,
+		})
+	})
+
+	test('accepts a minimum captains alone, since captains are uncapped by default', () => {
+		expect(validateSeasonRules({ minCaptains: 6 })).toEqual({ minCaptains: 6 })
+	})
+
+	test('rejects a minimum captains above the maximum', () => {
+		expect(() =>
+			validateSeasonRules({ minCaptains: 3, maxCaptains: 2 })
+		).toThrow(/Maximum captains must be at least 3/)
+	})
+
+	test('rejects a max roster below the players needed to register', () => {
+		expect(() => validateSeasonRules({ maxRosterSize: 8 })).toThrow(
+			/Max roster size must be at least 10/
+		)
+	})
+
+	test('rejects a max roster that cannot fit the gender minimums', () => {
+		expect(() =>
+			validateSeasonRules({
+				maxRosterSize: 12,
+				minPlayersPerGender: {
+					[PlayerGender.WOMAN]: 7,
+					[PlayerGender.MAN]: 7,
+				},
+			})
+		).toThrow(/Max roster size must be at least 14/)
+	})
+
+	test('rejects a gender minimum above its limit', () => {
+		expect(() =>
+			validateSeasonRules({
+				minPlayersPerGender: { [PlayerGender.WOMAN]: 6 },
+				maxPlayersPerGender: { [PlayerGender.WOMAN]: 5 },
+			})
+		).toThrow(/Gender minimums can't be more than the gender limits/)
+	})
+
+	test('rejects an unknown gender', () => {
+		expect(() =>
+			validateSeasonRules({
+				minPlayersPerGender: { other: 2 } as never,
+			})
+		).toThrow(/Gender minimums must map/)
+	})
+})
@@ -0,0 +1,401 @@
+/**
+ * Per-season league rules, with the league-wide constants as defaults
+ */
+
+import { getFirestore } from 'firebase-admin/firestore'
+import { HttpsError } from 'firebase-functions/v2/https'
+import { GAME_CONFIG, OFFER_CONFIG, TEAM_CONFIG } from '../config/constants.js'
+import {
+	Collections,
+	PlayerGender,
+	SeasonDocument,
+	SeasonRules,
+} from '../types.js'
+
+/**
+ * Season rules with every default filled in. Limits a season doesn't set are
+ * null, meaning no limit.
+ */
+export type ResolvedSeasonRules = Required<
+	Omit<SeasonRules, 'maxRosterSize' | 'maxCaptains'>
+> & {
+	maxRosterSize: number | null
+	maxCaptains: number | null
+}
+
+type GenderCounts = Partial<Record<PlayerGender, number>>
+
+/**
+ * Rules used when a season doesn't override them
+ */
+export const DEFAULT_SEASON_RULES: ResolvedSeasonRules = {
+	minPlayersForRegistration: TEAM_CONFIG.MIN_PLAYERS_FOR_REGISTRATION,
+	registeredTeamsForLock: TEAM_CONFIG.REGISTERED_TEAMS_FOR_LOCK,
+	allowedTimeSlots: [...GAME_CONFIG.ALLOWED_TIME_SLOTS],
+	allowedFields: [...GAME_CONFIG.ALLOWED_FIELDS],
+	allowedMonths: [...GAME_CONFIG.ALLOWED_MONTHS],
+	offerExpirationDays: OFFER_CONFIG.EXPIRATION_DAYS,
+	offerReminderHours: OFFER_CONFIG.REMINDER_HOURS,
+	maxRosterSize: null,
+	minCaptains: TEAM_CONFIG.MIN_CAPTAINS,
+	maxCaptains: null,
+	maxPlayersPerGender: {},
+	minPlayersPerGender: {},
+	forfeitWinnerScore: GAME_CONFIG.FORFEIT_WINNER_SCORE,
+	forfeitLoserScore: GAME_CONFIG.FORFEIT_LOSER_SCORE,
+}
+
+const TIME_SLOT_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+/**
+ * Fills any rule the season leaves unset with the league-wide default
+ */
+export function resolveSeasonRules(
+	season: SeasonDocument | undefined
+): ResolvedSeasonRules {
+	return resolveRules(season?.rules ?? {})
+}
+
+function resolveRules(rules: SeasonRules): ResolvedSeasonRules {
+	return {
+		minPlayersForRegistration:
+			rules.minPlayersForRegistration ??
+			DEFAULT_SEASON_RULES.minPlayersForRegistration,
+		registeredTeamsForLock:
+			rules.registeredTeamsForLock ??
+			DEFAULT_SEASON_RULES.registeredTeamsForLock,
+		allowedTimeSlots: rules.allowedTimeSlots?.length
+			? rules.allowedTimeSlots
+			: DEFAULT_SEASON_RULES.allowedTimeSlots,
+		allowedFields: rules.allowedFields?.length
+			? rules.allowedFields
+			: DEFAULT_SEASON_RULES.allowedFields,
+		allowedMonths: rules.allowedMonths?.length
+			? rules.allowedMonths
+			: DEFAULT_SEASON_RULES.allowedMonths,
+		offerExpirationDays:
+			rules.offerExpirationDays ?? DEFAULT_SEASON_RULES.offerExpirationDays,
+		offerReminderHours:
+			rules.offerReminderHours ?? DEFAULT_SEASON_RULES.offerReminderHours,
+		maxRosterSize: rules.maxRosterSize ?? DEFAULT_SEASON_RULES.maxRosterSize,
+		minCaptains: rules.minCaptains ?? DEFAULT_SEASON_RULES.minCaptains,
+		maxCaptains: rules.maxCaptains ?? DEFAULT_SEASON_RULES.maxCaptains,
+		maxPlayersPerGender:
+			rules.maxPlayersPerGender ?? DEFAULT_SEASON_RULES.maxPlayersPerGender,
+		minPlayersPerGender:
+			rules.minPlayersPerGender ?? DEFAULT_SEASON_RULES.minPlayersPerGender,
+		forfeitWinnerScore:
+			rules.forfeitWinnerScore ?? DEFAULT_SEASON_RULES.forfeitWinnerScore,
+		forfeitLoserScore:
+			rules.forfeitLoserScore ?? DEFAULT_SEASON_RULES.forfeitLoserScore,
+	}
+}
+
+/**
+ * Reads a season's rules, falling back to the defaults if the season is missing
+ */
+export async function getSeasonRules(
+	seasonId: string
+): Promise<ResolvedSeasonRules> {
+	const seasonDoc = await getFirestore()
+		.collection(Collections.SEASONS)
+		.doc(seasonId)
+		.get()
+	return resolveSeasonRules(seasonDoc.data() as SeasonDocument | undefined)
+}
+
+/**
+ * Validates rules submitted from the season management form
+ *
+ * @returns The rules with lists de-duplicated and sorted, or undefined when
+ * none were submitted
+ * @throws HttpsError if any rule is out of range
+ */
+export function validateSeasonRules(
+	rules: SeasonRules | undefined
+): SeasonRules | undefined {
+	if (rules === undefined || rules === null) {
+		return undefined
+	}
+
+	if (typeof rules !== 'object') {
+		throw new HttpsError('invalid-argument', 'Season rules must be an object')
+	}
+
+	const {
+		minPlayersForRegistration,
+		registeredTeamsForLock,
+		allowedTimeSlots,
+		allowedFields,
+		allowedMonths,
+		offerExpirationDays,
+		offerReminderHours,
+		maxRosterSize,
+		minCaptains,
+		maxCaptains,
+		maxPlayersPerGender,
+		minPlayersPerGender,
+		forfeitWinnerScore,
+		forfeitLoserScore,
+	} = rules
+	const validated: SeasonRules = {}
+
+	if (minPlayersForRegistration !== undefined) {
+		if (
+			!Number.isInteger(minPlayersForRegistration) ||
+			minPlayersForRegistration < 1
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Minimum players for registration must be a positive whole number'
+			)
+		}
+		validated.minPlayersForRegistration = minPlayersForRegistration
+	}
+
+	if (registeredTeamsForLock !== undefined) {
+		if (
+			!Number.isInteger(registeredTeamsForLock) ||
+			registeredTeamsForLock < 2
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Registered teams for lock must be a whole number of at least 2'
+			)
+		}
+		validated.registeredTeamsForLock = registeredTeamsForLock
+	}
+
+	if (allowedTimeSlots !== undefined) {
+		if (
+			!Array.isArray(allowedTimeSlots) ||
+			allowedTimeSlots.length === 0 ||
+			allowedTimeSlots.some(
+				(slot) => typeof slot !== 'string' || !TIME_SLOT_PATTERN.test(slot)
+			)
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Time slots must be a non-empty list of HH:MM times'
+			)
+		}
+		validated.allowedTimeSlots = Array.from(new Set(allowedTimeSlots)).sort()
+	}
+
+	if (allowedFields !== undefined) {
+		if (
+			!Array.isArray(allowedFields) ||
+			allowedFields.length === 0 ||
+			allowedFields.some((field) => !Number.isInteger(field) || field < 1)
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Fields must be a non-empty list of positive field numbers'
+			)
+		}
+		validated.allowedFields = Array.from(new Set(allowedFields)).sort(
+			(a, b) => a - b
+		)
+	}
+
+	if (allowedMonths !== undefined) {
+		if (
+			!Array.isArray(allowedMonths) ||
+			allowedMonths.length === 0 ||
+			allowedMonths.some(
+				(month) => !Number.isInteger(month) || month < 1 || month > 12
+			)
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Months must be a non-empty list of month numbers (1-12)'
+			)
+		}
+		validated.allowedMonths = Array.from(new Set(allowedMonths)).sort(
+			(a, b) => a - b
+		)
+	}
+
+	if (offerExpirationDays !== undefined) {
+		if (
+			!Number.isInteger(offerExpirationDays) ||
+			offerExpirationDays < 1 ||
+			offerExpirationDays > OFFER_CONFIG.MAX_EXPIRATION_DAYS
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				`Offer expiration must be a whole number of days between 1 and ${OFFER_CONFIG.MAX_EXPIRATION_DAYS}`
+			)
+		}
+		validated.offerExpirationDays = offerExpirationDays
+	}
+
+	if (offerReminderHours !== undefined) {
+		const expirationHours =
+			(offerExpirationDays ?? DEFAULT_SEASON_RULES.offerExpirationDays) * 24
+		if (
+			!Number.isInteger(offerReminderHours) ||
+			offerReminderHours < 0 ||
+			offerReminderHours >= expirationHours
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Offer reminder must be a whole number of hours, shorter than the offer expiration'
+			)
+		}
+		validated.offerReminderHours = offerReminderHours
+	}
+
+	if (maxRosterSize !== undefined) {
+		if (!Number.isInteger(maxRosterSize) || maxRosterSize < 1) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Max roster size must be a positive whole number'
+			)
+		}
+		validated.maxRosterSize = maxRosterSize
+	}
+
+	if (minCaptains !== undefined) {
+		if (!Number.isInteger(minCaptains) || minCaptains < 1) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Minimum captains must be a positive whole number'
+			)
+		}
+		validated.minCaptains = minCaptains
+	}
+
+	if (maxCaptains !== undefined) {
+		if (!Number.isInteger(maxCaptains) || maxCaptains < 1) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Maximum captains must be a positive whole number'
+			)
+		}
+		validated.maxCaptains = maxCaptains
+	}
+
+	if (maxPlayersPerGender !== undefined) {
+		validated.maxPlayersPerGender = validateGenderCounts(
+			maxPlayersPerGender,
+			'Gender limits'
+		)
+	}
+
+	if (minPlayersPerGender !== undefined) {
+		validated.minPlayersPerGender = validateGenderCounts(
+			minPlayersPerGender,
+			'Gender minimums'
+		)
+	}
+
+	if (forfeitWinnerScore !== undefined || forfeitLoserScore !== undefined) {
+		const winnerScore =
+			forfeitWinnerScore ?? DEFAULT_SEASON_RULES.forfeitWinnerScore
+		const loserScore =
+			forfeitLoserScore ?? DEFAULT_SEASON_RULES.forfeitLoserScore
+		if (
+			!Number.isInteger(winnerScore) ||
+			!Number.isInteger(loserScore) ||
+			loserScore < 0 ||
+			winnerScore <= loserScore
+		) {
+			throw new HttpsError(
+				'invalid-argument',
+				'Forfeit scores must be non-negative whole numbers, with the winner scoring more than the loser'
+			)
+		}
+		if (forfeitWinnerScore !== undefined) {
+			validated.forfeitWinnerScore = forfeitWinnerScore
+		}
+		if (forfeitLoserScore !== undefined) {
+			validated.forfeitLoserScore = forfeitLoserScore
+		}
+	}
+
+	// The rules are saved as a whole, so limits that depend on each other are
+	// checked with the defaults filled in for anything left unset.
+	validateRosterRules(resolveRules(validated))
+
+	return validated
+}
+
+/**
+ * Checks a gender-to-player-count map from the season management form
+ *
+ * @param label - Names the rule in the error message
+ */
+function validateGenderCounts(
+	counts: GenderCounts,
+	label: string
+): GenderCounts {
+	const genders = Object.values(PlayerGender) as string[]
+	if (
+		typeof counts !== 'object' ||
+		counts === null ||
+		Object.entries(counts).some(
+			([gender, count]) =>
+				!genders.includes(gender) || !Number.isInteger(count) || count < 1
+		)
+	) {
+		throw new HttpsError(
+			'invalid-argument',
+			`${label} must map ${genders.join(', ')} to a positive whole number of players`
+		)
+	}
+	return counts
+}
+
+/**
+ * Checks that a season's roster, captain, and gender rules can all be met
+ * together
+ *
+ * @throws HttpsError (invalid-argument) naming the rules that conflict
+ */
+function validateRosterRules(rules: ResolvedSeasonRules): void {
+	const {
+		maxRosterSize,
+		minCaptains,
+		maxCaptains,
+		minPlayersForRegistration,
+		maxPlayersPerGender,
+		minPlayersPerGender,
+	} = rules
+
+	if (maxCaptains !== null && maxCaptains < minCaptains) {
+		throw new HttpsError(
+			'invalid-argument',
+			`Maximum captains must be at least ${minCaptains}, the minimum captains`
+		)
+	}
+
+	const conflictingGenders = Object.entries(minPlayersPerGender).filter(
+		([gender, minimum]) =>
+			minimum > (maxPlayersPerGender[gender as PlayerGender] ?? Infinity)
+	)
+	if (conflictingGenders.length > 0) {
+		throw new HttpsError(
+			'invalid-argument',
+			`Gender minimums can't be more than the gender limits (${conflictingGenders.map(([gender]) => gender).join(', ')})`
+		)
+	}
+
+	if (maxRosterSize === null) return
+
+	const genderMinimums = Object.values(minPlayersPerGender).reduce(
+		(total, minimum) => total + minimum,
+		0
+	)
+	const minRosterSize = Math.max(
+		minPlayersForRegistration,
+		maxCaptains ?? minCaptains,
+		genderMinimums
+	)
+	if (maxRosterSize < minRosterSize) {
+		throw new HttpsError(
+			'invalid-argument',
+			`Max roster size must be at least ${minRosterSize}, to fit the players needed to register, the most captains allowed, and the gender minimums`
+		)
+	}
+}
@@ -0,0 +1,349 @@
+/**
+ * Game scored trigger
+ *
+ * Fires when a game is written. Keeps player rankings in step with scored
+ * games: new rounds are applied on top of the rankings checkpoint, and edits
+ * to already processed games flag a full rebuild. When its score is
+ * recorded, changed or cleared, also flags whether the underdog won,
+ * advances the winner of a playoff bracket game into the game it feeds, then
+ * re-checks the game-based badge rules for both teams. New games and games
+ * whose teams or date changed get a fresh pre-game prediction, and both
+ * rosters are emailed when an upcoming game moves to a new time or field.
+ * When a game becomes final, both teams' captains are asked to rate the
+ * opponent's spirit. Both teams' precomputed histories are rebuilt whenever
+ * a change could affect their records, and the game's calendar sequence is
+ * bumped whenever its calendar event changes.
+ */
+
+import { onDocumentWritten } from 'firebase-functions/v2/firestore'
+import { FieldValue, getFirestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { GameDocument, GameStatus, NotificationType } from '../../types.js'
+import { EMAIL_CONFIG, FIREBASE_CONFIG } from '../../config/constants.js'
+import { evaluateBadgeRules } from '../../services/badgeRules/index.js'
+import { advanceBracketWinner } from '../../services/playoffBracket/index.js'
+import {
+	recordPredictionOutcome,
+	refreshGamePrediction,
+} from '../../services/gamePredictions/index.js'
+import { handleGameChangeForRankings } from '../../services/playerRankings/index.js'
+import { isMigrationInProgress } from '../../shared/maintenance.js'
+import {
+	getTeamCaptainIds,
+	getTeamRosterPlayerIds,
+	notifyPlayers,
+} from '../../shared/notifications.js'
+import { getGameStatus, hasCountedResult } from '../../shared/gameStatus.js'
+import { refreshTeamHistories } from '../../services/teamHistory/index.js'
+import { sendPlayerEmails } from '../../services/email/index.js'
+
+/**
+ * Emails both rosters when an upcoming, unscored game moves to a new time
+ * or field
+ */
+async function emailRescheduledGame(
+	beforeData: GameDocument,
+	afterData: GameDocument
+): Promise<void> {
+	const moved =
+		beforeData.date.toMillis() !== afterData.date.toMillis() ||
+		beforeData.field !== afterData.field
+	const upcoming =
+		afterData.date.toMillis() > Date.now() &&
+		afterData.homeScore === null &&
+		afterData.awayScore === null
+	if (!moved || !upcoming) {
+		return
+	}
+
+	const firestore = getFirestore()
+	const sides = [
+		{
+			team: afterData.home,
+			name: afterData.homeName,
+			opponent: afterData.awayName,
+		},
+		{
+			team: afterData.away,
+			name: afterData.awayName,
+			opponent: afterData.homeName,
+		},
+	]
+	for (const { team, name, opponent } of sides) {
+		if (!team) continue
+		await sendPlayerEmails(
+			firestore,
+			await getTeamRosterPlayerIds(firestore, team.id, afterData.season.id),
+			'gameRescheduled',
+			{
+				teamName: name ?? 'Your team',
+				opponentName: opponent ?? null,
+				previousDate: beforeData.date.toDate(),
+				newDate: afterData.date.toDate(),
+				field: afterData.field,
+				link: '/schedule',
+			}
+		)
+	}
+}
+
+/**
+ * Teams whose history a game change affects: both sides, before and after,
+ * when the game's counted result, teams, names or type changed
+ */
+function getTeamsWithChangedHistory(
+	beforeData: GameDocument | undefined,
+	afterData: GameDocument | undefined
+): string[] {
+	const counted = (game: GameDocument | undefined): boolean =>
+		!!game && hasCountedResult(game)
+	if (!counted(beforeData) && !counted(afterData)) {
+		return []
+	}
+	const changed =
+		counted(beforeData) !== counted(afterData) ||
+		beforeData?.homeScore !== afterData?.homeScore ||
+		beforeData?.awayScore !== afterData?.awayScore ||
+		beforeData?.home?.id !== afterData?.home?.id ||
+		beforeData?.away?.id !== afterData?.away?.id ||
+		beforeData?.homeName !== afterData?.homeName ||
+		beforeData?.awayName !== afterData?.awayName ||
+		beforeData?.type !== afterData?.type ||
+		beforeData?.season.id !== afterData?.season.id
+	if (!changed) {
+		return []
+	}
+	return [
+		beforeData?.home?.id,
+		beforeData?.away?.id,
+		afterData?.home?.id,
+		afterData?.away?.id,
+	].filter((teamId): teamId is string => Boolean(teamId))
+}
+
+/**
+ * Whether an existing game's calendar event changed: its date, field, teams
+ * or status. Other writes (predictions, score reports, spirit ratings) leave
+ * subscribers' calendars alone.
+ */
+function calendarEventChanged(
+	beforeData: GameDocument,
+	afterData: GameDocument
+): boolean {
+	return (
+		beforeData.date.toMillis() !== afterData.date.toMillis() ||
+		beforeData.field !== afterData.field ||
+		beforeData.home?.id !== afterData.home?.id ||
+		beforeData.away?.id !== afterData.away?.id ||
+		beforeData.homeName !== afterData.homeName ||
+		beforeData.awayName !== afterData.awayName ||
+		getGameStatus(beforeData) !== getGameStatus(afterData)
+	)
+}
+
+/**
+ * Asks both teams' captains to rate the opponent's spirit when a game
+ * becomes final. Games that were already final (score corrections) and
+ * games a team has already rated don't prompt again.
+ */
+async function promptSpiritRatings(
+	beforeData: GameDocument | undefined,
+	afterData: GameDocument
+): Promise<void> {
+	const becameFinal =
+		getGameStatus(afterData) === GameStatus.FINAL &&
+		(!beforeData || getGameStatus(beforeData) !== GameStatus.FINAL)
+	if (!becameFinal) {
+		return
+	}
+
+	const firestore = getFirestore()
+	const ratedBy = new Set(
+		(afterData.spiritRatedBy ?? []).map((teamRef) => teamRef.id)
+	)
+	const sides = [
+		{ team: afterData.home, opponent: afterData.awayName },
+		{ team: afterData.away, opponent: afterData.homeName },
+	]
+	for (const { team, opponent } of sides) {
+		if (!team || ratedBy.has(team.id)) continue
+		await notifyPlayers(
+			firestore,
+			await getTeamCaptainIds(firestore, team.id, afterData.season.id),
+			{
+				type: NotificationType.SPIRIT_RATING,
+				title: 'Rate your opponent',
+				body: `How was ${opponent ?? 'your opponent'}'s spirit? Rate the game from the schedule.`,
+				link: '/schedule',
+			}
+		)
+	}
+}
+
+export const onGameScored = onDocumentWritten(
+	{
+		document: 'games/{gameId}',
+		region: FIREBASE_CONFIG.REGION,
+		timeoutSeconds: 300,
+		memory: '1GiB',
+		secrets: [...EMAIL_CONFIG.SECRETS],
+	},
+	async (event) => {
+		const { gameId } = event.params
+
+		if (await isMigrationInProgress(getFirestore())) {
+			logger.info('Skipping onGameScored — migration in progress', {
+				eventId: event.id,
+				gameId,
+			})
+			return
+		}
+
+		const beforeData = event.data?.before.data() as GameDocument | undefined
+		const afterData = event.data?.after.data() as GameDocument | undefined
+
+		try {
+			await handleGameChangeForRankings(gameId, beforeData, afterData)
+		} catch (error) {
+			// The scheduled rankings update retries new rounds
+			logger.error('Error updating player rankings for game:', {
+				gameId,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+		}
+
+		const matchupChanged =
+			!!afterData &&
+			(beforeData?.home?.id !== afterData.home?.id ||
+				beforeData?.away?.id !== afterData.away?.id ||
+				beforeData?.date.toMillis() !== afterData.date.toMillis())
+		if (matchupChanged) {
+			try {
+				await refreshGamePrediction(gameId, afterData)
+			} catch (error) {
+				// The scheduled rankings update refreshes upcoming predictions
+				logger.error('Error updating game prediction:', {
+					gameId,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				})
+			}
+		}
+
+		if (beforeData && afterData) {
+			try {
+				await emailRescheduledGame(beforeData, afterData)
+			} catch (error) {
+				logger.error('Error emailing rescheduled game:', {
+					gameId,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				})
+			}
+		}
+
+		// The bump's own write changes none of these fields, so it doesn't
+		// bump again
+		if (
+			beforeData &&
+			afterData &&
+			calendarEventChanged(beforeData, afterData)
+		) {
+			try {
+				await event.data?.after.ref.update({
+					calendarSequence: FieldValue.increment(1),
+				})
+			} catch (error) {
+				logger.error('Error bumping game calendar sequence:', {
+					gameId,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				})
+			}
+		}
+
+		const historyTeamIds = getTeamsWithChangedHistory(beforeData, afterData)
+		if (historyTeamIds.length > 0) {
+			// Failures are logged per team; the admin rebuild catches up
+			await refreshTeamHistories(historyTeamIds)
+		}
+
+		// A game can become final without its score changing (e.g. a scored
+		// game that was postponed), so this runs before the score check
+		if (afterData) {
+			try {
+				await promptSpiritRatings(beforeData, afterData)
+			} catch (error) {
+				logger.error('Error prompting spirit ratings:', {
+					gameId,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				})
+			}
+		}
+
+		// Only react when the score differs from before
+		if (
+			!afterData ||
+			(beforeData?.homeScore === afterData.homeScore &&
+				beforeData?.awayScore === afterData.awayScore)
+		) {
+			return
+		}
+
+		try {
+			await recordPredictionOutcome(gameId, afterData)
+		} catch (error) {
+			logger.error('Error recording game prediction outcome:', {
+				gameId,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+		}
+
+		if (afterData.bracket?.winnerTo) {
+			try {
+				const advanced = await advanceBracketWinner(gameId, afterData)
+				if (advanced) {
+					logger.info(`Advanced bracket winner from game ${gameId}`, {
+						gameId,
+						nextGameId: afterData.bracket.winnerTo.game.id,
+					})
+				}
+			} catch (error) {
+				logger.error('Error advancing playoff bracket winner:', {
+					gameId,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				})
+			}
+		}
+
+		// Badge rules need a full score
+		if (
+			typeof afterData.homeScore !== 'number' ||
+			typeof afterData.awayScore !== 'number'
+		) {
+			return
+		}
+
+		const teamIds = [afterData.home?.id, afterData.away?.id].filter(
+			(teamId): teamId is string => Boolean(teamId)
+		)
+		if (teamIds.length === 0) return
+
+		try {
+			const { awards } = await evaluateBadgeRules({
+				seasonId: afterData.season.id,
+				scope: 'game',
+				teamIds,
+			})
+
+			if (awards.length > 0) {
+				logger.info(`Badges awarded after game ${gameId} was scored`, {
+					gameId,
+					awards,
+				})
+			}
+		} catch (error) {
+			logger.error('Error evaluating badge rules for scored game:', {
+				gameId,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+		}
+	}
+)
@@ -1,10 +1,14 @@
 /**
  * Offer document update trigger
  *
- * Side effects of accepting an offer:
+ * Side effects of accepting an offer (if the team is still within the
+ * season's roster limits):
  *  - Add the player to the team's roster subcollection for the offer's season
  *  - Update the player's season subdoc to point at the new team
  *  - Cancel any other pending offers for that player in that season
+ *  - Notify and email whoever sent the offer
+ *
+ * Rejecting an offer only notifies whoever sent it.
  */
 
 import { onDocumentUpdated } from 'firebase-functions/v2/firestore'
@@ -13,18 +17,67 @@ import { logger } from 'firebase-functions/v2'
 import {
 	Collections,
 	DocumentReference,
+	NotificationType,
 	OfferDocument,
 	OfferStatus,
+	OfferType,
 } from '../../types.js'
-import { FIREBASE_CONFIG } from '../../config/constants.js'
+import { EMAIL_CONFIG, FIREBASE_CONFIG } from '../../config/constants.js'
 import { playerSeasonRef, teamSeasonRef } from '../../shared/database.js'
 import { addPlayerToTeam } from '../../shared/membership.js'
+import {
+	getRosterComposition,
+	validateRosterAddition,
+} from '../../shared/rosterLimits.js'
+import { resolveSeasonRules } from '../../shared/seasonRules.js'
 import { isMigrationInProgress } from '../../shared/maintenance.js'
+import { notifyOfferParty } from '../../shared/notifications.js'
+import { sendPlayerEmails } from '../../services/email/index.js'
+
+/**
+ * Tells the sender of an offer that it was accepted or rejected: the team's
+ * captains for invitations, the player for requests. Acceptances are also
+ * emailed.
+ */
+async function notifyOfferResponse(
+	firestore: FirebaseFirestore.Firestore,
+	offer: OfferDocument,
+	status: OfferStatus.ACCEPTED | OfferStatus.REJECTED
+): Promise<void> {
+	const isInvitation = offer.type === OfferType.INVITATION
+	const accepted = status === OfferStatus.ACCEPTED
+	const verb = accepted ? 'accepted' : 'declined'
+
+	const party = await notifyOfferParty(
+		firestore,
+		offer,
+		isInvitation,
+		({ playerName, teamName }) => ({
+			type: accepted
+				? NotificationType.OFFER_ACCEPTED
+				: NotificationType.OFFER_REJECTED,
+			title: isInvitation ? `Invitation ${verb}` : `Request ${verb}`,
+			body: isInvitation
+				? `${playerName} ${verb} the invitation to join ${teamName}.`
+				: `${teamName} ${verb} your request to join.`,
+			link: accepted && !isInvitation ? `/teams/${offer.team.id}` : '/manage',
+		})
+	)
+
+	if (party && accepted) {
+		await sendPlayerEmails(firestore, party.recipientIds, 'offerAccepted', {
+			isInvitation,
+			...party.names,
+			link: isInvitation ? '/manage' : `/teams/${offer.team.id}`,
+		})
+	}
+}
 
 export const onOfferUpdated = onDocumentUpdated(
 	{
 		document: 'offers/{offerId}',
 		region: FIREBASE_CONFIG.REGION,
+		secrets: [...EMAIL_CONFIG.SECRETS],
 	},
 	async (event) => {
 		if (await isMigrationInProgress(getFirestore())) {
@@ -38,15 +91,22 @@ export const onOfferUpdated = onDocumentUpdated(
 		const beforeData = event.data?.before.data() as OfferDocument | undefined
 		const afterData = event.data?.after.data() as OfferDocument | undefined
 
-		// Only process when status changes to ACCEPTED
-		if (
-			beforeData?.status !== OfferStatus.PENDING ||
-			afterData?.status !== OfferStatus.ACCEPTED
-		) {
+		if (beforeData?.status !== OfferStatus.PENDING || !afterData) {
 			return
 		}
 
 		const offerId = event.params.offerId
+
+		if (afterData.status === OfferStatus.REJECTED) {
+			await notifyOfferResponse(getFirestore(), afterData, OfferStatus.REJECTED)
+			return
+		}
+
+		// Only process further when status changes to ACCEPTED
+		if (afterData.status !== OfferStatus.ACCEPTED) {
+			return
+		}
+
 		logger.info(`Processing accepted offer: ${offerId}`)
 
 		try {
@@ -85,6 +145,20 @@ export const onOfferUpdated = onDocumentUpdated(
 					throw new Error('Player is already on a team for this season')
 				}
 
+				// Re-check the roster limits: other offers may have filled the
+				// team since this one was accepted.
+				const [seasonSnap, playerSnap, composition] = await Promise.all([
+					transaction.get(seasonRef),
+					transaction.get(playerCanonicalRef),
+					getRosterComposition(firestore, teamId, seasonId, transaction),
+				])
+				validateRosterAddition(
+					resolveSeasonRules(seasonSnap.data()),
+					composition,
+					{ captain: false, gender: playerSnap.data()?.gender },
+					teamSeasonSnap.data()?.name ?? 'This team'
+				)
+
 				// Atomic dual-write of the membership relationship.
 				addPlayerToTeam(transaction, firestore, {
 					playerId,
@@ -124,6 +198,8 @@ export const onOfferUpdated = onDocumentUpdated(
 					canceledPendingOffers: canceledOffersCount,
 				})
 			})
+
+			await notifyOfferResponse(firestore, afterData, OfferStatus.ACCEPTED)
 		} catch (error) {
 			logger.error(`Error processing offer acceptance: ${offerId}`, error)
 
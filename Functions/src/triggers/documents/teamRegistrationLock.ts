@@ -1,42 +1,139 @@
 /**
  * Team registration lock trigger
  *
- * Fires when a team's per-season registration flag flips from false → true.
- * When the threshold (12 registered teams) is reached, deletes every other
- * unregistered team-season participation for the current season.
+ * Fires when a team's per-season subdoc is written. Once the season's
+ * `registeredTeamsForLock` threshold (12 registered teams by default) is
+ * reached, further qualifying teams are waitlisted rather than registered.
+ * Whenever a team's registered or waitlisted status changes — including the
+ * team-season being deleted — the season's waitlist is re-synced so the next
+ * waitlisted team is promoted into any open spot and positions stay
+ * contiguous. The team's roster is notified when the team is registered,
+ * waitlisted, promoted off the waitlist or loses its registration, and is
+ * emailed when it is registered or waitlisted.
  */
 
-import { onDocumentUpdated } from 'firebase-functions/v2/firestore'
+import { onDocumentWritten } from 'firebase-functions/v2/firestore'
 import { getFirestore } from 'firebase-admin/firestore'
 import { logger } from 'firebase-functions/v2'
 import {
 	Collections,
-	TEAM_SEASONS_SUBCOLLECTION,
+	NotificationType,
+	SeasonDocument,
 	TeamSeasonDocument,
 } from '../../types.js'
-import { FIREBASE_CONFIG, TEAM_CONFIG } from '../../config/constants.js'
-import {
-	canonicalTeamIdFromTeamSeasonDoc,
-	getCurrentSeason,
-} from '../../shared/database.js'
-import { deleteUnregisteredTeamsForSeasonLock } from '../../services/teamDeletionService.js'
+import { EMAIL_CONFIG, FIREBASE_CONFIG } from '../../config/constants.js'
+import { teamSeasonRef } from '../../shared/database.js'
+import { sendPlayerEmails } from '../../services/email/index.js'
+import { syncSeasonWaitlist } from '../../services/teamWaitlistService.js'
 import { isMigrationInProgress } from '../../shared/maintenance.js'
+import {
+	getTeamRosterPlayerIds,
+	NotificationContent,
+	notifyPlayers,
+} from '../../shared/notifications.js'
+
+/**
+ * Describes a team's registration change for its roster, or returns null
+ * when the change is not worth a notification (e.g. the team was deleted)
+ */
+function describeRegistrationChange(
+	teamId: string,
+	beforeData: TeamSeasonDocument | undefined,
+	afterData: TeamSeasonDocument | undefined
+): NotificationContent | null {
+	if (!afterData) {
+		return null
+	}
+
+	const link = `/teams/${teamId}`
+	const base = { type: NotificationType.TEAM_REGISTRATION, link }
+	if (afterData.registered && !beforeData?.registered) {
+		return beforeData?.waitlisted
+			? {
+					...base,
+					title: 'Off the waitlist',
+					body: `A spot opened up and ${afterData.name} is now registered for the season.`,
+				}
+			: {
+					...base,
+					title: 'Team registered',
+					body: `${afterData.name} is registered for the season.`,
+				}
+	}
+	if (afterData.waitlisted && !beforeData?.waitlisted) {
+		return {
+			...base,
+			title: 'Team waitlisted',
+			body: `The season is full, so ${afterData.name} has been added to the waitlist.`,
+		}
+	}
+	if (beforeData?.registered && !afterData.registered) {
+		return {
+			...base,
+			title: 'Registration lost',
+			body: `${afterData.name} is no longer registered for the season.`,
+		}
+	}
+	return null
+}
 
-const LOCK_THRESHOLD = TEAM_CONFIG.REGISTERED_TEAMS_FOR_LOCK
+/**
+ * Emails the roster when the team is registered (including off the
+ * waitlist) or waitlisted because the season is full
+ */
+async function emailRegistrationChange(
+	firestore: FirebaseFirestore.Firestore,
+	teamId: string,
+	seasonId: string,
+	rosterIds: string[],
+	beforeData: TeamSeasonDocument | undefined,
+	afterData: TeamSeasonDocument
+): Promise<void> {
+	const registered = afterData.registered && !beforeData?.registered
+	const waitlisted = afterData.waitlisted && !beforeData?.waitlisted
+	if (!registered && !waitlisted) {
+		return
+	}
 
-export const onTeamRegistrationChange = onDocumentUpdated(
+	const [seasonSnap, teamSeasonSnap] = await Promise.all([
+		firestore.collection(Collections.SEASONS).doc(seasonId).get(),
+		teamSeasonRef(firestore, teamId, seasonId).get(),
+	])
+	const seasonName =
+		(seasonSnap.data() as SeasonDocument | undefined)?.name ?? 'the season'
+	const link = `/teams/${teamId}`
+
+	if (registered) {
+		await sendPlayerEmails(firestore, rosterIds, 'teamRegistered', {
+			teamName: afterData.name,
+			seasonName,
+			fromWaitlist: Boolean(beforeData?.waitlisted),
+			link,
+		})
+	} else {
+		await sendPlayerEmails(firestore, rosterIds, 'registrationLock', {
+			teamName: afterData.name,
+			seasonName,
+			waitlistPosition: teamSeasonSnap.data()?.waitlistPosition ?? null,
+			link,
+		})
+	}
+}
+
+export const onTeamRegistrationChange = onDocumentWritten(
 	{
 		document: 'teams/{teamId}/teamSeasons/{seasonId}',
 		region: FIREBASE_CONFIG.REGION,
+		secrets: [...EMAIL_CONFIG.SECRETS],
 	},
 	async (event) => {
-		const { teamId: paramTeamId, seasonId: paramSeasonId } = event.params
+		const { teamId, seasonId } = event.params
 
 		if (await isMigrationInProgress(getFirestore())) {
 			logger.info('Skipping onTeamRegistrationChange — migration in progress', {
 				eventId: event.id,
-				teamId: paramTeamId,
-				seasonId: paramSeasonId,
+				teamId,
+				seasonId,
 			})
 			return
 		}
@@ -46,78 +143,67 @@ export const onTeamRegistrationChange = onDocumentUpdated(
 			| undefined
 		const afterData = event.data?.after.data() as TeamSeasonDocument | undefined
 
-		// Only process when registration flips from false → true.
-		if (beforeData?.registered !== false || afterData?.registered !== true) {
+		// Only registration or waitlist changes can open a spot or move the
+		// waitlist. Position-only updates come from the sync itself.
+		const registeredChanged =
+			Boolean(beforeData?.registered) !== Boolean(afterData?.registered)
+		const waitlistedChanged =
+			Boolean(beforeData?.waitlisted) !== Boolean(afterData?.waitlisted)
+		if (!registeredChanged && !waitlistedChanged) {
 			return
 		}
 
-		const { teamId, seasonId } = event.params
-		logger.info(`Team became registered: ${teamId}/${seasonId}`)
+		logger.info(`Team registration changed: ${teamId}/${seasonId}`, {
+			registered: Boolean(afterData?.registered),
+			waitlisted: Boolean(afterData?.waitlisted),
+			deleted: !afterData,
+		})
 
 		try {
-			const firestore = getFirestore()
-			const currentSeason = await getCurrentSeason()
-			if (!currentSeason || currentSeason.id !== seasonId) {
-				// Only the current season triggers the lock cascade.
-				return
-			}
-
-			// Count registered teams in this season via the per-team season subcollection.
-			const seasonDocRef = firestore
-				.collection(Collections.SEASONS)
-				.doc(seasonId)
-			const registeredSnapshot = await firestore
-				.collectionGroup(TEAM_SEASONS_SUBCOLLECTION)
-				.where('season', '==', seasonDocRef)
-				.where('registered', '==', true)
-				.get()
-
-			const registeredTeamCount = registeredSnapshot.size
-			logger.info(`Current registered team count: ${registeredTeamCount}`)
+			const { promotedTeamIds, waitlistedCount } =
+				await syncSeasonWaitlist(seasonId)
 
-			if (registeredTeamCount !== LOCK_THRESHOLD) {
-				return
-			}
-
-			logger.info(`${LOCK_THRESHOLD} teams registered! Locking registration...`)
-
-			// Find all UNREGISTERED team-season subdocs for this season.
-			const unregisteredSnapshot = await firestore
-				.collectionGroup(TEAM_SEASONS_SUBCOLLECTION)
-				.where('season', '==', seasonDocRef)
-				.where('registered', '==', false)
-				.get()
-
-			if (unregisteredSnapshot.empty) return
-
-			const pairs = unregisteredSnapshot.docs.map((d) => ({
-				teamId: canonicalTeamIdFromTeamSeasonDoc(
-					d as FirebaseFirestore.QueryDocumentSnapshot<TeamSeasonDocument>
-				),
+			logger.info('Synced season waitlist', {
+				seasonId,
+				promotedTeamIds,
+				waitlistedCount,
+			})
+		} catch (error) {
+			logger.error('Error processing team registration lock:', {
+				teamId,
 				seasonId,
-			}))
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+		}
 
-			logger.info(`Deleting ${pairs.length} unregistered team-seasons...`)
+		// Tell the roster after the sync so a new waitlist position is known
+		const notification = describeRegistrationChange(
+			teamId,
+			beforeData,
+			afterData
+		)
+		if (!notification || !afterData) {
+			return
+		}
 
-			const results = await deleteUnregisteredTeamsForSeasonLock(
+		try {
+			const firestore = getFirestore()
+			const rosterIds = await getTeamRosterPlayerIds(
 				firestore,
-				pairs
+				teamId,
+				seasonId
+			)
+			await notifyPlayers(firestore, rosterIds, notification)
+			await emailRegistrationChange(
+				firestore,
+				teamId,
+				seasonId,
+				rosterIds,
+				beforeData,
+				afterData
 			)
-
-			const successCount = results.filter((r) => r.success).length
-			const failCount = results.filter((r) => !r.success).length
-			logger.info('Completed unregistered team deletion', {
-				successCount,
-				failCount,
-				deletedTeams: results
-					.filter((r) => r.success)
-					.map((r) => ({ id: r.teamId, name: r.teamName })),
-				failedTeams: results
-					.filter((r) => !r.success)
-					.map((r) => ({ id: r.teamId, name: r.teamName, error: r.error })),
-			})
 		} catch (error) {
-			logger.error('Error processing team registration lock:', {
+			logger.error('Error notifying team registration change:', {
 				teamId,
 				seasonId,
 				error: error instanceof Error ? error.message : 'Unknown error',
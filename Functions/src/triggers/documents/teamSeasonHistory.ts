@@ -0,0 +1,62 @@
+/**
+ * Team season history trigger
+ *
+ * Fires when a team's per-season subdoc is written. Rebuilds the team's
+ * precomputed history when the season entry is added or removed, or its
+ * name or placement changes, since those appear in the history without a
+ * game changing.
+ */
+
+import { onDocumentWritten } from 'firebase-functions/v2/firestore'
+import { getFirestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { TeamSeasonDocument } from '../../types.js'
+import { FIREBASE_CONFIG } from '../../config/constants.js'
+import { refreshTeamHistory } from '../../services/teamHistory/index.js'
+import { isMigrationInProgress } from '../../shared/maintenance.js'
+
+export const onTeamSeasonHistoryChange = onDocumentWritten(
+	{
+		document: 'teams/{teamId}/teamSeasons/{seasonId}',
+		region: FIREBASE_CONFIG.REGION,
+	},
+	async (event) => {
+		const { teamId, seasonId } = event.params
+
+		if (await isMigrationInProgress(getFirestore())) {
+			logger.info(
+				'Skipping onTeamSeasonHistoryChange — migration in progress',
+				{
+					eventId: event.id,
+					teamId,
+					seasonId,
+				}
+			)
+			return
+		}
+
+		const beforeData = event.data?.before.data() as
+			| TeamSeasonDocument
+			| undefined
+		const afterData = event.data?.after.data() as TeamSeasonDocument | undefined
+
+		if (
+			beforeData &&
+			afterData &&
+			beforeData.name === afterData.name &&
+			(beforeData.placement ?? null) === (afterData.placement ?? null)
+		) {
+			return
+		}
+
+		try {
+			await refreshTeamHistory(teamId)
+		} catch (error) {
+			logger.error('Error refreshing team history for season change:', {
+				teamId,
+				seasonId,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+		}
+	}
+)
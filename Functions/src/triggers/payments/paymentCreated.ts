@@ -14,11 +14,13 @@ import {
 import { handleFunctionError } from '../../shared/errors.js'
 import { getCurrentSeason, playerSeasonRef } from '../../shared/database.js'
 import { isMigrationInProgress } from '../../shared/maintenance.js'
+import { sendPlayerEmails } from '../../services/email/index.js'
 import { SignatureRequestApi, SubSigningOptions } from '@dropbox/sign'
 
 /**
- * When a payment is created and succeeded, update the player's paid status
- * and send them a Dropbox signature request for the waiver
+ * When a payment is created and succeeded, update the player's paid status,
+ * email them a receipt and send them a Dropbox signature request for the
+ * waiver
  *
  * @see https://firebase.google.com/docs/functions/firestore-events#trigger_a_function_when_a_new_document_is_created
  */
@@ -26,7 +28,7 @@ export const onPaymentCreated = onDocumentCreated(
 	{
 		document: 'stripe/{uid}/payments/{paymentId}',
 		region: FIREBASE_CONFIG.REGION,
-		secrets: ['DROPBOX_SIGN_API_KEY'],
+		secrets: ['DROPBOX_SIGN_API_KEY', ...EMAIL_CONFIG.SECRETS],
 	},
 	async (event) => {
 		const { uid, paymentId } = event.params
@@ -70,6 +72,11 @@ export const onPaymentCreated = onDocumentCreated(
 				throw new Error('No current season found')
 			}
 
+			// Record the season so later refunds and disputes can find it
+			if (!paymentData.seasonId) {
+				await paymentDoc.ref.update({ seasonId: currentSeason.id })
+			}
+
 			// Atomically check + update the player's per-season paid flag.
 			const playerRef = firestore.collection(Collections.PLAYERS).doc(uid)
 			const playerSeasonDocRef = playerSeasonRef(
@@ -126,6 +133,14 @@ export const onPaymentCreated = onDocumentCreated(
 				return
 			}
 
+			await sendPlayerEmails(firestore, [uid], 'paymentReceipt', {
+				seasonName: currentSeason.name,
+				amountTotal: paymentData.amountTotal ?? null,
+				currency: paymentData.currency ?? null,
+				sessionId: paymentId,
+				link: '/profile',
+			})
+
 			// Check if waiver already exists for this player/season (idempotency check)
 			const existingWaiver = await firestore
 				.collection(Collections.DROPBOX)
@@ -0,0 +1,201 @@
+/**
+ * Offer expiry
+ *
+ * Runs hourly over pending offers that have an `expiresAt`:
+ *  - Offers within their season's `offerReminderHours` of expiring get a
+ *    reminder notification for the recipient, recorded once as
+ *    `reminderSentAt`. The record is released if the notification can't be
+ *    written, so `reminderSentAt` only stays set on offers whose recipient
+ *    was actually reminded.
+ *  - Offers past `expiresAt` are canceled with `canceledReason` set to
+ *    OFFER_EXPIRED_REASON.
+ *
+ * Each offer is re-read in its own transaction so an offer accepted or
+ * canceled while the job runs is left alone.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler'
+import { FieldValue, getFirestore, Timestamp } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import {
+	Collections,
+	DocumentReference,
+	NotificationType,
+	OFFER_EXPIRED_REASON,
+	OfferDocument,
+	OfferStatus,
+	OfferType,
+	SeasonDocument,
+} from '../../types.js'
+import { FIREBASE_CONFIG } from '../../config/constants.js'
+import {
+	ResolvedSeasonRules,
+	resolveSeasonRules,
+} from '../../shared/seasonRules.js'
+import { isMigrationInProgress } from '../../shared/maintenance.js'
+import { notifyOfferParty } from '../../shared/notifications.js'
+
+/**
+ * Cancels a pending offer that has passed its expiry
+ *
+ * @returns Whether the offer was canceled
+ */
+async function expireOffer(
+	firestore: FirebaseFirestore.Firestore,
+	offerRef: DocumentReference<OfferDocument>,
+	now: Timestamp
+): Promise<boolean> {
+	return firestore.runTransaction(async (transaction) => {
+		const offer = (await transaction.get(offerRef)).data()
+		if (
+			offer?.status !== OfferStatus.PENDING ||
+			!offer.expiresAt ||
+			offer.expiresAt.toMillis() > now.toMillis()
+		) {
+			return false
+		}
+
+		transaction.update(offerRef, {
+			status: OfferStatus.CANCELED,
+			respondedAt: now,
+			canceledReason: OFFER_EXPIRED_REASON,
+		})
+		return true
+	})
+}
+
+/**
+ * Records that the recipient of a pending offer has been reminded, so the
+ * reminder notification is only sent once
+ *
+ * The recipient is the player for invitations and the team's captains for
+ * requests.
+ *
+ * @returns Whether a reminder was recorded
+ */
+async function remindOfferRecipient(
+	firestore: FirebaseFirestore.Firestore,
+	offerRef: DocumentReference<OfferDocument>,
+	now: Timestamp
+): Promise<boolean> {
+	return firestore.runTransaction(async (transaction) => {
+		const offer = (await transaction.get(offerRef)).data()
+		if (offer?.status !== OfferStatus.PENDING || offer.reminderSentAt) {
+			return false
+		}
+
+		transaction.update(offerRef, { reminderSentAt: now })
+		return true
+	})
+}
+
+/**
+ * Clears a reminder record whose notification couldn't be written, so the
+ * next run tries again
+ */
+async function releaseReminder(
+	offerRef: DocumentReference<OfferDocument>,
+	now: Timestamp
+): Promise<void> {
+	await offerRef.firestore.runTransaction(async (transaction) => {
+		const offer = (await transaction.get(offerRef)).data()
+		if (offer?.reminderSentAt?.isEqual(now)) {
+			transaction.update(offerRef, { reminderSentAt: FieldValue.delete() })
+		}
+	})
+}
+
+export const expireOffers = onSchedule(
+	{
+		schedule: 'every 60 minutes',
+		timeZone: 'America/Chicago',
+		region: FIREBASE_CONFIG.REGION,
+	},
+	async () => {
+		const firestore = getFirestore()
+
+		if (await isMigrationInProgress(firestore)) {
+			logger.info('Skipping expireOffers — migration in progress')
+			return
+		}
+
+		const now = Timestamp.now()
+		const pendingOffers = await firestore
+			.collection(Collections.OFFERS)
+			.where('status', '==', OfferStatus.PENDING)
+			.where('expiresAt', '!=', null)
+			.get()
+
+		const rulesBySeason = new Map<string, ResolvedSeasonRules>()
+		const rulesFor = async (
+			seasonRef: DocumentReference<SeasonDocument>
+		): Promise<ResolvedSeasonRules> => {
+			let rules = rulesBySeason.get(seasonRef.id)
+			if (!rules) {
+				rules = resolveSeasonRules((await seasonRef.get()).data())
+				rulesBySeason.set(seasonRef.id, rules)
+			}
+			return rules
+		}
+
+		let expired = 0
+		let reminded = 0
+		for (const offerDoc of pendingOffers.docs) {
+			const offer = offerDoc.data() as OfferDocument
+			const offerRef = offerDoc.ref as DocumentReference<OfferDocument>
+			if (!offer.expiresAt) continue
+
+			try {
+				if (offer.expiresAt.toMillis() <= now.toMillis()) {
+					if (await expireOffer(firestore, offerRef, now)) expired++
+					continue
+				}
+
+				if (offer.reminderSentAt) continue
+				const { offerReminderHours } = await rulesFor(offer.season)
+				const remindAfter =
+					offer.expiresAt.toMillis() - offerReminderHours * 60 * 60 * 1000
+				if (offerReminderHours > 0 && now.toMillis() >= remindAfter) {
+					if (await remindOfferRecipient(firestore, offerRef, now)) {
+						const isInvitation = offer.type === OfferType.INVITATION
+						const party = await notifyOfferParty(
+							firestore,
+							offer,
+							!isInvitation,
+							({ playerName, teamName }) => ({
+								type: NotificationType.OFFER_EXPIRING,
+								title: isInvitation
+									? 'Invitation expiring soon'
+									: 'Join request expiring soon',
+								body: isInvitation
+									? `Your invitation from ${teamName} expires in less than ${offerReminderHours} hours.`
+									: `${playerName}'s request to join ${teamName} expires in less than ${offerReminderHours} hours.`,
+								link: '/manage',
+							})
+						)
+						if (
+							!party ||
+							(party.notified === 0 && party.recipientIds.length > 0)
+						) {
+							await releaseReminder(offerRef, now)
+							continue
+						}
+						reminded++
+					}
+				}
+			} catch (error) {
+				// Leave the offer as is so the next run retries
+				logger.error('Error processing offer expiry:', {
+					offerId: offerDoc.id,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				})
+			}
+		}
+
+		logger.info('Processed offer expiry', {
+			pendingOffers: pendingOffers.size,
+			expired,
+			reminded,
+		})
+	}
+)
@@ -0,0 +1,71 @@
+/**
+ * Scheduled player rankings update
+ *
+ * Runs hourly as a backstop to the onGameScored trigger. Applies any scored
+ * rounds after the rankings checkpoint that are now ready (e.g. a round
+ * whose last game was never scored, once it has settled), and runs a full
+ * rebuild when an edit to an already processed game has flagged one. Then
+ * refreshes the pre-game predictions of upcoming games from the updated
+ * rankings and current rosters.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler'
+import { getFirestore } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { FIREBASE_CONFIG } from '../../config/constants.js'
+import {
+	applyNewRounds,
+	loadCheckpoint,
+	runFullRebuild,
+} from '../../services/playerRankings/index.js'
+import { refreshUpcomingPredictions } from '../../services/gamePredictions/index.js'
+import { isMigrationInProgress } from '../../shared/maintenance.js'
+
+export const updatePlayerRankings = onSchedule(
+	{
+		schedule: 'every 1 hours',
+		timeZone: 'America/Chicago',
+		region: FIREBASE_CONFIG.REGION,
+		timeoutSeconds: 540,
+		memory: '1GiB',
+	},
+	async () => {
+		if (await isMigrationInProgress(getFirestore())) {
+			logger.info('Skipping updatePlayerRankings — migration in progress')
+			return
+		}
+
+		const checkpoint = await loadCheckpoint()
+		if (!checkpoint) {
+			logger.info('No rankings checkpoint yet — run a full rebuild first')
+			return
+		}
+
+		const result = checkpoint.rebuildRequired
+			? await runFullRebuild('system')
+			: await applyNewRounds('system')
+
+		if (result?.status === 'failed') {
+			logger.error('Scheduled player rankings update failed', {
+				calculationId: result.calculationId,
+				rebuild: !!checkpoint.rebuildRequired,
+				error: result.error,
+			})
+		} else if (result) {
+			logger.info('Scheduled player rankings update completed', {
+				calculationId: result.calculationId,
+				rebuild: !!checkpoint.rebuildRequired,
+				reason: checkpoint.rebuildRequired?.reason,
+			})
+		}
+
+		// Rosters change between rankings updates, so refresh regardless
+		try {
+			await refreshUpcomingPredictions()
+		} catch (error) {
+			logger.error('Error refreshing upcoming game predictions:', {
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+		}
+	}
+)
@@ -0,0 +1,61 @@
+/**
+ * Season end badge evaluation
+ *
+ * Runs nightly. For every season that has ended but hasn't had its badge
+ * rules evaluated yet, checks every rule-driven badge against the season's
+ * teams and records `badgesEvaluatedAt` on the season so it only runs once.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler'
+import { getFirestore, Timestamp } from 'firebase-admin/firestore'
+import { logger } from 'firebase-functions/v2'
+import { Collections, SeasonDocument } from '../../types.js'
+import { FIREBASE_CONFIG } from '../../config/constants.js'
+import { evaluateBadgeRules } from '../../services/badgeRules/index.js'
+import { isMigrationInProgress } from '../../shared/maintenance.js'
+
+export const evaluateBadgesAtSeasonEnd = onSchedule(
+	{
+		schedule: 'every day 03:00',
+		timeZone: 'America/Chicago',
+		region: FIREBASE_CONFIG.REGION,
+	},
+	async () => {
+		const firestore = getFirestore()
+
+		if (await isMigrationInProgress(firestore)) {
+			logger.info('Skipping evaluateBadgesAtSeasonEnd — migration in progress')
+			return
+		}
+
+		const endedSeasons = await firestore
+			.collection(Collections.SEASONS)
+			.where('dateEnd', '<=', Timestamp.now())
+			.get()
+		const pendingSeasons = endedSeasons.docs.filter(
+			(doc) => !(doc.data() as SeasonDocument).badgesEvaluatedAt
+		)
+
+		for (const seasonDoc of pendingSeasons) {
+			try {
+				const { awards, teamsEvaluated } = await evaluateBadgeRules({
+					seasonId: seasonDoc.id,
+					scope: 'season',
+				})
+				await seasonDoc.ref.update({ badgesEvaluatedAt: Timestamp.now() })
+
+				logger.info(`Evaluated season end badges: ${seasonDoc.id}`, {
+					seasonId: seasonDoc.id,
+					teamsEvaluated,
+					awardsCount: awards.length,
+				})
+			} catch (error) {
+				// Leave badgesEvaluatedAt unset so the next run retries
+				logger.error('Error evaluating season end badges:', {
+					seasonId: seasonDoc.id,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				})
+			}
+		}
+	}
+)